@@ -5,6 +5,8 @@
  * - Hono HTTP server with tRPC integration
  * - Health checks with multiple services
  * - Structured logging
+ * - Prometheus metrics at /metrics
+ * - Distributed tracing, exported over OTLP when a collector is configured
  * - Cache layer (Redis-compatible)
  * - Authentication with JWT
  * - Role-based access control
@@ -18,6 +20,13 @@ import {
   runHealthChecks,
 } from "@vibeonrails/infra/health";
 import { Logger } from "@vibeonrails/infra/logging";
+import {
+  createMetricsHandler,
+  recordHttpRequest,
+  registerDefaultMetrics,
+  shutdownTracing,
+  startTracing,
+} from "@vibeonrails/infra/monitoring";
 import { appRouter } from "./router.js";
 
 // Set up structured logging
@@ -42,13 +51,27 @@ registerHealthCheck("api", async () => {
 //   return { status: 'healthy' };
 // });
 
+// Expose HTTP, database and queue metrics from the first scrape
+registerDefaultMetrics();
+
+// Export spans to an OpenTelemetry collector, e.g. OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318
+if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+  startTracing({ serviceName: "vibe-saas" });
+  process.on("SIGTERM", () => void shutdownTracing());
+}
+
 // Create the server
 const app = createServer({
   router: appRouter,
   trpcPath: "/trpc",
   corsOrigin: process.env.CORS_ORIGIN ?? "*",
+  onRequest: recordHttpRequest,
 });
 
+// Prometheus scrape endpoint
+const metrics = createMetricsHandler();
+app.get("/metrics", (c) => metrics(c.req.raw));
+
 // Start listening
 const port = Number(process.env.PORT) || 3000;
 
@@ -66,5 +89,6 @@ export default {
 logger.info("Server is ready", {
   url: `http://localhost:${port}`,
   health: `http://localhost:${port}/health`,
+  metrics: `http://localhost:${port}/metrics`,
   trpc: `http://localhost:${port}/trpc`,
 });
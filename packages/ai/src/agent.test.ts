@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { runAgent, executeToolCall } from "./agent.js";
+import { defineTool } from "./tools.js";
+import { type AIProvider, type ChatOptions, type ChatResponse, AIError } from "./types.js";
+
+function createMockProvider(
+  responses: ChatResponse[],
+  toolUse = true,
+): AIProvider & { calls: ChatOptions[] } {
+  const calls: ChatOptions[] = [];
+  return {
+    name: "anthropic",
+    capabilities: {
+      vision: true,
+      toolUse,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+    },
+    calls,
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    async chat(options) {
+      calls.push({ ...options, messages: [...options.messages] });
+      const response = responses.shift();
+      if (!response) throw new Error("No more mock responses");
+      return response;
+    },
+    async generateStructured() {
+      throw new Error("Not implemented");
+    },
+  };
+}
+
+const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+const addTool = defineTool({
+  name: "add",
+  description: "Add two numbers",
+  inputSchema: z.object({ a: z.number(), b: z.number() }),
+  execute: ({ a, b }) => ({ sum: a + b }),
+});
+
+describe("executeToolCall", () => {
+  it("should execute the tool and serialize the result", async () => {
+    const result = await executeToolCall([addTool], {
+      id: "call_1",
+      name: "add",
+      arguments: { a: 2, b: 3 },
+    });
+    expect(result).toEqual({
+      call: { id: "call_1", name: "add", arguments: { a: 2, b: 3 } },
+      content: '{"sum":5}',
+      isError: false,
+    });
+  });
+
+  it("should report unknown tools as errors", async () => {
+    const result = await executeToolCall([addTool], {
+      id: "call_1",
+      name: "subtract",
+      arguments: {},
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content).toBe('Unknown tool "subtract"');
+  });
+
+  it("should report invalid arguments as errors", async () => {
+    const result = await executeToolCall([addTool], {
+      id: "call_1",
+      name: "add",
+      arguments: { a: "two" },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('Invalid arguments for tool "add"');
+  });
+
+  it("should report thrown errors as errors", async () => {
+    const failing = defineTool({
+      name: "fail",
+      description: "Always fails",
+      inputSchema: z.object({}),
+      execute: () => {
+        throw new Error("boom");
+      },
+    });
+    const result = await executeToolCall([failing], {
+      id: "call_1",
+      name: "fail",
+      arguments: {},
+    });
+    expect(result).toMatchObject({
+      content: 'Tool "fail" failed: boom',
+      isError: true,
+    });
+  });
+});
+
+describe("runAgent", () => {
+  it("should run tools until the model stops calling them", async () => {
+    const provider = createMockProvider([
+      {
+        content: "",
+        model: "test",
+        usage,
+        finishReason: "toolUse",
+        toolCalls: [{ id: "call_1", name: "add", arguments: { a: 2, b: 3 } }],
+      },
+      { content: "The sum is 5.", model: "test", usage, finishReason: "stop" },
+    ]);
+    const onToolResult = vi.fn();
+
+    const result = await runAgent(provider, {
+      messages: [{ role: "user", content: "What is 2 + 3?" }],
+      tools: [addTool],
+      onToolResult,
+    });
+
+    expect(result.response.content).toBe("The sum is 5.");
+    expect(result.steps).toHaveLength(2);
+    expect(result.usage).toEqual({
+      promptTokens: 20,
+      completionTokens: 10,
+      totalTokens: 30,
+    });
+    expect(onToolResult).toHaveBeenCalledOnce();
+    expect(result.messages).toEqual([
+      { role: "user", content: "What is 2 + 3?" },
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [{ id: "call_1", name: "add", arguments: { a: 2, b: 3 } }],
+      },
+      { role: "tool", content: '{"sum":5}', toolCallId: "call_1" },
+      { role: "assistant", content: "The sum is 5." },
+    ]);
+
+    // Second request includes the tool result
+    expect(provider.calls[1].messages).toHaveLength(3);
+    expect(provider.calls[1].tools).toEqual([addTool]);
+    expect(provider.calls[1].stream).toBe(false);
+  });
+
+  it("should throw when the provider does not support tool use", async () => {
+    const provider = createMockProvider([], false);
+    await expect(
+      runAgent(provider, {
+        messages: [{ role: "user", content: "Hi" }],
+        tools: [addTool],
+      }),
+    ).rejects.toMatchObject({ code: "CAPABILITY_NOT_SUPPORTED" });
+  });
+
+  it("should throw after maxSteps", async () => {
+    const toolResponse: ChatResponse = {
+      content: "",
+      model: "test",
+      usage,
+      finishReason: "toolUse",
+      toolCalls: [{ id: "call_1", name: "add", arguments: { a: 1, b: 1 } }],
+    };
+    const provider = createMockProvider([toolResponse, { ...toolResponse }]);
+
+    await expect(
+      runAgent(provider, {
+        messages: [{ role: "user", content: "Loop" }],
+        tools: [addTool],
+        maxSteps: 2,
+      }),
+    ).rejects.toThrow(AIError);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Agent Loop
+ *
+ * Runs a chat conversation with tools until the model stops calling them.
+ * Each round: send messages → execute requested tool calls → append
+ * tool results → repeat, bounded by `maxSteps`.
+ *
+ * Usage:
+ *   import { createAI, runAgent, defineTool } from '@vibeonrails/ai';
+ *
+ *   const result = await runAgent(createAI(), {
+ *     messages: [{ role: 'user', content: 'Where is order 42?' }],
+ *     tools: [getOrder],
+ *   });
+ *   console.log(result.response.content);
+ */
+
+import {
+  type AIProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResponse,
+  type ToolCall,
+  type TokenUsage,
+  AIError,
+} from "./types.js";
+import { type Tool, parseToolArguments } from "./tools.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RunAgentOptions extends Omit<ChatOptions, "tools" | "stream"> {
+  /** Tools the model may call, with their handlers */
+  tools: Tool[];
+  /** Maximum number of model round-trips (default: 10) */
+  maxSteps?: number;
+  /** Called after each tool call completes */
+  onToolResult?: (result: ToolCallResult) => void;
+}
+
+export interface ToolCallResult {
+  call: ToolCall;
+  /** Serialized result sent back to the model */
+  content: string;
+  isError: boolean;
+}
+
+export interface AgentStep {
+  response: ChatResponse;
+  toolResults: ToolCallResult[];
+}
+
+export interface RunAgentResult {
+  /** The final model response (no further tool calls) */
+  response: ChatResponse;
+  /** Full conversation, including tool calls and results */
+  messages: ChatMessage[];
+  steps: AgentStep[];
+  /** Token usage summed across all steps */
+  usage: TokenUsage;
+}
+
+const DEFAULT_MAX_STEPS = 10;
+
+// ---------------------------------------------------------------------------
+// Tool execution
+// ---------------------------------------------------------------------------
+
+function serializeToolOutput(output: unknown): string {
+  if (typeof output === "string") return output;
+  if (output === undefined) return "";
+  return JSON.stringify(output);
+}
+
+/**
+ * Execute a single tool call. Unknown tools, invalid arguments and thrown
+ * errors are reported back to the model as error results instead of
+ * aborting the loop, so the model can correct itself.
+ */
+export async function executeToolCall(
+  tools: Tool[],
+  call: ToolCall,
+): Promise<ToolCallResult> {
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) {
+    return { call, content: `Unknown tool "${call.name}"`, isError: true };
+  }
+
+  const parsed = parseToolArguments(tool, call);
+  if (!parsed.success) {
+    return { call, content: parsed.error, isError: true };
+  }
+
+  try {
+    const output = await tool.execute(parsed.data);
+    return { call, content: serializeToolOutput(output), isError: false };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { call, content: `Tool "${call.name}" failed: ${message}`, isError: true };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Agent loop
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the model with tools until it produces a final answer.
+ * Throws `CAPABILITY_NOT_SUPPORTED` if the provider does not support tool use, and
+ * `PROVIDER_ERROR` if the model is still calling tools after `maxSteps`.
+ */
+export async function runAgent(
+  provider: AIProvider,
+  options: RunAgentOptions,
+): Promise<RunAgentResult> {
+  if (!provider.supports("toolUse")) {
+    throw new AIError(
+      `Provider ${provider.name} does not support tool use`,
+      "CAPABILITY_NOT_SUPPORTED",
+      provider.name,
+    );
+  }
+
+  const { tools, maxSteps = DEFAULT_MAX_STEPS, onToolResult, ...chatOptions } = options;
+  const messages: ChatMessage[] = [...options.messages];
+  const steps: AgentStep[] = [];
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  for (let step = 0; step < maxSteps; step++) {
+    const response = (await provider.chat({
+      ...chatOptions,
+      messages,
+      tools,
+      stream: false,
+    })) as ChatResponse;
+
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+    usage.totalTokens += response.usage.totalTokens;
+
+    const toolCalls = response.toolCalls ?? [];
+    messages.push({
+      role: "assistant",
+      content: response.content,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    });
+
+    if (toolCalls.length === 0) {
+      steps.push({ response, toolResults: [] });
+      return { response, messages, steps, usage };
+    }
+
+    const toolResults: ToolCallResult[] = [];
+    for (const call of toolCalls) {
+      const result = await executeToolCall(tools, call);
+      toolResults.push(result);
+      onToolResult?.(result);
+      messages.push({
+        role: "tool",
+        content: result.content,
+        toolCallId: call.id,
+        ...(result.isError ? { isError: true } : {}),
+      });
+    }
+    steps.push({ response, toolResults });
+  }
+
+  throw new AIError(
+    `Agent did not finish within ${maxSteps} steps`,
+    "PROVIDER_ERROR",
+    provider.name,
+  );
+}
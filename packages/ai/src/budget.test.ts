@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  AIBudgetExceededError,
+  budgetPeriodKey,
+  createAIBudget,
+  type AIBudgetOptions,
+  type BudgetAlert,
+} from "./budget.js";
+import { AIError } from "./types.js";
+import type { AICallLogEntry } from "./logging.js";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+function makeEntry(costUsd: number, overrides: Partial<AICallLogEntry> = {}): AICallLogEntry {
+  return {
+    timestamp: NOW.toISOString(),
+    provider: "openai",
+    model: "gpt-4o",
+    durationMs: 100,
+    usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    estimatedCostUsd: costUsd,
+    success: true,
+    ...overrides,
+  };
+}
+
+function createBudget(options: Partial<AIBudgetOptions> & Pick<AIBudgetOptions, "policies">) {
+  return createAIBudget({ now: () => NOW, ...options });
+}
+
+describe("budgetPeriodKey", () => {
+  it("should key daily and monthly periods in UTC", () => {
+    const date = new Date("2026-03-31T23:30:00-02:00");
+    expect(budgetPeriodKey("daily", date)).toBe("2026-04-01");
+    expect(budgetPeriodKey("monthly", date)).toBe("2026-04");
+  });
+});
+
+describe("createAIBudget", () => {
+  it("should track spend per project, feature and user", () => {
+    const budget = createBudget({
+      project: "acme",
+      policies: [
+        { scope: "project", period: "monthly", limitUsd: 100 },
+        { scope: "feature", match: "support", period: "daily", limitUsd: 5 },
+        { scope: "user", period: "daily", limitUsd: 1 },
+      ],
+    });
+
+    budget.record(makeEntry(0.4, { feature: "support", userId: "u1" }));
+    budget.record(makeEntry(0.2, { feature: "search", userId: "u2" }));
+
+    const [project, feature, user] = budget.status({ feature: "support", userId: "u1" });
+    expect(project).toMatchObject({ subject: "acme", periodKey: "2026-03" });
+    expect(project.spentUsd).toBeCloseTo(0.6);
+    expect(feature).toMatchObject({ subject: "support", spentUsd: 0.4, warnUsd: 4 });
+    expect(user).toMatchObject({ subject: "u1", spentUsd: 0.4, periodKey: "2026-03-15" });
+    expect(budget.status({ userId: "u2" }).map((s) => s.subject)).toEqual(["acme", "u2"]);
+  });
+
+  it("should refuse calls once a hard limit is reached", () => {
+    const budget = createBudget({
+      policies: [{ scope: "user", period: "daily", limitUsd: 1 }],
+    });
+
+    budget.record(makeEntry(1, { userId: "u1" }));
+
+    expect(() => budget.check({ userId: "u2" }, "openai")).not.toThrow();
+    let error: unknown;
+    try {
+      budget.check({ userId: "u1" }, "openai");
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AIBudgetExceededError);
+    expect(error).toBeInstanceOf(AIError);
+    expect((error as AIBudgetExceededError).code).toBe("BUDGET_EXCEEDED");
+    expect((error as AIBudgetExceededError).status).toMatchObject({ subject: "u1", spentUsd: 1 });
+  });
+
+  it("should warn once per period and dispatch notifications", async () => {
+    const dispatch = vi.fn().mockResolvedValue({});
+    const alerts: BudgetAlert[] = [];
+    const budget = createBudget({
+      policies: [{ scope: "feature", period: "daily", limitUsd: 10, warnAt: 0.5 }],
+      notifier: { dispatch },
+      onAlert: (alert) => alerts.push(alert),
+    });
+
+    budget.record(makeEntry(4, { feature: "report" }));
+    budget.record(makeEntry(2, { feature: "report" }));
+    budget.record(makeEntry(1, { feature: "report" }));
+    budget.record(makeEntry(5, { feature: "report" }));
+
+    expect(alerts.map((a) => [a.level, a.status.spentUsd])).toEqual([
+      ["warning", 6],
+      ["exceeded", 12],
+    ]);
+    expect(dispatch).toHaveBeenCalledTimes(2);
+    expect(dispatch).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "system_alert",
+        recipientId: "ops",
+        title: "AI budget exceeded: report",
+        priority: "urgent",
+      }),
+    );
+  });
+
+  it("should not fail the call when the notifier rejects", async () => {
+    const budget = createBudget({
+      policies: [{ scope: "project", period: "daily", limitUsd: 1 }],
+      notifier: { dispatch: () => Promise.reject(new Error("smtp down")) },
+    });
+
+    expect(() => budget.record(makeEntry(2))).not.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+
+  it("should reset spend in a new period", () => {
+    let now = NOW;
+    const budget = createAIBudget({
+      policies: [{ scope: "project", period: "daily", limitUsd: 1 }],
+      now: () => now,
+    });
+
+    budget.record(makeEntry(1));
+    expect(() => budget.check({}, "openai")).toThrow(AIBudgetExceededError);
+
+    now = new Date("2026-03-16T00:00:01Z");
+    expect(() => budget.check({}, "openai")).not.toThrow();
+    expect(budget.status()[0]).toMatchObject({ periodKey: "2026-03-16", spentUsd: 0 });
+  });
+
+  it("should load earlier spend without alerting", () => {
+    const onAlert = vi.fn();
+    const budget = createBudget({
+      policies: [{ scope: "project", period: "monthly", limitUsd: 1 }],
+      onAlert,
+    });
+
+    budget.load([
+      makeEntry(0.7),
+      makeEntry(0.7),
+      makeEntry(5, { timestamp: "2026-02-28T10:00:00Z" }),
+    ]);
+
+    expect(budget.status()[0].spentUsd).toBeCloseTo(1.4);
+    expect(() => budget.check({}, "openai")).toThrow(AIBudgetExceededError);
+    expect(onAlert).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid policies", () => {
+    expect(() => createBudget({ policies: [{ scope: "project", period: "daily", limitUsd: 0 }] })).toThrow(
+      "Budget limit must be positive",
+    );
+    expect(() =>
+      createBudget({ policies: [{ scope: "project", period: "daily", limitUsd: 1, warnAt: 2 }] }),
+    ).toThrow("Budget warnAt must be between 0 and 1");
+  });
+});
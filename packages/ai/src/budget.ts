@@ -0,0 +1,309 @@
+/**
+ * AI Spend Budgets
+ *
+ * Daily and monthly spend limits per project, feature tag or user, enforced
+ * on top of `AICallLogger` cost estimates. Crossing the soft limit sends one
+ * warning per period (e.g. via the notifications dispatcher); once the hard
+ * limit is reached, further calls are refused with `AIBudgetExceededError`.
+ *
+ * Usage:
+ *   import { createAIBudget, createAILogger, wrapProviderWithLogging } from '@vibeonrails/ai';
+ *   import { createDispatcher } from '@vibeonrails/notifications';
+ *
+ *   const budget = createAIBudget({
+ *     policies: [
+ *       { scope: 'project', period: 'monthly', limitUsd: 200 },
+ *       { scope: 'feature', match: 'support.classify', period: 'daily', limitUsd: 5 },
+ *       { scope: 'user', period: 'daily', limitUsd: 0.5 },
+ *     ],
+ *     notifier: createDispatcher({ senders }),
+ *   });
+ *   const ai = wrapProviderWithLogging(createAI(), createAILogger({ budget }));
+ *
+ *   await ai.chat({ messages, feature: 'support.classify', userId: user.id });
+ */
+
+import { AIError, type AIProviderName } from "./types.js";
+import type { AICallLogEntry } from "./logging.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const BUDGET_SCOPES = ["project", "feature", "user"] as const;
+export type BudgetScope = (typeof BUDGET_SCOPES)[number];
+
+export const BUDGET_PERIODS = ["daily", "monthly"] as const;
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export interface AIBudgetPolicy {
+  scope: BudgetScope;
+  /**
+   * Feature tag or user id the policy applies to. Omit to apply the limit
+   * to each feature / user separately. Ignored for the project scope.
+   */
+  match?: string;
+  period: BudgetPeriod;
+  /** Hard limit in USD. Calls are refused once spend reaches it. */
+  limitUsd: number;
+  /** Fraction of `limitUsd` that triggers a warning (default: 0.8) */
+  warnAt?: number;
+}
+
+/** Spend of one subject (the project, a feature or a user) against a policy. */
+export interface BudgetStatus {
+  policy: AIBudgetPolicy;
+  /** Project name, feature tag or user id */
+  subject: string;
+  /** Period key: `YYYY-MM-DD` (daily) or `YYYY-MM` (monthly), UTC */
+  periodKey: string;
+  spentUsd: number;
+  limitUsd: number;
+  /** Spend at which the warning fires */
+  warnUsd: number;
+}
+
+export interface BudgetAlert {
+  level: "warning" | "exceeded";
+  status: BudgetStatus;
+}
+
+/** Tags of a call, used to pick the policies that apply to it. */
+export interface BudgetTags {
+  feature?: string;
+  userId?: string;
+}
+
+/**
+ * Receives budget alerts. Structurally compatible with the notifications
+ * `Dispatcher` from `@vibeonrails/notifications`.
+ */
+export interface BudgetNotifier {
+  dispatch(input: {
+    type: "system_alert";
+    recipientId: string;
+    title: string;
+    body: string;
+    priority?: "low" | "normal" | "high" | "urgent";
+    data?: Record<string, unknown>;
+  }): Promise<unknown>;
+}
+
+export interface AIBudgetOptions {
+  policies: AIBudgetPolicy[];
+  /** Project name used as the project-scope subject (default: 'default') */
+  project?: string;
+  /** Alert delivery, e.g. the notifications dispatcher */
+  notifier?: BudgetNotifier;
+  /** Notification recipient (default: 'ops') */
+  recipientId?: string;
+  /** Called for every alert, in addition to the notifier */
+  onAlert?: (alert: BudgetAlert) => void;
+  /** Clock override for tests */
+  now?: () => Date;
+}
+
+export interface AIBudget {
+  /** Throw `AIBudgetExceededError` if any applicable hard limit is reached */
+  check(tags: BudgetTags, provider: AIProviderName): void;
+  /** Add the cost of a logged call; fires alerts when limits are crossed */
+  record(entry: AICallLogEntry): void;
+  /** Current spend for every policy that applies to the tags */
+  status(tags?: BudgetTags): BudgetStatus[];
+  /** Seed spend from earlier log entries (e.g. the usage log after a restart) */
+  load(entries: Iterable<AICallLogEntry>): void;
+}
+
+const DEFAULT_WARN_AT = 0.8;
+const DEFAULT_PROJECT = "default";
+const DEFAULT_RECIPIENT = "ops";
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Thrown when a call would exceed a hard budget limit. No API call is made.
+ */
+export class AIBudgetExceededError extends AIError {
+  constructor(
+    public readonly status: BudgetStatus,
+    provider: AIProviderName,
+  ) {
+    super(
+      `AI budget exceeded: ${describeStatus(status)} ($${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)})`,
+      "BUDGET_EXCEEDED",
+      provider,
+    );
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Period key for a date, in UTC.
+ */
+export function budgetPeriodKey(period: BudgetPeriod, date: Date): string {
+  const iso = date.toISOString();
+  return period === "daily" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+function describeStatus(status: BudgetStatus): string {
+  const { scope, period } = status.policy;
+  return `${period} ${scope} limit for "${status.subject}"`;
+}
+
+/**
+ * The subject a policy tracks for a call, or null if it does not apply.
+ */
+function subjectFor(policy: AIBudgetPolicy, tags: BudgetTags, project: string): string | null {
+  if (policy.scope === "project") return project;
+  const value = policy.scope === "feature" ? tags.feature : tags.userId;
+  if (!value) return null;
+  if (policy.match !== undefined && policy.match !== value) return null;
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a spend budget. Spend is kept in memory per policy, subject and
+ * period; use `load()` to carry it across restarts.
+ */
+export function createAIBudget(options: AIBudgetOptions): AIBudget {
+  const project = options.project ?? DEFAULT_PROJECT;
+  const recipientId = options.recipientId ?? DEFAULT_RECIPIENT;
+  const now = options.now ?? (() => new Date());
+
+  for (const policy of options.policies) {
+    if (!(policy.limitUsd > 0)) {
+      throw new Error(`Budget limit must be positive, got ${policy.limitUsd}`);
+    }
+    const warnAt = policy.warnAt ?? DEFAULT_WARN_AT;
+    if (!(warnAt > 0 && warnAt <= 1)) {
+      throw new Error(`Budget warnAt must be between 0 and 1, got ${warnAt}`);
+    }
+  }
+
+  // Spend key: `${policyIndex}|${subject}|${periodKey}`; alert key: `${level}|${spendKey}`
+  const spend = new Map<string, number>();
+  const alerted = new Set<string>();
+  let lastPruneDay = "";
+
+  /** Drop spend and alert state of past periods, once per day. */
+  function prune(date: Date): void {
+    const day = budgetPeriodKey("daily", date);
+    if (day === lastPruneDay) return;
+    lastPruneDay = day;
+
+    // Subjects may contain "|", so read the policy index and period from the ends
+    const isCurrent = (key: string): boolean => {
+      const policy = options.policies[Number(key.slice(0, key.indexOf("|")))];
+      const periodKey = key.slice(key.lastIndexOf("|") + 1);
+      return policy !== undefined && periodKey >= budgetPeriodKey(policy.period, date);
+    };
+    for (const key of spend.keys()) if (!isCurrent(key)) spend.delete(key);
+    for (const key of alerted) {
+      if (!isCurrent(key.slice(key.indexOf("|") + 1))) alerted.delete(key);
+    }
+  }
+
+  function statusesAt(tags: BudgetTags, date: Date): Array<BudgetStatus & { key: string }> {
+    const statuses: Array<BudgetStatus & { key: string }> = [];
+    options.policies.forEach((policy, index) => {
+      const subject = subjectFor(policy, tags, project);
+      if (subject === null) return;
+      const periodKey = budgetPeriodKey(policy.period, date);
+      const key = `${index}|${subject}|${periodKey}`;
+      statuses.push({
+        key,
+        policy,
+        subject,
+        periodKey,
+        spentUsd: spend.get(key) ?? 0,
+        limitUsd: policy.limitUsd,
+        warnUsd: policy.limitUsd * (policy.warnAt ?? DEFAULT_WARN_AT),
+      });
+    });
+    return statuses;
+  }
+
+  function strip({ key: _key, ...status }: BudgetStatus & { key: string }): BudgetStatus {
+    return status;
+  }
+
+  function alert(level: BudgetAlert["level"], status: BudgetStatus): void {
+    const budgetAlert: BudgetAlert = { level, status };
+    options.onAlert?.(budgetAlert);
+    if (!options.notifier) return;
+
+    const percent = Math.round((status.spentUsd / status.limitUsd) * 100);
+    const title =
+      level === "exceeded"
+        ? `AI budget exceeded: ${status.subject}`
+        : `AI budget at ${percent}%: ${status.subject}`;
+    const body =
+      `Spend for the ${describeStatus(status)} is **$${status.spentUsd.toFixed(2)}** ` +
+      `of $${status.limitUsd.toFixed(2)} (${status.periodKey}).` +
+      (level === "exceeded" ? " Further AI calls are refused until the period resets." : "");
+
+    // Alerts must never fail the AI call that triggered them
+    options.notifier
+      .dispatch({
+        type: "system_alert",
+        recipientId,
+        title,
+        body,
+        priority: level === "exceeded" ? "urgent" : "high",
+        data: { ...budgetAlert.status, level },
+      })
+      .catch(() => {});
+  }
+
+  function add(entry: AICallLogEntry, notify: boolean): void {
+    if (entry.estimatedCostUsd <= 0) return;
+    const date = new Date(entry.timestamp);
+
+    for (const status of statusesAt(entry, date)) {
+      const spentUsd = status.spentUsd + entry.estimatedCostUsd;
+      spend.set(status.key, spentUsd);
+
+      const level: BudgetAlert["level"] | null =
+        spentUsd >= status.limitUsd ? "exceeded" : spentUsd >= status.warnUsd ? "warning" : null;
+      const alertKey = `${level}|${status.key}`;
+      if (!level || alerted.has(alertKey)) continue;
+      alerted.add(alertKey);
+      // A single call can cross both thresholds; the warning is implied
+      if (level === "exceeded") alerted.add(`warning|${status.key}`);
+      if (notify) alert(level, strip({ ...status, spentUsd }));
+    }
+  }
+
+  return {
+    check(tags, provider) {
+      for (const status of statusesAt(tags, now())) {
+        if (status.spentUsd >= status.limitUsd) {
+          throw new AIBudgetExceededError(strip(status), provider);
+        }
+      }
+    },
+
+    record(entry) {
+      prune(now());
+      add(entry, true);
+    },
+
+    status(tags = {}) {
+      return statusesAt(tags, now()).map(strip);
+    },
+
+    load(entries) {
+      for (const entry of entries) add(entry, false);
+    },
+  };
+}
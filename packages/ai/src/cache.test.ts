@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import {
+  createCachedProvider,
+  createCacheKey,
+  createFileCacheStore,
+  createMemoryCacheStore,
+} from "./cache.js";
+import { AICallLogger, type AICallLogEntry } from "./logging.js";
+import { type AIProvider, type ChatResponse, type ChatStreamChunk, AIError } from "./types.js";
+
+function createMockProvider(): AIProvider & {
+  chat: ReturnType<typeof vi.fn>;
+  generateStructured: ReturnType<typeof vi.fn>;
+} {
+  let calls = 0;
+  return {
+    name: "openai",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+    },
+    supports: () => true,
+    chat: vi.fn(async () => ({
+      content: `answer ${++calls}`,
+      model: "gpt-4o",
+      usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+      finishReason: "stop",
+    })),
+    generateStructured: vi.fn(async () => ({
+      data: { answer: "yes" },
+      model: "gpt-4o",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    })),
+  } as AIProvider & {
+    chat: ReturnType<typeof vi.fn>;
+    generateStructured: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("createCacheKey", () => {
+  it("should ignore whitespace differences", () => {
+    const a = createCacheKey("openai", {
+      messages: [{ role: "user", content: "How do I  reset my password?" }],
+    });
+    const b = createCacheKey("openai", {
+      messages: [{ role: "user", content: "  How do I reset\nmy password? " }],
+    });
+    expect(a).toBe(b);
+  });
+
+  it("should differ by model, temperature and provider", () => {
+    const messages = [{ role: "user" as const, content: "Hi" }];
+    const base = createCacheKey("openai", { messages });
+    expect(createCacheKey("openai", { messages, model: "gpt-4o-mini" })).not.toBe(base);
+    expect(createCacheKey("openai", { messages, temperature: 0.7 })).not.toBe(base);
+    expect(createCacheKey("anthropic", { messages })).not.toBe(base);
+  });
+
+  it("should differ by structured output schema", () => {
+    const a = createCacheKey("openai", { prompt: "Hi", schema: z.object({ a: z.string() }) });
+    const b = createCacheKey("openai", { prompt: "Hi", schema: z.object({ b: z.string() }) });
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("createMemoryCacheStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should expire entries after their TTL", async () => {
+    vi.useFakeTimers();
+    const store = createMemoryCacheStore();
+    await store.set("k", "v", 10);
+    expect(await store.get("k")).toBe("v");
+
+    vi.advanceTimersByTime(10_001);
+    expect(await store.get("k")).toBeNull();
+  });
+
+  it("should evict the oldest entry when full", async () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 });
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.set("c", 3);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("c")).toBe(3);
+  });
+});
+
+describe("createFileCacheStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vor-ai-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries as JSON files", async () => {
+    const store = createFileCacheStore({ dir });
+    await store.set("ai:abc", { content: "cached" });
+
+    expect(readdirSync(dir)).toEqual(["ai_abc.json"]);
+    expect(await createFileCacheStore({ dir }).get("ai:abc")).toEqual({
+      content: "cached",
+    });
+  });
+
+  it("should delete entries and return null for missing keys", async () => {
+    const store = createFileCacheStore({ dir });
+    await store.set("k", 1);
+    await store.delete("k");
+    expect(await store.get("k")).toBeNull();
+  });
+});
+
+describe("createCachedProvider", () => {
+  const request = { messages: [{ role: "user" as const, content: "What are your hours?" }] };
+
+  it("should serve repeated chats from the cache", async () => {
+    const provider = createMockProvider();
+    const cached = createCachedProvider(provider);
+
+    const first = (await cached.chat(request)) as ChatResponse;
+    const second = (await cached.chat(request)) as ChatResponse;
+
+    expect(second).toEqual(first);
+    expect(provider.chat).toHaveBeenCalledOnce();
+  });
+
+  it("should bypass the cache for streaming requests", async () => {
+    const provider = createMockProvider();
+    const cached = createCachedProvider(provider);
+
+    await cached.chat({ ...request, stream: true });
+    await cached.chat({ ...request, stream: true });
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it("should log streamed calls with the usage from the final chunk", async () => {
+    const provider = createMockProvider();
+    provider.chat.mockImplementationOnce(async function* () {
+      yield { content: "hi", done: false };
+      yield { content: "", done: true, model: "gpt-4o", usage: { promptTokens: 5, completionTokens: 1, totalTokens: 6 } };
+    });
+    const entries: AICallLogEntry[] = [];
+    const cached = createCachedProvider(provider, {
+      logger: new AICallLogger({ writer: (e) => entries.push(e) }),
+    });
+
+    const stream = (await cached.chat({ ...request, stream: true })) as AsyncIterable<ChatStreamChunk>;
+    const chunks: ChatStreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+
+    expect(chunks).toHaveLength(2);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ model: "gpt-4o", usage: { totalTokens: 6 } });
+  });
+
+  it("should cache structured responses and re-validate them", async () => {
+    const provider = createMockProvider();
+    const cached = createCachedProvider(provider);
+
+    await cached.generateStructured({ prompt: "Q", schema: z.object({ answer: z.string() }) });
+    const hit = await cached.generateStructured({
+      prompt: "Q",
+      schema: z.object({ answer: z.string() }),
+    });
+
+    expect(hit.data).toEqual({ answer: "yes" });
+    expect(provider.generateStructured).toHaveBeenCalledOnce();
+  });
+
+  it("should log cache hits and misses", async () => {
+    const entries: AICallLogEntry[] = [];
+    const logger = new AICallLogger({ writer: (e) => entries.push(e) });
+    const cached = createCachedProvider(createMockProvider(), { logger });
+
+    await cached.chat(request);
+    await cached.chat(request);
+
+    expect(entries.map((e) => e.cached)).toEqual([false, true]);
+    expect(entries[1].estimatedCostUsd).toBe(0);
+    expect(logger.getSummary()).toMatchObject({
+      totalCalls: 2,
+      totalTokens: 150,
+      cacheHits: 1,
+    });
+  });
+
+  it("should log and rethrow provider errors without caching", async () => {
+    const entries: AICallLogEntry[] = [];
+    const provider = createMockProvider();
+    provider.chat.mockRejectedValueOnce(new AIError("down", "PROVIDER_ERROR", "openai"));
+    const cached = createCachedProvider(provider, {
+      logger: new AICallLogger({ writer: (e) => entries.push(e) }),
+    });
+
+    await expect(cached.chat(request)).rejects.toThrow("down");
+    await cached.chat(request);
+
+    expect(entries[0]).toMatchObject({ success: false, error: "down", cached: false });
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it("should honour the TTL", async () => {
+    vi.useFakeTimers();
+    const provider = createMockProvider();
+    const cached = createCachedProvider(provider, { ttlSeconds: 60 });
+
+    await cached.chat(request);
+    vi.advanceTimersByTime(61_000);
+    await cached.chat(request);
+
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * AI Response Cache
+ *
+ * Caches `chat` and `generateStructured` responses keyed on the normalized
+ * request (messages, model, temperature, limits, tools, schema). Repeated
+ * identical prompts are answered from the cache instead of the provider.
+ *
+ * Backends implement `AICacheStore`:
+ * - `createMemoryCacheStore()` — in-process, bounded
+ * - `createFileCacheStore()` — JSON files under `.vibe/ai-cache/`
+ * - infra `CacheClient` (`createCache()` from `@vibeonrails/infra/cache`) — Redis,
+ *   usable as-is since it matches the store interface
+ *
+ * Usage:
+ *   import { createAI, createCachedProvider, createAILogger } from '@vibeonrails/ai';
+ *
+ *   const ai = createCachedProvider(createAI(), {
+ *     ttlSeconds: 3600,
+ *     logger: createAILogger(),
+ *   });
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { z } from "zod";
+import type {
+  AICapability,
+  AIProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ChatStreamChunk,
+  EmbedOptions,
+  EmbedResponse,
+  GenerateStructuredOptions,
+  GenerateStructuredResponse,
+  MessageContent,
+  PromptRef,
+  TokenUsage,
+} from "./types.js";
+import { imageToBase64 } from "./content.js";
+import { zodToJsonSchema } from "./tools.js";
+import { type AICallLogger, callTags, wrapProviderWithLogging } from "./logging.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Storage backend for cached responses.
+ * Structurally compatible with the infra `CacheClient`.
+ */
+export interface AICacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CachedProviderOptions {
+  /** Cache backend (default: in-memory store) */
+  store?: AICacheStore;
+  /** Entry lifetime in seconds (default: no expiry) */
+  ttlSeconds?: number;
+  /** Prefix for cache keys (default: 'ai:') */
+  keyPrefix?: string;
+  /** Logger that receives one entry per call, flagged with `cached` */
+  logger?: AICallLogger;
+}
+
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries before the oldest is evicted (default: 1000) */
+  maxEntries?: number;
+}
+
+export interface FileCacheStoreOptions {
+  /** Cache directory (default: `.vibe/ai-cache` in the working directory) */
+  dir?: string;
+}
+
+/** Request fields copied onto log entries */
+type CallTagged = { promptRef?: PromptRef; feature?: string; userId?: string };
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt: number | null;
+}
+
+const DEFAULT_KEY_PREFIX = "ai:";
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_CACHE_DIR = join(".vibe", "ai-cache");
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+function expiresAt(ttlSeconds?: number): number | null {
+  return ttlSeconds ? Date.now() + ttlSeconds * 1000 : null;
+}
+
+function isExpired(entry: StoredEntry<unknown>): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+/**
+ * In-process cache store. Evicts the oldest entry once `maxEntries` is reached.
+ */
+export function createMemoryCacheStore(
+  options: MemoryCacheStoreOptions = {},
+): AICacheStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const entries = new Map<string, StoredEntry<unknown>>();
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (isExpired(entry)) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value as T;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, { value, expiresAt: expiresAt(ttlSeconds) });
+    },
+
+    async delete(key: string): Promise<void> {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Filesystem cache store. One JSON file per key, so cached responses
+ * survive process restarts (e.g. re-running `vibe report`).
+ */
+export function createFileCacheStore(
+  options: FileCacheStoreOptions = {},
+): AICacheStore {
+  const dir = options.dir ?? DEFAULT_CACHE_DIR;
+
+  function pathFor(key: string): string {
+    // Keys may contain a prefix such as "ai:" — keep file names portable
+    return join(dir, `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  }
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      let raw: string;
+      try {
+        raw = await readFile(pathFor(key), "utf-8");
+      } catch {
+        return null;
+      }
+
+      try {
+        const entry = JSON.parse(raw) as StoredEntry<T>;
+        if (isExpired(entry)) {
+          await rm(pathFor(key), { force: true });
+          return null;
+        }
+        return entry.value;
+      } catch {
+        return null;
+      }
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      await mkdir(dir, { recursive: true });
+      const entry: StoredEntry<T> = { value, expiresAt: expiresAt(ttlSeconds) };
+      await writeFile(pathFor(key), JSON.stringify(entry), "utf-8");
+    },
+
+    async delete(key: string): Promise<void> {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cache keys
+// ---------------------------------------------------------------------------
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function normalizeContent(content: MessageContent): unknown {
+  if (typeof content === "string") {
+    return normalizeText(content);
+  }
+  return content.map((part) => {
+    switch (part.type) {
+      case "text":
+        return { type: "text", text: normalizeText(part.text) };
+      case "image":
+        return { type: "image", mediaType: part.mediaType, data: imageToBase64(part) };
+      case "imageUrl":
+        return part;
+    }
+  });
+}
+
+function normalizeMessages(messages: ChatMessage[]): unknown[] {
+  return messages.map((msg) => ({
+    role: msg.role,
+    content: normalizeContent(msg.content),
+    toolCalls: msg.toolCalls,
+    toolCallId: msg.toolCallId,
+    isError: msg.isError,
+  }));
+}
+
+/**
+ * Compute the cache key for a request. Whitespace differences in prompts
+ * do not change the key; any other request difference does.
+ */
+export function createCacheKey(
+  providerName: string,
+  request: ChatOptions | GenerateStructuredOptions<z.ZodType>,
+): string {
+  const normalized =
+    "messages" in request
+      ? {
+          kind: "chat",
+          provider: providerName,
+          model: request.model ?? null,
+          temperature: request.temperature ?? null,
+          maxTokens: request.maxTokens ?? null,
+          systemPrompt: request.systemPrompt ? normalizeText(request.systemPrompt) : null,
+          messages: normalizeMessages(request.messages),
+          tools:
+            request.tools?.map((t) => ({
+              name: t.name,
+              description: t.description,
+              input: zodToJsonSchema(t.inputSchema),
+            })) ?? null,
+          toolChoice: request.toolChoice ?? null,
+        }
+      : {
+          kind: "structured",
+          provider: providerName,
+          model: request.model ?? null,
+          temperature: request.temperature ?? null,
+          maxTokens: request.maxTokens ?? null,
+          systemPrompt: request.systemPrompt ? normalizeText(request.systemPrompt) : null,
+          prompt: normalizeContent(request.prompt),
+          schema: zodToJsonSchema(request.schema),
+        };
+
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+// ---------------------------------------------------------------------------
+// Cached provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Wrap a provider with a response cache.
+ * Streaming chats and embeddings bypass the cache. Cached structured data is re-validated
+ * against the schema on read, so schema changes invalidate stale entries.
+ * With a budgeted logger, cache misses are refused once a hard limit is reached;
+ * hits are still served.
+ */
+export function createCachedProvider(
+  provider: AIProvider,
+  options: CachedProviderOptions = {},
+): AIProvider {
+  const store = options.store ?? createMemoryCacheStore();
+  const keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  const { ttlSeconds, logger } = options;
+  // Streams are never cached, but still logged and counted against budgets
+  const streaming = logger ? wrapProviderWithLogging(provider, logger) : provider;
+
+  function logCall(
+    request: CallTagged,
+    model: string,
+    usage: TokenUsage,
+    startedAt: number,
+    cached: boolean,
+    error?: unknown,
+  ): void {
+    logger?.log({
+      ...callTags(request),
+      provider: provider.name,
+      model,
+      durationMs: Date.now() - startedAt,
+      usage,
+      success: error === undefined,
+      error:
+        error === undefined
+          ? undefined
+          : error instanceof Error
+            ? error.message
+            : String(error),
+      cached,
+    });
+  }
+
+  async function cached<R extends { model: string; usage: TokenUsage }>(
+    key: string,
+    request: CallTagged & { model?: string },
+    read: (value: R) => R | null,
+    call: () => Promise<R>,
+    cacheable: (value: R) => boolean,
+  ): Promise<R> {
+    const startedAt = Date.now();
+    const fullKey = `${keyPrefix}${key}`;
+
+    const hit = await store.get<R>(fullKey);
+    const value = hit ? read(hit) : null;
+    if (value) {
+      logCall(request, value.model, value.usage, startedAt, true);
+      return value;
+    }
+
+    logger?.checkBudget(request, provider.name);
+    let result: R;
+    try {
+      result = await call();
+    } catch (error) {
+      logCall(request, request.model ?? "unknown", EMPTY_USAGE, startedAt, false, error);
+      throw error;
+    }
+
+    logCall(request, result.model, result.usage, startedAt, false);
+    if (cacheable(result)) {
+      await store.set(fullKey, result, ttlSeconds);
+    }
+    return result;
+  }
+
+  const cachedProvider: AIProvider = {
+    name: provider.name,
+    capabilities: provider.capabilities,
+
+    supports(capability: AICapability): boolean {
+      return provider.supports(capability);
+    },
+
+    async chat(
+      chatOptions: ChatOptions,
+    ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      if (chatOptions.stream) {
+        return streaming.chat(chatOptions);
+      }
+
+      return cached<ChatResponse>(
+        createCacheKey(provider.name, chatOptions),
+        chatOptions,
+        (value) => value,
+        async () => (await provider.chat(chatOptions)) as ChatResponse,
+        (value) => value.finishReason !== "error",
+      );
+    },
+
+    async generateStructured<T extends z.ZodType>(
+      structuredOptions: GenerateStructuredOptions<T>,
+    ): Promise<GenerateStructuredResponse<z.infer<T>>> {
+      return cached<GenerateStructuredResponse<z.infer<T>>>(
+        createCacheKey(provider.name, structuredOptions),
+        structuredOptions,
+        (value) => {
+          const parsed = structuredOptions.schema.safeParse(value.data);
+          return parsed.success ? { ...value, data: parsed.data as z.infer<T> } : null;
+        },
+        () => provider.generateStructured(structuredOptions),
+        () => true,
+      );
+    },
+
+    async embed(embedOptions: EmbedOptions): Promise<EmbedResponse> {
+      return provider.embed(embedOptions);
+    },
+  };
+
+  return cachedProvider;
+}
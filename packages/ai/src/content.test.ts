@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  toContentParts,
+  getTextContent,
+  hasImageContent,
+  imageToBase64,
+  imageToDataUrl,
+  imageFromBytes,
+} from "./content.js";
+
+const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+describe("toContentParts", () => {
+  it("should wrap strings in a text part", () => {
+    expect(toContentParts("Hello")).toEqual([{ type: "text", text: "Hello" }]);
+  });
+
+  it("should return part arrays unchanged", () => {
+    const parts = [{ type: "imageUrl" as const, url: "https://example.com/a.png" }];
+    expect(toContentParts(parts)).toBe(parts);
+  });
+});
+
+describe("getTextContent", () => {
+  it("should return strings unchanged", () => {
+    expect(getTextContent("Hello")).toBe("Hello");
+  });
+
+  it("should join text parts and drop images", () => {
+    expect(
+      getTextContent([
+        { type: "text", text: "Look at this:" },
+        { type: "imageUrl", url: "https://example.com/a.png" },
+        { type: "text", text: "What is it?" },
+      ]),
+    ).toBe("Look at this:\nWhat is it?");
+  });
+});
+
+describe("hasImageContent", () => {
+  it("should detect image parts in any message", () => {
+    expect(hasImageContent([{ role: "user", content: "Hi" }])).toBe(false);
+    expect(
+      hasImageContent([
+        { role: "user", content: "Hi" },
+        { role: "user", content: [imageFromBytes(pngBytes, "image/png")] },
+      ]),
+    ).toBe(true);
+  });
+});
+
+describe("image encoding", () => {
+  it("should base64-encode raw bytes", () => {
+    expect(imageToBase64(imageFromBytes(pngBytes, "image/png"))).toBe("iVBORw==");
+  });
+
+  it("should pass base64 strings through", () => {
+    expect(
+      imageToBase64({ type: "image", data: "iVBORw==", mediaType: "image/png" }),
+    ).toBe("iVBORw==");
+  });
+
+  it("should build data URLs", () => {
+    expect(imageToDataUrl(imageFromBytes(pngBytes, "image/png"))).toBe(
+      "data:image/png;base64,iVBORw==",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Message Content Helpers
+ *
+ * Utilities for working with multimodal message content (text + images).
+ * Providers use these to map content parts onto their wire formats.
+ *
+ * Usage:
+ *   import { imageFromBytes } from '@vibeonrails/ai';
+ *
+ *   await ai.chat({
+ *     messages: [{
+ *       role: 'user',
+ *       content: [
+ *         { type: 'text', text: 'What is wrong with this page?' },
+ *         imageFromBytes(screenshot, 'image/png'),
+ *       ],
+ *     }],
+ *   });
+ */
+
+import type {
+  ChatMessage,
+  ContentPart,
+  ImageMediaType,
+  ImagePart,
+  MessageContent,
+} from "./types.js";
+
+/**
+ * Normalize content to a list of parts. Plain strings become a single text part.
+ */
+export function toContentParts(content: MessageContent): ContentPart[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return content;
+}
+
+/**
+ * Concatenate the text parts of a message content, dropping images.
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<ContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Check whether any message carries image content.
+ */
+export function hasImageContent(messages: ChatMessage[]): boolean {
+  return messages.some(
+    (msg) =>
+      typeof msg.content !== "string" &&
+      msg.content.some((part) => part.type !== "text"),
+  );
+}
+
+/**
+ * Get the base64 payload of an inline image part.
+ */
+export function imageToBase64(part: ImagePart): string {
+  if (typeof part.data === "string") {
+    return part.data;
+  }
+  return Buffer.from(part.data).toString("base64");
+}
+
+/**
+ * Get a `data:` URL for an inline image part.
+ */
+export function imageToDataUrl(part: ImagePart): string {
+  return `data:${part.mediaType};base64,${imageToBase64(part)}`;
+}
+
+/**
+ * Create an inline image part from raw bytes.
+ */
+export function imageFromBytes(
+  data: Uint8Array,
+  mediaType: ImageMediaType,
+): ImagePart {
+  return { type: "image", data, mediaType };
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_CONTEXT_LIMIT,
+  estimateChatTokens,
+  estimateMessageTokens,
+  estimateTokens,
+  fitToContext,
+  getContextLimit,
+} from "./context.js";
+import type { AIProvider, ChatMessage } from "./types.js";
+
+function createMockProvider(summary = "They discussed billing."): AIProvider & {
+  chat: ReturnType<typeof vi.fn>;
+} {
+  return {
+    name: "openai",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+      embeddings: true,
+    },
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    chat: vi.fn(async () => ({
+      content: summary,
+      model: "gpt-4o",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "stop" as const,
+    })),
+    generateStructured: vi.fn(),
+    embed: vi.fn(),
+  } as AIProvider & { chat: ReturnType<typeof vi.fn> };
+}
+
+/** A message of roughly `tokens` estimated tokens */
+function message(role: ChatMessage["role"], tokens: number, label = ""): ChatMessage {
+  return { role, content: label.padEnd(tokens * 4, "x") };
+}
+
+describe("getContextLimit", () => {
+  it("should match exact names and longest prefixes", () => {
+    expect(getContextLimit("gpt-4")).toBe(8_192);
+    expect(getContextLimit("gpt-4o-mini")).toBe(128_000);
+    expect(getContextLimit("claude-sonnet-4-20250514")).toBe(200_000);
+    expect(getContextLimit("llama3.1:8b")).toBe(128_000);
+  });
+
+  it("should fall back to the default for unknown models", () => {
+    expect(getContextLimit("my-finetune")).toBe(DEFAULT_CONTEXT_LIMIT);
+  });
+});
+
+describe("token estimation", () => {
+  it("should estimate about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("abcdefghi")).toBe(3);
+  });
+
+  it("should count message overhead and images", () => {
+    expect(estimateMessageTokens([{ role: "user", content: "abcd" }])).toBe(5);
+    expect(
+      estimateMessageTokens([
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "abcd" },
+            { type: "imageUrl", url: "https://example.com/a.png" },
+          ],
+        },
+      ]),
+    ).toBe(1_005);
+  });
+
+  it("should include the system prompt", () => {
+    expect(
+      estimateChatTokens({ systemPrompt: "abcd", messages: [{ role: "user", content: "abcd" }] }),
+    ).toBe(6);
+  });
+});
+
+describe("fitToContext", () => {
+  const history: ChatMessage[] = [
+    message("user", 300, "first"),
+    message("assistant", 300, "second"),
+    message("user", 300, "third"),
+    message("assistant", 300, "fourth"),
+    message("user", 100, "latest"),
+  ];
+
+  it("should return requests without a strategy unchanged", async () => {
+    const provider = createMockProvider();
+    const options = { messages: history, contextLimit: 100, maxTokens: 10 };
+    expect(await fitToContext(provider, options, "gpt-4o")).toBe(options);
+  });
+
+  it("should leave requests that already fit alone", async () => {
+    const provider = createMockProvider();
+    const options = { messages: history, contextStrategy: "dropOldest" as const };
+    expect(await fitToContext(provider, options, "gpt-4o")).toBe(options);
+  });
+
+  describe("dropOldest", () => {
+    it("should drop the oldest turns until the request fits", async () => {
+      const fitted = await fitToContext(
+        createMockProvider(),
+        { messages: history, contextStrategy: "dropOldest", contextLimit: 900, maxTokens: 100 },
+        "gpt-4o",
+      );
+
+      expect(fitted.messages.map((m) => (m.content as string).slice(0, 6))).toEqual([
+        "thirdx",
+        "fourth",
+        "latest",
+      ]);
+    });
+
+    it("should keep system messages and start the conversation with a user turn", async () => {
+      const fitted = await fitToContext(
+        createMockProvider(),
+        {
+          messages: [message("system", 10, "rules"), ...history],
+          contextStrategy: "dropOldest",
+          contextLimit: 520,
+          maxTokens: 100,
+        },
+        "gpt-4o",
+      );
+
+      expect(fitted.messages.map((m) => m.role)).toEqual(["system", "user"]);
+    });
+
+    it("should keep tool results with the assistant turn that requested them", async () => {
+      const fitted = await fitToContext(
+        createMockProvider(),
+        {
+          messages: [
+            message("user", 300, "old"),
+            {
+              role: "assistant",
+              content: "",
+              toolCalls: [{ id: "call_1", name: "lookup", arguments: {} }],
+            },
+            { role: "tool", toolCallId: "call_1", content: "x".repeat(1200) },
+            message("user", 50, "latest"),
+          ],
+          contextStrategy: "dropOldest",
+          contextLimit: 500,
+          maxTokens: 100,
+        },
+        "gpt-4o",
+      );
+
+      expect(fitted.messages.map((m) => m.role)).toEqual(["user"]);
+    });
+  });
+
+  describe("summarize", () => {
+    it("should replace the oldest turns with a summary from the provider", async () => {
+      const provider = createMockProvider();
+      const fitted = await fitToContext(
+        provider,
+        {
+          messages: history,
+          contextStrategy: "summarize",
+          contextLimit: 1_400,
+          maxTokens: 100,
+          model: "gpt-4o-mini",
+        },
+        "gpt-4o",
+      );
+
+      expect(provider.chat).toHaveBeenCalledTimes(1);
+      const request = provider.chat.mock.calls[0][0];
+      expect(request.model).toBe("gpt-4o-mini");
+      expect(request.messages[0].content).toContain("user: first");
+
+      expect(fitted.messages[0]).toEqual({
+        role: "system",
+        content: "Summary of the earlier conversation:\nThey discussed billing.",
+      });
+      expect(fitted.messages.slice(1)).toEqual(history.slice(2));
+    });
+  });
+
+  describe("truncateSystem", () => {
+    it("should truncate the system prompt to the remaining budget", async () => {
+      const fitted = await fitToContext(
+        createMockProvider(),
+        {
+          systemPrompt: "x".repeat(4_000),
+          messages: [message("user", 100)],
+          contextStrategy: "truncateSystem",
+          contextLimit: 400,
+          maxTokens: 100,
+        },
+        "gpt-4o",
+      );
+
+      expect(fitted.systemPrompt).toContain("[... truncated to fit the context window]");
+      expect(estimateChatTokens(fitted)).toBeLessThanOrEqual(300);
+    });
+  });
+
+  it("should apply strategies in order until the request fits", async () => {
+    const provider = createMockProvider();
+    const fitted = await fitToContext(
+      provider,
+      {
+        systemPrompt: "x".repeat(2_000),
+        messages: [message("user", 100)],
+        contextStrategy: ["summarize", "truncateSystem"],
+        contextLimit: 400,
+        maxTokens: 100,
+      },
+      "gpt-4o",
+    );
+
+    // Nothing to summarize with a single turn, so truncation does the work
+    expect(provider.chat).not.toHaveBeenCalled();
+    expect(estimateChatTokens(fitted)).toBeLessThanOrEqual(300);
+  });
+
+  it("should throw CONTEXT_LENGTH_EXCEEDED when the request cannot fit", async () => {
+    await expect(
+      fitToContext(
+        createMockProvider(),
+        {
+          messages: [message("user", 1_000)],
+          contextStrategy: "dropOldest",
+          contextLimit: 500,
+          maxTokens: 100,
+        },
+        "gpt-4o",
+      ),
+    ).rejects.toMatchObject({ code: "CONTEXT_LENGTH_EXCEEDED", provider: "openai" });
+  });
+});
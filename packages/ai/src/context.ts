@@ -0,0 +1,336 @@
+/**
+ * Context Window Management
+ *
+ * Per-model context limits, a heuristic token estimator, and strategies
+ * that fit long conversations into the window before a request is sent:
+ *
+ * - `dropOldest`: drop the oldest conversation turns
+ * - `summarize`: replace the oldest turns with a summary from the same provider
+ * - `truncateSystem`: cut system context down to the remaining budget
+ *
+ * Strategies run in the order given until the request fits. If it still
+ * does not fit, `CONTEXT_LENGTH_EXCEEDED` is thrown without calling the API.
+ *
+ * Usage:
+ *   await ai.chat({
+ *     messages: session.history,
+ *     contextStrategy: ['summarize', 'truncateSystem'],
+ *   });
+ */
+
+import {
+  type AIProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResponse,
+  type MessageContent,
+  AIError,
+} from "./types.js";
+import { getTextContent } from "./content.js";
+import { zodToJsonSchema } from "./tools.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Context window sizes in tokens. Matched exactly, then by longest prefix.
+ */
+const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  // Anthropic
+  "claude-": 200_000,
+  // OpenAI
+  "gpt-4o": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-4": 8_192,
+  "gpt-3.5-turbo": 16_385,
+  // Ollama
+  "llama3.1": 128_000,
+  "llama3.2": 128_000,
+  llama3: 8_192,
+  mistral: 32_768,
+};
+
+/** Used when a model is not in the table */
+export const DEFAULT_CONTEXT_LIMIT = 8_192;
+
+/** Output tokens reserved when a request sets no maxTokens (matches provider defaults) */
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+
+/** Rough characters-per-token ratio for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Fixed per-message overhead for role markers and separators */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Flat estimate for an image part; real cost depends on resolution */
+const IMAGE_TOKENS = 1_000;
+
+/** Upper bound for the generated summary */
+const SUMMARY_MAX_TOKENS = 512;
+
+const TRUNCATION_MARKER = "\n[... truncated to fit the context window]";
+
+// ---------------------------------------------------------------------------
+// Estimation
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the context window size for a model.
+ */
+export function getContextLimit(model: string): number {
+  if (MODEL_CONTEXT_LIMITS[model] !== undefined) {
+    return MODEL_CONTEXT_LIMITS[model];
+  }
+
+  const prefix = Object.keys(MODEL_CONTEXT_LIMITS)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_CONTEXT_LIMITS[prefix] : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Estimate the token count of a text. Deliberately errs on the high side.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateContentTokens(content: MessageContent): number {
+  if (typeof content === "string") {
+    return estimateTokens(content);
+  }
+  return content.reduce(
+    (sum, part) => sum + (part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKENS),
+    0,
+  );
+}
+
+/**
+ * Estimate the prompt tokens of a list of messages.
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, msg) => {
+    const toolCallTokens = msg.toolCalls
+      ? estimateTokens(JSON.stringify(msg.toolCalls))
+      : 0;
+    return sum + MESSAGE_OVERHEAD_TOKENS + estimateContentTokens(msg.content) + toolCallTokens;
+  }, 0);
+}
+
+/**
+ * Estimate the prompt tokens of a full chat request, including the system
+ * prompt and tool declarations.
+ */
+export function estimateChatTokens(options: ChatOptions): number {
+  const systemTokens = options.systemPrompt ? estimateTokens(options.systemPrompt) : 0;
+  const toolTokens = (options.tools ?? []).reduce(
+    (sum, tool) =>
+      sum +
+      estimateTokens(
+        tool.name + tool.description + JSON.stringify(zodToJsonSchema(tool.inputSchema)),
+      ),
+    0,
+  );
+  return systemTokens + toolTokens + estimateMessageTokens(options.messages);
+}
+
+// ---------------------------------------------------------------------------
+// Conversation turns
+// ---------------------------------------------------------------------------
+
+/**
+ * Group non-system messages into atomic turns. An assistant message with
+ * tool calls and the tool results that follow it must be kept or dropped
+ * together, or the provider rejects the orphaned tool results.
+ */
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const msg of messages) {
+    const current = turns[turns.length - 1];
+    if (msg.role === "tool" && current) {
+      current.push(msg);
+    } else {
+      turns.push([msg]);
+    }
+  }
+  return turns;
+}
+
+function splitSystem(messages: ChatMessage[]): {
+  system: ChatMessage[];
+  turns: ChatMessage[][];
+} {
+  return {
+    system: messages.filter((m) => m.role === "system"),
+    turns: groupTurns(messages.filter((m) => m.role !== "system")),
+  };
+}
+
+/**
+ * Find how many of the oldest turns must go for the request to fit.
+ * The most recent turn is always kept, and the kept conversation starts
+ * with a user turn (Anthropic rejects conversations opening with assistant).
+ */
+function countTurnsToDrop(
+  options: ChatOptions,
+  system: ChatMessage[],
+  turns: ChatMessage[][],
+  budget: number,
+  extraTokens = 0,
+): number {
+  let drop = 0;
+  while (drop < turns.length - 1) {
+    const candidate = { ...options, messages: [...system, ...turns.slice(drop).flat()] };
+    if (estimateChatTokens(candidate) + extraTokens <= budget) break;
+    drop++;
+  }
+  while (drop > 0 && drop < turns.length - 1 && turns[drop][0].role !== "user") {
+    drop++;
+  }
+  return drop;
+}
+
+// ---------------------------------------------------------------------------
+// Strategies
+// ---------------------------------------------------------------------------
+
+function dropOldest(options: ChatOptions, budget: number): ChatOptions {
+  const { system, turns } = splitSystem(options.messages);
+  const drop = countTurnsToDrop(options, system, turns, budget);
+  return { ...options, messages: [...system, ...turns.slice(drop).flat()] };
+}
+
+async function summarize(
+  provider: AIProvider,
+  options: ChatOptions,
+  budget: number,
+): Promise<ChatOptions> {
+  const { system, turns } = splitSystem(options.messages);
+  const drop = countTurnsToDrop(options, system, turns, budget, SUMMARY_MAX_TOKENS);
+  if (drop === 0) return options;
+
+  const transcript = turns
+    .slice(0, drop)
+    .flat()
+    .map((m) => `${m.role}: ${getTextContent(m.content)}`)
+    .join("\n");
+
+  // The transcript itself must fit the summarization request
+  const maxTranscriptChars = Math.max(budget - SUMMARY_MAX_TOKENS, 0) * CHARS_PER_TOKEN;
+
+  const response = (await provider.chat({
+    model: options.model,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0,
+    stream: false,
+    systemPrompt:
+      "Summarize the following conversation excerpt in a few sentences. " +
+      "Keep names, facts, decisions and open questions. Respond with the summary only.",
+    messages: [
+      {
+        role: "user",
+        content: maxTranscriptChars > 0 ? transcript.slice(-maxTranscriptChars) : "",
+      },
+    ],
+  })) as ChatResponse;
+
+  const summary: ChatMessage = {
+    role: "system",
+    content: `Summary of the earlier conversation:\n${response.content}`,
+  };
+
+  return {
+    ...options,
+    messages: [...system, summary, ...turns.slice(drop).flat()],
+  };
+}
+
+function truncateText(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  return text.slice(0, Math.max(maxChars - TRUNCATION_MARKER.length, 0)) + TRUNCATION_MARKER;
+}
+
+function truncateSystem(options: ChatOptions, budget: number): ChatOptions {
+  const conversation = options.messages.filter((m) => m.role !== "system");
+  const conversationTokens = estimateChatTokens({
+    ...options,
+    systemPrompt: undefined,
+    messages: conversation,
+  });
+  let remaining = Math.max(budget - conversationTokens, 0);
+
+  // Keep the system prompt before system messages; trim whatever comes last
+  let systemPrompt = options.systemPrompt;
+  if (systemPrompt) {
+    systemPrompt = truncateText(systemPrompt, remaining);
+    remaining = Math.max(remaining - estimateTokens(systemPrompt), 0);
+  }
+
+  const messages = options.messages.map((msg) => {
+    if (msg.role !== "system") return msg;
+    const available = Math.max(remaining - MESSAGE_OVERHEAD_TOKENS, 0);
+    const content = truncateText(getTextContent(msg.content), available);
+    remaining = Math.max(remaining - MESSAGE_OVERHEAD_TOKENS - estimateTokens(content), 0);
+    return { ...msg, content };
+  });
+
+  return { ...options, systemPrompt, messages };
+}
+
+// ---------------------------------------------------------------------------
+// Fitting
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply the request's `contextStrategy` so the prompt fits the model's
+ * context window, leaving room for `maxTokens` of output.
+ * Requests without a strategy are returned unchanged.
+ */
+export async function fitToContext(
+  provider: AIProvider,
+  options: ChatOptions,
+  defaultModel: string,
+): Promise<ChatOptions> {
+  if (!options.contextStrategy) {
+    return options;
+  }
+
+  const strategies = Array.isArray(options.contextStrategy)
+    ? options.contextStrategy
+    : [options.contextStrategy];
+  const model = options.model ?? defaultModel;
+  const limit = options.contextLimit ?? getContextLimit(model);
+  const budget = limit - (options.maxTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS);
+
+  let fitted = options;
+  for (const strategy of strategies) {
+    if (estimateChatTokens(fitted) <= budget) return fitted;
+
+    switch (strategy) {
+      case "dropOldest":
+        fitted = dropOldest(fitted, budget);
+        break;
+      case "summarize":
+        fitted = await summarize(provider, fitted, budget);
+        break;
+      case "truncateSystem":
+        fitted = truncateSystem(fitted, budget);
+        break;
+    }
+  }
+
+  const estimated = estimateChatTokens(fitted);
+  if (estimated > budget) {
+    throw new AIError(
+      `Request needs ~${estimated} prompt tokens but ${model} allows ${budget} ` +
+        `(${limit} context - ${limit - budget} reserved for output)`,
+      "CONTEXT_LENGTH_EXCEEDED",
+      provider.name,
+    );
+  }
+
+  return fitted;
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import {
+  checkAssertion,
+  compareEvalReports,
+  loadEvalDataset,
+  runPromptEval,
+  type EvalDataset,
+} from "./eval.js";
+import { definePrompt } from "./prompts.js";
+import type { AIProvider } from "./types.js";
+
+function createMockProvider(reply: (prompt: string) => string): AIProvider & {
+  chat: ReturnType<typeof vi.fn>;
+} {
+  return {
+    name: "openai",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+      embeddings: true,
+    },
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    chat: vi.fn(async (options: { messages: Array<{ content: string }> }) => ({
+      content: reply(options.messages[0].content),
+      model: "gpt-4o",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "stop",
+    })),
+    generateStructured: vi.fn(),
+    embed: vi.fn(),
+  } as AIProvider & { chat: ReturnType<typeof vi.fn> };
+}
+
+const classify = definePrompt({
+  id: "support.classify",
+  version: 2,
+  variables: z.object({ feedback: z.string() }),
+  system: "Classify as JSON.",
+  template: "Feedback: {{feedback}}",
+});
+
+const dataset: EvalDataset = {
+  promptId: "support.classify",
+  cases: [
+    {
+      name: "crash is a bug",
+      variables: { feedback: "App crashes" },
+      assert: [{ type: "json" }, { type: "contains", value: '"bug"' }],
+    },
+    {
+      name: "idea is a feature",
+      variables: { feedback: "Add dark mode" },
+      assert: [{ type: "json" }, { type: "contains", value: '"feature"' }],
+    },
+  ],
+};
+
+describe("checkAssertion", () => {
+  it("should check contains, notContains and equals", () => {
+    expect(checkAssertion("Hello World", { type: "contains", value: "world", ignoreCase: true }).passed).toBe(true);
+    expect(checkAssertion("Hello World", { type: "contains", value: "world" })).toMatchObject({
+      passed: false,
+      message: 'expected output to contain "world"',
+    });
+    expect(checkAssertion("Hello", { type: "notContains", value: "#" }).passed).toBe(true);
+    expect(checkAssertion(" yes \n", { type: "equals", value: "yes" }).passed).toBe(true);
+  });
+
+  it("should check regex, JSON and length", () => {
+    expect(checkAssertion("Order #42", { type: "matches", pattern: "#\\d+" }).passed).toBe(true);
+    expect(checkAssertion('```json\n{"a":1}\n```', { type: "json" }).passed).toBe(true);
+    expect(checkAssertion("{oops", { type: "json" }).passed).toBe(false);
+    expect(checkAssertion("x".repeat(281), { type: "maxLength", value: 280 })).toMatchObject({
+      passed: false,
+      message: "expected at most 280 characters, got 281",
+    });
+  });
+});
+
+describe("runPromptEval", () => {
+  it("should render each case, call the provider and score assertions", async () => {
+    const provider = createMockProvider(() => '{"category":"bug"}');
+    const onCase = vi.fn();
+
+    const report = await runPromptEval(provider, classify, dataset, { model: "gpt-4o-mini", onCase });
+
+    expect(provider.chat).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "gpt-4o-mini",
+        temperature: 0,
+        systemPrompt: "Classify as JSON.",
+        messages: [{ role: "user", content: "Feedback: App crashes" }],
+        promptRef: { id: "support.classify", version: 2 },
+      }),
+    );
+    expect(report.promptRef).toEqual({ id: "support.classify", version: 2 });
+    expect(report.passedCases).toBe(1);
+    expect(report.totalCases).toBe(2);
+    expect(report.score).toBe(0.75);
+    expect(report.usage.totalTokens).toBe(30);
+    expect(onCase).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only send chat options to the provider", async () => {
+    const provider = createMockProvider(() => "{}");
+
+    await runPromptEval(provider, classify, dataset);
+
+    expect(provider.chat.mock.calls[0][0]).not.toHaveProperty("prompt");
+  });
+
+  it("should refuse a dataset written for another prompt", async () => {
+    const provider = createMockProvider(() => "{}");
+
+    await expect(
+      runPromptEval(provider, classify, { ...dataset, promptId: "support.reply" }),
+    ).rejects.toThrow('Eval dataset is for prompt "support.reply", not "support.classify"');
+    expect(provider.chat).not.toHaveBeenCalled();
+  });
+
+  it("should record failures as failed cases instead of aborting", async () => {
+    const provider = createMockProvider(() => "{}");
+    provider.chat.mockRejectedValueOnce(new Error("rate limited"));
+
+    const report = await runPromptEval(provider, classify, dataset);
+
+    expect(report.cases[0]).toMatchObject({ passed: false, error: "rate limited" });
+    expect(report.cases[1].error).toBeUndefined();
+    expect(report.score).toBe(0.25);
+  });
+});
+
+describe("loadEvalDataset", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vor-evals-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load and validate a dataset file", async () => {
+    const path = join(dir, "classify.json");
+    writeFileSync(path, JSON.stringify({ cases: [{ name: "a", assert: [{ type: "json" }] }] }));
+    expect(await loadEvalDataset(path)).toEqual({
+      cases: [{ name: "a", variables: {}, assert: [{ type: "json" }] }],
+    });
+  });
+
+  it("should reject invalid datasets", async () => {
+    const path = join(dir, "bad.json");
+    writeFileSync(path, JSON.stringify({ cases: [{ name: "a", assert: [{ type: "nope" }] }] }));
+    await expect(loadEvalDataset(path)).rejects.toThrow("Invalid eval dataset");
+  });
+});
+
+describe("compareEvalReports", () => {
+  it("should line up cases across versions and pick the best", async () => {
+    const classifyV1 = definePrompt({
+      id: "support.classify",
+      version: 1,
+      variables: z.object({ feedback: z.string() }),
+      template: "{{feedback}}",
+    });
+    const v1 = await runPromptEval(createMockProvider(() => "bug"), classifyV1, dataset);
+    const v2 = await runPromptEval(createMockProvider(() => '{"category":"bug"}'), classify, dataset);
+
+    expect(compareEvalReports([v1, v2])).toEqual({
+      versions: [1, 2],
+      scores: [0, 0.75],
+      cases: [
+        { name: "crash is a bug", passed: [false, true] },
+        { name: "idea is a feature", passed: [false, false] },
+      ],
+      best: 2,
+    });
+  });
+
+  it("should refuse to compare different prompts", async () => {
+    const a = await runPromptEval(createMockProvider(() => "{}"), classify, dataset);
+    const b = { ...a, promptRef: { id: "other", version: 1 } };
+    expect(() => compareEvalReports([a, b])).toThrow("Cannot compare different prompts");
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Prompt Evaluation
+ *
+ * Runs a prompt version against a dataset of cases and checks each
+ * response with simple assertions, so prompt changes can be compared
+ * by score before they ship. Backs `vibe ai eval`.
+ *
+ * Dataset format (`evals/support.classify.json`):
+ *
+ *   {
+ *     "promptId": "support.classify",
+ *     "cases": [
+ *       {
+ *         "name": "safari crash is a bug",
+ *         "variables": { "feedback": "Login crashes on Safari" },
+ *         "assert": [{ "type": "json" }, { "type": "contains", "value": "\"bug\"" }]
+ *       }
+ *     ]
+ *   }
+ *
+ * Usage:
+ *   const report = await runPromptEval(ai, prompts.get('support.classify', 2), dataset);
+ *   console.log(report.score);
+ */
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { AIProvider, ChatResponse, PromptRef, TokenUsage } from "./types.js";
+import type { PromptTemplate } from "./prompts.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EvalAssertionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("contains"), value: z.string(), ignoreCase: z.boolean().optional() }),
+  z.object({ type: z.literal("notContains"), value: z.string(), ignoreCase: z.boolean().optional() }),
+  z.object({ type: z.literal("equals"), value: z.string() }),
+  z.object({ type: z.literal("matches"), pattern: z.string(), flags: z.string().optional() }),
+  z.object({ type: z.literal("json") }),
+  z.object({ type: z.literal("maxLength"), value: z.number().int().positive() }),
+]);
+
+export type EvalAssertion = z.infer<typeof EvalAssertionSchema>;
+
+export const EvalCaseSchema = z.object({
+  name: z.string().min(1),
+  variables: z.record(z.unknown()).default({}),
+  assert: z.array(EvalAssertionSchema).min(1),
+});
+
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+export const EvalDatasetSchema = z.object({
+  /** Prompt the dataset was written for; runs against another prompt are refused */
+  promptId: z.string().optional(),
+  cases: z.array(EvalCaseSchema).min(1),
+});
+
+export type EvalDataset = z.infer<typeof EvalDatasetSchema>;
+
+export interface AssertionResult {
+  assertion: EvalAssertion;
+  passed: boolean;
+  /** Why the assertion failed */
+  message?: string;
+}
+
+export interface EvalCaseResult {
+  name: string;
+  /** True when every assertion passed */
+  passed: boolean;
+  output: string;
+  assertions: AssertionResult[];
+  /** Set when rendering or the AI call failed; the case counts as failed */
+  error?: string;
+}
+
+export interface EvalReport {
+  promptRef: PromptRef;
+  cases: EvalCaseResult[];
+  passedCases: number;
+  totalCases: number;
+  /** Fraction of passed assertions across all cases, 0–1 */
+  score: number;
+  usage: TokenUsage;
+}
+
+export interface EvalComparison {
+  /** Versions in the order the reports were given */
+  versions: number[];
+  scores: number[];
+  /** Pass/fail per case, one entry per version */
+  cases: Array<{ name: string; passed: boolean[] }>;
+  /** Version with the highest score (the later version wins ties) */
+  best: number;
+}
+
+export interface RunPromptEvalOptions {
+  model?: string;
+  /** Default: 0, for comparable runs */
+  temperature?: number;
+  maxTokens?: number;
+  /** Called after each case completes */
+  onCase?: (result: EvalCaseResult) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Assertions
+// ---------------------------------------------------------------------------
+
+/**
+ * Check one assertion against a model output.
+ */
+export function checkAssertion(output: string, assertion: EvalAssertion): AssertionResult {
+  const fail = (message: string): AssertionResult => ({ assertion, passed: false, message });
+  const pass: AssertionResult = { assertion, passed: true };
+
+  switch (assertion.type) {
+    case "contains":
+    case "notContains": {
+      const haystack = assertion.ignoreCase ? output.toLowerCase() : output;
+      const needle = assertion.ignoreCase ? assertion.value.toLowerCase() : assertion.value;
+      const found = haystack.includes(needle);
+      if (assertion.type === "contains") {
+        return found ? pass : fail(`expected output to contain "${assertion.value}"`);
+      }
+      return found ? fail(`expected output not to contain "${assertion.value}"`) : pass;
+    }
+    case "equals":
+      return output.trim() === assertion.value.trim()
+        ? pass
+        : fail(`expected output to equal "${assertion.value}"`);
+    case "matches":
+      return new RegExp(assertion.pattern, assertion.flags).test(output)
+        ? pass
+        : fail(`expected output to match /${assertion.pattern}/${assertion.flags ?? ""}`);
+    case "json":
+      try {
+        JSON.parse(
+          output
+            .replace(/^```(?:json)?\s*/m, "")
+            .replace(/```\s*$/m, "")
+            .trim(),
+        );
+        return pass;
+      } catch {
+        return fail("expected output to be valid JSON");
+      }
+    case "maxLength":
+      return output.length <= assertion.value
+        ? pass
+        : fail(`expected at most ${assertion.value} characters, got ${output.length}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Load and validate an eval dataset from a JSON file.
+ */
+export async function loadEvalDataset(path: string): Promise<EvalDataset> {
+  const raw = JSON.parse(await readFile(path, "utf-8")) as unknown;
+  const parsed = EvalDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid eval dataset ${path}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Run every dataset case through a prompt version. Cases run sequentially
+ * to stay within provider rate limits. Throws if the dataset names a
+ * different prompt.
+ */
+export async function runPromptEval(
+  provider: AIProvider,
+  template: PromptTemplate,
+  dataset: EvalDataset,
+  options: RunPromptEvalOptions = {},
+): Promise<EvalReport> {
+  if (dataset.promptId !== undefined && dataset.promptId !== template.id) {
+    throw new Error(
+      `Eval dataset is for prompt "${dataset.promptId}", not "${template.id}"`,
+    );
+  }
+
+  const cases: EvalCaseResult[] = [];
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  for (const evalCase of dataset.cases) {
+    let result: EvalCaseResult;
+    try {
+      const { promptRef, systemPrompt, messages } = template.render(evalCase.variables);
+      const response = (await provider.chat({
+        promptRef,
+        systemPrompt,
+        messages,
+        model: options.model,
+        temperature: options.temperature ?? 0,
+        maxTokens: options.maxTokens,
+        stream: false,
+      })) as ChatResponse;
+
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      const assertions = evalCase.assert.map((a) => checkAssertion(response.content, a));
+      result = {
+        name: evalCase.name,
+        passed: assertions.every((a) => a.passed),
+        output: response.content,
+        assertions,
+      };
+    } catch (error) {
+      result = {
+        name: evalCase.name,
+        passed: false,
+        output: "",
+        assertions: evalCase.assert.map((assertion) => ({
+          assertion,
+          passed: false,
+          message: "not evaluated",
+        })),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    cases.push(result);
+    options.onCase?.(result);
+  }
+
+  const totalAssertions = cases.reduce((sum, c) => sum + c.assertions.length, 0);
+  const passedAssertions = cases.reduce(
+    (sum, c) => sum + c.assertions.filter((a) => a.passed).length,
+    0,
+  );
+
+  return {
+    promptRef: template.ref,
+    cases,
+    passedCases: cases.filter((c) => c.passed).length,
+    totalCases: cases.length,
+    score: totalAssertions === 0 ? 0 : passedAssertions / totalAssertions,
+    usage,
+  };
+}
+
+/**
+ * Compare eval reports for different versions of the same prompt.
+ */
+export function compareEvalReports(reports: EvalReport[]): EvalComparison {
+  if (reports.length === 0) {
+    throw new Error("compareEvalReports needs at least one report");
+  }
+
+  const ids = new Set(reports.map((r) => r.promptRef.id));
+  if (ids.size > 1) {
+    throw new Error(`Cannot compare different prompts: ${[...ids].join(", ")}`);
+  }
+
+  const names = [...new Set(reports.flatMap((r) => r.cases.map((c) => c.name)))];
+  const best = reports.reduce((a, b) => (b.score >= a.score ? b : a));
+
+  return {
+    versions: reports.map((r) => r.promptRef.version),
+    scores: reports.map((r) => r.score),
+    cases: names.map((name) => ({
+      name,
+      passed: reports.map((r) => r.cases.find((c) => c.name === name)?.passed ?? false),
+    })),
+    best: best.promptRef.version,
+  };
+}
@@ -123,7 +123,7 @@ describe('AI SDK Factory', () => {
       });
 
       expect(provider.name).toBe('ollama');
-      expect(provider.supports('vision')).toBe(false);
+      expect(provider.supports('vision')).toBe(true);
     });
 
     it('should auto-detect provider from env vars', () => {
@@ -21,19 +21,37 @@ export type {
   ChatStreamChunk,
   ChatMessage,
   ChatRole,
+  ContentPart,
+  TextPart,
+  ImagePart,
+  ImageUrlPart,
+  ImageMediaType,
+  MessageContent,
+  ToolCall,
+  ToolDefinition,
+  ToolChoice,
+  ContextStrategy,
   TokenUsage,
   GenerateStructuredOptions,
   GenerateStructuredResponse,
+  EmbedOptions,
+  EmbedResponse,
   RetryConfig,
   AIErrorCode,
+  PromptRef,
 } from "./types.js";
 
 export {
   AIConfigSchema,
   ChatMessageSchema,
   ChatRoleSchema,
+  ContentPartSchema,
+  MessageContentSchema,
+  IMAGE_MEDIA_TYPES,
+  ToolCallSchema,
   AI_CAPABILITIES,
   AI_PROVIDERS,
+  CONTEXT_STRATEGIES,
   AI_ERROR_CODES,
   AIError,
   DEFAULT_RETRY_CONFIG,
@@ -46,18 +64,169 @@ export {
   createOllamaProvider,
 } from "./providers/index.js";
 
+// Re-export provider router
+export {
+  createAIRouter,
+  ROUTING_POLICIES,
+  type AIRoute,
+  type AIRouterOptions,
+  type RoutingPolicy,
+  type FallbackEvent,
+} from "./router.js";
+
+// Re-export response cache
+export {
+  createCachedProvider,
+  createMemoryCacheStore,
+  createFileCacheStore,
+  createCacheKey,
+  type AICacheStore,
+  type CachedProviderOptions,
+  type MemoryCacheStoreOptions,
+  type FileCacheStoreOptions,
+} from "./cache.js";
+
+// Re-export embeddings retrieval
+export {
+  VectorIndex,
+  cosineSimilarity,
+  type VectorDocument,
+  type VectorMetadata,
+  type VectorSearchOptions,
+  type VectorSearchResult,
+  type VectorIndexOptions,
+  type SerializedVectorIndex,
+} from "./vector-index.js";
+export {
+  createRetriever,
+  formatRetrievedContext,
+  type Retriever,
+  type RetrieverDocument,
+  type RetrieverOptions,
+} from "./retriever.js";
+
+// Re-export context window management
+export {
+  fitToContext,
+  getContextLimit,
+  estimateTokens,
+  estimateMessageTokens,
+  estimateChatTokens,
+  DEFAULT_CONTEXT_LIMIT,
+} from "./context.js";
+
+// Re-export structured streaming
+export {
+  streamStructured,
+  parsePartialJson,
+  type DeepPartial,
+  type StreamStructuredOptions,
+  type StructuredStreamEvent,
+} from "./structured-stream.js";
+
+// Re-export prompt registry and evaluation
+export {
+  definePrompt,
+  createPromptRegistry,
+  loadPromptRegistry,
+  parsePromptFile,
+  renderTemplate,
+  templateVariables,
+  PROMPT_VARIABLE_TYPES,
+  type PromptDefinition,
+  type PromptTemplate,
+  type PromptRegistry,
+  type RenderedPrompt,
+  type PromptVariableType,
+} from "./prompts.js";
+export {
+  runPromptEval,
+  checkAssertion,
+  loadEvalDataset,
+  compareEvalReports,
+  EvalAssertionSchema,
+  EvalCaseSchema,
+  EvalDatasetSchema,
+  type EvalAssertion,
+  type EvalCase,
+  type EvalDataset,
+  type AssertionResult,
+  type EvalCaseResult,
+  type EvalReport,
+  type EvalComparison,
+  type RunPromptEvalOptions,
+} from "./eval.js";
+
 // Re-export retry utilities
 export { withRetry, isRetryableError, calculateDelay } from "./retry.js";
 
+// Re-export multimodal content helpers
+export {
+  toContentParts,
+  getTextContent,
+  hasImageContent,
+  imageToBase64,
+  imageToDataUrl,
+  imageFromBytes,
+} from "./content.js";
+
+// Re-export tool use
+export {
+  defineTool,
+  parseToolArguments,
+  zodToJsonSchema,
+  type Tool,
+  type JsonSchema,
+} from "./tools.js";
+export {
+  runAgent,
+  executeToolCall,
+  type RunAgentOptions,
+  type RunAgentResult,
+  type AgentStep,
+  type ToolCallResult,
+} from "./agent.js";
+
 // Re-export AI call logging
 export {
   AICallLogger,
   createAILogger,
   estimateCost,
+  wrapProviderWithLogging,
+  promptTags,
+  callTags,
   type AICallLogEntry,
   type AILoggerOptions,
 } from "./logging.js";
 
+// Re-export spend budgets and usage reporting
+export {
+  createAIBudget,
+  budgetPeriodKey,
+  AIBudgetExceededError,
+  BUDGET_SCOPES,
+  BUDGET_PERIODS,
+  type AIBudget,
+  type AIBudgetOptions,
+  type AIBudgetPolicy,
+  type BudgetAlert,
+  type BudgetNotifier,
+  type BudgetPeriod,
+  type BudgetScope,
+  type BudgetStatus,
+  type BudgetTags,
+} from "./budget.js";
+export {
+  createUsageLogWriter,
+  readUsageLog,
+  summarizeUsage,
+  DEFAULT_USAGE_LOG,
+  UNTAGGED_FEATURE,
+  type UsageBreakdown,
+  type UsageReport,
+  type SummarizeUsageOptions,
+} from "./usage.js";
+
 // ---------------------------------------------------------------------------
 // Factory
 // ---------------------------------------------------------------------------
@@ -130,6 +299,7 @@ export function detectProviderFromEnv(): AIConfig | null {
         ? process.env[detection.baseUrlEnv]
         : undefined,
       defaultModel: process.env.AI_MODEL,
+      defaultEmbeddingModel: process.env.AI_EMBEDDING_MODEL,
       maxRetries: 3,
       timeout: 30000,
     };
@@ -146,6 +316,7 @@ export function detectProviderFromEnv(): AIConfig | null {
           ? process.env[detection.baseUrlEnv]
           : undefined,
         defaultModel: process.env.AI_MODEL,
+        defaultEmbeddingModel: process.env.AI_EMBEDDING_MODEL,
         maxRetries: 3,
         timeout: 30000,
       };
@@ -164,6 +335,7 @@ export function detectProviderFromEnv(): AIConfig | null {
  * - OPENAI_API_KEY: use OpenAI
  * - OLLAMA_HOST: use Ollama (local)
  * - AI_MODEL: override default model for any provider
+ * - AI_EMBEDDING_MODEL: override default embedding model
  */
 export function createAI(config?: Partial<AIConfig>): AIProvider {
   let resolvedConfig: AIConfig;
@@ -3,9 +3,11 @@ import {
   AICallLogger,
   createAILogger,
   estimateCost,
+  wrapProviderWithLogging,
   type AICallLogEntry,
 } from "./logging.js";
-import type { TokenUsage, AIProviderName } from "./types.js";
+import { createAIBudget, AIBudgetExceededError } from "./budget.js";
+import type { AIProvider, ChatStreamChunk, TokenUsage, AIProviderName } from "./types.js";
 
 describe("AI Call Logging", () => {
   beforeEach(() => {
@@ -234,6 +236,22 @@ describe("AI Call Logging", () => {
       expect(summary.totalCostUsd).toBeGreaterThan(0);
     });
 
+    it("should count cache hits without cost or tokens", () => {
+      const entries: AICallLogEntry[] = [];
+      const logger = new AICallLogger({
+        writer: (entry) => entries.push(entry),
+      });
+
+      logger.log(makeEntry());
+      logger.log(makeEntry({ cached: true }));
+
+      expect(entries[1].estimatedCostUsd).toBe(0);
+      const summary = logger.getSummary();
+      expect(summary.totalCalls).toBe(2);
+      expect(summary.cacheHits).toBe(1);
+      expect(summary.totalTokens).toBe(entries[0].usage.totalTokens);
+    });
+
     it("should reset session counters", () => {
       const logger = new AICallLogger({
         writer: () => {},
@@ -263,4 +281,163 @@ describe("AI Call Logging", () => {
       expect(entries).toHaveLength(1);
     });
   });
+
+  // -----------------------------------------------------------------------
+  // Provider wrapper
+  // -----------------------------------------------------------------------
+
+  describe("wrapProviderWithLogging", () => {
+    function createProvider(chat: AIProvider["chat"]): AIProvider {
+      return {
+        name: "openai",
+        capabilities: {
+          vision: true,
+          toolUse: true,
+          streaming: true,
+          structuredOutput: true,
+          systemPrompt: true,
+          embeddings: true,
+        },
+        supports: () => true,
+        chat,
+        generateStructured: vi.fn(),
+        embed: vi.fn(),
+      };
+    }
+
+    it("should tag chat log entries with the prompt id and version", async () => {
+      const entries: AICallLogEntry[] = [];
+      const logger = new AICallLogger({ writer: (entry) => entries.push(entry) });
+      const provider = wrapProviderWithLogging(
+        createProvider(async () => ({
+          content: "bug",
+          model: "gpt-4o",
+          usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+          finishReason: "stop",
+        })),
+        logger,
+      );
+
+      await provider.chat({
+        messages: [{ role: "user", content: "Classify: crash" }],
+        promptRef: { id: "support.classify", version: 2 },
+      });
+
+      expect(entries[0]).toMatchObject({
+        provider: "openai",
+        model: "gpt-4o",
+        success: true,
+        promptId: "support.classify",
+        promptVersion: 2,
+        prompt: "Classify: crash",
+        response: "bug",
+      });
+      expect(entries[0].usage.totalTokens).toBe(12);
+    });
+
+    it("should log failed calls and rethrow", async () => {
+      const entries: AICallLogEntry[] = [];
+      const logger = new AICallLogger({ writer: (entry) => entries.push(entry) });
+      const provider = wrapProviderWithLogging(
+        createProvider(async () => {
+          throw new Error("overloaded");
+        }),
+        logger,
+      );
+
+      await expect(
+        provider.chat({ model: "gpt-4o-mini", messages: [{ role: "user", content: "Hi" }] }),
+      ).rejects.toThrow("overloaded");
+
+      expect(entries[0]).toMatchObject({
+        model: "gpt-4o-mini",
+        success: false,
+        error: "overloaded",
+      });
+      expect(entries[0].promptId).toBeUndefined();
+    });
+
+    it("should refuse calls over budget without calling the provider", async () => {
+      const chat = vi.fn(async () => ({
+        content: "ok",
+        model: "gpt-4o",
+        usage: { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 },
+        finishReason: "stop" as const,
+      }));
+      const budget = createAIBudget({
+        policies: [{ scope: "feature", period: "daily", limitUsd: 0.01 }],
+      });
+      const logger = new AICallLogger({ writer: () => {}, budget });
+      const provider = wrapProviderWithLogging(createProvider(chat), logger);
+      const request = {
+        messages: [{ role: "user" as const, content: "Hi" }],
+        feature: "report",
+      };
+
+      await provider.chat(request);
+      await expect(provider.chat(request)).rejects.toBeInstanceOf(AIBudgetExceededError);
+      await provider.chat({ ...request, feature: "search" });
+
+      expect(chat).toHaveBeenCalledTimes(2);
+      expect(budget.status({ feature: "report" })[0].spentUsd).toBeCloseTo(0.0125);
+    });
+
+    it("should count streamed usage against the budget", async () => {
+      async function* stream(): AsyncIterable<ChatStreamChunk> {
+        yield { content: "ok", done: false };
+        yield {
+          content: "",
+          done: true,
+          model: "gpt-4o",
+          usage: { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 },
+        };
+      }
+      const chat = vi.fn(async () => stream());
+      const entries: AICallLogEntry[] = [];
+      const budget = createAIBudget({
+        policies: [{ scope: "feature", period: "daily", limitUsd: 0.01 }],
+      });
+      const logger = new AICallLogger({ writer: (entry) => entries.push(entry), budget });
+      const provider = wrapProviderWithLogging(createProvider(chat), logger);
+      const request = {
+        messages: [{ role: "user" as const, content: "Hi" }],
+        feature: "report",
+        stream: true,
+      };
+
+      const chunks: ChatStreamChunk[] = [];
+      for await (const chunk of (await provider.chat(request)) as AsyncIterable<ChatStreamChunk>) {
+        chunks.push(chunk);
+      }
+
+      expect(entries[0]).toMatchObject({ model: "gpt-4o", response: "ok", estimatedCostUsd: 0.0125 });
+      expect(budget.status({ feature: "report" })[0].spentUsd).toBeCloseTo(0.0125);
+      await expect(provider.chat(request)).rejects.toBeInstanceOf(AIBudgetExceededError);
+      expect(chat).toHaveBeenCalledTimes(1);
+    });
+
+    it("should log streams the consumer stops reading early", async () => {
+      async function* stream(): AsyncIterable<ChatStreamChunk> {
+        yield { content: "a".repeat(400), done: false, model: "gpt-4o" };
+        yield { content: "never read", done: false };
+      }
+      const entries: AICallLogEntry[] = [];
+      const budget = createAIBudget({ policies: [{ scope: "project", period: "daily", limitUsd: 1 }] });
+      const logger = new AICallLogger({ writer: (entry) => entries.push(entry), budget });
+      const provider = wrapProviderWithLogging(createProvider(vi.fn(async () => stream())), logger);
+
+      const response = (await provider.chat({
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+      })) as AsyncIterable<ChatStreamChunk>;
+      for await (const chunk of response) {
+        if (chunk.content) break;
+      }
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ model: "gpt-4o", success: true, response: "a".repeat(400) });
+      expect(entries[0]!.usage.completionTokens).toBe(100);
+      expect(budget.status({})[0].spentUsd).toBeGreaterThan(0);
+    });
+  });
 });
@@ -14,7 +14,24 @@
  *   const provider = wrapProviderWithLogging(rawProvider, aiLog);
  */
 
-import type { AIProviderName, TokenUsage } from "./types.js";
+import type { z } from "zod";
+import type {
+  AICapability,
+  AIProvider,
+  AIProviderName,
+  ChatOptions,
+  ChatResponse,
+  ChatStreamChunk,
+  EmbedOptions,
+  EmbedResponse,
+  GenerateStructuredOptions,
+  GenerateStructuredResponse,
+  PromptRef,
+  TokenUsage,
+} from "./types.js";
+import { getTextContent } from "./content.js";
+import { estimateChatTokens, estimateTokens } from "./context.js";
+import type { AIBudget, BudgetTags } from "./budget.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -58,6 +75,16 @@ export interface AICallLogEntry {
   requestId?: string;
   /** Whether the call was successful */
   success: boolean;
+  /** Whether the response was served from the response cache (no provider call) */
+  cached?: boolean;
+  /** Registered prompt the request was rendered from */
+  promptId?: string;
+  /** Version of the registered prompt */
+  promptVersion?: number;
+  /** Feature tag the call was made for */
+  feature?: string;
+  /** End user the call was made for */
+  userId?: string;
   /** Error message if failed */
   error?: string;
   /** Full prompt (dev mode only) */
@@ -76,12 +103,29 @@ export interface AILoggerOptions {
   writer?: (entry: AICallLogEntry) => void;
   /** Custom cost table override */
   costTable?: Record<string, { input: number; output: number }>;
+  /** Spend budget that every logged call counts against */
+  budget?: AIBudget;
 }
 
 // ---------------------------------------------------------------------------
 // Cost estimation
 // ---------------------------------------------------------------------------
 
+/**
+ * Look up a model's price per 1K tokens; undefined for unknown models.
+ */
+export function findModelCosts(
+  model: string,
+  costTable?: Record<string, { input: number; output: number }>,
+): { input: number; output: number } | undefined {
+  const table = costTable ?? COST_PER_1K_TOKENS;
+
+  // Try exact match first, then prefix match
+  if (Object.hasOwn(table, model)) return table[model];
+  const prefix = Object.keys(table).find((k) => model.startsWith(k));
+  return prefix ? table[prefix] : undefined;
+}
+
 /**
  * Estimate the cost of an AI call in USD.
  */
@@ -90,14 +134,7 @@ export function estimateCost(
   usage: TokenUsage,
   costTable?: Record<string, { input: number; output: number }>,
 ): number {
-  const table = costTable ?? COST_PER_1K_TOKENS;
-
-  // Try exact match first, then prefix match
-  let costs: { input: number; output: number } | undefined = table[model];
-  if (!costs) {
-    const prefix = Object.keys(table).find((k) => model.startsWith(k));
-    costs = prefix ? table[prefix] : undefined;
-  }
+  const costs = findModelCosts(model, costTable);
 
   if (!costs) {
     return 0; // Unknown model, no estimate
@@ -117,17 +154,20 @@ export class AICallLogger {
   private readonly logFullContent: boolean;
   private readonly writer: (entry: AICallLogEntry) => void;
   private readonly costTable: Record<string, { input: number; output: number }>;
+  private readonly budget?: AIBudget;
 
   /** Running totals for the session */
   private totalCalls = 0;
   private totalTokens = 0;
   private totalCostUsd = 0;
+  private cacheHits = 0;
 
   constructor(options: AILoggerOptions = {}) {
     const isDev =
       process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
     this.logFullContent = options.logFullContent ?? isDev;
     this.costTable = options.costTable ?? COST_PER_1K_TOKENS;
+    this.budget = options.budget;
     this.writer =
       options.writer ??
       ((entry) => {
@@ -145,11 +185,10 @@ export class AICallLogger {
    * Log a completed AI call.
    */
   log(entry: Omit<AICallLogEntry, "timestamp" | "estimatedCostUsd">): void {
-    const estimatedCostUsd = estimateCost(
-      entry.model,
-      entry.usage,
-      this.costTable,
-    );
+    // Cache hits consume no provider tokens, so they cost nothing
+    const estimatedCostUsd = entry.cached
+      ? 0
+      : estimateCost(entry.model, entry.usage, this.costTable);
 
     const fullEntry: AICallLogEntry = {
       ...entry,
@@ -159,10 +198,23 @@ export class AICallLogger {
 
     // Update running totals
     this.totalCalls++;
-    this.totalTokens += entry.usage.totalTokens;
+    if (entry.cached) {
+      this.cacheHits++;
+    } else {
+      this.totalTokens += entry.usage.totalTokens;
+    }
     this.totalCostUsd += estimatedCostUsd;
 
     this.writer(fullEntry);
+    this.budget?.record(fullEntry);
+  }
+
+  /**
+   * Refuse a call that would go over a hard budget limit.
+   * Throws `AIBudgetExceededError`; a no-op without a budget.
+   */
+  checkBudget(tags: BudgetTags, provider: AIProviderName): void {
+    this.budget?.check(tags, provider);
   }
 
   /**
@@ -172,11 +224,13 @@ export class AICallLogger {
     totalCalls: number;
     totalTokens: number;
     totalCostUsd: number;
+    cacheHits: number;
   } {
     return {
       totalCalls: this.totalCalls,
       totalTokens: this.totalTokens,
       totalCostUsd: Math.round(this.totalCostUsd * 1_000_000) / 1_000_000,
+      cacheHits: this.cacheHits,
     };
   }
 
@@ -187,9 +241,199 @@ export class AICallLogger {
     this.totalCalls = 0;
     this.totalTokens = 0;
     this.totalCostUsd = 0;
+    this.cacheHits = 0;
   }
 }
 
+// ---------------------------------------------------------------------------
+// Provider wrapper
+// ---------------------------------------------------------------------------
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Log entry fields identifying the prompt template of a request.
+ */
+export function promptTags(promptRef?: PromptRef): Pick<AICallLogEntry, "promptId" | "promptVersion"> {
+  return promptRef ? { promptId: promptRef.id, promptVersion: promptRef.version } : {};
+}
+
+/**
+ * Log entry fields identifying a request: prompt template, feature and user.
+ */
+export function callTags(request: {
+  promptRef?: PromptRef;
+  feature?: string;
+  userId?: string;
+}): Pick<AICallLogEntry, "promptId" | "promptVersion" | "feature" | "userId"> {
+  return {
+    ...promptTags(request.promptRef),
+    ...(request.feature ? { feature: request.feature } : {}),
+    ...(request.userId ? { userId: request.userId } : {}),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Usage of a stream stopped before the provider reported it */
+function estimateUsage(options: ChatOptions, content: string): TokenUsage {
+  const promptTokens = estimateChatTokens(options);
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Wrap a provider so every call is logged, tagged with the request's `promptRef`,
+ * `feature` and `userId`. Calls over a hard budget limit are refused before the
+ * provider is called. Streaming chats are logged once the stream ends, with
+ * the usage the provider reported on the final chunk (estimated when the
+ * consumer stops reading first).
+ */
+export function wrapProviderWithLogging(provider: AIProvider, logger: AICallLogger): AIProvider {
+  function logChat(
+    options: ChatOptions,
+    startedAt: number,
+    result: { model: string; usage: TokenUsage; content?: string } | { error: unknown; usage?: TokenUsage },
+  ): void {
+    const lastUser = [...options.messages].reverse().find((m) => m.role === "user");
+    logger.log({
+      provider: provider.name,
+      model: "error" in result ? (options.model ?? "unknown") : result.model,
+      durationMs: Date.now() - startedAt,
+      usage: result.usage ?? EMPTY_USAGE,
+      success: !("error" in result),
+      error: "error" in result ? errorMessage(result.error) : undefined,
+      prompt: lastUser ? getTextContent(lastUser.content) : undefined,
+      response: "error" in result ? undefined : result.content,
+      ...callTags(options),
+    });
+  }
+
+  async function* loggedStream(
+    options: ChatOptions,
+    stream: AsyncIterable<ChatStreamChunk>,
+    startedAt: number,
+  ): AsyncIterable<ChatStreamChunk> {
+    let content = "";
+    let model = options.model ?? "unknown";
+    let usage: TokenUsage | undefined;
+    let finished = false;
+    let failure: { error: unknown } | undefined;
+    try {
+      for await (const chunk of stream) {
+        content += chunk.content;
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) usage = chunk.usage;
+        yield chunk;
+      }
+      finished = true;
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      // Also runs when the consumer stops early (`break`), before the final
+      // chunk reports usage: the tokens so far are spent, so count an estimate
+      if (failure) {
+        logChat(options, startedAt, { ...failure, usage });
+      } else {
+        usage ??= finished ? EMPTY_USAGE : estimateUsage(options, content);
+        logChat(options, startedAt, { model, usage, content });
+      }
+    }
+  }
+
+  return {
+    name: provider.name,
+    capabilities: provider.capabilities,
+
+    supports(capability: AICapability): boolean {
+      return provider.supports(capability);
+    },
+
+    async chat(options: ChatOptions): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      logger.checkBudget(options, provider.name);
+      const startedAt = Date.now();
+      let result: ChatResponse | AsyncIterable<ChatStreamChunk>;
+      try {
+        result = await provider.chat(options);
+      } catch (error) {
+        logChat(options, startedAt, { error });
+        throw error;
+      }
+
+      if (options.stream) {
+        return loggedStream(options, result as AsyncIterable<ChatStreamChunk>, startedAt);
+      }
+      logChat(options, startedAt, result as ChatResponse);
+      return result;
+    },
+
+    async generateStructured<T extends z.ZodType>(
+      options: GenerateStructuredOptions<T>,
+    ): Promise<GenerateStructuredResponse<z.infer<T>>> {
+      logger.checkBudget(options, provider.name);
+      const startedAt = Date.now();
+      const base = {
+        provider: provider.name,
+        prompt: getTextContent(options.prompt),
+        ...callTags(options),
+      };
+      try {
+        const result = await provider.generateStructured(options);
+        logger.log({
+          ...base,
+          model: result.model,
+          durationMs: Date.now() - startedAt,
+          usage: result.usage,
+          success: true,
+          response: JSON.stringify(result.data),
+        });
+        return result;
+      } catch (error) {
+        logger.log({
+          ...base,
+          model: options.model ?? "unknown",
+          durationMs: Date.now() - startedAt,
+          usage: EMPTY_USAGE,
+          success: false,
+          error: errorMessage(error),
+        });
+        throw error;
+      }
+    },
+
+    async embed(options: EmbedOptions): Promise<EmbedResponse> {
+      logger.checkBudget(options, provider.name);
+      const startedAt = Date.now();
+      try {
+        const result = await provider.embed(options);
+        logger.log({
+          ...callTags(options),
+          provider: provider.name,
+          model: result.model,
+          durationMs: Date.now() - startedAt,
+          usage: result.usage,
+          success: true,
+        });
+        return result;
+      } catch (error) {
+        logger.log({
+          ...callTags(options),
+          provider: provider.name,
+          model: options.model ?? "unknown",
+          durationMs: Date.now() - startedAt,
+          usage: EMPTY_USAGE,
+          success: false,
+          error: errorMessage(error),
+        });
+        throw error;
+      }
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Factory
 // ---------------------------------------------------------------------------
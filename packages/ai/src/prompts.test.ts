@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import {
+  createPromptRegistry,
+  definePrompt,
+  loadPromptRegistry,
+  parsePromptFile,
+  renderTemplate,
+  templateVariables,
+} from "./prompts.js";
+
+const CLASSIFY_V1 = `---
+id: support.classify
+version: 1
+description: Classify user feedback
+variables:
+  - feedback: string
+  - roadmap?: string
+  - tags: string[]
+---
+[system]
+You are a feedback classifier.
+{{#if roadmap}}Roadmap: {{roadmap}}{{/if}}
+[user]
+Feedback: {{feedback}}
+Tags: {{tags}}
+`;
+
+describe("renderTemplate", () => {
+  it("should substitute placeholders and format values", () => {
+    expect(
+      renderTemplate("{{ name }} has {{count}} items: {{items}}{{missing}}", {
+        name: "Ada",
+        count: 3,
+        items: ["a", "b"],
+      }),
+    ).toBe("Ada has 3 items: a, b");
+  });
+
+  it("should render conditional blocks only when the variable is present", () => {
+    const template = "Hi{{#if name}}, {{name}}{{/if}}!";
+    expect(renderTemplate(template, { name: "Ada" })).toBe("Hi, Ada!");
+    expect(renderTemplate(template, { name: "" })).toBe("Hi!");
+    expect(renderTemplate(template, {})).toBe("Hi!");
+  });
+
+  it("should list referenced variables", () => {
+    expect(templateVariables("{{#if a}}{{b}}{{/if}} {{c}} {{b}}").sort()).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("definePrompt", () => {
+  const summarize = definePrompt({
+    id: "ops.summarize",
+    version: 2,
+    variables: z.object({ text: z.string(), maxWords: z.number().default(50) }),
+    system: "Summarize in at most {{maxWords}} words.",
+    template: "{{text}}",
+  });
+
+  it("should render messages, system prompt and prompt ref", () => {
+    expect(summarize.render({ text: "Long text" })).toEqual({
+      promptRef: { id: "ops.summarize", version: 2 },
+      systemPrompt: "Summarize in at most 50 words.",
+      prompt: "Long text",
+      messages: [{ role: "user", content: "Long text" }],
+    });
+  });
+
+  it("should reject invalid variables", () => {
+    expect(() => summarize.render({ text: 42 } as never)).toThrow(
+      'Invalid variables for prompt "ops.summarize" v2',
+    );
+  });
+
+  it("should reject undeclared placeholders and invalid versions", () => {
+    expect(() =>
+      definePrompt({ id: "x", version: 1, variables: z.object({ a: z.string() }), template: "{{b}}" }),
+    ).toThrow("undeclared variables: b");
+    expect(() => definePrompt({ id: "x", version: 0, template: "Hi" })).toThrow("invalid version");
+  });
+});
+
+describe("parsePromptFile", () => {
+  it("should parse frontmatter, typed variables and sections", () => {
+    const prompt = parsePromptFile(CLASSIFY_V1, "classify.v1.md");
+    expect(prompt.ref).toEqual({ id: "support.classify", version: 1 });
+    expect(prompt.description).toBe("Classify user feedback");
+
+    const rendered = prompt.render({ feedback: "Safari crash", tags: ["web", "auth"] });
+    expect(rendered.systemPrompt).toBe("You are a feedback classifier.");
+    expect(rendered.prompt).toBe("Feedback: Safari crash\nTags: web, auth");
+
+    expect(() => prompt.render({ feedback: "x" })).toThrow("Invalid variables");
+  });
+
+  it("should treat a body without sections as the user template", () => {
+    const prompt = parsePromptFile("---\nid: hello\nversion: 3\n---\nHello!\n");
+    expect(prompt.render({})).toMatchObject({ prompt: "Hello!" });
+    expect(prompt.render({}).systemPrompt).toBeUndefined();
+  });
+
+  it("should report missing fields and unknown types with the source", () => {
+    expect(() => parsePromptFile("Hello", "a.md")).toThrow("a.md: missing frontmatter");
+    expect(() => parsePromptFile("---\nversion: 1\n---\nHi", "b.md")).toThrow('b.md: frontmatter is missing "id"');
+    expect(() =>
+      parsePromptFile("---\nid: x\nversion: 1\nvariables:\n  - when: date\n---\nHi", "c.md"),
+    ).toThrow('c.md: unknown variable type "date"');
+  });
+});
+
+describe("PromptRegistry", () => {
+  function template(version: number) {
+    return definePrompt({ id: "greet", version, template: `Hello v${version}` });
+  }
+
+  it("should return the latest version by default", () => {
+    const registry = createPromptRegistry([template(1), template(3), template(2)]);
+    expect(registry.versions("greet")).toEqual([1, 2, 3]);
+    expect(registry.get("greet").version).toBe(3);
+    expect(registry.get("greet", 1).render({}).prompt).toBe("Hello v1");
+    expect(registry.list().map((p) => p.ref)).toEqual([{ id: "greet", version: 3 }]);
+  });
+
+  it("should throw for unknown prompts, versions and duplicates", () => {
+    const registry = createPromptRegistry([template(1)]);
+    expect(() => registry.get("missing")).toThrow('Unknown prompt "missing"');
+    expect(() => registry.get("greet", 2)).toThrow("has no version 2 (available: 1)");
+    expect(() => registry.register(template(1))).toThrow("already registered");
+    expect(registry.has("greet")).toBe(true);
+    expect(registry.has("greet", 2)).toBe(false);
+  });
+
+  describe("loading files", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "vor-prompts-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should load prompt files recursively", async () => {
+      mkdirSync(join(dir, "support"));
+      writeFileSync(join(dir, "support", "classify.v1.md"), CLASSIFY_V1);
+      writeFileSync(
+        join(dir, "support", "classify.v2.md"),
+        CLASSIFY_V1.replace("version: 1", "version: 2"),
+      );
+      writeFileSync(join(dir, "notes.txt"), "ignored");
+
+      const registry = await loadPromptRegistry(dir);
+      expect(registry.versions("support.classify")).toEqual([1, 2]);
+    });
+  });
+});
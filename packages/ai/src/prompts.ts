@@ -0,0 +1,362 @@
+/**
+ * Prompt Registry
+ *
+ * Versioned prompt templates with typed variables. Prompts are defined in
+ * code with `definePrompt()` or loaded from markdown files, rendered with
+ * `{{variable}}` placeholders, and carry a `promptRef` (id + version) that
+ * AI call logs record.
+ *
+ * Prompt file format (`prompts/support/classify.v2.md`):
+ *
+ *   ---
+ *   id: support.classify
+ *   version: 2
+ *   description: Classify user feedback
+ *   variables:
+ *     - feedback: string
+ *     - roadmap?: string
+ *   ---
+ *   [system]
+ *   You are a feedback classifier.
+ *   {{#if roadmap}}Roadmap: {{roadmap}}{{/if}}
+ *   [user]
+ *   Feedback: {{feedback}}
+ *
+ * Usage:
+ *   import { loadPromptRegistry } from '@vibeonrails/ai';
+ *
+ *   const prompts = await loadPromptRegistry('prompts');
+ *   const classify = prompts.get<{ feedback: string }>('support.classify');
+ *   const response = await ai.chat({ ...classify.render({ feedback }), temperature: 0 });
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import type { ChatMessage, PromptRef } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const PROMPT_VARIABLE_TYPES = ["string", "number", "boolean", "string[]"] as const;
+export type PromptVariableType = (typeof PROMPT_VARIABLE_TYPES)[number];
+
+export interface PromptDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** Stable identifier, e.g. `support.classify` */
+  id: string;
+  /** Positive integer, bumped on every prompt change */
+  version: number;
+  description?: string;
+  /** Zod object schema for the template variables */
+  variables?: S;
+  /** System prompt template */
+  system?: string;
+  /** User prompt template */
+  template: string;
+}
+
+/**
+ * A rendered prompt. Spreads into `chat()` (messages, systemPrompt) and
+ * `generateStructured()` (prompt, systemPrompt) options.
+ */
+export interface RenderedPrompt {
+  promptRef: PromptRef;
+  systemPrompt?: string;
+  /** Rendered user prompt */
+  prompt: string;
+  messages: ChatMessage[];
+}
+
+export interface PromptTemplate<V = Record<string, unknown>> {
+  readonly id: string;
+  readonly version: number;
+  readonly description?: string;
+  readonly ref: PromptRef;
+  /** Validate variables and render the prompt. Throws on invalid variables. */
+  render(variables: V): RenderedPrompt;
+}
+
+export interface PromptRegistry {
+  /** Add a template. Throws if the same id and version is already registered. */
+  register(template: PromptTemplate<never>): void;
+  /** Get a version of a prompt (default: the latest). Throws if missing. */
+  get<V = Record<string, unknown>>(id: string, version?: number): PromptTemplate<V>;
+  has(id: string, version?: number): boolean;
+  /** Registered versions of a prompt, ascending */
+  versions(id: string): number[];
+  /** Latest version of every registered prompt */
+  list(): PromptTemplate<never>[];
+  /** Load every `*.md` prompt file under a directory (recursively) */
+  loadDir(dir: string): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const CONDITIONAL = /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)\{\{\/if\}\}/g;
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === "") return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Render `{{name}}` placeholders and `{{#if name}}...{{/if}}` blocks.
+ * Conditionals do not nest.
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return template
+    .replace(CONDITIONAL, (_, name: string, body: string) =>
+      isPresent(variables[name]) ? body : "",
+    )
+    .replace(PLACEHOLDER, (_, name: string) => formatValue(variables[name]));
+}
+
+/**
+ * Variable names referenced by a template.
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(CONDITIONAL)) names.add(match[1]);
+  for (const match of template.matchAll(PLACEHOLDER)) names.add(match[1]);
+  return [...names];
+}
+
+// ---------------------------------------------------------------------------
+// Definition
+// ---------------------------------------------------------------------------
+
+/**
+ * Define a prompt template. Placeholders must be declared in `variables`.
+ */
+export function definePrompt<S extends z.ZodTypeAny = z.ZodObject<Record<string, never>>>(
+  definition: PromptDefinition<S>,
+): PromptTemplate<z.input<S>> {
+  const { id, version, description, system, template } = definition;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Prompt "${id}" has invalid version ${String(version)}: must be a positive integer`);
+  }
+
+  const schema: z.ZodTypeAny = definition.variables ?? z.object({});
+  if (schema instanceof z.ZodObject) {
+    const declared = Object.keys(schema.shape as z.ZodRawShape);
+    const undeclared = templateVariables(`${system ?? ""}\n${template}`).filter(
+      (name) => !declared.includes(name),
+    );
+    if (undeclared.length > 0) {
+      throw new Error(`Prompt "${id}" v${version} uses undeclared variables: ${undeclared.join(", ")}`);
+    }
+  }
+
+  const ref: PromptRef = { id, version };
+
+  return {
+    id,
+    version,
+    description,
+    ref,
+
+    render(variables: z.input<S>): RenderedPrompt {
+      const parsed = schema.safeParse(variables);
+      if (!parsed.success) {
+        throw new Error(`Invalid variables for prompt "${id}" v${version}: ${parsed.error.message}`);
+      }
+
+      const values = parsed.data as Record<string, unknown>;
+      const prompt = renderTemplate(template, values).trim();
+      const systemPrompt = system ? renderTemplate(system, values).trim() : undefined;
+
+      return {
+        promptRef: ref,
+        ...(systemPrompt ? { systemPrompt } : {}),
+        prompt,
+        messages: [{ role: "user", content: prompt }],
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Prompt files
+// ---------------------------------------------------------------------------
+
+function variableSchema(type: string, source: string): z.ZodTypeAny {
+  switch (type) {
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "string[]":
+      return z.array(z.string());
+    default:
+      throw new Error(
+        `${source}: unknown variable type "${type}" (expected ${PROMPT_VARIABLE_TYPES.join(", ")})`,
+      );
+  }
+}
+
+/**
+ * Parse the frontmatter of a prompt file: `key: value` pairs plus a
+ * `variables:` list of `- name: type` entries (`name?` for optional).
+ */
+function parsePromptFrontmatter(
+  text: string,
+  source: string,
+): { fields: Record<string, string>; variables: z.ZodRawShape } {
+  const fields: Record<string, string> = {};
+  const variables: z.ZodRawShape = {};
+  let inVariables = false;
+
+  for (const line of text.split("\n")) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = /^\s+-\s*(\w+)(\?)?\s*:\s*(\S+)\s*$/.exec(line);
+    if (inVariables && item) {
+      const [, name, optional, type] = item;
+      const schema = variableSchema(type, source);
+      variables[name] = optional ? schema.optional() : schema;
+      continue;
+    }
+
+    const field = /^(\w+)\s*:\s*(.*)$/.exec(line);
+    if (!field) throw new Error(`${source}: cannot parse frontmatter line "${line.trim()}"`);
+    inVariables = field[1] === "variables";
+    if (!inVariables) fields[field[1]] = field[2].trim().replace(/^["']|["']$/g, "");
+  }
+
+  return { fields, variables };
+}
+
+/**
+ * Split a prompt body into `[system]` and `[user]` sections. A body
+ * without section markers is the user template.
+ */
+function splitSections(body: string): { system?: string; template: string } {
+  const sections: Record<string, string[]> = {};
+  let current = "user";
+  for (const line of body.split("\n")) {
+    const marker = /^\[(system|user)\]\s*$/.exec(line.trim());
+    if (marker) {
+      current = marker[1];
+      continue;
+    }
+    (sections[current] ??= []).push(line);
+  }
+
+  return {
+    system: sections.system?.join("\n").trim() || undefined,
+    template: (sections.user ?? []).join("\n").trim(),
+  };
+}
+
+/**
+ * Parse a prompt file (frontmatter + `[system]` / `[user]` sections).
+ */
+export function parsePromptFile(content: string, source = "prompt"): PromptTemplate {
+  const match = /^---\s*\n([\s\S]*?)\n---\s*\n?([\s\S]*)$/.exec(content);
+  if (!match) throw new Error(`${source}: missing frontmatter`);
+
+  const { fields, variables } = parsePromptFrontmatter(match[1], source);
+  if (!fields.id) throw new Error(`${source}: frontmatter is missing "id"`);
+  if (!fields.version) throw new Error(`${source}: frontmatter is missing "version"`);
+
+  const { system, template } = splitSections(match[2]);
+
+  return definePrompt({
+    id: fields.id,
+    version: Number(fields.version),
+    description: fields.description,
+    variables: z.object(variables),
+    system,
+    template,
+  }) as PromptTemplate;
+}
+
+async function findPromptFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await findPromptFiles(path)));
+    else if (entry.name.endsWith(".md")) files.push(path);
+  }
+  return files.sort();
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an empty prompt registry.
+ */
+export function createPromptRegistry(templates: PromptTemplate<never>[] = []): PromptRegistry {
+  const prompts = new Map<string, Map<number, PromptTemplate<never>>>();
+
+  const registry: PromptRegistry = {
+    register(template) {
+      const versions = prompts.get(template.id) ?? new Map<number, PromptTemplate<never>>();
+      if (versions.has(template.version)) {
+        throw new Error(`Prompt "${template.id}" v${template.version} is already registered`);
+      }
+      versions.set(template.version, template);
+      prompts.set(template.id, versions);
+    },
+
+    get<V>(id: string, version?: number): PromptTemplate<V> {
+      const available = registry.versions(id);
+      if (available.length === 0) throw new Error(`Unknown prompt "${id}"`);
+
+      const wanted = version ?? available[available.length - 1];
+      const template = prompts.get(id)?.get(wanted);
+      if (!template) {
+        throw new Error(`Prompt "${id}" has no version ${wanted} (available: ${available.join(", ")})`);
+      }
+      return template as unknown as PromptTemplate<V>;
+    },
+
+    has(id, version) {
+      const versions = prompts.get(id);
+      if (!versions) return false;
+      return version === undefined || versions.has(version);
+    },
+
+    versions(id) {
+      return [...(prompts.get(id)?.keys() ?? [])].sort((a, b) => a - b);
+    },
+
+    list() {
+      return [...prompts.keys()].sort().map((id) => registry.get<never>(id));
+    },
+
+    async loadDir(dir) {
+      for (const path of await findPromptFiles(dir)) {
+        registry.register(parsePromptFile(await readFile(path, "utf-8"), path));
+      }
+    },
+  };
+
+  for (const template of templates) registry.register(template);
+  return registry;
+}
+
+/**
+ * Create a registry and load every prompt file under a directory.
+ */
+export async function loadPromptRegistry(dir: string): Promise<PromptRegistry> {
+  const registry = createPromptRegistry();
+  await registry.loadDir(dir);
+  return registry;
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { createAnthropicProvider } from './anthropic.js';
-import { type AIConfig, AIError } from '../types.js';
+import { type AIConfig, type ChatStreamChunk, AIError } from '../types.js';
 
 const mockConfig: AIConfig = {
   provider: 'anthropic',
@@ -28,6 +28,18 @@ function mockFetchError(status: number, errorBody: unknown): void {
   );
 }
 
+function mockFetchStream(lines: string[]): void {
+  vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+    new Response(lines.join('\n') + '\n', { status: 200 }),
+  );
+}
+
+async function collect(stream: unknown): Promise<ChatStreamChunk[]> {
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of stream as AsyncIterable<ChatStreamChunk>) chunks.push(chunk);
+  return chunks;
+}
+
 describe('AnthropicProvider', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -124,6 +136,119 @@ describe('AnthropicProvider', () => {
       expect(requestBody.system).toBe('You are helpful.');
     });
 
+    it('should join multiple system messages into the system parameter', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'msg-123',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'OK' }],
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 15, output_tokens: 1 },
+      });
+
+      await provider.chat({
+        messages: [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'system', content: 'Summary of the earlier conversation:\nBilling.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        stream: false,
+      });
+
+      const requestBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(requestBody.system).toBe(
+        'You are helpful.\n\nSummary of the earlier conversation:\nBilling.',
+      );
+    });
+
+    it('should fit the conversation to the context window before sending', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'msg-123',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'OK' }],
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 15, output_tokens: 1 },
+      });
+
+      await provider.chat({
+        messages: [
+          { role: 'user', content: 'x'.repeat(4000) },
+          { role: 'assistant', content: 'y'.repeat(4000) },
+          { role: 'user', content: 'Latest question' },
+        ],
+        contextStrategy: 'dropOldest',
+        contextLimit: 600,
+        maxTokens: 100,
+        stream: false,
+      });
+
+      const requestBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(requestBody.messages).toEqual([{ role: 'user', content: 'Latest question' }]);
+    });
+
+    it('should keep a context summary next to an explicit systemPrompt', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+      const reply = (text: string) =>
+        new Response(
+          JSON.stringify({
+            id: 'msg-123',
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'text', text }],
+            model: 'claude-sonnet-4-20250514',
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 15, output_tokens: 1 },
+          }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } },
+        );
+      // The first request asks for the summary
+      vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(reply('They discussed billing.'))
+        .mockResolvedValueOnce(reply('OK'));
+
+      await provider.chat({
+        messages: [
+          { role: 'user', content: 'x'.repeat(4000) },
+          { role: 'assistant', content: 'y'.repeat(4000) },
+          { role: 'user', content: 'Latest question' },
+        ],
+        systemPrompt: 'You are helpful.',
+        contextStrategy: 'summarize',
+        contextLimit: 1000,
+        maxTokens: 100,
+        stream: false,
+      });
+
+      const requestBody = JSON.parse(vi.mocked(fetch).mock.calls[1][1]?.body as string);
+      expect(requestBody.system).toBe(
+        'You are helpful.\n\nSummary of the earlier conversation:\nThey discussed billing.',
+      );
+      expect(requestBody.messages).toEqual([{ role: 'user', content: 'Latest question' }]);
+    });
+
+    it('should throw CONTEXT_LENGTH_EXCEEDED without calling the API', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      await expect(
+        provider.chat({
+          messages: [{ role: 'user', content: 'x'.repeat(8000) }],
+          contextStrategy: 'dropOldest',
+          contextLimit: 600,
+          maxTokens: 100,
+          stream: false,
+        }),
+      ).rejects.toMatchObject({ code: 'CONTEXT_LENGTH_EXCEEDED' });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
     it('should use custom model when specified', async () => {
       const provider = createAnthropicProvider(mockConfig);
 
@@ -170,6 +295,216 @@ describe('AnthropicProvider', () => {
     });
   });
 
+  describe('chat (streaming)', () => {
+    it('should report usage from message_start and message_delta on the final chunk', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchStream([
+        'event: message_start',
+        'data: {"type":"message_start","message":{"model":"claude-sonnet-4-20250514","usage":{"input_tokens":12,"output_tokens":1}}}',
+        'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hello"}}',
+        'data: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":5}}',
+        'data: {"type":"message_stop"}',
+      ]);
+
+      const chunks = await collect(
+        await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], stream: true }),
+      );
+
+      expect(chunks.map((c) => c.content).join('')).toBe('Hello');
+      expect(chunks.at(-1)).toEqual({
+        content: '',
+        done: true,
+        model: 'claude-sonnet-4-20250514',
+        usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      });
+    });
+  });
+
+  describe('tool use', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      inputSchema: z.object({ city: z.string() }),
+    };
+
+    it('should send tools and return tool calls', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'msg-123',
+        type: 'message',
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'get_weather',
+            input: { city: 'Lisbon' },
+          },
+        ],
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 10 },
+      });
+
+      const result = await provider.chat({
+        messages: [{ role: 'user', content: 'Weather in Lisbon?' }],
+        tools: [weatherTool],
+        toolChoice: 'required',
+      });
+
+      expect(result).toMatchObject({
+        content: 'Let me check.',
+        finishReason: 'toolUse',
+        toolCalls: [
+          { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Lisbon' } },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.tools).toEqual([
+        {
+          name: 'get_weather',
+          description: 'Get the weather for a city',
+          input_schema: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+            additionalProperties: false,
+          },
+        },
+      ]);
+      expect(requestBody.tool_choice).toEqual({ type: 'any' });
+    });
+
+    it('should map tool calls and merged tool results to content blocks', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'msg-124',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Sunny in both.' }],
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 30, output_tokens: 5 },
+      });
+
+      await provider.chat({
+        messages: [
+          { role: 'user', content: 'Weather in Lisbon and Porto?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Lisbon' } },
+              { id: 'toolu_2', name: 'get_weather', arguments: { city: 'Porto' } },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', toolCallId: 'toolu_1' },
+          { role: 'tool', content: 'Not found', toolCallId: 'toolu_2', isError: true },
+        ],
+        tools: [weatherTool],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Lisbon' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Porto' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny' },
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_2',
+              content: 'Not found',
+              is_error: true,
+            },
+          ],
+        },
+      ]);
+      expect(requestBody.tool_choice).toBeUndefined();
+    });
+
+    it('should reject tools combined with streaming', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      await expect(
+        provider.chat({
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools: [weatherTool],
+          stream: true,
+        }),
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+  });
+
+  describe('vision', () => {
+    it('should map image parts to Anthropic image blocks', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'msg-200',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'A cat.' }],
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 100, output_tokens: 3 },
+      });
+
+      await provider.chat({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', data: 'iVBORw==', mediaType: 'image/png' },
+              { type: 'imageUrl', url: 'https://example.com/cat.jpg' },
+            ],
+          },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        {
+          type: 'image',
+          source: { type: 'base64', media_type: 'image/png', data: 'iVBORw==' },
+        },
+        {
+          type: 'image',
+          source: { type: 'url', url: 'https://example.com/cat.jpg' },
+        },
+      ]);
+    });
+  });
+
+  describe('embed', () => {
+    it('should throw CAPABILITY_NOT_SUPPORTED', async () => {
+      const provider = createAnthropicProvider(mockConfig);
+      expect(provider.supports('embeddings')).toBe(false);
+      await expect(provider.embed({ input: 'Hello' })).rejects.toMatchObject({
+        code: 'CAPABILITY_NOT_SUPPORTED',
+      });
+    });
+  });
+
   describe('chat error handling', () => {
     it('should throw AUTH_ERROR on 401', async () => {
       const provider = createAnthropicProvider(mockConfig);
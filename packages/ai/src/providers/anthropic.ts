@@ -10,19 +10,53 @@ import {
   type GenerateStructuredResponse,
   type AICapability,
   type ChatMessage,
+  type ToolCall,
+  type MessageContent,
+  type EmbedResponse,
   AIError,
 } from '../types.js';
 import { withRetry } from '../retry.js';
+import { fitToContext } from '../context.js';
+import { zodToJsonSchema } from '../tools.js';
+import { getTextContent, imageToBase64 } from '../content.js';
 
 const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
 const ANTHROPIC_DEFAULT_MODEL = 'claude-sonnet-4-20250514';
 const ANTHROPIC_API_VERSION = '2023-06-01';
 
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source:
+        | { type: 'base64'; media_type: string; data: string }
+        | { type: 'url'; url: string };
+    }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string;
+      is_error?: boolean;
+    };
+
 interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | AnthropicContentBlock[];
 }
 
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+type AnthropicToolChoice =
+  | { type: 'auto' }
+  | { type: 'any' }
+  | { type: 'none' }
+  | { type: 'tool'; name: string };
+
 interface AnthropicRequest {
   model: string;
   messages: AnthropicMessage[];
@@ -30,13 +64,15 @@ interface AnthropicRequest {
   system?: string;
   temperature?: number;
   stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
 }
 
 interface AnthropicResponse {
   id: string;
   type: string;
   role: string;
-  content: Array<{ type: string; text: string }>;
+  content: AnthropicContentBlock[];
   model: string;
   stop_reason: string;
   usage: {
@@ -45,30 +81,148 @@ interface AnthropicResponse {
   };
 }
 
+/**
+ * Convert VoR message content to Anthropic content (string or blocks).
+ */
+function toAnthropicContent(
+  content: MessageContent,
+): string | AnthropicContentBlock[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map((part): AnthropicContentBlock => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return {
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: part.mediaType,
+            data: imageToBase64(part),
+          },
+        };
+      case 'imageUrl':
+        return { type: 'image', source: { type: 'url', url: part.url } };
+    }
+  });
+}
+
 /**
  * Convert VoR chat messages to Anthropic format.
- * Anthropic uses a separate system parameter, not a system message in the array.
+ * Anthropic uses a separate system parameter, not a system message in the array;
+ * multiple system messages are joined into it.
+ * Tool calls become `tool_use` blocks on the assistant turn, and consecutive
+ * tool results are merged into a single user turn of `tool_result` blocks.
  */
 function toAnthropicMessages(
   messages: ChatMessage[],
 ): { messages: AnthropicMessage[]; system?: string } {
-  let system: string | undefined;
+  const systemParts: string[] = [];
   const anthropicMessages: AnthropicMessage[] = [];
 
   for (const msg of messages) {
     if (msg.role === 'system') {
-      system = msg.content;
+      systemParts.push(getTextContent(msg.content));
+    } else if (msg.role === 'tool') {
+      const block: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: msg.toolCallId ?? '',
+        content: getTextContent(msg.content),
+        ...(msg.isError ? { is_error: true } : {}),
+      };
+      const previous = anthropicMessages[anthropicMessages.length - 1];
+      if (
+        previous?.role === 'user' &&
+        Array.isArray(previous.content) &&
+        previous.content.every((b) => b.type === 'tool_result')
+      ) {
+        previous.content.push(block);
+      } else {
+        anthropicMessages.push({ role: 'user', content: [block] });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      const blocks: AnthropicContentBlock[] = [];
+      const text = getTextContent(msg.content);
+      if (text) {
+        blocks.push({ type: 'text', text });
+      }
+      for (const call of msg.toolCalls) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+      anthropicMessages.push({ role: 'assistant', content: blocks });
     } else {
       anthropicMessages.push({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
+        role: msg.role,
+        content: toAnthropicContent(msg.content),
       });
     }
   }
 
+  const system = systemParts.length > 0 ? systemParts.join('\n\n') : undefined;
   return { messages: anthropicMessages, system };
 }
 
+/**
+ * Combine the explicit systemPrompt with the system messages, which may
+ * carry a context summary, so neither is lost.
+ */
+function joinSystem(systemPrompt: string | undefined, system: string | undefined): string | undefined {
+  const parts = [systemPrompt, system].filter(Boolean);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+/**
+ * Convert VoR tool options to Anthropic `tools` / `tool_choice` fields.
+ */
+function toAnthropicTools(
+  options: ChatOptions,
+): Pick<AnthropicRequest, 'tools' | 'tool_choice'> {
+  if (!options.tools?.length) {
+    return {};
+  }
+
+  const tools = options.tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: zodToJsonSchema(tool.inputSchema),
+  }));
+
+  const choice = options.toolChoice;
+  if (!choice || choice === 'auto') {
+    return { tools };
+  }
+  if (choice === 'none') {
+    return { tools, tool_choice: { type: 'none' } };
+  }
+  if (choice === 'required') {
+    return { tools, tool_choice: { type: 'any' } };
+  }
+  return { tools, tool_choice: { type: 'tool', name: choice.name } };
+}
+
+/**
+ * Extract tool calls from Anthropic `tool_use` content blocks.
+ */
+function fromAnthropicToolCalls(
+  content: AnthropicContentBlock[],
+): ToolCall[] {
+  const calls: ToolCall[] = [];
+  for (const block of content) {
+    if (block.type === 'tool_use') {
+      calls.push({ id: block.id, name: block.name, arguments: block.input ?? {} });
+    }
+  }
+  return calls;
+}
+
 /**
  * Map Anthropic error status codes to VoR error codes.
  */
@@ -121,6 +275,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
     streaming: true,
     structuredOutput: true,
     systemPrompt: true,
+    embeddings: false,
   };
 
   async function makeRequest(
@@ -150,25 +305,25 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
   ): Promise<ChatResponse> {
     const { messages, system } = toAnthropicMessages(options.messages);
 
-    if (options.systemPrompt) {
-      // Explicit systemPrompt takes precedence
-    }
-
     const body: AnthropicRequest = {
       model: options.model ?? defaultModel,
       messages,
       max_tokens: options.maxTokens ?? 4096,
-      system: options.systemPrompt ?? system,
+      system: joinSystem(options.systemPrompt, system),
       temperature: options.temperature,
       stream: false,
+      ...toAnthropicTools(options),
     };
 
     return withRetry(async () => {
       const response = await makeRequest(body);
       const data = (await response.json()) as AnthropicResponse;
+      const toolCalls = fromAnthropicToolCalls(data.content);
 
       return {
-        content: data.content.map((c) => c.text).join(''),
+        content: data.content
+          .map((c) => (c.type === 'text' ? c.text : ''))
+          .join(''),
         model: data.model,
         usage: {
           promptTokens: data.usage.input_tokens,
@@ -177,6 +332,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
             data.usage.input_tokens + data.usage.output_tokens,
         },
         finishReason: mapFinishReason(data.stop_reason),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
       };
     }, 'anthropic', retryConfig);
   }
@@ -190,7 +346,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
       model: options.model ?? defaultModel,
       messages,
       max_tokens: options.maxTokens ?? 4096,
-      system: options.systemPrompt ?? system,
+      system: joinSystem(options.systemPrompt, system),
       temperature: options.temperature,
       stream: true,
     };
@@ -218,6 +374,24 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
 
     const decoder = new TextDecoder();
     let buffer = '';
+    let model: string | undefined;
+    // message_start reports input tokens, message_delta the output so far
+    let inputTokens: number | undefined;
+    let outputTokens = 0;
+    const final = (): ChatStreamChunk => ({
+      content: '',
+      done: true,
+      ...(inputTokens !== undefined
+        ? {
+            usage: {
+              promptTokens: inputTokens,
+              completionTokens: outputTokens,
+              totalTokens: inputTokens + outputTokens,
+            },
+          }
+        : {}),
+      ...(model ? { model } : {}),
+    });
 
     try {
       while (true) {
@@ -232,7 +406,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
           if (line.startsWith('data: ')) {
             const data = line.slice(6).trim();
             if (data === '[DONE]') {
-              yield { content: '', done: true };
+              yield final();
               return;
             }
 
@@ -241,7 +415,15 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
 
             const type = parsed.type as string;
 
-            if (type === 'content_block_delta') {
+            if (type === 'message_start') {
+              const message = parsed.message as Partial<AnthropicResponse> | undefined;
+              model = message?.model;
+              inputTokens = message?.usage?.input_tokens;
+              outputTokens = message?.usage?.output_tokens ?? 0;
+            } else if (type === 'message_delta') {
+              const usage = parsed.usage as { output_tokens?: number } | undefined;
+              if (usage?.output_tokens !== undefined) outputTokens = usage.output_tokens;
+            } else if (type === 'content_block_delta') {
               const delta = parsed.delta as Record<string, unknown>;
               if (delta?.text) {
                 yield {
@@ -250,7 +432,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
                 };
               }
             } else if (type === 'message_stop') {
-              yield { content: '', done: true };
+              yield final();
               return;
             }
           }
@@ -258,7 +440,7 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
       }
 
       // If we get here without a message_stop, signal completion
-      yield { content: '', done: true };
+      yield final();
     } finally {
       reader.releaseLock();
     }
@@ -288,9 +470,17 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
     },
 
     async chat(
-      options: ChatOptions,
+      requestOptions: ChatOptions,
     ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      const options = await fitToContext(provider, requestOptions, defaultModel);
       if (options.stream) {
+        if (options.tools?.length) {
+          throw new AIError(
+            'Tool use is not supported with streaming',
+            'INVALID_REQUEST',
+            'anthropic',
+          );
+        }
         return chatStreaming(options);
       }
       return chatNonStreaming(options);
@@ -348,6 +538,14 @@ export function createAnthropicProvider(config: AIConfig): AIProvider {
         usage: chatResponse.usage,
       };
     },
+
+    async embed(): Promise<EmbedResponse> {
+      throw new AIError(
+        'Anthropic does not provide an embeddings API. Use OpenAI or Ollama for embeddings.',
+        'CAPABILITY_NOT_SUPPORTED',
+        'anthropic',
+      );
+    },
   };
 
   return provider;
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { createOllamaProvider } from './ollama.js';
-import { type AIConfig } from '../types.js';
+import { type AIConfig, type ChatStreamChunk } from '../types.js';
 
 const mockConfig: AIConfig = {
   provider: 'ollama',
@@ -29,6 +29,18 @@ function mockFetchError(status: number, errorBody: unknown): void {
   );
 }
 
+function mockFetchStream(lines: string[]): void {
+  vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+    new Response(lines.join('\n') + '\n', { status: 200 }),
+  );
+}
+
+async function collect(stream: unknown): Promise<ChatStreamChunk[]> {
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of stream as AsyncIterable<ChatStreamChunk>) chunks.push(chunk);
+  return chunks;
+}
+
 describe('OllamaProvider', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -39,11 +51,11 @@ describe('OllamaProvider', () => {
   });
 
   describe('creation', () => {
-    it('should create provider with correct name and reduced capabilities', () => {
+    it('should create provider with correct name and capabilities', () => {
       const provider = createOllamaProvider(mockConfig);
       expect(provider.name).toBe('ollama');
-      expect(provider.supports('vision')).toBe(false);
-      expect(provider.supports('toolUse')).toBe(false);
+      expect(provider.supports('vision')).toBe(true);
+      expect(provider.supports('toolUse')).toBe(true);
       expect(provider.supports('streaming')).toBe(true);
       expect(provider.supports('structuredOutput')).toBe(true);
       expect(provider.supports('systemPrompt')).toBe(true);
@@ -136,6 +148,188 @@ describe('OllamaProvider', () => {
     });
   });
 
+  describe('chat (streaming)', () => {
+    it('should report eval counts on the final chunk', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      mockFetchStream([
+        '{"model":"llama3","message":{"role":"assistant","content":"Hello"},"done":false}',
+        '{"model":"llama3","message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":8,"eval_count":3}',
+      ]);
+
+      const chunks = await collect(
+        await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], stream: true }),
+      );
+
+      expect(chunks.map((c) => c.content).join('')).toBe('Hello');
+      expect(chunks.at(-1)).toEqual({
+        content: '',
+        done: true,
+        model: 'llama3',
+        usage: { promptTokens: 8, completionTokens: 3, totalTokens: 11 },
+      });
+    });
+  });
+
+  describe('tool use', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      inputSchema: z.object({ city: z.string() }),
+    };
+
+    it('should send tools and return tool calls with generated ids', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      mockFetchResponse({
+        model: 'llama3.1',
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'get_weather', arguments: { city: 'Lisbon' } } },
+          ],
+        },
+        done: true,
+        prompt_eval_count: 20,
+        eval_count: 10,
+      });
+
+      const result = await provider.chat({
+        messages: [{ role: 'user', content: 'Weather in Lisbon?' }],
+        tools: [weatherTool],
+      });
+
+      expect(result).toMatchObject({
+        finishReason: 'toolUse',
+        toolCalls: [
+          { id: 'call_0', name: 'get_weather', arguments: { city: 'Lisbon' } },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.tools[0]).toMatchObject({
+        type: 'function',
+        function: { name: 'get_weather' },
+      });
+    });
+
+    it('should omit tools when toolChoice is none', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      mockFetchResponse({
+        model: 'llama3.1',
+        message: { role: 'assistant', content: 'No tools.' },
+        done: true,
+      });
+
+      await provider.chat({
+        messages: [
+          { role: 'user', content: 'Weather?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_0', name: 'get_weather', arguments: { city: 'Porto' } }],
+          },
+          { role: 'tool', content: 'Rainy', toolCallId: 'call_0' },
+        ],
+        tools: [weatherTool],
+        toolChoice: 'none',
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.tools).toBeUndefined();
+      expect(requestBody.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Porto' } } }],
+        },
+        { role: 'tool', content: 'Rainy' },
+      ]);
+    });
+  });
+
+  describe('vision', () => {
+    it('should send inline images in the images field', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      mockFetchResponse({
+        model: 'llava',
+        message: { role: 'assistant', content: 'A cat.' },
+        done: true,
+      });
+
+      await provider.chat({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', data: 'iVBORw==', mediaType: 'image/png' },
+            ],
+          },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.messages[0]).toEqual({
+        role: 'user',
+        content: 'What is this?',
+        images: ['iVBORw=='],
+      });
+    });
+
+    it('should reject image URLs with CAPABILITY_NOT_SUPPORTED', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      await expect(
+        provider.chat({
+          messages: [
+            {
+              role: 'user',
+              content: [{ type: 'imageUrl', url: 'https://example.com/cat.jpg' }],
+            },
+          ],
+        }),
+      ).rejects.toMatchObject({ code: 'CAPABILITY_NOT_SUPPORTED' });
+    });
+  });
+
+  describe('embed', () => {
+    it('should call /api/embed with a single input wrapped in an array', async () => {
+      const provider = createOllamaProvider(mockConfig);
+
+      mockFetchResponse({
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2, 0.3]],
+        prompt_eval_count: 3,
+      });
+
+      const result = await provider.embed({ input: 'hello' });
+
+      expect(result).toEqual({
+        embeddings: [[0.1, 0.2, 0.3]],
+        model: 'nomic-embed-text',
+        usage: { promptTokens: 3, completionTokens: 0, totalTokens: 3 },
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:11434/api/embed',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody).toEqual({ model: 'nomic-embed-text', input: ['hello'] });
+    });
+  });
+
   describe('chat error handling', () => {
     it('should throw MODEL_NOT_FOUND on 404', async () => {
       const provider = createOllamaProvider(mockConfig);
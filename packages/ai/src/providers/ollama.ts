@@ -10,16 +10,38 @@ import {
   type GenerateStructuredResponse,
   type AICapability,
   type ChatMessage,
+  type ToolCall,
+  type EmbedOptions,
+  type EmbedResponse,
   AIError,
 } from '../types.js';
 import { withRetry } from '../retry.js';
+import { fitToContext } from '../context.js';
+import { zodToJsonSchema } from '../tools.js';
+import { getTextContent, imageToBase64 } from '../content.js';
 
 const OLLAMA_BASE_URL = 'http://localhost:11434';
 const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+const OLLAMA_DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
 
 interface OllamaMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+}
+
+interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
 }
 
 interface OllamaChatRequest {
@@ -31,6 +53,7 @@ interface OllamaChatRequest {
     num_predict?: number;
   };
   format?: 'json';
+  tools?: OllamaTool[];
 }
 
 interface OllamaChatResponse {
@@ -38,6 +61,7 @@ interface OllamaChatResponse {
   message: {
     role: string;
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
   total_duration?: number;
@@ -45,9 +69,46 @@ interface OllamaChatResponse {
   prompt_eval_count?: number;
 }
 
+interface OllamaEmbedRequest {
+  model: string;
+  input: string[];
+}
+
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
+
+/**
+ * Extract base64 images from a message for Ollama's `images` field.
+ * Ollama cannot fetch remote images, so image URLs are rejected.
+ */
+function toOllamaImages(msg: ChatMessage): string[] {
+  if (typeof msg.content === 'string') {
+    return [];
+  }
+
+  const images: string[] = [];
+  for (const part of msg.content) {
+    if (part.type === 'imageUrl') {
+      throw new AIError(
+        'Ollama does not support image URLs. Pass image bytes or base64 data instead.',
+        'CAPABILITY_NOT_SUPPORTED',
+        'ollama',
+      );
+    }
+    if (part.type === 'image') {
+      images.push(imageToBase64(part));
+    }
+  }
+  return images;
+}
+
 /**
  * Convert VoR chat messages to Ollama format.
  * Ollama supports system, user, and assistant roles directly.
+ * Text parts are joined into `content`; images go in the `images` field.
  */
 function toOllamaMessages(
   messages: ChatMessage[],
@@ -60,15 +121,62 @@ function toOllamaMessages(
   }
 
   for (const msg of messages) {
-    ollamaMessages.push({
-      role: msg.role,
-      content: msg.content,
-    });
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      ollamaMessages.push({
+        role: 'assistant',
+        content: getTextContent(msg.content),
+        tool_calls: msg.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+    } else {
+      const images = toOllamaImages(msg);
+      ollamaMessages.push({
+        role: msg.role,
+        content: getTextContent(msg.content),
+        ...(images.length > 0 ? { images } : {}),
+      });
+    }
   }
 
   return ollamaMessages;
 }
 
+/**
+ * Convert VoR tools to Ollama's OpenAI-style `tools` field.
+ * Ollama has no `tool_choice`, so `none` simply omits the tools.
+ */
+function toOllamaTools(options: ChatOptions): OllamaTool[] | undefined {
+  if (!options.tools?.length || options.toolChoice === 'none') {
+    return undefined;
+  }
+
+  return options.tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: zodToJsonSchema(tool.inputSchema),
+    },
+  }));
+}
+
+/**
+ * Convert Ollama tool calls. Ollama does not assign call ids, so ids are
+ * derived from the call position within the response.
+ */
+function fromOllamaToolCalls(calls: OllamaToolCall[] | undefined): ToolCall[] {
+  if (!calls) {
+    return [];
+  }
+
+  return calls.map((call, index) => ({
+    id: `call_${index}`,
+    name: call.function.name,
+    arguments: call.function.arguments ?? {},
+  }));
+}
+
 /**
  * Map Ollama errors to VoR error codes.
  */
@@ -98,25 +206,32 @@ function safeJsonParse(text: string): Record<string, unknown> | null {
 export function createOllamaProvider(config: AIConfig): AIProvider {
   const baseUrl = config.baseUrl ?? OLLAMA_BASE_URL;
   const defaultModel = config.defaultModel ?? OLLAMA_DEFAULT_MODEL;
+  const defaultEmbeddingModel =
+    config.defaultEmbeddingModel ?? OLLAMA_DEFAULT_EMBEDDING_MODEL;
   const retryConfig = {
     maxRetries: config.maxRetries,
     baseDelay: 1000,
     maxDelay: 10000,
   };
 
-  // Ollama has reduced capabilities compared to cloud providers
+  // Vision and tool use depend on the pulled model (e.g. llava, llama3.1);
+  // image URLs are not supported, only inline image data
   const capabilities: CapabilitiesMap = {
-    vision: false,
-    toolUse: false,
+    vision: true,
+    toolUse: true,
     streaming: true,
     structuredOutput: true,
     systemPrompt: true,
+    embeddings: true,
   };
 
-  async function makeRequest(body: OllamaChatRequest): Promise<Response> {
+  async function makeRequest(
+    body: OllamaChatRequest | OllamaEmbedRequest,
+    path = '/api/chat',
+  ): Promise<Response> {
     let response: Response;
     try {
-      response = await fetch(`${baseUrl}/api/chat`, {
+      response = await fetch(`${baseUrl}${path}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -160,11 +275,13 @@ export function createOllamaProvider(config: AIConfig): AIProvider {
         temperature: options.temperature,
         num_predict: options.maxTokens,
       },
+      tools: toOllamaTools(options),
     };
 
     return withRetry(async () => {
       const response = await makeRequest(body);
       const data = (await response.json()) as OllamaChatResponse;
+      const toolCalls = fromOllamaToolCalls(data.message.tool_calls);
 
       return {
         content: data.message.content,
@@ -175,7 +292,9 @@ export function createOllamaProvider(config: AIConfig): AIProvider {
           totalTokens:
             (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
         },
-        finishReason: 'stop' as const,
+        ...(toolCalls.length > 0
+          ? { finishReason: 'toolUse' as const, toolCalls }
+          : { finishReason: 'stop' as const }),
       };
     }, 'ollama', retryConfig);
   }
@@ -239,7 +358,18 @@ export function createOllamaProvider(config: AIConfig): AIProvider {
           if (!parsed) continue;
 
           if (parsed.done) {
-            yield { content: '', done: true };
+            const promptTokens = parsed.prompt_eval_count ?? 0;
+            const completionTokens = parsed.eval_count ?? 0;
+            yield {
+              content: '',
+              done: true,
+              model: parsed.model,
+              usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+              },
+            };
             return;
           }
 
@@ -267,9 +397,17 @@ export function createOllamaProvider(config: AIConfig): AIProvider {
     },
 
     async chat(
-      options: ChatOptions,
+      requestOptions: ChatOptions,
     ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      const options = await fitToContext(provider, requestOptions, defaultModel);
       if (options.stream) {
+        if (options.tools?.length) {
+          throw new AIError(
+            'Tool use is not supported with streaming',
+            'INVALID_REQUEST',
+            'ollama',
+          );
+        }
         return chatStreaming(options);
       }
       return chatNonStreaming(options);
@@ -348,6 +486,30 @@ export function createOllamaProvider(config: AIConfig): AIProvider {
         usage: chatResponse.usage,
       };
     },
+
+    async embed(options: EmbedOptions): Promise<EmbedResponse> {
+      // Ollama's /api/embed has no dimensions parameter; the model decides
+      const body: OllamaEmbedRequest = {
+        model: options.model ?? defaultEmbeddingModel,
+        input: Array.isArray(options.input) ? options.input : [options.input],
+      };
+
+      return withRetry(async () => {
+        const response = await makeRequest(body, '/api/embed');
+        const data = (await response.json()) as OllamaEmbedResponse;
+        const promptTokens = data.prompt_eval_count ?? 0;
+
+        return {
+          embeddings: data.embeddings,
+          model: data.model,
+          usage: {
+            promptTokens,
+            completionTokens: 0,
+            totalTokens: promptTokens,
+          },
+        };
+      }, 'ollama', retryConfig);
+    },
   };
 
   return provider;
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { createOpenAIProvider } from './openai.js';
-import { type AIConfig } from '../types.js';
+import { type AIConfig, type ChatStreamChunk } from '../types.js';
 
 const mockConfig: AIConfig = {
   provider: 'openai',
@@ -28,6 +28,18 @@ function mockFetchError(status: number, errorBody: unknown): void {
   );
 }
 
+function mockFetchStream(lines: string[]): void {
+  vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+    new Response(lines.join('\n') + '\n', { status: 200 }),
+  );
+}
+
+async function collect(stream: unknown): Promise<ChatStreamChunk[]> {
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of stream as AsyncIterable<ChatStreamChunk>) chunks.push(chunk);
+  return chunks;
+}
+
 describe('OpenAIProvider', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -183,6 +195,300 @@ describe('OpenAIProvider', () => {
     });
   });
 
+  describe('chat (streaming)', () => {
+    it('should request usage and report it on the final chunk', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchStream([
+        'data: {"model":"gpt-4o-2024-08-06","choices":[{"delta":{"content":"Hel"}}]}',
+        'data: {"model":"gpt-4o-2024-08-06","choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}',
+        'data: {"model":"gpt-4o-2024-08-06","choices":[],"usage":{"prompt_tokens":9,"completion_tokens":2,"total_tokens":11}}',
+        'data: [DONE]',
+      ]);
+
+      const chunks = await collect(
+        await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], stream: true }),
+      );
+
+      const requestBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(requestBody.stream_options).toEqual({ include_usage: true });
+      expect(chunks.map((c) => c.content).join('')).toBe('Hello');
+      expect(chunks.at(-1)).toEqual({
+        content: '',
+        done: true,
+        model: 'gpt-4o-2024-08-06',
+        usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+      });
+    });
+  });
+
+  describe('tool use', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      inputSchema: z.object({ city: z.string() }),
+    };
+
+    it('should send tools and decode tool call arguments', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'chatcmpl-123',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        model: 'gpt-4o',
+        usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+      });
+
+      const result = await provider.chat({
+        messages: [{ role: 'user', content: 'Weather in Lisbon?' }],
+        tools: [weatherTool],
+        toolChoice: { name: 'get_weather' },
+      });
+
+      expect(result).toMatchObject({
+        content: '',
+        finishReason: 'toolUse',
+        toolCalls: [
+          { id: 'call_1', name: 'get_weather', arguments: { city: 'Lisbon' } },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Get the weather for a city',
+            parameters: {
+              type: 'object',
+              properties: { city: { type: 'string' } },
+              required: ['city'],
+              additionalProperties: false,
+            },
+          },
+        },
+      ]);
+      expect(requestBody.tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'get_weather' },
+      });
+    });
+
+    it('should map tool calls and tool results to OpenAI messages', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'chatcmpl-124',
+        choices: [
+          { message: { role: 'assistant', content: 'Sunny.' }, finish_reason: 'stop' },
+        ],
+        model: 'gpt-4o',
+        usage: { prompt_tokens: 30, completion_tokens: 2, total_tokens: 32 },
+      });
+
+      await provider.chat({
+        messages: [
+          { role: 'user', content: 'Weather in Lisbon?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              { id: 'call_1', name: 'get_weather', arguments: { city: 'Lisbon' } },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', toolCallId: 'call_1' },
+        ],
+        tools: [weatherTool],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' },
+            },
+          ],
+        },
+        { role: 'tool', content: 'Sunny', tool_call_id: 'call_1' },
+      ]);
+    });
+
+    it('should decode empty tool arguments as an empty object', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'chatcmpl-126',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'get_time', arguments: '' } },
+                { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: ' \n' } },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        model: 'gpt-4o',
+        usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+      });
+
+      const result = await provider.chat({
+        messages: [{ role: 'user', content: 'What time is it?' }],
+        tools: [{ name: 'get_time', description: 'Current time', inputSchema: z.object({}) }],
+      });
+
+      expect(result).toMatchObject({
+        toolCalls: [
+          { id: 'call_1', name: 'get_time', arguments: {} },
+          { id: 'call_2', name: 'get_time', arguments: {} },
+        ],
+      });
+    });
+
+    it('should throw PARSE_ERROR for malformed tool arguments', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'chatcmpl-125',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'get_weather', arguments: '{"city":' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        model: 'gpt-4o',
+        usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+      });
+
+      await expect(
+        provider.chat({
+          messages: [{ role: 'user', content: 'Weather?' }],
+          tools: [weatherTool],
+        }),
+      ).rejects.toMatchObject({ code: 'PARSE_ERROR' });
+    });
+  });
+
+  describe('vision', () => {
+    it('should map image parts to image_url parts', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        id: 'chatcmpl-200',
+        choices: [
+          { message: { role: 'assistant', content: 'A cat.' }, finish_reason: 'stop' },
+        ],
+        model: 'gpt-4o',
+        usage: { prompt_tokens: 100, completion_tokens: 3, total_tokens: 103 },
+      });
+
+      await provider.chat({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              {
+                type: 'image',
+                data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+                mediaType: 'image/png',
+              },
+              { type: 'imageUrl', url: 'https://example.com/cat.jpg' },
+            ],
+          },
+        ],
+      });
+
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw==' } },
+        { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+      ]);
+    });
+  });
+
+  describe('embed', () => {
+    it('should call the embeddings endpoint and order results by index', async () => {
+      const provider = createOpenAIProvider(mockConfig);
+
+      mockFetchResponse({
+        data: [
+          { embedding: [0.3, 0.4], index: 1 },
+          { embedding: [0.1, 0.2], index: 0 },
+        ],
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 6, total_tokens: 6 },
+      });
+
+      const result = await provider.embed({
+        input: ['first', 'second'],
+        dimensions: 2,
+      });
+
+      expect(result).toEqual({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+        model: 'text-embedding-3-small',
+        usage: { promptTokens: 6, completionTokens: 0, totalTokens: 6 },
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        'https://api.openai.com/v1/embeddings',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      const requestBody = JSON.parse(
+        vi.mocked(fetch).mock.calls[0][1]?.body as string,
+      );
+      expect(requestBody).toEqual({
+        model: 'text-embedding-3-small',
+        input: ['first', 'second'],
+        dimensions: 2,
+      });
+    });
+  });
+
   describe('chat error handling', () => {
     it('should throw AUTH_ERROR on 401', async () => {
       const provider = createOpenAIProvider(mockConfig);
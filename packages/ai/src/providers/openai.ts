@@ -10,25 +10,64 @@ import {
   type GenerateStructuredResponse,
   type AICapability,
   type ChatMessage,
+  type ToolCall,
+  type MessageContent,
+  type EmbedOptions,
+  type EmbedResponse,
+  type TokenUsage,
   AIError,
 } from '../types.js';
 import { withRetry } from '../retry.js';
+import { fitToContext } from '../context.js';
+import { zodToJsonSchema } from '../tools.js';
+import { getTextContent, imageToDataUrl } from '../content.js';
 
 const OPENAI_BASE_URL = 'https://api.openai.com/v1';
 const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+const OPENAI_DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
 
 interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
 }
 
+type OpenAIToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
 interface OpenAIRequest {
   model: string;
   messages: OpenAIMessage[];
   max_tokens?: number;
   temperature?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   response_format?: { type: string };
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
 }
 
 interface OpenAIResponse {
@@ -36,7 +75,8 @@ interface OpenAIResponse {
   choices: Array<{
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -48,6 +88,42 @@ interface OpenAIResponse {
   };
 }
 
+interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string[];
+  dimensions?: number;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Convert VoR message content to OpenAI content (string or parts).
+ * Inline images are sent as `data:` URLs.
+ */
+function toOpenAIContent(content: MessageContent): string | OpenAIContentPart[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map((part): OpenAIContentPart => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image_url', image_url: { url: imageToDataUrl(part) } };
+      case 'imageUrl':
+        return { type: 'image_url', image_url: { url: part.url } };
+    }
+  });
+}
+
 /**
  * Convert VoR chat messages to OpenAI format.
  * OpenAI supports system messages directly in the messages array.
@@ -63,15 +139,94 @@ function toOpenAIMessages(
   }
 
   for (const msg of messages) {
-    openaiMessages.push({
-      role: msg.role,
-      content: msg.content,
-    });
+    if (msg.role === 'tool') {
+      openaiMessages.push({
+        role: 'tool',
+        content: getTextContent(msg.content),
+        tool_call_id: msg.toolCallId,
+      });
+    } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      openaiMessages.push({
+        role: 'assistant',
+        content: getTextContent(msg.content) || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      });
+    } else {
+      openaiMessages.push({
+        role: msg.role,
+        // Only user messages accept image parts
+        content:
+          msg.role === 'user'
+            ? toOpenAIContent(msg.content)
+            : getTextContent(msg.content),
+      });
+    }
   }
 
   return openaiMessages;
 }
 
+/**
+ * Convert VoR tool options to OpenAI `tools` / `tool_choice` fields.
+ */
+function toOpenAITools(
+  options: ChatOptions,
+): Pick<OpenAIRequest, 'tools' | 'tool_choice'> {
+  if (!options.tools?.length) {
+    return {};
+  }
+
+  const tools: OpenAITool[] = options.tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: zodToJsonSchema(tool.inputSchema),
+    },
+  }));
+
+  const choice = options.toolChoice;
+  if (!choice) {
+    return { tools };
+  }
+  if (typeof choice === 'string') {
+    return { tools, tool_choice: choice };
+  }
+  return {
+    tools,
+    tool_choice: { type: 'function', function: { name: choice.name } },
+  };
+}
+
+/**
+ * Decode OpenAI tool calls. Arguments arrive as a JSON string.
+ */
+function fromOpenAIToolCalls(calls: OpenAIToolCall[] | undefined): ToolCall[] {
+  if (!calls) {
+    return [];
+  }
+
+  return calls.map((call) => {
+    // Tools without parameters may be called with empty arguments
+    const args = call.function.arguments.trim() ? safeJsonParse(call.function.arguments) : {};
+    if (!args) {
+      throw new AIError(
+        `Failed to parse arguments for tool "${call.function.name}": ${call.function.arguments.slice(0, 200)}`,
+        'PARSE_ERROR',
+        'openai',
+      );
+    }
+    return { id: call.id, name: call.function.name, arguments: args };
+  });
+}
+
 /**
  * Map OpenAI error status codes to VoR error codes.
  */
@@ -112,6 +267,8 @@ function safeJsonParse(text: string): Record<string, unknown> | null {
 export function createOpenAIProvider(config: AIConfig): AIProvider {
   const baseUrl = config.baseUrl ?? OPENAI_BASE_URL;
   const defaultModel = config.defaultModel ?? OPENAI_DEFAULT_MODEL;
+  const defaultEmbeddingModel =
+    config.defaultEmbeddingModel ?? OPENAI_DEFAULT_EMBEDDING_MODEL;
   const retryConfig = {
     maxRetries: config.maxRetries,
     baseDelay: 1000,
@@ -124,10 +281,14 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
     streaming: true,
     structuredOutput: true,
     systemPrompt: true,
+    embeddings: true,
   };
 
-  async function makeRequest(body: OpenAIRequest): Promise<Response> {
-    const response = await fetch(`${baseUrl}/chat/completions`, {
+  async function makeRequest(
+    body: OpenAIRequest | OpenAIEmbeddingRequest,
+    path = '/chat/completions',
+  ): Promise<Response> {
+    const response = await fetch(`${baseUrl}${path}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -159,6 +320,7 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
       max_tokens: options.maxTokens ?? 4096,
       temperature: options.temperature,
       stream: false,
+      ...toOpenAITools(options),
     };
 
     return withRetry(async () => {
@@ -174,8 +336,10 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
         );
       }
 
+      const toolCalls = fromOpenAIToolCalls(choice.message.tool_calls);
+
       return {
-        content: choice.message.content,
+        content: choice.message.content ?? '',
         model: data.model,
         usage: {
           promptTokens: data.usage.prompt_tokens,
@@ -183,6 +347,7 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
           totalTokens: data.usage.total_tokens,
         },
         finishReason: mapFinishReason(choice.finish_reason),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
       };
     }, 'openai', retryConfig);
   }
@@ -201,6 +366,8 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
       max_tokens: options.maxTokens ?? 4096,
       temperature: options.temperature,
       stream: true,
+      // Usage arrives in a final chunk after the finish_reason
+      stream_options: { include_usage: true },
     };
 
     const response = await withRetry(
@@ -226,6 +393,14 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
 
     const decoder = new TextDecoder();
     let buffer = '';
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    const final = (): ChatStreamChunk => ({
+      content: '',
+      done: true,
+      ...(usage ? { usage } : {}),
+      ...(model ? { model } : {}),
+    });
 
     try {
       while (true) {
@@ -240,13 +415,23 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
           if (line.startsWith('data: ')) {
             const data = line.slice(6).trim();
             if (data === '[DONE]') {
-              yield { content: '', done: true };
+              yield final();
               return;
             }
 
             const parsed = safeJsonParse(data);
             if (!parsed) continue;
 
+            if (typeof parsed.model === 'string') model = parsed.model;
+            const chunkUsage = parsed.usage as OpenAIResponse['usage'] | null | undefined;
+            if (chunkUsage) {
+              usage = {
+                promptTokens: chunkUsage.prompt_tokens,
+                completionTokens: chunkUsage.completion_tokens,
+                totalTokens: chunkUsage.total_tokens,
+              };
+            }
+
             const choices = parsed.choices as Array<Record<string, unknown>>;
             if (choices?.[0]) {
               const delta = choices[0].delta as Record<string, unknown>;
@@ -256,17 +441,12 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
                   done: false,
                 };
               }
-
-              if (choices[0].finish_reason) {
-                yield { content: '', done: true };
-                return;
-              }
             }
           }
         }
       }
 
-      yield { content: '', done: true };
+      yield final();
     } finally {
       reader.releaseLock();
     }
@@ -297,9 +477,17 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
     },
 
     async chat(
-      options: ChatOptions,
+      requestOptions: ChatOptions,
     ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      const options = await fitToContext(provider, requestOptions, defaultModel);
       if (options.stream) {
+        if (options.tools?.length) {
+          throw new AIError(
+            'Tool use is not supported with streaming',
+            'INVALID_REQUEST',
+            'openai',
+          );
+        }
         return chatStreaming(options);
       }
       return chatNonStreaming(options);
@@ -343,7 +531,7 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
         }
 
         return {
-          content: choice.message.content,
+          content: choice.message.content ?? '',
           model: data.model,
           usage: {
             promptTokens: data.usage.prompt_tokens,
@@ -379,6 +567,34 @@ export function createOpenAIProvider(config: AIConfig): AIProvider {
         usage: chatResponse.usage,
       };
     },
+
+    async embed(options: EmbedOptions): Promise<EmbedResponse> {
+      const body: OpenAIEmbeddingRequest = {
+        model: options.model ?? defaultEmbeddingModel,
+        input: Array.isArray(options.input) ? options.input : [options.input],
+        dimensions: options.dimensions,
+      };
+
+      return withRetry(async () => {
+        const response = await makeRequest(body, '/embeddings');
+        const data = (await response.json()) as OpenAIEmbeddingResponse;
+
+        // Results carry their input index; don't rely on response order
+        const embeddings = [...data.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding);
+
+        return {
+          embeddings,
+          model: data.model,
+          usage: {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: 0,
+            totalTokens: data.usage.total_tokens,
+          },
+        };
+      }, 'openai', retryConfig);
+    },
   };
 
   return provider;
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import { createRetriever, formatRetrievedContext } from "./retriever.js";
+import type { AIProvider, EmbedOptions } from "./types.js";
+
+/** Embeds text as [has "bill", has "login", length] for predictable similarity */
+function fakeVector(text: string): number[] {
+  const lower = text.toLowerCase();
+  return [lower.includes("bill") ? 1 : 0, lower.includes("login") ? 1 : 0, 0.01];
+}
+
+function createMockProvider(embeddings = true): AIProvider & {
+  embed: ReturnType<typeof vi.fn>;
+} {
+  return {
+    name: "openai",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+      embeddings,
+    },
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    chat: vi.fn(),
+    generateStructured: vi.fn(),
+    embed: vi.fn(async (options: EmbedOptions) => {
+      const inputs = Array.isArray(options.input) ? options.input : [options.input];
+      return {
+        embeddings: inputs.map(fakeVector),
+        model: "text-embedding-3-small",
+        usage: { promptTokens: 1, completionTokens: 0, totalTokens: 1 },
+      };
+    }),
+  } as AIProvider & { embed: ReturnType<typeof vi.fn> };
+}
+
+describe("createRetriever", () => {
+  it("should throw when the provider cannot embed", () => {
+    expect(() => createRetriever(createMockProvider(false))).toThrow(
+      "does not support embeddings",
+    );
+  });
+
+  it("should embed documents in batches and retrieve the best match", async () => {
+    const provider = createMockProvider();
+    const retriever = createRetriever(provider, { batchSize: 2 });
+
+    await retriever.addDocuments([
+      { id: "billing.md", text: "Billing and invoices" },
+      { id: "login.md", text: "Login troubleshooting" },
+      { id: "about.md", text: "About us" },
+    ]);
+
+    expect(provider.embed).toHaveBeenCalledTimes(2);
+    expect(retriever.index.size).toBe(3);
+
+    const results = await retriever.retrieve("I can't login", { topK: 1 });
+    expect(results[0].document.id).toBe("login.md");
+  });
+
+  it("should skip embedding the query when the index is empty", async () => {
+    const provider = createMockProvider();
+    const retriever = createRetriever(provider);
+
+    expect(await retriever.retrieve("anything")).toEqual([]);
+    expect(provider.embed).not.toHaveBeenCalled();
+  });
+
+  it("should pass the configured model to the provider", async () => {
+    const provider = createMockProvider();
+    const retriever = createRetriever(provider, { model: "text-embedding-3-large" });
+
+    await retriever.addDocuments([{ id: "a", text: "bill" }]);
+    expect(provider.embed.mock.calls[0][0].model).toBe("text-embedding-3-large");
+  });
+});
+
+describe("formatRetrievedContext", () => {
+  it("should join documents with id headers", () => {
+    expect(
+      formatRetrievedContext([
+        { document: { id: "a.md", vector: [1], text: "Alpha" }, score: 0.9 },
+        { document: { id: "b.md", vector: [1], text: "Beta" }, score: 0.8 },
+      ]),
+    ).toBe("--- a.md ---\nAlpha\n\n--- b.md ---\nBeta");
+  });
+});
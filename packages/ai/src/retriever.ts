@@ -0,0 +1,124 @@
+/**
+ * Retriever
+ *
+ * Embeds documents with an AIProvider and stores them in a VectorIndex,
+ * then answers queries with the most similar documents. Used for
+ * retrieval-augmented answers over content entries and help articles.
+ *
+ * Usage:
+ *   import { createAI, createRetriever, formatRetrievedContext } from '@vibeonrails/ai';
+ *
+ *   const retriever = createRetriever(createAI({ provider: 'openai', apiKey }));
+ *   await retriever.addDocuments(
+ *     articles.map((a) => ({ id: a.path, text: a.body, metadata: { title: a.title } })),
+ *   );
+ *   const hits = await retriever.retrieve('How do I cancel my plan?');
+ *   const context = formatRetrievedContext(hits);
+ */
+
+import { type AIProvider, AIError } from "./types.js";
+import {
+  VectorIndex,
+  type VectorMetadata,
+  type VectorSearchOptions,
+  type VectorSearchResult,
+} from "./vector-index.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RetrieverDocument<M extends VectorMetadata = VectorMetadata> {
+  id: string;
+  text: string;
+  metadata?: M;
+}
+
+export interface RetrieverOptions<M extends VectorMetadata = VectorMetadata> {
+  /** Index to store vectors in (default: a new empty index) */
+  index?: VectorIndex<M>;
+  /** Embedding model (default: the provider's embedding model) */
+  model?: string;
+  /** Number of documents embedded per request (default: 64) */
+  batchSize?: number;
+}
+
+export interface Retriever<M extends VectorMetadata = VectorMetadata> {
+  readonly index: VectorIndex<M>;
+  /** Embed and index documents, replacing existing ids */
+  addDocuments(documents: RetrieverDocument<M>[]): Promise<void>;
+  /** Find the documents most relevant to a query */
+  retrieve(
+    query: string,
+    options?: VectorSearchOptions<M>,
+  ): Promise<VectorSearchResult<M>[]>;
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+
+// ---------------------------------------------------------------------------
+// Retriever
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a retriever backed by a provider's embeddings API.
+ * Throws CAPABILITY_NOT_SUPPORTED if the provider cannot embed.
+ */
+export function createRetriever<M extends VectorMetadata = VectorMetadata>(
+  provider: AIProvider,
+  options: RetrieverOptions<M> = {},
+): Retriever<M> {
+  if (!provider.supports("embeddings")) {
+    throw new AIError(
+      `Provider ${provider.name} does not support embeddings`,
+      "CAPABILITY_NOT_SUPPORTED",
+      provider.name,
+    );
+  }
+
+  const index = options.index ?? new VectorIndex<M>({ model: options.model });
+  const model = options.model ?? index.model;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  return {
+    index,
+
+    async addDocuments(documents: RetrieverDocument<M>[]): Promise<void> {
+      for (let start = 0; start < documents.length; start += batchSize) {
+        const batch = documents.slice(start, start + batchSize);
+        const { embeddings } = await provider.embed({
+          input: batch.map((d) => d.text),
+          model,
+        });
+
+        index.upsert(
+          batch.map((document, i) => ({
+            id: document.id,
+            vector: embeddings[i],
+            text: document.text,
+            metadata: document.metadata,
+          })),
+        );
+      }
+    },
+
+    async retrieve(
+      query: string,
+      searchOptions?: VectorSearchOptions<M>,
+    ): Promise<VectorSearchResult<M>[]> {
+      if (index.size === 0) return [];
+
+      const { embeddings } = await provider.embed({ input: query, model });
+      return index.search(embeddings[0], searchOptions);
+    },
+  };
+}
+
+/**
+ * Format retrieved documents as a context block for a system prompt.
+ */
+export function formatRetrievedContext(results: VectorSearchResult[]): string {
+  return results
+    .map(({ document }) => `--- ${document.id} ---\n${document.text ?? ""}`)
+    .join("\n\n");
+}
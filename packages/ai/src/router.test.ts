@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { createAIRouter } from "./router.js";
+import {
+  type AIProvider,
+  type AIProviderName,
+  type CapabilitiesMap,
+  type ChatOptions,
+  type ChatResponse,
+  AIError,
+} from "./types.js";
+
+const allCapabilities: CapabilitiesMap = {
+  vision: true,
+  toolUse: true,
+  streaming: true,
+  structuredOutput: true,
+  systemPrompt: true,
+};
+
+function createMockProvider(
+  name: AIProviderName,
+  behavior: () => Promise<ChatResponse>,
+  capabilities: Partial<CapabilitiesMap> = {},
+): AIProvider & { chat: ReturnType<typeof vi.fn> } {
+  const caps = { ...allCapabilities, ...capabilities };
+  return {
+    name,
+    capabilities: caps,
+    supports: (c) => caps[c],
+    chat: vi.fn((_options: ChatOptions) => behavior()),
+    generateStructured: vi.fn(async () => ({
+      data: { provider: name },
+      model: `${name}-model`,
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    })),
+  } as AIProvider & { chat: ReturnType<typeof vi.fn> };
+}
+
+function ok(model: string): () => Promise<ChatResponse> {
+  return async () => ({
+    content: `from ${model}`,
+    model,
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    finishReason: "stop",
+  });
+}
+
+function fail(code: AIError["code"], provider: AIProviderName): () => Promise<ChatResponse> {
+  return async () => {
+    throw new AIError("failed", code, provider);
+  };
+}
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("createAIRouter", () => {
+  it("should require at least one route", () => {
+    expect(() => createAIRouter({ routes: [] })).toThrow("at least one route");
+  });
+
+  it("should expose the primary name and combined capabilities", () => {
+    const router = createAIRouter({
+      routes: [
+        { provider: createMockProvider("ollama", ok("llama3"), { vision: false }) },
+        { provider: createMockProvider("openai", ok("gpt-4o")) },
+      ],
+    });
+    expect(router.name).toBe("ollama");
+    expect(router.supports("vision")).toBe(true);
+  });
+
+  describe("fallback policy", () => {
+    it("should fall back on RATE_LIMIT and PROVIDER_ERROR", async () => {
+      const onFallback = vi.fn();
+      const anthropic = createMockProvider("anthropic", fail("RATE_LIMIT", "anthropic"));
+      const openai = createMockProvider("openai", fail("PROVIDER_ERROR", "openai"));
+      const ollama = createMockProvider("ollama", ok("llama3"));
+
+      const router = createAIRouter({
+        routes: [{ provider: anthropic }, { provider: openai }, { provider: ollama }],
+        onFallback,
+      });
+
+      const result = (await router.chat({ messages })) as ChatResponse;
+      expect(result.content).toBe("from llama3");
+      expect(onFallback).toHaveBeenCalledTimes(2);
+      expect(onFallback.mock.calls[0][0].error.code).toBe("RATE_LIMIT");
+    });
+
+    it("should not fall back on non-transient errors", async () => {
+      const anthropic = createMockProvider("anthropic", fail("AUTH_ERROR", "anthropic"));
+      const openai = createMockProvider("openai", ok("gpt-4o"));
+
+      const router = createAIRouter({
+        routes: [{ provider: anthropic }, { provider: openai }],
+      });
+
+      await expect(router.chat({ messages })).rejects.toMatchObject({
+        code: "AUTH_ERROR",
+      });
+      expect(openai.chat).not.toHaveBeenCalled();
+    });
+
+    it("should rethrow the last error when every provider fails", async () => {
+      const router = createAIRouter({
+        routes: [
+          { provider: createMockProvider("anthropic", fail("RATE_LIMIT", "anthropic")) },
+          { provider: createMockProvider("openai", fail("TIMEOUT", "openai")) },
+        ],
+      });
+
+      await expect(router.chat({ messages })).rejects.toMatchObject({
+        code: "TIMEOUT",
+        provider: "openai",
+      });
+    });
+
+    it("should pass the route model to the provider", async () => {
+      const openai = createMockProvider("openai", ok("gpt-4o-mini"));
+      const router = createAIRouter({
+        routes: [{ provider: openai, model: "gpt-4o-mini" }],
+      });
+
+      await router.chat({ messages, model: "ignored" });
+      expect(openai.chat.mock.calls[0][0].model).toBe("gpt-4o-mini");
+    });
+
+    it("should only pass the request model to routes of the primary provider", async () => {
+      const anthropic = createMockProvider("anthropic", fail("RATE_LIMIT", "anthropic"));
+      const backup = createMockProvider("anthropic", fail("RATE_LIMIT", "anthropic"));
+      const openai = createMockProvider("openai", ok("gpt-4o"));
+      const router = createAIRouter({
+        routes: [{ provider: anthropic }, { provider: backup }, { provider: openai }],
+      });
+
+      await router.chat({ messages, model: "claude-3-5-sonnet-20241022" });
+      expect(backup.chat.mock.calls[0][0].model).toBe("claude-3-5-sonnet-20241022");
+      expect(openai.chat.mock.calls[0][0].model).toBeUndefined();
+    });
+  });
+
+  describe("roundRobin policy", () => {
+    it("should rotate the starting provider", async () => {
+      const router = createAIRouter({
+        policy: "roundRobin",
+        routes: [
+          { provider: createMockProvider("anthropic", ok("claude")) },
+          { provider: createMockProvider("openai", ok("gpt-4o")) },
+        ],
+      });
+
+      const models = [];
+      for (let i = 0; i < 3; i++) {
+        models.push(((await router.chat({ messages })) as ChatResponse).model);
+      }
+      expect(models).toEqual(["claude", "gpt-4o", "claude"]);
+    });
+  });
+
+  describe("cheapest policy", () => {
+    it("should try the cheapest model first", async () => {
+      const router = createAIRouter({
+        policy: "cheapest",
+        routes: [
+          { provider: createMockProvider("openai", ok("gpt-4-turbo")), model: "gpt-4-turbo" },
+          { provider: createMockProvider("anthropic", ok("claude")), model: "claude-3-haiku-20240307" },
+          { provider: createMockProvider("openai", ok("gpt-4o")), model: "gpt-4o" },
+        ],
+      });
+
+      const result = (await router.chat({ messages })) as ChatResponse;
+      expect(result.model).toBe("claude");
+    });
+
+    it("should fall back to the next cheapest provider", async () => {
+      const router = createAIRouter({
+        policy: "cheapest",
+        routes: [
+          { provider: createMockProvider("openai", ok("gpt-4-turbo")), model: "gpt-4-turbo" },
+          {
+            provider: createMockProvider("openai", fail("RATE_LIMIT", "openai")),
+            model: "gpt-4o-mini",
+          },
+        ],
+      });
+
+      const result = (await router.chat({ messages })) as ChatResponse;
+      expect(result.model).toBe("gpt-4-turbo");
+    });
+
+    it("should rank routes without pricing after priced ones", async () => {
+      const ollama = createMockProvider("ollama", ok("llama3"));
+      const router = createAIRouter({
+        policy: "cheapest",
+        routes: [
+          { provider: ollama },
+          { provider: createMockProvider("openai", ok("gpt-4o")), model: "gpt-4o" },
+        ],
+      });
+
+      const result = (await router.chat({ messages })) as ChatResponse;
+      expect(result.model).toBe("gpt-4o");
+      expect(ollama.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("capability-based selection", () => {
+    it("should skip providers lacking a required capability", async () => {
+      const ollama = createMockProvider("ollama", ok("llama3"), { toolUse: false });
+      const openai = createMockProvider("openai", ok("gpt-4o"));
+      const router = createAIRouter({
+        routes: [{ provider: ollama }, { provider: openai }],
+      });
+
+      const result = (await router.chat({
+        messages,
+        tools: [{ name: "lookup", description: "Lookup", inputSchema: z.object({}) }],
+      })) as ChatResponse;
+
+      expect(result.model).toBe("gpt-4o");
+      expect(ollama.chat).not.toHaveBeenCalled();
+    });
+
+    it("should throw CAPABILITY_NOT_SUPPORTED when no provider qualifies", async () => {
+      const router = createAIRouter({
+        routes: [
+          { provider: createMockProvider("ollama", ok("llama3"), { vision: false }) },
+        ],
+      });
+
+      await expect(
+        router.chat({
+          messages: [
+            {
+              role: "user",
+              content: [{ type: "imageUrl", url: "https://example.com/a.png" }],
+            },
+          ],
+        }),
+      ).rejects.toMatchObject({ code: "CAPABILITY_NOT_SUPPORTED" });
+    });
+
+    it("should route generateStructured to structured-output providers", async () => {
+      const router = createAIRouter({
+        routes: [
+          {
+            provider: createMockProvider("ollama", ok("llama3"), {
+              structuredOutput: false,
+            }),
+          },
+          { provider: createMockProvider("openai", ok("gpt-4o")) },
+        ],
+      });
+
+      const result = await router.generateStructured({
+        prompt: "Extract",
+        schema: z.object({ provider: z.string() }),
+      });
+      expect(result.data).toEqual({ provider: "openai" });
+    });
+  });
+});
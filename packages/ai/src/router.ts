@@ -0,0 +1,301 @@
+/**
+ * Provider Router
+ *
+ * A composite AIProvider that wraps several configured providers and
+ * routes each request by policy:
+ *
+ * - `fallback`: try providers in order, moving on when one fails with a
+ *   transient error (rate limit, provider outage, network, timeout)
+ * - `roundRobin`: spread requests across providers, falling back the same way
+ * - `cheapest`: try providers in order of estimated cost (via `estimateCost`);
+ *   routes whose model has no known price go last
+ *
+ * Under every policy, providers lacking a capability the request needs
+ * (vision for images, toolUse for tools, streaming, structuredOutput,
+ * embeddings) are skipped.
+ *
+ * Usage:
+ *   import { createAI, createAIRouter } from '@vibeonrails/ai';
+ *
+ *   const ai = createAIRouter({
+ *     routes: [
+ *       { provider: createAI({ provider: 'anthropic', apiKey }) },
+ *       { provider: createAI({ provider: 'openai', apiKey: openaiKey }), model: 'gpt-4o-mini' },
+ *     ],
+ *   });
+ */
+
+import type { z } from "zod";
+import {
+  type AICapability,
+  type AIErrorCode,
+  type AIProvider,
+  type CapabilitiesMap,
+  type ChatOptions,
+  type ChatResponse,
+  type ChatStreamChunk,
+  type EmbedOptions,
+  type EmbedResponse,
+  type GenerateStructuredOptions,
+  type GenerateStructuredResponse,
+  AI_CAPABILITIES,
+  AIError,
+} from "./types.js";
+import { estimateCost, findModelCosts } from "./logging.js";
+import { getTextContent, hasImageContent } from "./content.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const ROUTING_POLICIES = ["fallback", "roundRobin", "cheapest"] as const;
+
+export type RoutingPolicy = (typeof ROUTING_POLICIES)[number];
+
+export interface AIRoute {
+  provider: AIProvider;
+  /**
+   * Model to use with this provider (overrides the request model). The
+   * request model names a model of the primary provider, so routes to other
+   * providers without a model use their provider's default.
+   */
+  model?: string;
+}
+
+export interface AIRouterOptions {
+  /** Providers in priority order */
+  routes: AIRoute[];
+  /** Routing policy (default: 'fallback') */
+  policy?: RoutingPolicy;
+  /** Error codes that move the request on to the next provider */
+  fallbackOn?: AIErrorCode[];
+  /** Cost table passed to `estimateCost` for the 'cheapest' policy */
+  costTable?: Record<string, { input: number; output: number }>;
+  /** Called when a provider fails and the request moves to the next one */
+  onFallback?: (event: FallbackEvent) => void;
+}
+
+export interface FallbackEvent {
+  from: AIRoute;
+  to: AIRoute;
+  error: AIError;
+}
+
+const DEFAULT_FALLBACK_CODES: AIErrorCode[] = [
+  "RATE_LIMIT",
+  "PROVIDER_ERROR",
+  "NETWORK_ERROR",
+  "TIMEOUT",
+];
+
+/** Assumed completion size when a request sets no maxTokens */
+const DEFAULT_COMPLETION_TOKENS = 1000;
+
+/** Rough characters-per-token ratio used for prompt cost estimates */
+const CHARS_PER_TOKEN = 4;
+
+// ---------------------------------------------------------------------------
+// Request analysis
+// ---------------------------------------------------------------------------
+
+interface RouteRequest {
+  capabilities: AICapability[];
+  promptChars: number;
+  maxTokens?: number;
+  model?: string;
+}
+
+function describeChat(options: ChatOptions): RouteRequest {
+  const capabilities: AICapability[] = [];
+  if (hasImageContent(options.messages)) capabilities.push("vision");
+  if (options.tools?.length) capabilities.push("toolUse");
+  if (options.stream) capabilities.push("streaming");
+
+  const promptChars =
+    (options.systemPrompt?.length ?? 0) +
+    options.messages.reduce((sum, m) => sum + getTextContent(m.content).length, 0);
+
+  return { capabilities, promptChars, maxTokens: options.maxTokens, model: options.model };
+}
+
+function describeStructured<T extends z.ZodType>(
+  options: GenerateStructuredOptions<T>,
+): RouteRequest {
+  const capabilities: AICapability[] = ["structuredOutput"];
+  if (hasImageContent([{ role: "user", content: options.prompt }])) {
+    capabilities.push("vision");
+  }
+
+  return {
+    capabilities,
+    promptChars:
+      (options.systemPrompt?.length ?? 0) + getTextContent(options.prompt).length,
+    maxTokens: options.maxTokens,
+    model: options.model,
+  };
+}
+
+function describeEmbed(options: EmbedOptions): RouteRequest {
+  const inputs = Array.isArray(options.input) ? options.input : [options.input];
+  return {
+    capabilities: ["embeddings"],
+    promptChars: inputs.reduce((sum, text) => sum + text.length, 0),
+    maxTokens: 0,
+    model: options.model,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a composite provider that routes requests across several providers.
+ */
+export function createAIRouter(options: AIRouterOptions): AIProvider {
+  const { routes, policy = "fallback", costTable, onFallback } = options;
+  const fallbackOn = options.fallbackOn ?? DEFAULT_FALLBACK_CODES;
+
+  if (routes.length === 0) {
+    throw new Error("createAIRouter requires at least one route");
+  }
+
+  const primary = routes[0].provider;
+  let nextIndex = 0;
+
+  // The router supports a capability if any of its providers does
+  const capabilities = Object.fromEntries(
+    AI_CAPABILITIES.map((c) => [c, routes.some((r) => r.provider.supports(c))]),
+  ) as CapabilitiesMap;
+
+  /** The request model only means something to the primary provider */
+  function routeModel(route: AIRoute, model: string | undefined): string | undefined {
+    return route.model ?? (route.provider.name === primary.name ? model : undefined);
+  }
+
+  /** Estimated cost of the request on a route; undefined without pricing */
+  function estimateRouteCost(route: AIRoute, request: RouteRequest): number | undefined {
+    const model = routeModel(route, request.model);
+    if (!model || !findModelCosts(model, costTable)) return undefined;
+
+    const promptTokens = Math.ceil(request.promptChars / CHARS_PER_TOKEN);
+    const completionTokens = request.maxTokens ?? DEFAULT_COMPLETION_TOKENS;
+    return estimateCost(
+      model,
+      { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      costTable,
+    );
+  }
+
+  /**
+   * Order the routes able to serve the request according to the policy.
+   */
+  function plan(request: RouteRequest): AIRoute[] {
+    const eligible = routes.filter((route) =>
+      request.capabilities.every((c) => route.provider.supports(c)),
+    );
+
+    if (eligible.length === 0) {
+      throw new AIError(
+        `No configured provider supports: ${request.capabilities.join(", ")}`,
+        "CAPABILITY_NOT_SUPPORTED",
+        primary.name,
+      );
+    }
+
+    switch (policy) {
+      case "roundRobin": {
+        const start = nextIndex % eligible.length;
+        nextIndex++;
+        return [...eligible.slice(start), ...eligible.slice(0, start)];
+      }
+      case "cheapest": {
+        // Unpriced routes are not free: rank them after every priced one.
+        // Array.prototype.sort is stable, so equal costs keep priority order
+        const costs = new Map(
+          eligible.map((route) => [route, estimateRouteCost(route, request) ?? Infinity]),
+        );
+        return [...eligible].sort((a, b) => {
+          const diff = costs.get(a)! - costs.get(b)!;
+          return Number.isNaN(diff) ? 0 : diff;
+        });
+      }
+      case "fallback":
+      default:
+        return eligible;
+    }
+  }
+
+  async function execute<R>(
+    request: RouteRequest,
+    call: (route: AIRoute) => Promise<R>,
+  ): Promise<R> {
+    const candidates = plan(request);
+
+    for (let i = 0; i < candidates.length; i++) {
+      const route = candidates[i];
+      try {
+        return await call(route);
+      } catch (error) {
+        const next = candidates[i + 1];
+        if (
+          !next ||
+          !(error instanceof AIError) ||
+          !fallbackOn.includes(error.code)
+        ) {
+          throw error;
+        }
+        onFallback?.({ from: route, to: next, error });
+      }
+    }
+
+    // Unreachable: the loop either returns or throws on the last candidate
+    throw new AIError("No provider available", "PROVIDER_ERROR", primary.name);
+  }
+
+  const router: AIProvider = {
+    get name() {
+      return primary.name;
+    },
+    capabilities,
+
+    supports(capability: AICapability): boolean {
+      return capabilities[capability] ?? false;
+    },
+
+    async chat(
+      chatOptions: ChatOptions,
+    ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      return execute(describeChat(chatOptions), (route) =>
+        route.provider.chat({
+          ...chatOptions,
+          model: routeModel(route, chatOptions.model),
+        }),
+      );
+    },
+
+    async generateStructured<T extends z.ZodType>(
+      structuredOptions: GenerateStructuredOptions<T>,
+    ): Promise<GenerateStructuredResponse<z.infer<T>>> {
+      return execute(describeStructured(structuredOptions), (route) =>
+        route.provider.generateStructured({
+          ...structuredOptions,
+          model: routeModel(route, structuredOptions.model),
+        }),
+      );
+    },
+
+    async embed(embedOptions: EmbedOptions): Promise<EmbedResponse> {
+      // Route models are chat models; embeddings keep the request model,
+      // on the primary provider only
+      return execute(describeEmbed(embedOptions), (route) =>
+        route.provider.embed({
+          ...embedOptions,
+          model: route.provider.name === primary.name ? embedOptions.model : undefined,
+        }),
+      );
+    },
+  };
+
+  return router;
+}
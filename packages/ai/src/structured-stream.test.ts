@@ -0,0 +1,249 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+  parsePartialJson,
+  streamStructured,
+  type StructuredStreamEvent,
+} from "./structured-stream.js";
+import type { AIProvider, ChatStreamChunk } from "./types.js";
+
+const PageSchema = z.object({
+  headline: z.string(),
+  features: z.array(z.object({ title: z.string(), description: z.string() })),
+});
+
+async function* streamOf(parts: string[]): AsyncIterable<ChatStreamChunk> {
+  for (const content of parts) {
+    yield { content, done: false };
+  }
+  yield { content: "", done: true };
+}
+
+function createMockProvider(
+  parts: string[],
+  repairs: string[] = [],
+  streaming = true,
+): AIProvider & { chat: ReturnType<typeof vi.fn> } {
+  const chat = vi.fn(async (options: { stream?: boolean }) => {
+    if (options.stream) return streamOf(parts);
+    return {
+      content: repairs.shift() ?? "",
+      model: "gpt-4o",
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      finishReason: "stop" as const,
+    };
+  });
+
+  return {
+    name: "openai",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming,
+      structuredOutput: true,
+      systemPrompt: true,
+      embeddings: true,
+    },
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    chat,
+    generateStructured: vi.fn(),
+    embed: vi.fn(),
+  } as AIProvider & { chat: ReturnType<typeof vi.fn> };
+}
+
+async function collect<T>(
+  stream: AsyncIterable<StructuredStreamEvent<T>>,
+): Promise<StructuredStreamEvent<T>[]> {
+  const events: StructuredStreamEvent<T>[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+const validJson = JSON.stringify({
+  headline: "Ship faster",
+  features: [{ title: "Fast", description: "Very fast" }],
+});
+
+describe("parsePartialJson", () => {
+  it("should parse complete JSON", () => {
+    expect(parsePartialJson('{"a": [1, true, null], "b": "x"}')).toEqual({
+      a: [1, true, null],
+      b: "x",
+    });
+  });
+
+  it("should close unterminated strings, arrays and objects", () => {
+    expect(parsePartialJson('{"headline": "Ship fa')).toEqual({
+      headline: "Ship fa",
+    });
+    expect(parsePartialJson('{"features": [{"title": "Fast"')).toEqual({
+      features: [{ title: "Fast" }],
+    });
+  });
+
+  it("should drop incomplete keys, numbers and literals", () => {
+    expect(parsePartialJson('{"a": 1, "hea')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1, "b":')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 12')).toEqual({});
+    expect(parsePartialJson('{"a": tr')).toEqual({});
+  });
+
+  it("should decode escapes and ignore a dangling backslash", () => {
+    expect(parsePartialJson('{"a": "line\\nbreak \\u00e9"}')).toEqual({
+      a: "line\nbreak é",
+    });
+    expect(parsePartialJson('{"a": "quote \\')).toEqual({ a: "quote " });
+  });
+
+  it("should skip leading text such as a markdown fence", () => {
+    expect(parsePartialJson('```json\n{"a": "b"')).toEqual({ a: "b" });
+  });
+
+  it("should return undefined before any value or for non-JSON", () => {
+    expect(parsePartialJson("")).toBeUndefined();
+    expect(parsePartialJson("Sure, here")).toBeUndefined();
+    expect(parsePartialJson("{oops}")).toBeUndefined();
+  });
+});
+
+describe("streamStructured", () => {
+  it("should yield growing partials and the validated object", async () => {
+    const provider = createMockProvider([
+      '{"headline": "Ship',
+      ' faster", "features": [',
+      '{"title": "Fast", ',
+      '"description": "Very fast"}]}',
+    ]);
+
+    const events = await collect(
+      streamStructured(provider, {
+        prompt: "Landing page",
+        schema: PageSchema,
+      }),
+    );
+
+    expect(
+      events.map((e) => (e.type === "partial" ? e.partial : e.data)),
+    ).toEqual([
+      { headline: "Ship" },
+      { headline: "Ship faster", features: [] },
+      { headline: "Ship faster", features: [{ title: "Fast" }] },
+      {
+        headline: "Ship faster",
+        features: [{ title: "Fast", description: "Very fast" }],
+      },
+      {
+        headline: "Ship faster",
+        features: [{ title: "Fast", description: "Very fast" }],
+      },
+    ]);
+    expect(events.at(-1)).toMatchObject({ type: "done", repairAttempts: 0 });
+  });
+
+  it("should send the schema in the system prompt and stream the request", async () => {
+    const provider = createMockProvider([validJson]);
+    await collect(
+      streamStructured(provider, {
+        prompt: "Landing page",
+        schema: PageSchema,
+      }),
+    );
+
+    const request = provider.chat.mock.calls[0][0];
+    expect(request.stream).toBe(true);
+    expect(request.temperature).toBe(0);
+    expect(request.systemPrompt).toContain('"headline":{"type":"string"}');
+    expect(request.messages).toEqual([
+      { role: "user", content: "Landing page" },
+    ]);
+  });
+
+  it("should repair invalid JSON with a follow-up request", async () => {
+    const provider = createMockProvider(
+      ['{"headline": "Ship faster", "features": [}'],
+      [validJson],
+    );
+
+    const events = await collect(
+      streamStructured(provider, {
+        prompt: "Landing page",
+        schema: PageSchema,
+      }),
+    );
+
+    expect(events.at(-1)).toEqual({
+      type: "done",
+      data: JSON.parse(validJson),
+      repairAttempts: 1,
+    });
+    const repairRequest = provider.chat.mock.calls[1][0];
+    expect(repairRequest.stream).toBe(false);
+    expect(repairRequest.messages[1]).toEqual({
+      role: "assistant",
+      content: '{"headline": "Ship faster", "features": [}',
+    });
+    expect(repairRequest.messages[2].content).toContain("Invalid JSON");
+  });
+
+  it("should repair output that does not match the schema", async () => {
+    const provider = createMockProvider(
+      ['{"headline": "Ship faster"}'],
+      [validJson],
+    );
+
+    const events = await collect(
+      streamStructured(provider, {
+        prompt: "Landing page",
+        schema: PageSchema,
+      }),
+    );
+
+    expect(events.at(-1)).toMatchObject({ type: "done", repairAttempts: 1 });
+    expect(provider.chat.mock.calls[1][0].messages[2].content).toContain(
+      "Does not match schema",
+    );
+  });
+
+  it("should throw PARSE_ERROR when repairs are exhausted", async () => {
+    const provider = createMockProvider(
+      ["not json"],
+      ["still not json", "nope"],
+    );
+
+    await expect(
+      collect(
+        streamStructured(provider, {
+          prompt: "x",
+          schema: PageSchema,
+          maxRepairAttempts: 2,
+        }),
+      ),
+    ).rejects.toMatchObject({ code: "PARSE_ERROR", provider: "openai" });
+    expect(provider.chat).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not repair when maxRepairAttempts is 0", async () => {
+    const provider = createMockProvider(["not json"]);
+
+    await expect(
+      collect(
+        streamStructured(provider, {
+          prompt: "x",
+          schema: PageSchema,
+          maxRepairAttempts: 0,
+        }),
+      ),
+    ).rejects.toMatchObject({ code: "PARSE_ERROR" });
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw CAPABILITY_NOT_SUPPORTED for providers without streaming", async () => {
+    const provider = createMockProvider([validJson], [], false);
+
+    await expect(
+      collect(streamStructured(provider, { prompt: "x", schema: PageSchema })),
+    ).rejects.toMatchObject({ code: "CAPABILITY_NOT_SUPPORTED" });
+  });
+});
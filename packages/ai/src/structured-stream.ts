@@ -0,0 +1,403 @@
+/**
+ * Structured Streaming
+ *
+ * Streaming variant of `generateStructured()`: yields progressively parsed
+ * partial objects while the model writes its JSON, then validates the
+ * complete response against the Zod schema. Invalid JSON or a schema
+ * mismatch triggers a repair round-trip that shows the model its output
+ * and the error, bounded by `maxRepairAttempts`.
+ *
+ * Usage:
+ *   import { createAI, streamStructured } from '@vibeonrails/ai';
+ *
+ *   for await (const event of streamStructured(createAI(), { prompt, schema: PageSchema })) {
+ *     if (event.type === 'partial') render(event.partial);
+ *     else save(event.data);
+ *   }
+ */
+
+import type { z } from "zod";
+import {
+  type AIProvider,
+  type ChatMessage,
+  type ChatResponse,
+  type ChatStreamChunk,
+  type GenerateStructuredOptions,
+  AIError,
+} from "./types.js";
+import { zodToJsonSchema } from "./tools.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Recursively optional version of T, for objects still being streamed.
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export interface StreamStructuredOptions<
+  T extends z.ZodType,
+> extends GenerateStructuredOptions<T> {
+  /** Repair round-trips when the streamed JSON is invalid (default: 1) */
+  maxRepairAttempts?: number;
+}
+
+export type StructuredStreamEvent<T> =
+  | {
+      type: "partial";
+      /** Everything parsed so far; strings may be cut mid-word */
+      partial: DeepPartial<T>;
+    }
+  | {
+      type: "done";
+      /** The complete, schema-validated object */
+      data: T;
+      /** Number of repair round-trips it took (0 if the stream was valid) */
+      repairAttempts: number;
+    };
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+// ---------------------------------------------------------------------------
+// Partial JSON parsing
+// ---------------------------------------------------------------------------
+
+interface ParsedValue {
+  value: unknown;
+  /** False when the input ended inside this value */
+  complete: boolean;
+}
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+class PartialJsonParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  /** Returns undefined when no value has started yet. */
+  parseValue(): ParsedValue | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.text.length) return undefined;
+
+    const char = this.text[this.pos];
+    if (char === "{") return this.parseObject();
+    if (char === "[") return this.parseArray();
+    if (char === '"') return this.parseString();
+    if (char === "-" || (char >= "0" && char <= "9")) return this.parseNumber();
+    return this.parseLiteral();
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseObject(): ParsedValue {
+    const object: Record<string, unknown> = {};
+    this.pos++;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.text.length)
+        return { value: object, complete: false };
+
+      const char = this.text[this.pos];
+      if (char === "}") {
+        this.pos++;
+        return { value: object, complete: true };
+      }
+      if (char === ",") {
+        this.pos++;
+        continue;
+      }
+      if (char !== '"') throw new SyntaxError(`Unexpected "${char}" in object`);
+
+      // Keys are only usable once complete
+      const key = this.parseString();
+      if (!key.complete) return { value: object, complete: false };
+
+      this.skipWhitespace();
+      if (this.pos >= this.text.length)
+        return { value: object, complete: false };
+      if (this.text[this.pos] !== ":")
+        throw new SyntaxError("Expected ':' after key");
+      this.pos++;
+
+      const parsed = this.parseValue();
+      if (!parsed) return { value: object, complete: false };
+      object[key.value as string] = parsed.value;
+      if (!parsed.complete) return { value: object, complete: false };
+    }
+  }
+
+  private parseArray(): ParsedValue {
+    const array: unknown[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.text.length)
+        return { value: array, complete: false };
+
+      const char = this.text[this.pos];
+      if (char === "]") {
+        this.pos++;
+        return { value: array, complete: true };
+      }
+      if (char === ",") {
+        this.pos++;
+        continue;
+      }
+
+      const parsed = this.parseValue();
+      if (!parsed) return { value: array, complete: false };
+      array.push(parsed.value);
+      if (!parsed.complete) return { value: array, complete: false };
+    }
+  }
+
+  private parseString(): ParsedValue {
+    let value = "";
+    this.pos++;
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return { value, complete: true };
+      }
+      if (char !== "\\") {
+        value += char;
+        this.pos++;
+        continue;
+      }
+
+      const escape = this.text[this.pos + 1];
+      if (escape === undefined) break;
+      if (escape === "u") {
+        const hex = this.text.slice(this.pos + 2, this.pos + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 6;
+      } else {
+        value += ESCAPES[escape] ?? escape;
+        this.pos += 2;
+      }
+    }
+
+    // Input ended inside the string (possibly mid-escape)
+    this.pos = this.text.length;
+    return { value, complete: false };
+  }
+
+  private parseNumber(): ParsedValue | undefined {
+    const match = /^-?\d*(\.\d*)?([eE][+-]?\d*)?/.exec(
+      this.text.slice(this.pos),
+    );
+    const raw = match?.[0] ?? "";
+    this.pos += raw.length;
+
+    // A number at the very end may still be growing ("12" → "125")
+    if (this.pos >= this.text.length) return undefined;
+
+    const value = Number(raw);
+    if (raw === "" || Number.isNaN(value))
+      throw new SyntaxError(`Invalid number "${raw}"`);
+    return { value, complete: true };
+  }
+
+  private parseLiteral(): ParsedValue | undefined {
+    const rest = this.text.slice(this.pos);
+    for (const [literal, value] of Object.entries(LITERALS)) {
+      if (rest.startsWith(literal)) {
+        this.pos += literal.length;
+        return { value, complete: true };
+      }
+      if (literal.startsWith(rest)) {
+        this.pos = this.text.length;
+        return undefined;
+      }
+    }
+    throw new SyntaxError(`Unexpected "${rest[0]}"`);
+  }
+}
+
+/**
+ * Parse a JSON document that may be cut off at any point. Unterminated
+ * objects, arrays and strings are closed; a trailing key without a value
+ * and an unfinished number or literal are dropped. Text before the first
+ * `{` or `[` (e.g. a markdown fence) is skipped.
+ *
+ * Returns undefined when no value has started or the text is not JSON.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+
+  try {
+    return new PartialJsonParser(text.slice(start)).parseValue()?.value;
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation and repair
+// ---------------------------------------------------------------------------
+
+function stripCodeFence(content: string): string {
+  return content
+    .replace(/^```(?:json)?\s*/m, "")
+    .replace(/```\s*$/m, "")
+    .trim();
+}
+
+type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+function validate<T extends z.ZodType>(
+  content: string,
+  schema: T,
+): ValidationResult<z.infer<T>> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFence(content));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${(error as Error).message}`,
+    };
+  }
+
+  const result = schema.safeParse(raw);
+  return result.success
+    ? { success: true, data: result.data as z.infer<T> }
+    : {
+        success: false,
+        error: `Does not match schema: ${result.error.message}`,
+      };
+}
+
+function buildSystemPrompt(
+  options: GenerateStructuredOptions<z.ZodType>,
+): string {
+  return [
+    options.systemPrompt ?? "",
+    `You must respond with valid JSON matching this JSON Schema: ${JSON.stringify(zodToJsonSchema(options.schema))}`,
+    "Respond ONLY with the JSON object, no markdown, no explanation.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+/**
+ * Stream a structured response. Yields a `partial` event whenever more of
+ * the object has arrived, then a single `done` event with validated data.
+ *
+ * Throws CAPABILITY_NOT_SUPPORTED if the provider cannot stream and
+ * PARSE_ERROR if the output is still invalid after all repair attempts.
+ */
+export async function* streamStructured<T extends z.ZodType>(
+  provider: AIProvider,
+  options: StreamStructuredOptions<T>,
+): AsyncGenerator<StructuredStreamEvent<z.infer<T>>> {
+  if (!provider.supports("streaming")) {
+    throw new AIError(
+      `Provider ${provider.name} does not support streaming`,
+      "CAPABILITY_NOT_SUPPORTED",
+      provider.name,
+    );
+  }
+
+  const maxRepairAttempts =
+    options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const request = {
+    model: options.model,
+    temperature: options.temperature ?? 0,
+    maxTokens: options.maxTokens,
+    systemPrompt: buildSystemPrompt(options),
+  };
+  const messages: ChatMessage[] = [{ role: "user", content: options.prompt }];
+
+  const stream = (await provider.chat({
+    ...request,
+    messages,
+    stream: true,
+  })) as AsyncIterable<ChatStreamChunk>;
+
+  let content = "";
+  let lastSnapshot: string | undefined;
+  for await (const chunk of stream) {
+    if (!chunk.content) continue;
+    content += chunk.content;
+
+    const partial = parsePartialJson(content);
+    if (partial === undefined) continue;
+
+    // Only emit when the parsed object actually grew
+    const snapshot = JSON.stringify(partial);
+    if (snapshot === lastSnapshot) continue;
+    lastSnapshot = snapshot;
+    yield { type: "partial", partial: partial as DeepPartial<z.infer<T>> };
+  }
+
+  let result = validate(content, options.schema);
+  let repairAttempts = 0;
+
+  while (!result.success && repairAttempts < maxRepairAttempts) {
+    repairAttempts++;
+    messages.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content:
+          `Your response could not be used. ${result.error}\n` +
+          "Respond again with only the corrected JSON object.",
+      },
+    );
+
+    const response = (await provider.chat({
+      ...request,
+      messages,
+      stream: false,
+    })) as ChatResponse;
+    content = response.content;
+    result = validate(content, options.schema);
+  }
+
+  if (!result.success) {
+    throw new AIError(
+      `AI response is not valid after ${repairAttempts} repair attempt(s). ${result.error}`,
+      "PARSE_ERROR",
+      provider.name,
+    );
+  }
+
+  yield { type: "done", data: result.data, repairAttempts };
+}
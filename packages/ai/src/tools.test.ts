@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { defineTool, parseToolArguments, zodToJsonSchema } from "./tools.js";
+
+describe("defineTool", () => {
+  it("should return the tool unchanged", () => {
+    const tool = defineTool({
+      name: "get_weather",
+      description: "Get the weather",
+      inputSchema: z.object({ city: z.string() }),
+      execute: ({ city }) => `Sunny in ${city}`,
+    });
+
+    expect(tool.name).toBe("get_weather");
+    expect(tool.execute({ city: "Lisbon" })).toBe("Sunny in Lisbon");
+  });
+
+  it("should reject invalid tool names", () => {
+    expect(() =>
+      defineTool({
+        name: "get weather",
+        description: "Invalid",
+        inputSchema: z.object({}),
+        execute: () => null,
+      }),
+    ).toThrow('Invalid tool name "get weather"');
+  });
+});
+
+describe("parseToolArguments", () => {
+  const tool = {
+    name: "add",
+    description: "Add numbers",
+    inputSchema: z.object({ a: z.number(), b: z.number() }),
+  };
+
+  it("should return parsed arguments when valid", () => {
+    const result = parseToolArguments(tool, {
+      id: "call_1",
+      name: "add",
+      arguments: { a: 1, b: 2 },
+    });
+    expect(result).toEqual({ success: true, data: { a: 1, b: 2 } });
+  });
+
+  it("should return an error when invalid", () => {
+    const result = parseToolArguments(tool, {
+      id: "call_1",
+      name: "add",
+      arguments: { a: "one" },
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('Invalid arguments for tool "add"');
+    }
+  });
+});
+
+describe("zodToJsonSchema", () => {
+  it("should convert objects with required and optional fields", () => {
+    const schema = z.object({
+      name: z.string().describe("The user name"),
+      age: z.number().int(),
+      score: z.number(),
+      active: z.boolean().optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", description: "The user name" },
+        age: { type: "integer" },
+        score: { type: "number" },
+        active: { type: "boolean" },
+      },
+      required: ["name", "age", "score"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should convert arrays, enums and literals", () => {
+    expect(zodToJsonSchema(z.array(z.string()))).toEqual({
+      type: "array",
+      items: { type: "string" },
+    });
+    expect(zodToJsonSchema(z.enum(["low", "high"]))).toEqual({
+      type: "string",
+      enum: ["low", "high"],
+    });
+    expect(zodToJsonSchema(z.literal("fixed"))).toEqual({ const: "fixed" });
+  });
+
+  it("should convert unions, nullables, records and defaults", () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: "string" }, { type: "number" }],
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: "string" }, { type: "null" }],
+    });
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({
+      type: "object",
+      additionalProperties: { type: "number" },
+    });
+    expect(zodToJsonSchema(z.number().default(5))).toEqual({
+      type: "number",
+      default: 5,
+    });
+  });
+
+  it("should fall back to an unconstrained schema for unsupported types", () => {
+    expect(zodToJsonSchema(z.any())).toEqual({});
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tool Use
+ *
+ * Provider-neutral tool definitions backed by Zod input schemas.
+ * Providers convert the schema to JSON Schema for the wire format, and
+ * tool arguments returned by the model are validated against the same schema.
+ *
+ * Usage:
+ *   import { defineTool } from '@vibeonrails/ai';
+ *
+ *   const getOrder = defineTool({
+ *     name: 'get_order',
+ *     description: 'Look up an order by id',
+ *     inputSchema: z.object({ orderId: z.string() }),
+ *     execute: async ({ orderId }) => orders.find(orderId),
+ *   });
+ */
+
+import { z } from "zod";
+import type { ToolCall, ToolDefinition } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A tool with an executable handler, used by `runAgent()`.
+ */
+export interface Tool<T extends z.ZodType = z.ZodType, R = unknown>
+  extends ToolDefinition<T> {
+  execute: (input: z.infer<T>) => Promise<R> | R;
+}
+
+/**
+ * JSON Schema subset produced from Zod schemas.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// ---------------------------------------------------------------------------
+// Tool definition
+// ---------------------------------------------------------------------------
+
+/**
+ * Define a tool. Validates the tool name against the intersection of
+ * provider naming rules (letters, digits, `_` and `-`, max 64 chars).
+ */
+export function defineTool<T extends z.ZodType, R>(tool: Tool<T, R>): Tool<T, R> {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    throw new Error(
+      `Invalid tool name "${tool.name}". Use letters, digits, "_" or "-" (max 64 chars).`,
+    );
+  }
+  return tool;
+}
+
+/**
+ * Validate the arguments of a tool call against the tool's input schema.
+ */
+export function parseToolArguments<T extends z.ZodType>(
+  tool: ToolDefinition<T>,
+  call: ToolCall,
+): { success: true; data: z.infer<T> } | { success: false; error: string } {
+  const result = tool.inputSchema.safeParse(call.arguments);
+  if (!result.success) {
+    return {
+      success: false,
+      error: `Invalid arguments for tool "${tool.name}": ${result.error.message}`,
+    };
+  }
+  return { success: true, data: result.data as z.infer<T> };
+}
+
+// ---------------------------------------------------------------------------
+// Zod → JSON Schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a Zod schema to JSON Schema for provider tool declarations.
+ * Covers the Zod types commonly used for tool inputs; anything else
+ * degrades to an unconstrained schema with the Zod description attached.
+ */
+export function zodToJsonSchema(schema: z.ZodType): JsonSchema {
+  const json = convert(schema);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodType): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodType>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    };
+  }
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number" };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: zodToJsonSchema(schema.element as z.ZodType) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...(schema.options as string[])] };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return { enum: Object.values(schema.enum as Record<string, unknown>) };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value as unknown };
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodType[];
+    return { anyOf: options.map((o) => zodToJsonSchema(o)) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: zodToJsonSchema(schema.valueSchema as z.ZodType),
+    };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap() as z.ZodType);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap() as z.ZodType), { type: "null" }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault() as z.ZodType),
+      default: schema._def.defaultValue() as unknown,
+    };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType() as z.ZodType);
+  }
+  return {};
+}
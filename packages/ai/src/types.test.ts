@@ -16,6 +16,7 @@ describe('AI SDK Types', () => {
       expect(ChatRoleSchema.parse('system')).toBe('system');
       expect(ChatRoleSchema.parse('user')).toBe('user');
       expect(ChatRoleSchema.parse('assistant')).toBe('assistant');
+      expect(ChatRoleSchema.parse('tool')).toBe('tool');
     });
 
     it('should reject invalid roles', () => {
@@ -55,6 +56,49 @@ describe('AI SDK Types', () => {
         ChatMessageSchema.parse({ role: 'invalid', content: 'hi' }),
       ).toThrow();
     });
+
+    it('should accept multimodal content parts', () => {
+      const result = ChatMessageSchema.parse({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this' },
+          { type: 'image', data: new Uint8Array([1, 2, 3]), mediaType: 'image/png' },
+          { type: 'imageUrl', url: 'https://example.com/a.png' },
+        ],
+      });
+      expect(result.content).toHaveLength(3);
+    });
+
+    it('should reject unsupported image media types', () => {
+      expect(() =>
+        ChatMessageSchema.parse({
+          role: 'user',
+          content: [{ type: 'image', data: 'abc', mediaType: 'image/tiff' }],
+        }),
+      ).toThrow();
+    });
+
+    it('should accept assistant messages with tool calls', () => {
+      const result = ChatMessageSchema.parse({
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { q: 'x' } }],
+      });
+      expect(result.toolCalls).toHaveLength(1);
+    });
+
+    it('should require toolCallId on tool messages', () => {
+      expect(() =>
+        ChatMessageSchema.parse({ role: 'tool', content: 'result' }),
+      ).toThrow('Tool messages require a toolCallId');
+      expect(
+        ChatMessageSchema.parse({
+          role: 'tool',
+          content: 'result',
+          toolCallId: 'call_1',
+        }).toolCallId,
+      ).toBe('call_1');
+    });
   });
 
   describe('AIConfigSchema', () => {
@@ -169,7 +213,8 @@ describe('AI SDK Types', () => {
       expect(AI_CAPABILITIES).toContain('streaming');
       expect(AI_CAPABILITIES).toContain('structuredOutput');
       expect(AI_CAPABILITIES).toContain('systemPrompt');
-      expect(AI_CAPABILITIES).toHaveLength(5);
+      expect(AI_CAPABILITIES).toContain('embeddings');
+      expect(AI_CAPABILITIES).toHaveLength(6);
     });
   });
 
@@ -194,7 +239,8 @@ describe('AI SDK Types', () => {
       expect(AI_ERROR_CODES).toContain('TIMEOUT');
       expect(AI_ERROR_CODES).toContain('PARSE_ERROR');
       expect(AI_ERROR_CODES).toContain('CAPABILITY_NOT_SUPPORTED');
-      expect(AI_ERROR_CODES).toHaveLength(10);
+      expect(AI_ERROR_CODES).toContain('BUDGET_EXCEEDED');
+      expect(AI_ERROR_CODES).toHaveLength(11);
     });
   });
 
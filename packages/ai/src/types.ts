@@ -14,6 +14,7 @@ export const AI_CAPABILITIES = [
   'streaming',
   'structuredOutput',
   'systemPrompt',
+  'embeddings',
 ] as const;
 
 export type AICapability = (typeof AI_CAPABILITIES)[number];
@@ -32,19 +33,146 @@ export type AIProviderName = (typeof AI_PROVIDERS)[number];
 // Chat messages
 // ---------------------------------------------------------------------------
 
-export const ChatRoleSchema = z.enum(['system', 'user', 'assistant']);
+export const ChatRoleSchema = z.enum(['system', 'user', 'assistant', 'tool']);
 export type ChatRole = z.infer<typeof ChatRoleSchema>;
 
-export const ChatMessageSchema = z.object({
-  role: ChatRoleSchema,
-  content: z.string(),
+/**
+ * Image media types accepted by all vision-capable providers.
+ */
+export const IMAGE_MEDIA_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+] as const;
+
+export type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number];
+
+export const TextPartSchema = z.object({
+  type: z.literal('text'),
+  text: z.string(),
+});
+export type TextPart = z.infer<typeof TextPartSchema>;
+
+/**
+ * Inline image. `data` is either raw bytes or a base64-encoded string
+ * (without the `data:` URL prefix).
+ */
+export const ImagePartSchema = z.object({
+  type: z.literal('image'),
+  data: z.union([
+    z.string().min(1),
+    z.custom<Uint8Array>((value) => value instanceof Uint8Array, {
+      message: 'Expected Uint8Array',
+    }),
+  ]),
+  mediaType: z.enum(IMAGE_MEDIA_TYPES),
+});
+export type ImagePart = z.infer<typeof ImagePartSchema>;
+
+/**
+ * Image referenced by a publicly reachable URL.
+ */
+export const ImageUrlPartSchema = z.object({
+  type: z.literal('imageUrl'),
+  url: z.string().url(),
+});
+export type ImageUrlPart = z.infer<typeof ImageUrlPartSchema>;
+
+export const ContentPartSchema = z.discriminatedUnion('type', [
+  TextPartSchema,
+  ImagePartSchema,
+  ImageUrlPartSchema,
+]);
+export type ContentPart = z.infer<typeof ContentPartSchema>;
+
+/**
+ * Message content: plain text, or an ordered list of text and image parts.
+ */
+export const MessageContentSchema = z.union([
+  z.string(),
+  z.array(ContentPartSchema),
+]);
+export type MessageContent = z.infer<typeof MessageContentSchema>;
+
+/**
+ * A tool invocation requested by the model.
+ * `arguments` is the already-decoded JSON input for the tool.
+ */
+export const ToolCallSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  arguments: z.record(z.unknown()),
 });
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+/**
+ * A single chat message.
+ * - `assistant` messages may carry `toolCalls` the model asked for.
+ * - `tool` messages carry the result of one tool call, linked by `toolCallId`.
+ */
+export const ChatMessageSchema = z
+  .object({
+    role: ChatRoleSchema,
+    content: MessageContentSchema,
+    toolCalls: z.array(ToolCallSchema).optional(),
+    toolCallId: z.string().min(1).optional(),
+    isError: z.boolean().optional(),
+  })
+  .refine((msg) => msg.role !== 'tool' || msg.toolCallId !== undefined, {
+    message: 'Tool messages require a toolCallId',
+    path: ['toolCallId'],
+  });
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+/**
+ * Provider-neutral tool declaration. The Zod input schema is converted to
+ * JSON Schema for the provider and used to validate the model's arguments.
+ */
+export interface ToolDefinition<T extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  inputSchema: T;
+}
+
+/**
+ * How the model may use the declared tools.
+ * - `auto`: the model decides (default)
+ * - `none`: the model must not call tools
+ * - `required`: the model must call at least one tool
+ * - `{ name }`: the model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 // ---------------------------------------------------------------------------
 // Chat options and response
 // ---------------------------------------------------------------------------
 
+/**
+ * Ways to fit a conversation into the model's context window.
+ * See `fitToContext()` in context.ts.
+ */
+export const CONTEXT_STRATEGIES = [
+  'dropOldest',
+  'summarize',
+  'truncateSystem',
+] as const;
+
+export type ContextStrategy = (typeof CONTEXT_STRATEGIES)[number];
+
+/**
+ * Identifies the registered prompt a request was rendered from.
+ * Not sent to the provider; carried through to AI call logs.
+ */
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
 export interface ChatOptions {
   messages: ChatMessage[];
   model?: string;
@@ -52,6 +180,22 @@ export interface ChatOptions {
   maxTokens?: number;
   stream?: boolean;
   systemPrompt?: string;
+  /** Tools the model may call. Not supported together with `stream`. */
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /**
+   * Strategies applied in order when the prompt would overflow the context
+   * window. Without one, the request is sent as-is.
+   */
+  contextStrategy?: ContextStrategy | ContextStrategy[];
+  /** Context window size in tokens (default: per-model table) */
+  contextLimit?: number;
+  /** Prompt template this request was rendered from, for logging */
+  promptRef?: PromptRef;
+  /** Feature tag for spend tracking and budgets (not sent to the provider) */
+  feature?: string;
+  /** End user the call is made for, for spend tracking and budgets */
+  userId?: string;
 }
 
 export interface ChatResponse {
@@ -59,11 +203,17 @@ export interface ChatResponse {
   model: string;
   usage: TokenUsage;
   finishReason: 'stop' | 'length' | 'toolUse' | 'error';
+  /** Tool calls requested by the model (present when finishReason is 'toolUse') */
+  toolCalls?: ToolCall[];
 }
 
 export interface ChatStreamChunk {
   content: string;
   done: boolean;
+  /** Token usage, on the final chunk when the provider reports it */
+  usage?: TokenUsage;
+  /** Model that answered, on the final chunk */
+  model?: string;
 }
 
 export interface TokenUsage {
@@ -77,12 +227,19 @@ export interface TokenUsage {
 // ---------------------------------------------------------------------------
 
 export interface GenerateStructuredOptions<T extends z.ZodType> {
-  prompt: string;
+  /** User prompt. Pass content parts to include images. */
+  prompt: MessageContent;
   schema: T;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  /** Prompt template this request was rendered from, for logging */
+  promptRef?: PromptRef;
+  /** Feature tag for spend tracking and budgets (not sent to the provider) */
+  feature?: string;
+  /** End user the call is made for, for spend tracking and budgets */
+  userId?: string;
 }
 
 export interface GenerateStructuredResponse<T> {
@@ -91,6 +248,28 @@ export interface GenerateStructuredResponse<T> {
   usage: TokenUsage;
 }
 
+// ---------------------------------------------------------------------------
+// Embeddings
+// ---------------------------------------------------------------------------
+
+export interface EmbedOptions {
+  /** Text(s) to embed. One vector is returned per input, in order. */
+  input: string | string[];
+  model?: string;
+  /** Output dimensions, for models that support shortening (OpenAI v3) */
+  dimensions?: number;
+  /** Feature tag for spend tracking and budgets (not sent to the provider) */
+  feature?: string;
+  /** End user the call is made for, for spend tracking and budgets */
+  userId?: string;
+}
+
+export interface EmbedResponse {
+  embeddings: number[][];
+  model: string;
+  usage: TokenUsage;
+}
+
 // ---------------------------------------------------------------------------
 // Provider interface
 // ---------------------------------------------------------------------------
@@ -123,6 +302,12 @@ export interface AIProvider {
   generateStructured<T extends z.ZodType>(
     options: GenerateStructuredOptions<T>,
   ): Promise<GenerateStructuredResponse<z.infer<T>>>;
+
+  /**
+   * Embed text into vectors for semantic search.
+   * Throws CAPABILITY_NOT_SUPPORTED when the provider has no embeddings API.
+   */
+  embed(options: EmbedOptions): Promise<EmbedResponse>;
 }
 
 // ---------------------------------------------------------------------------
@@ -134,6 +319,7 @@ export const AIConfigSchema = z.object({
   apiKey: z.string().min(1, 'API key is required'),
   baseUrl: z.string().url().optional(),
   defaultModel: z.string().optional(),
+  defaultEmbeddingModel: z.string().optional(),
   maxRetries: z.number().int().min(0).max(10).default(3),
   timeout: z.number().int().min(1000).max(300000).default(30000),
 });
@@ -183,6 +369,7 @@ export const AI_ERROR_CODES = [
   'TIMEOUT',
   'PARSE_ERROR',
   'CAPABILITY_NOT_SUPPORTED',
+  'BUDGET_EXCEEDED',
 ] as const;
 
 export type AIErrorCode = (typeof AI_ERROR_CODES)[number];
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createUsageLogWriter, readUsageLog, summarizeUsage } from "./usage.js";
+import type { AICallLogEntry } from "./logging.js";
+
+function makeEntry(overrides: Partial<AICallLogEntry> = {}): AICallLogEntry {
+  return {
+    timestamp: "2026-03-15T12:00:00.000Z",
+    provider: "openai",
+    model: "gpt-4o",
+    durationMs: 100,
+    usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    estimatedCostUsd: 0.001,
+    success: true,
+    ...overrides,
+  };
+}
+
+describe("usage log", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vor-usage-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append entries without prompt content and read them back", async () => {
+    const path = join(dir, "nested", "ai-usage.jsonl");
+    const write = createUsageLogWriter(path);
+
+    write(makeEntry({ prompt: "secret", response: "answer", feature: "support" }));
+    write(makeEntry({ model: "gpt-4o-mini" }));
+
+    expect(readFileSync(path, "utf-8")).not.toContain("secret");
+    const entries = await readUsageLog(path);
+    expect(entries.map((e) => [e.model, e.feature])).toEqual([
+      ["gpt-4o", "support"],
+      ["gpt-4o-mini", undefined],
+    ]);
+  });
+
+  it("should skip malformed lines and tolerate a missing file", async () => {
+    const path = join(dir, "ai-usage.jsonl");
+    expect(await readUsageLog(path)).toEqual([]);
+
+    createUsageLogWriter(path)(makeEntry());
+    appendFileSync(path, '{"timestamp":"2026-03-15T12:00');
+
+    expect(await readUsageLog(path)).toHaveLength(1);
+  });
+});
+
+describe("summarizeUsage", () => {
+  const entries = [
+    makeEntry({ feature: "support", estimatedCostUsd: 0.02 }),
+    makeEntry({ feature: "support", model: "gpt-4o-mini", estimatedCostUsd: 0.001 }),
+    makeEntry({ feature: "search", cached: true, estimatedCostUsd: 0 }),
+    makeEntry({ success: false, estimatedCostUsd: 0, timestamp: "2026-03-16T08:00:00.000Z" }),
+    makeEntry({ estimatedCostUsd: 1, timestamp: "2026-02-01T00:00:00.000Z" }),
+  ];
+
+  it("should break spend down by model and feature", () => {
+    const report = summarizeUsage(entries, { since: new Date("2026-03-01T00:00:00Z") });
+
+    expect(report.totalCalls).toBe(4);
+    expect(report.totalCostUsd).toBe(0.021);
+    expect(report.totalTokens).toBe(450);
+    expect(report.from).toBe("2026-03-15T12:00:00.000Z");
+    expect(report.to).toBe("2026-03-16T08:00:00.000Z");
+
+    expect(report.byModel.map((r) => [r.key, r.calls, r.costUsd])).toEqual([
+      ["gpt-4o", 3, 0.02],
+      ["gpt-4o-mini", 1, 0.001],
+    ]);
+    expect(report.byFeature).toEqual([
+      { key: "support", calls: 2, cachedCalls: 0, failedCalls: 0, totalTokens: 300, costUsd: 0.021 },
+      { key: "(untagged)", calls: 1, cachedCalls: 0, failedCalls: 1, totalTokens: 150, costUsd: 0 },
+      { key: "search", calls: 1, cachedCalls: 1, failedCalls: 0, totalTokens: 0, costUsd: 0 },
+    ]);
+  });
+
+  it("should return an empty report without entries", () => {
+    expect(summarizeUsage([])).toMatchObject({ from: null, to: null, totalCalls: 0, byModel: [] });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * AI Usage Log & Report
+ *
+ * Persists `AICallLogger` entries as JSON lines and summarizes spend by
+ * model and feature. Backs `vibe ai usage` and lets budgets resume their
+ * spend after a restart.
+ *
+ * Usage:
+ *   import { createAILogger, createUsageLogWriter, readUsageLog, summarizeUsage } from '@vibeonrails/ai';
+ *
+ *   const logger = createAILogger({ writer: createUsageLogWriter(), budget });
+ *   budget.load(await readUsageLog());
+ *
+ *   const report = summarizeUsage(await readUsageLog(), { since: startOfMonth });
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { AICallLogEntry } from "./logging.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UsageBreakdown {
+  /** Model name or feature tag (`(untagged)` for calls without a feature) */
+  key: string;
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  /** Earliest and latest entry included, ISO timestamps (null when empty) */
+  from: string | null;
+  to: string | null;
+  totalCalls: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  /** Sorted by cost, highest first */
+  byModel: UsageBreakdown[];
+  byFeature: UsageBreakdown[];
+}
+
+export interface SummarizeUsageOptions {
+  /** Only include entries at or after this time */
+  since?: Date;
+  /** Only include entries before this time */
+  until?: Date;
+}
+
+export const DEFAULT_USAGE_LOG = join(".vibe", "ai-usage.jsonl");
+export const UNTAGGED_FEATURE = "(untagged)";
+
+// ---------------------------------------------------------------------------
+// Usage log
+// ---------------------------------------------------------------------------
+
+/**
+ * Logger writer that appends entries to a JSON-lines file.
+ * Prompt and response content is never persisted.
+ */
+export function createUsageLogWriter(
+  path: string = DEFAULT_USAGE_LOG,
+): (entry: AICallLogEntry) => void {
+  let ready = false;
+  return (entry) => {
+    if (!ready) {
+      mkdirSync(dirname(path), { recursive: true });
+      ready = true;
+    }
+    const output = { ...entry };
+    delete output.prompt;
+    delete output.response;
+    appendFileSync(path, `${JSON.stringify(output)}\n`, "utf-8");
+  };
+}
+
+/**
+ * Read a usage log. Returns no entries when the file does not exist;
+ * malformed lines are skipped.
+ */
+export async function readUsageLog(path: string = DEFAULT_USAGE_LOG): Promise<AICallLogEntry[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: AICallLogEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as AICallLogEntry;
+      if (typeof entry.timestamp === "string" && typeof entry.model === "string") {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+function breakdown(
+  entries: AICallLogEntry[],
+  keyOf: (entry: AICallLogEntry) => string,
+): UsageBreakdown[] {
+  const rows = new Map<string, UsageBreakdown>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const row = rows.get(key) ?? {
+      key,
+      calls: 0,
+      cachedCalls: 0,
+      failedCalls: 0,
+      totalTokens: 0,
+      costUsd: 0,
+    };
+    row.calls++;
+    if (entry.cached) row.cachedCalls++;
+    else row.totalTokens += entry.usage.totalTokens;
+    if (!entry.success) row.failedCalls++;
+    row.costUsd += entry.estimatedCostUsd;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()]
+    .map((row) => ({ ...row, costUsd: Math.round(row.costUsd * 1_000_000) / 1_000_000 }))
+    .sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key));
+}
+
+/**
+ * Summarize spend by model and feature.
+ */
+export function summarizeUsage(
+  entries: AICallLogEntry[],
+  options: SummarizeUsageOptions = {},
+): UsageReport {
+  const since = options.since?.getTime() ?? -Infinity;
+  const until = options.until?.getTime() ?? Infinity;
+  const included = entries
+    .filter((entry) => {
+      const time = Date.parse(entry.timestamp);
+      return time >= since && time < until;
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const totalCostUsd = included.reduce((sum, e) => sum + e.estimatedCostUsd, 0);
+
+  return {
+    from: included[0]?.timestamp ?? null,
+    to: included[included.length - 1]?.timestamp ?? null,
+    totalCalls: included.length,
+    totalTokens: included.reduce((sum, e) => sum + (e.cached ? 0 : e.usage.totalTokens), 0),
+    totalCostUsd: Math.round(totalCostUsd * 1_000_000) / 1_000_000,
+    byModel: breakdown(included, (e) => e.model),
+    byFeature: breakdown(included, (e) => e.feature ?? UNTAGGED_FEATURE),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { VectorIndex, cosineSimilarity } from "./vector-index.js";
+
+describe("cosineSimilarity", () => {
+  it("should return 1 for identical directions and 0 for orthogonal vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it("should return 0 for zero vectors", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it("should throw on length mismatch", () => {
+    expect(() => cosineSimilarity([1], [1, 2])).toThrow("length mismatch");
+  });
+});
+
+describe("VectorIndex", () => {
+  function createIndex(): VectorIndex<{ tag: string }> {
+    const index = new VectorIndex<{ tag: string }>();
+    index.upsert([
+      { id: "billing", vector: [1, 0, 0], text: "Billing FAQ", metadata: { tag: "billing" } },
+      { id: "refunds", vector: [0.9, 0.1, 0], text: "Refunds", metadata: { tag: "billing" } },
+      { id: "login", vector: [0, 1, 0], text: "Login help", metadata: { tag: "auth" } },
+    ]);
+    return index;
+  }
+
+  it("should return the most similar documents first", () => {
+    const results = createIndex().search([1, 0, 0], { topK: 2 });
+    expect(results.map((r) => r.document.id)).toEqual(["billing", "refunds"]);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it("should apply minScore and filter", () => {
+    const index = createIndex();
+    expect(index.search([1, 0, 0], { minScore: 0.999 })).toHaveLength(1);
+    expect(
+      index
+        .search([1, 0, 0], { filter: (d) => d.metadata?.tag === "auth" })
+        .map((r) => r.document.id),
+    ).toEqual(["login"]);
+  });
+
+  it("should replace documents by id and remove them", () => {
+    const index = createIndex();
+    index.upsert([{ id: "login", vector: [1, 0, 0] }]);
+    expect(index.size).toBe(3);
+    expect(index.get("login")?.vector).toEqual([1, 0, 0]);
+
+    expect(index.remove("login")).toBe(true);
+    expect(index.has("login")).toBe(false);
+    expect(index.remove("login")).toBe(false);
+  });
+
+  it("should reject vectors with the wrong dimensions", () => {
+    const index = createIndex();
+    expect(() => index.upsert([{ id: "bad", vector: [1, 0] }])).toThrow(
+      "expected 3",
+    );
+    expect(() => index.search([1, 0])).toThrow("expected 3");
+  });
+
+  describe("persistence", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "vor-vectors-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should round-trip through save and load", async () => {
+      const path = join(dir, "nested", "help.json");
+      await createIndex().save(path);
+
+      const loaded = await VectorIndex.load<{ tag: string }>(path);
+      expect(loaded.size).toBe(3);
+      expect(loaded.search([0, 1, 0], { topK: 1 })[0].document).toEqual({
+        id: "login",
+        vector: [0, 1, 0],
+        text: "Login help",
+        metadata: { tag: "auth" },
+      });
+    });
+
+    it("should return an empty index when the file does not exist", async () => {
+      const loaded = await VectorIndex.load(join(dir, "missing.json"), {
+        model: "text-embedding-3-small",
+      });
+      expect(loaded.size).toBe(0);
+      expect(loaded.model).toBe("text-embedding-3-small");
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Vector Index
+ *
+ * A small in-process vector index with cosine-similarity search,
+ * persisted to disk as JSON. Sized for project knowledge bases
+ * (help articles, content entries) — a linear scan, no ANN structures.
+ *
+ * Usage:
+ *   import { VectorIndex } from '@vibeonrails/ai';
+ *
+ *   const index = await VectorIndex.load('.vibe/vectors/help.json');
+ *   index.upsert([{ id: 'faq/billing.md', vector, text, metadata: { title } }]);
+ *   const hits = index.search(queryVector, { topK: 3 });
+ *   await index.save('.vibe/vectors/help.json');
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VectorMetadata = Record<string, unknown>;
+
+export interface VectorDocument<M extends VectorMetadata = VectorMetadata> {
+  id: string;
+  vector: number[];
+  /** Source text, returned with search results for prompt assembly */
+  text?: string;
+  metadata?: M;
+}
+
+export interface VectorSearchOptions<M extends VectorMetadata = VectorMetadata> {
+  /** Maximum number of results (default: 5) */
+  topK?: number;
+  /** Minimum cosine similarity for a result to be returned */
+  minScore?: number;
+  /** Only consider documents matching this predicate */
+  filter?: (document: VectorDocument<M>) => boolean;
+}
+
+export interface VectorSearchResult<M extends VectorMetadata = VectorMetadata> {
+  document: VectorDocument<M>;
+  /** Cosine similarity in [-1, 1] */
+  score: number;
+}
+
+/**
+ * On-disk format of a saved index.
+ */
+export interface SerializedVectorIndex<M extends VectorMetadata = VectorMetadata> {
+  version: 1;
+  dimensions: number | null;
+  /** Embedding model that produced the vectors, if known */
+  model?: string;
+  documents: VectorDocument<M>[];
+}
+
+export interface VectorIndexOptions {
+  /** Expected vector length; inferred from the first document if omitted */
+  dimensions?: number;
+  /** Embedding model name, stored with the index */
+  model?: string;
+}
+
+const DEFAULT_TOP_K = 5;
+
+// ---------------------------------------------------------------------------
+// Similarity
+// ---------------------------------------------------------------------------
+
+function norm(vector: number[]): number {
+  let sum = 0;
+  for (const value of vector) sum += value * value;
+  return Math.sqrt(sum);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Cosine similarity of two equal-length vectors. Returns 0 for zero vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector length mismatch: ${a.length} vs ${b.length}`);
+  }
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot(a, b) / denominator;
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+export class VectorIndex<M extends VectorMetadata = VectorMetadata> {
+  private dimensions: number | null;
+  readonly model?: string;
+  private readonly documents = new Map<string, VectorDocument<M>>();
+  /** Cached vector norms, keyed by document id */
+  private readonly norms = new Map<string, number>();
+
+  constructor(options: VectorIndexOptions = {}) {
+    this.dimensions = options.dimensions ?? null;
+    this.model = options.model;
+  }
+
+  /** Number of documents in the index */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Insert or replace documents by id.
+   */
+  upsert(documents: VectorDocument<M>[]): void {
+    for (const document of documents) {
+      if (this.dimensions === null) {
+        this.dimensions = document.vector.length;
+      } else if (document.vector.length !== this.dimensions) {
+        throw new Error(
+          `Vector for "${document.id}" has ${document.vector.length} dimensions, expected ${this.dimensions}`,
+        );
+      }
+      this.documents.set(document.id, document);
+      this.norms.set(document.id, norm(document.vector));
+    }
+  }
+
+  /**
+   * Remove a document. Returns false if it was not in the index.
+   */
+  remove(id: string): boolean {
+    this.norms.delete(id);
+    return this.documents.delete(id);
+  }
+
+  get(id: string): VectorDocument<M> | undefined {
+    return this.documents.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Find the documents most similar to a query vector, best first.
+   */
+  search(
+    vector: number[],
+    options: VectorSearchOptions<M> = {},
+  ): VectorSearchResult<M>[] {
+    if (this.dimensions !== null && vector.length !== this.dimensions) {
+      throw new Error(
+        `Query vector has ${vector.length} dimensions, expected ${this.dimensions}`,
+      );
+    }
+
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const queryNorm = norm(vector);
+    if (queryNorm === 0) return [];
+
+    const results: VectorSearchResult<M>[] = [];
+    for (const document of this.documents.values()) {
+      if (options.filter && !options.filter(document)) continue;
+
+      const documentNorm = this.norms.get(document.id) ?? 0;
+      if (documentNorm === 0) continue;
+
+      const score = dot(vector, document.vector) / (queryNorm * documentNorm);
+      if (options.minScore !== undefined && score < options.minScore) continue;
+      results.push({ document, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Remove all documents.
+   */
+  clear(): void {
+    this.documents.clear();
+    this.norms.clear();
+  }
+
+  toJSON(): SerializedVectorIndex<M> {
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      ...(this.model ? { model: this.model } : {}),
+      documents: [...this.documents.values()],
+    };
+  }
+
+  static fromJSON<M extends VectorMetadata = VectorMetadata>(
+    data: SerializedVectorIndex<M>,
+  ): VectorIndex<M> {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported vector index version: ${String(data.version)}`);
+    }
+    const index = new VectorIndex<M>({
+      dimensions: data.dimensions ?? undefined,
+      model: data.model,
+    });
+    index.upsert(data.documents);
+    return index;
+  }
+
+  /**
+   * Write the index to a JSON file, creating parent directories.
+   */
+  async save(path: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(this.toJSON()), "utf-8");
+  }
+
+  /**
+   * Load an index from a JSON file. Returns an empty index if the file
+   * does not exist yet.
+   */
+  static async load<M extends VectorMetadata = VectorMetadata>(
+    path: string,
+    options: VectorIndexOptions = {},
+  ): Promise<VectorIndex<M>> {
+    let raw: string;
+    try {
+      raw = await readFile(path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new VectorIndex<M>(options);
+      }
+      throw error;
+    }
+    return VectorIndex.fromJSON<M>(JSON.parse(raw) as SerializedVectorIndex<M>);
+  }
+}
@@ -4,6 +4,9 @@
  * Caches optimized images in .vibe/image-cache/ keyed by source content hash.
  * WebP conversion, responsive srcset generation. Skip processing for cache hits.
  * Reports cache stats in build output.
+ *
+ * Hashing and variant names come from `@vibeonrails/infra/storage`, so build
+ * output and uploaded-image variants of the same file share names.
  */
 
 import {
@@ -14,8 +17,15 @@ import {
   readdirSync,
   statSync,
 } from "node:fs";
-import { join, basename, extname, dirname } from "node:path";
-import { createHash } from "node:crypto";
+import { join, extname } from "node:path";
+import {
+  RESPONSIVE_WIDTHS,
+  buildSrcset,
+  contentHash,
+  variantKey,
+} from "@vibeonrails/infra/storage";
+
+export { RESPONSIVE_WIDTHS };
 
 /**
  * Supported image formats for optimization.
@@ -28,11 +38,6 @@ export const SUPPORTED_FORMATS = [
   ".webp",
 ] as const;
 
-/**
- * Responsive image widths for srcset generation.
- */
-export const RESPONSIVE_WIDTHS = [320, 640, 768, 1024, 1280, 1536] as const;
-
 /**
  * Image cache entry.
  */
@@ -80,15 +85,14 @@ export class ImageCache {
    * Compute content hash of a file.
    */
   computeHash(filePath: string): string {
-    const content = readFileSync(filePath);
-    return createHash("sha256").update(content).digest("hex").substring(0, 16);
+    return contentHash(readFileSync(filePath));
   }
 
   /**
    * Generate cache key for a source image + width.
    */
   cacheKey(sourceHash: string, width: number, format: string): string {
-    return `${sourceHash}-${width}.${format}`;
+    return variantKey(sourceHash, width, format);
   }
 
   /**
@@ -157,17 +161,16 @@ export class ImageCache {
    * Generate srcset attribute value for an image.
    */
   generateSrcset(sourceHash: string, format: string): string {
-    const parts: string[] = [];
+    const variants: { url: string; width: number }[] = [];
 
     for (const width of RESPONSIVE_WIDTHS) {
-      const key = this.cacheKey(sourceHash, width, format);
-      const entry = this.manifest[key];
+      const entry = this.manifest[this.cacheKey(sourceHash, width, format)];
       if (entry) {
-        parts.push(`${entry.outputPath} ${width}w`);
+        variants.push({ url: entry.outputPath, width });
       }
     }
 
-    return parts.join(", ");
+    return buildSrcset(variants);
   }
 
   /**
@@ -0,0 +1,126 @@
+/**
+ * `vibe ai eval` — Tests
+ *
+ * Tests for prompt evaluation:
+ * - Version list parsing
+ * - Minimum score parsing
+ * - Default dataset path
+ * - Report formatting
+ */
+
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import type { EvalComparison, EvalReport } from "@vibeonrails/ai";
+import { parseVersions, parseMinScore, defaultDatasetPath, formatEvalReports } from "./ai-eval.js";
+
+function makeReport(version: number, score: number): EvalReport {
+  return {
+    promptRef: { id: "support.classify", version },
+    cases: [
+      {
+        name: "crash is a bug",
+        passed: score === 1,
+        output: "{}",
+        assertions: [
+          score === 1
+            ? { assertion: { type: "json" }, passed: true }
+            : {
+                assertion: { type: "contains", value: "bug" },
+                passed: false,
+                message: 'expected output to contain "bug"',
+              },
+        ],
+      },
+    ],
+    passedCases: score === 1 ? 1 : 0,
+    totalCases: 1,
+    score,
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// parseVersions
+// ---------------------------------------------------------------------------
+
+describe("parseVersions", () => {
+  it("should parse a comma-separated list", () => {
+    expect(parseVersions("1, 3,2")).toEqual([1, 3, 2]);
+  });
+
+  it("should return an empty list when no versions are given", () => {
+    expect(parseVersions(undefined)).toEqual([]);
+  });
+
+  it("should reject non-integer versions", () => {
+    expect(() => parseVersions("1,latest")).toThrow('Invalid prompt version "latest"');
+    expect(() => parseVersions("0")).toThrow('Invalid prompt version "0"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseMinScore
+// ---------------------------------------------------------------------------
+
+describe("parseMinScore", () => {
+  it("should parse a score from 0 to 1", () => {
+    expect(parseMinScore("0.9")).toBe(0.9);
+    expect(parseMinScore("1")).toBe(1);
+    expect(parseMinScore(undefined)).toBeUndefined();
+  });
+
+  it("should reject values that are not a score", () => {
+    expect(() => parseMinScore("abc")).toThrow('Invalid --min-score "abc"');
+    expect(() => parseMinScore("")).toThrow("Invalid --min-score");
+    expect(() => parseMinScore("90")).toThrow('Invalid --min-score "90"');
+    expect(() => parseMinScore("-0.1")).toThrow('Invalid --min-score "-0.1"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// defaultDatasetPath
+// ---------------------------------------------------------------------------
+
+describe("defaultDatasetPath", () => {
+  it("should look in evals/ by prompt id", () => {
+    expect(defaultDatasetPath("/app", "support.classify")).toBe(
+      join("/app", "evals", "support.classify.json"),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatEvalReports
+// ---------------------------------------------------------------------------
+
+describe("formatEvalReports", () => {
+  it("should list cases with failure messages and the best version", () => {
+    const reports = [makeReport(1, 0), makeReport(2, 1)];
+    const comparison: EvalComparison = {
+      versions: [1, 2],
+      scores: [0, 1],
+      cases: [{ name: "crash is a bug", passed: [false, true] }],
+      best: 2,
+    };
+
+    const output = formatEvalReports(reports, comparison);
+
+    expect(output).toContain("support.classify");
+    expect(output).toContain("v1");
+    expect(output).toContain("100%");
+    expect(output).toContain('expected output to contain "bug"');
+    expect(output).toContain("Best:");
+  });
+
+  it("should omit the comparison for a single version", () => {
+    const report = makeReport(1, 1);
+    const output = formatEvalReports([report], {
+      versions: [1],
+      scores: [1],
+      cases: [{ name: "crash is a bug", passed: [true] }],
+      best: 1,
+    });
+
+    expect(output).not.toContain("Best:");
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * `vibe ai eval` — Prompt Evaluation
+ *
+ * Runs versions of a registered prompt against an eval dataset and
+ * compares their scores, so prompt changes are measured before they ship.
+ *
+ * Commands:
+ *   vibe ai eval support.classify                  — Evaluate the latest version
+ *   vibe ai eval support.classify --versions 1,2   — Compare versions
+ *   vibe ai eval support.classify --min-score 0.9  — Fail below a score
+ *   vibe ai eval support.classify --json           — Output as JSON
+ */
+
+import { Command } from "commander";
+import { join } from "node:path";
+import chalk from "chalk";
+import {
+  createAI,
+  loadPromptRegistry,
+  loadEvalDataset,
+  runPromptEval,
+  compareEvalReports,
+  type EvalComparison,
+  type EvalReport,
+} from "@vibeonrails/ai";
+import { createFormatter } from "../output/formatter.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PROMPTS_DIR = "prompts";
+const DEFAULT_EVALS_DIR = "evals";
+
+// ---------------------------------------------------------------------------
+// Core Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `--versions` list ("1,2" or "1, 3"). Returns an empty list
+ * when no versions were given (evaluate the latest).
+ */
+export function parseVersions(value: string | undefined): number[] {
+  if (!value) return [];
+  return value.split(",").map((part) => {
+    const version = Number(part.trim());
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid prompt version "${part.trim()}"`);
+    }
+    return version;
+  });
+}
+
+/**
+ * Parse a `--min-score` value: a number from 0 to 1. Returns undefined
+ * when no minimum was given.
+ */
+export function parseMinScore(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const score = value.trim() === "" ? NaN : Number(value);
+  if (!Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error(`Invalid --min-score "${value}"`);
+  }
+  return score;
+}
+
+/**
+ * Default dataset path for a prompt: `evals/<promptId>.json`.
+ */
+export function defaultDatasetPath(rootDir: string, promptId: string): string {
+  return join(rootDir, DEFAULT_EVALS_DIR, `${promptId}.json`);
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 1000) / 10}%`;
+}
+
+/**
+ * Format eval reports (one per version) for the terminal.
+ */
+export function formatEvalReports(reports: readonly EvalReport[], comparison: EvalComparison): string {
+  const lines: string[] = [];
+  const promptId = reports[0]?.promptRef.id ?? "";
+
+  lines.push("");
+  lines.push(`  Prompt Eval: ${chalk.bold(promptId)}`);
+  lines.push("  " + "=".repeat(70));
+
+  for (const report of reports) {
+    lines.push("");
+    lines.push(
+      `  ${chalk.bold(`v${report.promptRef.version}`)}  ${formatScore(report.score)}  ` +
+        chalk.dim(
+          `(${report.passedCases}/${report.totalCases} cases, ${report.usage.totalTokens} tokens)`,
+        ),
+    );
+
+    for (const result of report.cases) {
+      const statusIcon = result.passed ? chalk.green("PASS") : chalk.red("FAIL");
+      lines.push(`    ${statusIcon}  ${result.name}`);
+      if (result.error) {
+        lines.push(chalk.dim(`          Error: ${result.error}`));
+        continue;
+      }
+      for (const assertion of result.assertions) {
+        if (!assertion.passed && assertion.message) {
+          lines.push(chalk.dim(`          ${assertion.message}`));
+        }
+      }
+    }
+  }
+
+  if (reports.length > 1) {
+    lines.push("");
+    lines.push("  " + "-".repeat(70));
+    lines.push(`  Best: ${chalk.green(`v${comparison.best}`)}`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// CLI Command
+// ---------------------------------------------------------------------------
+
+/**
+ * `vibe ai eval` command.
+ */
+export function aiEvalCommand(): Command {
+  const cmd = new Command("eval")
+    .description("Run a prompt against its eval dataset and compare versions")
+    .argument("<promptId>", "Registered prompt id (e.g. support.classify)")
+    .option("--dataset <path>", "Eval dataset (default: evals/<promptId>.json)")
+    .option("--prompts <dir>", "Prompt files directory", DEFAULT_PROMPTS_DIR)
+    .option("--versions <list>", "Comma-separated versions to compare (default: latest)")
+    .option("--model <model>", "Model to evaluate with (default: provider default)")
+    .option("--min-score <score>", "Fail if the best score is below this (0-1)")
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action(
+      async (
+        promptId: string,
+        options: {
+          dataset?: string;
+          prompts: string;
+          versions?: string;
+          model?: string;
+          minScore?: string;
+          json?: boolean;
+        },
+      ) => {
+        if (options.json) {
+          process.env.VIBE_OUTPUT = "json";
+        }
+
+        const formatter = createFormatter();
+        const rootDir = process.cwd();
+
+        let minScore: number | undefined;
+        try {
+          minScore = parseMinScore(options.minScore);
+        } catch (error) {
+          formatter.error({
+            command: "ai eval",
+            message: error instanceof Error ? error.message : String(error),
+            fix: "Pass a score from 0 to 1, e.g. --min-score 0.9",
+          });
+          process.exitCode = 1;
+          return;
+        }
+
+        let reports: EvalReport[];
+        let comparison: EvalComparison;
+        try {
+          const registry = await loadPromptRegistry(join(rootDir, options.prompts));
+          const dataset = await loadEvalDataset(
+            options.dataset ?? defaultDatasetPath(rootDir, promptId),
+          );
+          const requested = parseVersions(options.versions);
+          const templates =
+            requested.length > 0
+              ? requested.map((version) => registry.get(promptId, version))
+              : [registry.get(promptId)];
+
+          const ai = createAI();
+          reports = [];
+          for (const template of templates) {
+            formatter.info(`Evaluating ${promptId} v${template.version}...`);
+            reports.push(await runPromptEval(ai, template, dataset, { model: options.model }));
+          }
+          comparison = compareEvalReports(reports);
+        } catch (error) {
+          formatter.error({
+            command: "ai eval",
+            message: error instanceof Error ? error.message : String(error),
+            fix: `Check ${options.prompts}/ for the prompt and the eval dataset path`,
+          });
+          process.exitCode = 1;
+          return;
+        }
+
+        if (!options.json) {
+          console.log(formatEvalReports(reports, comparison));
+        }
+
+        const bestScore = Math.max(...comparison.scores);
+
+        if (minScore !== undefined && bestScore < minScore) {
+          formatter.error({
+            command: "ai eval",
+            message: `Best score ${formatScore(bestScore)} is below the minimum ${formatScore(minScore)}`,
+          });
+          process.exitCode = 1;
+          return;
+        }
+
+        formatter.success({
+          command: "ai eval",
+          data: { reports, comparison },
+          message: `${promptId}: best v${comparison.best} at ${formatScore(bestScore)}`,
+        });
+      },
+    );
+
+  return cmd;
+}
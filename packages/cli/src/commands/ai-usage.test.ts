@@ -0,0 +1,82 @@
+/**
+ * `vibe ai usage` — Tests
+ *
+ * Tests for the AI spend report:
+ * - Reporting period boundaries
+ * - Breakdown table rows
+ * - Summary line
+ */
+
+import { describe, it, expect } from "vitest";
+import type { UsageReport } from "@vibeonrails/ai";
+import { periodStart, usageTableRows, formatUsageSummary } from "./ai-usage.js";
+
+const report: UsageReport = {
+  from: "2026-03-02T09:00:00.000Z",
+  to: "2026-03-15T12:00:00.000Z",
+  totalCalls: 3,
+  totalTokens: 12500,
+  totalCostUsd: 0.4,
+  byModel: [
+    { key: "gpt-4o", calls: 2, cachedCalls: 1, failedCalls: 0, totalTokens: 12000, costUsd: 0.3 },
+    { key: "gpt-4o-mini", calls: 1, cachedCalls: 0, failedCalls: 1, totalTokens: 500, costUsd: 0.1 },
+  ],
+  byFeature: [],
+};
+
+// ---------------------------------------------------------------------------
+// periodStart
+// ---------------------------------------------------------------------------
+
+describe("periodStart", () => {
+  const now = new Date("2026-03-15T18:30:00Z");
+
+  it("should start the day and month at UTC midnight", () => {
+    expect(periodStart("day", now)?.toISOString()).toBe("2026-03-15T00:00:00.000Z");
+    expect(periodStart("month", now)?.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+
+  it("should not bound the all-time period", () => {
+    expect(periodStart("all", now)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// usageTableRows
+// ---------------------------------------------------------------------------
+
+describe("usageTableRows", () => {
+  it("should format counts, tokens, cost and share", () => {
+    expect(usageTableRows(report.byModel, report.totalCostUsd)).toEqual([
+      ["gpt-4o", "2", "1", "0", "12,000", "$0.30", "75%"],
+      ["gpt-4o-mini", "1", "0", "1", "500", "$0.10", "25%"],
+    ]);
+  });
+
+  it("should show small costs with more precision and no share without spend", () => {
+    const rows = usageTableRows(
+      [{ key: "llama3", calls: 4, cachedCalls: 0, failedCalls: 0, totalTokens: 800, costUsd: 0 }],
+      0,
+    );
+    expect(rows[0].slice(5)).toEqual(["$0.00", "-"]);
+    expect(
+      usageTableRows(
+        [{ key: "x", calls: 1, cachedCalls: 0, failedCalls: 0, totalTokens: 10, costUsd: 0.0012 }],
+        0.0012,
+      )[0][5],
+    ).toBe("$0.0012");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatUsageSummary
+// ---------------------------------------------------------------------------
+
+describe("formatUsageSummary", () => {
+  it("should summarize spend for the period", () => {
+    const summary = formatUsageSummary(report, "month");
+    expect(summary).toContain("This month");
+    expect(summary).toContain("$0.40");
+    expect(summary).toContain("3 call(s), 12,500 tokens");
+  });
+});
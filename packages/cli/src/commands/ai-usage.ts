@@ -0,0 +1,147 @@
+/**
+ * `vibe ai usage` — AI Spend Report
+ *
+ * Summarizes AI spend from the usage log (written by `createUsageLogWriter()`)
+ * broken down by model and feature.
+ *
+ * Commands:
+ *   vibe ai usage                       — Spend this month
+ *   vibe ai usage --period day          — Spend today (UTC)
+ *   vibe ai usage --period all          — All recorded spend
+ *   vibe ai usage --log logs/ai.jsonl   — Custom usage log
+ *   vibe ai usage --json                — Output as JSON
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  DEFAULT_USAGE_LOG,
+  readUsageLog,
+  summarizeUsage,
+  type UsageBreakdown,
+  type UsageReport,
+} from "@vibeonrails/ai";
+import { createFormatter } from "../output/formatter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const USAGE_PERIODS = ["day", "month", "all"] as const;
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+// ---------------------------------------------------------------------------
+// Core Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Start of the reporting period in UTC, or undefined for all time.
+ */
+export function periodStart(period: UsagePeriod, now: Date = new Date()): Date | undefined {
+  switch (period) {
+    case "day":
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    case "month":
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    case "all":
+      return undefined;
+  }
+}
+
+function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Table rows for a usage breakdown: name, calls, cached, failed, tokens, cost, share.
+ */
+export function usageTableRows(rows: readonly UsageBreakdown[], totalCostUsd: number): string[][] {
+  return rows.map((row) => [
+    row.key,
+    String(row.calls),
+    String(row.cachedCalls),
+    String(row.failedCalls),
+    row.totalTokens.toLocaleString("en-US"),
+    formatUsd(row.costUsd),
+    totalCostUsd > 0 ? `${Math.round((row.costUsd / totalCostUsd) * 100)}%` : "-",
+  ]);
+}
+
+/**
+ * One-line summary of a usage report.
+ */
+export function formatUsageSummary(report: UsageReport, period: UsagePeriod): string {
+  const label = period === "all" ? "All time" : period === "day" ? "Today" : "This month";
+  return (
+    `${label}: ${chalk.bold(formatUsd(report.totalCostUsd))} across ` +
+    `${report.totalCalls} call(s), ${report.totalTokens.toLocaleString("en-US")} tokens`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// CLI Command
+// ---------------------------------------------------------------------------
+
+const TABLE_HEADERS = ["Calls", "Cached", "Failed", "Tokens", "Cost", "Share"];
+
+/**
+ * `vibe ai usage` command.
+ */
+export function aiUsageCommand(): Command {
+  const cmd = new Command("usage")
+    .description("AI spend report by model and feature")
+    .option("--period <period>", `Reporting period (${USAGE_PERIODS.join(", ")})`, "month")
+    .option("--log <path>", "Usage log file", DEFAULT_USAGE_LOG)
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action(async (options: { period: string; log: string; json?: boolean }) => {
+      if (options.json) {
+        process.env.VIBE_OUTPUT = "json";
+      }
+
+      const formatter = createFormatter();
+
+      if (!(USAGE_PERIODS as readonly string[]).includes(options.period)) {
+        formatter.error({
+          command: "ai usage",
+          message: `Unknown period "${options.period}"`,
+          fix: `Use one of: ${USAGE_PERIODS.join(", ")}`,
+        });
+        process.exitCode = 1;
+        return;
+      }
+      const period = options.period as UsagePeriod;
+
+      const entries = await readUsageLog(options.log);
+      const report = summarizeUsage(entries, { since: periodStart(period) });
+
+      if (report.totalCalls === 0) {
+        formatter.success({
+          command: "ai usage",
+          data: report,
+          message: `No AI calls recorded in ${options.log} for this period.`,
+          nextSteps: ["Log calls with createAILogger({ writer: createUsageLogWriter() })"],
+        });
+        return;
+      }
+
+      if (!options.json) {
+        console.log("");
+        console.log(chalk.bold("  By model"));
+        formatter.table(["Model", ...TABLE_HEADERS], usageTableRows(report.byModel, report.totalCostUsd));
+        console.log("");
+        console.log(chalk.bold("  By feature"));
+        formatter.table(
+          ["Feature", ...TABLE_HEADERS],
+          usageTableRows(report.byFeature, report.totalCostUsd),
+        );
+      }
+
+      formatter.success({
+        command: "ai usage",
+        data: report,
+        message: formatUsageSummary(report, period),
+      });
+    });
+
+  return cmd;
+}
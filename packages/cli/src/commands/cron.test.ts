@@ -0,0 +1,143 @@
+/**
+ * `vibe cron` — Tests
+ *
+ * Tests for the cron commands:
+ * - Reading the run history file
+ * - List and history table rows
+ * - Runner script and entry file checks
+ * - Command structure
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  readCronRuns,
+  cronListRows,
+  cronHistoryRows,
+  buildCronRunnerScript,
+  runCronRunner,
+  cronCommand,
+  type CronRun,
+} from "./cron.js";
+
+function run(overrides: Partial<CronRun> = {}): CronRun {
+  return {
+    id: "r1",
+    name: "cleanup",
+    status: "completed",
+    trigger: "schedule",
+    scheduledAt: Date.parse("2026-03-10T10:00:00Z"),
+    startedAt: Date.parse("2026-03-10T10:00:00Z"),
+    finishedAt: Date.parse("2026-03-10T10:00:01.500Z"),
+    durationMs: 1500,
+    instanceId: "host:1",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// readCronRuns
+// ---------------------------------------------------------------------------
+
+describe("readCronRuns", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vibe-cron-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should return runs newest first, filtered and limited", async () => {
+    const path = join(dir, "history.jsonl");
+    writeFileSync(
+      path,
+      [run({ id: "1" }), run({ id: "2", name: "report" }), run({ id: "3" })]
+        .map((r) => JSON.stringify(r))
+        .join("\n") + "\n{broken",
+    );
+
+    expect((await readCronRuns(path)).map((r) => r.id)).toEqual(["3", "2", "1"]);
+    expect((await readCronRuns(path, { name: "cleanup" })).map((r) => r.id)).toEqual(["3", "1"]);
+    expect((await readCronRuns(path, { limit: 1 })).map((r) => r.id)).toEqual(["3"]);
+  });
+
+  it("should return an empty list when the file is missing", async () => {
+    expect(await readCronRuns(join(dir, "missing.jsonl"))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Table rows
+// ---------------------------------------------------------------------------
+
+describe("cronListRows", () => {
+  it("should show next run, or disabled, and the last run", () => {
+    const rows = cronListRows([
+      {
+        name: "cleanup",
+        schedule: "0 * * * *",
+        timezone: "UTC",
+        enabled: true,
+        nextRunAt: "2026-03-10T11:00:00.000Z",
+        lastRun: run(),
+      },
+      { name: "off", schedule: "@daily", timezone: "Europe/Paris", enabled: false, nextRunAt: null },
+    ]);
+
+    expect(rows[0]!.slice(0, 4)).toEqual(["cleanup", "0 * * * *", "UTC", "2026-03-10 11:00:00"]);
+    expect(rows[0]![4]).toContain("completed");
+    expect(rows[1]![3]).toContain("disabled");
+    expect(rows[1]![4]).toContain("never");
+  });
+});
+
+describe("cronHistoryRows", () => {
+  it("should format durations, statuses and errors", () => {
+    const rows = cronHistoryRows([
+      run(),
+      run({ status: "failed", durationMs: 20, error: "boom", trigger: "manual" }),
+      run({ status: "skipped", durationMs: 0, reason: "overlap" }),
+    ]);
+
+    expect(rows[0]).toEqual(["2026-03-10 10:00:00", "cleanup", expect.stringContaining("completed"), "schedule", "1.5s", ""]);
+    expect(rows[1]!.slice(3)).toEqual(["manual", "20ms", "boom"]);
+    expect(rows[2]![2]).toContain("skipped (overlap)");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+describe("runner", () => {
+  it("should load the entry and drive the scheduler from the environment", () => {
+    const script = buildCronRunnerScript();
+    expect(script).toContain("import(pathToFileURL(env.VIBE_CRON_ENTRY).href)");
+    expect(script).toContain('import("@vibeonrails/infra/queue")');
+    expect(script).toContain("createFileCronHistory(env.VIBE_CRON_HISTORY)");
+    expect(script).toContain("scheduler.run(env.VIBE_CRON_JOB)");
+  });
+
+  it("should fail fast when the entry file does not exist", () => {
+    expect(() => runCronRunner({ entry: "src/nope.ts", history: "h.jsonl", cwd: tmpdir() })).toThrow(
+      "Cron entry file not found: src/nope.ts",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// cronCommand
+// ---------------------------------------------------------------------------
+
+describe("cronCommand", () => {
+  it("should register list, run and history", () => {
+    const cmd = cronCommand();
+    expect(cmd.name()).toBe("cron");
+    expect(cmd.commands.map((c) => c.name())).toEqual(["list", "run", "history"]);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * `vibe cron` — Cron Jobs
+ *
+ * Inspects and runs the project's `defineCron()` jobs. `list` and `run` load
+ * the cron entry file (default `src/cron.ts`) with tsx and drive it through
+ * `createCronScheduler()`; `history` reads the run log written by
+ * `createFileCronHistory()`.
+ *
+ * Commands:
+ *   vibe cron list                          — Jobs with next and last run
+ *   vibe cron run <name>                    — Run a job now
+ *   vibe cron history [name]                — Recent runs, newest first
+ *   vibe cron history --limit 100           — More runs
+ *   vibe cron list --entry src/jobs/cron.ts — Custom cron entry file
+ *   vibe cron list --json                   — Output as JSON
+ */
+
+import { Command } from "commander";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import chalk from "chalk";
+import { createFormatter } from "../output/formatter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CRON_ENTRY = "src/cron.ts";
+export const DEFAULT_CRON_HISTORY = ".vibe/cron-history.jsonl";
+
+/** A run as recorded by `@vibeonrails/infra/queue` (CronRunRecord) */
+export interface CronRun {
+  id: string;
+  name: string;
+  status: "completed" | "failed" | "skipped";
+  trigger: "schedule" | "manual";
+  scheduledAt: number;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  error?: string;
+  reason?: "overlap" | "locked";
+  instanceId: string;
+}
+
+/** A job as listed by the scheduler (CronJobStatus, serialized) */
+export interface CronJobSummary {
+  name: string;
+  schedule: string;
+  timezone: string;
+  enabled: boolean;
+  description?: string;
+  nextRunAt: string | null;
+  lastRun?: CronRun;
+}
+
+export interface CronRunnerOptions {
+  entry: string;
+  history: string;
+  /** Run this job; list jobs when omitted */
+  job?: string;
+  cwd?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Core Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Script evaluated by tsx inside the project: imports the cron entry, then
+ * lists jobs or runs one and writes the JSON result to VIBE_CRON_RESULT.
+ */
+export function buildCronRunnerScript(): string {
+  return [
+    "(async () => {",
+    '  const { writeFileSync } = await import("node:fs");',
+    '  const { pathToFileURL } = await import("node:url");',
+    "  const env = process.env;",
+    "  try {",
+    "    await import(pathToFileURL(env.VIBE_CRON_ENTRY).href);",
+    '    const queue = await import("@vibeonrails/infra/queue");',
+    "    const scheduler = queue.createCronScheduler({",
+    "      history: queue.createFileCronHistory(env.VIBE_CRON_HISTORY),",
+    "    });",
+    "    const result = env.VIBE_CRON_JOB",
+    "      ? await scheduler.run(env.VIBE_CRON_JOB)",
+    "      : await scheduler.list();",
+    "    writeFileSync(env.VIBE_CRON_RESULT, JSON.stringify({ result }));",
+    "  } catch (error) {",
+    "    const message = error instanceof Error ? error.message : String(error);",
+    "    writeFileSync(env.VIBE_CRON_RESULT, JSON.stringify({ error: message }));",
+    "  }",
+    "})();",
+  ].join("\n");
+}
+
+/**
+ * Load the project's cron jobs with tsx and list them or run one.
+ * Job output goes straight to the terminal; the result comes back via a temp file.
+ */
+export function runCronRunner(options: CronRunnerOptions): unknown {
+  const cwd = options.cwd ?? process.cwd();
+  const entry = resolve(cwd, options.entry);
+  if (!existsSync(entry)) {
+    throw new Error(`Cron entry file not found: ${options.entry}`);
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), "vibe-cron-"));
+  const resultPath = join(dir, "result.json");
+  try {
+    spawnSync("npx", ["tsx", "--eval", buildCronRunnerScript()], {
+      cwd,
+      stdio: "inherit",
+      env: {
+        ...process.env,
+        VIBE_CRON_ENTRY: entry,
+        VIBE_CRON_HISTORY: resolve(cwd, options.history),
+        VIBE_CRON_JOB: options.job ?? "",
+        VIBE_CRON_RESULT: resultPath,
+      },
+    });
+    if (!existsSync(resultPath)) {
+      throw new Error("The cron runner exited without a result (is tsx installed?)");
+    }
+    const output = JSON.parse(readFileSync(resultPath, "utf-8")) as { result?: unknown; error?: string };
+    if (output.error) throw new Error(output.error);
+    return output.result;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read runs from a JSONL history file, newest first.
+ */
+export async function readCronRuns(
+  path: string,
+  query: { name?: string; limit?: number } = {},
+): Promise<CronRun[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const runs: CronRun[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const run = JSON.parse(line) as CronRun;
+      if (!query.name || run.name === query.name) runs.push(run);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return runs.slice(-(query.limit ?? 20)).reverse();
+}
+
+function formatTime(time: number | string): string {
+  return new Date(time).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatStatus(run: CronRun): string {
+  if (run.status === "completed") return chalk.green("completed");
+  if (run.status === "failed") return chalk.red("failed");
+  return chalk.yellow(`skipped (${run.reason ?? "unknown"})`);
+}
+
+/**
+ * Table rows for `vibe cron list`: name, schedule, timezone, next run, last run.
+ */
+export function cronListRows(jobs: readonly CronJobSummary[]): string[][] {
+  return jobs.map((job) => [
+    job.name,
+    job.schedule,
+    job.timezone,
+    job.nextRunAt ? formatTime(job.nextRunAt) : chalk.dim("disabled"),
+    job.lastRun ? `${formatStatus(job.lastRun)} ${formatTime(job.lastRun.startedAt)}` : chalk.dim("never"),
+  ]);
+}
+
+/**
+ * Table rows for `vibe cron history`: started, job, status, trigger, duration, error.
+ */
+export function cronHistoryRows(runs: readonly CronRun[]): string[][] {
+  return runs.map((run) => [
+    formatTime(run.startedAt),
+    run.name,
+    formatStatus(run),
+    run.trigger,
+    formatDuration(run.durationMs),
+    run.error ?? "",
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// CLI Command
+// ---------------------------------------------------------------------------
+
+interface RunnerFlags {
+  entry: string;
+  history: string;
+  json?: boolean;
+}
+
+/**
+ * `vibe cron <action>` — List, run and inspect cron jobs.
+ */
+export function cronCommand(): Command {
+  const cron = new Command("cron").description("Cron jobs — list, run and inspect history");
+
+  cron
+    .command("list")
+    .description("List cron jobs with their next and last run")
+    .option("--entry <path>", "File that defines the cron jobs", DEFAULT_CRON_ENTRY)
+    .option("--history <path>", "Run history file", DEFAULT_CRON_HISTORY)
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action((options: RunnerFlags) => {
+      if (options.json) process.env.VIBE_OUTPUT = "json";
+      const formatter = createFormatter();
+
+      let jobs: CronJobSummary[];
+      try {
+        jobs = runCronRunner({ entry: options.entry, history: options.history }) as CronJobSummary[];
+      } catch (error) {
+        formatter.error({
+          command: "cron list",
+          message: error instanceof Error ? error.message : String(error),
+          fix: `Define jobs with defineCron() in ${options.entry} or pass --entry`,
+        });
+        process.exitCode = 1;
+        return;
+      }
+
+      if (!options.json && jobs.length > 0) {
+        formatter.table(["Job", "Schedule", "Timezone", "Next run (UTC)", "Last run (UTC)"], cronListRows(jobs));
+      }
+      formatter.success({
+        command: "cron list",
+        data: jobs,
+        message: jobs.length > 0 ? `${jobs.length} cron job(s)` : `No cron jobs defined in ${options.entry}`,
+      });
+    });
+
+  cron
+    .command("run <name>")
+    .description("Run a cron job now")
+    .option("--entry <path>", "File that defines the cron jobs", DEFAULT_CRON_ENTRY)
+    .option("--history <path>", "Run history file", DEFAULT_CRON_HISTORY)
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action((name: string, options: RunnerFlags) => {
+      if (options.json) process.env.VIBE_OUTPUT = "json";
+      const formatter = createFormatter();
+
+      let run: CronRun;
+      try {
+        run = runCronRunner({ entry: options.entry, history: options.history, job: name }) as CronRun;
+      } catch (error) {
+        formatter.error({
+          command: "cron run",
+          message: error instanceof Error ? error.message : String(error),
+          fix: "Run `vibe cron list` to see the defined jobs",
+        });
+        process.exitCode = 1;
+        return;
+      }
+
+      if (run.status === "completed") {
+        formatter.success({
+          command: "cron run",
+          data: run,
+          message: `${name} completed in ${formatDuration(run.durationMs)}`,
+        });
+        return;
+      }
+
+      formatter.error({
+        command: "cron run",
+        message:
+          run.status === "failed"
+            ? `${name} failed: ${run.error ?? "unknown error"}`
+            : `${name} was skipped: a run is already in progress (${run.reason ?? "unknown"})`,
+      });
+      process.exitCode = 1;
+    });
+
+  cron
+    .command("history [name]")
+    .description("Show recent cron runs")
+    .option("--history <path>", "Run history file", DEFAULT_CRON_HISTORY)
+    .option("--limit <n>", "Number of runs to show", "20")
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action(async (name: string | undefined, options: { history: string; limit: string; json?: boolean }) => {
+      if (options.json) process.env.VIBE_OUTPUT = "json";
+      const formatter = createFormatter();
+
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        formatter.error({
+          command: "cron history",
+          message: `Invalid --limit "${options.limit}"`,
+          fix: "Pass a positive integer, e.g. --limit 50",
+        });
+        process.exitCode = 1;
+        return;
+      }
+
+      const runs = await readCronRuns(options.history, { name, limit });
+      if (runs.length === 0) {
+        formatter.success({
+          command: "cron history",
+          data: runs,
+          message: `No cron runs recorded in ${options.history}${name ? ` for ${name}` : ""}.`,
+          nextSteps: ["Record runs with createCronScheduler({ history: createFileCronHistory() })"],
+        });
+        return;
+      }
+
+      if (!options.json) {
+        formatter.table(["Started (UTC)", "Job", "Status", "Trigger", "Duration", "Error"], cronHistoryRows(runs));
+      }
+      formatter.success({
+        command: "cron history",
+        data: runs,
+        message: `${runs.length} run(s)`,
+      });
+    });
+
+  return cron;
+}
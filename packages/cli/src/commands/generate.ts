@@ -4,10 +4,12 @@ import chalk from "chalk";
 import ora from "ora";
 import { generateModule } from "../generators/module.generator.js";
 import { generateComponent } from "../generators/component.generator.js";
+import { generateEmailTypesFile } from "../generators/email-types.generator.js";
 import { toKebabCase, toPascalCase } from "../utils/template.js";
 
 /**
  * `vibe generate module <name>` — Generate a new module (types, service, controller, test).
+ * `vibe generate email-types` — Type `sendEmail()` data from email template frontmatter.
  */
 export function generateCommand(): Command {
   const generate = new Command("generate")
@@ -78,5 +80,27 @@ export function generateCommand(): Command {
       }
     });
 
+  generate
+    .command("email-types")
+    .description("Generate sendEmail() data types from email template frontmatter")
+    .option("-o, --out <file>", "Output file", "src/generated/email-templates.d.ts")
+    .option("-r, --root <dir>", "Content directory", "content")
+    .option("-l, --locale <locale>", "Locale whose templates define the types", "en")
+    .action(async (options: { out: string; root: string; locale: string }) => {
+      const spinner = ora("Generating email template types...").start();
+
+      try {
+        const result = await generateEmailTypesFile(process.cwd(), options);
+        const relative = result.file.replace(process.cwd() + "/", "");
+
+        spinner.succeed(`Typed ${result.templates.length} email templates.`);
+        console.log(`\n    ${chalk.green("+")} ${relative}\n`);
+      } catch (error) {
+        spinner.fail("Failed to generate email template types.");
+        console.error(error);
+        process.exit(1);
+      }
+    });
+
   return generate;
 }
@@ -24,6 +24,10 @@ export { reportCommand } from "./report.js";
 export { askCommand } from "./ask.js";
 export { fixCommand } from "./fix.js";
 export { generateAiCommand } from "./generate-ai.js";
+export { aiEvalCommand } from "./ai-eval.js";
+export { aiUsageCommand } from "./ai-usage.js";
+export { cronCommand } from "./cron.js";
+export { queueCommand } from "./queue.js";
 
 // Phase 11: Audit System
 export { auditCommand } from "./audit.js";
\ No newline at end of file
@@ -0,0 +1,156 @@
+/**
+ * `vibe queue` — Tests
+ *
+ * Tests for the queue commands:
+ * - Admin endpoint URL from the environment
+ * - Admin API client (routes, auth header, errors)
+ * - Count and job table rows
+ * - Command structure
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  defaultQueueUrl,
+  createQueueApi,
+  queueCountRows,
+  queueJobRows,
+  queueCommand,
+  type QueueJob,
+} from "./queue.js";
+
+function job(overrides: Partial<QueueJob> = {}): QueueJob {
+  return {
+    id: "j1",
+    name: "send-email",
+    data: {},
+    status: "failed",
+    attemptsMade: 3,
+    runAt: Date.parse("2026-03-10T10:00:00Z"),
+    createdAt: Date.parse("2026-03-10T10:00:00Z"),
+    error: "SMTP down",
+    ...overrides,
+  };
+}
+
+function fakeFetch(status: number, body: unknown) {
+  const calls: Array<{ url: string; method?: string; headers?: RequestInit["headers"] }> = [];
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    calls.push({ url, method: init?.method, headers: init?.headers });
+    return new Response(JSON.stringify(body), { status });
+  }) as typeof fetch;
+  return { calls, fetchFn };
+}
+
+// ---------------------------------------------------------------------------
+// defaultQueueUrl
+// ---------------------------------------------------------------------------
+
+describe("defaultQueueUrl", () => {
+  it("should default to the local dev server", () => {
+    expect(defaultQueueUrl({})).toBe("http://localhost:3000/admin/queues");
+  });
+
+  it("should use APP_URL without its trailing slash", () => {
+    expect(defaultQueueUrl({ APP_URL: "https://app.example.com/" })).toBe(
+      "https://app.example.com/admin/queues",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createQueueApi
+// ---------------------------------------------------------------------------
+
+describe("createQueueApi", () => {
+  it("should fetch queues with the bearer token", async () => {
+    const { calls, fetchFn } = fakeFetch(200, { queues: [{ name: "send-email", counts: {} }] });
+    const api = createQueueApi({ url: "http://app/admin/queues/", token: "secret", fetch: fetchFn });
+
+    expect(await api.queues()).toEqual([{ name: "send-email", counts: {} }]);
+    expect(calls[0]).toEqual({
+      url: "http://app/admin/queues",
+      method: "GET",
+      headers: { authorization: "Bearer secret" },
+    });
+  });
+
+  it("should pass job filters as query parameters", async () => {
+    const { calls, fetchFn } = fakeFetch(200, { jobs: [job()] });
+    const api = createQueueApi({ url: "http://app/admin/queues", fetch: fetchFn });
+
+    expect(await api.jobs({ name: "send-email", status: "failed", limit: 20 })).toHaveLength(1);
+    expect(calls[0]!.url).toBe("http://app/admin/queues/jobs?name=send-email&status=failed&limit=20");
+    expect(calls[0]!.headers).toEqual({});
+  });
+
+  it("should POST job actions", async () => {
+    const { calls, fetchFn } = fakeFetch(200, { ok: true });
+    const api = createQueueApi({ url: "http://app/admin/queues", fetch: fetchFn });
+
+    await api.action("a/b", "retry");
+    expect(calls[0]).toMatchObject({ url: "http://app/admin/queues/jobs/a%2Fb/retry", method: "POST" });
+  });
+
+  it("should throw the endpoint's error message", async () => {
+    const { fetchFn } = fakeFetch(400, { error: 'Job "x" is active' });
+    const api = createQueueApi({ url: "http://app/admin/queues", fetch: fetchFn });
+
+    await expect(api.action("x", "discard")).rejects.toThrow('Job "x" is active');
+  });
+
+  it("should fall back to the status code", async () => {
+    const fetchFn = (async () => new Response("nope", { status: 502 })) as typeof fetch;
+    const api = createQueueApi({ url: "http://app/admin/queues", fetch: fetchFn });
+
+    await expect(api.job("x")).rejects.toThrow("Request failed with status 502");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Table rows
+// ---------------------------------------------------------------------------
+
+describe("queueCountRows", () => {
+  it("should list one column per state", () => {
+    const rows = queueCountRows([
+      {
+        name: "send-email",
+        counts: { waiting: 2, delayed: 1, "waiting-children": 0, active: 1, completed: 10, failed: 0 },
+      },
+    ]);
+    expect(rows).toEqual([["send-email", "2", "1", "0", "1", "10", "0"]]);
+  });
+});
+
+describe("queueJobRows", () => {
+  it("should show id, name, status, attempts, creation time and error", () => {
+    expect(queueJobRows([job(), job({ id: "j2", status: "waiting", attemptsMade: 0, error: undefined })])).toEqual([
+      ["j1", "send-email", "failed", "3", "2026-03-10 10:00:00", "SMTP down"],
+      ["j2", "send-email", "waiting", "0", "2026-03-10 10:00:00", ""],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// queueCommand
+// ---------------------------------------------------------------------------
+
+describe("queueCommand", () => {
+  it("should register inspection and action subcommands", () => {
+    const cmd = queueCommand();
+    expect(cmd.name()).toBe("queue");
+    expect(cmd.commands.map((c) => c.name())).toEqual([
+      "jobs",
+      "failed",
+      "show",
+      "retry",
+      "discard",
+      "promote",
+    ]);
+  });
+
+  it("should keep connection options on the parent command", () => {
+    const cmd = queueCommand();
+    expect(cmd.options.map((o) => o.long)).toEqual(["--url", "--token", "--json"]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * `vibe queue` — Queue Inspection
+ *
+ * Triage background jobs without redis-cli. Talks to the queue admin
+ * endpoint of the running app (`createQueueAdminHandler()` from
+ * `@vibeonrails/infra/queue`), so it works for BullMQ and in-process queues.
+ *
+ * Commands:
+ *   vibe queue                              — Job counts per queue and state
+ *   vibe queue jobs [name] --status failed  — Jobs, newest first
+ *   vibe queue failed [name] --stack        — Failed jobs with error and stack
+ *   vibe queue show <id>                    — One job in full
+ *   vibe queue retry <id>                   — Re-run a failed job
+ *   vibe queue discard <id>                 — Delete a job
+ *   vibe queue promote <id>                 — Run a delayed job now
+ *
+ * Options (before the subcommand: `vibe queue --url <url> failed`):
+ *   --url <url>     — Admin endpoint (default: $APP_URL/admin/queues, then http://localhost:3000)
+ *   --token <token> — Bearer token (default: $VIBE_ADMIN_TOKEN)
+ *   --json          — Output as JSON
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { createFormatter } from "../output/formatter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Job states, as reported by the admin endpoint */
+export const JOB_STATUSES = [
+  "waiting",
+  "delayed",
+  "waiting-children",
+  "active",
+  "completed",
+  "failed",
+] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface QueueSummary {
+  name: string;
+  counts: Record<JobStatus, number>;
+}
+
+export interface QueueJob {
+  id: string;
+  name: string;
+  data: unknown;
+  status: JobStatus;
+  attemptsMade: number;
+  runAt: number;
+  createdAt: number;
+  finishedAt?: number;
+  error?: string;
+  stack?: string;
+  priority?: number;
+  parentId?: string;
+}
+
+export interface QueueApiOptions {
+  url: string;
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+export interface QueueApi {
+  queues(): Promise<QueueSummary[]>;
+  jobs(query?: { name?: string; status?: string; limit?: number }): Promise<QueueJob[]>;
+  job(id: string): Promise<QueueJob>;
+  action(id: string, action: "retry" | "discard" | "promote"): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Core Functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Admin endpoint URL from the environment.
+ */
+export function defaultQueueUrl(env: NodeJS.ProcessEnv = process.env): string {
+  const appUrl = (env.APP_URL ?? "http://localhost:3000").replace(/\/+$/, "");
+  return `${appUrl}/admin/queues`;
+}
+
+/**
+ * Client for the queue admin endpoint.
+ */
+export function createQueueApi(options: QueueApiOptions): QueueApi {
+  const base = options.url.replace(/\/+$/, "");
+  const fetchFn = options.fetch ?? fetch;
+
+  async function request<T>(path: string, method = "GET"): Promise<T> {
+    const response = await fetchFn(`${base}${path}`, {
+      method,
+      headers: options.token ? { authorization: `Bearer ${options.token}` } : {},
+    });
+    const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+    if (!response.ok) {
+      throw new Error(body.error ?? `Request failed with status ${response.status}`);
+    }
+    return body;
+  }
+
+  return {
+    async queues() {
+      return (await request<{ queues: QueueSummary[] }>("")).queues;
+    },
+    async jobs(query = {}) {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) params.set(key, String(value));
+      }
+      const search = params.size > 0 ? `?${params}` : "";
+      return (await request<{ jobs: QueueJob[] }>(`/jobs${search}`)).jobs;
+    },
+    async job(id) {
+      return (await request<{ job: QueueJob }>(`/jobs/${encodeURIComponent(id)}`)).job;
+    },
+    async action(id, action) {
+      await request(`/jobs/${encodeURIComponent(id)}/${action}`, "POST");
+    },
+  };
+}
+
+/**
+ * Table rows for queue counts: name, then one column per state.
+ */
+export function queueCountRows(queues: readonly QueueSummary[]): string[][] {
+  return queues.map((queue) => [
+    queue.name,
+    ...JOB_STATUSES.map((status) => {
+      const count = queue.counts[status] ?? 0;
+      if (status === "failed" && count > 0) return chalk.red(String(count));
+      return String(count);
+    }),
+  ]);
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Table rows for jobs: id, name, status, attempts, created, error.
+ */
+export function queueJobRows(jobs: readonly QueueJob[]): string[][] {
+  return jobs.map((job) => [
+    job.id,
+    job.name,
+    job.status,
+    String(job.attemptsMade),
+    formatTime(job.createdAt),
+    job.error ?? "",
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// CLI Command
+// ---------------------------------------------------------------------------
+
+interface ConnectionFlags {
+  url?: string;
+  token?: string;
+  json?: boolean;
+}
+
+function connect(options: ConnectionFlags): QueueApi {
+  if (options.json) process.env.VIBE_OUTPUT = "json";
+  return createQueueApi({
+    url: options.url ?? defaultQueueUrl(),
+    token: options.token ?? process.env.VIBE_ADMIN_TOKEN,
+  });
+}
+
+function reportFailure(command: string, error: unknown): void {
+  createFormatter().error({
+    command,
+    message: error instanceof Error ? error.message : String(error),
+    fix: "Start the app and mount createQueueAdminHandler(), or pass --url and --token",
+  });
+  process.exitCode = 1;
+}
+
+const JOB_HEADERS = ["Id", "Job", "Status", "Attempts", "Created (UTC)", "Error"];
+
+const JOB_ACTIONS = [
+  ["retry", "Re-run a failed job with fresh attempts", "queued for retry"],
+  ["discard", "Delete a job that is not running", "discarded"],
+  ["promote", "Run a delayed job now", "promoted"],
+] as const;
+
+/**
+ * `vibe queue` command. Connection options live on `queue` and apply to
+ * every subcommand (`vibe queue --url ... failed`).
+ */
+export function queueCommand(): Command {
+  const queue = new Command("queue")
+    .description("Inspect background job queues — counts, failed jobs, retry")
+    .option("--url <url>", "Queue admin endpoint (default: $APP_URL/admin/queues)")
+    .option("--token <token>", "Bearer token (default: $VIBE_ADMIN_TOKEN)")
+    .option("--json", "Output as JSON (same as VIBE_OUTPUT=json)")
+    .action(async (options: ConnectionFlags) => {
+      const formatter = createFormatter();
+      try {
+        const queues = await connect(options).queues();
+        if (!options.json && queues.length > 0) {
+          formatter.table(["Queue", ...JOB_STATUSES], queueCountRows(queues));
+        }
+        const failed = queues.reduce((sum, q) => sum + (q.counts.failed ?? 0), 0);
+        formatter.success({
+          command: "queue",
+          data: queues,
+          message: `${queues.length} queue(s), ${failed} failed job(s)`,
+          nextSteps: failed > 0 ? ["vibe queue failed"] : [],
+        });
+      } catch (error) {
+        reportFailure("queue", error);
+      }
+    });
+
+  queue
+    .command("jobs [name]")
+    .description("List jobs, newest first")
+    .option("--status <status>", `Only jobs in this state (${JOB_STATUSES.join(", ")})`)
+    .option("--limit <n>", "Number of jobs", "20")
+    .action(async (name: string | undefined, _options: unknown, cmd: Command) => {
+      const options = cmd.optsWithGlobals<ConnectionFlags & { status?: string; limit: string }>();
+      const formatter = createFormatter();
+      try {
+        const jobs = await connect(options).jobs({
+          name,
+          status: options.status,
+          limit: Number(options.limit),
+        });
+        if (!options.json && jobs.length > 0) formatter.table(JOB_HEADERS, queueJobRows(jobs));
+        formatter.success({ command: "queue jobs", data: jobs, message: `${jobs.length} job(s)` });
+      } catch (error) {
+        reportFailure("queue jobs", error);
+      }
+    });
+
+  queue
+    .command("failed [name]")
+    .description("List failed jobs with their error")
+    .option("--stack", "Show stack traces")
+    .option("--limit <n>", "Number of jobs", "20")
+    .action(async (name: string | undefined, _options: unknown, cmd: Command) => {
+      const options = cmd.optsWithGlobals<ConnectionFlags & { stack?: boolean; limit: string }>();
+      const formatter = createFormatter();
+      try {
+        const jobs = await connect(options).jobs({ name, status: "failed", limit: Number(options.limit) });
+        if (!options.json) {
+          for (const job of jobs) {
+            console.log(`\n  ${chalk.bold(job.name)} ${chalk.dim(job.id)} — ${job.attemptsMade} attempt(s)`);
+            console.log(`  ${chalk.red(job.error ?? "unknown error")}`);
+            if (options.stack && job.stack) console.log(chalk.dim(job.stack.replace(/^/gm, "    ")));
+          }
+          if (jobs.length > 0) console.log("");
+        }
+        formatter.success({
+          command: "queue failed",
+          data: jobs,
+          message: `${jobs.length} failed job(s)`,
+          nextSteps: jobs.length > 0 ? ["vibe queue retry <id>", "vibe queue discard <id>"] : [],
+        });
+      } catch (error) {
+        reportFailure("queue failed", error);
+      }
+    });
+
+  queue
+    .command("show <id>")
+    .description("Show a job in full")
+    .action(async (id: string, _options: unknown, cmd: Command) => {
+      const options = cmd.optsWithGlobals<ConnectionFlags>();
+      const formatter = createFormatter();
+      try {
+        const job = await connect(options).job(id);
+        if (!options.json) console.log(JSON.stringify(job, null, 2));
+        formatter.success({ command: "queue show", data: job, message: `${job.name} is ${job.status}` });
+      } catch (error) {
+        reportFailure("queue show", error);
+      }
+    });
+
+  for (const [action, description, done] of JOB_ACTIONS) {
+    queue
+      .command(`${action} <id>`)
+      .description(description)
+      .action(async (id: string, _options: unknown, cmd: Command) => {
+        const options = cmd.optsWithGlobals<ConnectionFlags>();
+        try {
+          await connect(options).action(id, action);
+          createFormatter().success({
+            command: `queue ${action}`,
+            data: { id },
+            message: `Job ${id} ${done}`,
+          });
+        } catch (error) {
+          reportFailure(`queue ${action}`, error);
+        }
+      });
+  }
+
+  return queue;
+}
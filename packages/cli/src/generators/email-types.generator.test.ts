@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { generateEmailTypesFile } from "./email-types.generator.js";
+
+describe("email types generator", () => {
+  const testDir = join(tmpdir(), "vibe-cli-email-types-test-" + Date.now());
+
+  beforeEach(() => {
+    const emails = join(testDir, "content/locales/en/emails");
+    mkdirSync(join(emails, "billing"), { recursive: true });
+    writeFileSync(join(emails, "welcome.md"), "---\nsubject: Hi\nvariables:\n  - name: string\n---\nHi {{name}}");
+    writeFileSync(
+      join(emails, "billing/invoice.md"),
+      "---\nvariables:\n  - items: { amount: number }[]\n---\n{{#each items}}{{amount}}{{/each}}",
+    );
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("writes a module augmentation for every template", async () => {
+    const result = await generateEmailTypesFile(testDir, {
+      out: "src/generated/email-templates.d.ts",
+      root: "content",
+      locale: "en",
+    });
+
+    expect(result.templates).toEqual(["billing/invoice", "welcome"]);
+    const source = readFileSync(join(testDir, "src/generated/email-templates.d.ts"), "utf-8");
+    expect(source).toContain('"billing/invoice": { items: Array<{ amount: number }>; };');
+    expect(source).toContain('"welcome": { name: string; };');
+  });
+});
@@ -0,0 +1,33 @@
+import { join } from "node:path";
+import { generateEmailTypes } from "@vibeonrails/infra/email";
+import { writeFile } from "../utils/fs.js";
+
+export interface GenerateEmailTypesResult {
+  file: string;
+  /** Template names that got a data type */
+  templates: string[];
+}
+
+/**
+ * Write the declaration file that types `sendEmail()` from the email
+ * templates' `variables:` frontmatter (content/locales/{locale}/emails).
+ *
+ * @param projectDir The app root
+ * @param options.out    Output file, relative to the app root
+ * @param options.root   Content directory, relative to the app root
+ * @param options.locale Locale whose templates define the types
+ */
+export async function generateEmailTypesFile(
+  projectDir: string,
+  options: { out: string; root: string; locale: string },
+): Promise<GenerateEmailTypesResult> {
+  const source = await generateEmailTypes({
+    root: join(projectDir, options.root),
+    locale: options.locale,
+  });
+  const file = join(projectDir, options.out);
+  writeFile(file, source);
+
+  const templates = [...source.matchAll(/^ {4}"([^"]+)":/gm)].map((match) => match[1]!);
+  return { file, templates };
+}
@@ -3,3 +3,6 @@ export type { GenerateModuleResult } from "./module.generator.js";
 
 export { generateApp } from "./app.generator.js";
 export type { GenerateAppResult } from "./app.generator.js";
+
+export { generateEmailTypesFile } from "./email-types.generator.js";
+export type { GenerateEmailTypesResult } from "./email-types.generator.js";
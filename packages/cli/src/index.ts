@@ -25,6 +25,10 @@ import {
   askCommand,
   fixCommand,
   generateAiCommand,
+  aiEvalCommand,
+  aiUsageCommand,
+  cronCommand,
+  queueCommand,
   auditCommand,
 } from "./commands/index.js";
 import { undoCommand } from "./undo/index.js";
@@ -72,6 +76,13 @@ program.addCommand(reportCommand());
 program.addCommand(askCommand());
 program.addCommand(fixCommand());
 program.addCommand(generateAiCommand());
+const aiCmd = new Command("ai")
+  .description("AI tools — prompt evaluation and spend reporting");
+aiCmd.addCommand(aiEvalCommand());
+aiCmd.addCommand(aiUsageCommand());
+program.addCommand(aiCmd);
+program.addCommand(cronCommand());
+program.addCommand(queueCommand());
 program.addCommand(auditCommand());
 
 // If invoked as `create-vibe`, auto-run the create command
@@ -19,8 +19,14 @@ const EnvSchema = z.object({
   // Redis (optional)
   REDIS_URL: z.string().url().optional(),
 
-  // Email (optional)
+  // Email (optional — without a provider, emails go to .vibe/outbox)
+  EMAIL_TRANSPORT: z.enum(["resend", "smtp", "outbox"]).optional(),
+  EMAIL_FROM: z.string().optional(),
   RESEND_API_KEY: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
 });
 
 export type Env = z.infer<typeof EnvSchema>;
@@ -1,4 +1,9 @@
 import { createServer } from "@vibeonrails/core/api";
+import {
+  createOutboxHandler,
+  getEmailTransport,
+  type OutboxTransport,
+} from "@vibeonrails/infra/email";
 import { appRouter } from "./router.js";
 
 const port = Number(process.env["PORT"] ?? 3000);
@@ -10,6 +15,14 @@ const app = createServer({
   },
 });
 
+// Preview emails sent in development at /_dev/emails/. The preview has no
+// auth and shows every reset link, so never mount it outside development.
+const mail = getEmailTransport();
+if (process.env["NODE_ENV"] === "development" && mail.name === "outbox") {
+  const preview = createOutboxHandler(mail as OutboxTransport);
+  app.all("/_dev/emails/*", (c) => preview(c.req.raw));
+}
+
 console.log(`🚀 {{projectName}} running at http://localhost:${port}`);
 
 export default {
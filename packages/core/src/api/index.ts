@@ -8,3 +8,19 @@ export { createServer, type ServerOptions } from './server.js';
 export { createAppRouter } from './router.js';
 export { errorHandler } from './middleware/error-handler.js';
 export { rateLimit } from './middleware/rate-limit.js';
+export {
+  timingMiddleware,
+  addTimingPhase,
+  type RequestTiming,
+  type TimingMiddlewareOptions,
+  type TimingPhase,
+} from './middleware/timing.js';
+export {
+  tracing,
+  getRequestId,
+  getTraceContext,
+  getRequestDuration,
+  propagationHeaders,
+  type TraceContext,
+  type TracingOptions,
+} from './middleware/tracing.js';
@@ -12,7 +12,11 @@ export {
   isProduction,
   TIMING_THRESHOLDS,
 } from "./timing.js";
-export type { TimingPhase } from "./timing.js";
+export type {
+  TimingPhase,
+  RequestTiming,
+  TimingMiddlewareOptions,
+} from "./timing.js";
 export {
   tracing,
   getRequestId,
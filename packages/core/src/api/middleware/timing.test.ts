@@ -6,11 +6,15 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Hono } from "hono";
 import {
+  addTimingPhase,
   colorizeDuration,
   formatTimingLog,
   isProduction,
+  timingMiddleware,
   TIMING_THRESHOLDS,
+  type RequestTiming,
   type TimingPhase,
 } from "./timing.js";
 
@@ -120,3 +124,58 @@ describe("formatTimingLog", () => {
     expect(slowLog).toContain("\x1b[31m"); // Red for >100ms
   });
 });
+
+describe("timingMiddleware", () => {
+  const originalEnv = process.env["NODE_ENV"];
+
+  afterEach(() => {
+    process.env["NODE_ENV"] = originalEnv;
+  });
+
+  function createApp(onRequest?: (timing: RequestTiming) => void) {
+    const app = new Hono();
+    app.use("*", timingMiddleware({ onRequest, log: false }));
+    app.get("/users/:id", (c) => {
+      addTimingPhase(c, "db", 3);
+      return c.json({ id: c.req.param("id") });
+    });
+    return app;
+  }
+
+  it("should pass the matched route and status to onRequest", async () => {
+    const timings: RequestTiming[] = [];
+    await createApp((t) => timings.push(t)).request("/users/42");
+
+    expect(timings).toHaveLength(1);
+    expect(timings[0]).toMatchObject({
+      method: "GET",
+      route: "/users/:id",
+      path: "/users/42",
+      status: 200,
+      phases: [{ name: "db", durationMs: 3 }],
+    });
+    expect(timings[0]!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should use * as the route of unmatched requests", async () => {
+    const timings: RequestTiming[] = [];
+    await createApp((t) => timings.push(t)).request("/missing");
+
+    expect(timings[0]).toMatchObject({ route: "*", path: "/missing", status: 404 });
+  });
+
+  it("should call onRequest in production without logging", async () => {
+    process.env["NODE_ENV"] = "production";
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const onRequest = vi.fn();
+
+    const app = new Hono();
+    app.use("*", timingMiddleware({ onRequest }));
+    app.get("/", (c) => c.text("ok"));
+    await app.request("/");
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+});
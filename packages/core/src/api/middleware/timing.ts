@@ -8,7 +8,11 @@
  * - Yellow: >50ms
  * - Red: >100ms
  *
- * Disabled in production (NODE_ENV === 'production').
+ * Disabled in production (NODE_ENV === 'production'), unless an `onRequest`
+ * hook is passed — e.g. to record request metrics — in which case only the
+ * log line is skipped:
+ *
+ *   app.use("*", timingMiddleware({ onRequest: recordHttpRequest }));
  */
 
 import type { MiddlewareHandler, Context } from "hono";
@@ -21,6 +25,30 @@ export interface TimingPhase {
   readonly durationMs: number;
 }
 
+/**
+ * A finished request, passed to the `onRequest` hook.
+ */
+export interface RequestTiming {
+  readonly method: string;
+  /** Matched route pattern (e.g. `/users/:id`), or `*` when none matched */
+  readonly route: string;
+  readonly path: string;
+  readonly status: number;
+  /** Unrounded total duration */
+  readonly durationMs: number;
+  readonly phases: readonly TimingPhase[];
+}
+
+/**
+ * Options for the timing middleware.
+ */
+export interface TimingMiddlewareOptions {
+  /** Called after every request, in production too */
+  onRequest?: (timing: RequestTiming) => void;
+  /** Log the breakdown to the console (default: outside production) */
+  log?: boolean;
+}
+
 /**
  * Timing thresholds for coloring output.
  */
@@ -117,13 +145,19 @@ export function addTimingPhase(
 }
 
 /**
- * Dev-only request timing middleware.
- * Disabled in production for zero overhead.
+ * Request timing middleware.
+ * Without an `onRequest` hook it is disabled in production for zero overhead.
  */
-export function timingMiddleware(): MiddlewareHandler {
+export function timingMiddleware(
+  options: TimingMiddlewareOptions = {},
+): MiddlewareHandler {
+  const { onRequest } = options;
+
   return async (c, next) => {
-    // Skip in production
-    if (isProduction()) {
+    const log = options.log ?? !isProduction();
+
+    // Skip when there is nothing to report
+    if (!log && !onRequest) {
       await next();
       return;
     }
@@ -135,17 +169,30 @@ export function timingMiddleware(): MiddlewareHandler {
 
     await next();
 
-    const totalMs = Math.round(performance.now() - start);
+    const durationMs = performance.now() - start;
     const phases: TimingPhase[] = c.get(TIMING_KEY) ?? [];
 
-    const log = formatTimingLog(
-      c.res.status,
-      c.req.method,
-      c.req.path,
-      totalMs,
+    onRequest?.({
+      method: c.req.method,
+      // "/*" is the pattern of a catch-all middleware, not a matched route.
+      // Unmatched paths are not used as-is: scanners would add a route each
+      route: c.req.routePath && c.req.routePath !== "/*" ? c.req.routePath : "*",
+      path: c.req.path,
+      status: c.res.status,
+      durationMs,
       phases,
-    );
-
-    console.log(log);
+    });
+
+    if (log) {
+      console.log(
+        formatTimingLog(
+          c.res.status,
+          c.req.method,
+          c.req.path,
+          Math.round(durationMs),
+          phases,
+        ),
+      );
+    }
   };
 }
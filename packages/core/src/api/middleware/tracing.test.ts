@@ -196,6 +196,52 @@ describe("Request Tracing Middleware", () => {
     expect(body[REQUEST_ID_HEADER]).toBeTruthy();
   });
 
+  // -----------------------------------------------------------------------
+  // Trace context
+  // -----------------------------------------------------------------------
+
+  it("should continue an incoming traceparent", async () => {
+    app.use("*", tracing());
+    app.get("/test", (c) => c.json(getTraceContext(c)));
+
+    const res = await app.request("/test", {
+      headers: { traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01" },
+    });
+    const body = await res.json();
+
+    expect(body.traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(body.parentSpanId).toBe("b7ad6b7169203331");
+    expect(body.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should ignore an incoming traceparent when trustProxy is false", async () => {
+    app.use("*", tracing({ trustProxy: false }));
+    app.get("/test", (c) => c.json(getTraceContext(c)));
+
+    const res = await app.request("/test", {
+      headers: { traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01" },
+    });
+    const body = await res.json();
+
+    expect(body.traceId).not.toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(body.parentSpanId).toBeUndefined();
+  });
+
+  it("should propagate the request span as traceparent, with or without a context", async () => {
+    app.use("*", tracing());
+    app.get("/test", async (c) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return c.json({ fromContext: propagationHeaders(c), fromAsync: propagationHeaders() });
+    });
+
+    const res = await app.request("/test");
+    const { fromContext, fromAsync } = await res.json();
+
+    expect(fromContext.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(fromAsync).toEqual(fromContext);
+    expect(fromAsync[REQUEST_ID_HEADER]).toBe(res.headers.get(REQUEST_ID_HEADER));
+  });
+
   // -----------------------------------------------------------------------
   // Edge cases
   // -----------------------------------------------------------------------
@@ -1,9 +1,10 @@
 /**
  * Request Tracing Middleware
  *
- * Assigns a unique x-request-id to every HTTP request. Propagates through
- * DB queries, external API calls, AI SDK calls, and queue jobs.
- * Full lifecycle traceable from one ID.
+ * Assigns a unique x-request-id to every HTTP request and runs it in a
+ * server span that continues the caller's W3C `traceparent`. The span is
+ * active for the whole request, so DB queries, tRPC procedures, outbound
+ * calls and enqueued jobs become its children.
  *
  * Usage:
  *   import { tracing, getRequestId } from '@vibeonrails/core/api';
@@ -15,6 +16,14 @@
  */
 
 import type { MiddlewareHandler, Context } from "hono";
+import {
+  getPropagationHeaders,
+  parseTraceparent,
+  withSpan,
+  withTraceContext,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER,
+} from "../../tracing/tracer.js";
 
 // ---------------------------------------------------------------------------
 // Request ID Generation
@@ -50,17 +59,18 @@ export interface TraceContext {
   requestId: string;
   /** Request start time for duration calculation */
   startTime: number;
-  /** Optional parent span for distributed tracing */
+  /** Trace ID of the request's server span */
+  traceId?: string;
+  /** Caller's span: from `traceparent`, else the incoming request ID */
   parentSpanId?: string;
-  /** Optional span ID for this request */
+  /** Span ID of the request's server span */
   spanId?: string;
 }
 
 /** Hono context variable key for the trace context */
 const TRACE_CTX_KEY = "traceContext";
 
-/** Header name for request ID propagation */
-export const REQUEST_ID_HEADER = "x-request-id";
+export { REQUEST_ID_HEADER };
 
 // ---------------------------------------------------------------------------
 // Middleware
@@ -69,7 +79,7 @@ export const REQUEST_ID_HEADER = "x-request-id";
 export interface TracingOptions {
   /** Custom header name (default: x-request-id) */
   headerName?: string;
-  /** Whether to trust incoming request IDs (default: true) */
+  /** Whether to trust incoming request IDs and `traceparent` (default: true) */
   trustProxy?: boolean;
   /** Custom ID generator (default: crypto.randomUUID) */
   generateId?: () => string;
@@ -79,9 +89,10 @@ export interface TracingOptions {
  * Request tracing middleware for Hono.
  *
  * - Reads or generates x-request-id
+ * - Continues an incoming traceparent, or starts a new trace
+ * - Runs the request in a server span named `<METHOD> <route>`
  * - Stores in Hono context (c.get('traceContext'))
  * - Sets response header x-request-id
- * - Logs request start/end with duration
  */
 export function tracing(options: TracingOptions = {}): MiddlewareHandler {
   const headerName = options.headerName ?? REQUEST_ID_HEADER;
@@ -92,20 +103,48 @@ export function tracing(options: TracingOptions = {}): MiddlewareHandler {
     // Read incoming request ID or generate a new one
     const incomingId = trustProxy ? c.req.header(headerName) : undefined;
     const requestId = incomingId ?? generateId();
-
-    const traceContext: TraceContext = {
-      requestId,
-      startTime: Date.now(),
-      parentSpanId: incomingId ? requestId : undefined,
-    };
-
-    // Store in Hono context
-    c.set(TRACE_CTX_KEY, traceContext);
+    const remote = trustProxy ? parseTraceparent(c.req.header(TRACEPARENT_HEADER)) : undefined;
 
     // Set response header before processing
     c.header(headerName, requestId);
 
-    await next();
+    await withTraceContext({ parent: remote, requestId }, () =>
+      withSpan(
+        c.req.method,
+        async (span) => {
+          const traceContext: TraceContext = {
+            requestId,
+            startTime: Date.now(),
+            traceId: span.traceId,
+            parentSpanId: remote?.spanId ?? (incomingId ? requestId : undefined),
+            spanId: span.spanId,
+          };
+
+          // Store in Hono context
+          c.set(TRACE_CTX_KEY, traceContext);
+
+          await next();
+
+          // The route is known once a handler has matched ("/*" is middleware)
+          const route = c.req.routePath && c.req.routePath !== "/*" ? c.req.routePath : undefined;
+          if (route) {
+            span.updateName(`${c.req.method} ${route}`);
+            span.setAttribute("http.route", route);
+          }
+          span.setAttribute("http.response.status_code", c.res.status);
+          if (c.res.status >= 500) span.setStatus("error", `HTTP ${c.res.status}`);
+        },
+        {
+          kind: "server",
+          parent: remote ?? null,
+          attributes: {
+            "http.request.method": c.req.method,
+            "url.path": c.req.path,
+            "request.id": requestId,
+          },
+        },
+      ),
+    );
   };
 }
 
@@ -139,11 +178,13 @@ export function getRequestDuration(c: Context): number | undefined {
 }
 
 /**
- * Create headers object with the request ID for propagating
- * to external API calls, queue jobs, etc.
+ * Create headers object with the request ID and `traceparent` for
+ * propagating to external API calls, queue jobs, etc. Without a context,
+ * reads the active trace (e.g. in a tRPC procedure or a job).
  */
-export function propagationHeaders(c: Context): Record<string, string> {
-  const requestId = getRequestId(c);
+export function propagationHeaders(c?: Context): Record<string, string> {
+  const headers = getPropagationHeaders();
+  const requestId = c ? getRequestId(c) : headers[REQUEST_ID_HEADER];
   if (!requestId) return {};
-  return { [REQUEST_ID_HEADER]: requestId };
+  return { ...headers, [REQUEST_ID_HEADER]: requestId };
 }
@@ -5,7 +5,9 @@
  * - CORS
  * - Secure headers
  * - Request logging
+ * - Request tracing (x-request-id, traceparent, server spans)
  * - Error handling
+ * - Request timing hook (metrics)
  * - tRPC integration
  * - Health check endpoint
  *
@@ -25,6 +27,8 @@ import { trpcServer } from '@hono/trpc-server';
 import type { AnyRouter } from '@trpc/server';
 import { createContext } from './context.js';
 import { errorHandler } from './middleware/error-handler.js';
+import { timingMiddleware, type RequestTiming } from './middleware/timing.js';
+import { tracing } from './middleware/tracing.js';
 
 export interface ServerOptions {
   /** The tRPC router to serve */
@@ -33,6 +37,11 @@ export interface ServerOptions {
   trpcPath?: string;
   /** CORS origin (default: allow all origins) */
   corsOrigin?: string | string[];
+  /**
+   * Called after every request with its method, route, status and duration,
+   * e.g. `recordHttpRequest` from `@vibeonrails/infra/monitoring`
+   */
+  onRequest?: (timing: RequestTiming) => void;
 }
 
 /**
@@ -42,13 +51,15 @@ export interface ServerOptions {
  * @returns Configured Hono app instance
  */
 export function createServer(options: ServerOptions) {
-  const { router, trpcPath = '/trpc', corsOrigin } = options;
+  const { router, trpcPath = '/trpc', corsOrigin, onRequest } = options;
 
   const app = new Hono();
 
   // Global middleware
   app.use('*', errorHandler());
   app.use('*', logger());
+  app.use('*', tracing());
+  if (onRequest) app.use('*', timingMiddleware({ onRequest, log: false }));
   app.use('*', secureHeaders());
   app.use(
     '*',
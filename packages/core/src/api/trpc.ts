@@ -2,7 +2,8 @@
  * tRPC Configuration
  *
  * Sets up tRPC with typed context, public and protected procedures.
- * This is the foundation for all API endpoints.
+ * This is the foundation for all API endpoints. Every procedure call runs
+ * in a `trpc <path>` span.
  *
  * Usage in controllers:
  *   import { router, publicProcedure, protectedProcedure } from '@vibeonrails/core/api';
@@ -10,6 +11,7 @@
 
 import { initTRPC, TRPCError } from '@trpc/server';
 import type { Context } from '../shared/types/index.js';
+import { withSpan } from '../tracing/tracer.js';
 
 const t = initTRPC.context<Context>().create({
   errorFormatter({ shape, error }) {
@@ -28,16 +30,41 @@ const t = initTRPC.context<Context>().create({
  */
 export const router = t.router;
 
+/**
+ * Run each procedure call in a span. tRPC returns errors as results rather
+ * than throwing them, so the span status comes from the result.
+ */
+const traced = t.middleware(({ path, type, next }) =>
+  withSpan(
+    `trpc ${path}`,
+    async (span) => {
+      const result = await next();
+      if (!result.ok) {
+        span.recordException(result.error);
+        span.setAttribute('rpc.trpc.error_code', result.error.code);
+      }
+      return result;
+    },
+    {
+      attributes: {
+        'rpc.system': 'trpc',
+        'rpc.method': path,
+        'rpc.trpc.type': type,
+      },
+    },
+  ),
+);
+
 /**
  * Public procedure - no authentication required.
  */
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure.use(traced);
 
 /**
  * Protected procedure - requires authenticated user.
  * Throws UNAUTHORIZED if no user in context.
  */
-export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+export const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
   if (!ctx.user) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
@@ -263,6 +263,22 @@ describe("Query Analyzer", () => {
       expect(writer).not.toHaveBeenCalled();
       expect(analyzer.report("req-1")).toBeNull();
     });
+
+    it("should still report queries to onQuery when disabled", () => {
+      const onQuery = vi.fn();
+      const analyzer = new QueryAnalyzer({ enabled: false, onQuery });
+
+      analyzer.track("SELECT * FROM users WHERE id = $1", 12, "req-1");
+
+      expect(onQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sql: "SELECT * FROM users WHERE id = $1",
+          durationMs: 12,
+          requestId: "req-1",
+        }),
+      );
+      expect(analyzer.report("req-1")).toBeNull();
+    });
   });
 
   // -----------------------------------------------------------------------
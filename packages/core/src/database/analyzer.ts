@@ -7,6 +7,7 @@
  * - Detects N+1 patterns (same query >3x in one request)
  * - Suggests CREATE INDEX statements
  * - Zero overhead in production (disabled entirely)
+ * - Reports every query to an `onQuery` hook, in production too (metrics)
  *
  * Usage:
  *   import { createQueryAnalyzer } from '@vibeonrails/core/database';
@@ -14,6 +15,10 @@
  *   const analyzer = createQueryAnalyzer();
  *   analyzer.track('SELECT * FROM users WHERE id = $1', 150, 'req-123');
  *   analyzer.report('req-123');
+ *
+ *   // Record query metrics
+ *   import { recordDbQuery } from '@vibeonrails/infra/monitoring';
+ *   const analyzer = createQueryAnalyzer({ onQuery: recordDbQuery });
  */
 
 // ---------------------------------------------------------------------------
@@ -81,6 +86,8 @@ export interface QueryAnalyzerOptions {
   enabled?: boolean;
   /** Custom writer for warnings (default: console.warn) */
   writer?: (message: string) => void;
+  /** Called for every tracked query, even when the analyzer is disabled */
+  onQuery?: (query: TrackedQuery) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -159,6 +166,7 @@ export class QueryAnalyzer {
   private readonly slowThresholdMs: number;
   private readonly nPlusOneThreshold: number;
   private readonly writer: (message: string) => void;
+  private readonly onQuery?: (query: TrackedQuery) => void;
 
   /** Queries grouped by request ID */
   private readonly queryMap = new Map<string, TrackedQuery[]>();
@@ -170,6 +178,7 @@ export class QueryAnalyzer {
     this.slowThresholdMs = options.slowQueryThresholdMs ?? 100;
     this.nPlusOneThreshold = options.nPlusOneThreshold ?? 3;
     this.writer = options.writer ?? ((msg) => console.warn(msg));
+    this.onQuery = options.onQuery;
   }
 
   /**
@@ -181,10 +190,10 @@ export class QueryAnalyzer {
 
   /**
    * Track a query execution.
-   * In production (disabled), this is a no-op.
+   * In production (disabled), only the `onQuery` hook runs.
    */
   track(sql: string, durationMs: number, requestId: string): void {
-    if (!this.enabled) return;
+    if (!this.enabled && !this.onQuery) return;
 
     const entry: TrackedQuery = {
       sql,
@@ -192,6 +201,8 @@ export class QueryAnalyzer {
       requestId,
       timestamp: Date.now(),
     };
+    this.onQuery?.(entry);
+    if (!this.enabled) return;
 
     const queries = this.queryMap.get(requestId) ?? [];
     queries.push(entry);
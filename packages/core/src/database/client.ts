@@ -9,6 +9,8 @@
  *   - idle_timeout: 30s (override with DB_POOL_IDLE_TIMEOUT)
  *   - connect_timeout: 10s (override with DB_POOL_CONNECT_TIMEOUT)
  *
+ * Every query runs in a span (see instrument.ts).
+ *
  * Usage in app:
  *   import { createDatabase } from '@vibeonrails/core/database';
  *   export const db = createDatabase();
@@ -17,6 +19,7 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from './schema/index.js';
+import { instrumentSql } from './instrument.js';
 
 export type Database = ReturnType<typeof createDatabase>;
 
@@ -66,5 +69,5 @@ export function createDatabase(connectionString?: string, poolOptions?: Database
     connect_timeout: connectTimeout,
   });
 
-  return drizzle(client, { schema });
+  return drizzle(instrumentSql(client), { schema });
 }
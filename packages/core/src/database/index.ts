@@ -3,6 +3,7 @@
  */
 
 export { createDatabase, type Database, type DatabasePoolOptions } from "./client.js";
+export { instrumentSql } from "./instrument.js";
 export { runMigrations } from "./migrate.js";
 export * from "./schema/index.js";
 export * from "./repositories/index.js";
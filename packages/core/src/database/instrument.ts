@@ -0,0 +1,91 @@
+/**
+ * Query Instrumentation
+ *
+ * Wraps a `postgres` client so every query Drizzle runs gets a client span,
+ * a child of the active span (request, procedure or job). Transactions and
+ * savepoints are wrapped too. `createDatabase()` applies this; use it
+ * directly for clients created elsewhere.
+ *
+ * Usage:
+ *   import { drizzle } from 'drizzle-orm/postgres-js';
+ *   import { instrumentSql } from '@vibeonrails/core/database';
+ *
+ *   const db = drizzle(instrumentSql(postgres(url)));
+ */
+
+import { startSpan } from "../tracing/tracer.js";
+
+/** Statement keyword, e.g. SELECT or BEGIN; OTHER when there is none */
+function operationOf(query: string): string {
+  return /^\s*(\w+)/.exec(query)?.[1]?.toUpperCase() ?? "OTHER";
+}
+
+function traceQuery<Q>(query: string, run: () => Q): Q {
+  const operation = operationOf(query);
+  const span = startSpan(operation, {
+    kind: "client",
+    attributes: {
+      "db.system": "postgresql",
+      "db.operation.name": operation,
+      // Parameterized: values are never part of the text
+      "db.query.text": query,
+    },
+  });
+
+  let result: Q;
+  try {
+    result = run();
+  } catch (error) {
+    span.recordException(error);
+    span.end();
+    throw error;
+  }
+
+  // A postgres query runs when first awaited. Promise.prototype.then
+  // observes it without the query's own `then`, so it still runs when
+  // (and how) Drizzle awaits it, e.g. after `.values()`.
+  if (result instanceof Promise) {
+    Promise.prototype.then.call(
+      result,
+      () => span.end(),
+      (error: unknown) => {
+        span.recordException(error);
+        span.end();
+      },
+    );
+  } else {
+    span.end();
+  }
+  return result;
+}
+
+/** Wrap the transaction callback so the transaction client is traced too */
+function wrapScopeArgs(args: unknown[]): unknown[] {
+  return args.map((arg) =>
+    typeof arg === "function"
+      ? (client: object, ...rest: unknown[]) => arg(instrumentSql(client), ...rest)
+      : arg,
+  );
+}
+
+/**
+ * Trace every query of a `postgres` client (`unsafe`, which Drizzle runs
+ * all queries through, and `begin`/`savepoint` transactions).
+ */
+export function instrumentSql<T extends object>(client: T): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") return value;
+
+      if (property === "unsafe") {
+        return (query: string, ...args: unknown[]) =>
+          traceQuery(query, () => value.call(target, query, ...args));
+      }
+      if (property === "begin" || property === "savepoint") {
+        return (...args: unknown[]) => value.apply(target, wrapScopeArgs(args));
+      }
+      return value;
+    },
+  });
+}
@@ -73,7 +73,7 @@ const ENV_DEFINITIONS: EnvVarDefinition[] = [
   {
     name: 'RESEND_API_KEY',
     required: false,
-    description: 'Resend API key for email sending',
+    description: 'Resend API key for email sending (without it or SMTP_HOST, dev emails go to .vibe/outbox)',
     hint: 'Get one at resend.com/api-keys',
     autoFixable: false,
   },
@@ -6,6 +6,7 @@
  * - Database: Drizzle ORM with PostgreSQL
  * - Security: JWT authentication + Argon2 password hashing + authorization guards
  * - Shared: Error classes, types, and utilities
+ * - Tracing: Spans with W3C traceparent propagation
  *
  * Import from sub-paths for tree-shaking:
  *   import { createServer } from '@vibeonrails/core/api';
@@ -25,3 +26,4 @@ export * from "./config/index.js";
 export * from "./manifest/index.js";
 export * from "./env/index.js";
 export * from "./conventions/index.js";
+export * from "./tracing/index.js";
@@ -13,7 +13,9 @@ export type AuditEventType =
   | "auth.session_revoke"
   | "data.create"
   | "data.update"
-  | "data.delete";
+  | "data.delete"
+  | "flag.toggle"
+  | "flag.override_remove";
 
 export interface AuditEvent {
   type: AuditEventType;
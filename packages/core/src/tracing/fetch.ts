@@ -0,0 +1,46 @@
+/**
+ * Traced Fetch
+ *
+ * `fetch` with a client span around the call and the propagation headers
+ * (`traceparent`, `x-request-id`) of that span added, so the downstream
+ * service continues the trace.
+ *
+ * Usage:
+ *   import { tracedFetch } from '@vibeonrails/core/tracing';
+ *
+ *   const res = await tracedFetch('https://api.stripe.com/v1/charges', { method: 'POST', body });
+ */
+
+import { getPropagationHeaders, withSpan } from "./tracer.js";
+
+/**
+ * Call `fetch` in a client span named `HTTP <method>`. Responses with status
+ * 500+ and network errors mark the span as failed.
+ */
+export async function tracedFetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+  const request = new Request(input, init);
+  const url = new URL(request.url);
+
+  return withSpan(
+    `HTTP ${request.method}`,
+    async (span) => {
+      const headers = new Headers(request.headers);
+      for (const [name, value] of Object.entries(getPropagationHeaders())) {
+        if (!headers.has(name)) headers.set(name, value);
+      }
+
+      const response = await fetch(new Request(request, { headers }));
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 500) span.setStatus("error", `HTTP ${response.status}`);
+      return response;
+    },
+    {
+      kind: "client",
+      attributes: {
+        "http.request.method": request.method,
+        "url.full": `${url.origin}${url.pathname}`,
+        "server.address": url.hostname,
+      },
+    },
+  );
+}
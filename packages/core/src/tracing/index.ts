@@ -0,0 +1,50 @@
+// Tracer
+export {
+  configureTracing,
+  addSpanProcessor,
+  getTracingResource,
+  flushTracing,
+  shutdownTracing,
+  startSpan,
+  withSpan,
+  runInSpan,
+  withTraceContext,
+  getActiveSpan,
+  getActiveSpanContext,
+  getTraceparent,
+  getPropagationHeaders,
+  getActiveRequestId,
+  endSpan,
+  setSpanAttributes,
+  clearSpans,
+  generateTraceId,
+  generateSpanId,
+  parseTraceparent,
+  formatTraceparent,
+  TRACEPARENT_HEADER,
+  REQUEST_ID_HEADER,
+  type Span,
+  type SpanContext,
+  type SpanKind,
+  type SpanAttributes,
+  type SpanAttributeValue,
+  type SpanStatus,
+  type SpanStatusCode,
+  type SpanEvent,
+  type SpanProcessor,
+  type StartSpanOptions,
+  type TracingConfig,
+} from "./tracer.js";
+
+// Processors
+export {
+  createSimpleSpanProcessor,
+  createBatchSpanProcessor,
+  createInMemorySpanExporter,
+  type SpanExporter,
+  type BatchSpanProcessorOptions,
+  type InMemorySpanExporter,
+} from "./processors.js";
+
+// Outbound HTTP
+export { tracedFetch } from "./fetch.js";
@@ -0,0 +1,154 @@
+/**
+ * Span Processors
+ *
+ * Processors receive ended spans and hand them to an exporter: the simple
+ * processor exports each span as it ends (tests, scripts), the batch
+ * processor buffers and exports on a timer or when the batch is full
+ * (servers). Export failures are logged, never thrown into request code.
+ *
+ * Usage:
+ *   import { configureTracing, createBatchSpanProcessor } from '@vibeonrails/core/tracing';
+ *   import { createOtlpTraceExporter } from '@vibeonrails/infra/monitoring';
+ *
+ *   configureTracing({
+ *     serviceName: 'api',
+ *     processors: [createBatchSpanProcessor(createOtlpTraceExporter())],
+ *   });
+ */
+
+import type { Span, SpanProcessor } from "./tracer.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Sends ended spans somewhere, e.g. an OTLP collector */
+export interface SpanExporter {
+  export(spans: readonly Span[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface BatchSpanProcessorOptions {
+  /** Spans per export (default: 512) */
+  maxBatchSize?: number;
+  /** Export buffered spans after this delay (default: 5000ms) */
+  scheduledDelayMs?: number;
+  /** Drop spans beyond this many buffered (default: 2048) */
+  maxQueueSize?: number;
+}
+
+export interface InMemorySpanExporter extends SpanExporter {
+  /** Spans exported so far */
+  readonly spans: Span[];
+  reset(): void;
+}
+
+function logExportError(error: unknown): void {
+  console.error(
+    `[AOR] Span export failed: ${error instanceof Error ? error.message : String(error)}`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Processors
+// ---------------------------------------------------------------------------
+
+/**
+ * Export every span as soon as it ends.
+ */
+export function createSimpleSpanProcessor(exporter: SpanExporter): SpanProcessor {
+  const pending = new Set<Promise<void>>();
+
+  return {
+    onEnd(span) {
+      const exported = exporter.export([span]).catch(logExportError);
+      pending.add(exported);
+      void exported.finally(() => pending.delete(exported));
+    },
+    async forceFlush() {
+      await Promise.all(pending);
+    },
+    async shutdown() {
+      await Promise.all(pending);
+      await exporter.shutdown?.();
+    },
+  };
+}
+
+/**
+ * Buffer ended spans and export them in batches.
+ */
+export function createBatchSpanProcessor(
+  exporter: SpanExporter,
+  options: BatchSpanProcessorOptions = {},
+): SpanProcessor {
+  const maxBatchSize = options.maxBatchSize ?? 512;
+  const scheduledDelayMs = options.scheduledDelayMs ?? 5000;
+  const maxQueueSize = options.maxQueueSize ?? 2048;
+
+  let queue: Span[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let exporting: Promise<void> = Promise.resolve();
+  let dropped = 0;
+
+  /** Export everything queued, one batch after another */
+  function drain(): Promise<void> {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+
+    exporting = exporting.then(async () => {
+      while (queue.length > 0) {
+        const batch = queue.slice(0, maxBatchSize);
+        queue = queue.slice(batch.length);
+        await exporter.export(batch).catch(logExportError);
+      }
+    });
+    return exporting;
+  }
+
+  return {
+    onEnd(span) {
+      if (queue.length >= maxQueueSize) {
+        if (dropped++ === 0) {
+          console.warn(
+            `[AOR] Span queue full (${maxQueueSize}), dropping spans.\n` +
+              `  Fix: Check the exporter endpoint, or raise maxQueueSize.`,
+          );
+        }
+        return;
+      }
+      queue.push(span);
+      if (queue.length >= maxBatchSize) {
+        void drain();
+      } else if (!timer) {
+        timer = setTimeout(() => void drain(), scheduledDelayMs);
+        timer.unref?.();
+      }
+    },
+    forceFlush: drain,
+    async shutdown() {
+      await drain();
+      await exporter.shutdown?.();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Exporters
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep exported spans in memory (for tests).
+ */
+export function createInMemorySpanExporter(): InMemorySpanExporter {
+  const spans: Span[] = [];
+  return {
+    spans,
+    async export(batch) {
+      spans.push(...batch);
+    },
+    reset() {
+      spans.length = 0;
+    },
+  };
+}
@@ -0,0 +1,350 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { initTRPC } from "@trpc/server";
+import {
+  configureTracing,
+  startSpan,
+  withSpan,
+  withTraceContext,
+  getActiveSpan,
+  getTraceparent,
+  getPropagationHeaders,
+  endSpan,
+  setSpanAttributes,
+  clearSpans,
+  parseTraceparent,
+  formatTraceparent,
+  flushTracing,
+  type Span,
+} from "./tracer.js";
+import {
+  createBatchSpanProcessor,
+  createInMemorySpanExporter,
+  createSimpleSpanProcessor,
+} from "./processors.js";
+import { tracedFetch } from "./fetch.js";
+import { instrumentSql } from "../database/instrument.js";
+import { publicProcedure, router } from "../api/trpc.js";
+
+const TRACEPARENT = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+describe("Tracer", () => {
+  const exporter = createInMemorySpanExporter();
+
+  beforeEach(() => {
+    clearSpans();
+    exporter.reset();
+    configureTracing({ serviceName: "test", processors: [createSimpleSpanProcessor(exporter)] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const names = () => exporter.spans.map((s) => s.name);
+
+  // -----------------------------------------------------------------------
+  // W3C Trace Context
+  // -----------------------------------------------------------------------
+
+  describe("traceparent", () => {
+    it("should parse a valid header", () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: "0af7651916cd43dd8448eb211c80319c",
+        spanId: "b7ad6b7169203331",
+        sampled: true,
+        isRemote: true,
+      });
+      expect(parseTraceparent("00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00")?.sampled).toBe(false);
+    });
+
+    it("should reject malformed headers", () => {
+      expect(parseTraceparent(undefined)).toBeUndefined();
+      expect(parseTraceparent("garbage")).toBeUndefined();
+      expect(parseTraceparent("00-00000000000000000000000000000000-b7ad6b7169203331-01")).toBeUndefined();
+      expect(parseTraceparent("00-0af7651916cd43dd8448eb211c80319c-0000000000000000-01")).toBeUndefined();
+      expect(parseTraceparent("ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01")).toBeUndefined();
+    });
+
+    it("should accept future versions with extra fields", () => {
+      expect(parseTraceparent(`01${TRACEPARENT.slice(2)}-extra`)?.spanId).toBe("b7ad6b7169203331");
+    });
+
+    it("should round-trip through formatTraceparent", () => {
+      expect(formatTraceparent(parseTraceparent(TRACEPARENT)!)).toBe(TRACEPARENT);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Active spans
+  // -----------------------------------------------------------------------
+
+  describe("withSpan", () => {
+    it("should parent spans through async calls without passing IDs", async () => {
+      const child = async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return withSpan("child", (span) => span);
+      };
+
+      const [parent, inner] = await withSpan("parent", async (span) => [span, await child()] as const);
+
+      expect(inner.traceId).toBe(parent.traceId);
+      expect(inner.parentSpanId).toBe(parent.spanId);
+      expect(parent.parentSpanId).toBeUndefined();
+      expect(names()).toEqual(["child", "parent"]);
+    });
+
+    it("should keep concurrent traces apart", async () => {
+      const run = (name: string) =>
+        withSpan(name, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return getActiveSpan()!.name;
+        });
+
+      expect(await Promise.all([run("a"), run("b")])).toEqual(["a", "b"]);
+      expect(getActiveSpan()).toBeUndefined();
+    });
+
+    it("should record errors and rethrow them", async () => {
+      await expect(
+        withSpan("fails", async () => {
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+
+      const [span] = exporter.spans;
+      expect(span!.status).toEqual({ code: "error", message: "boom" });
+      expect(span!.events[0]!.name).toBe("exception");
+      expect(span!.events[0]!.attributes?.["exception.type"]).toBe("Error");
+      expect(span!.endTime).toBeGreaterThanOrEqual(span!.startTime);
+    });
+
+    it("should end synchronous spans", () => {
+      expect(withSpan("sync", () => 42)).toBe(42);
+      expect(names()).toEqual(["sync"]);
+    });
+
+    it("should ignore changes after the span has ended", () => {
+      const span = startSpan("done");
+      span.end();
+      span.setAttribute("late", true).updateName("renamed").end();
+
+      expect(span.attributes).toEqual({});
+      expect(exporter.spans).toEqual([span]);
+    });
+  });
+
+  describe("withTraceContext", () => {
+    it("should continue a remote parent", () => {
+      const span = withTraceContext({ parent: parseTraceparent(TRACEPARENT) }, () =>
+        withSpan("server", (s) => s),
+      );
+
+      expect(span.traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+      expect(span.parentSpanId).toBe("b7ad6b7169203331");
+    });
+
+    it("should expose propagation headers for the active span", () => {
+      withTraceContext({ requestId: "req-1" }, () =>
+        withSpan("op", (span) => {
+          expect(getTraceparent()).toBe(`00-${span.traceId}-${span.spanId}-01`);
+          expect(getPropagationHeaders()).toEqual({
+            traceparent: getTraceparent(),
+            "x-request-id": "req-1",
+          });
+        }),
+      );
+      expect(getPropagationHeaders()).toEqual({});
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Sampling
+  // -----------------------------------------------------------------------
+
+  describe("sampling", () => {
+    it("should not export unsampled traces but still propagate them", () => {
+      configureTracing({ sampleRatio: 0 });
+
+      withSpan("root", (root) => {
+        const child = withSpan("child", (s) => s);
+        expect(root.sampled).toBe(false);
+        expect(child.sampled).toBe(false);
+        expect(getTraceparent()).toMatch(/-00$/);
+      });
+      expect(exporter.spans).toHaveLength(0);
+    });
+
+    it("should follow the remote parent's decision", () => {
+      configureTracing({ sampleRatio: 0 });
+      const span = withTraceContext({ parent: parseTraceparent(TRACEPARENT) }, () =>
+        withSpan("server", (s) => s),
+      );
+      expect(span.sampled).toBe(true);
+    });
+
+    it("should reject ratios outside 0-1", () => {
+      expect(() => configureTracing({ sampleRatio: 2 })).toThrow("sampleRatio");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Processors
+  // -----------------------------------------------------------------------
+
+  describe("createBatchSpanProcessor", () => {
+    it("should export when the batch is full or the delay passes", async () => {
+      vi.useFakeTimers();
+      const batches: Span[][] = [];
+      configureTracing({
+        processors: [
+          createBatchSpanProcessor(
+            { export: async (spans) => void batches.push([...spans]) },
+            { maxBatchSize: 2, scheduledDelayMs: 1000 },
+          ),
+        ],
+      });
+
+      for (const name of ["a", "b", "c"]) startSpan(name).end();
+      await flushTracing();
+      expect(batches.map((b) => b.length)).toEqual([2, 1]);
+
+      startSpan("d").end();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(batches).toHaveLength(3);
+    });
+
+    it("should drop spans beyond maxQueueSize", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const batches: Span[][] = [];
+      configureTracing({
+        processors: [
+          createBatchSpanProcessor(
+            { export: async (spans) => void batches.push([...spans]) },
+            { maxQueueSize: 2, scheduledDelayMs: 60_000 },
+          ),
+        ],
+      });
+
+      for (const name of ["a", "b", "c"]) startSpan(name).end();
+      await flushTracing();
+
+      expect(batches.flat().map((s) => s.name)).toEqual(["a", "b"]);
+      expect(warn).toHaveBeenCalledOnce();
+      warn.mockRestore();
+    });
+
+    it("should log export failures instead of throwing", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      configureTracing({
+        processors: [createBatchSpanProcessor({ export: () => Promise.reject(new Error("down")) })],
+      });
+
+      startSpan("a").end();
+      await expect(flushTracing()).resolves.toBeUndefined();
+      expect(error.mock.calls[0]![0]).toContain("down");
+      error.mockRestore();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Automatic spans
+  // -----------------------------------------------------------------------
+
+  describe("tracedFetch", () => {
+    it("should inject the client span's traceparent", async () => {
+      const fetchMock = vi.fn(async (_request: Request) => new Response("ok", { status: 503 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await withTraceContext({ requestId: "req-1" }, () =>
+        withSpan("parent", () => tracedFetch("https://api.example.com/v1/items?q=1", { method: "POST" })),
+      );
+
+      const [client, parent] = exporter.spans;
+      const sent = fetchMock.mock.calls[0]![0];
+      expect(sent.headers.get("traceparent")).toBe(`00-${client!.traceId}-${client!.spanId}-01`);
+      expect(sent.headers.get("x-request-id")).toBe("req-1");
+      expect(client!.name).toBe("HTTP POST");
+      expect(client!.kind).toBe("client");
+      expect(client!.parentSpanId).toBe(parent!.spanId);
+      expect(client!.attributes["url.full"]).toBe("https://api.example.com/v1/items");
+      expect(client!.status.code).toBe("error");
+    });
+  });
+
+  describe("instrumentSql", () => {
+    /** A postgres-like query: a promise that only runs when awaited */
+    class FakeQuery extends Promise<unknown[]> {
+      static get [Symbol.species]() {
+        return Promise;
+      }
+    }
+
+    it("should trace queries run through unsafe()", async () => {
+      const sql = instrumentSql({
+        unsafe: (query: string) => FakeQuery.resolve([{ query }]),
+        options: { parsers: {} },
+      });
+
+      await withSpan("request", () => sql.unsafe('select * from "users" where id = $1'));
+
+      const [query, request] = exporter.spans;
+      expect(query!.name).toBe("SELECT");
+      expect(query!.kind).toBe("client");
+      expect(query!.parentSpanId).toBe(request!.spanId);
+      expect(query!.attributes["db.query.text"]).toBe('select * from "users" where id = $1');
+      expect(sql.options).toEqual({ parsers: {} });
+    });
+
+    it("should trace failed queries and transaction clients", async () => {
+      const client = {
+        unsafe: (_query: string) => Promise.reject(new Error("relation missing")),
+        begin: <T>(fn: (tx: typeof client) => T) => fn(client),
+      };
+      const sql = instrumentSql(client);
+
+      await expect(sql.begin((tx) => tx.unsafe("insert into x values (1)"))).rejects.toThrow();
+
+      expect(exporter.spans[0]!.name).toBe("INSERT");
+      expect(exporter.spans[0]!.status.code).toBe("error");
+    });
+  });
+
+  describe("tRPC procedures", () => {
+    it("should run each call in a span", async () => {
+      const appRouter = router({
+        hello: publicProcedure.query(() => getActiveSpan()!.name),
+        fails: publicProcedure.mutation(() => {
+          throw new Error("nope");
+        }),
+      });
+      const caller = initTRPC.create().createCallerFactory(appRouter)({} as never);
+
+      expect(await caller.hello()).toBe("trpc hello");
+      await expect(caller.fails()).rejects.toThrow("nope");
+
+      const failed = exporter.spans.find((s) => s.name === "trpc fails")!;
+      expect(failed.attributes["rpc.trpc.type"]).toBe("mutation");
+      expect(failed.attributes["rpc.trpc.error_code"]).toBe("INTERNAL_SERVER_ERROR");
+      expect(failed.status.code).toBe("error");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Span ID helpers
+  // -----------------------------------------------------------------------
+
+  describe("span ID helpers", () => {
+    it("should look up, annotate and end open spans by ID", () => {
+      const parent = startSpan("parent");
+      const child = startSpan("child", parent.spanId);
+      setSpanAttributes(child.spanId, { step: 1 });
+
+      expect(child.parentSpanId).toBe(parent.spanId);
+      expect(getActiveSpan(child.spanId)?.attributes).toEqual({ step: 1 });
+      expect(endSpan(child.spanId)?.endTime).toBeGreaterThan(0);
+      expect(getActiveSpan(child.spanId)).toBeUndefined();
+      expect(endSpan("nonexistent")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * Tracer
+ *
+ * OpenTelemetry-compatible spans with W3C Trace Context (`traceparent`)
+ * propagation. The active span lives in AsyncLocalStorage, so spans started
+ * anywhere in a request or job become children of it without passing span
+ * IDs around.
+ *
+ * Ended, sampled spans go to the registered span processors, e.g. a batch
+ * processor with the OTLP exporter from `@vibeonrails/infra/monitoring`.
+ * Without processors, spans still carry IDs for propagation and logs.
+ *
+ * Usage:
+ *   import { withSpan, getActiveSpan } from '@vibeonrails/core/tracing';
+ *
+ *   const invoice = await withSpan('billing.createInvoice', async (span) => {
+ *     span.setAttribute('invoice.customer_id', customerId);
+ *     return createInvoice(customerId); // spans started in here are children
+ *   });
+ *
+ *   getActiveSpan()?.addEvent('cache.miss');
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatusCode = "unset" | "ok" | "error";
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch */
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/** The propagated identity of a span (W3C Trace Context) */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Whether the trace is sampled (the `01` flag) */
+  sampled: boolean;
+  /** Parsed from an incoming header rather than started here */
+  isRemote?: boolean;
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  /** Milliseconds since the epoch, sub-millisecond precision */
+  readonly startTime: number;
+  /** Set once the span has ended */
+  readonly endTime?: number;
+  readonly attributes: SpanAttributes;
+  readonly events: readonly SpanEvent[];
+  readonly status: SpanStatus;
+  /** Sampled spans are handed to the span processors when they end */
+  readonly sampled: boolean;
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): this;
+  setAttributes(attributes: SpanAttributes): this;
+  addEvent(name: string, attributes?: SpanAttributes): this;
+  setStatus(code: SpanStatusCode, message?: string): this;
+  /** Add an `exception` event and set the status to error */
+  recordException(error: unknown): this;
+  updateName(name: string): this;
+  /** End the span; later calls are ignored */
+  end(endTime?: number): void;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Parent span or remote context (default: the active span). Pass `null`
+   * to start a new trace.
+   */
+  parent?: Span | SpanContext | null;
+  /** Start time in ms since the epoch (default: now) */
+  startTime?: number;
+}
+
+/** Receives spans as they start and end (see processors.ts) */
+export interface SpanProcessor {
+  onStart?(span: Span): void;
+  onEnd(span: Span): void;
+  /** Export everything buffered */
+  forceFlush?(): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface TracingConfig {
+  /** `service.name` of the resource (default: OTEL_SERVICE_NAME, else 'vibeonrails') */
+  serviceName?: string;
+  /** More resource attributes, e.g. `deployment.environment` */
+  resource?: SpanAttributes;
+  /** Share of new traces to sample, 0-1 (default: 1); children follow their parent */
+  sampleRatio?: number;
+  /** Span processors; replaces the registered ones */
+  processors?: SpanProcessor[];
+}
+
+/** What AsyncLocalStorage carries through a request or job */
+interface TraceScope {
+  span?: Span;
+  /** Remote parent from an incoming traceparent, until a local span starts */
+  remote?: SpanContext;
+  requestId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// IDs and W3C Trace Context
+// ---------------------------------------------------------------------------
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+/** Header name for request ID propagation */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Generate a unique trace ID.
+ */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Generate a span ID.
+ */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a W3C `traceparent` header. Returns undefined for missing or
+ * malformed values (including all-zero IDs and version ff).
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | undefined {
+  const match = header ? TRACEPARENT.exec(header.trim().toLowerCase()) : null;
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (version === "ff" || (version === "00" && rest)) return undefined;
+  if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) return undefined;
+  return { traceId: traceId!, spanId: spanId!, sampled: (parseInt(flags!, 16) & 1) === 1, isRemote: true };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header value.
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+// ---------------------------------------------------------------------------
+// Tracer State
+// ---------------------------------------------------------------------------
+
+interface TracerState {
+  storage: AsyncLocalStorage<TraceScope>;
+  processors: SpanProcessor[];
+  sampleRatio: number;
+  resource: SpanAttributes;
+  /** Spans started but not ended, for lookups by ID */
+  openSpans: Map<string, Span>;
+}
+
+// Each entry point (core, core/api, core/tracing, ...) is bundled with its
+// own copy of this module; they must share one active context and config.
+const STATE_KEY = Symbol.for("vibeonrails.tracer");
+
+const state: TracerState = ((globalThis as Record<symbol, TracerState | undefined>)[STATE_KEY] ??= {
+  storage: new AsyncLocalStorage<TraceScope>(),
+  processors: [],
+  sampleRatio: 1,
+  resource: {},
+  openSpans: new Map(),
+});
+
+const { storage, openSpans } = state;
+
+/**
+ * Configure the tracer. Call once at startup, before serving requests.
+ */
+export function configureTracing(config: TracingConfig = {}): void {
+  if (config.sampleRatio !== undefined && !(config.sampleRatio >= 0 && config.sampleRatio <= 1)) {
+    throw new Error(
+      `[AOR] Tracing sampleRatio must be between 0 and 1, got ${config.sampleRatio}.\n` +
+        `  Fix: Use e.g. 0.1 to sample 10% of new traces.`,
+    );
+  }
+  state.sampleRatio = config.sampleRatio ?? 1;
+  state.resource = {
+    "service.name": config.serviceName ?? process.env.OTEL_SERVICE_NAME ?? "vibeonrails",
+    ...config.resource,
+  };
+  if (config.processors) state.processors = [...config.processors];
+}
+
+/**
+ * Add a span processor.
+ */
+export function addSpanProcessor(processor: SpanProcessor): void {
+  state.processors.push(processor);
+}
+
+/**
+ * Resource attributes of this process (`service.name`, ...).
+ */
+export function getTracingResource(): SpanAttributes {
+  return { "service.name": process.env.OTEL_SERVICE_NAME ?? "vibeonrails", ...state.resource };
+}
+
+/**
+ * Export every buffered span, e.g. before a serverless function returns.
+ */
+export async function flushTracing(): Promise<void> {
+  await Promise.all(state.processors.map((p) => p.forceFlush?.()));
+}
+
+/**
+ * Flush and shut down every processor, e.g. on SIGTERM.
+ */
+export async function shutdownTracing(): Promise<void> {
+  const current = state.processors;
+  state.processors = [];
+  await Promise.all(current.map((p) => p.shutdown?.()));
+}
+
+// ---------------------------------------------------------------------------
+// Spans
+// ---------------------------------------------------------------------------
+
+/** Epoch ms with sub-ms precision, monotonic within the process */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/** Sample new traces by their ID, so every service makes the same call */
+function shouldSample(traceId: string): boolean {
+  if (state.sampleRatio >= 1) return true;
+  if (state.sampleRatio <= 0) return false;
+  return parseInt(traceId.slice(-8), 16) / 0x100000000 < state.sampleRatio;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+class TracerSpan implements Span {
+  name: string;
+  endTime?: number;
+  readonly attributes: SpanAttributes = {};
+  readonly events: SpanEvent[] = [];
+  status: SpanStatus = { code: "unset" };
+
+  constructor(
+    name: string,
+    readonly kind: SpanKind,
+    readonly traceId: string,
+    readonly spanId: string,
+    readonly parentSpanId: string | undefined,
+    readonly sampled: boolean,
+    readonly startTime: number,
+  ) {
+    this.name = name;
+  }
+
+  spanContext(): SpanContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.sampled };
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    if (this.endTime === undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    if (this.endTime === undefined) this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    // An ok status is final
+    if (this.endTime === undefined && this.status.code !== "ok") this.status = { code, message };
+    return this;
+  }
+
+  recordException(error: unknown): this {
+    const attributes: SpanAttributes = { "exception.message": errorMessage(error) };
+    if (error instanceof Error) {
+      attributes["exception.type"] = error.name;
+      if (error.stack) attributes["exception.stacktrace"] = error.stack;
+    }
+    this.addEvent("exception", attributes);
+    return this.setStatus("error", errorMessage(error));
+  }
+
+  updateName(name: string): this {
+    if (this.endTime === undefined) this.name = name;
+    return this;
+  }
+
+  end(endTime: number = now()): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = Math.max(endTime, this.startTime);
+    openSpans.delete(this.spanId);
+    if (!this.sampled) return;
+    for (const processor of state.processors) processor.onEnd(this);
+  }
+}
+
+function isSpan(parent: Span | SpanContext): parent is Span {
+  return "startTime" in parent;
+}
+
+/**
+ * Start a span, a child of the active span unless `options.parent` says
+ * otherwise. The span is not made active; use `withSpan()` for that, and
+ * call `end()` when done.
+ *
+ * A string as second argument is the ID of an open parent span.
+ */
+export function startSpan(name: string, options: StartSpanOptions | string = {}): Span {
+  const resolved: StartSpanOptions =
+    typeof options === "string" ? { parent: openSpans.get(options) ?? null } : options;
+  const parent =
+    resolved.parent === undefined ? getActiveSpanContext() : resolved.parent ?? undefined;
+  const context = parent && (isSpan(parent) ? parent.spanContext() : parent);
+
+  const traceId = context?.traceId ?? generateTraceId();
+  const span = new TracerSpan(
+    name,
+    resolved.kind ?? "internal",
+    traceId,
+    generateSpanId(),
+    context?.spanId,
+    context ? context.sampled : shouldSample(traceId),
+    resolved.startTime ?? now(),
+  );
+  if (resolved.attributes) span.setAttributes(resolved.attributes);
+
+  openSpans.set(span.spanId, span);
+  if (span.sampled) for (const processor of state.processors) processor.onStart?.(span);
+  return span;
+}
+
+/**
+ * Run `fn` in a new active span. The span ends when `fn` returns or its
+ * promise settles; a thrown error is recorded on the span and rethrown.
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T, options: StartSpanOptions = {}): T {
+  const span = startSpan(name, options);
+  const fail = (error: unknown): never => {
+    span.recordException(error);
+    span.end();
+    throw error;
+  };
+
+  let result: T;
+  try {
+    result = runInSpan(span, () => fn(span));
+  } catch (error) {
+    return fail(error);
+  }
+  if (result instanceof Promise) {
+    return result.then((value: unknown) => {
+      span.end();
+      return value;
+    }, fail) as T;
+  }
+  span.end();
+  return result;
+}
+
+/**
+ * Run `fn` with `span` as the active span, without ending it.
+ */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), span, remote: undefined }, fn);
+}
+
+/**
+ * Run `fn` with a remote parent (e.g. from an incoming `traceparent`) and a
+ * request ID in the trace context. Spans started inside continue that trace.
+ */
+export function withTraceContext<T>(
+  context: { parent?: SpanContext; requestId?: string },
+  fn: () => T,
+): T {
+  const current = storage.getStore();
+  return storage.run(
+    {
+      span: context.parent ? undefined : current?.span,
+      remote: context.parent ?? current?.remote,
+      requestId: context.requestId ?? current?.requestId,
+    },
+    fn,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Active Context
+// ---------------------------------------------------------------------------
+
+/**
+ * The active span, or with an ID, the open span with that ID.
+ */
+export function getActiveSpan(spanId?: string): Span | undefined {
+  return spanId === undefined ? storage.getStore()?.span : openSpans.get(spanId);
+}
+
+/**
+ * Context of the active span, or of the remote parent when no local span
+ * has started.
+ */
+export function getActiveSpanContext(): SpanContext | undefined {
+  const scope = storage.getStore();
+  return scope?.span?.spanContext() ?? scope?.remote;
+}
+
+/**
+ * The `traceparent` header value to propagate the active trace.
+ */
+export function getTraceparent(): string | undefined {
+  const context = getActiveSpanContext();
+  return context ? formatTraceparent(context) : undefined;
+}
+
+/**
+ * Headers that carry the active trace and request ID to another service:
+ * `traceparent` and `x-request-id`. Empty outside a trace.
+ */
+export function getPropagationHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const traceparent = getTraceparent();
+  const requestId = getActiveRequestId();
+  if (traceparent) headers[TRACEPARENT_HEADER] = traceparent;
+  if (requestId) headers[REQUEST_ID_HEADER] = requestId;
+  return headers;
+}
+
+/**
+ * The request ID of the current request, when run inside the tracing
+ * middleware (or `withTraceContext()`).
+ */
+export function getActiveRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+// ---------------------------------------------------------------------------
+// Span ID helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * End an open span by ID.
+ */
+export function endSpan(spanId: string): Span | undefined {
+  const span = openSpans.get(spanId);
+  span?.end();
+  return span;
+}
+
+/**
+ * Add attributes to an open span by ID.
+ */
+export function setSpanAttributes(spanId: string, attributes: SpanAttributes): void {
+  openSpans.get(spanId)?.setAttributes(attributes);
+}
+
+/**
+ * Forget open spans and processors, and reset the configuration (for testing).
+ */
+export function clearSpans(): void {
+  openSpans.clear();
+  state.processors = [];
+  state.sampleRatio = 1;
+  state.resource = {};
+}
@@ -16,6 +16,7 @@ export default defineConfig({
     "api-keys/index": "src/api-keys/index.ts",
     "integrations/index": "src/integrations/index.ts",
     "conventions/index": "src/conventions/index.ts",
+    "tracing/index": "src/tracing/index.ts",
   },
   format: ["esm"],
   dts: true,
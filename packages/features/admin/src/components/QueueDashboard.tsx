@@ -0,0 +1,99 @@
+import React from "react";
+import { QUEUE_JOB_STATUSES, type QueueJob, type QueueSummary } from "../queues.js";
+
+export interface QueueDashboardProps {
+  queues: QueueSummary[];
+  jobs: QueueJob[];
+  onSelectQueue?: (name: string) => void;
+  onRetry?: (id: string) => void;
+  onDiscard?: (id: string) => void;
+  onPromote?: (id: string) => void;
+}
+
+const cell = { padding: "0.5rem", borderBottom: "1px solid #e5e7eb", textAlign: "left" as const };
+
+/**
+ * Job counts per queue and state, and a job list with retry, discard and promote.
+ */
+export function QueueDashboard({ queues, jobs, onSelectQueue, onRetry, onDiscard, onPromote }: QueueDashboardProps) {
+  return (
+    <div>
+      <h2>Queues</h2>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th style={cell}>Queue</th>
+            {QUEUE_JOB_STATUSES.map((status) => (
+              <th key={status} style={{ ...cell, textAlign: "right" }}>{status}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {queues.map((queue) => (
+            <tr key={queue.name}>
+              <td style={cell}>
+                {onSelectQueue ? <button onClick={() => onSelectQueue(queue.name)}>{queue.name}</button> : queue.name}
+              </td>
+              {QUEUE_JOB_STATUSES.map((status) => (
+                <td
+                  key={status}
+                  style={{ ...cell, textAlign: "right", color: status === "failed" && queue.counts[status] > 0 ? "#dc2626" : undefined }}
+                >
+                  {queue.counts[status] ?? 0}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 style={{ marginTop: "2rem" }}>Jobs</h2>
+      {jobs.length === 0 ? (
+        <p style={{ color: "#6b7280" }}>No jobs.</p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={cell}>ID</th>
+              <th style={cell}>Job</th>
+              <th style={cell}>Status</th>
+              <th style={cell}>Attempts</th>
+              <th style={cell}>Error</th>
+              <th style={{ ...cell, textAlign: "right" }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map((job) => (
+              <tr key={job.id}>
+                <td style={cell}>{job.id}</td>
+                <td style={cell}>{job.name}</td>
+                <td style={cell}>{job.status}</td>
+                <td style={cell}>{job.attemptsMade}</td>
+                <td style={cell}>
+                  {job.error}
+                  {job.stack && (
+                    <details>
+                      <summary>Stack trace</summary>
+                      <pre style={{ fontSize: "0.75rem", whiteSpace: "pre-wrap" }}>{job.stack}</pre>
+                    </details>
+                  )}
+                </td>
+                <td style={{ ...cell, textAlign: "right" }}>
+                  {job.status === "failed" && onRetry && (
+                    <button onClick={() => onRetry(job.id)}>Retry</button>
+                  )}
+                  {job.status === "delayed" && onPromote && (
+                    <button onClick={() => onPromote(job.id)} style={{ marginLeft: "0.5rem" }}>Run now</button>
+                  )}
+                  {job.status !== "active" && onDiscard && (
+                    <button onClick={() => onDiscard(job.id)} style={{ marginLeft: "0.5rem", color: "red" }}>Discard</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,26 @@ export { ResourceForm } from "./components/ResourceForm.js";
 export { ResourceDetail } from "./components/ResourceDetail.js";
 export { AdminDashboard } from "./components/Dashboard.js";
 export type { DashboardStat } from "./components/Dashboard.js";
+export { QueueDashboard } from "./components/QueueDashboard.js";
+export type { QueueDashboardProps } from "./components/QueueDashboard.js";
 
 // Hooks
 export { createResourceManager } from "./hooks/useResource.js";
 export type { UseResourceOptions } from "./hooks/useResource.js";
+
+// Queues
+export {
+  QUEUE_JOB_STATUSES,
+  defineQueueResource,
+  createQueueAdminClient,
+  createQueueResourceManager,
+} from "./queues.js";
+export type {
+  QueueJobStatus,
+  QueueJobAction,
+  QueueSummary,
+  QueueJob,
+  QueueJobFilter,
+  QueueAdminClientOptions,
+  QueueAdminClient,
+} from "./queues.js";
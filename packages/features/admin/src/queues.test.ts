@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { defineQueueResource, createQueueAdminClient, createQueueResourceManager } from "./queues.js";
+
+function fakeFetch(routes: Record<string, unknown>) {
+  const calls: string[] = [];
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const key = `${init?.method ?? "GET"} ${url}`;
+    calls.push(key);
+    if (!(key in routes)) return new Response(JSON.stringify({ error: "Not found" }), { status: 404 });
+    return new Response(JSON.stringify(routes[key]), { status: 200 });
+  }) as typeof fetch;
+  return { calls, fetchFn };
+}
+
+describe("Queue resource", () => {
+  it("defines a read-only resource", () => {
+    const resource = defineQueueResource();
+    expect(resource.path).toBe("queues");
+    expect(resource.createable).toBe(false);
+    expect(resource.editable).toBe(false);
+    expect(resource.deleteable).toBe(true);
+    expect(resource.columns.map((c) => c.key)).toEqual(["id", "name", "status", "attemptsMade", "error"]);
+  });
+
+  it("fetches jobs with filters", async () => {
+    const { calls, fetchFn } = fakeFetch({ "GET /admin/queues/jobs?status=failed": { jobs: [{ id: "1" }] } });
+    const client = createQueueAdminClient({ fetch: fetchFn });
+    expect(await client.jobs({ status: "failed" })).toEqual([{ id: "1" }]);
+    expect(calls).toEqual(["GET /admin/queues/jobs?status=failed"]);
+  });
+
+  it("surfaces endpoint errors", async () => {
+    const { fetchFn } = fakeFetch({});
+    const client = createQueueAdminClient({ baseUrl: "https://app/admin/queues/", fetch: fetchFn });
+    await expect(client.job("x")).rejects.toThrow("Not found");
+  });
+
+  it("retries, promotes and discards through the manager, then refetches", async () => {
+    const { calls, fetchFn } = fakeFetch({
+      "GET /admin/queues/jobs?status=failed": { jobs: [] },
+      "POST /admin/queues/jobs/1/retry": { ok: true },
+      "POST /admin/queues/jobs/2/promote": { ok: true },
+      "POST /admin/queues/jobs/3/discard": { ok: true },
+    });
+    const manager = createQueueResourceManager(createQueueAdminClient({ fetch: fetchFn }), { status: "failed" });
+
+    await manager.retry("1");
+    await manager.promote("2");
+    await manager.remove("3");
+
+    expect(calls.filter((c) => c.startsWith("POST"))).toEqual([
+      "POST /admin/queues/jobs/1/retry",
+      "POST /admin/queues/jobs/2/promote",
+      "POST /admin/queues/jobs/3/discard",
+    ]);
+    expect(calls.filter((c) => c.startsWith("GET"))).toHaveLength(3);
+    expect(manager.getError()).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Queue Resource
+ *
+ * Background jobs in the admin panel. Reads the queue admin endpoint served
+ * by `createQueueAdminHandler()` from `@vibeonrails/infra/queue`.
+ */
+
+import { defineResource, type ResourceConfig } from "./config.js";
+import { createResourceManager } from "./hooks/useResource.js";
+
+export const QUEUE_JOB_STATUSES = [
+  "waiting",
+  "delayed",
+  "waiting-children",
+  "active",
+  "completed",
+  "failed",
+] as const;
+export type QueueJobStatus = (typeof QUEUE_JOB_STATUSES)[number];
+
+export type QueueJobAction = "retry" | "discard" | "promote";
+
+export interface QueueSummary {
+  name: string;
+  counts: Record<QueueJobStatus, number>;
+}
+
+export interface QueueJob {
+  id: string;
+  name: string;
+  data: unknown;
+  status: QueueJobStatus;
+  attemptsMade: number;
+  runAt: number;
+  createdAt: number;
+  finishedAt?: number;
+  error?: string;
+  stack?: string;
+}
+
+export interface QueueJobFilter {
+  name?: string;
+  status?: QueueJobStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QueueAdminClientOptions {
+  /** Queue admin endpoint (default: "/admin/queues") */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface QueueAdminClient {
+  queues: () => Promise<QueueSummary[]>;
+  jobs: (filter?: QueueJobFilter) => Promise<QueueJob[]>;
+  job: (id: string) => Promise<QueueJob>;
+  action: (id: string, action: QueueJobAction) => Promise<void>;
+}
+
+/**
+ * Define the queue resource: a read-only job list where failed jobs can be
+ * retried, delayed jobs promoted, and jobs discarded.
+ */
+export function defineQueueResource(overrides: Partial<ResourceConfig> = {}): ResourceConfig {
+  return defineResource({
+    name: "Jobs",
+    path: "queues",
+    columns: [
+      { key: "id", label: "ID" },
+      { key: "name", label: "Job" },
+      { key: "status", label: "Status", sortable: true },
+      { key: "attemptsMade", label: "Attempts", sortable: true },
+      { key: "error", label: "Error" },
+    ],
+    createable: false,
+    editable: false,
+    ...overrides,
+  });
+}
+
+/**
+ * Client for the queue admin endpoint.
+ */
+export function createQueueAdminClient(options: QueueAdminClientOptions = {}): QueueAdminClient {
+  const baseUrl = (options.baseUrl ?? "/admin/queues").replace(/\/+$/, "");
+  const fetchFn = options.fetch ?? fetch;
+
+  const request = async <T>(path: string, method = "GET"): Promise<T> => {
+    const res = await fetchFn(`${baseUrl}${path}`, { method, headers: options.headers });
+    const body = (await res.json().catch(() => ({}))) as T & { error?: string };
+    if (!res.ok) throw new Error(body.error ?? `Request failed with status ${res.status}`);
+    return body;
+  };
+
+  return {
+    queues: async () => (await request<{ queues: QueueSummary[] }>("")).queues,
+    jobs: async (filter = {}) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filter)) {
+        if (value !== undefined) params.set(key, String(value));
+      }
+      const search = params.toString();
+      return (await request<{ jobs: QueueJob[] }>(`/jobs${search ? `?${search}` : ""}`)).jobs;
+    },
+    job: async (id) => (await request<{ job: QueueJob }>(`/jobs/${encodeURIComponent(id)}`)).job,
+    action: async (id, action) => {
+      await request(`/jobs/${encodeURIComponent(id)}/${action}`, "POST");
+    },
+  };
+}
+
+/**
+ * Resource manager for the queue resource. `remove` discards a job; use
+ * `retry` and `promote` for the other actions. Each refetches the list.
+ */
+export function createQueueResourceManager(client: QueueAdminClient, filter: QueueJobFilter = {}) {
+  const manager = createResourceManager({
+    fetchFn: async () => (await client.jobs(filter)) as unknown as Record<string, unknown>[],
+    deleteFn: (id) => client.action(id, "discard"),
+  });
+
+  return {
+    ...manager,
+    retry: async (id: string) => {
+      await client.action(id, "retry");
+      await manager.refetch();
+    },
+    promote: async (id: string) => {
+      await client.action(id, "promote");
+      await manager.refetch();
+    },
+  };
+}
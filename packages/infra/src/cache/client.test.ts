@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createCache, resolveCacheDriverName } from "./client.js";
+import type { CacheRedisLike } from "./redis.js";
+
+describe("resolveCacheDriverName", () => {
+  it("uses CACHE_DRIVER when set", () => {
+    expect(resolveCacheDriverName({}, { CACHE_DRIVER: "memory", REDIS_URL: "redis://x" })).toBe("memory");
+    expect(() => resolveCacheDriverName({}, { CACHE_DRIVER: "memcached" })).toThrow(
+      "CACHE_DRIVER to one of: redis, memory",
+    );
+  });
+
+  it("uses Redis when configured or in production, memory otherwise", () => {
+    expect(resolveCacheDriverName({}, { REDIS_URL: "redis://x" })).toBe("redis");
+    expect(resolveCacheDriverName({ url: "redis://x" }, {})).toBe("redis");
+    expect(resolveCacheDriverName({}, { NODE_ENV: "production" })).toBe("redis");
+    expect(resolveCacheDriverName({}, {})).toBe("memory");
+  });
+
+  it("requires REDIS_URL for the redis driver", () => {
+    vi.stubEnv("REDIS_URL", "");
+    expect(() => createCache({ driver: "redis" })).toThrow("REDIS_URL environment variable is required");
+    vi.unstubAllEnvs();
+  });
+});
+
+describe("createCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores JSON values with a TTL", async () => {
+    vi.useFakeTimers();
+    const cache = createCache({ driver: "memory" });
+
+    await cache.set("user:1", { name: "Ada" }, 60);
+    expect(await cache.get("user:1")).toEqual({ name: "Ada" });
+    expect(await cache.exists("user:1")).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    expect(await cache.get("user:1")).toBeNull();
+    await expect(cache.set("x", undefined)).rejects.toThrow('Cannot cache undefined under "x"');
+  });
+
+  describe("getOrSet", () => {
+    it("runs one load for concurrent misses and caches the result", async () => {
+      const cache = createCache({ driver: "memory" });
+      let release!: (value: number) => void;
+      const load = vi.fn(() => new Promise<number>((resolve) => (release = resolve)));
+
+      const calls = [cache.getOrSet("n", load), cache.getOrSet("n", load), cache.getOrSet("n", load)];
+      await vi.waitFor(() => expect(load).toHaveBeenCalled());
+      release(42);
+
+      expect(await Promise.all(calls)).toEqual([42, 42, 42]);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(await cache.getOrSet("n", load)).toBe(42);
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("caches null but not failures or undefined", async () => {
+      const cache = createCache({ driver: "memory" });
+
+      await expect(cache.getOrSet("e", () => Promise.reject(new Error("db down")))).rejects.toThrow("db down");
+      expect(await cache.getOrSet("e", () => "ok")).toBe("ok");
+
+      const load = vi.fn(() => null);
+      await cache.getOrSet("nothing", load);
+      await cache.getOrSet("nothing", load);
+      expect(load).toHaveBeenCalledTimes(1);
+
+      expect(await cache.getOrSet("u", () => undefined)).toBeUndefined();
+      expect(await cache.exists("u")).toBe(false);
+    });
+  });
+
+  it("invalidates entries by tag", async () => {
+    const cache = createCache({ driver: "memory" });
+    await cache.set("profile:1", { id: 1 }, { tags: ["user:1"] });
+    await cache.getOrSet("posts:1", () => [1, 2], { ttl: 60, tags: ["user:1", "posts"] });
+    await cache.set("profile:2", { id: 2 }, { tags: ["user:2"] });
+
+    expect(await cache.invalidateTags("user:1")).toBe(2);
+    expect(await cache.get("profile:1")).toBeNull();
+    expect(await cache.get("posts:1")).toBeNull();
+    expect(await cache.get("profile:2")).toEqual({ id: 2 });
+  });
+
+  it("isolates namespaces, including flush and tags", async () => {
+    const cache = createCache({ driver: "memory", namespace: "app" });
+    const sessions = cache.withNamespace("sessions");
+
+    await cache.set("k", "root", { tags: ["t"] });
+    await sessions.set("k", "session", { tags: ["t"] });
+
+    expect(sessions.namespace).toBe("app:sessions");
+    expect(await cache.get("k")).toBe("root");
+    expect(await sessions.get("k")).toBe("session");
+
+    expect(await sessions.invalidateTags("t")).toBe(1);
+    expect(await cache.get("k")).toBe("root");
+
+    await sessions.set("k", "session");
+    await sessions.flush();
+    expect(await sessions.get("k")).toBeNull();
+    expect(await cache.get("k")).toBe("root");
+    expect(() => cache.withNamespace("a:b")).toThrow("Invalid cache namespace");
+  });
+
+  describe("local tier", () => {
+    function countingRedis(): CacheRedisLike & { reads: number; store: Map<string, string> } {
+      const store = new Map<string, string>();
+      const sets = new Map<string, Set<string>>();
+      const fake = {
+        reads: 0,
+        store,
+        async get(key: string) {
+          fake.reads++;
+          return store.get(key) ?? null;
+        },
+        async set(key: string, value: string) {
+          store.set(key, value);
+          return "OK";
+        },
+        async del(...keys: string[]) {
+          for (const key of keys) {
+            store.delete(key);
+            sets.delete(key);
+          }
+          return keys.length;
+        },
+        async exists(key: string) {
+          return store.has(key) ? 1 : 0;
+        },
+        async sadd(key: string, ...members: string[]) {
+          const set = sets.get(key) ?? new Set();
+          members.forEach((member) => set.add(member));
+          sets.set(key, set);
+          return members.length;
+        },
+        multi() {
+          const queued: Array<() => Promise<unknown>> = [];
+          const pipeline = {
+            set(key: string, value: string) {
+              queued.push(() => fake.set(key, value));
+              return pipeline;
+            },
+            eval(_script: string, _numKeys: number, tag: string | number, key: string | number) {
+              queued.push(() => fake.sadd(String(tag), String(key)));
+              return pipeline;
+            },
+            async exec() {
+              const results: Array<[Error | null, unknown]> = [];
+              for (const run of queued) results.push([null, await run()]);
+              return results;
+            },
+          };
+          return pipeline;
+        },
+        async smembers(key: string) {
+          return [...(sets.get(key) ?? [])];
+        },
+        async scan() {
+          return ["0", [...store.keys()]] as [string, string[]];
+        },
+        async flushdb() {
+          store.clear();
+        },
+        async quit() {},
+      };
+      return fake;
+    }
+
+    it("answers hot keys from process memory until its TTL", async () => {
+      vi.useFakeTimers();
+      const redis = countingRedis();
+      const cache = createCache({ redis, local: { ttl: 5 } });
+
+      await cache.set("k", { v: 1 }, 60);
+      redis.store.set("k", JSON.stringify({ v: 2 })); // changed by another instance
+
+      expect(await cache.get("k")).toEqual({ v: 1 });
+      expect(redis.reads).toBe(0);
+
+      vi.advanceTimersByTime(5_000);
+      expect(await cache.get("k")).toEqual({ v: 2 });
+      expect(redis.reads).toBe(1);
+    });
+
+    it("drops local entries on delete and tag invalidation", async () => {
+      const redis = countingRedis();
+      const cache = createCache({ redis, local: true });
+
+      await cache.set("a", 1, { tags: ["t"] });
+      await cache.set("b", 2);
+      await cache.invalidateTags("t");
+      await cache.delete("b");
+
+      expect(await cache.get("a")).toBeNull();
+      expect(await cache.get("b")).toBeNull();
+      expect(redis.reads).toBe(2);
+    });
+  });
+});
@@ -1,82 +1,297 @@
 /**
  * Cache Client
  *
- * Provides a Redis-based caching layer using ioredis.
- * Supports get/set/delete with automatic JSON serialization and TTL.
+ * JSON caching with TTLs, tag-based invalidation, key namespaces and
+ * single-flight `getOrSet()`, over a Redis or in-memory driver. An optional
+ * in-process LRU tier answers hot keys without a round trip to Redis.
+ *
+ * The driver is picked from `CACHE_DRIVER` (`redis` | `memory`) unless set
+ * in the config. Without it, Redis is used when `REDIS_URL` is set or in
+ * production, and the in-memory driver otherwise — so `vibe dev` and tests
+ * run without Redis.
  *
  * Usage:
  *   import { createCache } from '@vibeonrails/infra/cache';
  *
- *   const cache = createCache();
+ *   const cache = createCache({ namespace: 'myapp', local: { maxEntries: 1_000, ttl: 5 } });
  *   await cache.set('user:123', userData, 3600); // TTL in seconds
  *   const user = await cache.get('user:123');
+ *
+ *   // Load once per key, even under concurrent misses
+ *   const profile = await cache.getOrSet(`profile:${id}`, () => loadProfile(id), {
+ *     ttl: 300,
+ *     tags: [`user:${id}`],
+ *   });
+ *   await cache.invalidateTags(`user:${id}`);
+ *
+ *   const sessions = cache.withNamespace('sessions'); // keys under myapp:sessions:
  */
 
-import Redis from 'ioredis';
+import {
+  CACHE_DRIVERS,
+  createLruMap,
+  type CacheDriver,
+  type CacheDriverName,
+  type LruMap,
+} from './driver.js';
+import { createMemoryCacheDriver, type MemoryCacheDriverConfig } from './memory.js';
+import { createRedisCacheDriver, type CacheRedisLike } from './redis.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CacheSetOptions {
+  /** Lifetime in seconds (default: the cache's defaultTtl, else no expiry) */
+  ttl?: number;
+  /** Tags to invalidate the entry by with `invalidateTags()` */
+  tags?: string[];
+}
+
+export interface LocalCacheTierConfig {
+  /** Entries held in process memory (default: 1,000) */
+  maxEntries?: number;
+  /** Seconds an entry is served from process memory before Redis is read again (default: 5) */
+  ttl?: number;
+}
+
+export interface CacheConfig {
+  /** Driver (default: from CACHE_DRIVER / REDIS_URL) */
+  driver?: CacheDriverName;
+  /** Redis connection URL (default: REDIS_URL) */
+  url?: string;
+  /** Redis client instance instead of a URL */
+  redis?: CacheRedisLike;
+  /** Options of the memory driver */
+  memory?: MemoryCacheDriverConfig;
+  /** Prefix for every key, e.g. the app name (default: CACHE_NAMESPACE) */
+  namespace?: string;
+  /** TTL in seconds for entries set without one */
+  defaultTtl?: number;
+  /** In-process LRU tier in front of the driver (default: off) */
+  local?: LocalCacheTierConfig | boolean;
+}
 
 export interface CacheClient {
+  /** Key prefix of this client ('' when none) */
+  readonly namespace: string;
   get<T>(key: string): Promise<T | null>;
-  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  /** Store a value; pass a number as shorthand for `{ ttl }` */
+  set<T>(key: string, value: T, options?: number | CacheSetOptions): Promise<void>;
+  /**
+   * Return the cached value, or load, store and return it. Concurrent calls
+   * for the same key in this process share one `load()`; a failed load is
+   * not cached and `undefined` is returned without being stored.
+   */
+  getOrSet<T>(key: string, load: () => T | Promise<T>, options?: number | CacheSetOptions): Promise<T>;
   delete(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
+  /** Delete every entry set with one of the tags; returns how many were deleted */
+  invalidateTags(tags: string | string[]): Promise<number>;
+  /** A client for keys under `<namespace>:<name>:`, sharing this connection */
+  withNamespace(name: string): CacheClient;
+  /** Delete every key in this namespace (the whole database without one) */
   flush(): Promise<void>;
   disconnect(): Promise<void>;
 }
 
+interface LocalEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/** State shared by a cache and the clients from `withNamespace()` */
+interface CacheState {
+  driver: CacheDriver;
+  local?: LruMap<LocalEntry>;
+  localTtl: number;
+  defaultTtl?: number;
+  inflight: Map<string, Promise<unknown>>;
+}
+
+// ---------------------------------------------------------------------------
+// Driver selection
+// ---------------------------------------------------------------------------
+
 /**
- * Create a Redis cache client.
- *
- * @param redisUrl - Redis connection URL (default: REDIS_URL env var)
- * @returns Cache client with get/set/delete operations
+ * Pick the driver name from the config and environment.
  */
-export function createCache(redisUrl?: string): CacheClient {
-  const url = redisUrl ?? process.env.REDIS_URL;
-
-  if (!url) {
-    throw new Error(
-      '[AOR] REDIS_URL environment variable is required for caching.\n' +
-      '  Fix: Add REDIS_URL to your .env file.\n' +
-      '  Example: REDIS_URL=redis://localhost:6379',
-    );
+export function resolveCacheDriverName(
+  config: CacheConfig = {},
+  env: NodeJS.ProcessEnv = process.env,
+): CacheDriverName {
+  if (config.driver) return config.driver;
+  const explicit = env.CACHE_DRIVER;
+  if (explicit) {
+    if (!(CACHE_DRIVERS as readonly string[]).includes(explicit)) {
+      throw new Error(
+        `[AOR] Unknown CACHE_DRIVER "${explicit}".\n` +
+          `  Fix: Set CACHE_DRIVER to one of: ${CACHE_DRIVERS.join(', ')}`,
+      );
+    }
+    return explicit as CacheDriverName;
+  }
+  return config.url || config.redis || env.REDIS_URL || env.NODE_ENV === 'production' ? 'redis' : 'memory';
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+function serialize(key: string, value: unknown): string {
+  if (value === undefined) {
+    throw new Error(`[AOR] Cannot cache undefined under "${key}".\n  Fix: Cache null instead, or skip the set.`);
+  }
+  return JSON.stringify(value);
+}
+
+function deserialize<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    // Written by something other than this client
+    return raw as unknown as T;
+  }
+}
+
+function resolveSetOptions(options: number | CacheSetOptions | undefined, defaultTtl?: number): CacheSetOptions {
+  const resolved = typeof options === 'number' ? { ttl: options } : { ...options };
+  resolved.ttl ??= defaultTtl;
+  if (resolved.ttl !== undefined && !(resolved.ttl >= 0)) {
+    throw new Error(`[AOR] Cache TTL must be a number of seconds >= 0, got ${resolved.ttl}`);
+  }
+  return resolved;
+}
+
+function createClient(state: CacheState, namespace: string): CacheClient {
+  const prefix = namespace ? `${namespace}:` : '';
+  const keyOf = (key: string) => {
+    if (!key) throw new Error('[AOR] Cache key must not be empty');
+    return prefix + key;
+  };
+  // Tag sets live in the namespace, so flush() removes them too
+  const tagOf = (tag: string) => `${prefix}__tags:${tag}`;
+
+  function cacheLocally(key: string, value: string, ttl?: number): void {
+    if (!state.local) return;
+    const seconds = ttl ? Math.min(ttl, state.localTtl) : state.localTtl;
+    state.local.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
   }
 
-  const redis = new Redis(url);
+  async function read(key: string): Promise<string | null> {
+    const local = state.local?.get(key);
+    if (local) {
+      if (local.expiresAt > Date.now()) return local.value;
+      state.local!.delete(key);
+    }
+    const raw = await state.driver.get(key);
+    if (raw !== null) cacheLocally(key, raw);
+    return raw;
+  }
+
+  async function write(key: string, value: unknown, options?: number | CacheSetOptions): Promise<void> {
+    const { ttl, tags = [] } = resolveSetOptions(options, state.defaultTtl);
+    const raw = serialize(key, value);
+    await state.driver.set(key, raw, { ttl: ttl || undefined, tags: tags.map(tagOf) });
+    cacheLocally(key, raw, ttl);
+  }
 
   return {
+    namespace,
+
     async get<T>(key: string): Promise<T | null> {
-      const raw = await redis.get(key);
-      if (!raw) return null;
-      try {
-        return JSON.parse(raw) as T;
-      } catch {
-        return raw as unknown as T;
-      }
+      const raw = await read(keyOf(key));
+      return raw === null ? null : deserialize<T>(raw);
     },
 
-    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
-      const serialized = JSON.stringify(value);
-      if (ttlSeconds) {
-        await redis.setex(key, ttlSeconds, serialized);
-      } else {
-        await redis.set(key, serialized);
-      }
+    async set(key, value, options) {
+      await write(keyOf(key), value, options);
     },
 
-    async delete(key: string): Promise<void> {
-      await redis.del(key);
+    getOrSet<T>(key: string, load: () => T | Promise<T>, options?: number | CacheSetOptions): Promise<T> {
+      const full = keyOf(key);
+      // Registered before the first await, so concurrent callers join this load
+      const pending = state.inflight.get(full);
+      if (pending) return pending as Promise<T>;
+
+      const promise = (async () => {
+        try {
+          const raw = await read(full);
+          if (raw !== null) return deserialize<T>(raw);
+          const value = await load();
+          if (value !== undefined) await write(full, value, options);
+          return value;
+        } finally {
+          state.inflight.delete(full);
+        }
+      })();
+      state.inflight.set(full, promise);
+      return promise;
     },
 
-    async exists(key: string): Promise<boolean> {
-      const result = await redis.exists(key);
-      return result === 1;
+    async delete(key) {
+      const full = keyOf(key);
+      state.local?.delete(full);
+      await state.driver.delete([full]);
     },
 
-    async flush(): Promise<void> {
-      await redis.flushdb();
+    async exists(key) {
+      const full = keyOf(key);
+      const local = state.local?.get(full);
+      if (local && local.expiresAt > Date.now()) return true;
+      return state.driver.exists(full);
     },
 
-    async disconnect(): Promise<void> {
-      await redis.quit();
+    async invalidateTags(tags) {
+      const list = Array.isArray(tags) ? tags : [tags];
+      const keys = await state.driver.invalidateTags(list.map(tagOf));
+      for (const key of keys) state.local?.delete(key);
+      return keys.length;
+    },
+
+    withNamespace(name) {
+      if (!name || name.includes(':')) {
+        throw new Error(`[AOR] Invalid cache namespace "${name}".\n  Fix: Use a non-empty name without ':'.`);
+      }
+      return createClient(state, prefix + name);
+    },
+
+    async flush() {
+      for (const key of state.local?.keys() ?? []) {
+        if (key.startsWith(prefix)) state.local!.delete(key);
+      }
+      await state.driver.clear(prefix);
+    },
+
+    async disconnect() {
+      state.local?.clear();
+      await state.driver.disconnect();
     },
   };
 }
+
+/**
+ * Create a cache client.
+ *
+ * @param config - Cache configuration, or a Redis URL (defaults to env vars)
+ * @returns Cache client with get/set/getOrSet/delete and tag invalidation
+ */
+export function createCache(config: string | CacheConfig = {}): CacheClient {
+  const options = typeof config === 'string' ? { url: config } : config;
+  const driver =
+    resolveCacheDriverName(options) === 'redis'
+      ? createRedisCacheDriver({ url: options.url, client: options.redis })
+      : createMemoryCacheDriver(options.memory);
+
+  const local = options.local === true ? {} : options.local || undefined;
+  const state: CacheState = {
+    driver,
+    local: local ? createLruMap<LocalEntry>(local.maxEntries ?? 1_000) : undefined,
+    localTtl: local?.ttl ?? 5,
+    defaultTtl: options.defaultTtl,
+    inflight: new Map(),
+  };
+
+  const namespace = options.namespace ?? process.env.CACHE_NAMESPACE ?? '';
+  return createClient(state, namespace.replace(/:+$/, ''));
+}
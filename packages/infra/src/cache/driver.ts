@@ -0,0 +1,100 @@
+/**
+ * Cache Driver
+ *
+ * The storage interface behind `createCache()`. Drivers store serialized
+ * values under fully-qualified keys; namespacing, serialization, the
+ * in-process tier and single-flight loading live in the client.
+ *
+ * Drivers:
+ * - `createRedisCacheDriver()` — Redis via ioredis (shared across instances)
+ * - `createMemoryCacheDriver()` — bounded in-process LRU (tests, single-node deploys)
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const CACHE_DRIVERS = ['redis', 'memory'] as const;
+export type CacheDriverName = (typeof CACHE_DRIVERS)[number];
+
+export interface CacheDriverSetOptions {
+  /** Lifetime in seconds (none: no expiry) */
+  ttl?: number;
+  /** Tag keys the entry is filed under */
+  tags?: string[];
+}
+
+export interface CacheDriver {
+  readonly name: CacheDriverName;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: CacheDriverSetOptions): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  /** Delete every entry filed under one of the tag keys; returns the deleted keys */
+  invalidateTags(tags: string[]): Promise<string[]>;
+  /** Delete every key starting with the prefix (`''`: everything) */
+  clear(prefix: string): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// LRU
+// ---------------------------------------------------------------------------
+
+export interface LruMap<V> {
+  readonly size: number;
+  /** Get a value and mark it as most recently used */
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): boolean;
+  keys(): string[];
+  clear(): void;
+}
+
+/**
+ * A Map bounded to `maxEntries`, evicting the least recently used entry.
+ * `onEvict` is called for entries dropped to make room (not for deletes).
+ */
+export function createLruMap<V>(maxEntries: number, onEvict?: (key: string, value: V) => void): LruMap<V> {
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`[AOR] Cache maxEntries must be a positive integer, got ${maxEntries}`);
+  }
+  // Map iterates in insertion order, so the first key is the least recently used
+  const map = new Map<string, V>();
+
+  return {
+    get size() {
+      return map.size;
+    },
+
+    get(key) {
+      const value = map.get(key);
+      if (value === undefined) return undefined;
+      map.delete(key);
+      map.set(key, value);
+      return value;
+    },
+
+    set(key, value) {
+      map.delete(key);
+      map.set(key, value);
+      while (map.size > maxEntries) {
+        const [oldest, evicted] = map.entries().next().value as [string, V];
+        map.delete(oldest);
+        onEvict?.(oldest, evicted);
+      }
+    },
+
+    delete(key) {
+      return map.delete(key);
+    },
+
+    keys() {
+      return [...map.keys()];
+    },
+
+    clear() {
+      map.clear();
+    },
+  };
+}
@@ -2,4 +2,26 @@
  * Cache module barrel export
  */
 
-export { createCache, type CacheClient } from './client.js';
+export {
+  createCache,
+  resolveCacheDriverName,
+  type CacheClient,
+  type CacheConfig,
+  type CacheSetOptions,
+  type LocalCacheTierConfig,
+} from './client.js';
+export {
+  CACHE_DRIVERS,
+  createLruMap,
+  type CacheDriver,
+  type CacheDriverName,
+  type CacheDriverSetOptions,
+  type LruMap,
+} from './driver.js';
+export { createMemoryCacheDriver, type MemoryCacheDriverConfig } from './memory.js';
+export {
+  createRedisCacheDriver,
+  type CacheRedisLike,
+  type CacheRedisPipeline,
+  type RedisCacheDriverConfig,
+} from './redis.js';
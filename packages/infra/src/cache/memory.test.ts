@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createLruMap } from "./driver.js";
+import { createMemoryCacheDriver } from "./memory.js";
+
+describe("createLruMap", () => {
+  it("evicts the least recently used entry", () => {
+    const evicted: string[] = [];
+    const lru = createLruMap<number>(2, (key) => evicted.push(key));
+
+    lru.set("a", 1);
+    lru.set("b", 2);
+    lru.get("a");
+    lru.set("c", 3);
+
+    expect(lru.keys()).toEqual(["a", "c"]);
+    expect(evicted).toEqual(["b"]);
+    expect(() => createLruMap(0)).toThrow("maxEntries must be a positive integer");
+  });
+});
+
+describe("Memory cache driver", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("expires entries after their TTL", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryCacheDriver();
+    await driver.set("a", "1", { ttl: 10 });
+    await driver.set("b", "2");
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(await driver.get("a")).toBeNull();
+    expect(await driver.exists("a")).toBe(false);
+    expect(await driver.get("b")).toBe("2");
+  });
+
+  it("invalidates by tag and forgets tags of replaced and evicted entries", async () => {
+    const driver = createMemoryCacheDriver({ maxEntries: 2 });
+    await driver.set("a", "1", { tags: ["t"] });
+    await driver.set("b", "2", { tags: ["t", "u"] });
+    await driver.set("a", "1"); // re-set without the tag
+    await driver.set("c", "3"); // evicts b
+
+    expect(await driver.invalidateTags(["t", "u"])).toEqual([]);
+    expect(await driver.get("a")).toBe("1");
+
+    await driver.set("d", "4", { tags: ["t"] });
+    expect(await driver.invalidateTags(["t"])).toEqual(["d"]);
+    expect(await driver.get("d")).toBeNull();
+  });
+
+  it("clears keys by prefix", async () => {
+    const driver = createMemoryCacheDriver();
+    await driver.set("app:a", "1");
+    await driver.set("other:b", "2");
+
+    await driver.clear("app:");
+
+    expect(await driver.get("app:a")).toBeNull();
+    expect(await driver.get("other:b")).toBe("2");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * In-Memory Cache Driver
+ *
+ * Keeps entries in process memory, bounded by `maxEntries` with least
+ * recently used eviction. For tests, `vibe dev` and single-node deploys;
+ * every process has its own cache, so use Redis when running more than one.
+ *
+ * Usage:
+ *   import { createCache } from '@vibeonrails/infra/cache';
+ *
+ *   const cache = createCache({ driver: 'memory', memory: { maxEntries: 5_000 } });
+ */
+
+import { createLruMap, type CacheDriver } from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MemoryCacheDriverConfig {
+  /** Entries kept before the least recently used is evicted (default: 10,000) */
+  maxEntries?: number;
+}
+
+interface MemoryEntry {
+  value: string;
+  /** Epoch ms; undefined for no expiry */
+  expiresAt?: number;
+  tags: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Driver
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an in-memory cache driver.
+ */
+export function createMemoryCacheDriver(config: MemoryCacheDriverConfig = {}): CacheDriver {
+  const tagIndex = new Map<string, Set<string>>();
+  const entries = createLruMap<MemoryEntry>(config.maxEntries ?? 10_000, (key, entry) => untag(key, entry));
+
+  function untag(key: string, entry: MemoryEntry): void {
+    for (const tag of entry.tags) {
+      const keys = tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) tagIndex.delete(tag);
+    }
+  }
+
+  function remove(key: string): boolean {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    entries.delete(key);
+    untag(key, entry);
+    return true;
+  }
+
+  function live(key: string): MemoryEntry | undefined {
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      remove(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+
+    async set(key, value, options = {}) {
+      remove(key);
+      const tags = options.tags ?? [];
+      entries.set(key, { value, expiresAt: options.ttl ? Date.now() + options.ttl * 1000 : undefined, tags });
+      for (const tag of tags) {
+        let keys = tagIndex.get(tag);
+        if (!keys) tagIndex.set(tag, (keys = new Set()));
+        keys.add(key);
+      }
+    },
+
+    async delete(keys) {
+      for (const key of keys) remove(key);
+    },
+
+    async exists(key) {
+      return live(key) !== undefined;
+    },
+
+    async invalidateTags(tags) {
+      const keys = new Set(tags.flatMap((tag) => [...(tagIndex.get(tag) ?? [])]));
+      return [...keys].filter(remove);
+    },
+
+    async clear(prefix) {
+      for (const key of entries.keys()) {
+        if (key.startsWith(prefix)) remove(key);
+      }
+    },
+
+    async disconnect() {
+      entries.clear();
+      tagIndex.clear();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { createRedisCacheDriver, type CacheRedisLike, type CacheRedisPipeline } from "./redis.js";
+
+function fakePipeline(results: Array<[Error | null, unknown]> = []) {
+  const pipeline = {
+    set: vi.fn(() => pipeline),
+    eval: vi.fn(() => pipeline),
+    exec: vi.fn(async () => results),
+  } satisfies CacheRedisPipeline;
+  return pipeline;
+}
+
+function fakeRedis(pipeline = fakePipeline()) {
+  return {
+    get: vi.fn(async () => null),
+    set: vi.fn(async () => "OK"),
+    del: vi.fn(async (...keys: string[]) => keys.length),
+    exists: vi.fn(async () => 1),
+    multi: vi.fn(() => pipeline),
+    smembers: vi.fn(async (tag: string) => (tag === "t1" ? ["a", "b"] : ["b", "c"])),
+    scan: vi
+      .fn()
+      .mockResolvedValueOnce(["7", ["app:a"]])
+      .mockResolvedValueOnce(["0", ["app:b", "app:c"]]),
+    flushdb: vi.fn(async () => "OK"),
+    quit: vi.fn(async () => "OK"),
+  } satisfies CacheRedisLike;
+}
+
+describe("Redis cache driver", () => {
+  it("sets with EX and files the key under its tags in one MULTI", async () => {
+    const pipeline = fakePipeline();
+    const redis = fakeRedis(pipeline);
+    const driver = createRedisCacheDriver({ client: redis });
+
+    await driver.set("k", "v", { ttl: 30, tags: ["t1", "t2"] });
+    await driver.set("plain", "v", { tags: ["t1"] });
+
+    expect(redis.multi).toHaveBeenCalledTimes(2);
+    expect(pipeline.exec).toHaveBeenCalledTimes(2);
+    expect(pipeline.set).toHaveBeenNthCalledWith(1, "k", "v", "EX", 30);
+    expect(pipeline.set).toHaveBeenNthCalledWith(2, "plain", "v");
+    // The tag set's TTL: the entry's, or 0 to keep it while the entry has none
+    expect(pipeline.eval).toHaveBeenNthCalledWith(1, expect.stringContaining("SADD"), 1, "t1", "k", 30);
+    expect(pipeline.eval).toHaveBeenNthCalledWith(2, expect.any(String), 1, "t2", "k", 30);
+    expect(pipeline.eval).toHaveBeenNthCalledWith(3, expect.any(String), 1, "t1", "plain", 0);
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it("throws when a command in the MULTI fails", async () => {
+    const error = new Error("OOM command not allowed");
+    const driver = createRedisCacheDriver({ client: fakeRedis(fakePipeline([[null, "OK"], [error, null]])) });
+
+    await expect(driver.set("k", "v", { tags: ["t1"] })).rejects.toBe(error);
+  });
+
+  it("deletes the members of every tag and the tag sets", async () => {
+    const redis = fakeRedis();
+    const driver = createRedisCacheDriver({ client: redis });
+
+    expect(await driver.invalidateTags(["t1", "t2"])).toEqual(["a", "b", "c"]);
+    expect(redis.del).toHaveBeenCalledWith("a", "b", "c");
+    expect(redis.del).toHaveBeenCalledWith("t1", "t2");
+  });
+
+  it("clears a prefix with SCAN, escaping glob characters", async () => {
+    const redis = fakeRedis();
+    const driver = createRedisCacheDriver({ client: redis });
+
+    await driver.clear("app*:");
+
+    expect(redis.scan).toHaveBeenNthCalledWith(1, "0", "MATCH", "app\\*:*", "COUNT", 500);
+    expect(redis.scan).toHaveBeenNthCalledWith(2, "7", "MATCH", "app\\*:*", "COUNT", 500);
+    expect(redis.del).toHaveBeenCalledWith("app:b", "app:c");
+    expect(redis.flushdb).not.toHaveBeenCalled();
+
+    await driver.clear("");
+    expect(redis.flushdb).toHaveBeenCalled();
+  });
+});
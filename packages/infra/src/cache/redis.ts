@@ -0,0 +1,146 @@
+/**
+ * Redis Cache Driver
+ *
+ * Stores entries in Redis with `SET ... EX`. Each tag is a Redis set of the
+ * keys filed under it; `invalidateTags()` deletes the members and the set.
+ * An entry and its tags are written in one `MULTI`, and a tag set expires no
+ * sooner than its longest-lived entry (never, while it holds one without a TTL).
+ *
+ * Usage:
+ *   import { createCache } from '@vibeonrails/infra/cache';
+ *
+ *   const cache = createCache({ driver: 'redis', url: process.env.REDIS_URL });
+ */
+
+import Redis from 'ioredis';
+import type { CacheDriver } from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of ioredis the driver uses. */
+export interface CacheRedisLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  exists(...keys: string[]): Promise<number>;
+  multi(): CacheRedisPipeline;
+  smembers(key: string): Promise<string[]>;
+  scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', size: number): Promise<[string, string[]]>;
+  flushdb(): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+export interface CacheRedisPipeline {
+  set(key: string, value: string): CacheRedisPipeline;
+  set(key: string, value: string, mode: 'EX', seconds: number): CacheRedisPipeline;
+  eval(script: string, numKeys: number, ...args: Array<string | number>): CacheRedisPipeline;
+  exec(): Promise<Array<[Error | null, unknown]> | null>;
+}
+
+export interface RedisCacheDriverConfig {
+  /** Redis connection URL (default: REDIS_URL) */
+  url?: string;
+  /** Client instance, e.g. a shared connection (default: new Redis(url)) */
+  client?: CacheRedisLike;
+}
+
+const SCAN_COUNT = 500;
+
+/**
+ * Add a key to a tag set and keep the set alive at least as long as the key:
+ * ARGV[2] is the key's TTL in seconds, 0 for none (the set then persists).
+ */
+const TAG_SCRIPT = `
+local ttl = redis.call('TTL', KEYS[1])
+redis.call('SADD', KEYS[1], ARGV[1])
+local seconds = tonumber(ARGV[2])
+if seconds == 0 then
+  redis.call('PERSIST', KEYS[1])
+elseif ttl == -2 or (ttl >= 0 and ttl < seconds) then
+  redis.call('EXPIRE', KEYS[1], seconds)
+end
+return 1
+`;
+
+// ---------------------------------------------------------------------------
+// Driver
+// ---------------------------------------------------------------------------
+
+/** Escape Redis glob characters so a prefix matches literally. */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+function connect(url = process.env.REDIS_URL): CacheRedisLike {
+  if (!url) {
+    throw new Error(
+      '[AOR] REDIS_URL environment variable is required for caching.\n' +
+        '  Fix: Add REDIS_URL to your .env file, or set CACHE_DRIVER=memory for a single process.\n' +
+        '  Example: REDIS_URL=redis://localhost:6379',
+    );
+  }
+  return new Redis(url);
+}
+
+/**
+ * Create a Redis cache driver.
+ */
+export function createRedisCacheDriver(config: RedisCacheDriverConfig = {}): CacheDriver {
+  const client = config.client ?? connect(config.url);
+
+  return {
+    name: 'redis',
+
+    async get(key) {
+      return client.get(key);
+    },
+
+    async set(key, value, options = {}) {
+      const pipeline = client.multi();
+      if (options.ttl) pipeline.set(key, value, 'EX', options.ttl);
+      else pipeline.set(key, value);
+      for (const tag of options.tags ?? []) pipeline.eval(TAG_SCRIPT, 1, tag, key, options.ttl ?? 0);
+
+      const results = await pipeline.exec();
+      const failed = results?.find(([error]) => error);
+      if (failed) throw failed[0];
+    },
+
+    async delete(keys) {
+      if (keys.length > 0) await client.del(...keys);
+    },
+
+    async exists(key) {
+      return (await client.exists(key)) === 1;
+    },
+
+    async invalidateTags(tags) {
+      if (tags.length === 0) return [];
+      const members = await Promise.all(tags.map((tag) => client.smembers(tag)));
+      const keys = [...new Set(members.flat())];
+      if (keys.length > 0) await client.del(...keys);
+      await client.del(...tags);
+      return keys;
+    },
+
+    async clear(prefix) {
+      if (prefix === '') {
+        await client.flushdb();
+        return;
+      }
+      let cursor = '0';
+      do {
+        const [next, keys] = await client.scan(cursor, 'MATCH', `${escapeGlob(prefix)}*`, 'COUNT', SCAN_COUNT);
+        if (keys.length > 0) await client.del(...keys);
+        cursor = next;
+      } while (cursor !== '0');
+    },
+
+    async disconnect() {
+      await client.quit();
+    },
+  };
+}
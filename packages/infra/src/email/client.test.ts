@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createEmailTransport, resolveEmailTransportName, sendEmail, setEmailTransport } from "./client.js";
+import { createOutboxTransport } from "./outbox.js";
+import { createResendTransport, type ResendLike } from "./resend.js";
+
+describe("resolveEmailTransportName", () => {
+  it("uses EMAIL_TRANSPORT when set", () => {
+    expect(resolveEmailTransportName({}, { EMAIL_TRANSPORT: "smtp", RESEND_API_KEY: "re_x" })).toBe("smtp");
+    expect(() => resolveEmailTransportName({}, { EMAIL_TRANSPORT: "pigeon" })).toThrow(
+      "EMAIL_TRANSPORT to one of: resend, smtp, outbox",
+    );
+  });
+
+  it("infers the transport from the configured credentials", () => {
+    expect(resolveEmailTransportName({}, { RESEND_API_KEY: "re_x" })).toBe("resend");
+    expect(resolveEmailTransportName({}, { SMTP_HOST: "localhost" })).toBe("smtp");
+    expect(resolveEmailTransportName({}, { NODE_ENV: "production" })).toBe("resend");
+    expect(resolveEmailTransportName({}, {})).toBe("outbox");
+    expect(resolveEmailTransportName({ transport: "outbox" }, { RESEND_API_KEY: "re_x" })).toBe("outbox");
+  });
+
+  it("requires SMTP_HOST for the smtp transport", () => {
+    expect(() => createEmailTransport({ transport: "smtp" })).toThrow("SMTP_HOST environment variable is required");
+  });
+});
+
+describe("Resend transport", () => {
+  it("sends through the client and returns the message id", async () => {
+    const send = vi.fn().mockResolvedValue({ data: { id: "em_1" }, error: null });
+    const transport = createResendTransport({ client: { emails: { send } } as ResendLike });
+
+    const sent = await transport.send({ from: "a@app.test", to: "b@example.com", subject: "S", html: "<p>H</p>", text: "H" });
+
+    expect(sent).toEqual({ id: "em_1", transport: "resend" });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: "b@example.com", subject: "S" }));
+  });
+
+  it("passes copies, reply-to and attachments in the API's shape", async () => {
+    const send = vi.fn().mockResolvedValue({ data: { id: "em_1" }, error: null });
+    const transport = createResendTransport({ client: { emails: { send } } as ResendLike });
+
+    await transport.send({
+      from: "a@app.test",
+      to: "b@example.com",
+      bcc: "c@example.com",
+      replyTo: "support@app.test",
+      subject: "S",
+      html: "",
+      text: "",
+      attachments: [{ filename: "a.txt", content: "hi", contentType: "text/plain" }],
+    });
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        bcc: "c@example.com",
+        reply_to: "support@app.test",
+        attachments: [{ filename: "a.txt", content: Buffer.from("hi") }],
+      }),
+    );
+  });
+
+  it("throws the API error the SDK returns", async () => {
+    const send = vi.fn().mockResolvedValue({ data: null, error: { name: "validation_error", message: "Invalid `to`" } });
+    const transport = createResendTransport({ client: { emails: { send } } as ResendLike });
+
+    await expect(
+      transport.send({ from: "a@app.test", to: "nope", subject: "S", html: "", text: "" }),
+    ).rejects.toThrow("Resend rejected the email: validation_error — Invalid `to`");
+  });
+
+  it("requires an API key when first used", async () => {
+    vi.stubEnv("RESEND_API_KEY", "");
+    const transport = createResendTransport();
+    await expect(
+      transport.send({ from: "a@app.test", to: "b@example.com", subject: "S", html: "", text: "" }),
+    ).rejects.toThrow("RESEND_API_KEY environment variable is required");
+    vi.unstubAllEnvs();
+  });
+});
+
+describe("sendEmail", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "vibe-email-"));
+    mkdirSync(join(cwd, "content/locales/en/emails"), { recursive: true });
+    writeFileSync(
+      join(cwd, "content/locales/en/emails/welcome.md"),
+      "---\nsubject: Welcome, {{name}}\n---\n# Hi {{name}}",
+    );
+    vi.spyOn(process, "cwd").mockReturnValue(cwd);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setEmailTransport(undefined);
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("renders the template and sends it through the active transport", async () => {
+    const outbox = createOutboxTransport({ dir: join(cwd, "outbox") });
+    setEmailTransport(outbox);
+
+    const sent = await sendEmail("welcome", { to: "ada@example.com", from: "hello@app.test", data: { name: "Ada" } });
+
+    const [entry] = await outbox.list();
+    expect(entry!.id).toBe(sent.id);
+    expect(entry!.message).toMatchObject({
+      from: "hello@app.test",
+      to: "ada@example.com",
+      subject: "Welcome, Ada",
+      text: "# Hi Ada",
+    });
+    expect(entry!.message.html).toContain("<h1>Hi Ada</h1>");
+  });
+
+  it("uses the locale's template and passes recipients and attachments through", async () => {
+    mkdirSync(join(cwd, "content/locales/fr/emails"), { recursive: true });
+    writeFileSync(join(cwd, "content/locales/fr/emails/welcome.md"), "---\nsubject: Bienvenue, {{name}}\n---\nSalut");
+    const outbox = createOutboxTransport({ dir: join(cwd, "outbox") });
+
+    await sendEmail("welcome", {
+      to: ["ada@example.com"],
+      cc: "grace@example.com",
+      locale: "fr-CA",
+      data: { name: "Ada" },
+      attachments: [{ filename: "a.txt", content: "hi" }],
+      transport: outbox,
+    });
+
+    const [entry] = await outbox.list();
+    expect(entry!.message).toMatchObject({ subject: "Bienvenue, Ada", cc: "grace@example.com" });
+    expect(entry!.message.attachments).toHaveLength(1);
+  });
+
+  it("accepts a transport per call", async () => {
+    const outbox = createOutboxTransport({ dir: join(cwd, "other") });
+    await sendEmail("welcome", { to: "ada@example.com", data: { name: "Ada" }, transport: outbox });
+    expect(await outbox.list()).toHaveLength(1);
+  });
+});
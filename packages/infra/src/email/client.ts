@@ -1,8 +1,15 @@
 /**
  * Email Client
  *
- * Sends transactional emails using Resend with Markdown-based templates.
- * Templates are stored in content/locales/{lang}/emails/.
+ * Sends transactional emails with Markdown-based templates through a
+ * pluggable transport. Templates are stored in content/locales/{lang}/emails/.
+ * `vibe generate email-types` types each template's data from its
+ * `variables:` declarations (see `EmailTemplates`).
+ *
+ * The transport is picked from `EMAIL_TRANSPORT` (`resend` | `smtp` |
+ * `outbox`) unless set with `setEmailTransport()`. Without it, Resend is
+ * used when `RESEND_API_KEY` is set, SMTP when `SMTP_HOST` is set, Resend in
+ * production (so a missing key fails loudly) and the outbox otherwise.
  *
  * Usage:
  *   import { sendEmail } from '@vibeonrails/infra/email';
@@ -11,59 +18,184 @@
  *     to: 'user@example.com',
  *     data: { name: 'John', appName: 'MyApp' },
  *   });
+ *
+ *   await sendEmail('invoice', {
+ *     to: user.email,
+ *     locale: user.locale,
+ *     bcc: 'billing@myapp.com',
+ *     data: { invoiceNumber: 42, items },
+ *     attachments: [{ filename: 'invoice-42.pdf', content: pdf }],
+ *   });
  */
 
-import { Resend } from 'resend';
-import { loadTemplate, renderTemplate } from './templates.js';
+import { createOutboxTransport, type OutboxTransportConfig } from './outbox.js';
+import { createResendTransport, type ResendTransportConfig } from './resend.js';
+import { createSmtpTransport, type SmtpTransportConfig } from './smtp.js';
+import { loadTemplate, renderTemplate, type EmailData } from './templates.js';
+import {
+  EMAIL_TRANSPORTS,
+  type EmailAttachment,
+  type EmailTransport,
+  type EmailTransportName,
+  type SentEmail,
+} from './transport.js';
 
-let resendClient: Resend | null = null;
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
 
-function getClient(): Resend {
-  if (resendClient) return resendClient;
+export interface EmailTransportConfig {
+  /** Transport (default: from EMAIL_TRANSPORT / RESEND_API_KEY / SMTP_HOST) */
+  transport?: EmailTransportName;
+  resend?: ResendTransportConfig;
+  smtp?: Partial<SmtpTransportConfig>;
+  outbox?: OutboxTransportConfig;
+}
 
-  const apiKey = process.env.RESEND_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      '[AOR] RESEND_API_KEY environment variable is required.\n' +
-      '  Fix: Add RESEND_API_KEY to your .env file.\n' +
-      '  Docs: https://vibeonrails.dev/errors/RESEND_API_KEY_MISSING',
-    );
-  }
+/**
+ * Data type of each template, by name. Empty until augmented by the file
+ * `vibe generate email-types` writes:
+ *
+ *   declare module '@vibeonrails/infra/email' {
+ *     interface EmailTemplates {
+ *       welcome: { name: string; appName: string };
+ *     }
+ *   }
+ */
+export interface EmailTemplates extends Record<never, never> {}
 
-  resendClient = new Resend(apiKey);
-  return resendClient;
-}
+/** Template names: those in `EmailTemplates` once generated, any string before */
+export type EmailTemplateName = [keyof EmailTemplates] extends [never] ? string : keyof EmailTemplates & string;
+
+/** Data type of a template */
+export type EmailTemplateData<T extends string> = T extends keyof EmailTemplates ? EmailTemplates[T] : EmailData;
 
-export interface SendEmailOptions {
-  /** Recipient email address */
-  to: string;
+export interface SendEmailOptions<TData = EmailData> {
+  /** Recipient email address(es) */
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
   /** Template data for variable substitution */
-  data?: Record<string, string>;
+  data?: TData;
+  /** Template locale; falls back along the locale chain (default: 'en') */
+  locale?: string;
+  attachments?: EmailAttachment[];
+  /** Extra headers, e.g. `List-Unsubscribe` */
+  headers?: Record<string, string>;
   /** Override the sender address */
   from?: string;
+  /** Override the transport for this email */
+  transport?: EmailTransport;
+}
+
+// ---------------------------------------------------------------------------
+// Transport selection
+// ---------------------------------------------------------------------------
+
+let activeTransport: EmailTransport | undefined;
+
+/**
+ * Pick the transport name from the config and environment.
+ */
+export function resolveEmailTransportName(
+  config: EmailTransportConfig = {},
+  env: NodeJS.ProcessEnv = process.env,
+): EmailTransportName {
+  if (config.transport) return config.transport;
+  const explicit = env.EMAIL_TRANSPORT;
+  if (explicit) {
+    if (!(EMAIL_TRANSPORTS as readonly string[]).includes(explicit)) {
+      throw new Error(
+        `[AOR] Unknown EMAIL_TRANSPORT "${explicit}".\n` +
+          `  Fix: Set EMAIL_TRANSPORT to one of: ${EMAIL_TRANSPORTS.join(', ')}`,
+      );
+    }
+    return explicit as EmailTransportName;
+  }
+  if (config.resend?.apiKey || env.RESEND_API_KEY) return 'resend';
+  if (config.smtp?.host || env.SMTP_HOST) return 'smtp';
+  return env.NODE_ENV === 'production' ? 'resend' : 'outbox';
+}
+
+/**
+ * Create an email transport.
+ *
+ * @param config - Transport configuration (defaults to env vars)
+ */
+export function createEmailTransport(config: EmailTransportConfig = {}): EmailTransport {
+  switch (resolveEmailTransportName(config)) {
+    case 'resend':
+      return createResendTransport(config.resend);
+    case 'outbox':
+      return createOutboxTransport(config.outbox);
+    case 'smtp': {
+      const host = config.smtp?.host ?? process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error(
+          '[AOR] SMTP_HOST environment variable is required for the smtp transport.\n' +
+            '  Fix: Add SMTP_HOST (and SMTP_PORT, SMTP_USER, SMTP_PASS) to your .env file.',
+        );
+      }
+      const port = process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined;
+      return createSmtpTransport({
+        ...config.smtp,
+        host,
+        port: config.smtp?.port ?? port,
+        secure: config.smtp?.secure ?? (process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : undefined),
+        user: config.smtp?.user ?? process.env.SMTP_USER,
+        pass: config.smtp?.pass ?? process.env.SMTP_PASS,
+      });
+    }
+  }
+}
+
+/**
+ * Set the transport `sendEmail` uses, e.g. an outbox in tests.
+ * Pass undefined to go back to the one chosen from the environment.
+ */
+export function setEmailTransport(transport: EmailTransport | undefined): void {
+  activeTransport = transport;
+}
+
+/**
+ * The transport `sendEmail` uses, created from the environment on first use.
+ */
+export function getEmailTransport(): EmailTransport {
+  activeTransport ??= createEmailTransport();
+  return activeTransport;
 }
 
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
 /**
  * Send a transactional email using a named template.
  *
  * @param templateName - Name of the template file (without extension)
- * @param options - Email options including recipient and template data
+ * @param options - Email options including recipients and template data
  */
-export async function sendEmail(
-  templateName: string,
-  options: SendEmailOptions,
-): Promise<void> {
-  const client = getClient();
+export async function sendEmail<T extends EmailTemplateName>(
+  templateName: T,
+  options: SendEmailOptions<EmailTemplateData<T>>,
+): Promise<SentEmail> {
+  const transport = options.transport ?? getEmailTransport();
   const from = options.from ?? process.env.EMAIL_FROM ?? 'hello@example.com';
 
-  const template = await loadTemplate(templateName);
-  const { subject, html, text } = renderTemplate(template, options.data);
+  const template = await loadTemplate(templateName, options.locale);
+  const { subject, html, text } = renderTemplate(template, options.data as EmailData | undefined);
 
-  await client.emails.send({
+  return transport.send({
     from,
     to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    replyTo: options.replyTo,
     subject,
     html,
     text,
+    attachments: options.attachments,
+    headers: options.headers,
   });
 }
@@ -2,11 +2,55 @@
  * Email module barrel export
  */
 
-export { sendEmail, type SendEmailOptions } from './client.js';
+export {
+  sendEmail,
+  createEmailTransport,
+  resolveEmailTransportName,
+  setEmailTransport,
+  getEmailTransport,
+  type SendEmailOptions,
+  type EmailTemplates,
+  type EmailTemplateName,
+  type EmailTemplateData,
+  type EmailTransportConfig,
+} from './client.js';
+export {
+  EMAIL_TRANSPORTS,
+  addressOf,
+  type EmailAttachment,
+  type EmailMessage,
+  type EmailTransport,
+  type EmailTransportName,
+  type SentEmail,
+} from './transport.js';
+export { createResendTransport, type ResendLike, type ResendTransportConfig } from './resend.js';
+export {
+  createSmtpTransport,
+  buildMimeMessage,
+  type SmtpTransportConfig,
+} from './smtp.js';
+export {
+  createOutboxTransport,
+  createOutboxHandler,
+  type OutboxTransport,
+  type OutboxTransportConfig,
+  type OutboxEntry,
+  type OutboxAttachment,
+  type OutboxHandlerOptions,
+} from './outbox.js';
 export {
   loadTemplate,
   parseTemplate,
   renderTemplate,
+  localeChain,
+  generateEmailTypes,
+  type EmailData,
+  type EmailLayout,
+  type EmailPartial,
   type EmailTemplate,
   type RenderedEmail,
+  type LoadTemplateOptions,
+  type GenerateEmailTypesOptions,
 } from './templates.js';
+export { renderString, escapeHtml, type RenderStringOptions } from './template-engine.js';
+export { type EmailVariable } from './template-types.js';
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createOutboxHandler, createOutboxTransport, type OutboxTransport } from "./outbox.js";
+
+const message = {
+  from: "hello@app.test",
+  to: "ada@example.com",
+  subject: "Welcome <Ada>",
+  html: "<h1>Hi Ada</h1><script>alert(1)</script>",
+  text: "Hi Ada",
+};
+
+describe("Outbox transport", () => {
+  let dir: string;
+  let outbox: OutboxTransport;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vibe-outbox-"));
+    outbox = createOutboxTransport({ dir });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores messages and lists them newest first", async () => {
+    const first = await outbox.send(message);
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    const second = await outbox.send({ ...message, subject: "Second" });
+
+    expect(first.transport).toBe("outbox");
+    const entries = await outbox.list();
+    expect(entries.map((entry) => entry.id)).toEqual([second.id, first.id]);
+    expect(entries[1]!.message).toEqual(message);
+    expect(await outbox.get(first.id)).toMatchObject({ id: first.id, message });
+  });
+
+  it("ignores ids that are not outbox ids", async () => {
+    expect(await outbox.get("../../etc/passwd")).toBeUndefined();
+  });
+
+  it("clears the outbox", async () => {
+    await outbox.send(message);
+    await outbox.clear();
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  describe("preview handler", () => {
+    const base = "http://localhost:3000/_dev/emails";
+
+    it("lists messages as HTML and JSON", async () => {
+      const { id } = await outbox.send(message);
+      const handler = createOutboxHandler(outbox);
+
+      const index = await handler(new Request(`${base}/`));
+      expect(index.headers.get("content-type")).toContain("text/html");
+      const html = await index.text();
+      expect(html).toContain(`href="/_dev/emails/${id}"`);
+      expect(html).toContain("Welcome &#60;Ada&#62;");
+
+      const json = await handler(new Request(`${base}/messages.json`));
+      expect(((await json.json()) as Array<{ id: string }>).map((entry) => entry.id)).toEqual([id]);
+    });
+
+    it("previews a message in a sandboxed frame and serves its parts", async () => {
+      const { id } = await outbox.send(message);
+      const handler = createOutboxHandler(outbox);
+
+      const preview = await (await handler(new Request(`${base}/${id}`))).text();
+      expect(preview).toContain('<iframe sandbox title="HTML body" srcdoc="&#60;h1&#62;Hi Ada');
+      expect(preview).not.toContain("<script>");
+
+      const raw = await handler(new Request(`${base}/${id}.html`));
+      expect(raw.headers.get("content-security-policy")).toBe("sandbox");
+      expect(await raw.text()).toBe(message.html);
+      expect(await (await handler(new Request(`${base}/${id}.txt`))).text()).toBe("Hi Ada");
+    });
+
+    it("stores attachments and serves them as downloads", async () => {
+      const { id } = await outbox.send({
+        ...message,
+        cc: "grace@example.com",
+        attachments: [{ filename: "notes.txt", content: "hello" }],
+      });
+      const handler = createOutboxHandler(outbox);
+
+      expect((await outbox.get(id))!.message.attachments).toEqual([
+        { filename: "notes.txt", contentType: "text/plain", size: 5, content: Buffer.from("hello").toString("base64") },
+      ]);
+      const preview = await (await handler(new Request(`${base}/${id}`))).text();
+      expect(preview).toContain("<dt>Cc</dt><dd>grace@example.com</dd>");
+      expect(preview).toContain(`<a href="/_dev/emails/${id}/attachments/0">notes.txt</a>`);
+
+      const file = await handler(new Request(`${base}/${id}/attachments/0`));
+      expect(file.headers.get("content-disposition")).toBe('attachment; filename="notes.txt"');
+      expect(await file.text()).toBe("hello");
+      expect((await handler(new Request(`${base}/${id}/attachments/1`))).status).toBe(404);
+    });
+
+    it("returns 404 for unknown messages and clears on DELETE", async () => {
+      await outbox.send(message);
+      const handler = createOutboxHandler(outbox, { basePath: "/_dev/emails/" });
+
+      expect((await handler(new Request(`${base}/123-missing`))).status).toBe(404);
+      expect((await handler(new Request(`${base}/`, { method: "DELETE" }))).status).toBe(204);
+      expect(await outbox.list()).toEqual([]);
+      expect((await handler(new Request(`${base}/`, { method: "POST" }))).status).toBe(405);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Outbox Transport
+ *
+ * Writes each message to a JSON file instead of sending it, for development
+ * and tests. `createOutboxHandler()` serves the outbox as a list of messages
+ * with an HTML preview of each, so templates can be iterated on offline.
+ *
+ * Usage:
+ *   import { createOutboxTransport, createOutboxHandler } from '@vibeonrails/infra/email';
+ *
+ *   const outbox = createOutboxTransport(); // .vibe/outbox
+ *   if (process.env.NODE_ENV !== 'production') {
+ *     const preview = createOutboxHandler(outbox);
+ *     app.all('/_dev/emails/*', (c) => preview(c.req.raw));
+ *   }
+ *
+ *   // In tests
+ *   const [latest] = await outbox.list();
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { contentTypeFor } from '../storage/driver.js';
+import {
+  assertEmailMessage,
+  attachmentContent,
+  toAddressList,
+  type EmailMessage,
+  type EmailTransport,
+} from './transport.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OutboxTransportConfig {
+  /** Directory messages are written to (default: EMAIL_OUTBOX_DIR or '.vibe/outbox') */
+  dir?: string;
+}
+
+/** An attachment as stored in the outbox. */
+export interface OutboxAttachment {
+  filename: string;
+  contentType: string;
+  contentId?: string;
+  /** Size in bytes */
+  size: number;
+  /** Base64 content */
+  content: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  /** ISO timestamp */
+  sentAt: string;
+  message: Omit<EmailMessage, 'attachments'> & { attachments?: OutboxAttachment[] };
+}
+
+export interface OutboxTransport extends EmailTransport {
+  readonly name: 'outbox';
+  readonly dir: string;
+  /** Stored messages, newest first */
+  list(): Promise<OutboxEntry[]>;
+  get(id: string): Promise<OutboxEntry | undefined>;
+  clear(): Promise<void>;
+}
+
+export interface OutboxHandlerOptions {
+  /** Path the handler is mounted at (default: '/_dev/emails') */
+  basePath?: string;
+}
+
+const OUTBOX_ID = /^[\w-]+$/;
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an outbox transport.
+ */
+export function createOutboxTransport(config: OutboxTransportConfig = {}): OutboxTransport {
+  const dir = resolve(config.dir ?? process.env.EMAIL_OUTBOX_DIR ?? '.vibe/outbox');
+
+  async function get(id: string): Promise<OutboxEntry | undefined> {
+    if (!OUTBOX_ID.test(id)) return undefined;
+    try {
+      return JSON.parse(await readFile(join(dir, `${id}.json`), 'utf-8')) as OutboxEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return {
+    name: 'outbox',
+    dir,
+    get,
+
+    async send(message) {
+      assertEmailMessage(message);
+      const sentAt = new Date();
+      // Timestamp first so file names sort by send time
+      const id = `${sentAt.getTime()}-${randomUUID().slice(0, 8)}`;
+      const { attachments, ...rest } = message;
+      const entry: OutboxEntry = {
+        id,
+        sentAt: sentAt.toISOString(),
+        message: attachments?.length
+          ? {
+              ...rest,
+              attachments: attachments.map((attachment) => {
+                const content = attachmentContent(attachment);
+                return {
+                  filename: attachment.filename,
+                  contentType: attachment.contentType ?? contentTypeFor(attachment.filename),
+                  ...(attachment.contentId ? { contentId: attachment.contentId } : {}),
+                  size: content.length,
+                  content: content.toString('base64'),
+                };
+              }),
+            }
+          : rest,
+      };
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${id}.json`), JSON.stringify(entry, null, 2));
+      return { id, transport: 'outbox' };
+    },
+
+    async list() {
+      const files = await readdir(dir).catch(() => [] as string[]);
+      const ids = files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length))
+        .sort()
+        .reverse();
+      const entries = await Promise.all(ids.map(get));
+      return entries.filter((entry): entry is OutboxEntry => entry !== undefined);
+    },
+
+    async clear() {
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Preview handler
+// ---------------------------------------------------------------------------
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string): Response {
+  return new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+      '<style>body{font-family:system-ui,sans-serif;margin:2rem;color:#111}table{border-collapse:collapse;width:100%}' +
+      'td,th{text-align:left;padding:.5rem;border-bottom:1px solid #ddd}dt{font-weight:600}dd{margin:0 0 .5rem}' +
+      'iframe{width:100%;height:70vh;border:1px solid #ddd}pre{white-space:pre-wrap}</style></head>' +
+      `<body>${body}</body></html>`,
+    { headers: { 'content-type': 'text/html; charset=utf-8' } },
+  );
+}
+
+function indexPage(entries: OutboxEntry[], basePath: string): Response {
+  const rows = entries
+    .map(
+      (entry) =>
+        `<tr><td>${escapeHtml(entry.sentAt)}</td><td>${escapeHtml(toAddressList(entry.message.to).join(', '))}</td>` +
+        `<td><a href="${basePath}/${entry.id}">${escapeHtml(entry.message.subject)}</a></td></tr>`,
+    )
+    .join('');
+  return page(
+    'Outbox',
+    `<h1>Outbox</h1>` +
+      (entries.length === 0
+        ? '<p>No emails sent yet.</p>'
+        : `<table><thead><tr><th>Sent</th><th>To</th><th>Subject</th></tr></thead><tbody>${rows}</tbody></table>`),
+  );
+}
+
+function messagePage(entry: OutboxEntry, basePath: string): Response {
+  const { message } = entry;
+  const headers = [
+    ['From', message.from],
+    ['To', toAddressList(message.to).join(', ')],
+    ['Cc', toAddressList(message.cc).join(', ')],
+    ['Bcc', toAddressList(message.bcc).join(', ')],
+    ['Reply-To', toAddressList(message.replyTo).join(', ')],
+    ['Subject', message.subject],
+    ['Sent', entry.sentAt],
+    ...Object.entries(message.headers ?? {}),
+  ]
+    .filter(([, value]) => value)
+    .map(([name, value]) => `<dt>${escapeHtml(name!)}</dt><dd>${escapeHtml(value!)}</dd>`)
+    .join('');
+  const attachments = (message.attachments ?? [])
+    .map(
+      (attachment, index) =>
+        `<li><a href="${basePath}/${entry.id}/attachments/${index}">${escapeHtml(attachment.filename)}</a> ` +
+        `(${escapeHtml(attachment.contentType)}, ${attachment.size} bytes)</li>`,
+    )
+    .join('');
+  return page(
+    message.subject,
+    `<p><a href="${basePath}/">← Outbox</a> · <a href="${basePath}/${entry.id}.html">HTML</a> · ` +
+      `<a href="${basePath}/${entry.id}.txt">Text</a> · <a href="${basePath}/${entry.id}.json">JSON</a></p>` +
+      `<dl>${headers}</dl>` +
+      (attachments ? `<h2>Attachments</h2><ul>${attachments}</ul>` : '') +
+      `<iframe sandbox title="HTML body" srcdoc="${escapeHtml(message.html)}"></iframe>` +
+      `<h2>Text</h2><pre>${escapeHtml(message.text)}</pre>`,
+  );
+}
+
+/**
+ * Serve an outbox for preview. `GET /` lists messages (`/messages.json` as
+ * JSON), `GET /<id>` previews one (`.html`, `.txt`, `.json` for the raw
+ * parts, `/<id>/attachments/<n>` for attachments) and `DELETE /` clears
+ * the outbox. Works with any framework that
+ * speaks the Fetch API (Hono: `(c) => handler(c.req.raw)`).
+ */
+export function createOutboxHandler(
+  outbox: OutboxTransport,
+  options: OutboxHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath ?? '/_dev/emails').replace(/\/+$/, '');
+
+  return async (request) => {
+    const { pathname } = new URL(request.url);
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      return new Response('Not found', { status: 404 });
+    }
+    const path = pathname.slice(basePath.length).replace(/^\/+/, '');
+    const method = request.method.toUpperCase();
+
+    if (method === 'DELETE' && path === '') {
+      await outbox.clear();
+      return new Response(null, { status: 204 });
+    }
+    if (method !== 'GET' && method !== 'HEAD') {
+      return new Response('Method not allowed', { status: 405, headers: { allow: 'GET, HEAD, DELETE' } });
+    }
+
+    if (path === '') return indexPage(await outbox.list(), basePath);
+    if (path === 'messages.json') return Response.json(await outbox.list());
+
+    const attachment = /^([\w-]+)\/attachments\/(\d+)$/.exec(path);
+    if (attachment) {
+      const file = (await outbox.get(attachment[1]!))?.message.attachments?.[Number(attachment[2])];
+      if (!file) return new Response('Not found', { status: 404 });
+      // Served as a download so attached markup never runs on this origin
+      return new Response(Buffer.from(file.content, 'base64'), {
+        headers: {
+          'content-type': file.contentType,
+          'content-disposition': `attachment; filename="${file.filename}"`,
+          'x-content-type-options': 'nosniff',
+        },
+      });
+    }
+
+    const match = /^([\w-]+)(?:\.(html|txt|json))?$/.exec(path);
+    const entry = match ? await outbox.get(match[1]!) : undefined;
+    if (!entry) return new Response('Not found', { status: 404 });
+
+    switch (match![2]) {
+      case 'html':
+        // The body is untrusted markup: no scripts, no same-origin access
+        return new Response(entry.message.html, {
+          headers: { 'content-type': 'text/html; charset=utf-8', 'content-security-policy': 'sandbox' },
+        });
+      case 'txt':
+        return new Response(entry.message.text, { headers: { 'content-type': 'text/plain; charset=utf-8' } });
+      case 'json':
+        return Response.json(entry);
+      default:
+        return messagePage(entry, basePath);
+    }
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Resend Transport
+ *
+ * Sends through the Resend HTTP API.
+ *
+ * Usage:
+ *   import { createResendTransport } from '@vibeonrails/infra/email';
+ *
+ *   const transport = createResendTransport({ apiKey: process.env.RESEND_API_KEY });
+ */
+
+import { Resend } from 'resend';
+import { assertEmailMessage, attachmentContent, type EmailTransport } from './transport.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of the Resend SDK the transport uses. */
+export interface ResendLike {
+  emails: {
+    send(payload: {
+      from: string;
+      to: string | string[];
+      cc?: string | string[];
+      bcc?: string | string[];
+      reply_to?: string | string[];
+      subject: string;
+      html: string;
+      text: string;
+      headers?: Record<string, string>;
+      attachments?: Array<{ filename: string; content: Buffer }>;
+    }): Promise<{ data: { id: string } | null; error: { name: string; message: string } | null }>;
+  };
+}
+
+export interface ResendTransportConfig {
+  /** API key (default: RESEND_API_KEY) */
+  apiKey?: string;
+  /** Client instance, e.g. a stub in tests (default: new Resend(apiKey)) */
+  client?: ResendLike;
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a Resend transport.
+ */
+export function createResendTransport(config: ResendTransportConfig = {}): EmailTransport {
+  let client = config.client;
+
+  function getClient(): ResendLike {
+    if (client) return client;
+    const apiKey = config.apiKey ?? process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        '[AOR] RESEND_API_KEY environment variable is required.\n' +
+          '  Fix: Add RESEND_API_KEY to your .env file, or set EMAIL_TRANSPORT=outbox in development.\n' +
+          '  Docs: https://vibeonrails.dev/errors/RESEND_API_KEY_MISSING',
+      );
+    }
+    client = new Resend(apiKey);
+    return client;
+  }
+
+  return {
+    name: 'resend',
+
+    async send(message) {
+      assertEmailMessage(message);
+      // The SDK reports API errors in the result instead of throwing
+      const { data, error } = await getClient().emails.send({
+        from: message.from,
+        to: message.to,
+        cc: message.cc,
+        bcc: message.bcc,
+        reply_to: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+        // Resend infers the content type from the file name and has no inline (cid) parts
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachmentContent(attachment),
+        })),
+      });
+      if (error || !data) {
+        throw new Error(`[AOR] Resend rejected the email: ${error ? `${error.name} — ${error.message}` : 'no id returned'}`);
+      }
+      return { id: data.id, transport: 'resend' };
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { buildMimeMessage, createSmtpTransport, dotStuff, encodeHeaderText } from "./smtp.js";
+
+// ---------------------------------------------------------------------------
+// A minimal SMTP catcher: records commands and the DATA payload
+// ---------------------------------------------------------------------------
+
+interface Catcher {
+  port: number;
+  commands: string[];
+  messages: string[];
+}
+
+function startCatcher(options: { auth?: string; rejectRcpt?: boolean } = {}): Promise<Catcher & { server: Server }> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = createServer((socket: Socket) => {
+    let buffer = "";
+    let inData = false;
+    let data = "";
+    let loginStep = 0;
+    socket.write("220 catcher ESMTP\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            messages.push(data);
+            data = "";
+            socket.write("250 OK queued\r\n");
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (loginStep > 0) {
+          socket.write(loginStep++ === 1 ? "334 UGFzc3dvcmQ6\r\n" : "235 Authenticated\r\n");
+          if (loginStep > 2) loginStep = 0;
+        } else if (line.startsWith("EHLO")) {
+          socket.write(`250-catcher\r\n${options.auth ? `250-AUTH ${options.auth}\r\n` : ""}250 SIZE 1000000\r\n`);
+        } else if (line.startsWith("AUTH PLAIN")) {
+          socket.write("235 Authenticated\r\n");
+        } else if (line === "AUTH LOGIN") {
+          loginStep = 1;
+          socket.write("334 VXNlcm5hbWU6\r\n");
+        } else if (line.startsWith("RCPT") && options.rejectRcpt) {
+          socket.write("550 No such user\r\n");
+        } else if (line === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, commands, messages });
+    });
+  });
+}
+
+const message = {
+  from: "App <hello@app.test>",
+  to: ["ada@example.com", "Grace Hopper <grace@example.com>"],
+  subject: "Welcome",
+  html: "<p>Hi</p>",
+  text: "Hi\n.dot line",
+};
+
+describe("SMTP transport", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+  });
+
+  it("delivers a message with one RCPT per recipient", async () => {
+    const catcher = await startCatcher();
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port, name: "test.local" });
+
+    const sent = await transport.send(message);
+
+    expect(sent.transport).toBe("smtp");
+    expect(sent.id).toMatch(/@app\.test$/);
+    expect(catcher.commands).toEqual([
+      "EHLO test.local",
+      "MAIL FROM:<hello@app.test>",
+      "RCPT TO:<ada@example.com>",
+      "RCPT TO:<grace@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    const data = catcher.messages[0]!;
+    expect(data).toContain("Subject: Welcome\r\n");
+    expect(data).toContain(`Message-ID: <${sent.id}>`);
+    expect(data).toContain('To: ada@example.com, "Grace Hopper" <grace@example.com>');
+  });
+
+  it("authenticates with AUTH PLAIN when offered", async () => {
+    const catcher = await startCatcher({ auth: "PLAIN LOGIN" });
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port, user: "u", pass: "p" });
+
+    await transport.send(message);
+
+    expect(catcher.commands[1]).toBe(`AUTH PLAIN ${Buffer.from("\0u\0p").toString("base64")}`);
+  });
+
+  it("falls back to AUTH LOGIN", async () => {
+    const catcher = await startCatcher({ auth: "LOGIN" });
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port, user: "u", pass: "p" });
+
+    await transport.send(message);
+
+    expect(catcher.commands.slice(1, 4)).toEqual([
+      "AUTH LOGIN",
+      Buffer.from("u").toString("base64"),
+      Buffer.from("p").toString("base64"),
+    ]);
+  });
+
+  it("surfaces the server's reply when a command is rejected", async () => {
+    const catcher = await startCatcher({ rejectRcpt: true });
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port });
+
+    await expect(transport.send(message)).rejects.toMatchObject({
+      message: "[AOR] SMTP RCPT TO:<ada@example.com> failed: 550 No such user",
+      responseCode: 550,
+    });
+  });
+
+  it("refuses plain text when requireTLS is set and STARTTLS is missing", async () => {
+    const catcher = await startCatcher();
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port, requireTLS: true });
+
+    await expect(transport.send(message)).rejects.toThrow("does not offer STARTTLS");
+    expect(catcher.commands).not.toContain("MAIL FROM:<hello@app.test>");
+  });
+
+  it("sends to Cc and Bcc recipients without writing a Bcc header", async () => {
+    const catcher = await startCatcher();
+    server = catcher.server;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: catcher.port });
+
+    await transport.send({ ...message, to: "ada@example.com", cc: "grace@example.com", bcc: ["audit@app.test", "ada@example.com"] });
+
+    expect(catcher.commands.filter((command) => command.startsWith("RCPT"))).toEqual([
+      "RCPT TO:<ada@example.com>",
+      "RCPT TO:<grace@example.com>",
+      "RCPT TO:<audit@app.test>",
+    ]);
+    expect(catcher.messages[0]).toContain("Cc: grace@example.com\r\n");
+    expect(catcher.messages[0]).not.toContain("audit@app.test");
+  });
+
+  it("rejects header injection before connecting", async () => {
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: 1 });
+    await expect(transport.send({ ...message, subject: "Hi\r\nBcc: evil@example.com" })).rejects.toThrow(
+      'Email header "Subject" contains a line break',
+    );
+  });
+});
+
+describe("MIME encoding", () => {
+  it("builds a multipart/alternative message with base64 parts", () => {
+    const mime = buildMimeMessage(message, {
+      messageId: "id@app.test",
+      date: new Date("2026-01-02T03:04:05Z"),
+      boundary: "b",
+    });
+
+    expect(mime).toContain("Date: Fri, 02 Jan 2026 03:04:05 GMT\r\n");
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="b"');
+    expect(mime).toContain(`Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${Buffer.from(message.text).toString("base64")}`);
+    expect(mime.endsWith("--b--\r\n")).toBe(true);
+  });
+
+  it("wraps the body in multipart/mixed when there are attachments", () => {
+    const mime = buildMimeMessage(
+      {
+        ...message,
+        replyTo: "support@app.test",
+        attachments: [
+          { filename: "report.pdf", content: Buffer.from("%PDF") },
+          { filename: "logo.png", content: "png", contentId: "logo" },
+        ],
+      },
+      { messageId: "id@app.test", boundary: "b" },
+    );
+
+    expect(mime).toContain("Reply-To: support@app.test\r\n");
+    expect(mime).toContain('Content-Type: multipart/mixed; boundary="b"');
+    expect(mime).toContain('--b\r\nContent-Type: multipart/alternative; boundary="b-alt"');
+    expect(mime).toContain(
+      `Content-Type: application/pdf; name="report.pdf"\r\nContent-Transfer-Encoding: base64\r\n` +
+        `Content-Disposition: attachment; filename="report.pdf"\r\n\r\n${Buffer.from("%PDF").toString("base64")}`,
+    );
+    expect(mime).toContain('Content-Disposition: inline; filename="logo.png"\r\nContent-ID: <logo>');
+    expect(mime.endsWith("--b--\r\n")).toBe(true);
+  });
+
+  it("encodes non-ASCII header text", () => {
+    expect(encodeHeaderText("Plain")).toBe("Plain");
+    expect(encodeHeaderText("Café ☕")).toBe(`=?UTF-8?B?${Buffer.from("Café ☕").toString("base64")}?=`);
+  });
+
+  it("dot-stuffs lines that start with a dot", () => {
+    expect(dotStuff(".a\r\nb\r\n.c")).toBe("..a\r\nb\r\n..c");
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * SMTP Transport
+ *
+ * Sends over SMTP with `node:net` / `node:tls` — no mail library needed.
+ * Connects with implicit TLS on port 465, otherwise upgrades with STARTTLS
+ * when the server offers it, and authenticates with AUTH PLAIN or LOGIN.
+ *
+ * Point it at a local catcher such as Mailpit (`SMTP_HOST=localhost
+ * SMTP_PORT=1025`) to inspect real SMTP traffic in development.
+ *
+ * Usage:
+ *   import { createSmtpTransport } from '@vibeonrails/infra/email';
+ *
+ *   const transport = createSmtpTransport({
+ *     host: 'smtp.postmarkapp.com',
+ *     port: 587,
+ *     user: process.env.SMTP_USER,
+ *     pass: process.env.SMTP_PASS,
+ *   });
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as connectTls, type ConnectionOptions, type TLSSocket } from 'node:tls';
+import { contentTypeFor } from '../storage/driver.js';
+import {
+  addressOf,
+  assertEmailMessage,
+  attachmentContent,
+  envelopeRecipients,
+  toAddressList,
+  type EmailAttachment,
+  type EmailMessage,
+  type EmailTransport,
+} from './transport.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SmtpTransportConfig {
+  host: string;
+  /** Port (default: 465 when `secure`, else 587) */
+  port?: number;
+  /** Connect with TLS from the start (default: true on port 465) */
+  secure?: boolean;
+  /** Fail instead of sending in plain text when STARTTLS is not offered (default: false) */
+  requireTLS?: boolean;
+  user?: string;
+  pass?: string;
+  /** Host name sent in EHLO (default: os.hostname()) */
+  name?: string;
+  /** Socket inactivity timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Extra TLS options, e.g. `{ rejectUnauthorized: false }` for a self-signed dev server */
+  tls?: ConnectionOptions;
+}
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// ---------------------------------------------------------------------------
+// MIME
+// ---------------------------------------------------------------------------
+
+const NON_ASCII = /[^\x20-\x7e]/;
+
+/** RFC 2047 encoded word for header text that is not plain ASCII. */
+export function encodeHeaderText(value: string): string {
+  return NON_ASCII.test(value) ? `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=` : value;
+}
+
+/** Encode the display name of `Name <addr>`; the address itself must be ASCII. */
+function encodeAddress(value: string): string {
+  const match = /^\s*(.*?)\s*<([^<>]+)>\s*$/.exec(value);
+  if (!match || !match[1]) return addressOf(value);
+  const name = match[1].replace(/^"(.*)"$/, '$1');
+  return `${NON_ASCII.test(name) ? encodeHeaderText(name) : `"${name.replace(/["\\]/g, '\\$&')}"`} <${match[2]}>`;
+}
+
+function base64Lines(value: string | Buffer): string {
+  const data = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return (data.toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+function attachmentPart(attachment: EmailAttachment): string[] {
+  const type = attachment.contentType ?? contentTypeFor(attachment.filename);
+  const filename = encodeHeaderText(attachment.filename);
+  return [
+    `Content-Type: ${type}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: ${attachment.contentId ? 'inline' : 'attachment'}; filename="${filename}"`,
+    ...(attachment.contentId ? [`Content-ID: <${attachment.contentId}>`] : []),
+    '',
+    base64Lines(attachmentContent(attachment)),
+  ];
+}
+
+/**
+ * Build the RFC 5322 message sent after DATA: headers plus a
+ * multipart/alternative body with the text and HTML parts, wrapped in
+ * multipart/mixed when there are attachments. Bcc is never written.
+ */
+export function buildMimeMessage(
+  message: EmailMessage,
+  options: { messageId: string; date?: Date; boundary?: string },
+): string {
+  const boundary = options.boundary ?? `vor-${randomBytes(12).toString('hex')}`;
+  const attachments = message.attachments ?? [];
+  const cc = toAddressList(message.cc);
+  const replyTo = toAddressList(message.replyTo);
+  const headers: Array<[string, string]> = [
+    ['From', encodeAddress(message.from)],
+    ['To', toAddressList(message.to).map(encodeAddress).join(', ')],
+    ...(cc.length > 0 ? [['Cc', cc.map(encodeAddress).join(', ')] as [string, string]] : []),
+    ...(replyTo.length > 0 ? [['Reply-To', replyTo.map(encodeAddress).join(', ')] as [string, string]] : []),
+    ['Subject', encodeHeaderText(message.subject)],
+    ['Date', (options.date ?? new Date()).toUTCString()],
+    ['Message-ID', `<${options.messageId}>`],
+    ...Object.entries(message.headers ?? {}).map(([name, value]): [string, string] => [name, encodeHeaderText(value)]),
+    ['MIME-Version', '1.0'],
+  ];
+
+  const alternative = attachments.length > 0 ? `${boundary}-alt` : boundary;
+  const textPart = (type: string, body: string) => [
+    `--${alternative}`,
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(body),
+  ];
+  const body = [
+    ...textPart('text/plain', message.text),
+    ...textPart('text/html', message.html),
+    `--${alternative}--`,
+  ];
+
+  const lines =
+    attachments.length === 0
+      ? [`Content-Type: multipart/alternative; boundary="${boundary}"`, '', ...body]
+      : [
+          `Content-Type: multipart/mixed; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          `Content-Type: multipart/alternative; boundary="${alternative}"`,
+          '',
+          ...body,
+          ...attachments.flatMap((attachment) => [`--${boundary}`, ...attachmentPart(attachment)]),
+          `--${boundary}--`,
+        ];
+
+  return [...headers.map(([name, value]) => `${name}: ${value}`), ...lines, ''].join('\r\n');
+}
+
+/** Escape lines starting with a dot, which would otherwise end DATA early. */
+export function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
+
+interface SmtpSession {
+  read(): Promise<SmtpReply>;
+  /** Send a command; `label` names it in errors instead of the line (credentials, message data) */
+  command(line: string, expected: number | number[], label?: string): Promise<SmtpReply>;
+  startTls(options: ConnectionOptions): Promise<void>;
+  close(): void;
+}
+
+function smtpError(context: string, reply: SmtpReply): Error & { responseCode: number } {
+  const error = new Error(`[AOR] SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`) as Error & {
+    responseCode: number;
+  };
+  error.responseCode = reply.code;
+  return error;
+}
+
+function openSession(initial: Socket | TLSSocket, timeout: number): SmtpSession {
+  let socket: Socket | TLSSocket = initial;
+  let buffer = '';
+  let current: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | undefined;
+
+  function onData(chunk: Buffer): void {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      current.push(line.slice(4));
+      // `250-` continues a multi-line reply, `250 ` ends it
+      if (line[3] !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines: current });
+        current = [];
+      }
+    }
+    while (replies.length > 0 && waiting.length > 0) waiting.shift()!.resolve(replies.shift()!);
+  }
+
+  function onError(error: Error): void {
+    failure ??= error;
+    for (const waiter of waiting.splice(0)) waiter.reject(failure);
+  }
+
+  function onClose(): void {
+    onError(new Error('[AOR] SMTP connection closed unexpectedly'));
+  }
+
+  function onTimeout(): void {
+    socket.destroy(new Error(`[AOR] SMTP server did not respond within ${timeout}ms`));
+  }
+
+  function attach(target: Socket | TLSSocket): void {
+    socket = target;
+    socket.setTimeout(timeout);
+    socket.on('timeout', onTimeout);
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+  }
+
+  function detach(): void {
+    socket.setTimeout(0);
+    socket.off('timeout', onTimeout);
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('close', onClose);
+  }
+
+  function read(): Promise<SmtpReply> {
+    if (replies.length > 0) return Promise.resolve(replies.shift()!);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  }
+
+  attach(initial);
+
+  return {
+    read,
+
+    async command(line, expected, label = line) {
+      socket.write(`${line}\r\n`);
+      const reply = await read();
+      if (!(Array.isArray(expected) ? expected : [expected]).includes(reply.code)) throw smtpError(label, reply);
+      return reply;
+    },
+
+    startTls(options) {
+      detach();
+      const plain = socket;
+      return new Promise((resolve, reject) => {
+        const secured = connectTls({ ...options, socket: plain }, () => resolve());
+        secured.once('error', reject);
+        attach(secured);
+      });
+    },
+
+    close() {
+      detach();
+      socket.destroy();
+    },
+  };
+}
+
+function supports(ehlo: SmtpReply, extension: string): string | undefined {
+  return ehlo.lines.find((line) => line.toUpperCase().startsWith(extension));
+}
+
+async function authenticate(session: SmtpSession, ehlo: SmtpReply, user: string, pass: string): Promise<void> {
+  const methods = (supports(ehlo, 'AUTH') ?? '').toUpperCase().split(/[\s=]+/);
+  if (methods.includes('PLAIN') || !methods.includes('LOGIN')) {
+    await session.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass}`).toString('base64')}`, 235, 'AUTH PLAIN');
+    return;
+  }
+  await session.command('AUTH LOGIN', 334);
+  await session.command(Buffer.from(user).toString('base64'), 334, 'AUTH LOGIN (user)');
+  await session.command(Buffer.from(pass).toString('base64'), 235, 'AUTH LOGIN (password)');
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an SMTP transport. Opens one connection per message.
+ */
+export function createSmtpTransport(config: SmtpTransportConfig): EmailTransport {
+  const secure = config.secure ?? config.port === 465;
+  const port = config.port ?? (secure ? 465 : 587);
+  const name = config.name ?? hostname();
+  const timeout = config.timeout ?? 30_000;
+  const tlsOptions: ConnectionOptions = { servername: config.host, ...config.tls };
+
+  function connect(): Promise<Socket | TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host: config.host, port, ...tlsOptions }, () => resolve(socket))
+        : connectTcp({ host: config.host, port }, () => resolve(socket));
+      socket.once('error', (error) =>
+        reject(new Error(`[AOR] Could not connect to SMTP server ${config.host}:${port}: ${error.message}`)),
+      );
+    });
+  }
+
+  return {
+    name: 'smtp',
+
+    async send(message) {
+      assertEmailMessage(message);
+      const sender = addressOf(message.from);
+      const recipients = envelopeRecipients(message);
+      const messageId = `${randomUUID()}@${sender.split('@')[1] ?? name}`;
+      const data = buildMimeMessage(message, { messageId });
+
+      const session = openSession(await connect(), timeout);
+      try {
+        const greeting = await session.read();
+        if (greeting.code !== 220) throw smtpError('greeting', greeting);
+
+        let ehlo = await session.command(`EHLO ${name}`, 250);
+        if (!secure && supports(ehlo, 'STARTTLS')) {
+          await session.command('STARTTLS', 220);
+          await session.startTls(tlsOptions);
+          ehlo = await session.command(`EHLO ${name}`, 250);
+        } else if (!secure && config.requireTLS) {
+          throw new Error(
+            `[AOR] SMTP server ${config.host}:${port} does not offer STARTTLS.\n` +
+              '  Fix: Use port 465 with `secure: true`, or turn off `requireTLS` for a local server.',
+          );
+        }
+
+        if (config.user) await authenticate(session, ehlo, config.user, config.pass ?? '');
+
+        await session.command(`MAIL FROM:<${sender}>`, 250);
+        for (const recipient of recipients) await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        await session.command('DATA', 354);
+        await session.command(`${dotStuff(data)}\r\n.`, 250, 'message data');
+        await session.command('QUIT', 221).catch(() => undefined);
+      } finally {
+        session.close();
+      }
+
+      return { id: messageId, transport: 'smtp' };
+    },
+  };
+}
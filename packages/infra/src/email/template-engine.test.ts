@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { renderString, validateTemplateSource } from './template-engine.js';
+
+describe('renderString', () => {
+  it('should substitute values and nested paths', () => {
+    expect(renderString('Hi {{name}}, {{user.plan}} plan', { name: 'Ada', user: { plan: 'Pro' } })).toBe(
+      'Hi Ada, Pro plan',
+    );
+  });
+
+  it('should escape values only when asked, except triple braces', () => {
+    const data = { name: '<b>Ada</b>' };
+    expect(renderString('{{name}}', data)).toBe('<b>Ada</b>');
+    expect(renderString('{{name}}', data, { escape: true })).toBe('&#60;b&#62;Ada&#60;/b&#62;');
+    expect(renderString('{{{name}}}', data, { escape: true })).toBe('<b>Ada</b>');
+  });
+
+  it('should keep missing values as written', () => {
+    expect(renderString('Hi {{name}} {{{raw}}}', {})).toBe('Hi {{name}} {{{raw}}}');
+  });
+
+  it('should render #if, #unless and else branches', () => {
+    const source = '{{#if trial}}Trial{{else}}Paid{{/if}}/{{#unless paid}}Due{{/unless}}';
+    expect(renderString(source, { trial: true, paid: false })).toBe('Trial/Due');
+    expect(renderString(source, { trial: [], paid: true })).toBe('Paid/');
+  });
+
+  it('should loop with #each, exposing item fields, this and @index', () => {
+    const source = '{{#each items}}{{@index}}:{{name}}@{{shop}} {{/each}}{{#each tags}}[{{this}}]{{else}}none{{/each}}';
+    expect(renderString(source, { shop: 'S', items: [{ name: 'a' }, { name: 'b' }], tags: [] })).toBe(
+      '0:a@S 1:b@S none',
+    );
+  });
+
+  it('should drop lines that only hold a block tag', () => {
+    const source = 'Items:\n{{#each items}}\n- {{this}}\n{{else}}\n  none\n{{/each}}\nDone {{#if a}}yes{{/if}}\n';
+    expect(renderString(source, { items: ['a', 'b'], a: true })).toBe('Items:\n- a\n- b\nDone yes\n');
+    expect(renderString(source, { items: [] })).toBe('Items:\n  none\nDone \n');
+  });
+
+  it('should include partials with the current scope', () => {
+    const partials: Record<string, string> = { row: '- {{name}}', list: '{{#each items}}{{> row}}\n{{/each}}' };
+    expect(renderString('{{> list}}', { items: [{ name: 'a' }] }, { partial: (name) => partials[name] })).toBe('- a\n');
+    expect(() => renderString('{{> nope}}', {}, { partial: () => undefined })).toThrow('partial "nope" not found');
+    expect(() => renderString('{{> self}}', {}, { partial: () => '{{> self}}' })).toThrow('nested more than 10 deep');
+  });
+});
+
+describe('validateTemplateSource', () => {
+  it('should reject unbalanced and unknown blocks', () => {
+    expect(() => validateTemplateSource('{{#if a}}x')).toThrow('{{#if a}} is never closed');
+    expect(() => validateTemplateSource('{{#if a}}x{{/each}}')).toThrow('{{/each}} does not close {{#if a}}');
+    expect(() => validateTemplateSource('{{#with a}}{{/with}}')).toThrow('unknown block');
+    expect(() => validateTemplateSource('{{else}}')).toThrow('{{else}} outside');
+  });
+});
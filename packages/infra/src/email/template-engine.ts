@@ -0,0 +1,239 @@
+/**
+ * Email Template Engine
+ *
+ * A small Handlebars-style language for email templates and layouts:
+ *
+ *   {{name}}                      value (HTML-escaped in HTML output)
+ *   {{{body}}}                    value, never escaped
+ *   {{user.name}}                 nested value
+ *   {{#if trial}}...{{else}}...{{/if}}
+ *   {{#unless paid}}...{{/unless}}
+ *   {{#each items}}{{@index}}. {{name}} — {{amount}}{{else}}No items{{/each}}
+ *   {{> footer}}                  partial
+ *
+ * Inside `#each`, the fields of the current item are in scope (also as
+ * `{{this.field}}`; `{{this}}` is the item itself) and outer values stay
+ * visible. A value that is missing is left as written, so gaps show up in
+ * previews instead of silently rendering as blanks. Block tags on a line of
+ * their own don't leave an empty line behind.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean; source: string }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+export interface RenderStringOptions {
+  /** HTML-escape values (default: false) */
+  escape?: boolean;
+  /** Source of a partial by name; undefined when it does not exist */
+  partial?: (name: string) => string | undefined;
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+const TAG = /\{\{\{\s*([\w.@]+)\s*\}\}\}|\{\{\s*([#/>]?)\s*([^{}]*?)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function templateError(message: string): Error {
+  return new Error(`[AOR] Email template: ${message}`);
+}
+
+/**
+ * Parse template source into a tree of nodes.
+ */
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; keyword: string; inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.inElse) return top.node.otherwise;
+    return top.node.type === 'if' ? top.node.then : top.node.body;
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    const [tag, rawPath, sigil, content] = match;
+    const start = match.index!;
+    let end = start + tag.length;
+
+    // A block tag alone on its line takes the line with it, so blocks don't leave blank lines
+    const isBlock = sigil === '#' || sigil === '/' || (!sigil && content === 'else');
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = source.indexOf('\n', end);
+    if (
+      isBlock &&
+      lineStart >= last &&
+      /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+      /^[ \t\r]*$/.test(source.slice(end, lineEnd === -1 ? source.length : lineEnd))
+    ) {
+      if (lineStart > last) current().push({ type: 'text', value: source.slice(last, lineStart) });
+      end = lineEnd === -1 ? source.length : lineEnd + 1;
+    } else if (start > last) {
+      current().push({ type: 'text', value: source.slice(last, start) });
+    }
+    last = end;
+
+    if (rawPath) {
+      current().push({ type: 'value', path: rawPath, raw: true, source: tag });
+      continue;
+    }
+
+    const [keyword = '', arg = ''] = content!.split(/\s+/, 2);
+    if (sigil === '#') {
+      if (!arg) throw templateError(`${tag} needs a value name`);
+      let node: BlockNode;
+      if (keyword === 'if' || keyword === 'unless') {
+        node = { type: 'if', path: arg, negate: keyword === 'unless', then: [], otherwise: [] };
+      } else if (keyword === 'each') {
+        node = { type: 'each', path: arg, body: [], otherwise: [] };
+      } else {
+        throw templateError(`unknown block ${tag} (use #if, #unless or #each)`);
+      }
+      current().push(node);
+      stack.push({ node, keyword, inElse: false });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.keyword !== keyword) {
+        throw templateError(`${tag} does not close ${open ? `{{#${open.keyword} ${open.node.path}}}` : 'any block'}`);
+      }
+    } else if (sigil === '>') {
+      current().push({ type: 'partial', name: keyword });
+    } else if (keyword === 'else' && !arg) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw templateError('{{else}} outside of an #if, #unless or #each block');
+      top.inElse = true;
+    } else {
+      current().push({ type: 'value', path: content!, raw: false, source: tag });
+    }
+  }
+
+  const open = stack.pop();
+  if (open) throw templateError(`{{#${open.keyword} ${open.node.path}}} is never closed`);
+  if (last < source.length) current().push({ type: 'text', value: source.slice(last) });
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === '') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function property(value: unknown, key: string): unknown {
+  if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+    return undefined;
+  }
+  return (value as Record<string, unknown>)[key];
+}
+
+/** Resolve a dotted path against the scopes, innermost first. */
+function lookup(path: string, scopes: Scope[]): unknown {
+  const innermost = scopes[scopes.length - 1]!;
+  if (path === '@index') return innermost.index;
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+  if (head === 'this') {
+    value = innermost.value;
+  } else {
+    const scope = [...scopes].reverse().find((s) => property(s.value, head!) !== undefined);
+    value = scope ? property(scope.value, head!) : undefined;
+  }
+  for (const key of rest) value = property(value, key);
+  return value;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  options: RenderStringOptions,
+  depth: number,
+): string {
+  let out = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        out += node.value;
+        break;
+      case 'value': {
+        const value = lookup(node.path, scopes);
+        if (value === undefined) out += node.source;
+        else out += options.escape && !node.raw ? escapeHtml(formatValue(value)) : formatValue(value);
+        break;
+      }
+      case 'if': {
+        const present = isPresent(lookup(node.path, scopes));
+        out += renderNodes(present !== node.negate ? node.then : node.otherwise, scopes, options, depth);
+        break;
+      }
+      case 'each': {
+        const list = lookup(node.path, scopes);
+        if (!Array.isArray(list) || list.length === 0) {
+          out += renderNodes(node.otherwise, scopes, options, depth);
+          break;
+        }
+        list.forEach((item, index) => {
+          out += renderNodes(node.body, [...scopes, { value: item, index }], options, depth);
+        });
+        break;
+      }
+      case 'partial': {
+        if (depth >= MAX_PARTIAL_DEPTH) throw templateError(`partials nested more than ${MAX_PARTIAL_DEPTH} deep at {{> ${node.name}}}`);
+        const source = options.partial?.(node.name);
+        if (source === undefined) throw templateError(`partial "${node.name}" not found`);
+        out += renderNodes(parse(source), scopes, options, depth + 1);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Render template source with data.
+ */
+export function renderString(
+  source: string,
+  data: Record<string, unknown> = {},
+  options: RenderStringOptions = {},
+): string {
+  return renderNodes(parse(source), [{ value: data }], options, 0);
+}
+
+/**
+ * Check that template source is well-formed; throws a descriptive error if not.
+ */
+export function validateTemplateSource(source: string): void {
+  parse(source);
+}
@@ -0,0 +1,114 @@
+/**
+ * Email Template Variables
+ *
+ * Templates declare their data in frontmatter, the same way prompt files
+ * do in `@vibeonrails/ai`:
+ *
+ *   ---
+ *   subject: Invoice #{{invoiceNumber}}
+ *   variables:
+ *     - name: string
+ *     - invoiceNumber: number
+ *     - trial?: boolean
+ *     - items: { description: string, amount: string }[]
+ *   ---
+ *
+ * Data is validated against the declarations when the email is rendered,
+ * and `generateEmailTypes()` (`vibe generate email-types`) turns them into
+ * TypeScript types for `sendEmail()`.
+ *
+ * Types: `string`, `number`, `boolean`, lists (`string[]`), and objects
+ * of those, alone or in a list (`{ a: string, b?: number[] }[]`).
+ */
+
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EMAIL_VARIABLE_SCALARS = ['string', 'number', 'boolean'] as const;
+
+export interface EmailVariable {
+  /** Declared type, e.g. `string` or `{ name: string }[]` */
+  type: string;
+  optional: boolean;
+}
+
+interface ParsedType {
+  schema: z.ZodTypeAny;
+  ts: string;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function scalarType(type: string, source: string): ParsedType {
+  switch (type) {
+    case 'string':
+      return { schema: z.string(), ts: 'string' };
+    case 'number':
+      return { schema: z.number(), ts: 'number' };
+    case 'boolean':
+      return { schema: z.boolean(), ts: 'boolean' };
+    default:
+      throw new Error(
+        `[AOR] ${source}: unknown variable type "${type}".\n` +
+          `  Fix: Use ${EMAIL_VARIABLE_SCALARS.join(', ')}, a list of them (string[]) or an object ({ a: string }).`,
+      );
+  }
+}
+
+function parseType(type: string, source: string): ParsedType {
+  const trimmed = type.trim();
+  if (trimmed.endsWith('[]')) {
+    const item = parseType(trimmed.slice(0, -2), source);
+    const ts = item.ts.startsWith('{') ? `Array<${item.ts}>` : `${item.ts}[]`;
+    return { schema: z.array(item.schema), ts };
+  }
+
+  const object = /^\{(.*)\}$/.exec(trimmed);
+  if (!object) return scalarType(trimmed, source);
+
+  const shape: z.ZodRawShape = {};
+  const fields: string[] = [];
+  for (const field of object[1]!.split(/[,;]/).map((f) => f.trim()).filter(Boolean)) {
+    const match = /^(\w+)(\?)?\s*:\s*(\w+(?:\[\])?)$/.exec(field);
+    if (!match) throw new Error(`[AOR] ${source}: cannot parse object field "${field}" in "${trimmed}"`);
+    const [, name, optional, fieldType] = match;
+    const parsed = parseType(fieldType!, source);
+    shape[name!] = optional ? parsed.schema.optional() : parsed.schema;
+    fields.push(`${name}${optional ? '?' : ''}: ${parsed.ts}`);
+  }
+  return { schema: z.object(shape), ts: `{ ${fields.join('; ')} }` };
+}
+
+/**
+ * Check a declared type; throws with the template name on a bad one.
+ */
+export function assertVariableType(type: string, source: string): void {
+  parseType(type, source);
+}
+
+/**
+ * Zod schema for declared variables. Undeclared keys are allowed through.
+ */
+export function variablesSchema(variables: Record<string, EmailVariable>, source = 'template'): z.ZodTypeAny {
+  const shape: z.ZodRawShape = {};
+  for (const [name, variable] of Object.entries(variables)) {
+    const { schema } = parseType(variable.type, source);
+    shape[name] = variable.optional ? schema.optional() : schema;
+  }
+  return z.object(shape).passthrough();
+}
+
+/**
+ * TypeScript object type for declared variables.
+ */
+export function variablesTypeScript(variables: Record<string, EmailVariable>, source = 'template'): string {
+  const fields = Object.entries(variables).map(
+    ([name, variable]) => `${name}${variable.optional ? '?' : ''}: ${parseType(variable.type, source).ts};`,
+  );
+  return fields.length === 0 ? 'Record<string, never>' : `{ ${fields.join(' ')} }`;
+}
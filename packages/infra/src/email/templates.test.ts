@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { parseTemplate, renderTemplate } from './templates.js';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { generateEmailTypes, loadTemplate, localeChain, parseTemplate, renderTemplate } from './templates.js';
 
 describe('parseTemplate', () => {
   it('should parse frontmatter with subject and preheader', () => {
@@ -37,6 +40,29 @@ Body here.`;
     expect(template.subject).toBe('Test Subject');
     expect(template.preheader).toBeUndefined();
   });
+
+  it('should unquote values and parse variable declarations', () => {
+    const content = `---
+subject: "Invoice #{{number}}"
+variables:
+  - number: number
+  - note?: string
+---
+Body`;
+
+    const template = parseTemplate(content, 'invoice');
+
+    expect(template.subject).toBe('Invoice #{{number}}');
+    expect(template.variables).toEqual({
+      number: { type: 'number', optional: false },
+      note: { type: 'string', optional: true },
+    });
+  });
+
+  it('should reject unknown variable types and malformed blocks', () => {
+    expect(() => parseTemplate('---\nvariables:\n  - a: date\n---\nx', 'bad')).toThrow('bad: unknown variable type "date"');
+    expect(() => parseTemplate('{{#if a}}x', 'bad')).toThrow('never closed');
+  });
 });
 
 describe('renderTemplate', () => {
@@ -79,4 +105,94 @@ describe('renderTemplate', () => {
     expect(result.html).toContain('Plain text body');
     expect(result.text).toBe('Plain text body');
   });
+
+  it('should escape data in HTML but not in text', () => {
+    const result = renderTemplate({ subject: 'Hi', body: 'Hello {{name}}' }, { name: '<script>' });
+
+    expect(result.html).toContain('Hello &#60;script&#62;');
+    expect(result.text).toBe('Hello <script>');
+  });
+
+  it('should validate data against declared variables', () => {
+    const template = parseTemplate('---\nvariables:\n  - items: { name: string }[]\n---\n{{#each items}}{{name}}{{/each}}', 'list');
+
+    expect(renderTemplate(template, { items: [{ name: 'a' }] }).text).toBe('a');
+    expect(() => renderTemplate(template, { items: [{ name: 1 }] })).toThrow(
+      'Invalid data for email template "list": items.0.name: Expected string, received number',
+    );
+  });
+});
+
+describe('loadTemplate', () => {
+  let root: string;
+  const write = (path: string, content: string) => {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  };
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'vibe-templates-'));
+    write('locales/en/emails/welcome.md', '---\nsubject: Welcome\nvariables:\n  - name: string\n---\nHi {{name}}\n\n{{> footer}}');
+    write('locales/en/emails/receipt.md', '---\nsubject: Receipt\nlayout: none\n---\nThanks');
+    write('locales/en/emails/_partials/footer.md', 'The Team');
+    write('locales/en/emails/_layouts/default.html', '<main><title>{{subject}}</title>{{{body}}}</main>');
+    write('locales/en/emails/_layouts/default.txt', '{{{body}}}\n--\nsent by app');
+    write('locales/pt/emails/welcome.md', '---\nsubject: Bem-vindo\n---\nOlá {{name}}\n\n{{> footer}}');
+    write('locales/pt/emails/_partials/footer.md', 'A Equipe');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should build locale fallback chains', () => {
+    expect(localeChain('pt-BR', 'en')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(localeChain('en', 'en')).toEqual(['en']);
+  });
+
+  it('should render the layout and partials', async () => {
+    const template = await loadTemplate('welcome', 'en', { root });
+    const result = renderTemplate(template, { name: 'Ada' });
+
+    expect(template.locale).toBe('en');
+    expect(result.html).toBe('<main><title>Welcome</title><p>Hi Ada</p><p>The Team</p></main>');
+    expect(result.text).toBe('Hi Ada\n\nThe Team\n--\nsent by app');
+  });
+
+  it('should fall back along the locale chain, preferring translated partials', async () => {
+    const template = await loadTemplate('welcome', 'pt-BR', { root });
+
+    expect(template.locale).toBe('pt');
+    expect(renderTemplate(template, { name: 'Ada' }).text).toContain('Olá Ada\n\nA Equipe');
+    expect((await loadTemplate('receipt', 'pt-BR', { root })).locale).toBe('en');
+  });
+
+  it('should skip the layout with layout: none', async () => {
+    const result = renderTemplate(await loadTemplate('receipt', 'en', { root }));
+    expect(result.html).not.toContain('<main>');
+    expect(result.text).toBe('Thanks');
+  });
+
+  it('should list every path searched when a template is missing', async () => {
+    await expect(loadTemplate('nope', 'pt-BR', { root })).rejects.toThrow(join(root, 'locales/pt/emails/nope.md'));
+    await expect(loadTemplate('../secrets', 'en', { root })).rejects.toThrow('Invalid email template name');
+  });
+});
+
+describe('generateEmailTypes', () => {
+  it('should emit a module augmentation from variable declarations', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'vibe-email-types-'));
+    mkdirSync(join(root, 'locales/en/emails/_partials'), { recursive: true });
+    writeFileSync(join(root, 'locales/en/emails/welcome.md'), '---\nvariables:\n  - name: string\n  - trial?: boolean\n---\nHi');
+    writeFileSync(join(root, 'locales/en/emails/plain.md'), 'Hi');
+    writeFileSync(join(root, 'locales/en/emails/_partials/footer.md'), 'Bye');
+
+    const source = await generateEmailTypes({ root });
+    rmSync(root, { recursive: true, force: true });
+
+    expect(source).toContain("declare module '@vibeonrails/infra/email' {");
+    expect(source).toContain('    "plain": Record<string, unknown>;');
+    expect(source).toContain('    "welcome": { name: string; trial?: boolean; };');
+    expect(source).not.toContain('footer');
+  });
 });
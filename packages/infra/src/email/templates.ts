@@ -1,121 +1,315 @@
 /**
- * Email Template Engine
+ * Email Templates
  *
- * Loads Markdown templates from content/locales/{lang}/emails/,
- * parses frontmatter for subject/preheader, and renders variables.
+ * Loads Markdown templates from content/locales/{lang}/emails/, parses
+ * frontmatter for subject/preheader/layout/variables, and renders them to
+ * HTML and plain text with the template engine (see template-engine.ts).
  *
  * Template format:
  * ---
  * subject: Welcome to {{appName}}, {{name}}!
  * preheader: Your account is ready
+ * layout: default
+ * variables:
+ *   - name: string
+ *   - appName: string
  * ---
  * # Welcome, {{name}}!
- * Body content here...
+ * {{#if trial}}Your trial ends in 14 days.{{/if}}
+ * {{> signature}}
+ *
+ * Next to the templates:
+ * - `_layouts/<name>.html` wraps the HTML body at `{{{body}}}` (and
+ *   `_layouts/<name>.txt` the text body). `default` is used when it exists;
+ *   `layout: none` opts out.
+ * - `_partials/<name>.md` is included with `{{> name}}` in templates;
+ *   HTML and text layouts include `_partials/<name>.html` / `.txt`.
+ *
+ * Each file is looked up along a locale fallback chain: `pt-BR` → `pt` → `en`.
  */
 
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { escapeHtml, renderString, validateTemplateSource } from './template-engine.js';
+import {
+  assertVariableType,
+  variablesSchema,
+  variablesTypeScript,
+  type EmailVariable,
+} from './template-types.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Template data: strings, numbers, booleans, lists and objects of them */
+export type EmailData = Record<string, unknown>;
+
+export interface EmailLayout {
+  name: string;
+  html: string;
+  text?: string;
+}
+
+/** Sources of one partial, by extension */
+export type EmailPartial = Partial<Record<'md' | 'html' | 'txt', string>>;
 
 export interface EmailTemplate {
+  /** Template name, when loaded from a file */
+  name?: string;
+  /** Locale the template file was found in */
+  locale?: string;
   subject: string;
   preheader?: string;
+  /** Layout from frontmatter (`none` for no layout) */
+  layout?: string;
+  /** Declared variables; data is validated against them when present */
+  variables?: Record<string, EmailVariable>;
   body: string;
+  /** Layout loaded by `loadTemplate()` */
+  resolvedLayout?: EmailLayout;
+  /** Partials loaded by `loadTemplate()` */
+  partials?: Record<string, EmailPartial>;
 }
 
 export interface RenderedEmail {
   subject: string;
+  preheader?: string;
   html: string;
   text: string;
 }
 
+export interface LoadTemplateOptions {
+  /** Content directory (default: <cwd>/content) */
+  root?: string;
+  /** Last locale of every fallback chain (default: EMAIL_DEFAULT_LOCALE or 'en') */
+  defaultLocale?: string;
+}
+
+export interface GenerateEmailTypesOptions {
+  /** Content directory (default: <cwd>/content) */
+  root?: string;
+  /** Locale whose templates define the types (default: 'en') */
+  locale?: string;
+}
+
+const TEMPLATE_NAME = /^[\w-]+(\/[\w-]+)*$/;
+const LOCALE = /^[a-z]{2,3}([-_][a-z0-9]{2,8})*$/i;
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Locales to try for a requested locale, most specific first:
+ * `localeChain('pt-BR')` → `['pt-BR', 'pt', 'en']`.
+ */
+export function localeChain(locale: string, defaultLocale = process.env.EMAIL_DEFAULT_LOCALE ?? 'en'): string[] {
+  const chain: string[] = [];
+  const parts = locale.split(/[-_]/);
+  for (let i = parts.length; i > 0; i--) chain.push(parts.slice(0, i).join('-'));
+  if (locale.includes('_')) chain.unshift(locale);
+  chain.push(defaultLocale);
+  return [...new Set(chain)];
+}
+
+async function readFirst(paths: string[]): Promise<{ path: string; content: string } | undefined> {
+  for (const path of paths) {
+    try {
+      return { path, content: await readFile(path, 'utf-8') };
+    } catch {
+      // try the next locale
+    }
+  }
+  return undefined;
+}
+
+async function loadPartials(dirs: string[]): Promise<Record<string, EmailPartial>> {
+  const partials: Record<string, EmailPartial> = {};
+  // Least specific first, so a translated partial replaces the default one
+  for (const dir of [...dirs].reverse()) {
+    const files = await readdir(join(dir, '_partials')).catch(() => [] as string[]);
+    for (const file of files) {
+      const match = /^([\w-]+)\.(md|html|txt)$/.exec(file);
+      if (!match) continue;
+      const [, name, ext] = match as unknown as [string, string, keyof EmailPartial];
+      // Drop the file's final newline so `{{> name}}` can sit inside a line
+      const source = await readFile(join(dir, '_partials', file), 'utf-8');
+      (partials[name] ??= {})[ext] = source.replace(/\r?\n$/, '');
+    }
+  }
+  return partials;
+}
+
 /**
- * Load an email template from the content directory.
+ * Load an email template from the content directory, with its layout and
+ * partials, falling back along the locale chain.
  *
  * @param name - Template name (without .md extension)
- * @param locale - Locale directory (default: 'en')
- * @returns Parsed template with subject and body
+ * @param locale - Preferred locale (default: 'en')
+ * @returns Parsed template ready for `renderTemplate()`
  */
 export async function loadTemplate(
   name: string,
   locale = 'en',
+  options: LoadTemplateOptions = {},
 ): Promise<EmailTemplate> {
-  const templatePath = join(
-    process.cwd(),
-    'content',
-    'locales',
-    locale,
-    'emails',
-    `${name}.md`,
-  );
-
-  let content: string;
-  try {
-    content = await readFile(templatePath, 'utf-8');
-  } catch {
+  if (!TEMPLATE_NAME.test(name)) throw new Error(`[AOR] Invalid email template name "${name}"`);
+  if (!LOCALE.test(locale)) throw new Error(`[AOR] Invalid locale "${locale}"`);
+
+  const root = options.root ?? join(process.cwd(), 'content');
+  const locales = localeChain(locale, options.defaultLocale);
+  const dirs = locales.map((l) => join(root, 'locales', l, 'emails'));
+
+  const found = await readFirst(dirs.map((dir) => join(dir, `${name}.md`)));
+  if (!found) {
     throw new Error(
       `[AOR] Email template not found: ${name}\n` +
-      `  Expected path: ${templatePath}\n` +
-      `  Fix: Create the template file at the path above.\n` +
-      `  Docs: https://vibeonrails.dev/errors/EMAIL_TEMPLATE_NOT_FOUND`,
+        `  Looked in:\n${dirs.map((dir) => `    ${join(dir, `${name}.md`)}`).join('\n')}\n` +
+        `  Fix: Create the template file at one of the paths above.\n` +
+        `  Docs: https://vibeonrails.dev/errors/EMAIL_TEMPLATE_NOT_FOUND`,
     );
   }
 
-  return parseTemplate(content);
+  const template = parseTemplate(found.content, name);
+  template.locale = locales[dirs.findIndex((dir) => found.path.startsWith(dir + sep))];
+  template.partials = await loadPartials(dirs);
+
+  const layoutName = template.layout ?? 'default';
+  if (layoutName !== 'none') {
+    const html = await readFirst(dirs.map((dir) => join(dir, '_layouts', `${layoutName}.html`)));
+    if (html) {
+      const text = await readFirst(dirs.map((dir) => join(dir, '_layouts', `${layoutName}.txt`)));
+      template.resolvedLayout = { name: layoutName, html: html.content, text: text?.content };
+    } else if (template.layout) {
+      throw new Error(
+        `[AOR] Email layout "${layoutName}" not found (used by template "${name}").\n` +
+          `  Fix: Create ${join(dirs[dirs.length - 1]!, '_layouts', `${layoutName}.html`)}, or remove \`layout:\` from the template.`,
+      );
+    }
+  }
+
+  return template;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
 }
 
 /**
- * Parse a Markdown template string into subject, preheader, and body.
+ * Parse a Markdown template string into subject, preheader, layout,
+ * declared variables and body.
+ *
+ * @param name - Template name, for error messages
  */
-export function parseTemplate(content: string): EmailTemplate {
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+export function parseTemplate(content: string, name?: string): EmailTemplate {
+  const source = name ?? 'template';
+  const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
 
   if (!frontmatterMatch) {
+    validateTemplateSource(content);
     return {
       subject: '(No subject)',
       body: content.trim(),
     };
   }
 
-  const frontmatter = frontmatterMatch[1];
-  const body = frontmatterMatch[2].trim();
+  const fields: Record<string, string> = {};
+  let variables: Record<string, EmailVariable> | undefined;
+  let inVariables = false;
 
-  const subjectMatch = frontmatter.match(/^subject:\s*(.+)$/m);
-  const preheaderMatch = frontmatter.match(/^preheader:\s*(.+)$/m);
+  for (const line of frontmatterMatch[1]!.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
 
-  return {
-    subject: subjectMatch?.[1]?.trim() ?? '(No subject)',
-    preheader: preheaderMatch?.[1]?.trim(),
-    body,
+    const item = /^\s+-\s*(\w+)(\?)?\s*:\s*(.+?)\s*$/.exec(line);
+    if (inVariables && item) {
+      const [, name, optional, type] = item;
+      assertVariableType(type!, source);
+      variables![name!] = { type: type!, optional: Boolean(optional) };
+      continue;
+    }
+
+    const field = /^(\w+)\s*:\s*(.*)$/.exec(line);
+    if (!field) continue;
+    inVariables = field[1] === 'variables';
+    if (inVariables) variables = {};
+    else fields[field[1]!] = unquote(field[2]!);
+  }
+
+  const template: EmailTemplate = {
+    subject: fields.subject || '(No subject)',
+    preheader: fields.preheader || undefined,
+    body: frontmatterMatch[2]!.trim(),
   };
+  if (name) template.name = name;
+  if (fields.layout) template.layout = fields.layout;
+  if (variables) template.variables = variables;
+
+  validateTemplateSource(template.subject);
+  validateTemplateSource(template.body);
+  return template;
 }
 
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
 /**
- * Render a template by replacing {{variable}} placeholders with data.
+ * Render a template with data.
  *
  * @param template - Parsed email template
- * @param data - Variable substitution data
+ * @param data - Template data, validated against declared variables
  * @returns Rendered email with subject, HTML, and plain text
  */
 export function renderTemplate(
   template: EmailTemplate,
-  data?: Record<string, string>,
+  data: EmailData = {},
 ): RenderedEmail {
-  const replace = (text: string): string => {
-    if (!data) return text;
-    return text.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => data[key] ?? `{{${key}}}`);
-  };
+  const label = template.name ?? 'template';
+  if (template.variables) {
+    const parsed = variablesSchema(template.variables, label).safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(data)'}: ${issue.message}`);
+      throw new Error(`[AOR] Invalid data for email template "${label}": ${issues.join('; ')}`);
+    }
+  }
 
-  const subject = replace(template.subject);
-  const bodyText = replace(template.body);
+  const partials = template.partials ?? {};
+  const partial = (...exts: Array<keyof EmailPartial>) => (name: string) =>
+    exts.map((ext) => partials[name]?.[ext]).find((source) => source !== undefined);
 
-  // Simple Markdown-to-HTML conversion for common patterns
-  const html = markdownToHtml(bodyText);
+  const subject = renderString(template.subject, data);
+  const preheader = template.preheader ? renderString(template.preheader, data) : undefined;
+  const text = renderString(template.body, data, { partial: partial('md') });
+  // Values are escaped before Markdown conversion, so data cannot inject markup
+  const body = markdownToHtml(renderString(template.body, data, { escape: true, partial: partial('md') }));
 
-  return {
-    subject,
-    html,
-    text: bodyText,
-  };
+  const layout = template.resolvedLayout;
+  if (!layout) {
+    return { subject, preheader, html: defaultLayout(body, preheader), text };
+  }
+
+  const html = renderString(layout.html, { ...data, subject, preheader, body }, { escape: true, partial: partial('html') });
+  const layoutText = layout.text
+    ? renderString(layout.text, { ...data, subject, preheader, body: text }, { partial: partial('txt', 'md') })
+    : text;
+  return { subject, preheader, html, text: layoutText };
+}
+
+/**
+ * Wrapper used when no layout applies. The preheader is the hidden preview
+ * text most mail clients show next to the subject.
+ */
+function defaultLayout(body: string, preheader?: string): string {
+  const hidden = preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden">${escapeHtml(preheader)}</div>`
+    : '';
+  return `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">${hidden}${body}</div>`;
 }
 
 /**
@@ -142,5 +336,55 @@ function markdownToHtml(markdown: string): string {
     // Single newlines → <br>
     .replace(/\n/g, '<br>');
 
-  return `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;"><p>${html}</p></div>`;
+  return `<p>${html}</p>`;
+}
+
+// ---------------------------------------------------------------------------
+// Code generation
+// ---------------------------------------------------------------------------
+
+async function findTemplates(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    // _layouts and _partials are not templates
+    if (entry.name.startsWith('_')) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await findTemplates(path)));
+    else if (entry.name.endsWith('.md')) files.push(path);
+  }
+  return files.sort();
+}
+
+/**
+ * Generate a declaration file that types `sendEmail()` data from the
+ * templates' `variables:` declarations. Templates without declarations
+ * accept any data.
+ *
+ * @returns TypeScript source, e.g. for `src/generated/email-templates.d.ts`
+ */
+export async function generateEmailTypes(options: GenerateEmailTypesOptions = {}): Promise<string> {
+  const root = options.root ?? join(process.cwd(), 'content');
+  const dir = join(root, 'locales', options.locale ?? 'en', 'emails');
+
+  const entries: string[] = [];
+  for (const file of await findTemplates(dir)) {
+    const name = relative(dir, file).slice(0, -'.md'.length).split(sep).join('/');
+    const template = parseTemplate(await readFile(file, 'utf-8'), name);
+    const type = template.variables ? variablesTypeScript(template.variables, name) : 'Record<string, unknown>';
+    entries.push(`    ${JSON.stringify(name)}: ${type};`);
+  }
+
+  return [
+    '// Generated by `vibe generate email-types` from content/locales/*/emails. Do not edit.',
+    '',
+    "import '@vibeonrails/infra/email';",
+    '',
+    "declare module '@vibeonrails/infra/email' {",
+    '  interface EmailTemplates {',
+    ...entries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
 }
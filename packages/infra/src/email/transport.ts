@@ -0,0 +1,113 @@
+/**
+ * Email Transport
+ *
+ * The interface every email transport implements, and the message shape
+ * they send. A transport delivers a rendered message; templates are
+ * rendered before it is called.
+ *
+ * Transports:
+ * - `createResendTransport()` — Resend HTTP API
+ * - `createSmtpTransport()` — any SMTP server (Postmark, SES, Mailpit, ...)
+ * - `createOutboxTransport()` — writes messages to disk for preview (dev, tests)
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'outbox'] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | Uint8Array | string;
+  /** MIME type (default: inferred from the file name) */
+  contentType?: string;
+  /** Set to embed the file inline, referenced as `<img src="cid:...">` (SMTP and outbox only) */
+  contentId?: string;
+}
+
+export interface EmailMessage {
+  /** Sender, `addr@example.com` or `Name <addr@example.com>` */
+  from: string;
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+  /** Extra headers, e.g. `List-Unsubscribe` */
+  headers?: Record<string, string>;
+}
+
+export interface SentEmail {
+  /** Provider message id (the Message-ID for SMTP and the outbox) */
+  id: string;
+  transport: EmailTransportName;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function toAddressList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map((address) => address.trim()).filter(Boolean);
+}
+
+/** Every envelope recipient: To, Cc and Bcc, without duplicates. */
+export function envelopeRecipients(message: EmailMessage): string[] {
+  return [
+    ...new Set(
+      [...toAddressList(message.to), ...toAddressList(message.cc), ...toAddressList(message.bcc)].map(addressOf),
+    ),
+  ];
+}
+
+/** Attachment content as a Buffer. */
+export function attachmentContent(attachment: EmailAttachment): Buffer {
+  return typeof attachment.content === 'string' ? Buffer.from(attachment.content, 'utf8') : Buffer.from(attachment.content);
+}
+
+/** Bare address of `Name <addr@example.com>` or `addr@example.com`. */
+export function addressOf(value: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(value);
+  return (match ? match[1]! : value).trim();
+}
+
+/**
+ * Reject header values with line breaks, which would let user input (a name,
+ * a subject) inject extra headers or recipients.
+ */
+export function assertHeaderValue(name: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`[AOR] Email header "${name}" contains a line break`);
+  }
+}
+
+export function assertEmailMessage(message: EmailMessage): void {
+  if (toAddressList(message.to).length === 0) {
+    throw new Error('[AOR] Email has no recipient.\n  Fix: Pass at least one address in `to`.');
+  }
+  assertHeaderValue('From', message.from);
+  assertHeaderValue('Subject', message.subject);
+  const addresses = { To: message.to, Cc: message.cc, Bcc: message.bcc, 'Reply-To': message.replyTo };
+  for (const [header, value] of Object.entries(addresses)) {
+    for (const address of toAddressList(value)) assertHeaderValue(header, address);
+  }
+  for (const [name, value] of Object.entries(message.headers ?? {})) assertHeaderValue(name, value);
+  for (const attachment of message.attachments ?? []) {
+    if (!attachment.filename || /[\r\n"\\/]/.test(attachment.filename)) {
+      throw new Error(`[AOR] Invalid attachment file name "${attachment.filename}"`);
+    }
+    if (attachment.contentType) assertHeaderValue('Content-Type', attachment.contentType);
+    if (attachment.contentId) assertHeaderValue('Content-ID', attachment.contentId);
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { createFlagService, type FlagRedisLike } from './flags.js';
 import type { FlagConfig } from './types.js';
 
@@ -164,3 +164,225 @@ describe('Feature Flags — with Redis overrides', () => {
     expect(checkout!.definedValue).toBe(false);
   });
 });
+
+const targetingConfig: FlagConfig = {
+  version: 1,
+  segments: [
+    { name: 'staff', users: ['user-ops'], conditions: [{ attribute: 'email', operator: 'matches', pattern: '@example\\.com$' }] },
+  ],
+  flags: [
+    {
+      name: 'new-dashboard',
+      defaultValue: false,
+      rules: [
+        { users: ['user-1'] },
+        { segments: ['staff'] },
+        { conditions: [{ attribute: 'plan', operator: 'in', values: ['pro', 'team'] }] },
+        { conditions: [{ attribute: 'org.country', operator: 'equals', value: 'DE', negate: true }], percentage: 0 },
+      ],
+    },
+    {
+      name: 'checkout-copy',
+      type: 'multivariate',
+      defaultValue: 'control',
+      variants: { control: 'Buy now', urgent: 'Only 3 left!', layout: { columns: 2 } },
+      rules: [
+        { conditions: [{ attribute: 'roles', operator: 'equals', value: 'tester' }], serve: 'layout' },
+        { conditions: [{ attribute: 'country', operator: 'equals', value: 'FR' }], serve: false },
+        { conditions: [{ attribute: 'beta', operator: 'equals', value: true }], serve: { control: 50, urgent: 50 } },
+      ],
+    },
+    {
+      name: 'black-friday',
+      defaultValue: true,
+      schedule: { start: '2026-11-27T00:00:00Z', end: '2026-11-28T00:00:00Z' },
+    },
+  ],
+};
+
+describe('Feature Flags — targeting rules', () => {
+  it('should enable allowlisted users', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    expect(await service.evaluate('new-dashboard', { userId: 'user-1' })).toMatchObject({
+      enabled: true,
+      reason: 'rule',
+      rule: 0,
+    });
+    expect(await service.evaluate('new-dashboard', { userId: 'user-2' })).toMatchObject({
+      enabled: false,
+      reason: 'default',
+    });
+  });
+
+  it('should match segments by user id or conditions', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    expect(await service.isEnabled('new-dashboard', { userId: 'user-ops' })).toBe(true);
+    expect(await service.isEnabled('new-dashboard', { attributes: { email: 'ana@example.com' } })).toBe(true);
+    expect(await service.isEnabled('new-dashboard', { attributes: { email: 'ana@example.org' } })).toBe(false);
+  });
+
+  it('should match attribute in-lists', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    expect(await service.isEnabled('new-dashboard', { attributes: { plan: 'team' } })).toBe(true);
+    expect(await service.isEnabled('new-dashboard', { attributes: { plan: 'free' } })).toBe(false);
+  });
+
+  it('should apply the rule percentage after its conditions', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    // Matches the negated country condition, but 0% of users get it
+    expect(await service.evaluate('new-dashboard', { attributes: { org: { country: 'US' } } })).toMatchObject({
+      enabled: false,
+      reason: 'default',
+    });
+  });
+
+  it('should reject unknown segments and invalid patterns', () => {
+    expect(() =>
+      createFlagService({
+        config: { flags: [{ name: 'x', defaultValue: true, rules: [{ segments: ['nope'] }] }] },
+      }),
+    ).toThrow('x: unknown segment');
+    expect(() =>
+      createFlagService({
+        config: {
+          flags: [
+            {
+              name: 'x',
+              defaultValue: true,
+              rules: [{ conditions: [{ attribute: 'email', operator: 'matches', pattern: '(' }] }],
+            },
+          ],
+        },
+      }),
+    ).toThrow('Invalid regular expression');
+  });
+});
+
+describe('Feature Flags — multivariate', () => {
+  it('should serve the default variant', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    expect(await service.getVariant('checkout-copy')).toEqual({ key: 'control', value: 'Buy now' });
+    expect(await service.isEnabled('checkout-copy')).toBe(true);
+  });
+
+  it('should serve JSON variants and match array attributes', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    const variant = await service.getVariant<{ columns: number }>('checkout-copy', {
+      attributes: { roles: ['admin', 'tester'] },
+    });
+    expect(variant).toEqual({ key: 'layout', value: { columns: 2 } });
+  });
+
+  it('should turn off when a rule serves false', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    const result = await service.evaluate('checkout-copy', { attributes: { country: 'FR' } });
+    expect(result).toMatchObject({ enabled: false, variant: null, reason: 'rule', rule: 1 });
+  });
+
+  it('should split weighted variants deterministically by user', async () => {
+    const service = createFlagService({ config: targetingConfig });
+    const keys = new Set<string>();
+    for (let i = 0; i < 50; i++) {
+      const context = { userId: `user-${i}`, attributes: { beta: true } };
+      const first = await service.getVariant('checkout-copy', context);
+      const second = await service.getVariant('checkout-copy', context);
+      expect(second).toEqual(first);
+      keys.add(first!.key);
+    }
+    expect([...keys].sort()).toEqual(['control', 'urgent']);
+  });
+
+  it('should reject unknown variant keys', () => {
+    expect(() =>
+      createFlagService({
+        config: {
+          flags: [{ name: 'x', type: 'multivariate', defaultValue: 'b', variants: { a: 1 } }],
+        },
+      }),
+    ).toThrow('x: unknown variant');
+  });
+});
+
+describe('Feature Flags — schedules', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only be on inside the schedule window', async () => {
+    const service = createFlagService({ config: targetingConfig });
+
+    vi.useFakeTimers({ now: new Date('2026-11-26T23:59:59Z') });
+    expect(await service.evaluate('black-friday')).toMatchObject({ enabled: false, reason: 'scheduled' });
+
+    vi.setSystemTime(new Date('2026-11-27T12:00:00Z'));
+    expect(await service.isEnabled('black-friday')).toBe(true);
+    expect((await service.list()).find((f) => f.name === 'black-friday')!.active).toBe(true);
+
+    vi.setSystemTime(new Date('2026-11-28T00:00:00Z'));
+    expect(await service.isEnabled('black-friday')).toBe(false);
+  });
+
+  it('should let a runtime override win over the schedule', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const service = createFlagService({ config: targetingConfig, redis: createMockRedis(), auditLogger: vi.fn() });
+
+    await service.toggle('black-friday', true);
+    expect(await service.evaluate('black-friday')).toMatchObject({ enabled: true, reason: 'override' });
+  });
+
+  it('should reject a window that ends before it starts', () => {
+    expect(() =>
+      createFlagService({
+        config: {
+          flags: [
+            { name: 'x', defaultValue: true, schedule: { start: '2026-02-01T00:00:00Z', end: '2026-01-01T00:00:00Z' } },
+          ],
+        },
+      }),
+    ).toThrow('schedule.start must be before schedule.end');
+  });
+});
+
+describe('Feature Flags — audit', () => {
+  it('should record toggles with the actor', async () => {
+    const auditLogger = vi.fn();
+    const service = createFlagService({ config: baseConfig, redis: createMockRedis(), auditLogger });
+
+    await service.toggle('new-checkout', true, { actor: 'admin-1', ip: '10.0.0.1', reason: 'launch' });
+    await service.toggle('new-checkout', false, { actor: 'admin-2' });
+
+    expect(auditLogger).toHaveBeenNthCalledWith(1, 'flag.toggle', {
+      userId: 'admin-1',
+      targetId: 'new-checkout',
+      ip: '10.0.0.1',
+      userAgent: undefined,
+      metadata: { flag: 'new-checkout', value: true, previous: null, reason: 'launch' },
+    });
+    expect(auditLogger.mock.calls[1][1]).toMatchObject({
+      userId: 'admin-2',
+      metadata: { value: false, previous: true },
+    });
+  });
+
+  it('should record override removals', async () => {
+    const auditLogger = vi.fn();
+    const service = createFlagService({ config: baseConfig, redis: createMockRedis(), auditLogger });
+
+    await service.toggle('dark-mode', false, { actor: 'admin-1' });
+    await service.removeOverride('dark-mode', { actor: 'admin-1' });
+
+    expect(auditLogger).toHaveBeenLastCalledWith('flag.override_remove', expect.objectContaining({
+      userId: 'admin-1',
+      targetId: 'dark-mode',
+      metadata: expect.objectContaining({ value: null, previous: false }),
+    }));
+  });
+
+  it('should refuse to toggle unknown flags', async () => {
+    const auditLogger = vi.fn();
+    const service = createFlagService({ config: baseConfig, redis: createMockRedis(), auditLogger });
+
+    await expect(service.toggle('nonexistent', true)).rejects.toThrow('Unknown feature flag "nonexistent"');
+    expect(auditLogger).not.toHaveBeenCalled();
+  });
+});
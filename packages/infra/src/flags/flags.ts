@@ -5,16 +5,33 @@
  * Layer 1: JSON file definitions (source of truth, git-tracked)
  * Layer 2: Redis runtime overrides (instant toggle, no deploy needed)
  *
- * isEnabled() checks Redis first, falls back to JSON.
+ * Evaluation order:
+ *   1. Unknown or `enabled: false` → off
+ *   2. Redis override → false is off; true is on (multivariate flags still
+ *      pick their variant from the rules and default)
+ *   3. Outside the `schedule` window → off
+ *   4. First matching rule → its `serve`
+ *   5. The flag's `defaultValue`
+ *
+ * Every toggle and override removal is recorded with the core `audit()`
+ * logger, with the actor from the change context.
  */
 
 import { createHash } from 'node:crypto';
+import { audit } from '@vibeonrails/core/security';
 import {
-  type FlagDefinition,
+  type FlagChangeContext,
+  type FlagCondition,
   type FlagConfig,
   type FlagContext,
+  type FlagDefinition,
+  type FlagEvaluation,
+  type FlagRule,
+  type FlagSegment,
   type FlagService,
   type FlagState,
+  type FlagValue,
+  type FlagVariant,
   FlagConfigSchema,
 } from './types.js';
 
@@ -29,28 +46,115 @@ export interface FlagRedisLike {
   keys(pattern: string): Promise<string[]>;
 }
 
+/** The audit logger signature (core's `audit()`) */
+export type FlagAuditLogger = typeof audit;
+
 // ---------------------------------------------------------------------------
 // Percentage Rollout
 // ---------------------------------------------------------------------------
 
+/** Stable 0-99 bucket of a user for a given seed */
+function bucketOf(seed: string, userId: string): number {
+  const hash = createHash('sha256').update(`${seed}:${userId}`).digest('hex');
+  // Take first 8 hex chars (32 bits) and convert to 0-99 range
+  return parseInt(hash.substring(0, 8), 16) % 100;
+}
+
 /**
  * Deterministic percentage check based on userId.
  * Uses a hash to ensure the same user always gets the same result.
  */
 function isInPercentage(
-  userId: string,
+  userId: string | undefined,
   flagName: string,
   percentage: number,
 ): boolean {
   if (percentage >= 100) return true;
   if (percentage <= 0) return false;
 
-  const hash = createHash('sha256')
-    .update(`${flagName}:${userId}`)
-    .digest('hex');
-  // Take first 8 hex chars (32 bits) and convert to 0-99 range
-  const value = parseInt(hash.substring(0, 8), 16) % 100;
-  return value < percentage;
+  // No userId — use the percentage as a probability
+  if (!userId) return Math.random() * 100 < percentage;
+  return bucketOf(flagName, userId) < percentage;
+}
+
+/**
+ * Pick a variant key by weight. Users hash into a bucket separate from the
+ * rollout one, so a percentage rule and its weights don't correlate.
+ */
+function pickWeighted(
+  weights: Record<string, number>,
+  flagName: string,
+  userId: string | undefined,
+): string | null {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) return null;
+
+  const point = userId
+    ? (bucketOf(`${flagName}:variant`, userId) / 100) * total
+    : Math.random() * total;
+  let cumulative = 0;
+  for (const [key, weight] of entries) {
+    cumulative += weight;
+    if (point < cumulative) return key;
+  }
+  return entries[entries.length - 1]![0];
+}
+
+// ---------------------------------------------------------------------------
+// Targeting
+// ---------------------------------------------------------------------------
+
+/** Resolve `userId` or a dotted path into the context attributes */
+function readAttribute(context: FlagContext, attribute: string): unknown {
+  if (attribute === 'userId') return context.userId;
+  let value: unknown = context.attributes;
+  for (const part of attribute.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function compile(pattern: string): RegExp {
+  let regex = regexCache.get(pattern);
+  if (!regex) regexCache.set(pattern, (regex = new RegExp(pattern)));
+  return regex;
+}
+
+function testValue(condition: FlagCondition, value: unknown): boolean {
+  switch (condition.operator) {
+    case 'equals':
+      return value === condition.value;
+    case 'in':
+      return condition.values.some((candidate) => candidate === value);
+    case 'matches':
+      return (typeof value === 'string' || typeof value === 'number') && compile(condition.pattern).test(String(value));
+  }
+}
+
+function matchesCondition(condition: FlagCondition, context: FlagContext): boolean {
+  const value = readAttribute(context, condition.attribute);
+  // Array attributes (e.g. roles) match when any element does
+  const matched = Array.isArray(value)
+    ? value.some((item) => testValue(condition, item))
+    : value !== undefined && testValue(condition, value);
+  return condition.negate ? !matched : matched;
+}
+
+function inSegment(segment: FlagSegment, context: FlagContext): boolean {
+  if (context.userId && segment.users.includes(context.userId)) return true;
+  return segment.conditions.length > 0 && segment.conditions.every((c) => matchesCondition(c, context));
+}
+
+function isScheduled(flag: FlagDefinition, now: number): boolean {
+  if (!flag.schedule) return true;
+  const { start, end } = flag.schedule;
+  if (start && now < Date.parse(start)) return false;
+  if (end && now >= Date.parse(end)) return false;
+  return true;
 }
 
 // ---------------------------------------------------------------------------
@@ -66,6 +170,9 @@ export interface CreateFlagServiceOptions {
 
   /** Redis key prefix for flag overrides */
   redisPrefix?: string;
+
+  /** Records toggles and override removals (default: core `audit()`) */
+  auditLogger?: FlagAuditLogger;
 }
 
 /**
@@ -83,17 +190,29 @@ export interface CreateFlagServiceOptions {
  *   config: loadedConfig,
  *   redis: redisClient,
  * });
+ *
+ * // Multivariate
+ * const variant = await flags.getVariant<string>('checkout-copy', { userId: user.id });
+ *
+ * // Audited toggle
+ * await flags.toggle('new-checkout', true, { actor: admin.id, reason: 'launch' });
  * ```
  */
 export function createFlagService(
   options: CreateFlagServiceOptions,
 ): FlagService {
-  const validConfig = FlagConfigSchema.parse(options.config);
-  let flags = new Map<string, FlagDefinition>(
-    validConfig.flags.map((f) => [f.name, f]),
-  );
+  let flags = new Map<string, FlagDefinition>();
+  let segments = new Map<string, FlagSegment>();
   const redis = options.redis;
   const redisPrefix = options.redisPrefix ?? 'flag:';
+  const auditLogger = options.auditLogger ?? audit;
+
+  function load(): void {
+    const validConfig = FlagConfigSchema.parse(options.config);
+    flags = new Map(validConfig.flags.map((f) => [f.name, f]));
+    segments = new Map(validConfig.segments.map((s) => [s.name, s]));
+  }
+  load();
 
   function getFlag(name: string): FlagDefinition | null {
     return flags.get(name) ?? null;
@@ -106,37 +225,97 @@ export function createFlagService(
     return value === 'true';
   }
 
-  return {
-    async isEnabled(name: string, context?: FlagContext): Promise<boolean> {
-      const flag = getFlag(name);
-      if (!flag) return false;
-      if (!flag.enabled) return false;
+  function matchesRule(flag: FlagDefinition, rule: FlagRule, context: FlagContext): boolean {
+    if (rule.users && !(context.userId && rule.users.includes(context.userId))) return false;
+    if (rule.segments && !rule.segments.some((name) => inSegment(segments.get(name)!, context))) return false;
+    if (rule.conditions && !rule.conditions.every((c) => matchesCondition(c, context))) return false;
+    if (rule.percentage !== undefined) return isInPercentage(context.userId, `${flag.name}:rule`, rule.percentage);
+    return true;
+  }
 
-      // Check Redis override first
-      const override = await getRedisOverride(name);
-      if (override !== null) {
-        return override;
-      }
+  function variantOf(flag: FlagDefinition, key: string | null): FlagVariant | null {
+    if (key === null || !flag.variants || !(key in flag.variants)) return null;
+    return { key, value: flag.variants[key] };
+  }
 
-      // Use defined value
-      if (flag.type === 'boolean') {
-        return flag.defaultValue as boolean;
-      }
+  /** Resolve a served value to on/off and, for multivariate flags, the variant */
+  function serve(
+    flag: FlagDefinition,
+    value: FlagValue,
+    context: FlagContext,
+  ): Pick<FlagEvaluation, 'enabled' | 'variant'> {
+    if (flag.type === 'multivariate') {
+      if (value === false) return { enabled: false, variant: null };
+      const key = typeof value === 'string'
+        ? value
+        : typeof value === 'object'
+          ? pickWeighted(value, flag.name, context.userId)
+          : null;
+      const variant = variantOf(flag, key);
+      return { enabled: variant !== null, variant };
+    }
+    if (typeof value === 'number') {
+      return { enabled: isInPercentage(context.userId, flag.name, value), variant: null };
+    }
+    return { enabled: value === true, variant: null };
+  }
 
-      // Percentage rollout
-      if (flag.type === 'percentage') {
-        const percentage = flag.defaultValue as number;
-        if (!context?.userId) {
-          // No userId — use the percentage as a probability
-          return Math.random() * 100 < percentage;
-        }
-        return isInPercentage(context.userId, name, percentage);
-      }
+  async function evaluate(name: string, context: FlagContext = {}): Promise<FlagEvaluation> {
+    const flag = getFlag(name);
+    if (!flag) return { name, enabled: false, variant: null, reason: 'missing' };
+    if (!flag.enabled) return { name, enabled: false, variant: null, reason: 'disabled' };
+
+    const override = await getRedisOverride(name);
+    if (override === false || (override === true && flag.type !== 'multivariate')) {
+      return { name, enabled: override, variant: null, reason: 'override' };
+    }
+    if (override === null && !isScheduled(flag, Date.now())) {
+      return { name, enabled: false, variant: null, reason: 'scheduled' };
+    }
+
+    const index = flag.rules.findIndex((rule) => matchesRule(flag, rule, context));
+    if (index !== -1) {
+      return { name, ...serve(flag, flag.rules[index]!.serve, context), reason: 'rule', rule: index };
+    }
+    return { name, ...serve(flag, flag.defaultValue, context), reason: 'default' };
+  }
+
+  async function record(
+    type: 'flag.toggle' | 'flag.override_remove',
+    name: string,
+    previous: boolean | null,
+    value: boolean | null,
+    change: FlagChangeContext,
+  ): Promise<void> {
+    await auditLogger(type, {
+      userId: change.actor,
+      targetId: name,
+      ip: change.ip,
+      userAgent: change.userAgent,
+      metadata: { flag: name, value, previous, reason: change.reason },
+    });
+  }
 
-      return false;
+  function requireFlag(name: string): void {
+    if (flags.has(name)) return;
+    throw new Error(
+      `[AOR] Unknown feature flag "${name}".\n` +
+        '  Fix: Define the flag in the flags JSON config before toggling it.',
+    );
+  }
+
+  return {
+    async isEnabled(name: string, context?: FlagContext): Promise<boolean> {
+      return (await evaluate(name, context)).enabled;
     },
 
-    async getValue(name: string): Promise<boolean | number | null> {
+    async getVariant<T = unknown>(name: string, context?: FlagContext): Promise<FlagVariant<T> | null> {
+      return (await evaluate(name, context)).variant as FlagVariant<T> | null;
+    },
+
+    evaluate,
+
+    async getValue(name: string): Promise<FlagValue | null> {
       const flag = getFlag(name);
       if (!flag) return null;
 
@@ -151,6 +330,7 @@ export function createFlagService(
 
     async list(): Promise<FlagState[]> {
       const states: FlagState[] = [];
+      const now = Date.now();
 
       for (const flag of flags.values()) {
         const override = await getRedisOverride(flag.name);
@@ -164,30 +344,37 @@ export function createFlagService(
           definedValue: flag.defaultValue,
           runtimeOverride: override,
           effectiveValue,
+          active: flag.enabled && (override !== null ? override : isScheduled(flag, now)),
+          schedule: flag.schedule,
+          rules: flag.rules.length,
         });
       }
 
       return states;
     },
 
-    async toggle(name: string, value: boolean): Promise<void> {
+    async toggle(name: string, value: boolean, change: FlagChangeContext = {}): Promise<void> {
       if (!redis) {
         throw new Error(
           'Redis is required for runtime flag overrides. Configure Redis or change the JSON config and redeploy.',
         );
       }
+      requireFlag(name);
+      const previous = await getRedisOverride(name);
       await redis.set(`${redisPrefix}${name}`, String(value));
+      await record('flag.toggle', name, previous, value, change);
     },
 
-    async removeOverride(name: string): Promise<void> {
+    async removeOverride(name: string, change: FlagChangeContext = {}): Promise<void> {
       if (!redis) return;
+      const previous = await getRedisOverride(name);
       await redis.del(`${redisPrefix}${name}`);
+      await record('flag.override_remove', name, previous, null, change);
     },
 
     async reload(): Promise<void> {
       // Re-parse the config (in case it was modified)
-      const reloaded = FlagConfigSchema.parse(options.config);
-      flags = new Map(reloaded.flags.map((f) => [f.name, f]));
+      load();
     },
   };
 }
@@ -6,14 +6,31 @@ export type {
   FlagDefinition,
   FlagConfig,
   FlagContext,
+  FlagChangeContext,
+  FlagCondition,
+  FlagSegment,
+  FlagRule,
+  FlagSchedule,
+  FlagValue,
+  FlagVariant,
+  FlagEvaluation,
+  FlagEvaluationReason,
   FlagService,
   FlagState,
 } from './types.js';
 
-export { FlagDefinitionSchema, FlagConfigSchema } from './types.js';
+export {
+  FlagDefinitionSchema,
+  FlagConfigSchema,
+  FlagConditionSchema,
+  FlagSegmentSchema,
+  FlagRuleSchema,
+  FlagScheduleSchema,
+} from './types.js';
 
 export {
   createFlagService,
   type CreateFlagServiceOptions,
+  type FlagAuditLogger,
   type FlagRedisLike,
 } from './flags.js';
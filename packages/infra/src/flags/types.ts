@@ -2,59 +2,257 @@
  * Feature Flags — Types
  *
  * Two-layer system: JSON file definitions + optional Redis runtime overrides.
+ *
+ * A flag is boolean, a percentage rollout, or multivariate (serving one of
+ * several string/JSON variants). Rules target users by id, attributes and
+ * named segments; the first matching rule decides, then the default applies.
  */
 
 import { z } from 'zod';
 
 // ---------------------------------------------------------------------------
-// Flag Definition
+// Targeting
 // ---------------------------------------------------------------------------
 
-export const FlagDefinitionSchema = z.object({
-  /** Flag name (unique identifier) */
-  name: z.string().min(1),
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
 
-  /** Human-readable description */
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A test on one context attribute (`userId` or a dotted path into
+ * `attributes`). Array attributes match when any element does.
+ */
+export const FlagConditionSchema = z.discriminatedUnion('operator', [
+  z.object({
+    attribute: z.string().min(1),
+    operator: z.literal('equals'),
+    value: ScalarSchema,
+    /** Invert the result */
+    negate: z.boolean().default(false),
+  }),
+  z.object({
+    attribute: z.string().min(1),
+    operator: z.literal('in'),
+    values: z.array(ScalarSchema).min(1),
+    negate: z.boolean().default(false),
+  }),
+  z.object({
+    attribute: z.string().min(1),
+    operator: z.literal('matches'),
+    pattern: z.string().refine(isValidRegex, 'Invalid regular expression'),
+    negate: z.boolean().default(false),
+  }),
+]);
+
+export type FlagCondition = z.infer<typeof FlagConditionSchema>;
+
+/** A named group of users, reusable across flags */
+export const FlagSegmentSchema = z.object({
+  name: z.string().min(1),
   description: z.string().default(''),
+  /** User ids that are always in the segment */
+  users: z.array(z.string()).default([]),
+  /** Users matching every condition are in the segment */
+  conditions: z.array(FlagConditionSchema).default([]),
+});
 
-  /** Flag type: boolean or percentage rollout */
-  type: z.enum(['boolean', 'percentage']).default('boolean'),
+export type FlagSegment = z.infer<typeof FlagSegmentSchema>;
 
-  /** Default value (true/false for boolean, 0-100 for percentage) */
-  defaultValue: z.union([z.boolean(), z.number().min(0).max(100)]),
+/** Variant weights, e.g. `{ "control": 50, "treatment": 50 }` */
+const WeightsSchema = z.record(z.number().min(0));
 
-  /** Whether this flag is enabled */
-  enabled: z.boolean().default(true),
+export const FlagRuleSchema = z.object({
+  description: z.string().optional(),
+  /** Only these user ids (an allowlist) */
+  users: z.array(z.string()).optional(),
+  /** Only users in at least one of these segments */
+  segments: z.array(z.string()).optional(),
+  /** Only users matching every condition */
+  conditions: z.array(FlagConditionSchema).optional(),
+  /** Only this share of the users matching the above (0-100) */
+  percentage: z.number().min(0).max(100).optional(),
+  /**
+   * What a match gets: true/false for boolean and percentage flags; a
+   * variant key, variant weights or false (off) for multivariate flags
+   */
+  serve: z.union([z.boolean(), z.string(), WeightsSchema]).default(true),
 });
 
+export type FlagRule = z.infer<typeof FlagRuleSchema>;
+
+/** The flag is only on from `start` (inclusive) to `end` (exclusive), ISO 8601 */
+export const FlagScheduleSchema = z
+  .object({
+    start: z.string().datetime({ offset: true }).optional(),
+    end: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine((s) => !s.start || !s.end || Date.parse(s.start) < Date.parse(s.end), {
+    message: 'schedule.start must be before schedule.end',
+  });
+
+export type FlagSchedule = z.infer<typeof FlagScheduleSchema>;
+
+// ---------------------------------------------------------------------------
+// Flag Definition
+// ---------------------------------------------------------------------------
+
+export const FlagDefinitionSchema = z
+  .object({
+    /** Flag name (unique identifier) */
+    name: z.string().min(1),
+
+    /** Human-readable description */
+    description: z.string().default(''),
+
+    /** Flag type: boolean, percentage rollout or multivariate */
+    type: z.enum(['boolean', 'percentage', 'multivariate']).default('boolean'),
+
+    /**
+     * Default value: true/false for boolean, 0-100 for percentage, a variant
+     * key or variant weights for multivariate
+     */
+    defaultValue: z.union([z.boolean(), z.number().min(0).max(100), z.string(), WeightsSchema]),
+
+    /** Variant values by key (multivariate only): strings or any JSON */
+    variants: z.record(z.unknown()).optional(),
+
+    /** Targeting rules, first match wins */
+    rules: z.array(FlagRuleSchema).default([]),
+
+    /** Window the flag is on in */
+    schedule: FlagScheduleSchema.optional(),
+
+    /** Whether this flag is enabled */
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((flag, ctx) => {
+    const variants = Object.keys(flag.variants ?? {});
+    const issue = (message: string, path: (string | number)[]) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${flag.name}: ${message}`, path });
+
+    // A served value is valid when it fits the flag type
+    const checkServed = (value: unknown, path: (string | number)[], allowOff: boolean) => {
+      if (flag.type !== 'multivariate') {
+        if (typeof value !== 'boolean') issue('serve must be true or false', path);
+        return;
+      }
+      if (value === false && allowOff) return;
+      const keys = typeof value === 'string' ? [value] : typeof value === 'object' && value ? Object.keys(value) : [];
+      if (keys.length === 0) issue('must be a variant key or variant weights', path);
+      for (const key of keys) {
+        if (!variants.includes(key)) issue(`unknown variant "${key}" (variants: ${variants.join(', ')})`, path);
+      }
+    };
+
+    if (flag.type === 'boolean' && typeof flag.defaultValue !== 'boolean') {
+      issue('defaultValue must be true or false for a boolean flag', ['defaultValue']);
+    }
+    if (flag.type === 'percentage' && typeof flag.defaultValue !== 'number') {
+      issue('defaultValue must be a number from 0 to 100 for a percentage flag', ['defaultValue']);
+    }
+    if (flag.type === 'multivariate') {
+      if (variants.length === 0) issue('a multivariate flag needs variants', ['variants']);
+      checkServed(flag.defaultValue, ['defaultValue'], false);
+    }
+    flag.rules.forEach((rule, index) => checkServed(rule.serve, ['rules', index, 'serve'], true));
+  });
+
 export type FlagDefinition = z.infer<typeof FlagDefinitionSchema>;
 
+/** A flag's defined value (see `defaultValue`) */
+export type FlagValue = FlagDefinition['defaultValue'];
+
 // ---------------------------------------------------------------------------
 // Flag Config (the JSON file format)
 // ---------------------------------------------------------------------------
 
-export const FlagConfigSchema = z.object({
-  /** Config version */
-  version: z.literal(1).default(1),
+export const FlagConfigSchema = z
+  .object({
+    /** Config version */
+    version: z.literal(1).default(1),
 
-  /** Array of flag definitions */
-  flags: z.array(FlagDefinitionSchema),
-});
+    /** Segment definitions, referenced by name from rules */
+    segments: z.array(FlagSegmentSchema).default([]),
+
+    /** Array of flag definitions */
+    flags: z.array(FlagDefinitionSchema),
+  })
+  .superRefine((config, ctx) => {
+    const segments = new Set(config.segments.map((s) => s.name));
+    config.flags.forEach((flag, index) => {
+      flag.rules.forEach((rule, ruleIndex) => {
+        for (const segment of rule.segments ?? []) {
+          if (segments.has(segment)) continue;
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${flag.name}: unknown segment "${segment}"`,
+            path: ['flags', index, 'rules', ruleIndex, 'segments'],
+          });
+        }
+      });
+    });
+  });
 
-export type FlagConfig = z.infer<typeof FlagConfigSchema>;
+/** The config as written in the JSON file; defaults are applied when parsed */
+export type FlagConfig = z.input<typeof FlagConfigSchema>;
 
 // ---------------------------------------------------------------------------
 // Flag Context
 // ---------------------------------------------------------------------------
 
 export interface FlagContext {
-  /** User ID for percentage rollouts (hashed for determinism) */
+  /** User ID for allowlists and percentage rollouts (hashed for determinism) */
   userId?: string;
 
-  /** Additional context for custom evaluation */
+  /** Attributes rule conditions test, e.g. `{ plan: 'pro', email: '...' }` */
   attributes?: Record<string, unknown>;
 }
 
+/** Who made a runtime change, recorded in the audit log */
+export interface FlagChangeContext {
+  /** User id of the actor */
+  actor?: string;
+  ip?: string;
+  userAgent?: string;
+  /** Why the change was made */
+  reason?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export interface FlagVariant<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/** Why a flag evaluated the way it did */
+export type FlagEvaluationReason =
+  | 'missing'
+  | 'disabled'
+  | 'scheduled'
+  | 'override'
+  | 'rule'
+  | 'default';
+
+export interface FlagEvaluation {
+  name: string;
+  enabled: boolean;
+  /** Served variant of a multivariate flag (null when off) */
+  variant: FlagVariant | null;
+  reason: FlagEvaluationReason;
+  /** Index of the matching rule when `reason` is 'rule' */
+  rule?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Flag Service Interface
 // ---------------------------------------------------------------------------
@@ -63,17 +261,23 @@ export interface FlagService {
   /** Check if a flag is enabled */
   isEnabled(name: string, context?: FlagContext): Promise<boolean>;
 
-  /** Get the value of a flag (boolean or percentage number) */
-  getValue(name: string): Promise<boolean | number | null>;
+  /** Variant served to the context (null for unknown, off or non-multivariate flags) */
+  getVariant<T = unknown>(name: string, context?: FlagContext): Promise<FlagVariant<T> | null>;
+
+  /** Evaluate a flag with the reason for the result */
+  evaluate(name: string, context?: FlagContext): Promise<FlagEvaluation>;
+
+  /** Get the value of a flag (its runtime override or defined value) */
+  getValue(name: string): Promise<FlagValue | null>;
 
   /** List all defined flags with their current state */
   list(): Promise<FlagState[]>;
 
-  /** Toggle a flag's runtime override (Redis layer) */
-  toggle(name: string, value: boolean): Promise<void>;
+  /** Toggle a flag's runtime override (Redis layer); recorded in the audit log */
+  toggle(name: string, value: boolean, change?: FlagChangeContext): Promise<void>;
 
-  /** Remove a runtime override (fall back to JSON definition) */
-  removeOverride(name: string): Promise<void>;
+  /** Remove a runtime override (fall back to JSON definition); recorded in the audit log */
+  removeOverride(name: string, change?: FlagChangeContext): Promise<void>;
 
   /** Reload flags from the JSON config */
   reload(): Promise<void>;
@@ -82,8 +286,13 @@ export interface FlagService {
 export interface FlagState {
   name: string;
   description: string;
-  type: 'boolean' | 'percentage';
-  definedValue: boolean | number;
+  type: FlagDefinition['type'];
+  definedValue: FlagValue;
   runtimeOverride: boolean | null;
-  effectiveValue: boolean | number;
+  effectiveValue: FlagValue;
+  /** Enabled and inside its schedule window */
+  active: boolean;
+  schedule?: FlagSchedule;
+  /** Number of targeting rules */
+  rules: number;
 }
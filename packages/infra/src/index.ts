@@ -4,10 +4,10 @@
  * Provides infrastructure modules for production applications:
  * - Health: Registry-based health check system
  * - Logging: Structured JSON logging with child loggers
- * - Queue: BullMQ-based background job processing
- * - Email: Resend-based transactional email with Markdown templates
- * - Cache: Redis-based caching with JSON serialization
- * - Storage: S3-compatible file storage
+ * - Queue: Background jobs on BullMQ or an in-process driver
+ * - Email: Resend, SMTP or dev-outbox transports with Markdown templates
+ * - Cache: JSON caching over Redis or memory, with getOrSet, tags and namespaces
+ * - Storage: S3-compatible or local-disk file storage
  *
  * Import from sub-paths for tree-shaking:
  *   import { registerHealthCheck } from '@vibeonrails/infra/health';
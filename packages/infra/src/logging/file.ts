@@ -0,0 +1,94 @@
+/**
+ * Rotating File Transport
+ *
+ * Appends JSON lines to a file. When the file would grow past `maxSize`, it
+ * is renamed to `<path>.1` (older files shift to `.2`, `.3`, ...) and a new
+ * file is started; files beyond `maxFiles` are deleted.
+ *
+ * Writes are synchronous, so nothing is lost when the process crashes right
+ * after logging.
+ *
+ * Usage:
+ *   import { createLogger, createFileTransport, createStdoutTransport } from '@vibeonrails/infra/logging';
+ *
+ *   const log = createLogger({
+ *     transports: [createStdoutTransport(), createFileTransport({ path: 'logs/app.log' })],
+ *   });
+ */
+
+import { closeSync, existsSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import { formatEntry, type LogFormat, type LogLevel, type LogTransport } from "./transport.js";
+
+export interface FileTransportOptions {
+  /** Log file path; its directory is created when missing */
+  path: string;
+  /** Rotate before the file exceeds this many bytes (default: 10 MiB) */
+  maxSize?: number;
+  /** Rotated files to keep (default: 5) */
+  maxFiles?: number;
+  /** Line format (default: 'json') */
+  format?: LogFormat;
+  minLevel?: LogLevel;
+}
+
+/**
+ * Append entries to a size-rotated file.
+ */
+export function createFileTransport(options: FileTransportOptions): LogTransport {
+  const { path } = options;
+  const maxSize = options.maxSize ?? 10 * 1024 * 1024;
+  const maxFiles = options.maxFiles ?? 5;
+  const format = options.format ?? "json";
+
+  if (!(maxSize > 0) || !(Number.isInteger(maxFiles) && maxFiles >= 0)) {
+    throw new Error(
+      `[AOR] Invalid file log rotation for ${path}: maxSize ${maxSize}, maxFiles ${maxFiles}.\n` +
+        "  Fix: Use a positive maxSize in bytes and a maxFiles of 0 or more.",
+    );
+  }
+
+  let fd: number | undefined;
+  let size = 0;
+
+  function open(): number {
+    if (fd === undefined) {
+      mkdirSync(dirname(path), { recursive: true });
+      fd = openSync(path, "a");
+      size = fstatSync(fd).size;
+    }
+    return fd;
+  }
+
+  function close(): void {
+    if (fd !== undefined) closeSync(fd);
+    fd = undefined;
+  }
+
+  function rotate(): void {
+    close();
+    if (maxFiles > 0) rmSync(`${path}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${path}.${index}`)) renameSync(`${path}.${index}`, `${path}.${index + 1}`);
+    }
+    if (maxFiles > 0) renameSync(path, `${path}.1`);
+    else rmSync(path, { force: true });
+  }
+
+  return {
+    minLevel: options.minLevel,
+    write(entry) {
+      const line = Buffer.from(`${formatEntry(entry, format)}\n`);
+      open();
+      // A single line larger than maxSize still gets a file of its own
+      if (size > 0 && size + line.length > maxSize) rotate();
+      size += writeSync(open(), line);
+    },
+    async flush() {
+      // Writes are synchronous
+    },
+    async close() {
+      close();
+    },
+  };
+}
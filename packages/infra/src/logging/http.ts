@@ -0,0 +1,131 @@
+/**
+ * HTTP Batch Transport
+ *
+ * Ships entries to a log service (Loki gateway, Datadog, Better Stack,
+ * Axiom, a Vector/Fluent Bit HTTP source, ...) in batches: when `batchSize`
+ * entries are buffered, or `flushIntervalMs` after the first one. A failed
+ * batch goes back to the front of the queue and is retried with the next
+ * flush; beyond `maxQueueSize` the oldest entries are dropped.
+ *
+ * Usage:
+ *   import { createLogger, createHttpTransport, createStdoutTransport } from '@vibeonrails/infra/logging';
+ *
+ *   const shipper = createHttpTransport({
+ *     url: 'https://in.logs.betterstack.com',
+ *     headers: { authorization: `Bearer ${process.env.LOG_SHIPPER_TOKEN}` },
+ *   });
+ *   const log = createLogger({ transports: [createStdoutTransport(), shipper] });
+ *   process.on('SIGTERM', () => void shipper.close?.());
+ */
+
+import type { LogEntry, LogLevel, LogTransport } from "./transport.js";
+
+export interface HttpTransportOptions {
+  /** Endpoint the batches are POSTed to */
+  url: string;
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>;
+  /** Body encoding: a JSON array, or newline-delimited JSON (default: 'json') */
+  encoding?: "json" | "ndjson";
+  /** Entries per request (default: 100) */
+  batchSize?: number;
+  /** Send buffered entries after this delay (default: 1000ms) */
+  flushIntervalMs?: number;
+  /** Entries kept while the endpoint is unreachable (default: 10000) */
+  maxQueueSize?: number;
+  /** Abort a request after this long (default: 10000ms) */
+  timeoutMs?: number;
+  minLevel?: LogLevel;
+}
+
+/**
+ * Batch entries and POST them to a log service.
+ */
+export function createHttpTransport(options: HttpTransportOptions): LogTransport {
+  const encoding = options.encoding ?? "json";
+  const batchSize = options.batchSize ?? 100;
+  const flushIntervalMs = options.flushIntervalMs ?? 1000;
+  const maxQueueSize = options.maxQueueSize ?? 10_000;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+
+  let queue: LogEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let sending: Promise<void> = Promise.resolve();
+  let failing = false;
+
+  function encode(batch: LogEntry[]): string {
+    return encoding === "ndjson"
+      ? `${batch.map((entry) => JSON.stringify(entry)).join("\n")}\n`
+      : JSON.stringify(batch);
+  }
+
+  async function send(batch: LogEntry[]): Promise<void> {
+    const response = await fetch(options.url, {
+      method: "POST",
+      headers: {
+        ...options.headers,
+        "content-type": encoding === "ndjson" ? "application/x-ndjson" : "application/json",
+      },
+      body: encode(batch),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  }
+
+  /** Keep the newest entries when the queue overflows */
+  function trim(): void {
+    if (queue.length > maxQueueSize) queue = queue.slice(queue.length - maxQueueSize);
+  }
+
+  function flush(): Promise<void> {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+
+    sending = sending.then(async () => {
+      while (queue.length > 0) {
+        const batch = queue.slice(0, batchSize);
+        queue = queue.slice(batch.length);
+        try {
+          await send(batch);
+          failing = false;
+        } catch (error) {
+          // The logger cannot log its own failures; report once per outage
+          if (!failing) {
+            console.error(
+              `[AOR] Shipping logs to ${options.url} failed: ${error instanceof Error ? error.message : String(error)}\n` +
+                "  Fix: Check the URL and credentials; entries are retried with the next flush.",
+            );
+          }
+          failing = true;
+          queue = [...batch, ...queue];
+          trim();
+          schedule();
+          return;
+        }
+      }
+    });
+    return sending;
+  }
+
+  function schedule(): void {
+    if (timer) return;
+    timer = setTimeout(() => void flush(), flushIntervalMs);
+    timer.unref?.();
+  }
+
+  return {
+    minLevel: options.minLevel,
+    write(entry) {
+      queue.push(entry);
+      trim();
+      if (queue.length >= batchSize && !failing) void flush();
+      else schedule();
+    },
+    flush,
+    async close() {
+      await flush();
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -9,4 +9,32 @@ export {
   type LogLevel,
   type LogEntry,
   type LoggerOptions,
+  type LogSampling,
 } from "./logger.js";
+export {
+  createStdoutTransport,
+  formatEntry,
+  formatJson,
+  formatPretty,
+  LOG_LEVELS,
+  type LogTransport,
+  type LogFormat,
+  type StdoutTransportOptions,
+} from "./transport.js";
+export { createFileTransport, type FileTransportOptions } from "./file.js";
+export { createHttpTransport, type HttpTransportOptions } from "./http.js";
+export {
+  createRedactor,
+  DEFAULT_REDACT_KEYS,
+  type RedactOptions,
+  type Redactor,
+} from "./redact.js";
+export {
+  setLogLevel,
+  getLogLevels,
+  resetLogLevels,
+  parseLogLevels,
+  createLogLevelHandler,
+  type LogLevelOverrides,
+  type LogLevelHandlerOptions,
+} from "./levels.js";
@@ -0,0 +1,149 @@
+/**
+ * Log Levels — per-module overrides, changeable at runtime
+ *
+ * An override applies to a module and its submodules (`db` covers
+ * `db.pool`); the most specific one wins, and `*` covers every logger.
+ * Overrides beat the `minLevel` loggers were created with, so debug logs
+ * can be turned on for one module of a running process and off again.
+ *
+ * Initial overrides come from `LOG_LEVELS` (`db=debug,http=warn`).
+ *
+ * Usage:
+ *   import { setLogLevel, createLogLevelHandler } from '@vibeonrails/infra/logging';
+ *
+ *   setLogLevel('debug', 'billing'); // billing and billing.* loggers
+ *   setLogLevel(null, 'billing');    // back to their own level
+ *
+ *   const levels = createLogLevelHandler({
+ *     authorize: (req) => req.headers.get('authorization') === `Bearer ${process.env.VIBE_ADMIN_TOKEN}`,
+ *   });
+ *   app.all('/admin/log-levels', (c) => levels(c.req.raw));
+ */
+
+import { LOG_LEVELS, type LogLevel } from "./transport.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Overrides by module; `*` is the override for every module */
+export type LogLevelOverrides = Record<string, LogLevel>;
+
+export interface LogLevelHandlerOptions {
+  /** Decide whether a request may read and change levels; others get 401 */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+}
+
+// ---------------------------------------------------------------------------
+// Overrides
+// ---------------------------------------------------------------------------
+
+let overrides: Map<string, LogLevel> | undefined;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === "string" && Object.hasOwn(LOG_LEVELS, value);
+}
+
+/**
+ * Parse `LOG_LEVELS` (`module=level,...`; a bare level applies to `*`).
+ */
+export function parseLogLevels(value: string | undefined): LogLevelOverrides {
+  const parsed: LogLevelOverrides = {};
+  for (const part of value?.split(",") ?? []) {
+    const [module, level] = part.includes("=") ? part.split("=", 2) : ["*", part];
+    const name = module!.trim();
+    const trimmed = level!.trim().toLowerCase();
+    if (!name || !trimmed) continue;
+    if (!isLogLevel(trimmed)) {
+      throw new Error(
+        `[AOR] Unknown log level "${trimmed}" for "${name}" in LOG_LEVELS.\n` +
+          `  Fix: Use one of: ${Object.keys(LOG_LEVELS).join(", ")}`,
+      );
+    }
+    parsed[name] = trimmed;
+  }
+  return parsed;
+}
+
+function current(): Map<string, LogLevel> {
+  overrides ??= new Map(Object.entries(parseLogLevels(process.env.LOG_LEVELS)));
+  return overrides;
+}
+
+/**
+ * Override the level of a module and its submodules (default: `*`, every
+ * logger). Pass null to remove the override.
+ */
+export function setLogLevel(level: LogLevel | null, module = "*"): void {
+  if (level === null) {
+    current().delete(module);
+    return;
+  }
+  if (!isLogLevel(level)) {
+    throw new Error(
+      `[AOR] Unknown log level "${String(level)}".\n` +
+        `  Fix: Use one of: ${Object.keys(LOG_LEVELS).join(", ")}`,
+    );
+  }
+  current().set(module, level);
+}
+
+/**
+ * The current overrides.
+ */
+export function getLogLevels(): LogLevelOverrides {
+  return Object.fromEntries(current());
+}
+
+/**
+ * Drop every runtime change and reload `LOG_LEVELS`.
+ */
+export function resetLogLevels(): void {
+  overrides = undefined;
+}
+
+/**
+ * The override for a module: its own, its closest parent's, or `*`.
+ */
+export function resolveLogLevelOverride(module: string | undefined): LogLevel | undefined {
+  const levels = current();
+  if (levels.size === 0) return undefined;
+  for (let name = module; name; name = name.includes(".") ? name.slice(0, name.lastIndexOf(".")) : undefined) {
+    const level = levels.get(name);
+    if (level) return level;
+  }
+  return levels.get("*");
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a handler to read (`GET`) and change (`PUT` with
+ * `{ "module": "db", "level": "debug" }`, `null` to remove) overrides.
+ */
+export function createLogLevelHandler(options: LogLevelHandlerOptions): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== "GET" && request.method !== "PUT") {
+      return new Response("Method not allowed", { status: 405, headers: { allow: "GET, PUT" } });
+    }
+    if (!(await options.authorize(request))) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (request.method === "PUT") {
+      const body = (await request.json().catch(() => null)) as { module?: unknown; level?: unknown } | null;
+      const module = body?.module ?? "*";
+      const level = body?.level;
+      if (typeof module !== "string" || !(level === null || isLogLevel(level))) {
+        return Response.json(
+          { error: `Expected { "module": string, "level": ${Object.keys(LOG_LEVELS).join(" | ")} | null }` },
+          { status: 400 },
+        );
+      }
+      setLogLevel(level, module);
+    }
+    return Response.json({ levels: getLogLevels() });
+  };
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { parseTraceparent, withSpan, withTraceContext } from "@vibeonrails/core/tracing";
 import { Logger, createLogger } from "./logger.js";
+import { createLogLevelHandler, getLogLevels, parseLogLevels, resetLogLevels, setLogLevel } from "./levels.js";
+import type { LogEntry, LogTransport } from "./transport.js";
+
+/** A transport that keeps entries */
+function memoryTransport(minLevel?: LogTransport["minLevel"]): LogTransport & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  return { minLevel, entries, write: (entry) => void entries.push(entry) };
+}
 
 describe("Logger", () => {
   const originalEnv = process.env.NODE_ENV;
@@ -318,4 +327,202 @@ describe("Logger", () => {
 
     expect(log.getContext().key).toBe("value");
   });
+
+  // -----------------------------------------------------------------------
+  // Transports
+  // -----------------------------------------------------------------------
+
+  it("should write to every transport at or above its level", () => {
+    const all = memoryTransport();
+    const errors = memoryTransport("error");
+    const log = new Logger({ transports: [all, errors] });
+
+    log.info("Started");
+    log.error("Failed");
+
+    expect(all.entries.map((e) => e.message)).toEqual(["Started", "Failed"]);
+    expect(errors.entries.map((e) => e.message)).toEqual(["Failed"]);
+  });
+
+  it("should share transports with child loggers and survive a failing one", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const sink = memoryTransport();
+    const broken: LogTransport = {
+      write: () => {
+        throw new Error("disk full");
+      },
+    };
+    const log = new Logger({ transports: [broken, sink] }).child({ module: "jobs" });
+
+    log.info("Still logged");
+
+    expect(sink.entries[0]).toMatchObject({ module: "jobs", message: "Still logged" });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("disk full"));
+  });
+
+  // -----------------------------------------------------------------------
+  // Redaction
+  // -----------------------------------------------------------------------
+
+  it("should redact secrets and mask emails by default", () => {
+    const sink = memoryTransport();
+    const log = new Logger({ transports: [sink] });
+
+    log.info("Signed up", { email: "ada@example.com", password: "hunter2", user: { accessToken: "t" }, inputTokens: 12 });
+
+    expect(sink.entries[0]).toMatchObject({
+      email: "a***@example.com",
+      password: "[REDACTED]",
+      user: { accessToken: "[REDACTED]" },
+      inputTokens: 12,
+    });
+  });
+
+  it("should apply custom redaction and allow turning it off", () => {
+    const custom = memoryTransport();
+    const off = memoryTransport();
+
+    new Logger({ transports: [custom], redact: { keys: ["ssn"], paths: ["card.*.last4"] } }).info("x", {
+      ssn: "123-45-6789",
+      card: { visa: { last4: "4242" } },
+    });
+    new Logger({ transports: [off], redact: false }).info("x", { password: "p" });
+
+    expect(custom.entries[0]).toMatchObject({ ssn: "[REDACTED]", card: { visa: { last4: "[REDACTED]" } } });
+    expect(off.entries[0]!.password).toBe("p");
+  });
+
+  // -----------------------------------------------------------------------
+  // Per-module levels
+  // -----------------------------------------------------------------------
+
+  describe("module levels", () => {
+    afterEach(() => {
+      delete process.env.LOG_LEVELS;
+      resetLogLevels();
+    });
+
+    it("should change a module's level at runtime, submodules included", () => {
+      const sink = memoryTransport();
+      const db = new Logger({ module: "db", transports: [sink] });
+      const pool = db.child({ module: "db.pool" });
+      const api = new Logger({ module: "api", transports: [sink] });
+
+      pool.debug("hidden");
+      setLogLevel("debug", "db");
+      pool.debug("visible");
+      api.debug("hidden");
+      setLogLevel("error", "db.pool");
+      pool.warn("hidden");
+      setLogLevel(null, "db.pool");
+      pool.warn("visible again");
+
+      expect(sink.entries.map((e) => e.message)).toEqual(["visible", "visible again"]);
+      expect(getLogLevels()).toEqual({ db: "debug" });
+    });
+
+    it("should let overrides beat the configured minLevel", () => {
+      const log = new Logger({ module: "sync", minLevel: "error" });
+      setLogLevel("debug");
+      expect(log.isLevelEnabled("debug")).toBe(true);
+      expect(log.getLevel()).toBe("debug");
+    });
+
+    it("should read LOG_LEVELS from env", () => {
+      process.env.LOG_LEVELS = "db=debug, http=warn";
+      resetLogLevels();
+
+      expect(new Logger({ module: "db" }).getLevel()).toBe("debug");
+      expect(new Logger({ module: "http.client" }).getLevel()).toBe("warn");
+      expect(parseLogLevels("warn")).toEqual({ "*": "warn" });
+      expect(() => parseLogLevels("db=loud")).toThrow('Unknown log level "loud"');
+    });
+
+    it("should serve and change levels over HTTP", async () => {
+      const handler = createLogLevelHandler({ authorize: (req) => req.headers.get("authorization") === "Bearer t" });
+      const put = (body: unknown, token = "t") =>
+        handler(
+          new Request("http://x/admin/log-levels", {
+            method: "PUT",
+            headers: { authorization: `Bearer ${token}` },
+            body: JSON.stringify(body),
+          }),
+        );
+
+      expect((await put({ module: "db", level: "debug" }, "wrong")).status).toBe(401);
+      expect(await (await put({ module: "db", level: "debug" })).json()).toEqual({ levels: { db: "debug" } });
+      expect((await put({ module: "db", level: "loud" })).status).toBe(400);
+      expect(await (await put({ module: "db", level: null })).json()).toEqual({ levels: {} });
+    });
+
+    it("should reject levels inherited from Object.prototype", async () => {
+      const handler = createLogLevelHandler({ authorize: () => true });
+      const response = await handler(
+        new Request("http://x/admin/log-levels", {
+          method: "PUT",
+          body: JSON.stringify({ module: "*", level: "constructor" }),
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(getLogLevels()).toEqual({});
+      expect(() => parseLogLevels("db=constructor")).toThrow('Unknown log level "constructor"');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Sampling
+  // -----------------------------------------------------------------------
+
+  it("should sample entries by level", () => {
+    const random = vi.spyOn(Math, "random").mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+    const sink = memoryTransport();
+    const log = new Logger({ minLevel: "debug", transports: [sink], sampling: { debug: 0.1 } });
+
+    log.debug("kept");
+    log.debug("dropped");
+    log.info("always kept");
+
+    expect(sink.entries.map((e) => e.message)).toEqual(["kept", "always kept"]);
+    expect(sink.entries[0]!.sampleRate).toBe(0.1);
+    expect(random).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep or drop a whole trace together", () => {
+    const sink = memoryTransport();
+    const log = new Logger({ minLevel: "debug", transports: [sink], sampling: { debug: 0.5 } });
+    const keptTrace = "00-0af7651916cd43dd8448eb2100000001-b7ad6b7169203331-01";
+    const droppedTrace = "00-0af7651916cd43dd8448eb21ffffffff-b7ad6b7169203331-01";
+
+    for (const traceparent of [keptTrace, droppedTrace]) {
+      withTraceContext({ parent: parseTraceparent(traceparent) }, () => {
+        log.debug("one");
+        log.debug("two");
+      });
+    }
+
+    expect(sink.entries).toHaveLength(2);
+    expect(new Set(sink.entries.map((e) => e.traceId))).toEqual(new Set(["0af7651916cd43dd8448eb2100000001"]));
+  });
+
+  // -----------------------------------------------------------------------
+  // Trace correlation
+  // -----------------------------------------------------------------------
+
+  it("should add requestId and trace IDs from the active trace", () => {
+    const sink = memoryTransport();
+    const log = new Logger({ transports: [sink] });
+
+    const span = withTraceContext({ requestId: "req-1" }, () =>
+      withSpan("handler", (s) => {
+        log.info("Inside");
+        return s;
+      }),
+    );
+    log.info("Outside");
+
+    expect(sink.entries[0]).toMatchObject({ requestId: "req-1", traceId: span.traceId, spanId: span.spanId });
+    expect(sink.entries[1]!.requestId).toBeUndefined();
+    expect(sink.entries[1]!.traceId).toBeUndefined();
+  });
 });
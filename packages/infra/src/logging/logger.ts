@@ -3,7 +3,12 @@
  *
  * Provides structured JSON logging for production and pretty-printed
  * logs for development. Every log entry includes: request_id, timestamp,
- * level, module, message, and context. Logs to stdout (12-factor).
+ * level, module, message, and context. Logs to stdout (12-factor) by
+ * default; pass `transports` for files or a log service.
+ *
+ * Inside a traced request or job, entries get the `requestId`, `traceId`
+ * and `spanId` of the active trace. Secret fields are redacted and emails
+ * masked before any transport sees them (see redact.ts).
  *
  * Usage:
  *   import { createLogger, logger } from '@vibeonrails/infra/logging';
@@ -18,32 +23,30 @@
  *   // Request-scoped child logger
  *   const reqLog = log.child({ requestId: 'abc-123' });
  *   reqLog.info('Handling request');
+ *
+ *   // Keep 10% of debug logs (whole traces at a time)
+ *   const noisy = createLogger({ module: 'sync', sampling: { debug: 0.1 } });
  */
 
+import { getActiveRequestId, getActiveSpanContext } from "@vibeonrails/core/tracing";
+import { createRedactor, type Redactor, type RedactOptions } from "./redact.js";
+import { isLogLevel, resolveLogLevelOverride } from "./levels.js";
+import {
+  createStdoutTransport,
+  LOG_LEVELS,
+  type LogEntry,
+  type LogLevel,
+  type LogTransport,
+} from "./transport.js";
+
+export type { LogEntry, LogLevel } from "./transport.js";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type LogLevel = "debug" | "info" | "warn" | "error";
-
-const LOG_LEVELS: Record<LogLevel, number> = {
-  debug: 0,
-  info: 1,
-  warn: 2,
-  error: 3,
-};
-
-/**
- * Structured log entry written to stdout.
- */
-export interface LogEntry {
-  level: LogLevel;
-  message: string;
-  timestamp: string;
-  module?: string;
-  requestId?: string;
-  [key: string]: unknown;
-}
+/** Share of entries to keep per level, 0-1 (default: 1, keep all) */
+export type LogSampling = Partial<Record<LogLevel, number>>;
 
 /**
  * Options for creating a logger.
@@ -51,63 +54,31 @@ export interface LogEntry {
 export interface LoggerOptions {
   /** Module name to include in every log entry */
   module?: string;
-  /** Minimum log level (default: from LOG_LEVEL env or 'info') */
+  /**
+   * Minimum log level (default: from LOG_LEVEL env or 'info'). Overrides
+   * set with `setLogLevel()` or LOG_LEVELS take precedence.
+   */
   minLevel?: LogLevel;
   /** Static context merged into every log entry */
   context?: Record<string, unknown>;
   /** Custom writer for testing (default: console.log) */
   writer?: (line: string) => void;
+  /** Where entries go (default: stdout; with `writer`, both) */
+  transports?: LogTransport[];
+  /** Redaction of secret and PII fields; false to log fields as-is */
+  redact?: RedactOptions | false;
+  /** Sample entries by level, e.g. `{ debug: 0.1 }` */
+  sampling?: LogSampling;
+  /** Add requestId, traceId and spanId from the active trace (default: true) */
+  correlate?: boolean;
 }
 
-// ---------------------------------------------------------------------------
-// Dev Formatting (pino-pretty inspired)
-// ---------------------------------------------------------------------------
-
-const COLORS: Record<LogLevel, string> = {
-  debug: "\x1b[36m", // cyan
-  info: "\x1b[32m", // green
-  warn: "\x1b[33m", // yellow
-  error: "\x1b[31m", // red
-};
-
-const RESET = "\x1b[0m";
-const DIM = "\x1b[2m";
-const BOLD = "\x1b[1m";
-
-function formatDev(entry: LogEntry): string {
-  const color = COLORS[entry.level];
-  const time = entry.timestamp.slice(11, 23); // HH:mm:ss.SSS
-  const mod = entry.module ? `${DIM}(${entry.module})${RESET} ` : "";
-  const reqId = entry.requestId
-    ? `${DIM}[${entry.requestId.slice(0, 8)}]${RESET} `
-    : "";
-  const levelTag = `${color}${BOLD}${entry.level.toUpperCase().padEnd(5)}${RESET}`;
-
-  // Extract extra data (exclude known fields)
-  const known = new Set([
-    "level",
-    "message",
-    "timestamp",
-    "module",
-    "requestId",
-  ]);
-  const extra: Record<string, unknown> = {};
-  let hasExtra = false;
-
-  for (const [key, value] of Object.entries(entry)) {
-    if (!known.has(key)) {
-      extra[key] = value;
-      hasExtra = true;
-    }
-  }
-
-  const extraStr = hasExtra ? ` ${DIM}${JSON.stringify(extra)}${RESET}` : "";
+/** Promoted to the top of an entry, in this order */
+const TOP_LEVEL = ["requestId", "traceId", "spanId"] as const;
 
-  return `${DIM}${time}${RESET} ${levelTag} ${mod}${reqId}${entry.message}${extraStr}`;
-}
-
-function formatJson(entry: LogEntry): string {
-  return JSON.stringify(entry);
+function sampleKey(traceId: string | undefined): number {
+  // The same trace is kept or dropped as a whole, across services
+  return traceId ? parseInt(traceId.slice(-8), 16) / 0x100000000 : Math.random();
 }
 
 // ---------------------------------------------------------------------------
@@ -117,15 +88,35 @@ function formatJson(entry: LogEntry): string {
 export class Logger {
   private readonly moduleName: string | undefined;
   private readonly context: Record<string, unknown>;
-  private readonly minLevel: LogLevel;
-  private readonly write: (line: string) => void;
+  private readonly minLevel: LogLevel | undefined;
+  private readonly transports: LogTransport[];
+  private readonly redactOptions: RedactOptions | false;
+  private readonly redactor: Redactor | undefined;
+  private readonly sampling: LogSampling;
+  private readonly correlate: boolean;
 
   constructor(options: LoggerOptions = {}) {
     this.moduleName = options.module;
     this.context = options.context ?? {};
-    this.minLevel =
-      options.minLevel ?? (process.env.LOG_LEVEL as LogLevel) ?? "info";
-    this.write = options.writer ?? ((line: string) => console.log(line));
+    this.minLevel = options.minLevel;
+    const transports = [...(options.transports ?? [])];
+    if (options.writer || transports.length === 0) {
+      transports.unshift(createStdoutTransport({ write: options.writer }));
+    }
+    this.transports = transports;
+    this.redactOptions = options.redact ?? {};
+    this.redactor = this.redactOptions ? createRedactor(this.redactOptions) : undefined;
+    this.sampling = options.sampling ?? {};
+    this.correlate = options.correlate ?? true;
+
+    for (const [level, rate] of Object.entries(this.sampling)) {
+      if (!(rate >= 0 && rate <= 1)) {
+        throw new Error(
+          `[AOR] Log sampling for "${level}" must be between 0 and 1, got ${rate}.\n` +
+            "  Fix: Use e.g. { debug: 0.1 } to keep 10% of debug logs.",
+        );
+      }
+    }
   }
 
   /**
@@ -137,7 +128,10 @@ export class Logger {
       module: (ctx.module as string) ?? this.moduleName,
       minLevel: this.minLevel,
       context: { ...this.context, ...ctx },
-      writer: this.write,
+      transports: this.transports,
+      redact: this.redactOptions,
+      sampling: this.sampling,
+      correlate: this.correlate,
     });
   }
 
@@ -172,7 +166,20 @@ export class Logger {
    * Useful for avoiding expensive string building for debug messages.
    */
   isLevelEnabled(level: LogLevel): boolean {
-    return LOG_LEVELS[level] >= LOG_LEVELS[this.minLevel];
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.getLevel()];
+  }
+
+  /**
+   * The effective minimum level: a runtime override for this module, else
+   * the configured level.
+   */
+  getLevel(): LogLevel {
+    const env = process.env.LOG_LEVEL;
+    return (
+      resolveLogLevelOverride(this.moduleName) ??
+      this.minLevel ??
+      (isLogLevel(env) ? env : "info")
+    );
   }
 
   /**
@@ -189,6 +196,21 @@ export class Logger {
     return { ...this.context };
   }
 
+  /**
+   * Deliver entries buffered by transports (e.g. before a serverless
+   * function returns).
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.transports.map((t) => t.flush?.()));
+  }
+
+  /**
+   * Flush and close every transport, e.g. on SIGTERM.
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.transports.map((t) => t.close?.()));
+  }
+
   // -----------------------------------------------------------------------
   // Internal
   // -----------------------------------------------------------------------
@@ -198,7 +220,21 @@ export class Logger {
     message: string,
     data?: Record<string, unknown>,
   ): void {
-    if (LOG_LEVELS[level] < LOG_LEVELS[this.minLevel]) {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    // Merge context — requestId and trace IDs get promoted to top-level
+    const merged: Record<string, unknown> = { ...this.context, ...data };
+    if (this.correlate) {
+      const span = getActiveSpanContext();
+      merged.requestId ??= getActiveRequestId();
+      merged.traceId ??= span?.traceId;
+      merged.spanId ??= span?.spanId;
+    }
+
+    const rate = this.sampling[level] ?? 1;
+    if (rate < 1 && sampleKey(merged.traceId as string | undefined) >= rate) {
       return;
     }
 
@@ -212,12 +248,9 @@ export class Logger {
       entry.module = this.moduleName;
     }
 
-    // Merge context — requestId gets promoted to top-level
-    const merged = { ...this.context, ...data };
-
-    if (merged.requestId) {
-      entry.requestId = merged.requestId as string;
-      delete merged.requestId;
+    for (const key of TOP_LEVEL) {
+      if (merged[key]) entry[key] = merged[key] as string;
+      delete merged[key];
     }
 
     if (merged.module) {
@@ -225,14 +258,23 @@ export class Logger {
       delete merged.module;
     }
 
-    // Spread remaining context
-    Object.assign(entry, merged);
-
-    const isDev =
-      process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
-    const formatted = isDev ? formatDev(entry) : formatJson(entry);
+    if (rate < 1) {
+      // Lets log backends scale counts back up
+      merged.sampleRate = rate;
+    }
 
-    this.write(formatted);
+    // Spread remaining context
+    Object.assign(entry, this.redactor ? this.redactor(merged) : merged);
+
+    for (const transport of this.transports) {
+      if (transport.minLevel && LOG_LEVELS[level] < LOG_LEVELS[transport.minLevel]) continue;
+      try {
+        transport.write(entry);
+      } catch (error) {
+        // A broken transport must not break the code that logs
+        console.error(`[AOR] Log transport failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
   }
 }
 
@@ -0,0 +1,103 @@
+/**
+ * Log Redaction
+ *
+ * Removes secrets and PII from log fields before any transport sees them.
+ * Fields whose key looks like a secret (password, token, api key, cookie,
+ * ...) are replaced entirely; email addresses are masked wherever they
+ * appear in string values (`ada@example.com` -> `a***@example.com`).
+ * The log message itself is not touched: keep data out of messages.
+ *
+ * Usage:
+ *   const log = createLogger({
+ *     redact: { keys: ['ssn', /^card/i], paths: ['user.address.street'] },
+ *   });
+ *   log.info('Signed up', { email: 'ada@example.com', password: 'hunter2' });
+ *   // {"email":"a***@example.com","password":"[REDACTED]",...}
+ */
+
+export interface RedactOptions {
+  /**
+   * More keys to censor at any depth: names (case-insensitive) or patterns.
+   * Added to the defaults unless `defaults` is false.
+   */
+  keys?: (string | RegExp)[];
+  /** Dotted paths to censor, `*` matching any one key (e.g. `headers.*.token`) */
+  paths?: string[];
+  /** Mask email addresses in string values (default: true) */
+  emails?: boolean;
+  /** Include the default secret keys (default: true) */
+  defaults?: boolean;
+  /** Replacement for censored values (default: '[REDACTED]') */
+  censor?: string;
+}
+
+export type Redactor = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/** Keys censored by default: credentials, tokens and session material */
+export const DEFAULT_REDACT_KEYS: readonly RegExp[] = [
+  /^pass(wd|phrase)?$|password$/i, // password, newPassword, passwd
+  /secret$/i, // secret, clientSecret
+  /token$/i, // token, accessToken, refresh_token (not inputTokens)
+  /^authorization$/i,
+  /api[-_]?key$/i,
+  /^(set-)?cookie$/i,
+  /^session(id)?$/i,
+  /private[-_]?key$/i,
+  /^(card|cc)[-_]?(number|num)$/i,
+  /^cvv$/i,
+];
+
+const EMAIL = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/** Deeper values are replaced, guarding against huge or cyclic objects */
+const MAX_DEPTH = 10;
+
+function maskEmails(value: string): string {
+  return value.replace(EMAIL, "$1***@$2");
+}
+
+/**
+ * Create a function that returns a redacted copy of log data.
+ */
+export function createRedactor(options: RedactOptions = {}): Redactor {
+  const censor = options.censor ?? "[REDACTED]";
+  const masksEmails = options.emails ?? true;
+  const names = new Set<string>();
+  const patterns: RegExp[] = options.defaults === false ? [] : [...DEFAULT_REDACT_KEYS];
+  for (const key of options.keys ?? []) {
+    if (typeof key === "string") names.add(key.toLowerCase());
+    else patterns.push(key);
+  }
+  const paths = (options.paths ?? []).map((path) => path.split("."));
+
+  const isSecretKey = (key: string) => names.has(key.toLowerCase()) || patterns.some((p) => p.test(key));
+
+  /** Whether `path` is a configured path */
+  const matchesPath = (path: string[]) =>
+    paths.some((p) => p.length === path.length && p.every((segment, i) => segment === "*" || segment === path[i]));
+
+  function visit(value: unknown, path: string[], seen: Set<object>): unknown {
+    if (typeof value === "string") return masksEmails ? maskEmails(value) : value;
+    if (value === null || typeof value !== "object") return value;
+    if (value instanceof Date) return value;
+    if (seen.has(value)) return "[Circular]";
+    if (path.length >= MAX_DEPTH) return "[Truncated]";
+
+    seen.add(value);
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((item, index) => visit(item, [...path, String(index)], seen));
+    } else {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = [...path, key];
+        out[key] = isSecretKey(key) || matchesPath(childPath) ? censor : visit(child, childPath, seen);
+      }
+      result = out;
+    }
+    seen.delete(value);
+    return result;
+  }
+
+  return (data) => visit(data, [], new Set()) as Record<string, unknown>;
+}
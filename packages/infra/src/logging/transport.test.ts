@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFileTransport } from "./file.js";
+import { createHttpTransport } from "./http.js";
+import { createStdoutTransport, type LogEntry } from "./transport.js";
+
+const entry = (message: string, extra: Record<string, unknown> = {}): LogEntry => ({
+  level: "info",
+  message,
+  timestamp: "2026-01-02T03:04:05.678Z",
+  ...extra,
+});
+
+describe("Log transports", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("formats stdout lines as JSON or pretty", () => {
+    const lines: string[] = [];
+    createStdoutTransport({ format: "json", write: (l) => lines.push(l) }).write(entry("hi", { port: 1 }));
+    createStdoutTransport({ format: "pretty", write: (l) => lines.push(l) }).write(entry("hi", { traceId: "t" }));
+
+    expect(JSON.parse(lines[0]!)).toMatchObject({ message: "hi", port: 1 });
+    expect(lines[1]).toContain("03:04:05.678");
+    expect(lines[1]).not.toContain("traceId");
+  });
+
+  describe("createFileTransport", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "vibe-logs-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("appends JSON lines and rotates by size", async () => {
+      const path = join(dir, "nested", "app.log");
+      const transport = createFileTransport({ path, maxSize: 200, maxFiles: 2 });
+
+      for (let i = 0; i < 10; i++) transport.write(entry(`message ${i}`));
+      await transport.close?.();
+
+      expect(readdirSync(join(dir, "nested")).sort()).toEqual(["app.log", "app.log.1", "app.log.2"]);
+      const current = readFileSync(path, "utf8").trim().split("\n").map((l) => JSON.parse(l) as LogEntry);
+      expect(current.at(-1)!.message).toBe("message 9");
+      for (const file of ["app.log", "app.log.1", "app.log.2"]) {
+        expect(readFileSync(join(dir, "nested", file)).length).toBeLessThanOrEqual(200);
+      }
+    });
+
+    it("continues an existing file after a restart", async () => {
+      const path = join(dir, "app.log");
+      const first = createFileTransport({ path });
+      first.write(entry("before"));
+      await first.close?.();
+      const second = createFileTransport({ path });
+      second.write(entry("after"));
+      await second.close?.();
+
+      expect(readFileSync(path, "utf8").trim().split("\n")).toHaveLength(2);
+    });
+
+    it("rejects invalid rotation settings", () => {
+      expect(() => createFileTransport({ path: join(dir, "x.log"), maxSize: 0 })).toThrow("Invalid file log rotation");
+    });
+  });
+
+  describe("createHttpTransport", () => {
+    it("ships batches when full or after the interval", async () => {
+      vi.useFakeTimers();
+      const bodies: unknown[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (_url: string, init: RequestInit) => {
+          bodies.push(JSON.parse(init.body as string));
+          return new Response(null, { status: 202 });
+        }),
+      );
+      const transport = createHttpTransport({ url: "https://logs.example.com", batchSize: 2, flushIntervalMs: 500 });
+
+      transport.write(entry("a"));
+      transport.write(entry("b"));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(bodies).toEqual([[entry("a"), entry("b")]]);
+
+      transport.write(entry("c"));
+      await vi.advanceTimersByTimeAsync(500);
+      expect(bodies).toHaveLength(2);
+      await transport.close?.();
+    });
+
+    it("sends NDJSON with headers", async () => {
+      const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(null, { status: 200 }));
+      vi.stubGlobal("fetch", fetchMock);
+      const transport = createHttpTransport({
+        url: "https://logs.example.com",
+        encoding: "ndjson",
+        headers: { authorization: "Bearer k" },
+      });
+
+      transport.write(entry("a"));
+      transport.write(entry("b"));
+      await transport.flush?.();
+
+      const init = fetchMock.mock.calls[0]![1];
+      expect(init.headers).toMatchObject({ authorization: "Bearer k", "content-type": "application/x-ndjson" });
+      expect((init.body as string).trim().split("\n")).toHaveLength(2);
+      await transport.close?.();
+    });
+
+    it("retries failed batches and drops the oldest entries beyond maxQueueSize", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      let up = false;
+      const received: LogEntry[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (_url: string, init: RequestInit) => {
+          if (!up) return new Response(null, { status: 503 });
+          received.push(...(JSON.parse(init.body as string) as LogEntry[]));
+          return new Response(null, { status: 200 });
+        }),
+      );
+      const transport = createHttpTransport({ url: "https://logs.example.com", maxQueueSize: 2 });
+
+      transport.write(entry("a"));
+      await transport.flush?.();
+      transport.write(entry("b"));
+      transport.write(entry("c"));
+      await transport.flush?.();
+      up = true;
+      await transport.flush?.();
+
+      expect(received.map((e) => e.message)).toEqual(["b", "c"]);
+      expect(error).toHaveBeenCalledOnce();
+      expect(error.mock.calls[0]![0]).toContain("HTTP 503");
+      await transport.close?.();
+      error.mockRestore();
+    });
+  });
+});
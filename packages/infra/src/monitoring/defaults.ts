@@ -0,0 +1,154 @@
+/**
+ * Default Metrics — HTTP, Database, Queue
+ *
+ * Standard metric families and the recorders that feed them. HTTP metrics
+ * come from core's timing middleware, database metrics from core's query
+ * analyzer and queue metrics from the queue worker, which records every job
+ * it runs.
+ *
+ * Usage:
+ *   import { createServer } from '@vibeonrails/core/api';
+ *   import { createQueryAnalyzer } from '@vibeonrails/core/database';
+ *   import { recordHttpRequest, recordDbQuery, registerDefaultMetrics } from '@vibeonrails/infra/monitoring';
+ *
+ *   registerDefaultMetrics(); // expose the families before the first sample
+ *   const app = createServer({ router, onRequest: recordHttpRequest });
+ *   const analyzer = createQueryAnalyzer({ onQuery: recordDbQuery });
+ */
+
+import { metricRegistry as defaultRegistry, type Counter, type Histogram, type MetricRegistry } from "./metrics.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A finished HTTP request (core's `RequestTiming`) */
+export interface HttpRequestMetric {
+  method: string;
+  /** Route pattern, not the raw path, to keep label values bounded */
+  route: string;
+  status: number;
+  durationMs: number;
+}
+
+/** An executed query (core's `TrackedQuery`) */
+export interface DbQueryMetric {
+  sql: string;
+  durationMs: number;
+}
+
+/** A finished job attempt */
+export interface QueueJobMetric {
+  queue: string;
+  status: "completed" | "failed";
+  durationMs: number;
+}
+
+export interface DefaultMetrics {
+  httpRequests: Counter;
+  httpDuration: Histogram;
+  dbQueries: Counter;
+  dbDuration: Histogram;
+  queueJobs: Counter;
+  queueDuration: Histogram;
+}
+
+const DB_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+const QUEUE_BUCKETS = [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 300];
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Register the default metric families, so they are exposed (with help text)
+ * before anything is recorded. Recording registers them too.
+ */
+export function registerDefaultMetrics(registry: MetricRegistry = defaultRegistry): DefaultMetrics {
+  return {
+    httpRequests: registry.counter({
+      name: "http_requests_total",
+      help: "HTTP requests handled.",
+      labelNames: ["method", "route", "status"],
+    }),
+    httpDuration: registry.histogram({
+      name: "http_request_duration_seconds",
+      help: "HTTP request duration.",
+      unit: "seconds",
+      labelNames: ["method", "route", "status"],
+    }),
+    dbQueries: registry.counter({
+      name: "db_queries_total",
+      help: "Database queries executed.",
+      labelNames: ["operation"],
+    }),
+    dbDuration: registry.histogram({
+      name: "db_query_duration_seconds",
+      help: "Database query duration.",
+      unit: "seconds",
+      labelNames: ["operation"],
+      buckets: DB_BUCKETS,
+    }),
+    queueJobs: registry.counter({
+      name: "queue_jobs_total",
+      help: "Background job attempts by outcome.",
+      labelNames: ["queue", "status"],
+    }),
+    queueDuration: registry.histogram({
+      name: "queue_job_duration_seconds",
+      help: "Background job attempt duration.",
+      unit: "seconds",
+      labelNames: ["queue", "status"],
+      buckets: QUEUE_BUCKETS,
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recorders
+// ---------------------------------------------------------------------------
+
+/** The statement kind of a query: select, insert, update, delete, transaction or other */
+export function sqlOperation(sql: string): string {
+  const keyword = /^\s*(\w+)/.exec(sql)?.[1]?.toLowerCase();
+  switch (keyword) {
+    case "select":
+    case "insert":
+    case "update":
+    case "delete":
+      return keyword;
+    case "with":
+      return "select";
+    case "begin":
+    case "commit":
+    case "rollback":
+    case "savepoint":
+      return "transaction";
+    default:
+      return "other";
+  }
+}
+
+/** Record a finished HTTP request (pass as the server's `onRequest` hook). */
+export function recordHttpRequest(request: HttpRequestMetric, registry: MetricRegistry = defaultRegistry): void {
+  const { httpRequests, httpDuration } = registerDefaultMetrics(registry);
+  const labels = { method: request.method, route: request.route, status: String(request.status) };
+  httpRequests.inc(1, labels);
+  httpDuration.observe(request.durationMs / 1000, labels);
+}
+
+/** Record an executed query (pass as the query analyzer's `onQuery` hook). */
+export function recordDbQuery(query: DbQueryMetric, registry: MetricRegistry = defaultRegistry): void {
+  const { dbQueries, dbDuration } = registerDefaultMetrics(registry);
+  const labels = { operation: sqlOperation(query.sql) };
+  dbQueries.inc(1, labels);
+  dbDuration.observe(query.durationMs / 1000, labels);
+}
+
+/** Record a finished job attempt (called by the queue worker). */
+export function recordQueueJob(job: QueueJobMetric, registry: MetricRegistry = defaultRegistry): void {
+  const { queueJobs, queueDuration } = registerDefaultMetrics(registry);
+  const labels = { queue: job.queue, status: job.status };
+  queueJobs.inc(1, labels);
+  queueDuration.observe(job.durationMs / 1000, labels);
+}
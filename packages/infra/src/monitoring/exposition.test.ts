@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { createMetricRegistry } from "./metrics.js";
+import { createMetricsHandler, serializeMetrics, OPENMETRICS_CONTENT_TYPE, PROMETHEUS_CONTENT_TYPE } from "./exposition.js";
+import { recordDbQuery, recordHttpRequest, registerDefaultMetrics, sqlOperation } from "./defaults.js";
+
+function createRegistry() {
+  const registry = createMetricRegistry();
+  registry.counter({ name: "http_requests_total", help: "Requests handled.", labelNames: ["method"] }).inc(3, { method: "GET" });
+  registry.gauge({ name: "temperature_celsius", help: "Current temperature.", unit: "celsius" }).set(21.5);
+  const latency = registry.histogram({ name: "latency_seconds", help: "Latency.", unit: "seconds", buckets: [0.1, 1] });
+  latency.observe(0.05);
+  latency.observe(0.5);
+  return registry;
+}
+
+describe("serializeMetrics", () => {
+  it("writes OpenMetrics text", () => {
+    expect(serializeMetrics(createRegistry(), "openmetrics")).toBe(
+      [
+        "# TYPE http_requests counter",
+        "# HELP http_requests Requests handled.",
+        'http_requests_total{method="GET"} 3',
+        "# TYPE temperature_celsius gauge",
+        "# UNIT temperature_celsius celsius",
+        "# HELP temperature_celsius Current temperature.",
+        "temperature_celsius 21.5",
+        "# TYPE latency_seconds histogram",
+        "# UNIT latency_seconds seconds",
+        "# HELP latency_seconds Latency.",
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 2',
+        "latency_seconds_sum 0.55",
+        "latency_seconds_count 2",
+        "# EOF",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("writes Prometheus text without units and with _total counter families", () => {
+    const text = serializeMetrics(createRegistry(), "prometheus");
+    expect(text).toContain("# HELP http_requests_total Requests handled.\n# TYPE http_requests_total counter\n");
+    expect(text).not.toContain("# UNIT");
+    expect(text).not.toContain("# EOF");
+  });
+
+  it("writes summaries with quantile labels", () => {
+    const registry = createMetricRegistry();
+    registry.summary({ name: "rpc", help: "", quantiles: [0.5] }).observe(4, { service: "billing" });
+    expect(serializeMetrics(registry)).toBe(
+      [
+        "# TYPE rpc summary",
+        'rpc{service="billing",quantile="0.5"} 4',
+        'rpc_sum{service="billing"} 4',
+        'rpc_count{service="billing"} 1',
+        "# EOF",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("escapes label values and help text", () => {
+    const registry = createMetricRegistry();
+    registry.gauge({ name: "info", help: 'Say "hi"\nback\\slash' }).set(1, { path: 'a"b\\c\nd' });
+    const text = serializeMetrics(registry);
+    expect(text).toContain('# HELP info Say \\"hi\\"\\nback\\\\slash');
+    expect(text).toContain('info{path="a\\"b\\\\c\\nd"} 1');
+  });
+});
+
+describe("createMetricsHandler", () => {
+  it("negotiates the format from Accept", async () => {
+    const handler = createMetricsHandler({ registry: createRegistry() });
+
+    const openMetrics = await handler(
+      new Request("http://localhost/metrics", { headers: { accept: "application/openmetrics-text;version=1.0.0" } }),
+    );
+    expect(openMetrics.headers.get("content-type")).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(await openMetrics.text()).toMatch(/# EOF\n$/);
+
+    const prometheus = await handler(new Request("http://localhost/metrics"));
+    expect(prometheus.headers.get("content-type")).toBe(PROMETHEUS_CONTENT_TYPE);
+  });
+
+  it("rejects unauthorized scrapes and other methods", async () => {
+    const handler = createMetricsHandler({
+      registry: createRegistry(),
+      authorize: (req) => req.headers.get("authorization") === "Bearer secret",
+    });
+
+    expect((await handler(new Request("http://localhost/metrics"))).status).toBe(401);
+    expect((await handler(new Request("http://localhost/metrics", { method: "POST" }))).status).toBe(405);
+    const ok = await handler(new Request("http://localhost/metrics", { headers: { authorization: "Bearer secret" } }));
+    expect(ok.status).toBe(200);
+  });
+});
+
+describe("default metrics", () => {
+  it("registers every family with help text", () => {
+    const registry = createMetricRegistry();
+    registerDefaultMetrics(registry);
+    expect(registry.collect().map((f) => f.name)).toEqual([
+      "http_requests",
+      "http_request_duration_seconds",
+      "db_queries",
+      "db_query_duration_seconds",
+      "queue_jobs",
+      "queue_job_duration_seconds",
+    ]);
+  });
+
+  it("records HTTP requests by route and status", () => {
+    const registry = createMetricRegistry();
+    recordHttpRequest({ method: "GET", route: "/users/:id", status: 200, durationMs: 30 }, registry);
+    recordHttpRequest({ method: "GET", route: "/users/:id", status: 200, durationMs: 70 }, registry);
+
+    const { httpRequests, httpDuration } = registerDefaultMetrics(registry);
+    const labels = { method: "GET", route: "/users/:id", status: "200" };
+    expect(httpRequests.get(labels)).toBe(2);
+    expect(httpDuration.get(labels).sum).toBeCloseTo(0.1);
+  });
+
+  it("records queries by operation", () => {
+    const registry = createMetricRegistry();
+    recordDbQuery({ sql: "SELECT * FROM users WHERE id = $1", durationMs: 4 }, registry);
+    recordDbQuery({ sql: "insert into users (email) values ($1)", durationMs: 6 }, registry);
+
+    const { dbQueries } = registerDefaultMetrics(registry);
+    expect(dbQueries.get({ operation: "select" })).toBe(1);
+    expect(dbQueries.get({ operation: "insert" })).toBe(1);
+  });
+
+  it("classifies SQL statements", () => {
+    expect(sqlOperation("  WITH recent AS (SELECT 1) SELECT * FROM recent")).toBe("select");
+    expect(sqlOperation("BEGIN")).toBe("transaction");
+    expect(sqlOperation("VACUUM users")).toBe("other");
+  });
+});
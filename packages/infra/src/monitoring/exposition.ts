@@ -0,0 +1,124 @@
+/**
+ * Metrics Exposition — Prometheus and OpenMetrics Text Format
+ *
+ * Serializes a metric registry for scraping and serves it from a Fetch API
+ * handler. The format is negotiated from the `Accept` header: OpenMetrics
+ * when the scraper asks for it (Prometheus 2.5+ does), the classic
+ * Prometheus text format otherwise.
+ *
+ * Usage:
+ *   import { createMetricsHandler } from '@vibeonrails/infra/monitoring';
+ *
+ *   const metrics = createMetricsHandler({
+ *     authorize: (req) => req.headers.get('authorization') === `Bearer ${process.env.METRICS_TOKEN}`,
+ *   });
+ *   app.get('/metrics', (c) => metrics(c.req.raw));
+ */
+
+import { formatNumber, metricRegistry as defaultRegistry, type MetricFamily, type MetricRegistry } from "./metrics.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MetricsFormat = "openmetrics" | "prometheus";
+
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface MetricsHandlerOptions {
+  /** Registry to expose (default: the shared registry) */
+  registry?: MetricRegistry;
+  /** Always use this format instead of negotiating it from `Accept` */
+  format?: MetricsFormat;
+  /** Reject scrapes this returns false for with 401 (default: allow all) */
+  authorize?: (request: Request) => boolean | Promise<boolean>;
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+// ---------------------------------------------------------------------------
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string, format: MetricsFormat): string {
+  const escaped = help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+  return format === "openmetrics" ? escaped.replace(/"/g, '\\"') : escaped;
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function serializeFamily(family: MetricFamily, format: MetricsFormat): string[] {
+  // Prometheus text names a counter family by its sample name
+  const name = format === "prometheus" && family.type === "counter" ? `${family.name}_total` : family.name;
+  const lines: string[] = [];
+
+  if (format === "openmetrics") {
+    lines.push(`# TYPE ${name} ${family.type}`);
+    if (family.unit) lines.push(`# UNIT ${name} ${family.unit}`);
+    if (family.help) lines.push(`# HELP ${name} ${escapeHelp(family.help, format)}`);
+  } else {
+    if (family.help) lines.push(`# HELP ${name} ${escapeHelp(family.help, format)}`);
+    lines.push(`# TYPE ${name} ${family.type}`);
+  }
+
+  for (const sample of family.samples) {
+    lines.push(`${family.name}${sample.suffix}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+  }
+  return lines;
+}
+
+/**
+ * Serialize every metric in a registry.
+ *
+ * @param registry - Registry to serialize (default: the shared registry)
+ * @param format - `openmetrics` (ends with `# EOF`) or `prometheus` text 0.0.4
+ */
+export function serializeMetrics(
+  registry: MetricRegistry = defaultRegistry,
+  format: MetricsFormat = "openmetrics",
+): string {
+  const lines = registry.collect().flatMap((family) => serializeFamily(family, format));
+  if (format === "openmetrics") lines.push("# EOF");
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+/** Pick the format a scraper asked for in its `Accept` header. */
+export function negotiateMetricsFormat(accept: string | null): MetricsFormat {
+  return accept?.includes("application/openmetrics-text") ? "openmetrics" : "prometheus";
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a `/metrics` handler for Prometheus scrapes.
+ */
+export function createMetricsHandler(options: MetricsHandlerOptions = {}): (request: Request) => Promise<Response> {
+  const registry = options.registry ?? defaultRegistry;
+
+  return async (request) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return new Response("Method not allowed", { status: 405, headers: { allow: "GET, HEAD" } });
+    }
+    if (options.authorize && !(await options.authorize(request))) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const format = options.format ?? negotiateMetricsFormat(request.headers.get("accept"));
+    const body = serializeMetrics(registry, format);
+    return new Response(request.method === "HEAD" ? null : body, {
+      headers: {
+        "content-type": format === "openmetrics" ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+        "cache-control": "no-store",
+      },
+    });
+  };
+}
@@ -7,16 +7,86 @@ export {
   getHistogram,
   getAllMetrics,
   clearMetrics,
+  createMetricRegistry,
+  metricRegistry,
+  formatNumber,
+  DEFAULT_BUCKETS,
+} from "./metrics.js";
+export type {
+  MetricValue,
+  MetricType,
+  MetricLabels,
+  MetricOptions,
+  HistogramOptions,
+  SummaryOptions,
+  HistogramSnapshot,
+  SummarySnapshot,
+  Counter,
+  Gauge,
+  Histogram,
+  Summary,
+  MetricSample,
+  MetricFamily,
+  MetricRegistry,
 } from "./metrics.js";
-export type { MetricValue } from "./metrics.js";
 
 export {
-  generateTraceId,
-  generateSpanId,
+  serializeMetrics,
+  negotiateMetricsFormat,
+  createMetricsHandler,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./exposition.js";
+export type { MetricsFormat, MetricsHandlerOptions } from "./exposition.js";
+
+export {
+  registerDefaultMetrics,
+  recordHttpRequest,
+  recordDbQuery,
+  recordQueueJob,
+  sqlOperation,
+} from "./defaults.js";
+export type { DefaultMetrics, HttpRequestMetric, DbQueryMetric, QueueJobMetric } from "./defaults.js";
+
+export {
+  configureTracing,
+  addSpanProcessor,
+  flushTracing,
+  shutdownTracing,
   startSpan,
+  withSpan,
+  withTraceContext,
+  getActiveSpan,
+  getActiveSpanContext,
+  getTraceparent,
+  getPropagationHeaders,
   endSpan,
   setSpanAttributes,
-  getActiveSpan,
   clearSpans,
+  generateTraceId,
+  generateSpanId,
+  parseTraceparent,
+  formatTraceparent,
+  createSimpleSpanProcessor,
+  createBatchSpanProcessor,
+  createInMemorySpanExporter,
+  tracedFetch,
 } from "./tracing.js";
-export type { SpanContext } from "./tracing.js";
+export type {
+  Span,
+  SpanContext,
+  SpanKind,
+  SpanAttributes,
+  SpanProcessor,
+  SpanExporter,
+  StartSpanOptions,
+} from "./tracing.js";
+
+export {
+  createOtlpTraceExporter,
+  startTracing,
+  encodeOtlpSpans,
+  resolveOtlpEndpoint,
+  parseOtlpHeaders,
+} from "./otlp.js";
+export type { OtlpExporterOptions, StartTracingOptions, OtlpTraceRequest } from "./otlp.js";
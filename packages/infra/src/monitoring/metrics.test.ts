@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   increment, gauge, observe,
   getCounter, getGauge, getHistogram,
-  getAllMetrics, clearMetrics,
+  getAllMetrics, clearMetrics, createMetricRegistry,
 } from "./metrics.js";
 import {
   startSpan, endSpan, setSpanAttributes, getActiveSpan, clearSpans,
@@ -32,11 +32,16 @@ describe("Metrics", () => {
     expect(getGauge("active_connections")).toBe(10);
   });
 
-  it("observes histogram values", () => {
-    observe("response_time", 100);
-    observe("response_time", 200);
-    observe("response_time", 300);
-    expect(getHistogram("response_time")).toEqual([100, 200, 300]);
+  it("observes histogram values into buckets", () => {
+    observe("response_time", 0.02);
+    observe("response_time", 0.2);
+    observe("response_time", 20);
+    const histogram = getHistogram("response_time");
+    expect(histogram.count).toBe(3);
+    expect(histogram.sum).toBeCloseTo(20.22);
+    expect(histogram.buckets.find((b) => b.le === 0.025)!.count).toBe(1);
+    expect(histogram.buckets.find((b) => b.le === 0.25)!.count).toBe(2);
+    expect(histogram.buckets.at(-1)).toEqual({ le: Infinity, count: 3 });
   });
 
   it("gets all metrics", () => {
@@ -48,6 +53,78 @@ describe("Metrics", () => {
   });
 });
 
+describe("Metric registry", () => {
+  it("returns the registered metric for a repeated registration", () => {
+    const registry = createMetricRegistry();
+    const a = registry.counter({ name: "jobs_total", help: "Jobs" });
+    const b = registry.counter({ name: "jobs", help: "Jobs" });
+    a.inc(2);
+    expect(b).toBe(a);
+    expect(registry.get("jobs_total")).toBe(a);
+  });
+
+  it("rejects a name registered with another type", () => {
+    const registry = createMetricRegistry();
+    registry.counter({ name: "jobs", help: "" });
+    expect(() => registry.gauge({ name: "jobs", help: "" })).toThrow("already registered as a counter");
+  });
+
+  it("validates names, units and labels", () => {
+    const registry = createMetricRegistry();
+    expect(() => registry.gauge({ name: "http.requests", help: "" })).toThrow("Invalid metric name");
+    expect(() => registry.histogram({ name: "latency", help: "", unit: "seconds" })).toThrow(
+      'Rename it to "latency_seconds"',
+    );
+    expect(() => registry.histogram({ name: "latency", help: "", labelNames: ["le"] })).toThrow("Invalid label name");
+
+    const requests = registry.counter({ name: "requests", help: "", labelNames: ["method"] });
+    expect(() => requests.inc(1, { path: "/" })).toThrow("expects labels [method]");
+    expect(() => requests.inc(-1, { method: "GET" })).toThrow("can only increase");
+  });
+
+  it("supports gauge inc and dec", () => {
+    const connections = createMetricRegistry().gauge({ name: "connections", help: "" });
+    connections.inc();
+    connections.inc(2);
+    connections.dec();
+    expect(connections.get()).toBe(2);
+  });
+
+  it("times observations in seconds", () => {
+    const now = vi.spyOn(performance, "now").mockReturnValueOnce(1000).mockReturnValueOnce(2500);
+    const duration = createMetricRegistry().histogram({ name: "duration_seconds", help: "", unit: "seconds" });
+    const end = duration.startTimer();
+    expect(end()).toBe(1.5);
+    expect(duration.get().sum).toBe(1.5);
+    now.mockRestore();
+  });
+
+  it("computes summary quantiles over a bounded window", () => {
+    const summary = createMetricRegistry().summary({ name: "size_bytes", help: "", unit: "bytes", maxSamples: 100 });
+    for (let i = 1; i <= 1000; i++) summary.observe(i);
+
+    const snapshot = summary.get();
+    expect(snapshot.count).toBe(1000);
+    expect(snapshot.sum).toBe(500500);
+    // Only the last 100 samples (901..1000) are kept
+    expect(snapshot.quantiles).toEqual([
+      { quantile: 0.5, value: 950 },
+      { quantile: 0.9, value: 990 },
+      { quantile: 0.99, value: 999 },
+    ]);
+  });
+
+  it("drops summary samples older than maxAgeSeconds", () => {
+    vi.useFakeTimers();
+    const summary = createMetricRegistry().summary({ name: "wait", help: "", quantiles: [0.5], maxAgeSeconds: 60 });
+    summary.observe(10);
+    vi.advanceTimersByTime(61_000);
+    summary.observe(20);
+    expect(summary.get().quantiles).toEqual([{ quantile: 0.5, value: 20 }]);
+    vi.useRealTimers();
+  });
+});
+
 describe("Tracing", () => {
   beforeEach(() => { clearSpans(); });
 
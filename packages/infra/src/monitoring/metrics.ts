@@ -1,58 +1,529 @@
 /**
- * Metrics Collection — Counter, Histogram, Gauge
+ * Metrics Collection — Counter, Gauge, Histogram, Summary
+ *
+ * Metrics are registered in a registry with help text, an optional unit and
+ * label names, then exposed in the Prometheus / OpenMetrics text format (see
+ * exposition.ts). Histograms count observations into fixed buckets and
+ * summaries keep a bounded window of recent samples, so memory stays flat
+ * however many values are observed.
+ *
+ * Usage:
+ *   import { metricRegistry } from '@vibeonrails/infra/monitoring';
+ *
+ *   const signups = metricRegistry.counter({ name: 'signups_total', help: 'Completed signups', labelNames: ['plan'] });
+ *   signups.inc(1, { plan: 'pro' });
+ *
+ *   const duration = metricRegistry.histogram({
+ *     name: 'checkout_duration_seconds',
+ *     help: 'Checkout duration',
+ *     unit: 'seconds',
+ *     buckets: [0.1, 0.5, 1, 5],
+ *   });
+ *   const end = duration.startTimer();
+ *   await checkout();
+ *   end();
+ *
+ *   // Shorthands on the default registry, registering on first use
+ *   increment('emails_sent', 1, { template: 'welcome' });
  */
 
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MetricType = "counter" | "gauge" | "histogram" | "summary";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricOptions {
+  /** Metric name; counters may end in `_total`, which is added on export anyway */
+  name: string;
+  /** One-line description shown in `# HELP` */
+  help: string;
+  /** Unit, e.g. `seconds` or `bytes`; the name must end in `_<unit>` */
+  unit?: string;
+  /** Label names every observation must have (default: any labels) */
+  labelNames?: readonly string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds of the buckets (default: DEFAULT_BUCKETS, in seconds) */
+  buckets?: readonly number[];
+}
+
+export interface SummaryOptions extends MetricOptions {
+  /** Quantiles to report, between 0 and 1 (default: 0.5, 0.9, 0.99) */
+  quantiles?: readonly number[];
+  /** Samples older than this are left out of the quantiles (default: 600) */
+  maxAgeSeconds?: number;
+  /** Most recent samples kept per label set (default: 1,024) */
+  maxSamples?: number;
+}
+
+export interface HistogramSnapshot {
+  /** Cumulative counts per upper bound, ending with `Infinity` */
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+}
+
+export interface SummarySnapshot {
+  /** NaN when there are no recent samples */
+  quantiles: { quantile: number; value: number }[];
+  sum: number;
+  count: number;
+}
+
+export interface Counter {
+  readonly type: "counter";
+  readonly name: string;
+  inc(value?: number, labels?: MetricLabels): void;
+  get(labels?: MetricLabels): number;
+}
+
+export interface Gauge {
+  readonly type: "gauge";
+  readonly name: string;
+  set(value: number, labels?: MetricLabels): void;
+  inc(value?: number, labels?: MetricLabels): void;
+  dec(value?: number, labels?: MetricLabels): void;
+  get(labels?: MetricLabels): number;
+}
+
+export interface Histogram {
+  readonly type: "histogram";
+  readonly name: string;
+  observe(value: number, labels?: MetricLabels): void;
+  /** Start timing; the returned function observes the elapsed seconds and returns them */
+  startTimer(labels?: MetricLabels): () => number;
+  get(labels?: MetricLabels): HistogramSnapshot;
+}
+
+export interface Summary {
+  readonly type: "summary";
+  readonly name: string;
+  observe(value: number, labels?: MetricLabels): void;
+  startTimer(labels?: MetricLabels): () => number;
+  get(labels?: MetricLabels): SummarySnapshot;
+}
+
+/** One exported line: the family name plus `suffix`, labels and value */
+export interface MetricSample {
+  suffix: "" | "_total" | "_bucket" | "_sum" | "_count";
+  labels: MetricLabels;
+  value: number;
+}
+
+/** A metric and its samples at collection time */
+export interface MetricFamily {
+  /** Family name, without the counter `_total` suffix */
+  name: string;
+  type: MetricType;
+  help: string;
+  unit?: string;
+  samples: MetricSample[];
+}
+
+export interface MetricRegistry {
+  /** Register a counter, or return the one already registered under the name */
+  counter(options: MetricOptions): Counter;
+  gauge(options: MetricOptions): Gauge;
+  histogram(options: HistogramOptions): Histogram;
+  summary(options: SummaryOptions): Summary;
+  /** Look up a metric by name (counters with or without `_total`) */
+  get(name: string): Counter | Gauge | Histogram | Summary | undefined;
+  /** Snapshot every metric, in registration order */
+  collect(): MetricFamily[];
+  /** Remove every metric */
+  clear(): void;
+}
+
 export interface MetricValue {
   name: string;
-  type: "counter" | "histogram" | "gauge";
+  type: MetricType;
+  /** Counter and gauge value; the mean of histograms and summaries */
   value: number;
   labels?: Record<string, string>;
   timestamp: number;
 }
 
-const counters = new Map<string, number>();
-const gauges = new Map<string, number>();
-const histograms = new Map<string, number[]>();
+/** Prometheus' default buckets, for latencies in seconds */
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const DEFAULT_QUANTILES: readonly number[] = [0.5, 0.9, 0.99];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function familyName(type: MetricType, name: string): string {
+  return type === "counter" ? name.replace(/_total$/, "") : name;
+}
+
+function validateOptions(type: MetricType, options: MetricOptions): string {
+  const name = familyName(type, options.name);
+  if (!METRIC_NAME.test(name)) {
+    throw new Error(
+      `[AOR] Invalid metric name "${options.name}".\n` +
+        "  Fix: Use letters, digits, underscores and colons, not starting with a digit (e.g. http_requests_total).",
+    );
+  }
+  if (options.unit && !name.endsWith(`_${options.unit}`)) {
+    throw new Error(
+      `[AOR] Metric "${name}" has unit "${options.unit}" but its name does not end in "_${options.unit}".\n` +
+        `  Fix: Rename it to "${name}_${options.unit}".`,
+    );
+  }
+  const reserved = type === "histogram" ? "le" : type === "summary" ? "quantile" : undefined;
+  for (const label of options.labelNames ?? []) {
+    if (!LABEL_NAME.test(label) || label.startsWith("__") || label === reserved) {
+      throw new Error(`[AOR] Invalid label name "${label}" on metric "${name}".`);
+    }
+  }
+  return name;
+}
+
+function validateLabels(name: string, labelNames: readonly string[] | undefined, labels: MetricLabels): void {
+  if (!labelNames) return;
+  const given = Object.keys(labels);
+  if (given.length === labelNames.length && given.every((label) => labelNames.includes(label))) return;
+  throw new Error(
+    `[AOR] Metric "${name}" expects labels [${labelNames.join(", ")}], got [${given.join(", ")}].\n` +
+      "  Fix: Pass exactly the labels the metric was registered with.",
+  );
+}
 
-function labelKey(name: string, labels?: Record<string, string>): string {
-  if (!labels || Object.keys(labels).length === 0) return name;
-  const sorted = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
-  return `${name}{${sorted.map(([k, v]) => `${k}="${v}"`).join(",")}}`;
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${JSON.stringify(labels[key])}`)
+    .join(",");
 }
 
-/** Increment a counter. */
+// ---------------------------------------------------------------------------
+// Metric Implementations
+// ---------------------------------------------------------------------------
+
+type Metric = Counter | Gauge | Histogram | Summary;
+
+interface MetricEntry {
+  metric: Metric;
+  options: MetricOptions;
+  collect(): MetricSample[];
+}
+
+/** Per-label-set state of one metric */
+function createSeries<T>(name: string, labelNames: readonly string[] | undefined, init: () => T) {
+  const series = new Map<string, { labels: MetricLabels; state: T }>();
+  return {
+    /** State of a label set, created on first use */
+    of(labels: MetricLabels = {}): T {
+      const key = labelKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        validateLabels(name, labelNames, labels);
+        series.set(key, (entry = { labels: { ...labels }, state: init() }));
+      }
+      return entry.state;
+    },
+    peek(labels: MetricLabels = {}): T | undefined {
+      return series.get(labelKey(labels))?.state;
+    },
+    entries() {
+      return [...series.values()];
+    },
+  };
+}
+
+function createCounter(name: string, options: MetricOptions): MetricEntry {
+  const series = createSeries(name, options.labelNames, () => ({ value: 0 }));
+  const metric: Counter = {
+    type: "counter",
+    name,
+    inc(value = 1, labels) {
+      if (!(value >= 0)) throw new Error(`[AOR] Counter "${name}" can only increase, got ${value}.`);
+      series.of(labels).value += value;
+    },
+    get(labels) {
+      return series.peek(labels)?.value ?? 0;
+    },
+  };
+  return {
+    metric,
+    options,
+    collect: () => series.entries().map(({ labels, state }) => ({ suffix: "_total", labels, value: state.value })),
+  };
+}
+
+function createGauge(name: string, options: MetricOptions): MetricEntry {
+  const series = createSeries(name, options.labelNames, () => ({ value: 0 }));
+  const metric: Gauge = {
+    type: "gauge",
+    name,
+    set(value, labels) {
+      series.of(labels).value = value;
+    },
+    inc(value = 1, labels) {
+      series.of(labels).value += value;
+    },
+    dec(value = 1, labels) {
+      series.of(labels).value -= value;
+    },
+    get(labels) {
+      return series.peek(labels)?.value ?? 0;
+    },
+  };
+  return {
+    metric,
+    options,
+    collect: () => series.entries().map(({ labels, state }) => ({ suffix: "", labels, value: state.value })),
+  };
+}
+
+function startTimer(observe: (seconds: number) => void): () => number {
+  const start = performance.now();
+  return () => {
+    const seconds = (performance.now() - start) / 1000;
+    observe(seconds);
+    return seconds;
+  };
+}
+
+function createHistogram(name: string, options: HistogramOptions): MetricEntry {
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  if (bounds.length === 0 || bounds.some((b, i) => !Number.isFinite(b) || b === bounds[i - 1])) {
+    throw new Error(`[AOR] Histogram "${name}" needs distinct, finite bucket bounds.`);
+  }
+  // counts[i] holds observations in (bounds[i-1], bounds[i]]; the last slot is +Inf
+  const series = createSeries(name, options.labelNames, () => ({
+    counts: new Array<number>(bounds.length + 1).fill(0),
+    sum: 0,
+    count: 0,
+  }));
+
+  const snapshot = (state: { counts: number[]; sum: number; count: number } | undefined): HistogramSnapshot => {
+    let cumulative = 0;
+    const buckets = [...bounds, Infinity].map((le, i) => {
+      cumulative += state?.counts[i] ?? 0;
+      return { le, count: cumulative };
+    });
+    return { buckets, sum: state?.sum ?? 0, count: state?.count ?? 0 };
+  };
+
+  const metric: Histogram = {
+    type: "histogram",
+    name,
+    observe(value, labels) {
+      const state = series.of(labels);
+      let index = bounds.findIndex((bound) => value <= bound);
+      if (index === -1) index = bounds.length;
+      state.counts[index]!++;
+      state.sum += value;
+      state.count++;
+    },
+    startTimer(labels) {
+      return startTimer((seconds) => metric.observe(seconds, labels));
+    },
+    get(labels) {
+      return snapshot(series.peek(labels));
+    },
+  };
+
+  return {
+    metric,
+    options,
+    collect: () =>
+      series.entries().flatMap(({ labels, state }) => {
+        const { buckets, sum, count } = snapshot(state);
+        return [
+          ...buckets.map(({ le, count }): MetricSample => ({
+            suffix: "_bucket",
+            labels: { ...labels, le: formatNumber(le) },
+            value: count,
+          })),
+          { suffix: "_sum" as const, labels, value: sum },
+          { suffix: "_count" as const, labels, value: count },
+        ];
+      }),
+  };
+}
+
+function createSummary(name: string, options: SummaryOptions): MetricEntry {
+  const quantiles = options.quantiles ?? DEFAULT_QUANTILES;
+  if (quantiles.some((q) => !(q >= 0 && q <= 1))) {
+    throw new Error(`[AOR] Summary "${name}" quantiles must be between 0 and 1.`);
+  }
+  const maxAge = (options.maxAgeSeconds ?? 600) * 1000;
+  const maxSamples = options.maxSamples ?? 1024;
+  // A ring buffer of the most recent samples
+  const series = createSeries(name, options.labelNames, () => ({
+    values: [] as number[],
+    times: [] as number[],
+    next: 0,
+    sum: 0,
+    count: 0,
+  }));
+
+  type State = ReturnType<typeof series.of>;
+  const snapshot = (state: State | undefined): SummarySnapshot => {
+    const now = Date.now();
+    const recent = (state?.values ?? []).filter((_, i) => now - state!.times[i]! <= maxAge).sort((a, b) => a - b);
+    return {
+      quantiles: quantiles.map((quantile) => ({
+        quantile,
+        // Nearest rank
+        value: recent.length ? recent[Math.max(0, Math.ceil(quantile * recent.length) - 1)]! : NaN,
+      })),
+      sum: state?.sum ?? 0,
+      count: state?.count ?? 0,
+    };
+  };
+
+  const metric: Summary = {
+    type: "summary",
+    name,
+    observe(value, labels) {
+      const state = series.of(labels);
+      state.values[state.next] = value;
+      state.times[state.next] = Date.now();
+      state.next = (state.next + 1) % maxSamples;
+      state.sum += value;
+      state.count++;
+    },
+    startTimer(labels) {
+      return startTimer((seconds) => metric.observe(seconds, labels));
+    },
+    get(labels) {
+      return snapshot(series.peek(labels));
+    },
+  };
+
+  return {
+    metric,
+    options,
+    collect: () =>
+      series.entries().flatMap(({ labels, state }) => {
+        const { quantiles, sum, count } = snapshot(state);
+        return [
+          ...quantiles.map(({ quantile, value }): MetricSample => ({
+            suffix: "",
+            labels: { ...labels, quantile: String(quantile) },
+            value,
+          })),
+          { suffix: "_sum" as const, labels, value: sum },
+          { suffix: "_count" as const, labels, value: count },
+        ];
+      }),
+  };
+}
+
+/** Format a sample value the way Prometheus parses it */
+export function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  if (Number.isNaN(value)) return "NaN";
+  return String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a metric registry. Most apps use the shared `metricRegistry`; separate
+ * ones are for libraries and tests.
+ */
+export function createMetricRegistry(): MetricRegistry {
+  const entries = new Map<string, MetricEntry>();
+
+  function register<T extends MetricOptions>(
+    type: MetricType,
+    options: T,
+    create: (name: string, options: T) => MetricEntry,
+  ): Metric {
+    const name = validateOptions(type, options);
+    const existing = entries.get(name);
+    if (existing) {
+      if (existing.metric.type !== type) {
+        throw new Error(
+          `[AOR] Metric "${name}" is already registered as a ${existing.metric.type}.\n` +
+            "  Fix: Use a different name for the " + type + ".",
+        );
+      }
+      return existing.metric;
+    }
+    const entry = create(name, options);
+    entries.set(name, entry);
+    return entry.metric;
+  }
+
+  return {
+    counter: (options) => register("counter", options, createCounter) as Counter,
+    gauge: (options) => register("gauge", options, createGauge) as Gauge,
+    histogram: (options) => register("histogram", options, createHistogram) as Histogram,
+    summary: (options) => register("summary", options, createSummary) as Summary,
+
+    get(name) {
+      return (entries.get(name) ?? entries.get(familyName("counter", name)))?.metric;
+    },
+
+    collect() {
+      return [...entries.entries()].map(([name, entry]) => ({
+        name,
+        type: entry.metric.type,
+        help: entry.options.help,
+        unit: entry.options.unit,
+        samples: entry.collect(),
+      }));
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/** The default registry, exposed by `createMetricsHandler()` */
+export const metricRegistry: MetricRegistry = createMetricRegistry();
+
+// ---------------------------------------------------------------------------
+// Shorthands (default registry)
+// ---------------------------------------------------------------------------
+
+/** Increment a counter, registering it without help text on first use. */
 export function increment(name: string, value = 1, labels?: Record<string, string>): void {
-  const key = labelKey(name, labels);
-  counters.set(key, (counters.get(key) ?? 0) + value);
+  metricRegistry.counter({ name, help: "" }).inc(value, labels);
 }
 
 /** Set a gauge value. */
 export function gauge(name: string, value: number, labels?: Record<string, string>): void {
-  const key = labelKey(name, labels);
-  gauges.set(key, value);
+  metricRegistry.gauge({ name, help: "" }).set(value, labels);
 }
 
-/** Observe a histogram value. */
+/** Observe a histogram value (default buckets, in seconds). */
 export function observe(name: string, value: number, labels?: Record<string, string>): void {
-  const key = labelKey(name, labels);
-  const arr = histograms.get(key) ?? [];
-  arr.push(value);
-  histograms.set(key, arr);
+  metricRegistry.histogram({ name, help: "" }).observe(value, labels);
 }
 
 /** Get a counter value. */
 export function getCounter(name: string, labels?: Record<string, string>): number {
-  return counters.get(labelKey(name, labels)) ?? 0;
+  const metric = metricRegistry.get(name);
+  return metric?.type === "counter" ? metric.get(labels) : 0;
 }
 
 /** Get a gauge value. */
 export function getGauge(name: string, labels?: Record<string, string>): number {
-  return gauges.get(labelKey(name, labels)) ?? 0;
+  const metric = metricRegistry.get(name);
+  return metric?.type === "gauge" ? metric.get(labels) : 0;
 }
 
-/** Get histogram observations. */
-export function getHistogram(name: string, labels?: Record<string, string>): number[] {
-  return histograms.get(labelKey(name, labels)) ?? [];
+/** Get a histogram's bucket counts, sum and count. */
+export function getHistogram(name: string, labels?: Record<string, string>): HistogramSnapshot {
+  const metric = metricRegistry.get(name);
+  return metric?.type === "histogram" ? metric.get(labels) : { buckets: [], sum: 0, count: 0 };
 }
 
 /** Get all metrics as a snapshot. */
@@ -60,15 +531,23 @@ export function getAllMetrics(): MetricValue[] {
   const now = Date.now();
   const result: MetricValue[] = [];
 
-  for (const [name, value] of counters) {
-    result.push({ name, type: "counter", value, timestamp: now });
-  }
-  for (const [name, value] of gauges) {
-    result.push({ name, type: "gauge", value, timestamp: now });
-  }
-  for (const [name, values] of histograms) {
-    const avg = values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
-    result.push({ name, type: "histogram", value: avg, timestamp: now });
+  for (const family of metricRegistry.collect()) {
+    for (const sample of family.samples) {
+      const labels = Object.keys(sample.labels).length > 0 ? sample.labels : undefined;
+      if (family.type === "counter" || family.type === "gauge") {
+        result.push({ name: family.name, type: family.type, value: sample.value, labels, timestamp: now });
+      }
+    }
+    if (family.type === "histogram" || family.type === "summary") {
+      // One mean per label set, from its _sum and _count
+      const sums = family.samples.filter((s) => s.suffix === "_sum");
+      const counts = family.samples.filter((s) => s.suffix === "_count");
+      sums.forEach((sum, i) => {
+        const count = counts[i]!.value;
+        const labels = Object.keys(sum.labels).length > 0 ? sum.labels : undefined;
+        result.push({ name: family.name, type: family.type, value: count ? sum.value / count : 0, labels, timestamp: now });
+      });
+    }
   }
 
   return result;
@@ -76,7 +555,5 @@ export function getAllMetrics(): MetricValue[] {
 
 /** Clear all metrics (for testing). */
 export function clearMetrics(): void {
-  counters.clear();
-  gauges.clear();
-  histograms.clear();
+  metricRegistry.clear();
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { clearSpans, flushTracing, startSpan, withSpan } from "@vibeonrails/core/tracing";
+import {
+  createOtlpTraceExporter,
+  encodeOtlpSpans,
+  parseOtlpHeaders,
+  resolveOtlpEndpoint,
+  startTracing,
+  type OtlpTraceRequest,
+} from "./otlp.js";
+
+/** A local OTLP/HTTP collector that records what it receives */
+interface CollectorStub {
+  url: string;
+  requests: { path: string; headers: Record<string, string | string[] | undefined>; body: OtlpTraceRequest }[];
+  status: number;
+}
+
+describe("OTLP trace export", () => {
+  let server: Server;
+  const collector: CollectorStub = { url: "", requests: [], status: 200 };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        collector.requests.push({ path: req.url ?? "", headers: req.headers, body: JSON.parse(body) });
+        res.writeHead(collector.status, { "content-type": "application/json" }).end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    collector.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearSpans();
+    collector.requests = [];
+    collector.status = 200;
+  });
+
+  it("resolves the endpoint from the OTEL_* environment", () => {
+    expect(resolveOtlpEndpoint({}, {})).toBe("http://localhost:4318/v1/traces");
+    expect(resolveOtlpEndpoint({}, { OTEL_EXPORTER_OTLP_ENDPOINT: "http://otel:4318/" })).toBe(
+      "http://otel:4318/v1/traces",
+    );
+    expect(
+      resolveOtlpEndpoint({}, {
+        OTEL_EXPORTER_OTLP_ENDPOINT: "http://otel:4318",
+        OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: "https://api.honeycomb.io/v1/traces",
+      }),
+    ).toBe("https://api.honeycomb.io/v1/traces");
+    expect(resolveOtlpEndpoint({ endpoint: "http://x/v1/traces" }, {})).toBe("http://x/v1/traces");
+  });
+
+  it("parses OTEL_EXPORTER_OTLP_HEADERS", () => {
+    expect(parseOtlpHeaders("x-honeycomb-team=abc, authorization=Basic%20dXNlcg==")).toEqual({
+      "x-honeycomb-team": "abc",
+      authorization: "Basic dXNlcg==",
+    });
+    expect(parseOtlpHeaders(undefined)).toEqual({});
+  });
+
+  it("encodes spans as OTLP/JSON", () => {
+    const span = startSpan("GET /users/:id", { kind: "server", attributes: { "http.status": 200, ratio: 0.5, ok: true } });
+    span.recordException(new TypeError("bad"));
+    span.end(span.startTime + 1.5);
+
+    const body = encodeOtlpSpans([span], { "service.name": "api" });
+    const [encoded] = body.resourceSpans[0]!.scopeSpans[0]!.spans;
+
+    expect(body.resourceSpans[0]!.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "api" } },
+    ]);
+    expect(encoded!.kind).toBe(2);
+    expect(encoded!.status).toEqual({ code: 2, message: "bad" });
+    expect(encoded!.attributes).toEqual([
+      { key: "http.status", value: { intValue: "200" } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+      { key: "ok", value: { boolValue: true } },
+    ]);
+    expect(BigInt(encoded!.endTimeUnixNano) - BigInt(encoded!.startTimeUnixNano)).toBe(1_500_000n);
+    expect(encoded!.events[0]!.name).toBe("exception");
+    expect(encoded!.parentSpanId).toBeUndefined();
+  });
+
+  it("exports batched spans to a collector", async () => {
+    startTracing({
+      endpoint: `${collector.url}/v1/traces`,
+      headers: { "x-api-key": "secret" },
+      serviceName: "checkout",
+    });
+
+    await withSpan("parent", async () => {
+      await withSpan("child", async () => {});
+    });
+    await flushTracing();
+
+    expect(collector.requests).toHaveLength(1);
+    const [request] = collector.requests;
+    expect(request!.path).toBe("/v1/traces");
+    expect(request!.headers["x-api-key"]).toBe("secret");
+    expect(request!.headers["content-type"]).toBe("application/json");
+
+    const { resource, scopeSpans } = request!.body.resourceSpans[0]!;
+    const [child, parent] = scopeSpans[0]!.spans;
+    expect(resource.attributes).toContainEqual({ key: "service.name", value: { stringValue: "checkout" } });
+    expect(child!.parentSpanId).toBe(parent!.spanId);
+    expect(child!.traceId).toBe(parent!.traceId);
+  });
+
+  it("reports collector errors without throwing into the app", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    collector.status = 503;
+
+    const exporter = createOtlpTraceExporter({ endpoint: `${collector.url}/v1/traces` });
+    const span = startSpan("op");
+    span.end();
+    await expect(exporter.export([span])).rejects.toThrow("HTTP 503");
+
+    startTracing({ endpoint: `${collector.url}/v1/traces` });
+    withSpan("op", () => {});
+    await flushTracing();
+    expect(error.mock.calls[0]![0]).toContain("HTTP 503");
+    error.mockRestore();
+  });
+});
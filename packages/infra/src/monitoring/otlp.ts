@@ -0,0 +1,221 @@
+/**
+ * OTLP Trace Export — OTLP/HTTP with JSON encoding
+ *
+ * Sends ended spans to an OpenTelemetry collector (or any OTLP/HTTP
+ * endpoint: Jaeger, Tempo, Honeycomb, ...) as `application/json`. The
+ * endpoint and headers follow the standard `OTEL_EXPORTER_OTLP_*`
+ * environment variables.
+ *
+ * Usage:
+ *   import { startTracing, shutdownTracing } from '@vibeonrails/infra/monitoring';
+ *
+ *   // OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318, OTEL_SERVICE_NAME=api
+ *   startTracing();
+ *   process.on('SIGTERM', () => void shutdownTracing());
+ */
+
+import {
+  configureTracing,
+  createBatchSpanProcessor,
+  getTracingResource,
+  type BatchSpanProcessorOptions,
+  type Span,
+  type SpanAttributes,
+  type SpanExporter,
+  type SpanKind,
+  type SpanProcessor,
+  type SpanStatusCode,
+} from "@vibeonrails/core/tracing";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OtlpExporterOptions {
+  /**
+   * Full traces URL (default: OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, else
+   * OTEL_EXPORTER_OTLP_ENDPOINT + `/v1/traces`, else http://localhost:4318/v1/traces)
+   */
+  endpoint?: string;
+  /** Extra request headers, e.g. an API key (default: OTEL_EXPORTER_OTLP_HEADERS) */
+  headers?: Record<string, string>;
+  /** Abort an export after this long (default: 10000ms) */
+  timeoutMs?: number;
+  /** Resource attributes (default: the tracer's, with `service.name`) */
+  resource?: SpanAttributes;
+}
+
+export interface StartTracingOptions extends OtlpExporterOptions, BatchSpanProcessorOptions {
+  /** `service.name` (default: OTEL_SERVICE_NAME, else 'vibeonrails') */
+  serviceName?: string;
+  /** Share of new traces to sample, 0-1 (default: 1) */
+  sampleRatio?: number;
+}
+
+/** An OTLP `AnyValue` */
+type OtlpValue = { stringValue: string } | { boolValue: boolean } | { intValue: string } | { doubleValue: number };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpValue;
+}
+
+/** The `ExportTraceServiceRequest` body, JSON-encoded */
+export interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: {
+      scope: { name: string };
+      spans: {
+        traceId: string;
+        spanId: string;
+        parentSpanId?: string;
+        name: string;
+        kind: number;
+        startTimeUnixNano: string;
+        endTimeUnixNano: string;
+        attributes: OtlpKeyValue[];
+        events: { timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }[];
+        status: { code: number; message?: string };
+      }[];
+    }[];
+  }[];
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** The traces URL from the options and OTEL_* environment variables. */
+export function resolveOtlpEndpoint(
+  options: OtlpExporterOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  if (options.endpoint) return options.endpoint;
+  if (env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) return env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+  const base = env.OTEL_EXPORTER_OTLP_ENDPOINT ?? "http://localhost:4318";
+  return `${base.replace(/\/+$/, "")}/v1/traces`;
+}
+
+/** Parse `OTEL_EXPORTER_OTLP_HEADERS` (`key=value,key2=value2`, URL-encoded). */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value?.split(",") ?? []) {
+    const index = pair.indexOf("=");
+    if (index <= 0) continue;
+    headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/** Milliseconds (with fraction) since the epoch as a nanosecond string */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  return (BigInt(whole) * 1_000_000n + BigInt(Math.round((ms - whole) * 1_000_000))).toString();
+}
+
+function toValue(value: string | number | boolean): OtlpValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toAttributes(attributes: SpanAttributes = {}): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toValue(value) }));
+}
+
+/**
+ * Encode ended spans as an OTLP/JSON `ExportTraceServiceRequest`.
+ */
+export function encodeOtlpSpans(spans: readonly Span[], resource: SpanAttributes = getTracingResource()): OtlpTraceRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: "@vibeonrails/core" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+              attributes: toAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                timeUnixNano: toUnixNano(event.time),
+                name: event.name,
+                attributes: toAttributes(event.attributes),
+              })),
+              status: {
+                code: STATUS_CODES[span.status.code],
+                ...(span.status.message ? { message: span.status.message } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Exporter
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a span exporter that POSTs OTLP/JSON to a collector.
+ */
+export function createOtlpTraceExporter(options: OtlpExporterOptions = {}): SpanExporter {
+  const endpoint = resolveOtlpEndpoint(options);
+  const headers = options.headers ?? parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS);
+  const timeoutMs = options.timeoutMs ?? 10_000;
+
+  return {
+    async export(spans) {
+      if (spans.length === 0) return;
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { ...headers, "content-type": "application/json" },
+        body: JSON.stringify(encodeOtlpSpans(spans, options.resource)),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `[AOR] OTLP export to ${endpoint} failed with HTTP ${response.status}.\n` +
+            `  Fix: Check OTEL_EXPORTER_OTLP_ENDPOINT and OTEL_EXPORTER_OTLP_HEADERS.`,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Configure the tracer to batch-export spans over OTLP/HTTP. Call once at
+ * startup; flush with `shutdownTracing()` before the process exits.
+ */
+export function startTracing(options: StartTracingOptions = {}): SpanProcessor {
+  const processor = createBatchSpanProcessor(createOtlpTraceExporter(options), options);
+  configureTracing({
+    serviceName: options.serviceName,
+    sampleRatio: options.sampleRatio,
+    processors: [processor],
+  });
+  return processor;
+}
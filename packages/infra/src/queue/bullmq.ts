@@ -0,0 +1,240 @@
+/**
+ * BullMQ Queue Driver
+ *
+ * Redis-backed driver: one BullMQ queue and worker per job type.
+ * Use for production and multi-instance deployments. Flows are added with
+ * a BullMQ FlowProducer; the dead-letter queue is each queue's failed set.
+ *
+ * Usage:
+ *   import { createQueueWorker, createBullMQDriver } from '@vibeonrails/infra/queue';
+ *
+ *   createQueueWorker(jobs, { driver: createBullMQDriver({ concurrency: 10 }) });
+ */
+
+import { FlowProducer, Queue, Worker, type FlowJob, type Job, type JobsOptions, type JobType } from 'bullmq';
+import {
+  JOB_STATUSES,
+  emptyJobCounts,
+  runWithTimeout,
+  type FlowNode,
+  type JobCounts,
+  type JobQuery,
+  type JobRecord,
+  type JobStatus,
+  type QueueDriver,
+  type RegisteredJob,
+  type ResolvedEnqueueOptions,
+  type ResolvedJobOptions,
+} from './driver.js';
+
+export interface BullMQDriverOptions {
+  /** Redis URL (default: REDIS_URL env var, then redis://localhost:6379) */
+  redisUrl?: string;
+  /** Jobs processed in parallel per job type (default: 5) */
+  concurrency?: number;
+}
+
+function parseRedisUrl(url: string): { host: string; port: number } {
+  const parsed = new URL(url);
+  return {
+    host: parsed.hostname,
+    port: parseInt(parsed.port || '6379', 10),
+  };
+}
+
+function toBullOptions(options: ResolvedJobOptions, enqueue?: ResolvedEnqueueOptions): JobsOptions {
+  return {
+    attempts: options.attempts,
+    backoff: {
+      type: options.backoff,
+      delay: options.backoffDelay,
+    },
+    delay: enqueue?.runAt !== undefined ? Math.max(0, enqueue.runAt - Date.now()) : undefined,
+    priority: enqueue?.priority,
+    deduplication: enqueue?.idempotencyKey
+      ? { id: enqueue.idempotencyKey, ttl: enqueue.dedupeWindow }
+      : undefined,
+    // Persisted with the job (BullMQ's slot for trace context)
+    telemetry: enqueue?.traceparent ? { metadata: enqueue.traceparent } : undefined,
+  };
+}
+
+function toFlowJob(node: FlowNode, isChild: boolean): FlowJob {
+  return {
+    name: node.name,
+    queueName: node.name,
+    data: node.data,
+    // Match the in-process driver: a failed child fails its parent
+    opts: { ...toBullOptions(node.options, node.enqueue), failParentOnFailure: isChild || undefined },
+    children: node.children.map((child) => toFlowJob(child, true)),
+  };
+}
+
+/** BullMQ keeps prioritized jobs apart from waiting ones; both are 'waiting' here. */
+const BULL_STATES: Record<JobStatus, JobType[]> = {
+  waiting: ['waiting', 'prioritized'],
+  delayed: ['delayed'],
+  'waiting-children': ['waiting-children'],
+  active: ['active'],
+  completed: ['completed'],
+  failed: ['failed'],
+};
+
+function toJobStatus(state: string): JobStatus {
+  if (state === 'prioritized' || state === 'wait' || state === 'unknown') return 'waiting';
+  return state as JobStatus;
+}
+
+function toJobRecord(job: Job, status: JobStatus): JobRecord {
+  return {
+    id: job.id ?? '',
+    name: job.name,
+    data: job.data,
+    status,
+    attemptsMade: job.attemptsMade,
+    runAt: job.timestamp + (job.delay ?? 0),
+    createdAt: job.timestamp,
+    finishedAt: job.finishedOn,
+    error: job.failedReason || undefined,
+    stack: job.stacktrace?.at(-1) ?? undefined,
+    priority: job.opts.priority || undefined,
+    idempotencyKey: job.opts.deduplication?.id,
+    parentId: job.parent?.id,
+    traceparent: job.opts.telemetry?.metadata,
+  };
+}
+
+/**
+ * Create a BullMQ queue driver.
+ */
+export function createBullMQDriver(options: BullMQDriverOptions = {}): QueueDriver {
+  const connection = parseRedisUrl(
+    options.redisUrl ?? process.env.REDIS_URL ?? 'redis://localhost:6379',
+  );
+  const concurrency = options.concurrency ?? 5;
+  const queues = new Map<string, Queue>();
+  const workers: Worker[] = [];
+  let flowProducer: FlowProducer | undefined;
+
+  /** Job ids are unique per queue; search every queue. */
+  async function findJob(id: string): Promise<Job | undefined> {
+    for (const queue of queues.values()) {
+      const job = await queue.getJob(id);
+      if (job) return job;
+    }
+    return undefined;
+  }
+
+  function queueFor(name: string): Queue {
+    const queue = queues.get(name);
+    if (!queue) {
+      throw new Error(`[AOR] Queue "${name}" not found. Did you call createQueueWorker() with this job?`);
+    }
+    return queue;
+  }
+
+  return {
+    name: 'bullmq',
+
+    register(job: RegisteredJob): void {
+      queues.set(job.name, new Queue(job.name, { connection }));
+      workers.push(
+        new Worker(
+          job.name,
+          async (bullJob: Job) => {
+            await runWithTimeout(
+              job.name,
+              () => job.handler(bullJob.data, { id: bullJob.id, traceparent: bullJob.opts.telemetry?.metadata }),
+              job.options.timeout,
+            );
+          },
+          { connection, concurrency },
+        ),
+      );
+    },
+
+    async add(name, data, jobOptions, enqueue): Promise<string> {
+      const bullJob = await queueFor(name).add(name, data, toBullOptions(jobOptions, enqueue));
+      return bullJob.id ?? '';
+    },
+
+    async addFlow(flow: FlowNode): Promise<string> {
+      flowProducer ??= new FlowProducer({ connection });
+      const tree = await flowProducer.add(toFlowJob(flow, false));
+      return tree.job.id ?? '';
+    },
+
+    async deadLetters(name?: string): Promise<JobRecord[]> {
+      const selected = name ? [queueFor(name)] : [...queues.values()];
+      const failed = (await Promise.all(selected.map((queue) => queue.getFailed()))).flat();
+      return failed.map((job) => toJobRecord(job, 'failed')).sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async replay(id: string): Promise<void> {
+      const job = await findJob(id);
+      if (!job || !(await job.isFailed())) throw new Error(`[AOR] Dead-letter job "${id}" not found`);
+      await job.retry('failed', { resetAttemptsMade: true, resetAttemptsStarted: true });
+    },
+
+    async counts(): Promise<Record<string, JobCounts>> {
+      const counts: Record<string, JobCounts> = {};
+      for (const [name, queue] of queues) {
+        const raw = await queue.getJobCounts(...JOB_STATUSES.flatMap((status) => BULL_STATES[status]));
+        const total = emptyJobCounts();
+        for (const status of JOB_STATUSES) {
+          total[status] = BULL_STATES[status].reduce((sum, state) => sum + (raw[state] ?? 0), 0);
+        }
+        counts[name] = total;
+      }
+      return counts;
+    },
+
+    async list(query: JobQuery = {}): Promise<JobRecord[]> {
+      const offset = query.offset ?? 0;
+      const limit = query.limit ?? 50;
+      const statuses = query.status ? [query.status] : JOB_STATUSES;
+      const selected = query.name ? [queueFor(query.name)] : [...queues.values()];
+
+      const records: JobRecord[] = [];
+      for (const queue of selected) {
+        for (const status of statuses) {
+          // Newest first; fetch enough from each queue to fill the requested page
+          const jobs = await queue.getJobs(BULL_STATES[status], 0, offset + limit - 1, false);
+          records.push(...jobs.map((job) => toJobRecord(job, status)));
+        }
+      }
+      return records.sort((a, b) => b.createdAt - a.createdAt).slice(offset, offset + limit);
+    },
+
+    async getJob(id: string): Promise<JobRecord | undefined> {
+      const job = await findJob(id);
+      return job && toJobRecord(job, toJobStatus(await job.getState()));
+    },
+
+    async discard(id: string): Promise<void> {
+      const job = await findJob(id);
+      if (!job) throw new Error(`[AOR] Job "${id}" not found`);
+      if (await job.isActive()) throw new Error(`[AOR] Job "${id}" is running and cannot be discarded`);
+      await job.remove();
+    },
+
+    async promote(id: string): Promise<void> {
+      const job = await findJob(id);
+      if (!job) throw new Error(`[AOR] Job "${id}" not found`);
+      const state = toJobStatus(await job.getState());
+      if (state !== 'delayed') {
+        throw new Error(`[AOR] Job "${id}" is ${state}; only delayed jobs can be promoted`);
+      }
+      await job.promote();
+    },
+
+    async close(): Promise<void> {
+      await Promise.all(workers.map((worker) => worker.close()));
+      await Promise.all([...queues.values()].map((queue) => queue.close()));
+      await flowProducer?.close();
+      flowProducer = undefined;
+      workers.length = 0;
+      queues.clear();
+    },
+  };
+}
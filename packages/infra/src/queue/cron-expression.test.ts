@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCronExpression, isValidTimezone } from "./cron-expression.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Cron expressions", () => {
+  it("parses lists, ranges, steps and names", () => {
+    const cron = parseCronExpression("*/15 9-17/4 1,15 JAN-MAR mon-fri");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday and expands macros", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(parseCronExpression("@daily")).toMatchObject({ source: "@daily" });
+    expect([...parseCronExpression("@hourly").minutes]).toEqual([0]);
+  });
+
+  it("rejects invalid expressions with a fix hint", () => {
+    expect(() => parseCronExpression("0 * *")).toThrow("expected 5 fields, got 3");
+    expect(() => parseCronExpression("60 * * * *")).toThrow("minute 60 is outside 0-59");
+    expect(() => parseCronExpression("0 5-1 * * *")).toThrow('range "5-1" is reversed');
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow("must be a positive integer");
+    expect(() => parseCronExpression("0 0 * FOO *")).toThrow("Fix:");
+  });
+
+  it("computes the next run strictly after the reference time", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:07:30Z"))).toEqual(at("2026-03-10T10:15:00Z"));
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:15:00Z"))).toEqual(at("2026-03-10T10:30:00Z"));
+    expect(nextCronRun("0 0 1 * *", at("2026-12-15T00:00:00Z"))).toEqual(at("2027-01-01T00:00:00Z"));
+    expect(nextCronRun("0 0 29 2 *", at("2026-03-01T00:00:00Z"))).toEqual(at("2028-02-29T00:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2026-03-10 is a Tuesday; the 13th or any Friday matches
+    expect(nextCronRun("0 12 13 * FRI", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-03-13T12:00:00Z"));
+    expect(nextCronRun("0 12 13 * MON", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-03-13T12:00:00Z"));
+  });
+
+  it("computes run times in a timezone across daylight saving changes", () => {
+    // New York is UTC-5 before 2026-03-08 and UTC-4 after
+    expect(nextCronRun("0 9 * * *", at("2026-03-06T12:00:00Z"), "America/New_York")).toEqual(
+      at("2026-03-06T14:00:00Z"),
+    );
+    expect(nextCronRun("0 9 * * *", at("2026-03-08T00:00:00Z"), "America/New_York")).toEqual(
+      at("2026-03-08T13:00:00Z"),
+    );
+    // 02:30 does not exist on the spring-forward day, so the next run is the day after
+    expect(nextCronRun("30 2 * * *", at("2026-03-08T05:00:00Z"), "America/New_York")).toEqual(
+      at("2026-03-09T06:30:00Z"),
+    );
+  });
+
+  it("does not skip midnight after a 23-hour or 25-hour day", () => {
+    // Paris moves to UTC+2 on Sunday 2026-03-29; the Monday midnight run is 22:00Z
+    expect(nextCronRun("0 0 * * MON", at("2026-03-28T22:30:00Z"), "Europe/Paris")).toEqual(
+      at("2026-03-29T22:00:00Z"),
+    );
+    // New York moves to UTC-4 on Sunday 2026-03-08
+    expect(nextCronRun("0 0 * * MON", at("2026-03-08T04:30:00Z"), "America/New_York")).toEqual(
+      at("2026-03-09T04:00:00Z"),
+    );
+    // ... and back to UTC-5 on Sunday 2026-11-01
+    expect(nextCronRun("0 0 * * MON", at("2026-11-01T03:30:00Z"), "America/New_York")).toEqual(
+      at("2026-11-02T05:00:00Z"),
+    );
+    expect(nextCronRun("0 0 * * MON", at("2026-10-24T22:30:00Z"), "Europe/Paris")).toEqual(
+      at("2026-10-25T23:00:00Z"),
+    );
+  });
+
+  it("validates timezones", () => {
+    expect(isValidTimezone("Europe/Paris")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+    expect(() => nextCronRun("* * * * *", new Date(), "Mars/Olympus")).toThrow('Unknown timezone "Mars/Olympus"');
+  });
+
+  it("throws for expressions that never run", () => {
+    expect(() => nextCronRun("0 0 30 2 *")).toThrow("has no upcoming run time");
+  });
+});
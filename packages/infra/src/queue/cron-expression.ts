@@ -0,0 +1,274 @@
+/**
+ * Cron Expressions — Parse 5-field cron expressions and compute run times.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `10-40/10`),
+ * month and weekday names (`JAN`, `MON-FRI`), `7` as Sunday and the
+ * `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` macros.
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a
+ * day matches if either field does.
+ *
+ * Run times are computed in an IANA timezone (default: UTC), so
+ * `0 9 * * *` in `Europe/Paris` follows daylight saving time.
+ *
+ * Usage:
+ *   import { nextCronRun } from '@vibeonrails/infra/queue';
+ *
+ *   nextCronRun('0 9 * * MON-FRI', new Date(), 'America/New_York');
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CronExpression {
+  source: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  /** 0 = Sunday */
+  daysOfWeek: ReadonlySet<number>;
+  /** Day-of-month field was not `*` */
+  restrictsDayOfMonth: boolean;
+  /** Day-of-week field was not `*` */
+  restrictsDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+}
+
+const FIELDS: readonly FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  {
+    label: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as Sunday and folded to 0 after parsing
+  { label: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Upper bound on search steps; an expression that never matches (e.g. `0 0 30 2 *`) ends here. */
+const MAX_SEARCH_STEPS = 50_000;
+
+const MINUTE = 60_000;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function invalid(expr: string, reason: string): Error {
+  return new Error(
+    `[AOR] Invalid cron expression "${expr}": ${reason}.\n` +
+      '  Fix: Use 5 fields — minute hour day-of-month month day-of-week (e.g. "*/15 * * * *").',
+  );
+}
+
+function parseValue(expr: string, spec: FieldSpec, raw: string): number {
+  const upper = raw.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  if (named !== -1) return named + (spec.label === 'month' ? 1 : 0);
+  if (!/^\d+$/.test(raw)) throw invalid(expr, `"${raw}" is not a valid ${spec.label}`);
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw invalid(expr, `${spec.label} ${value} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(expr: string, spec: FieldSpec, field: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined || !rangePart) throw invalid(expr, `"${part}" is not a valid ${spec.label}`);
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) === 0) {
+        throw invalid(expr, `step "${stepPart}" must be a positive integer`);
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(expr, spec, from ?? '');
+      end = parseValue(expr, spec, to ?? '');
+      if (start > end) throw invalid(expr, `range "${rangePart}" is reversed`);
+    } else {
+      start = parseValue(expr, spec, rangePart);
+      // "5/10" means every 10 starting at 5
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws with a `Fix:` hint when it is invalid.
+ */
+export function parseCronExpression(expr: string): CronExpression {
+  const source = expr.trim();
+  const expanded = MACROS[source.toLowerCase()] ?? source;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) throw invalid(expr, `expected 5 fields, got ${fields.length}`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((spec, i) =>
+    parseField(expr, spec, fields[i]!),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Timezones
+// ---------------------------------------------------------------------------
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a valid IANA name (e.g. "Europe/Paris").
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(time: number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(time)) parts[part.type] = part.value;
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function matchesDay(cron: CronExpression, parts: ZonedParts): boolean {
+  if (!cron.months.has(parts.month)) return false;
+  const dom = cron.daysOfMonth.has(parts.day);
+  const dow = cron.daysOfWeek.has(parts.weekday);
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Compute the first run strictly after `from`.
+ *
+ * @param expr - Cron expression or a parsed expression
+ * @param from - Reference time (default: now)
+ * @param timeZone - IANA timezone the expression is written in (default: 'UTC')
+ */
+export function nextCronRun(
+  expr: string | CronExpression,
+  from: Date = new Date(),
+  timeZone = 'UTC',
+): Date {
+  const cron = typeof expr === 'string' ? parseCronExpression(expr) : expr;
+  if (!isValidTimezone(timeZone)) {
+    throw new Error(
+      `[AOR] Unknown timezone "${timeZone}".\n` +
+        '  Fix: Use an IANA timezone name such as "UTC" or "Europe/Paris".',
+    );
+  }
+
+  // Start at the next whole minute; every timezone offset in use is whole minutes
+  let time = Math.floor(from.getTime() / MINUTE) * MINUTE + MINUTE;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const parts = zonedParts(time, timeZone);
+
+    if (!matchesDay(cron, parts)) {
+      // Jump to the next local midnight, assuming a 24-hour day. A 25-hour day
+      // (DST end) lands an hour early and is corrected on the next check; a
+      // 23-hour day (DST start) overshoots, so step back to the new day's
+      // first minute unless midnight itself was skipped
+      const next = time + ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE;
+      const landed = zonedParts(next, timeZone);
+      const midnight = next - (landed.hour * 60 + landed.minute) * MINUTE;
+      time =
+        landed.day !== parts.day && zonedParts(midnight, timeZone).day === landed.day ? midnight : next;
+    } else if (!cron.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * MINUTE;
+    } else if (!cron.minutes.has(parts.minute)) {
+      time += MINUTE;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  throw new Error(`[AOR] Cron expression "${cron.source}" has no upcoming run time`);
+}
@@ -0,0 +1,131 @@
+/**
+ * Cron Run History
+ *
+ * Every cron run (completed, failed or skipped) is recorded to a history
+ * store. The in-memory store keeps the latest runs for the current process;
+ * the file store appends JSON lines to `.vibe/cron-history.jsonl`, which is
+ * what `vibe cron history` reads.
+ *
+ * Usage:
+ *   import { createCronScheduler, createFileCronHistory } from '@vibeonrails/infra/queue';
+ *
+ *   const scheduler = createCronScheduler({ history: createFileCronHistory() });
+ *   await scheduler.history({ name: 'cleanup-sessions', limit: 10 });
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CronRunStatus = 'completed' | 'failed' | 'skipped';
+
+/** Why a run was skipped */
+export type CronSkipReason = 'overlap' | 'locked';
+
+export interface CronRunRecord {
+  id: string;
+  name: string;
+  status: CronRunStatus;
+  /** 'schedule' for timer runs, 'manual' for scheduler.run() */
+  trigger: 'schedule' | 'manual';
+  /** Slot the run belongs to (epoch ms) */
+  scheduledAt: number;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  error?: string;
+  reason?: CronSkipReason;
+  /** Process that handled the run (host:pid by default) */
+  instanceId: string;
+}
+
+export interface CronHistoryQuery {
+  /** Only runs of this job */
+  name?: string;
+  /** Most recent N runs (default: 50) */
+  limit?: number;
+}
+
+export interface CronHistoryStore {
+  add(record: CronRunRecord): Promise<void>;
+  /** Matching runs, newest first */
+  list(query?: CronHistoryQuery): Promise<CronRunRecord[]>;
+}
+
+export const DEFAULT_CRON_HISTORY = '.vibe/cron-history.jsonl';
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+function select(records: CronRunRecord[], query: CronHistoryQuery): CronRunRecord[] {
+  const matching = query.name ? records.filter((r) => r.name === query.name) : records;
+  return matching.slice(-(query.limit ?? DEFAULT_QUERY_LIMIT)).reverse();
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+export interface MemoryCronHistoryOptions {
+  /** Runs kept across all jobs (default: 1000) */
+  keep?: number;
+}
+
+/**
+ * Keep run history in memory (lost on restart).
+ */
+export function createMemoryCronHistory(options: MemoryCronHistoryOptions = {}): CronHistoryStore {
+  const keep = options.keep ?? 1000;
+  const records: CronRunRecord[] = [];
+
+  return {
+    async add(record) {
+      records.push(record);
+      if (records.length > keep) records.splice(0, records.length - keep);
+    },
+    async list(query = {}) {
+      return select(records, query);
+    },
+  };
+}
+
+/**
+ * Append run history to a JSONL file (default: `.vibe/cron-history.jsonl`).
+ */
+export function createFileCronHistory(path: string = DEFAULT_CRON_HISTORY): CronHistoryStore {
+  return {
+    async add(record) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, JSON.stringify(record) + '\n', 'utf-8');
+    },
+    async list(query = {}) {
+      return select(await readCronHistory(path), query);
+    },
+  };
+}
+
+/**
+ * Read every run from a JSONL history file, oldest first.
+ * Returns an empty list if the file does not exist; skips malformed lines.
+ */
+export async function readCronHistory(path: string = DEFAULT_CRON_HISTORY): Promise<CronRunRecord[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const records: CronRunRecord[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as CronRunRecord);
+    } catch {
+      // Partially written line from a crashed process
+    }
+  }
+  return records;
+}
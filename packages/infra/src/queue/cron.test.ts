@@ -43,5 +43,17 @@ describe("Cron Jobs", () => {
     expect(isValidCronExpression("*/5 * * * *")).toBe(true);
     expect(isValidCronExpression("bad")).toBe(false);
     expect(isValidCronExpression("0 * *")).toBe(false);
+    expect(isValidCronExpression("99 * * * *")).toBe(false);
+    expect(isValidCronExpression("@daily")).toBe(true);
+  });
+
+  it("rejects invalid schedules and timezones at definition time", () => {
+    expect(() => defineCron({ name: "bad", schedule: "0 25 * * *", handler: () => {} })).toThrow(
+      "hour 25 is outside 0-23",
+    );
+    expect(() =>
+      defineCron({ name: "bad-tz", schedule: "0 * * * *", timezone: "Nowhere/City", handler: () => {} }),
+    ).toThrow('unknown timezone "Nowhere/City"');
+    expect(getCronJobs()).toHaveLength(0);
   });
 });
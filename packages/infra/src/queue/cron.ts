@@ -1,13 +1,23 @@
 /**
  * Cron Job Definitions — Schedule recurring tasks.
+ *
+ * Definitions are run by `createCronScheduler()` (see scheduler.ts).
  */
 
+import { isValidTimezone, parseCronExpression } from './cron-expression.js';
+
 export interface CronJobConfig {
   name: string;
   schedule: string; // Cron expression (e.g., "0 * * * *")
   handler: () => void | Promise<void>;
   enabled?: boolean;
   description?: string;
+  /** IANA timezone the schedule is written in (default: 'UTC') */
+  timezone?: string;
+  /** Allow a run to start while the previous one is still running (default: false) */
+  overlap?: boolean;
+  /** Fail runs that take longer than this many ms (default: no timeout) */
+  timeout?: number;
 }
 
 const registry = new Map<string, CronJobConfig>();
@@ -23,6 +33,13 @@ const registry = new Map<string, CronJobConfig>();
  * });
  */
 export function defineCron(config: CronJobConfig): CronJobConfig {
+  parseCronExpression(config.schedule);
+  if (config.timezone && !isValidTimezone(config.timezone)) {
+    throw new Error(
+      `[AOR] Cron job "${config.name}" has an unknown timezone "${config.timezone}".\n` +
+        '  Fix: Use an IANA timezone name such as "UTC" or "Europe/Paris".',
+    );
+  }
   const job = { enabled: true, ...config };
   registry.set(config.name, job);
   return job;
@@ -50,9 +67,13 @@ export function clearCronJobs(): void {
 }
 
 /**
- * Validate a basic cron expression (5 fields).
+ * Validate a cron expression (5 fields or a macro such as "@daily").
  */
 export function isValidCronExpression(expr: string): boolean {
-  const parts = expr.trim().split(/\s+/);
-  return parts.length === 5;
+  try {
+    parseCronExpression(expr);
+    return true;
+  } catch {
+    return false;
+  }
 }
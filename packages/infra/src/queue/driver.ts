@@ -0,0 +1,275 @@
+/**
+ * Queue Driver
+ *
+ * The interface between `createQueueWorker` / `enqueue` and the backend
+ * that stores and runs jobs. Drivers share the retry, backoff and timeout
+ * semantics of `JobOptions`, so a job behaves the same on BullMQ and in-process.
+ *
+ * The same goes for per-enqueue options: delayed and scheduled jobs,
+ * priorities (1 is highest, unprioritized jobs first), idempotency keys,
+ * flows (a parent runs once all its children completed, and fails if one of
+ * them fails) and the dead-letter queue of jobs that ran out of attempts.
+ * Jobs carry the enqueuer's `traceparent`, so their spans join its trace.
+ *
+ * Drivers:
+ * - `createBullMQDriver()` — Redis-backed, multi-instance (production)
+ * - `createMemoryQueueDriver()` — in-process, zero infrastructure; optionally
+ *   persisted to SQLite with `createSqliteQueueStore()`
+ */
+
+import { getTraceparent } from '@vibeonrails/core/tracing';
+import type { EnqueueOptions, JobOptions } from './job.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** `JobOptions` with defaults applied. */
+export interface ResolvedJobOptions {
+  /** Total attempts, including the first run */
+  attempts: number;
+  backoff: 'fixed' | 'exponential';
+  backoffDelay: number;
+  timeout: number;
+}
+
+/** What a driver knows about the job it runs, besides its data. */
+export interface JobRunContext {
+  id?: string;
+  /** W3C trace context of the code that enqueued the job */
+  traceparent?: string;
+}
+
+/** A job type as handed to a driver: options resolved, handler validates input. */
+export interface RegisteredJob {
+  name: string;
+  options: ResolvedJobOptions;
+  handler: (data: unknown, context?: JobRunContext) => Promise<void>;
+}
+
+/** Per-enqueue options with the job's data and defaults applied. */
+export interface ResolvedEnqueueOptions {
+  /** Earliest run time (ms since epoch); omitted = now */
+  runAt?: number;
+  priority?: number;
+  idempotencyKey?: string;
+  /** How long the idempotency key blocks duplicates, in ms */
+  dedupeWindow: number;
+  /** Active trace at enqueue time */
+  traceparent?: string;
+}
+
+/** A job and the jobs that must complete before it runs. */
+export interface FlowNode {
+  name: string;
+  data: unknown;
+  options: ResolvedJobOptions;
+  enqueue: ResolvedEnqueueOptions;
+  children: FlowNode[];
+}
+
+export type JobStatus =
+  | 'waiting'
+  | 'delayed'
+  | 'waiting-children'
+  | 'active'
+  | 'completed'
+  | 'failed';
+
+/** A job instance, as tracked by the in-process driver and its stores. */
+export interface JobRecord {
+  id: string;
+  name: string;
+  data: unknown;
+  status: JobStatus;
+  /** Attempts started so far */
+  attemptsMade: number;
+  /** Earliest time (ms since epoch) the job may run */
+  runAt: number;
+  createdAt: number;
+  finishedAt?: number;
+  /** Error message of the last failed attempt */
+  error?: string;
+  /** Stack trace of the last failed attempt */
+  stack?: string;
+  priority?: number;
+  idempotencyKey?: string;
+  /** Until when the idempotency key blocks duplicates */
+  dedupeUntil?: number;
+  /** Flow parent waiting on this job */
+  parentId?: string;
+  /** Children that have not completed yet */
+  pendingChildren?: number;
+  /** Active trace at enqueue time */
+  traceparent?: string;
+}
+
+/** Number of jobs in each state. */
+export type JobCounts = Record<JobStatus, number>;
+
+export interface JobQuery {
+  /** Only jobs of this type */
+  name?: string;
+  /** Only jobs in this state */
+  status?: JobStatus;
+  /** Page size (default: 50) */
+  limit?: number;
+  offset?: number;
+}
+
+export const JOB_STATUSES: readonly JobStatus[] = [
+  'waiting',
+  'delayed',
+  'waiting-children',
+  'active',
+  'completed',
+  'failed',
+];
+
+export interface QueueDriver {
+  readonly name: string;
+  /** Start processing jobs of a type */
+  register(job: RegisteredJob): void;
+  /** Add a job; returns its id, or the existing job's id when deduplicated */
+  add(
+    name: string,
+    data: unknown,
+    options: ResolvedJobOptions,
+    enqueue?: ResolvedEnqueueOptions,
+  ): Promise<string>;
+  /** Add a flow; returns the root job's id */
+  addFlow(flow: FlowNode): Promise<string>;
+  /** Jobs that failed every attempt, oldest first */
+  deadLetters(name?: string): Promise<JobRecord[]>;
+  /** Move a dead-letter job back to the queue with fresh attempts */
+  replay(id: string): Promise<void>;
+  /** Job counts per state for every known job type */
+  counts(): Promise<Record<string, JobCounts>>;
+  /** Jobs matching a query, newest first */
+  list(query?: JobQuery): Promise<JobRecord[]>;
+  getJob(id: string): Promise<JobRecord | undefined>;
+  /** Delete a job that is not running */
+  discard(id: string): Promise<void>;
+  /** Run a delayed job now */
+  promote(id: string): Promise<void>;
+  /** Stop processing and release connections */
+  close(): Promise<void>;
+}
+
+export const DEFAULT_JOB_OPTIONS: ResolvedJobOptions = {
+  attempts: 3,
+  backoff: 'exponential',
+  backoffDelay: 1000,
+  timeout: 30000,
+};
+
+/** Counts with every state at zero. */
+export function emptyJobCounts(): JobCounts {
+  return Object.fromEntries(JOB_STATUSES.map((status) => [status, 0])) as JobCounts;
+}
+
+export const DEFAULT_DEDUPE_WINDOW = 60 * 60_000;
+
+/** BullMQ's priority range; shared so both drivers accept the same values */
+export const MAX_JOB_PRIORITY = 2_097_152;
+
+// ---------------------------------------------------------------------------
+// Shared semantics
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply defaults to job options. `retries` maps to total attempts, matching
+ * how jobs have always been added to BullMQ.
+ */
+export function resolveJobOptions(options: JobOptions = {}): ResolvedJobOptions {
+  return {
+    attempts: Math.max(1, options.retries ?? DEFAULT_JOB_OPTIONS.attempts),
+    backoff: options.backoff ?? DEFAULT_JOB_OPTIONS.backoff,
+    backoffDelay: options.backoffDelay ?? DEFAULT_JOB_OPTIONS.backoffDelay,
+    timeout: options.timeout ?? DEFAULT_JOB_OPTIONS.timeout,
+  };
+}
+
+/**
+ * Resolve per-enqueue options against the job's defaults and data.
+ */
+export function resolveEnqueueOptions<TData>(
+  name: string,
+  data: TData,
+  jobOptions: JobOptions<TData> = {},
+  options: EnqueueOptions<TData> = {},
+  now: number = Date.now(),
+): ResolvedEnqueueOptions {
+  if (options.delay !== undefined && options.runAt !== undefined) {
+    throw new Error(
+      `[AOR] Job "${name}" was enqueued with both delay and runAt.\n` +
+        '  Fix: Pass either a delay in ms or a runAt time.',
+    );
+  }
+  if (options.delay !== undefined && !(options.delay >= 0)) {
+    throw new Error(`[AOR] Job "${name}" delay must be a non-negative number of ms`);
+  }
+
+  const priority = options.priority ?? jobOptions.priority;
+  if (priority !== undefined && !(Number.isInteger(priority) && priority >= 1 && priority <= MAX_JOB_PRIORITY)) {
+    throw new Error(
+      `[AOR] Job "${name}" has an invalid priority ${priority}.\n` +
+        `  Fix: Use an integer from 1 (highest) to ${MAX_JOB_PRIORITY}.`,
+    );
+  }
+
+  const key = options.idempotencyKey ?? jobOptions.idempotencyKey;
+  let runAt: number | undefined;
+  if (options.delay !== undefined) runAt = now + options.delay;
+  else if (options.runAt !== undefined) runAt = new Date(options.runAt).getTime();
+  if (runAt !== undefined && Number.isNaN(runAt)) {
+    throw new Error(`[AOR] Job "${name}" has an invalid runAt time`);
+  }
+
+  return {
+    runAt,
+    priority,
+    idempotencyKey: typeof key === 'function' ? key(data) : key,
+    dedupeWindow: options.dedupeWindow ?? jobOptions.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW,
+    traceparent: getTraceparent(),
+  };
+}
+
+/**
+ * Delay before the next attempt, after `attemptsMade` failed attempts.
+ * Same formula as BullMQ's built-in strategies: exponential doubles from
+ * `backoffDelay` (1x, 2x, 4x, ...).
+ */
+export function computeBackoff(options: ResolvedJobOptions, attemptsMade: number): number {
+  if (options.backoff === 'fixed') return options.backoffDelay;
+  return options.backoffDelay * Math.pow(2, Math.max(0, attemptsMade - 1));
+}
+
+/**
+ * Run a job handler, failing the attempt if it exceeds `timeoutMs`.
+ * The handler itself cannot be cancelled and keeps running in the background.
+ */
+export async function runWithTimeout(
+  name: string,
+  run: () => Promise<void>,
+  timeoutMs: number,
+): Promise<void> {
+  if (!(timeoutMs > 0) || !Number.isFinite(timeoutMs)) {
+    await run();
+    return;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`[AOR] Job "${name}" timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+
+  try {
+    await Promise.race([run(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
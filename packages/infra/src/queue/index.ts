@@ -2,7 +2,89 @@
  * Queue module barrel export
  */
 
-export { defineJob, type JobDefinition, type JobOptions } from './job.js';
-export { createQueueWorker, enqueue } from './worker.js';
+export { defineJob, type JobDefinition, type JobOptions, type EnqueueOptions } from './job.js';
+export {
+  createQueueWorker,
+  enqueue,
+  enqueueBatch,
+  enqueueFlow,
+  flowJob,
+  listDeadLetters,
+  replayDeadLetter,
+  replayDeadLetters,
+  closeQueueWorker,
+  resolveQueueDriverName,
+  QUEUE_DRIVERS,
+  type QueueDriverName,
+  type QueueWorkerOptions,
+  type FlowJob,
+} from './worker.js';
+export {
+  resolveJobOptions,
+  resolveEnqueueOptions,
+  computeBackoff,
+  runWithTimeout,
+  DEFAULT_JOB_OPTIONS,
+  DEFAULT_DEDUPE_WINDOW,
+  MAX_JOB_PRIORITY,
+  JOB_STATUSES,
+  emptyJobCounts,
+  type QueueDriver,
+  type RegisteredJob,
+  type ResolvedJobOptions,
+  type ResolvedEnqueueOptions,
+  type FlowNode,
+  type JobRecord,
+  type JobStatus,
+  type JobCounts,
+  type JobQuery,
+} from './driver.js';
+export {
+  createQueueInspector,
+  createQueueAdminHandler,
+  parseJobQuery,
+  QUEUE_JOB_ACTIONS,
+  type QueueInspector,
+  type QueueSummary,
+  type QueueJobAction,
+  type QueueAdminHandlerOptions,
+} from './inspect.js';
+export { createBullMQDriver, type BullMQDriverOptions } from './bullmq.js';
+export {
+  createMemoryQueueDriver,
+  type MemoryQueueDriver,
+  type MemoryQueueDriverOptions,
+  type QueueStore,
+} from './memory.js';
+export {
+  createSqliteQueueStore,
+  type SqliteDatabaseLike,
+  type SqliteQueueStoreOptions,
+} from './sqlite.js';
 export { defineCron, getCronJobs, getCronJob, clearCronJobs, isValidCronExpression } from './cron.js';
 export type { CronJobConfig } from './cron.js';
+export {
+  parseCronExpression,
+  nextCronRun,
+  isValidTimezone,
+  type CronExpression,
+} from './cron-expression.js';
+export {
+  createCronScheduler,
+  type CronScheduler,
+  type CronSchedulerOptions,
+  type CronJobStatus,
+  type CronRedisLike,
+} from './scheduler.js';
+export {
+  createMemoryCronHistory,
+  createFileCronHistory,
+  readCronHistory,
+  DEFAULT_CRON_HISTORY,
+  type CronHistoryStore,
+  type CronHistoryQuery,
+  type CronRunRecord,
+  type CronRunStatus,
+  type CronSkipReason,
+  type MemoryCronHistoryOptions,
+} from './cron-history.js';
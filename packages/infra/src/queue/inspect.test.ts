@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryQueueDriver } from "./memory.js";
+import { resolveJobOptions } from "./driver.js";
+import { createQueueAdminHandler, createQueueInspector, parseJobQuery } from "./inspect.js";
+
+const options = resolveJobOptions({ retries: 1 });
+
+async function setup() {
+  const driver = createMemoryQueueDriver();
+  driver.register({
+    name: "email",
+    options,
+    handler: async (data) => {
+      if ((data as { fail?: boolean }).fail) throw new Error("smtp down");
+    },
+  });
+  driver.register({ name: "report", options, handler: async () => {} });
+  const inspector = createQueueInspector(driver);
+  return { driver, inspector };
+}
+
+describe("Queue inspector", () => {
+  it("counts jobs per state for every job type", async () => {
+    const { driver, inspector } = await setup();
+    await driver.add("email", {}, options);
+    await driver.add("email", { fail: true }, options);
+    await driver.drain();
+    await driver.add("report", {}, options, { runAt: Date.now() + 60_000, dedupeWindow: 0 });
+
+    const queues = await inspector.queues();
+    expect(queues.map((q) => q.name)).toEqual(["email", "report"]);
+    expect(queues[0]!.counts).toMatchObject({ completed: 1, failed: 1, waiting: 0 });
+    expect(queues[1]!.counts).toMatchObject({ delayed: 1 });
+  });
+
+  it("lists failed jobs with their error and stack", async () => {
+    const { driver, inspector } = await setup();
+    await driver.add("email", { fail: true }, options);
+    await driver.add("email", {}, options);
+    await driver.drain();
+
+    const failed = await inspector.jobs({ status: "failed" });
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ name: "email", error: "smtp down" });
+    expect(failed[0]!.stack).toContain("Error: smtp down");
+    expect(await inspector.jobs({ name: "email", limit: 1 })).toHaveLength(1);
+  });
+
+  it("retries, discards and promotes jobs", async () => {
+    const { driver, inspector } = await setup();
+    const failedId = await driver.add("email", { fail: true }, options);
+    await driver.drain();
+    const delayedId = await driver.add("report", {}, options, { runAt: Date.now() + 60_000, dedupeWindow: 0 });
+
+    await inspector.promote(delayedId);
+    await driver.drain();
+    expect(await inspector.job(delayedId)).toMatchObject({ status: "completed" });
+    await expect(inspector.promote(delayedId)).rejects.toThrow("only delayed jobs can be promoted");
+
+    await inspector.retry(failedId);
+    await driver.drain();
+    expect(await inspector.job(failedId)).toMatchObject({ status: "failed", attemptsMade: 1 });
+
+    await inspector.discard(failedId);
+    expect(await inspector.job(failedId)).toBeUndefined();
+    await expect(inspector.discard(failedId)).rejects.toThrow(`Job "${failedId}" not found`);
+  });
+
+  it("discards a flow's children with their parent", async () => {
+    const { driver, inspector } = await setup();
+    // Children of a job type with no handler here stay waiting
+    const child = { name: "import", data: {}, options, enqueue: { dedupeWindow: 0 }, children: [] };
+    const parentId = await driver.addFlow({ ...child, name: "report", children: [child, child] });
+
+    await inspector.discard(parentId);
+    expect(driver.jobs()).toEqual([]);
+  });
+});
+
+describe("Queue admin handler", () => {
+  async function createHandler() {
+    const { driver, inspector } = await setup();
+    const handler = createQueueAdminHandler(inspector, {
+      authorize: (req) => req.headers.get("authorization") === "Bearer secret",
+    });
+    const call = (path: string, init: RequestInit = {}) =>
+      handler(
+        new Request(`http://localhost/admin/queues${path}`, {
+          ...init,
+          headers: { authorization: "Bearer secret" },
+        }),
+      );
+    return { driver, handler, call };
+  }
+
+  it("rejects unauthorized requests", async () => {
+    const { handler } = await createHandler();
+    const res = await handler(new Request("http://localhost/admin/queues"));
+    expect(res.status).toBe(401);
+  });
+
+  it("serves queues, jobs and job actions as JSON", async () => {
+    const { driver, call } = await createHandler();
+    const id = await driver.add("email", { fail: true }, options);
+    await driver.drain();
+
+    expect(await (await call("")).json()).toMatchObject({ queues: [{ name: "email" }, { name: "report" }] });
+    expect(await (await call("/jobs?status=failed")).json()).toMatchObject({ jobs: [{ id, error: "smtp down" }] });
+    expect(await (await call(`/jobs/${id}`)).json()).toMatchObject({ job: { id } });
+
+    const discard = await call(`/jobs/${id}/discard`, { method: "POST" });
+    expect(await discard.json()).toEqual({ ok: true });
+    expect((await call(`/jobs/${id}`)).status).toBe(404);
+  });
+
+  it("reports bad requests and unknown routes", async () => {
+    const { call } = await createHandler();
+    const bad = await call("/jobs?status=stuck");
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toEqual({ error: expect.stringContaining('Unknown status "stuck"') });
+    expect((await call("/jobs/x/explode", { method: "POST" })).status).toBe(404);
+    expect((await call("/jobs/missing/retry", { method: "POST" })).status).toBe(400);
+
+    const malformed = await call("/jobs/%E0%A4%A");
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({
+      error: expect.stringMatching(/^\[AOR\] Malformed path segment "%E0%A4%A"\.\n {2}Fix: /),
+    });
+  });
+
+  it("parses job queries with a page size cap", () => {
+    expect(parseJobQuery(new URLSearchParams("name=email&status=delayed&limit=9999&offset=5"))).toEqual({
+      name: "email",
+      status: "delayed",
+      limit: 500,
+      offset: 5,
+    });
+    expect(() => parseJobQuery(new URLSearchParams("limit=-1"))).toThrow("limit must be a non-negative integer");
+  });
+});
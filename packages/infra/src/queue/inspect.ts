@@ -0,0 +1,188 @@
+/**
+ * Queue Inspection
+ *
+ * Look inside the queues `createQueueWorker()` runs: job counts per state,
+ * jobs with their error and stack trace, and retry / discard / promote.
+ *
+ * `createQueueAdminHandler()` serves the inspector as JSON over a standard
+ * `Request -> Response` handler. It backs the `vibe queue` command and the
+ * admin panel's queue resource (`@vibeonrails/admin`).
+ *
+ * Routes (relative to `basePath`, default `/admin/queues`):
+ *   GET  /                 — { queues: QueueSummary[] }
+ *   GET  /jobs?name=&status=&limit=&offset=  — { jobs: JobRecord[] }
+ *   GET  /jobs/:id         — { job: JobRecord }
+ *   POST /jobs/:id/retry   — re-run a failed job with fresh attempts
+ *   POST /jobs/:id/discard — delete a job that is not running
+ *   POST /jobs/:id/promote — run a delayed job now
+ *
+ * Usage:
+ *   import { createQueueWorker, createQueueInspector, createQueueAdminHandler } from '@vibeonrails/infra/queue';
+ *
+ *   const driver = createQueueWorker(jobs);
+ *   const handler = createQueueAdminHandler(createQueueInspector(driver), {
+ *     authorize: (req) => req.headers.get('authorization') === `Bearer ${process.env.VIBE_ADMIN_TOKEN}`,
+ *   });
+ *   app.all('/admin/queues/*', (c) => handler(c.req.raw));
+ */
+
+import {
+  JOB_STATUSES,
+  type JobCounts,
+  type JobQuery,
+  type JobRecord,
+  type JobStatus,
+  type QueueDriver,
+} from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface QueueSummary {
+  name: string;
+  counts: JobCounts;
+}
+
+export const QUEUE_JOB_ACTIONS = ['retry', 'discard', 'promote'] as const;
+export type QueueJobAction = (typeof QUEUE_JOB_ACTIONS)[number];
+
+export interface QueueInspector {
+  /** Every job type with its counts per state, sorted by name */
+  queues(): Promise<QueueSummary[]>;
+  /** Jobs matching a query, newest first */
+  jobs(query?: JobQuery): Promise<JobRecord[]>;
+  job(id: string): Promise<JobRecord | undefined>;
+  /** Re-run a failed job with fresh attempts */
+  retry(id: string): Promise<void>;
+  /** Delete a job that is not running */
+  discard(id: string): Promise<void>;
+  /** Run a delayed job now */
+  promote(id: string): Promise<void>;
+}
+
+export interface QueueAdminHandlerOptions {
+  /** Decide whether a request may inspect and change jobs */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+  /** Path the handler is mounted at (default: '/admin/queues') */
+  basePath?: string;
+}
+
+const MAX_PAGE_SIZE = 500;
+
+// ---------------------------------------------------------------------------
+// Inspector
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an inspector for a queue driver (as returned by `createQueueWorker()`).
+ */
+export function createQueueInspector(driver: QueueDriver): QueueInspector {
+  return {
+    async queues() {
+      const counts = await driver.counts();
+      return Object.keys(counts)
+        .sort()
+        .map((name) => ({ name, counts: counts[name]! }));
+    },
+    jobs: (query) => driver.list(query),
+    job: (id) => driver.getJob(id),
+    retry: (id) => driver.replay(id),
+    discard: (id) => driver.discard(id),
+    promote: (id) => driver.promote(id),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP handler
+// ---------------------------------------------------------------------------
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Parse `?name=&status=&limit=&offset=` into a job query. Throws on bad values.
+ */
+export function parseJobQuery(params: URLSearchParams): JobQuery {
+  const query: JobQuery = {};
+  const name = params.get('name');
+  if (name) query.name = name;
+
+  const status = params.get('status');
+  if (status) {
+    if (!(JOB_STATUSES as readonly string[]).includes(status)) {
+      throw new Error(`Unknown status "${status}". Use one of: ${JOB_STATUSES.join(', ')}`);
+    }
+    query.status = status as JobStatus;
+  }
+
+  for (const key of ['limit', 'offset'] as const) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) throw new Error(`${key} must be a non-negative integer`);
+    query[key] = key === 'limit' ? Math.min(value, MAX_PAGE_SIZE) : value;
+  }
+  return query;
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new Error(
+      `[AOR] Malformed path segment "${segment}".\n` +
+        '  Fix: Percent-encode job ids in the URL with encodeURIComponent().',
+    );
+  }
+}
+
+/**
+ * Serve a queue inspector as JSON. Works with any framework that speaks
+ * the Fetch API (Hono: `(c) => handler(c.req.raw)`).
+ */
+export function createQueueAdminHandler(
+  inspector: QueueInspector,
+  options: QueueAdminHandlerOptions,
+): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath ?? '/admin/queues').replace(/\/+$/, '');
+
+  return async (request) => {
+    if (!(await options.authorize(request))) return json({ error: 'Unauthorized' }, 401);
+
+    const url = new URL(request.url);
+    if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return json({ error: 'Not found' }, 404);
+    }
+    const method = request.method.toUpperCase();
+
+    try {
+      const segments = url.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodePathSegment);
+      if (method === 'GET' && segments.length === 0) {
+        return json({ queues: await inspector.queues() });
+      }
+      if (segments[0] !== 'jobs') return json({ error: 'Not found' }, 404);
+
+      if (method === 'GET' && segments.length === 1) {
+        return json({ jobs: await inspector.jobs(parseJobQuery(url.searchParams)) });
+      }
+      if (method === 'GET' && segments.length === 2) {
+        const job = await inspector.job(segments[1]!);
+        return job ? json({ job }) : json({ error: `Job "${segments[1]}" not found` }, 404);
+      }
+      if (method === 'POST' && segments.length === 3) {
+        const action = segments[2] as QueueJobAction;
+        if (!QUEUE_JOB_ACTIONS.includes(action)) return json({ error: 'Not found' }, 404);
+        await inspector[action](segments[1]!);
+        return json({ ok: true });
+      }
+      return json({ error: 'Not found' }, 404);
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : String(error) }, 400);
+    }
+  };
+}
@@ -2,7 +2,12 @@
  * Job Definition
  *
  * Define type-safe background jobs with Zod validation, retry policies,
- * and backoff strategies. Jobs are processed by BullMQ workers.
+ * and backoff strategies. Jobs are processed by the queue driver
+ * (BullMQ or in-process, see worker.ts).
+ *
+ * Per-enqueue options (delay, run-at time, priority, idempotency key) are
+ * passed to `enqueue()`; idempotency keys and defaults can also be set here
+ * and are typed from the job's schema.
  *
  * Usage:
  *   import { defineJob } from '@vibeonrails/infra/queue';
@@ -11,13 +16,17 @@
  *     name: 'send-welcome-email',
  *     schema: z.object({ userId: z.string(), email: z.string() }),
  *     handler: async ({ userId, email }) => { ... },
- *     options: { retries: 3, backoff: 'exponential' },
+ *     options: {
+ *       retries: 3,
+ *       backoff: 'exponential',
+ *       idempotencyKey: ({ userId }) => `welcome:${userId}`,
+ *     },
  *   });
  */
 
 import { z } from 'zod';
 
-export interface JobOptions {
+export interface JobOptions<TData = unknown> {
   /** Number of retry attempts on failure (default: 3) */
   retries?: number;
   /** Backoff strategy between retries */
@@ -26,13 +35,35 @@ export interface JobOptions {
   backoffDelay?: number;
   /** Job timeout in ms (default: 30000) */
   timeout?: number;
+  /** Default priority (see EnqueueOptions.priority) */
+  priority?: number;
+  /** Derive an idempotency key from the job data (see EnqueueOptions.idempotencyKey) */
+  idempotencyKey?: (data: TData) => string;
+  /** How long an idempotency key blocks duplicates, in ms (default: 1 hour) */
+  dedupeWindow?: number;
+}
+
+/**
+ * Options for a single `enqueue()` call. Override the job's defaults.
+ */
+export interface EnqueueOptions<TData = unknown> {
+  /** Wait this many ms before the first attempt */
+  delay?: number;
+  /** Run at (or after) this time; cannot be combined with `delay` */
+  runAt?: Date | number;
+  /** 1 is the highest priority; jobs without a priority run before prioritized ones */
+  priority?: number;
+  /** Drop the job if one with the same key was enqueued within the dedupe window */
+  idempotencyKey?: string | ((data: TData) => string);
+  /** How long the idempotency key blocks duplicates, in ms */
+  dedupeWindow?: number;
 }
 
 export interface JobDefinition<T extends z.ZodType> {
   name: string;
   schema: T;
   handler: (data: z.infer<T>) => Promise<void>;
-  options?: JobOptions;
+  options?: JobOptions<z.infer<T>>;
 }
 
 /**
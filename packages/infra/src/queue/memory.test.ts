@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMemoryQueueDriver, type QueueStore } from "./memory.js";
+import { createSqliteQueueStore, type SqliteDatabaseLike } from "./sqlite.js";
+import {
+  resolveJobOptions,
+  type FlowNode,
+  type JobRecord,
+  type RegisteredJob,
+  type ResolvedEnqueueOptions,
+} from "./driver.js";
+
+function registeredJob(
+  name: string,
+  handler: (data: unknown) => Promise<void>,
+  options: Parameters<typeof resolveJobOptions>[0] = {},
+): RegisteredJob {
+  return { name, handler, options: resolveJobOptions(options) };
+}
+
+function enqueueOptions(overrides: Partial<ResolvedEnqueueOptions> = {}): ResolvedEnqueueOptions {
+  return { dedupeWindow: 60_000, ...overrides };
+}
+
+function flowNode(name: string, data: unknown, children: FlowNode[] = []): FlowNode {
+  return { name, data, options: resolveJobOptions({ retries: 1 }), enqueue: enqueueOptions(), children };
+}
+
+function createFakeStore(initial: JobRecord[] = []): QueueStore & { rows: Map<string, JobRecord> } {
+  const rows = new Map(initial.map((r) => [r.id, structuredClone(r)]));
+  return {
+    rows,
+    load: () => [...rows.values()].map((r) => structuredClone(r)),
+    save: (record) => rows.set(record.id, structuredClone(record)),
+    remove: (id) => rows.delete(id),
+  };
+}
+
+describe("Memory queue driver", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs enqueued jobs with their data", async () => {
+    const driver = createMemoryQueueDriver();
+    const seen: unknown[] = [];
+    driver.register(registeredJob("greet", async (data) => void seen.push(data)));
+
+    const id = await driver.add("greet", { name: "Ada" }, resolveJobOptions());
+    await driver.drain();
+
+    expect(seen).toEqual([{ name: "Ada" }]);
+    expect(driver.jobs()).toMatchObject([{ id, status: "completed", attemptsMade: 1 }]);
+  });
+
+  it("retries with exponential backoff until attempts run out", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryQueueDriver();
+    const attemptsAt: number[] = [];
+    const start = Date.now();
+    driver.register(
+      registeredJob(
+        "flaky",
+        async () => {
+          attemptsAt.push(Date.now() - start);
+          throw new Error("boom");
+        },
+        { retries: 3, backoff: "exponential", backoffDelay: 100 },
+      ),
+    );
+
+    await driver.add("flaky", {}, resolveJobOptions());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(attemptsAt).toEqual([0, 100, 300]);
+    expect(driver.jobs()[0]).toMatchObject({ status: "failed", attemptsMade: 3, error: "boom" });
+  });
+
+  it("succeeds on a later attempt with fixed backoff", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryQueueDriver();
+    let calls = 0;
+    driver.register(
+      registeredJob(
+        "eventually",
+        async () => {
+          calls++;
+          if (calls < 2) throw new Error("not yet");
+        },
+        { retries: 5, backoff: "fixed", backoffDelay: 50 },
+      ),
+    );
+
+    await driver.add("eventually", {}, resolveJobOptions());
+    await vi.advanceTimersByTimeAsync(49);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(calls).toBe(2);
+    expect(driver.jobs()[0]).toMatchObject({ status: "completed", error: undefined });
+  });
+
+  it("fails attempts that exceed the timeout", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryQueueDriver();
+    driver.register(
+      registeredJob("slow", () => new Promise(() => {}), { retries: 1, timeout: 500 }),
+    );
+
+    await driver.add("slow", {}, resolveJobOptions());
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(driver.jobs()[0]).toMatchObject({
+      status: "failed",
+      error: '[AOR] Job "slow" timed out after 500ms',
+    });
+  });
+
+  it("limits how many jobs run at once", async () => {
+    const driver = createMemoryQueueDriver({ concurrency: 2 });
+    let active = 0;
+    let maxActive = 0;
+    driver.register(
+      registeredJob("work", async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      }),
+    );
+
+    for (let i = 0; i < 5; i++) await driver.add("work", { i }, resolveJobOptions());
+    await driver.drain();
+
+    expect(maxActive).toBe(2);
+    expect(driver.jobs().every((job) => job.status === "completed")).toBe(true);
+  });
+
+  it("keeps a bounded number of finished jobs", async () => {
+    const driver = createMemoryQueueDriver({ keepFinished: 2 });
+    driver.register(registeredJob("noop", async () => {}));
+
+    for (let i = 0; i < 4; i++) await driver.add("noop", { i }, resolveJobOptions());
+    await driver.drain();
+
+    expect(driver.jobs().map((job) => job.data)).toEqual([{ i: 2 }, { i: 3 }]);
+  });
+
+  it("persists jobs and resumes unfinished ones from the store", async () => {
+    const store = createFakeStore([
+      {
+        id: "interrupted",
+        name: "resume",
+        data: { n: 1 },
+        status: "active",
+        attemptsMade: 1,
+        runAt: 0,
+        createdAt: 0,
+      },
+      {
+        id: "done",
+        name: "resume",
+        data: { n: 2 },
+        status: "completed",
+        attemptsMade: 1,
+        runAt: 0,
+        createdAt: 0,
+      },
+    ]);
+    const seen: unknown[] = [];
+
+    const driver = createMemoryQueueDriver({ store });
+    driver.register(registeredJob("resume", async (data) => void seen.push(data)));
+    await driver.drain();
+
+    expect(seen).toEqual([{ n: 1 }]);
+    expect(store.rows.get("interrupted")).toMatchObject({ status: "completed", attemptsMade: 2 });
+  });
+
+  it("holds delayed jobs until their run time", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryQueueDriver();
+    const ranAt: number[] = [];
+    const start = Date.now();
+    driver.register(registeredJob("later", async () => void ranAt.push(Date.now() - start)));
+
+    await driver.add("later", {}, resolveJobOptions(), enqueueOptions({ runAt: start + 5000 }));
+    expect(driver.jobs()[0]).toMatchObject({ status: "delayed" });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(ranAt).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(ranAt).toEqual([5000]);
+  });
+
+  it("runs unprioritized jobs first, then by priority", async () => {
+    const driver = createMemoryQueueDriver({ concurrency: 1 });
+    const order: unknown[] = [];
+    const job = registeredJob("ordered", async (data) => void order.push(data));
+
+    await driver.add("ordered", "low", resolveJobOptions(), enqueueOptions({ priority: 10 }));
+    await driver.add("ordered", "high", resolveJobOptions(), enqueueOptions({ priority: 1 }));
+    await driver.add("ordered", "none", resolveJobOptions(), enqueueOptions());
+    driver.register(job);
+    await driver.drain();
+
+    expect(order).toEqual(["none", "high", "low"]);
+  });
+
+  it("drops duplicates within the idempotency window", async () => {
+    vi.useFakeTimers();
+    const driver = createMemoryQueueDriver();
+    driver.register(registeredJob("charge", async () => {}));
+    const options = enqueueOptions({ idempotencyKey: "order-1", dedupeWindow: 1000 });
+
+    const first = await driver.add("charge", {}, resolveJobOptions(), options);
+    const second = await driver.add("charge", {}, resolveJobOptions(), options);
+    await vi.advanceTimersByTimeAsync(1000);
+    const third = await driver.add("charge", {}, resolveJobOptions(), options);
+
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+    expect(driver.jobs()).toHaveLength(2);
+  });
+
+  it("runs a flow parent after all its children complete", async () => {
+    const driver = createMemoryQueueDriver();
+    const order: unknown[] = [];
+    driver.register(registeredJob("pack", async (data) => void order.push(data)));
+    driver.register(registeredJob("ship", async (data) => void order.push(data)));
+
+    const id = await driver.addFlow(
+      flowNode("ship", "ship", [flowNode("pack", "pack-a"), flowNode("pack", "pack-b")]),
+    );
+    expect(driver.jobs().find((job) => job.id === id)).toMatchObject({
+      status: "waiting-children",
+      pendingChildren: 2,
+    });
+    await driver.drain();
+
+    expect(order).toEqual(["pack-a", "pack-b", "ship"]);
+    expect(driver.jobs().find((job) => job.id === id)).toMatchObject({ status: "completed" });
+  });
+
+  it("fails the parent when a child fails and revives it when the child is replayed", async () => {
+    const driver = createMemoryQueueDriver();
+    let packWorks = false;
+    const shipped: unknown[] = [];
+    driver.register(
+      registeredJob("pack", async () => {
+        if (!packWorks) throw new Error("out of boxes");
+      }, { retries: 1 }),
+    );
+    driver.register(registeredJob("ship", async (data) => void shipped.push(data)));
+
+    const parentId = await driver.addFlow(flowNode("ship", "order-1", [flowNode("pack", "box")]));
+    await driver.drain();
+
+    const dead = await driver.deadLetters();
+    expect(dead.map((job) => job.name)).toEqual(["pack", "ship"]);
+    expect(dead[1]).toMatchObject({
+      id: parentId,
+      error: expect.stringContaining('Child job "pack"'),
+    });
+    expect(shipped).toEqual([]);
+
+    packWorks = true;
+    await driver.replay(dead[0]!.id);
+    await driver.drain();
+
+    expect(shipped).toEqual(["order-1"]);
+    expect(await driver.deadLetters()).toEqual([]);
+  });
+
+  it("keeps dead-letter jobs for replay with fresh attempts", async () => {
+    const driver = createMemoryQueueDriver({ keepFinished: 0 });
+    let calls = 0;
+    driver.register(
+      registeredJob("flaky", async () => {
+        calls++;
+        if (calls < 3) throw new Error("boom");
+      }, { retries: 2, backoffDelay: 0 }),
+    );
+
+    const id = await driver.add("flaky", {}, resolveJobOptions());
+    await driver.drain();
+    expect(await driver.deadLetters("flaky")).toMatchObject([{ id, attemptsMade: 2, error: "boom" }]);
+    expect(await driver.deadLetters("other")).toEqual([]);
+
+    await driver.replay(id);
+    await driver.drain();
+
+    expect(calls).toBe(3);
+    expect(await driver.deadLetters()).toEqual([]);
+    await expect(driver.replay(id)).rejects.toThrow(`Dead-letter job "${id}" not found`);
+  });
+
+  it("refuses new jobs after close", async () => {
+    const driver = createMemoryQueueDriver();
+    await driver.close();
+    await expect(driver.add("x", {}, resolveJobOptions())).rejects.toThrow("closed");
+  });
+});
+
+describe("SQLite queue store", () => {
+  /** Stand-in for better-sqlite3 that understands the store's statements. */
+  function createFakeDb(): SqliteDatabaseLike & { executed: string[] } {
+    const rows = new Map<string, { created_at: number; record: string }>();
+    const executed: string[] = [];
+    return {
+      executed,
+      exec: (sql) => executed.push(sql),
+      prepare: (sql) => ({
+        run: (...params: unknown[]) => {
+          if (sql.startsWith("INSERT")) {
+            rows.set(params[0] as string, {
+              created_at: params[4] as number,
+              record: params[5] as string,
+            });
+          } else if (sql.startsWith("DELETE")) {
+            rows.delete(params[0] as string);
+          }
+        },
+        all: () =>
+          [...rows.values()]
+            .sort((a, b) => a.created_at - b.created_at)
+            .map(({ record }) => ({ record })),
+      }),
+    };
+  }
+
+  it("creates the table and round-trips job records", () => {
+    const db = createFakeDb();
+    const store = createSqliteQueueStore(db, { table: "jobs" });
+    const record: JobRecord = {
+      id: "a",
+      name: "send",
+      data: { to: "x" },
+      status: "waiting",
+      attemptsMade: 0,
+      runAt: 10,
+      createdAt: 10,
+    };
+
+    store.save(record);
+    store.save({ ...record, status: "completed", attemptsMade: 1 });
+    store.save({ ...record, id: "b", createdAt: 5 });
+
+    expect(db.executed[0]).toContain("CREATE TABLE IF NOT EXISTS jobs");
+    expect(store.load().map((r) => [r.id, r.status])).toEqual([
+      ["b", "waiting"],
+      ["a", "completed"],
+    ]);
+
+    store.remove("a");
+    expect(store.load()).toHaveLength(1);
+  });
+
+  it("rejects unsafe table names", () => {
+    expect(() => createSqliteQueueStore(createFakeDb(), { table: "jobs; DROP" })).toThrow(
+      "Invalid queue table name",
+    );
+  });
+});
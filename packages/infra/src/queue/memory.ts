@@ -0,0 +1,454 @@
+/**
+ * In-Process Queue Driver
+ *
+ * Runs jobs inside the current process with the same retry, backoff and
+ * timeout semantics as BullMQ — no Redis needed. Intended for `vibe dev`,
+ * tests and single-instance deployments.
+ *
+ * Jobs live in memory. Pass a `QueueStore` (e.g. `createSqliteQueueStore()`)
+ * to persist them: unfinished jobs are picked up again after a restart.
+ * Jobs that fail every attempt stay in the dead-letter queue (up to
+ * `keepFailed`) until they are replayed.
+ *
+ * Usage:
+ *   import { createQueueWorker, createMemoryQueueDriver } from '@vibeonrails/infra/queue';
+ *
+ *   const driver = createMemoryQueueDriver({ concurrency: 2 });
+ *   createQueueWorker(jobs, { driver });
+ *   await enqueue(sendWelcomeEmail, { userId: '123', email: 'a@b.c' });
+ *   await driver.drain(); // in tests: wait until every job has finished
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  computeBackoff,
+  emptyJobCounts,
+  runWithTimeout,
+  type FlowNode,
+  type JobCounts,
+  type JobQuery,
+  type JobRecord,
+  type QueueDriver,
+  type RegisteredJob,
+  type ResolvedEnqueueOptions,
+} from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Persistence for in-process jobs. Called synchronously on every state change.
+ */
+export interface QueueStore {
+  /** Every stored job, oldest first */
+  load(): JobRecord[];
+  save(record: JobRecord): void;
+  remove(id: string): void;
+}
+
+export interface MemoryQueueDriverOptions {
+  /** Jobs processed in parallel across all job types (default: 5) */
+  concurrency?: number;
+  /** Persist jobs (default: memory only) */
+  store?: QueueStore;
+  /** Completed jobs kept for inspection (default: 1000) */
+  keepFinished?: number;
+  /** Dead-letter jobs kept for replay (default: 10000) */
+  keepFailed?: number;
+}
+
+export interface MemoryQueueDriver extends QueueDriver {
+  /** Resolve once no job is waiting, delayed or running */
+  drain(): Promise<void>;
+  /** Snapshot of tracked jobs, oldest first */
+  jobs(): JobRecord[];
+}
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_KEEP_FINISHED = 1000;
+const DEFAULT_KEEP_FAILED = 10_000;
+
+/** Unprioritized jobs run first, as in BullMQ */
+function byPriority(a: JobRecord, b: JobRecord): number {
+  return (a.priority ?? 0) - (b.priority ?? 0) || a.runAt - b.runAt || a.createdAt - b.createdAt;
+}
+
+// ---------------------------------------------------------------------------
+// Driver
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an in-process queue driver.
+ */
+export function createMemoryQueueDriver(options: MemoryQueueDriverOptions = {}): MemoryQueueDriver {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const keepFinished = options.keepFinished ?? DEFAULT_KEEP_FINISHED;
+  const keepFailed = options.keepFailed ?? DEFAULT_KEEP_FAILED;
+  const store = options.store;
+
+  const registered = new Map<string, RegisteredJob>();
+  const records = new Map<string, JobRecord>();
+  const completed: string[] = [];
+  const failed: string[] = [];
+  const dedupe = new Map<string, { id: string; until: number }>();
+  let running = 0;
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let idleWaiters: Array<() => void> = [];
+
+  // Resume unfinished jobs from a previous process; active jobs were interrupted
+  for (const record of store?.load() ?? []) {
+    if (record.idempotencyKey && record.dedupeUntil && record.dedupeUntil > Date.now()) {
+      dedupe.set(record.idempotencyKey, { id: record.id, until: record.dedupeUntil });
+    }
+    if (record.status === 'completed') continue;
+    if (record.status === 'failed') {
+      records.set(record.id, record);
+      failed.push(record.id);
+      continue;
+    }
+    if (record.status !== 'waiting-children') {
+      record.status = record.runAt > Date.now() ? 'delayed' : 'waiting';
+    }
+    records.set(record.id, record);
+  }
+
+  function persist(record: JobRecord): void {
+    store?.save(record);
+  }
+
+  function trim(list: string[], keep: number): void {
+    while (list.length > keep) {
+      const id = list.shift()!;
+      records.delete(id);
+      store?.remove(id);
+    }
+  }
+
+  function complete(record: JobRecord): void {
+    record.status = 'completed';
+    record.error = undefined;
+    record.stack = undefined;
+    record.finishedAt = Date.now();
+    persist(record);
+    completed.push(record.id);
+    trim(completed, keepFinished);
+
+    const parent = record.parentId ? records.get(record.parentId) : undefined;
+    if (parent?.status === 'waiting-children') {
+      parent.pendingChildren = Math.max(0, (parent.pendingChildren ?? 1) - 1);
+      if (parent.pendingChildren === 0) {
+        parent.status = 'waiting';
+        parent.runAt = Math.max(parent.runAt, Date.now());
+      }
+      persist(parent);
+    }
+  }
+
+  /** Move to the dead-letter queue; a flow parent fails with its child. */
+  function fail(record: JobRecord, error: string, stack?: string): void {
+    record.status = 'failed';
+    record.error = error;
+    record.stack = stack;
+    record.finishedAt = Date.now();
+    persist(record);
+    failed.push(record.id);
+
+    const parent = record.parentId ? records.get(record.parentId) : undefined;
+    if (parent?.status === 'waiting-children') {
+      fail(parent, `Child job "${record.name}" (${record.id}) failed: ${error}`);
+    }
+    trim(failed, keepFailed);
+  }
+
+  function isIdle(): boolean {
+    if (running > 0) return false;
+    for (const record of records.values()) {
+      // Jobs without a registered handler cannot run here; don't wait on them
+      if ((record.status === 'waiting' || record.status === 'delayed') && registered.has(record.name)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function notifyIdle(): void {
+    if (!isIdle()) return;
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  /** Start ready jobs by priority up to the concurrency limit, then wake for the next delayed one. */
+  function schedule(): void {
+    if (closed) return;
+    clearTimeout(timer);
+    timer = undefined;
+
+    const now = Date.now();
+    let nextRunAt = Infinity;
+    const ready: JobRecord[] = [];
+
+    for (const record of records.values()) {
+      if (record.status !== 'waiting' && record.status !== 'delayed') continue;
+      if (!registered.has(record.name)) continue;
+      if (record.runAt > now) {
+        nextRunAt = Math.min(nextRunAt, record.runAt);
+        continue;
+      }
+      ready.push(record);
+    }
+
+    ready.sort(byPriority);
+    for (const record of ready.slice(0, Math.max(0, concurrency - running))) {
+      void runJob(record, registered.get(record.name)!);
+    }
+
+    if (nextRunAt !== Infinity && running < concurrency) {
+      timer = setTimeout(schedule, nextRunAt - now);
+      timer.unref?.();
+    }
+    notifyIdle();
+  }
+
+  async function runJob(record: JobRecord, job: RegisteredJob): Promise<void> {
+    running++;
+    record.status = 'active';
+    record.attemptsMade++;
+    persist(record);
+
+    try {
+      await runWithTimeout(
+        job.name,
+        () => job.handler(record.data, { id: record.id, traceparent: record.traceparent }),
+        job.options.timeout,
+      );
+      complete(record);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      if (record.attemptsMade >= job.options.attempts) {
+        fail(record, message, stack);
+      } else {
+        record.error = message;
+        record.stack = stack;
+        record.status = 'delayed';
+        record.runAt = Date.now() + computeBackoff(job.options, record.attemptsMade);
+        persist(record);
+      }
+    } finally {
+      running--;
+      schedule();
+    }
+  }
+
+  function createRecord(
+    name: string,
+    data: unknown,
+    enqueue: ResolvedEnqueueOptions | undefined,
+    parentId?: string,
+  ): JobRecord {
+    const now = Date.now();
+    const runAt = Math.max(now, enqueue?.runAt ?? now);
+    const record: JobRecord = {
+      id: randomUUID(),
+      name,
+      data,
+      status: runAt > now ? 'delayed' : 'waiting',
+      attemptsMade: 0,
+      runAt,
+      createdAt: now,
+      priority: enqueue?.priority,
+      parentId,
+      traceparent: enqueue?.traceparent,
+    };
+    if (enqueue?.idempotencyKey) {
+      record.idempotencyKey = enqueue.idempotencyKey;
+      record.dedupeUntil = now + enqueue.dedupeWindow;
+      dedupe.set(record.idempotencyKey, { id: record.id, until: record.dedupeUntil });
+    }
+    return record;
+  }
+
+  /** Id of a job enqueued with the same key inside its window, if any. */
+  function duplicateOf(enqueue: ResolvedEnqueueOptions | undefined): string | undefined {
+    if (!enqueue?.idempotencyKey) return undefined;
+    const existing = dedupe.get(enqueue.idempotencyKey);
+    if (existing && existing.until > Date.now()) return existing.id;
+    dedupe.delete(enqueue.idempotencyKey);
+    return undefined;
+  }
+
+  function addNode(node: FlowNode, parentId?: string): JobRecord {
+    const record = createRecord(node.name, node.data, node.enqueue, parentId);
+    if (node.children.length > 0) {
+      record.status = 'waiting-children';
+      record.pendingChildren = node.children.length;
+    }
+    records.set(record.id, record);
+    persist(record);
+    for (const child of node.children) addNode(child, record.id);
+    return record;
+  }
+
+  function replay(id: string): void {
+    const record = records.get(id);
+    if (!record || record.status !== 'failed') {
+      throw new Error(`[AOR] Dead-letter job "${id}" not found`);
+    }
+    failed.splice(failed.indexOf(id), 1);
+
+    // A parent that failed because of its children waits on them again
+    record.status = (record.pendingChildren ?? 0) > 0 ? 'waiting-children' : 'waiting';
+    record.attemptsMade = 0;
+    record.runAt = Date.now();
+    record.error = undefined;
+    record.stack = undefined;
+    record.finishedAt = undefined;
+    persist(record);
+
+    const parent = record.parentId ? records.get(record.parentId) : undefined;
+    if (parent?.status === 'failed' && parent.attemptsMade === 0) replay(parent.id);
+  }
+
+  function forget(id: string): void {
+    records.delete(id);
+    store?.remove(id);
+    for (const list of [completed, failed]) {
+      const index = list.indexOf(id);
+      if (index !== -1) list.splice(index, 1);
+    }
+  }
+
+  function discard(record: JobRecord): void {
+    if (record.status === 'active') {
+      throw new Error(`[AOR] Job "${record.id}" is running and cannot be discarded`);
+    }
+    // Children only exist to unblock their parent
+    for (const child of [...records.values()]) {
+      if (child.parentId === record.id && child.status !== 'active') discard(child);
+    }
+    forget(record.id);
+
+    const parent = record.parentId ? records.get(record.parentId) : undefined;
+    if (parent?.status === 'waiting-children' && record.status !== 'completed') {
+      parent.pendingChildren = Math.max(0, (parent.pendingChildren ?? 1) - 1);
+      if (parent.pendingChildren === 0) parent.status = 'waiting';
+      persist(parent);
+    }
+  }
+
+  function findJob(id: string): JobRecord {
+    const record = records.get(id);
+    if (!record) throw new Error(`[AOR] Job "${id}" not found`);
+    return record;
+  }
+
+  function assertOpen(): void {
+    if (closed) throw new Error('[AOR] Queue driver is closed');
+  }
+
+  return {
+    name: 'memory',
+
+    register(job: RegisteredJob): void {
+      registered.set(job.name, job);
+      schedule();
+    },
+
+    async add(name, data, _options, enqueue): Promise<string> {
+      assertOpen();
+      const duplicate = duplicateOf(enqueue);
+      if (duplicate) return duplicate;
+
+      const record = createRecord(name, data, enqueue);
+      records.set(record.id, record);
+      persist(record);
+      // Defer so callers of enqueue() never run the handler synchronously
+      queueMicrotask(schedule);
+      return record.id;
+    },
+
+    async addFlow(flow: FlowNode): Promise<string> {
+      assertOpen();
+      const duplicate = duplicateOf(flow.enqueue);
+      if (duplicate) return duplicate;
+
+      const root = addNode(flow);
+      queueMicrotask(schedule);
+      return root.id;
+    },
+
+    async deadLetters(name?: string): Promise<JobRecord[]> {
+      return failed
+        .map((id) => records.get(id)!)
+        .filter((record) => !name || record.name === name)
+        .map((record) => ({ ...record }));
+    },
+
+    async replay(id: string): Promise<void> {
+      assertOpen();
+      replay(id);
+      queueMicrotask(schedule);
+    },
+
+    async counts(): Promise<Record<string, JobCounts>> {
+      const counts: Record<string, JobCounts> = {};
+      for (const name of registered.keys()) counts[name] = emptyJobCounts();
+      for (const record of records.values()) {
+        (counts[record.name] ??= emptyJobCounts())[record.status]++;
+      }
+      return counts;
+    },
+
+    async list(query: JobQuery = {}): Promise<JobRecord[]> {
+      const offset = query.offset ?? 0;
+      return [...records.values()]
+        .filter((r) => (!query.name || r.name === query.name) && (!query.status || r.status === query.status))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(offset, offset + (query.limit ?? 50))
+        .map((record) => ({ ...record }));
+    },
+
+    async getJob(id: string): Promise<JobRecord | undefined> {
+      const record = records.get(id);
+      return record && { ...record };
+    },
+
+    async discard(id: string): Promise<void> {
+      discard(findJob(id));
+      queueMicrotask(schedule);
+    },
+
+    async promote(id: string): Promise<void> {
+      const record = findJob(id);
+      if (record.status !== 'delayed') {
+        throw new Error(`[AOR] Job "${id}" is ${record.status}; only delayed jobs can be promoted`);
+      }
+      record.status = 'waiting';
+      record.runAt = Date.now();
+      persist(record);
+      queueMicrotask(schedule);
+    },
+
+    async close(): Promise<void> {
+      closed = true;
+      clearTimeout(timer);
+      timer = undefined;
+      // Running handlers finish in the background; nothing new starts
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      for (const resolve of waiters) resolve();
+    },
+
+    drain(): Promise<void> {
+      if (isIdle()) return Promise.resolve();
+      return new Promise((resolve) => idleWaiters.push(resolve));
+    },
+
+    jobs(): JobRecord[] {
+      return [...records.values()].map((record) => ({ ...record }));
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCronScheduler, type CronRedisLike } from "./scheduler.js";
+import { createFileCronHistory, createMemoryCronHistory } from "./cron-history.js";
+import type { CronJobConfig } from "./cron.js";
+
+function job(overrides: Partial<CronJobConfig> = {}): CronJobConfig {
+  return { name: "tick", schedule: "* * * * *", handler: () => {}, enabled: true, ...overrides };
+}
+
+/** Map-backed Redis shared between schedulers, honouring NX and PX. */
+function createMockRedis(): CronRedisLike & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    async set(key, value, _mode, ttlMs) {
+      if (store.has(key)) return null;
+      store.set(key, value);
+      setTimeout(() => store.delete(key), ttlMs).unref?.();
+      return "OK";
+    },
+    async get(key) {
+      return store.get(key) ?? null;
+    },
+    async del(key) {
+      return store.delete(key) ? 1 : 0;
+    },
+  };
+}
+
+describe("Cron scheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs enabled jobs on schedule and records history", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T10:00:30Z") });
+    const runs: number[] = [];
+    const scheduler = createCronScheduler({
+      instanceId: "test",
+      jobs: [
+        job({ handler: () => void runs.push(Date.now()) }),
+        job({ name: "off", enabled: false, handler: () => void runs.push(-1) }),
+      ],
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    await scheduler.stop();
+
+    expect(runs.map((t) => new Date(t).toISOString())).toEqual([
+      "2026-03-10T10:01:00.000Z",
+      "2026-03-10T10:02:00.000Z",
+    ]);
+    const history = await scheduler.history();
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({
+      name: "tick",
+      status: "completed",
+      trigger: "schedule",
+      scheduledAt: Date.parse("2026-03-10T10:02:00Z"),
+      instanceId: "test",
+    });
+  });
+
+  it("records failures and timeouts and reports them to onError", async () => {
+    const onError = vi.fn();
+    const scheduler = createCronScheduler({
+      onError,
+      jobs: [
+        job({ name: "broken", handler: () => { throw new Error("boom"); } }),
+        job({ name: "slow", timeout: 10, handler: () => new Promise(() => {}) }),
+      ],
+    });
+
+    await expect(scheduler.run("broken")).resolves.toMatchObject({ status: "failed", error: "boom" });
+    await expect(scheduler.run("slow")).resolves.toMatchObject({
+      status: "failed",
+      error: '[AOR] Job "slow" timed out after 10ms',
+    });
+    expect(onError).toHaveBeenCalledTimes(2);
+    await expect(scheduler.run("missing")).rejects.toThrow('Cron job "missing" not found');
+  });
+
+  it("skips a run while the previous one is still going", async () => {
+    let finish!: () => void;
+    const scheduler = createCronScheduler({
+      jobs: [job({ handler: () => new Promise<void>((resolve) => (finish = resolve)) })],
+    });
+
+    const first = scheduler.run("tick");
+    await expect(scheduler.run("tick")).resolves.toMatchObject({ status: "skipped", reason: "overlap" });
+    expect((await scheduler.list())[0]!.running).toBe(true);
+    finish();
+    await expect(first).resolves.toMatchObject({ status: "completed" });
+  });
+
+  it("allows overlapping runs when the job opts in", async () => {
+    const releases: Array<() => void> = [];
+    const scheduler = createCronScheduler({
+      jobs: [job({ overlap: true, handler: () => new Promise<void>((r) => releases.push(r)) })],
+    });
+
+    const runs = [scheduler.run("tick"), scheduler.run("tick")];
+    await vi.waitFor(() => expect(releases).toHaveLength(2));
+    releases.forEach((release) => release());
+    expect((await Promise.all(runs)).map((r) => r.status)).toEqual(["completed", "completed"]);
+  });
+
+  it("runs each scheduled slot on only one instance", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T10:00:30Z") });
+    const redis = createMockRedis();
+    let calls = 0;
+    const jobs = [job({ handler: () => void calls++ })];
+    const history = createMemoryCronHistory();
+    const a = createCronScheduler({ jobs, redis, history, instanceId: "a" });
+    const b = createCronScheduler({ jobs, redis, history, instanceId: "b" });
+
+    a.start();
+    b.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all([a.stop(), b.stop()]);
+
+    expect(calls).toBe(1);
+    const runs = await history.list();
+    expect(runs.map((r) => r.status).sort()).toEqual(["completed", "skipped"]);
+    expect(runs.find((r) => r.status === "skipped")).toMatchObject({ reason: "locked" });
+    // The per-job lock is released after the run; the slot claim stays until it expires
+    expect([...redis.store.keys()]).toEqual([`cron:lock:tick:${Date.parse("2026-03-10T10:01:00Z")}`]);
+  });
+
+  it("holds the job lock across instances for manual runs", async () => {
+    const redis = createMockRedis();
+    let finish!: () => void;
+    const jobs = [job({ handler: () => new Promise<void>((resolve) => (finish = resolve)) })];
+    const a = createCronScheduler({ jobs, redis, instanceId: "a" });
+    const b = createCronScheduler({ jobs, redis, instanceId: "b" });
+
+    const first = a.run("tick");
+    await vi.waitFor(() => expect(redis.store.get("cron:lock:tick")).toMatch(/^a:/));
+    await expect(b.run("tick")).resolves.toMatchObject({ status: "skipped", reason: "locked" });
+    finish();
+    await first;
+    expect(redis.store.size).toBe(0);
+  });
+
+  it("lists jobs with their next and last run", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T10:00:30Z") });
+    const scheduler = createCronScheduler({
+      jobs: [
+        job({ name: "paris", schedule: "0 9 * * *", timezone: "Europe/Paris" }),
+        job({ name: "off", enabled: false }),
+      ],
+    });
+    await scheduler.run("paris");
+
+    const [paris, off] = await scheduler.list();
+    expect(paris).toMatchObject({
+      timezone: "Europe/Paris",
+      enabled: true,
+      nextRunAt: new Date("2026-03-11T08:00:00Z"),
+      lastRun: { status: "completed", trigger: "manual" },
+    });
+    expect(off).toMatchObject({ enabled: false, nextRunAt: null, lastRun: undefined });
+  });
+});
+
+describe("File cron history", () => {
+  it("appends runs as JSON lines and lists them newest first", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cron-history-"));
+    try {
+      const path = join(dir, ".vibe", "cron-history.jsonl");
+      const scheduler = createCronScheduler({
+        history: createFileCronHistory(path),
+        jobs: [job({ name: "a" }), job({ name: "b" })],
+      });
+      await scheduler.run("a");
+      await scheduler.run("b");
+      await scheduler.run("a");
+
+      const reader = createFileCronHistory(path);
+      expect((await reader.list()).map((r) => r.name)).toEqual(["a", "b", "a"]);
+      expect(await reader.list({ name: "a", limit: 1 })).toHaveLength(1);
+      expect(await createFileCronHistory(join(dir, "missing.jsonl")).list()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Cron Scheduler
+ *
+ * Runs `defineCron()` jobs on their schedules. Each job gets a timer for its
+ * next run time (computed in the job's timezone). Runs are recorded to a
+ * history store.
+ *
+ * Overlap protection: a run is skipped while the previous run of the same job
+ * is still going, unless the job sets `overlap: true`.
+ *
+ * Distributed locking: pass a Redis client and every instance can run the
+ * scheduler. Each scheduled slot is claimed with `SET NX PX`, so only one
+ * instance runs it, and a per-job lock keeps long runs from overlapping
+ * across instances.
+ *
+ * Usage:
+ *   import Redis from 'ioredis';
+ *   import { createCronScheduler, createFileCronHistory } from '@vibeonrails/infra/queue';
+ *
+ *   const scheduler = createCronScheduler({
+ *     redis: new Redis(process.env.REDIS_URL!),
+ *     history: createFileCronHistory(),
+ *   });
+ *   scheduler.start();
+ *   await scheduler.run('cleanup-sessions'); // run now, outside the schedule
+ */
+
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { getCronJobs, type CronJobConfig } from './cron.js';
+import { nextCronRun, parseCronExpression, type CronExpression } from './cron-expression.js';
+import {
+  createMemoryCronHistory,
+  type CronHistoryQuery,
+  type CronHistoryStore,
+  type CronRunRecord,
+  type CronSkipReason,
+} from './cron-history.js';
+import { runWithTimeout } from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal Redis interface for cron locks (ioredis compatible).
+ * `set` must return 'OK' when the key was written and null otherwise.
+ */
+export interface CronRedisLike {
+  set(key: string, value: string, mode: 'PX', ttlMs: number, condition: 'NX'): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+export interface CronSchedulerOptions {
+  /** Jobs to run (default: every job registered with defineCron() when started) */
+  jobs?: CronJobConfig[];
+  /** Enables distributed locking across instances */
+  redis?: CronRedisLike;
+  /** Redis key prefix for locks (default: 'cron:lock:') */
+  lockPrefix?: string;
+  /** Lock lifetime for jobs without a timeout, in ms (default: 10 minutes) */
+  lockTtl?: number;
+  /** Where runs are recorded (default: in memory) */
+  history?: CronHistoryStore;
+  /** Identifies this process in locks and history (default: host:pid) */
+  instanceId?: string;
+  /** Called when a run fails or history cannot be written */
+  onError?: (error: unknown, job: CronJobConfig) => void;
+}
+
+export interface CronJobStatus {
+  name: string;
+  schedule: string;
+  timezone: string;
+  enabled: boolean;
+  description?: string;
+  /** A run is in progress in this process */
+  running: boolean;
+  /** Next scheduled run (null when disabled) */
+  nextRunAt: Date | null;
+  lastRun?: CronRunRecord;
+}
+
+export interface CronScheduler {
+  /** Arm timers for every enabled job */
+  start(): void;
+  /** Clear timers and wait for runs in progress */
+  stop(): Promise<void>;
+  /** Run a job now, outside its schedule (respects overlap protection) */
+  run(name: string): Promise<CronRunRecord>;
+  /** Jobs with their next and last run */
+  list(): Promise<CronJobStatus[]>;
+  history(query?: CronHistoryQuery): Promise<CronRunRecord[]>;
+}
+
+const DEFAULT_LOCK_PREFIX = 'cron:lock:';
+const DEFAULT_LOCK_TTL = 10 * 60_000;
+
+/** setTimeout() overflows past ~24.8 days; longer waits are re-armed in steps */
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a cron scheduler.
+ */
+export function createCronScheduler(options: CronSchedulerOptions = {}): CronScheduler {
+  const redis = options.redis;
+  const lockPrefix = options.lockPrefix ?? DEFAULT_LOCK_PREFIX;
+  const history = options.history ?? createMemoryCronHistory();
+  const instanceId = options.instanceId ?? `${hostname()}:${process.pid}`;
+
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const running = new Map<string, Set<Promise<CronRunRecord>>>();
+  const parsed = new Map<string, CronExpression>();
+  let started = false;
+
+  function jobs(): CronJobConfig[] {
+    return options.jobs ?? getCronJobs();
+  }
+
+  function findJob(name: string): CronJobConfig {
+    const job = jobs().find((j) => j.name === name);
+    if (!job) {
+      throw new Error(
+        `[AOR] Cron job "${name}" not found.\n` +
+          '  Fix: Define it with defineCron() and import the file before starting the scheduler.',
+      );
+    }
+    return job;
+  }
+
+  function expressionFor(job: CronJobConfig): CronExpression {
+    let cron = parsed.get(job.schedule);
+    if (!cron) {
+      cron = parseCronExpression(job.schedule);
+      parsed.set(job.schedule, cron);
+    }
+    return cron;
+  }
+
+  function nextRunAt(job: CronJobConfig, from: number): number {
+    return nextCronRun(expressionFor(job), new Date(from), job.timezone ?? 'UTC').getTime();
+  }
+
+  function arm(job: CronJobConfig, runAt: number): void {
+    const delay = runAt - Date.now();
+    const timer = setTimeout(
+      () => {
+        if (delay > MAX_TIMER_DELAY) {
+          arm(job, runAt);
+          return;
+        }
+        // Schedule the following slot before running so slow runs don't drift
+        arm(job, nextRunAt(job, Math.max(runAt, Date.now())));
+        void execute(job, 'schedule', runAt);
+      },
+      Math.max(0, Math.min(delay, MAX_TIMER_DELAY)),
+    );
+    timer.unref?.();
+    timers.set(job.name, timer);
+  }
+
+  async function record(job: CronJobConfig, entry: CronRunRecord): Promise<CronRunRecord> {
+    try {
+      await history.add(entry);
+    } catch (error) {
+      options.onError?.(error, job);
+    }
+    return entry;
+  }
+
+  function skipped(
+    job: CronJobConfig,
+    trigger: CronRunRecord['trigger'],
+    scheduledAt: number,
+    reason: CronSkipReason,
+  ): Promise<CronRunRecord> {
+    const now = Date.now();
+    return record(job, {
+      id: randomUUID(),
+      name: job.name,
+      status: 'skipped',
+      trigger,
+      scheduledAt,
+      startedAt: now,
+      finishedAt: now,
+      durationMs: 0,
+      reason,
+      instanceId,
+    });
+  }
+
+  async function acquire(key: string, token: string, ttl: number): Promise<boolean> {
+    return (await redis!.set(key, token, 'PX', ttl, 'NX')) === 'OK';
+  }
+
+  async function release(key: string, token: string): Promise<void> {
+    // Only delete our own lock; it may have expired and been taken by another instance
+    if ((await redis!.get(key)) === token) await redis!.del(key);
+  }
+
+  async function runHandler(
+    job: CronJobConfig,
+    trigger: CronRunRecord['trigger'],
+    scheduledAt: number,
+  ): Promise<CronRunRecord> {
+    const startedAt = Date.now();
+    let error: string | undefined;
+    try {
+      await runWithTimeout(job.name, async () => job.handler(), job.timeout ?? 0);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      options.onError?.(err, job);
+    }
+    const finishedAt = Date.now();
+    return record(job, {
+      id: randomUUID(),
+      name: job.name,
+      status: error === undefined ? 'completed' : 'failed',
+      trigger,
+      scheduledAt,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      error,
+      instanceId,
+    });
+  }
+
+  async function execute(
+    job: CronJobConfig,
+    trigger: CronRunRecord['trigger'],
+    scheduledAt: number,
+  ): Promise<CronRunRecord> {
+    const active = running.get(job.name) ?? new Set();
+    if (active.size > 0 && !job.overlap) return skipped(job, trigger, scheduledAt, 'overlap');
+
+    const run = (async () => {
+      if (!redis) return runHandler(job, trigger, scheduledAt);
+
+      const ttl = job.timeout ?? options.lockTtl ?? DEFAULT_LOCK_TTL;
+      const token = `${instanceId}:${randomUUID()}`;
+
+      // One instance per scheduled slot; the claim is left to expire
+      if (trigger === 'schedule' && !(await acquire(`${lockPrefix}${job.name}:${scheduledAt}`, token, ttl))) {
+        return skipped(job, trigger, scheduledAt, 'locked');
+      }
+      if (job.overlap) return runHandler(job, trigger, scheduledAt);
+
+      const lockKey = `${lockPrefix}${job.name}`;
+      if (!(await acquire(lockKey, token, ttl))) return skipped(job, trigger, scheduledAt, 'locked');
+      try {
+        return await runHandler(job, trigger, scheduledAt);
+      } finally {
+        await release(lockKey, token).catch((error: unknown) => options.onError?.(error, job));
+      }
+    })();
+
+    active.add(run);
+    running.set(job.name, active);
+    try {
+      return await run;
+    } finally {
+      active.delete(run);
+      if (active.size === 0) running.delete(job.name);
+    }
+  }
+
+  return {
+    start(): void {
+      if (started) return;
+      started = true;
+      const now = Date.now();
+      for (const job of jobs()) {
+        if (job.enabled === false) continue;
+        arm(job, nextRunAt(job, now));
+      }
+    },
+
+    async stop(): Promise<void> {
+      started = false;
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+      await Promise.allSettled([...running.values()].flatMap((runs) => [...runs]));
+    },
+
+    async run(name: string): Promise<CronRunRecord> {
+      return execute(findJob(name), 'manual', Date.now());
+    },
+
+    async list(): Promise<CronJobStatus[]> {
+      const now = Date.now();
+      const runs = await history.list({ limit: Number.MAX_SAFE_INTEGER });
+      return jobs().map((job) => ({
+        name: job.name,
+        schedule: job.schedule,
+        timezone: job.timezone ?? 'UTC',
+        enabled: job.enabled !== false,
+        description: job.description,
+        running: running.has(job.name),
+        nextRunAt: job.enabled === false ? null : new Date(nextRunAt(job, now)),
+        lastRun: runs.find((r) => r.name === job.name),
+      }));
+    },
+
+    history(query?: CronHistoryQuery): Promise<CronRunRecord[]> {
+      return history.list(query);
+    },
+  };
+}
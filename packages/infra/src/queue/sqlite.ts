@@ -0,0 +1,86 @@
+/**
+ * SQLite Queue Store
+ *
+ * Persists in-process jobs to a SQLite file so they survive restarts on a
+ * single instance. Takes any synchronous SQLite handle with the
+ * better-sqlite3 API (`better-sqlite3`, Node's `node:sqlite` DatabaseSync).
+ *
+ * Usage:
+ *   import Database from 'better-sqlite3';
+ *   import { createMemoryQueueDriver, createSqliteQueueStore } from '@vibeonrails/infra/queue';
+ *
+ *   const store = createSqliteQueueStore(new Database('.vibe/jobs.db'));
+ *   createQueueWorker(jobs, { driver: createMemoryQueueDriver({ store }) });
+ */
+
+import type { JobRecord } from './driver.js';
+import type { QueueStore } from './memory.js';
+
+/**
+ * Minimal synchronous SQLite interface (better-sqlite3 compatible).
+ */
+export interface SqliteDatabaseLike {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+export interface SqliteQueueStoreOptions {
+  /** Table name (default: 'vibe_jobs') */
+  table?: string;
+}
+
+/**
+ * Create a job store backed by a SQLite table. The table is created if missing.
+ */
+export function createSqliteQueueStore(
+  db: SqliteDatabaseLike,
+  options: SqliteQueueStoreOptions = {},
+): QueueStore {
+  const table = options.table ?? 'vibe_jobs';
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`[AOR] Invalid queue table name "${table}"`);
+  }
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (` +
+      'id TEXT PRIMARY KEY, ' +
+      'name TEXT NOT NULL, ' +
+      'status TEXT NOT NULL, ' +
+      'run_at INTEGER NOT NULL, ' +
+      'created_at INTEGER NOT NULL, ' +
+      'record TEXT NOT NULL)',
+  );
+
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (id, name, status, run_at, created_at, record) VALUES (?, ?, ?, ?, ?, ?) ` +
+      'ON CONFLICT(id) DO UPDATE SET status = excluded.status, run_at = excluded.run_at, record = excluded.record',
+  );
+  const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+  const selectAll = db.prepare(`SELECT record FROM ${table} ORDER BY created_at, id`);
+
+  return {
+    load(): JobRecord[] {
+      return (selectAll.all() as Array<{ record: string }>).map(
+        (row) => JSON.parse(row.record) as JobRecord,
+      );
+    },
+
+    save(record: JobRecord): void {
+      upsert.run(
+        record.id,
+        record.name,
+        record.status,
+        record.runAt,
+        record.createdAt,
+        JSON.stringify(record),
+      );
+    },
+
+    remove(id: string): void {
+      remove.run(id);
+    },
+  };
+}
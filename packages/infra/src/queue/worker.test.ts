@@ -0,0 +1,187 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { z } from "zod";
+import {
+  clearSpans,
+  configureTracing,
+  createInMemorySpanExporter,
+  createSimpleSpanProcessor,
+  getActiveSpan,
+  withSpan,
+} from "@vibeonrails/core/tracing";
+import { defineJob } from "./job.js";
+import {
+  createQueueWorker,
+  enqueue,
+  enqueueBatch,
+  enqueueFlow,
+  flowJob,
+  listDeadLetters,
+  replayDeadLetters,
+  closeQueueWorker,
+  resolveQueueDriverName,
+} from "./worker.js";
+import { createMemoryQueueDriver } from "./memory.js";
+import { computeBackoff, resolveEnqueueOptions, resolveJobOptions } from "./driver.js";
+
+describe("Queue Worker", () => {
+  afterEach(async () => {
+    await closeQueueWorker();
+  });
+
+  it("picks the driver from the environment", () => {
+    expect(resolveQueueDriverName({ QUEUE_DRIVER: "memory", REDIS_URL: "redis://x" })).toBe("memory");
+    expect(resolveQueueDriverName({ REDIS_URL: "redis://localhost:6379" })).toBe("bullmq");
+    expect(resolveQueueDriverName({ NODE_ENV: "production" })).toBe("bullmq");
+    expect(resolveQueueDriverName({ NODE_ENV: "development" })).toBe("memory");
+    expect(() => resolveQueueDriverName({ QUEUE_DRIVER: "sqs" })).toThrow('Unknown QUEUE_DRIVER "sqs"');
+  });
+
+  it("validates and runs enqueued jobs on the in-process driver", async () => {
+    const sent: string[] = [];
+    const sendWelcome = defineJob({
+      name: "send-welcome",
+      schema: z.object({ email: z.string().email() }),
+      handler: async ({ email }) => {
+        sent.push(email);
+      },
+    });
+    const driver = createMemoryQueueDriver();
+    createQueueWorker([sendWelcome], { driver });
+
+    const id = await enqueue(sendWelcome, { email: "ada@example.com" });
+    await driver.drain();
+
+    expect(typeof id).toBe("string");
+    expect(sent).toEqual(["ada@example.com"]);
+    await expect(enqueue(sendWelcome, { email: "nope" })).rejects.toThrow();
+  });
+
+  it("throws for jobs that were never registered", async () => {
+    createQueueWorker([], { driver: createMemoryQueueDriver() });
+    const orphan = defineJob({ name: "orphan", schema: z.object({}), handler: async () => {} });
+
+    await expect(enqueue(orphan, {})).rejects.toThrow('Queue "orphan" not found');
+  });
+
+  it("refuses to switch drivers while running", () => {
+    createQueueWorker([], { driver: createMemoryQueueDriver() });
+    expect(() => createQueueWorker([], { driver: createMemoryQueueDriver() })).toThrow(
+      "already started",
+    );
+  });
+
+  it("applies job option defaults and backoff formulas", () => {
+    const options = resolveJobOptions({ retries: 5, backoffDelay: 200 });
+    expect(options).toEqual({ attempts: 5, backoff: "exponential", backoffDelay: 200, timeout: 30000 });
+    expect([1, 2, 3].map((n) => computeBackoff(options, n))).toEqual([200, 400, 800]);
+    expect(computeBackoff(resolveJobOptions({ backoff: "fixed" }), 3)).toBe(1000);
+  });
+
+  it("resolves per-enqueue options against job defaults", () => {
+    const now = 1_000_000;
+    const jobOptions = { priority: 5, idempotencyKey: (d: { id: string }) => `charge:${d.id}` };
+
+    expect(resolveEnqueueOptions("charge", { id: "a" }, jobOptions, { delay: 500 }, now)).toEqual({
+      runAt: now + 500,
+      priority: 5,
+      idempotencyKey: "charge:a",
+      dedupeWindow: 3_600_000,
+    });
+    expect(
+      resolveEnqueueOptions("charge", { id: "a" }, jobOptions, { runAt: new Date(now + 10), priority: 1, idempotencyKey: "k" }, now),
+    ).toMatchObject({ runAt: now + 10, priority: 1, idempotencyKey: "k" });
+    expect(() => resolveEnqueueOptions("x", {}, {}, { delay: 1, runAt: now })).toThrow("both delay and runAt");
+    expect(() => resolveEnqueueOptions("x", {}, {}, { priority: 0 })).toThrow("invalid priority 0");
+    expect(() => resolveEnqueueOptions("x", {}, {}, { runAt: new Date("nope") })).toThrow("invalid runAt");
+  });
+
+  it("dedupes enqueues with an idempotency key derived from the data", async () => {
+    const charged: string[] = [];
+    const charge = defineJob({
+      name: "charge",
+      schema: z.object({ orderId: z.string() }),
+      handler: async ({ orderId }) => void charged.push(orderId),
+      options: { idempotencyKey: ({ orderId }) => `charge:${orderId}` },
+    });
+    const driver = createMemoryQueueDriver();
+    createQueueWorker([charge], { driver });
+
+    const ids = await enqueueBatch(charge, [{ orderId: "1" }, { orderId: "2" }, { orderId: "1" }]);
+    await driver.drain();
+
+    expect(ids[2]).toBe(ids[0]);
+    expect(charged).toEqual(["1", "2"]);
+    await expect(enqueueBatch(charge, [{ orderId: "3" }, { orderId: 4 as unknown as string }])).rejects.toThrow();
+    expect(driver.jobs()).toHaveLength(2);
+  });
+
+  it("runs jobs in a span of the enqueuing trace", async () => {
+    const exporter = createInMemorySpanExporter();
+    configureTracing({ processors: [createSimpleSpanProcessor(exporter)] });
+    let traceId: string | undefined;
+    const report = defineJob({
+      name: "report",
+      schema: z.object({}),
+      handler: async () => {
+        traceId = getActiveSpan()?.traceId;
+      },
+    });
+    const driver = createMemoryQueueDriver();
+    createQueueWorker([report], { driver });
+
+    const request = await withSpan("request", async (span) => {
+      await enqueue(report, {});
+      return span;
+    });
+    await driver.drain();
+    clearSpans();
+
+    const job = exporter.spans.find((span) => span.name === "job report")!;
+    expect(traceId).toBe(request.traceId);
+    expect(job.parentSpanId).toBe(request.spanId);
+    expect(job.kind).toBe("consumer");
+    expect(job.attributes["messaging.system"]).toBe("memory");
+    expect((await driver.getJob(String(job.attributes["messaging.message.id"])))?.traceparent).toBe(
+      `00-${request.traceId}-${request.spanId}-01`,
+    );
+  });
+
+  it("enqueues flows and replays dead letters", async () => {
+    const events: string[] = [];
+    let failResize = true;
+    const resize = defineJob({
+      name: "resize",
+      schema: z.object({ size: z.number() }),
+      handler: async ({ size }) => {
+        if (failResize && size === 2) throw new Error("too big");
+        events.push(`resize:${size}`);
+      },
+      options: { retries: 1 },
+    });
+    const publish = defineJob({
+      name: "publish",
+      schema: z.object({ postId: z.string() }),
+      handler: async ({ postId }) => void events.push(`publish:${postId}`),
+    });
+    const driver = createMemoryQueueDriver();
+    createQueueWorker([resize, publish], { driver });
+
+    await enqueueFlow(
+      flowJob(publish, { postId: "p1" }, {
+        children: [flowJob(resize, { size: 1 }), flowJob(resize, { size: 2 })],
+      }),
+    );
+    await driver.drain();
+
+    expect(events).toEqual(["resize:1"]);
+    expect((await listDeadLetters(resize)).map((job) => job.data)).toEqual([{ size: 2 }]);
+    expect(await listDeadLetters()).toHaveLength(2);
+
+    failResize = false;
+    expect(await replayDeadLetters(resize)).toBe(1);
+    await driver.drain();
+
+    expect(events).toEqual(["resize:1", "resize:2", "publish:p1"]);
+    expect(() => flowJob(resize, { size: "big" as unknown as number })).toThrow();
+  });
+});
@@ -1,82 +1,154 @@
 /**
  * Queue Worker
  *
- * Processes background jobs using BullMQ. Handles job validation,
- * execution, retries, and error reporting.
+ * Registers job definitions with a queue driver and enqueues jobs. Handles
+ * job validation, execution, retries, backoff and timeouts, plus delayed,
+ * scheduled, prioritized, deduplicated and batch jobs, flows and the
+ * dead-letter queue. Every attempt is recorded in the `queue_jobs_total` and
+ * `queue_job_duration_seconds` metrics.
+ *
+ * The driver is picked from `QUEUE_DRIVER` (`bullmq` | `memory`) unless one is
+ * passed explicitly. Without `QUEUE_DRIVER`, BullMQ is used when `REDIS_URL`
+ * is set or in production, and the in-process driver otherwise — so
+ * `vibe dev` and tests run jobs without Redis.
  *
  * Usage:
- *   import { createQueue, enqueue } from '@vibeonrails/infra/queue';
+ *   import { createQueueWorker, enqueue } from '@vibeonrails/infra/queue';
  *
- *   const queue = createQueue([sendWelcomeEmail, processPayment]);
+ *   createQueueWorker([sendWelcomeEmail, processPayment]);
  *   await enqueue(sendWelcomeEmail, { userId: '123', email: 'test@test.com' });
+ *   await enqueue(sendReminder, { userId: '123' }, { delay: 60_000, priority: 1 });
+ *
+ *   // Ship the order once every line item is packed
+ *   await enqueueFlow(
+ *     flowJob(shipOrder, { orderId }, {
+ *       children: items.map((item) => flowJob(packItem, { orderId, sku: item.sku })),
+ *     }),
+ *   );
+ *
+ *   for (const job of await listDeadLetters(processPayment)) await replayDeadLetter(job.id);
  */
 
-import { Queue, Worker, type Job } from 'bullmq';
-import type { JobDefinition } from './job.js';
 import type { z } from 'zod';
+import { parseTraceparent, withSpan } from '@vibeonrails/core/tracing';
+import type { EnqueueOptions, JobDefinition } from './job.js';
+import {
+  resolveEnqueueOptions,
+  resolveJobOptions,
+  type FlowNode,
+  type JobRecord,
+  type QueueDriver,
+  type RegisteredJob,
+} from './driver.js';
+import { createBullMQDriver } from './bullmq.js';
+import { createMemoryQueueDriver } from './memory.js';
+import { recordQueueJob } from '../monitoring/defaults.js';
 
-let redisConnection: { host: string; port: number } | undefined;
+export const QUEUE_DRIVERS = ['bullmq', 'memory'] as const;
+export type QueueDriverName = (typeof QUEUE_DRIVERS)[number];
 
-function getRedisConfig() {
-  if (redisConnection) return redisConnection;
+export interface QueueWorkerOptions {
+  /** Driver instance (default: chosen from QUEUE_DRIVER / REDIS_URL) */
+  driver?: QueueDriver;
+}
 
-  const url = process.env.REDIS_URL ?? 'redis://localhost:6379';
-  const parsed = new URL(url);
+/** A job in a flow with the jobs that must complete before it (see flowJob). */
+export interface FlowJob {
+  job: JobDefinition<z.ZodType>;
+  data: unknown;
+  options: EnqueueOptions;
+  children: FlowJob[];
+}
 
-  redisConnection = {
-    host: parsed.hostname,
-    port: parseInt(parsed.port || '6379', 10),
-  };
-  return redisConnection;
+let activeDriver: QueueDriver | undefined;
+const registered = new Map<string, RegisteredJob>();
+
+/**
+ * Pick the driver name from the environment.
+ */
+export function resolveQueueDriverName(env: NodeJS.ProcessEnv = process.env): QueueDriverName {
+  const explicit = env.QUEUE_DRIVER;
+  if (explicit) {
+    if (!(QUEUE_DRIVERS as readonly string[]).includes(explicit)) {
+      throw new Error(
+        `[AOR] Unknown QUEUE_DRIVER "${explicit}".\n` +
+          `  Fix: Set QUEUE_DRIVER to one of: ${QUEUE_DRIVERS.join(', ')}`,
+      );
+    }
+    return explicit as QueueDriverName;
+  }
+  return env.REDIS_URL || env.NODE_ENV === 'production' ? 'bullmq' : 'memory';
 }
 
-const queues = new Map<string, Queue>();
-const handlers = new Map<string, (data: unknown) => Promise<void>>();
+function createDriver(name: QueueDriverName): QueueDriver {
+  return name === 'bullmq' ? createBullMQDriver() : createMemoryQueueDriver();
+}
 
 /**
  * Initialize the queue system with job definitions.
- * Creates BullMQ queues and workers for each job type.
+ * Registers a handler for each job type with the driver.
  *
  * @param jobs - Array of job definitions to register
+ * @param options - Driver override
+ * @returns The driver in use
  */
-export function createQueueWorker(jobs: JobDefinition<z.ZodType>[]): void {
-  const connection = getRedisConfig();
+export function createQueueWorker(
+  jobs: JobDefinition<z.ZodType>[],
+  options: QueueWorkerOptions = {},
+): QueueDriver {
+  if (options.driver && activeDriver && options.driver !== activeDriver) {
+    throw new Error(
+      `[AOR] Queue worker already started with the "${activeDriver.name}" driver.\n` +
+        '  Fix: Call closeQueueWorker() before switching drivers.',
+    );
+  }
+  const driver = (activeDriver ??= options.driver ?? createDriver(resolveQueueDriverName()));
 
   for (const job of jobs) {
-    // Create queue
-    const queue = new Queue(job.name, { connection });
-    queues.set(job.name, queue);
-
-    // Register handler
-    handlers.set(job.name, async (data: unknown) => {
-      const parsed = job.schema.parse(data);
-      await job.handler(parsed);
-    });
-
-    // Create worker
-    new Worker(
-      job.name,
-      async (bullJob: Job) => {
-        const handler = handlers.get(job.name);
-        if (!handler) throw new Error(`No handler registered for job: ${job.name}`);
-        await handler(bullJob.data);
-      },
-      {
-        connection,
-        concurrency: 5,
-        ...(job.options?.retries && {
-          settings: {
-            backoffStrategy: (attemptsMade: number) => {
-              const delay = job.options?.backoffDelay ?? 1000;
-              return job.options?.backoff === 'exponential'
-                ? delay * Math.pow(2, attemptsMade)
-                : delay;
+    const entry: RegisteredJob = {
+      name: job.name,
+      options: resolveJobOptions(job.options),
+      // Each attempt runs in a span continuing the enqueuer's trace
+      handler: (data: unknown, context = {}) =>
+        withSpan(
+          `job ${job.name}`,
+          async () => {
+            const start = performance.now();
+            try {
+              const parsed = job.schema.parse(data);
+              await job.handler(parsed);
+            } catch (error) {
+              recordQueueJob({ queue: job.name, status: 'failed', durationMs: performance.now() - start });
+              throw error;
+            }
+            recordQueueJob({ queue: job.name, status: 'completed', durationMs: performance.now() - start });
+          },
+          {
+            kind: 'consumer',
+            parent: parseTraceparent(context.traceparent) ?? null,
+            attributes: {
+              'messaging.system': driver.name,
+              'messaging.destination.name': job.name,
+              ...(context.id ? { 'messaging.message.id': context.id } : {}),
             },
           },
-        }),
-      },
+        ),
+    };
+    registered.set(job.name, entry);
+    driver.register(entry);
+  }
+
+  return driver;
+}
+
+function requireJob(name: string): { driver: QueueDriver; entry: RegisteredJob } {
+  const entry = registered.get(name);
+  if (!activeDriver || !entry) {
+    throw new Error(
+      `[AOR] Queue "${name}" not found. Did you call createQueueWorker() with this job?`,
     );
   }
+  return { driver: activeDriver, entry };
 }
 
 /**
@@ -84,26 +156,144 @@ export function createQueueWorker(jobs: JobDefinition<z.ZodType>[]): void {
  *
  * @param jobDef - The job definition (created with defineJob)
  * @param data - Job data matching the job's schema
+ * @param options - Delay, run-at time, priority and idempotency key
+ * @returns The job id assigned by the driver, or the existing job's id when
+ *   the idempotency key was already used within the dedupe window
  */
 export async function enqueue<T extends z.ZodType>(
   jobDef: JobDefinition<T>,
   data: z.infer<T>,
-): Promise<void> {
-  const queue = queues.get(jobDef.name);
-  if (!queue) {
-    throw new Error(
-      `[AOR] Queue "${jobDef.name}" not found. Did you call createQueueWorker() with this job?`,
+  options: EnqueueOptions<z.infer<T>> = {},
+): Promise<string> {
+  const { driver, entry } = requireJob(jobDef.name);
+
+  // Validate data before enqueuing
+  jobDef.schema.parse(data);
+
+  return driver.add(
+    jobDef.name,
+    data,
+    entry.options,
+    resolveEnqueueOptions(jobDef.name, data, jobDef.options, options),
+  );
+}
+
+/**
+ * Enqueue many jobs of one type with the same options, in order.
+ * Every item is validated before any job is added.
+ *
+ * @returns Job ids, in the order of `items`
+ */
+export async function enqueueBatch<T extends z.ZodType>(
+  jobDef: JobDefinition<T>,
+  items: z.infer<T>[],
+  options: EnqueueOptions<z.infer<T>> = {},
+): Promise<string[]> {
+  const { driver, entry } = requireJob(jobDef.name);
+  for (const data of items) jobDef.schema.parse(data);
+
+  const ids: string[] = [];
+  for (const data of items) {
+    ids.push(
+      await driver.add(
+        jobDef.name,
+        data,
+        entry.options,
+        resolveEnqueueOptions(jobDef.name, data, jobDef.options, options),
+      ),
     );
   }
+  return ids;
+}
 
-  // Validate data before enqueuing
+/**
+ * Describe a job in a flow. Its data is validated against the job's schema;
+ * `children` must all complete before the job runs.
+ */
+export function flowJob<T extends z.ZodType>(
+  jobDef: JobDefinition<T>,
+  data: z.infer<T>,
+  options: EnqueueOptions<z.infer<T>> & { children?: FlowJob[] } = {},
+): FlowJob {
+  const { children = [], ...enqueueOptions } = options;
   jobDef.schema.parse(data);
+  return {
+    job: jobDef as unknown as JobDefinition<z.ZodType>,
+    data,
+    options: enqueueOptions as EnqueueOptions,
+    children,
+  };
+}
 
-  await queue.add(jobDef.name, data, {
-    attempts: jobDef.options?.retries ?? 3,
-    backoff: {
-      type: jobDef.options?.backoff ?? 'exponential',
-      delay: jobDef.options?.backoffDelay ?? 1000,
-    },
-  });
+function resolveFlow(flow: FlowJob): FlowNode {
+  const { entry } = requireJob(flow.job.name);
+  return {
+    name: flow.job.name,
+    data: flow.data,
+    options: entry.options,
+    enqueue: resolveEnqueueOptions(flow.job.name, flow.data, flow.job.options, flow.options),
+    children: flow.children.map(resolveFlow),
+  };
+}
+
+/**
+ * Enqueue a flow: children run first, the parent once they all completed.
+ * If a child fails every attempt the parent fails too; replaying the child
+ * from the dead-letter queue puts the parent back to waiting.
+ * An idempotency key on the root job dedupes the whole flow.
+ *
+ * @returns The root job's id
+ */
+export async function enqueueFlow(flow: FlowJob): Promise<string> {
+  const root = resolveFlow(flow);
+  return requireJob(flow.job.name).driver.addFlow(root);
+}
+
+/**
+ * Jobs that failed every attempt, oldest first.
+ *
+ * @param jobDef - Only jobs of this type (default: all)
+ */
+export async function listDeadLetters<T extends z.ZodType>(
+  jobDef?: JobDefinition<T> | string,
+): Promise<JobRecord[]> {
+  const name = typeof jobDef === 'string' ? jobDef : jobDef?.name;
+  if (name) return requireJob(name).driver.deadLetters(name);
+  if (!activeDriver) {
+    throw new Error('[AOR] Queue worker not started. Call createQueueWorker() first.');
+  }
+  return activeDriver.deadLetters();
+}
+
+/**
+ * Move a dead-letter job back to the queue with fresh attempts.
+ */
+export async function replayDeadLetter(id: string): Promise<void> {
+  if (!activeDriver) {
+    throw new Error('[AOR] Queue worker not started. Call createQueueWorker() first.');
+  }
+  await activeDriver.replay(id);
+}
+
+/**
+ * Replay every dead-letter job (of one type).
+ *
+ * @returns Number of jobs replayed
+ */
+export async function replayDeadLetters<T extends z.ZodType>(
+  jobDef?: JobDefinition<T> | string,
+): Promise<number> {
+  const jobs = await listDeadLetters(jobDef);
+  for (const job of jobs) await replayDeadLetter(job.id);
+  return jobs.length;
+}
+
+/**
+ * Stop the active driver and forget registered jobs (shutdown and tests).
+ */
+export async function closeQueueWorker(): Promise<void> {
+  const driver = activeDriver;
+  activeDriver = undefined;
+  registered.clear();
+  await driver?.close();
 }
@@ -0,0 +1,78 @@
+/**
+ * Realtime Adapter
+ *
+ * The pub/sub layer behind channels and `broadcast()`. Every message is
+ * published through the adapter and delivered by each instance to its own
+ * sockets, so a message published on one instance reaches subscribers
+ * connected to any of them. Presence is stored in the adapter too, so
+ * `getPresence()` lists members across instances.
+ *
+ * Adapters:
+ * - `createMemoryRealtimeAdapter()` — in-process (the default; a single instance)
+ * - `createRedisRealtimeAdapter()` — Redis pub/sub via ioredis (several instances)
+ *
+ * Usage:
+ *   import { configureRealtime, createRedisRealtimeAdapter } from '@vibeonrails/infra/realtime';
+ *
+ *   configureRealtime({ adapter: createRedisRealtimeAdapter() }); // at startup
+ */
+
+import { createMemoryRealtimeAdapter } from "./memory.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const REALTIME_ADAPTERS = ["memory", "redis"] as const;
+export type RealtimeAdapterName = (typeof REALTIME_ADAPTERS)[number];
+
+/** Receives the serialized messages published to a channel */
+export type RealtimeListener = (message: string) => void;
+
+export interface RealtimeAdapter {
+  readonly name: RealtimeAdapterName;
+  /** Deliver a serialized message to every listener of the channel, on every instance */
+  publish(channel: string, message: string): Promise<void>;
+  /** Listen to a channel; resolves to a function that stops listening */
+  subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>>;
+  /** Store a client's serialized presence member in a channel */
+  setPresence(channel: string, clientId: string, member: string): Promise<void>;
+  removePresence(channel: string, clientId: string): Promise<void>;
+  /** Serialized presence members of a channel, from every instance */
+  getPresence(channel: string): Promise<string[]>;
+  disconnect(): Promise<void>;
+}
+
+export interface RealtimeConfig {
+  adapter: RealtimeAdapter;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+let current: RealtimeAdapter | undefined;
+
+/**
+ * Set the adapter channels and `broadcast()` publish through. Call it at
+ * startup, before clients connect: listeners already registered with the
+ * previous adapter are not moved.
+ */
+export function configureRealtime(config: RealtimeConfig): void {
+  current = config.adapter;
+}
+
+/**
+ * The adapter in use (default: a process-local memory adapter).
+ */
+export function getRealtimeAdapter(): RealtimeAdapter {
+  current ??= createMemoryRealtimeAdapter();
+  return current;
+}
+
+/**
+ * Go back to the default adapter (for testing).
+ */
+export function resetRealtimeAdapter(): void {
+  current = undefined;
+}
@@ -0,0 +1,184 @@
+/**
+ * Realtime Authentication & Channel Authorization
+ *
+ * `authenticateRealtime()` resolves the user of a connection request with
+ * the core JWT and session validation: a Bearer token, a `token` query
+ * parameter (browsers cannot set headers on a WebSocket) or a session
+ * cookie. The user is kept on the client as `client.user`.
+ *
+ * `authorizeChannel()` registers a hook for the channels matching a
+ * pattern; `{name}` matches one `:`-separated segment and a trailing `*`
+ * matches the rest. The first matching pattern decides. Channels no
+ * pattern matches are open to every connection.
+ *
+ * Usage:
+ *   import { authenticateRealtime, authorizeChannel } from '@vibeonrails/infra/realtime';
+ *
+ *   const user = await authenticateRealtime(request, { sessions });
+ *
+ *   authorizeChannel('user:{id}', ({ user, params }) => user?.id === params.id);
+ *   authorizeChannel('admin:*', ({ user }) => user?.role === 'admin');
+ */
+
+import { verifyToken, type SessionManager } from "@vibeonrails/core/security";
+import type { WebSocketClient } from "./server.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RealtimeUser {
+  id: string;
+  role: string;
+  email?: string;
+}
+
+export interface RealtimeAuthOptions {
+  /** Validate a session cookie when there is no token */
+  sessions?: SessionManager;
+  /** Session cookie name (default: 'session') */
+  cookie?: string;
+  /** Query parameter holding a JWT (default: 'token') */
+  queryParam?: string;
+}
+
+export interface RealtimeAuthResult {
+  user: RealtimeUser | null;
+  /** Where the user came from; cookies are sent on cross-site requests too */
+  source: "token" | "cookie" | null;
+}
+
+export type ChannelAction = "subscribe" | "publish";
+
+export interface ChannelAuthContext {
+  channel: string;
+  action: ChannelAction;
+  /** Values of the pattern's `{name}` segments */
+  params: Record<string, string>;
+  user: RealtimeUser | null;
+  client: WebSocketClient;
+}
+
+export type ChannelAuthorizer = (context: ChannelAuthContext) => boolean | Promise<boolean>;
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+function readCookie(header: string | null, name: string): string | undefined {
+  for (const part of header?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join("="));
+    } catch {
+      // Malformed escape — treat as no session
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the user of a connection request, or null when it carries no
+ * valid token or session.
+ */
+export async function authenticateRealtime(
+  request: Request,
+  options: RealtimeAuthOptions = {},
+): Promise<RealtimeUser | null> {
+  return (await resolveRealtimeAuth(request, options)).user;
+}
+
+/**
+ * Like `authenticateRealtime()`, also telling whether the user came from a
+ * token or the session cookie.
+ */
+export async function resolveRealtimeAuth(
+  request: Request,
+  options: RealtimeAuthOptions = {},
+): Promise<RealtimeAuthResult> {
+  const header = request.headers.get("authorization");
+  const token = header?.startsWith("Bearer ")
+    ? header.slice(7)
+    : new URL(request.url).searchParams.get(options.queryParam ?? "token");
+
+  if (token) {
+    try {
+      const payload = await verifyToken(token);
+      return { user: { id: payload.sub, role: payload.role, email: payload.email }, source: "token" };
+    } catch {
+      // Invalid or expired token — treat as unauthenticated
+      return { user: null, source: null };
+    }
+  }
+
+  const sessionId = options.sessions && readCookie(request.headers.get("cookie"), options.cookie ?? "session");
+  if (options.sessions && sessionId) {
+    const session = await options.sessions.validate(sessionId);
+    if (session && session.expiresAt > Date.now()) {
+      return { user: { id: session.userId, role: session.role }, source: "cookie" };
+    }
+  }
+  return { user: null, source: null };
+}
+
+// ---------------------------------------------------------------------------
+// Channel authorization
+// ---------------------------------------------------------------------------
+
+interface ChannelRule {
+  pattern: RegExp;
+  names: string[];
+  authorize: ChannelAuthorizer;
+}
+
+const rules: ChannelRule[] = [];
+
+function compilePattern(pattern: string): Pick<ChannelRule, "pattern" | "names"> {
+  const names: string[] = [];
+  const source = pattern
+    .split(/(\{\w+\}|\*$)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      const param = /^\{(\w+)\}$/.exec(part);
+      if (param) {
+        names.push(param[1]!);
+        return "([^:]+)";
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return { pattern: new RegExp(`^${source}$`), names };
+}
+
+/**
+ * Authorize subscribing and publishing to the channels matching `pattern`.
+ */
+export function authorizeChannel(pattern: string, authorize: ChannelAuthorizer): void {
+  rules.push({ ...compilePattern(pattern), authorize });
+}
+
+/**
+ * Whether a client may subscribe or publish to a channel.
+ */
+export async function canAccessChannel(
+  client: WebSocketClient,
+  channel: string,
+  action: ChannelAction = "subscribe",
+): Promise<boolean> {
+  for (const rule of rules) {
+    const match = rule.pattern.exec(channel);
+    if (!match) continue;
+    const params = Object.fromEntries(rule.names.map((name, index) => [name, match[index + 1]!]));
+    return rule.authorize({ channel, action, params, user: client.user ?? null, client });
+  }
+  return true;
+}
+
+/**
+ * Remove every channel authorizer (for testing).
+ */
+export function clearChannelAuthorizers(): void {
+  rules.length = 0;
+}
@@ -2,9 +2,63 @@
  * Channel Subscription Management
  *
  * Subscribe clients to channels, broadcast to channels, unsubscribe.
+ *
+ * `subscribe()` and friends track this instance's subscriptions only.
+ * `joinChannel()` also checks the channel's authorizer, listens to the
+ * channel on the realtime adapter and records presence; `publish()` sends
+ * through the adapter, so subscribers on every instance receive it.
+ *
+ * Presence changes are published to the channel as `presence.join` and
+ * `presence.leave` messages with the member as payload.
+ *
+ * Usage:
+ *   import { joinChannel, leaveAllChannels, publish, getPresence } from '@vibeonrails/infra/realtime';
+ *
+ *   if (!(await joinChannel(client, 'room:42', { presence: { name: 'Ada' } }))) client.close();
+ *   await publish('room:42', { type: 'chat', payload: { text: 'hi' } }, { except: client.id });
+ *   const members = await getPresence('room:42');
+ *   await leaveAllChannels(client.id); // on disconnect
  */
 
+import { getRealtimeAdapter } from "./adapter.js";
+import { canAccessChannel } from "./auth.js";
+import { getClient, type WebSocketClient, type WebSocketMessage } from "./server.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PresenceMember {
+  clientId: string;
+  userId?: string;
+  /** Data passed to `joinChannel()`, e.g. a display name */
+  data?: Record<string, unknown>;
+  joinedAt: string;
+}
+
+export interface JoinChannelOptions {
+  /** Track presence, optionally with member data (default: true) */
+  presence?: boolean | Record<string, unknown>;
+}
+
+export interface PublishOptions {
+  /** Client not to deliver to, e.g. the sender */
+  except?: string;
+}
+
+/** What travels through the adapter */
+interface ChannelEnvelope {
+  message: WebSocketMessage;
+  except?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Local subscriptions
+// ---------------------------------------------------------------------------
+
 const channels = new Map<string, Set<string>>(); // channel -> clientIds
+const listening = new Map<string, Promise<() => Promise<void>>>(); // channel -> stop listening on the adapter
+const present = new Map<string, Map<string, PresenceMember>>(); // channel -> this instance's members
 
 /**
  * Subscribe a client to a channel.
@@ -60,4 +114,116 @@ export function getChannels(): string[] {
  */
 export function clearChannels(): void {
   channels.clear();
+  for (const stop of listening.values()) void stop.then((fn) => fn()).catch(() => {});
+  listening.clear();
+  present.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Across instances
+// ---------------------------------------------------------------------------
+
+/** Adapter channel of a realtime channel */
+const adapterChannel = (channel: string) => `channel:${channel}`;
+
+function deliver(channel: string, raw: string): void {
+  const { message, except } = JSON.parse(raw) as ChannelEnvelope;
+  const data = JSON.stringify(message);
+  for (const clientId of getSubscribers(channel)) {
+    if (clientId !== except) getClient(clientId)?.send(data);
+  }
+}
+
+async function listen(channel: string): Promise<void> {
+  let stop = listening.get(channel);
+  if (!stop) {
+    stop = getRealtimeAdapter().subscribe(adapterChannel(channel), (raw) => deliver(channel, raw));
+    listening.set(channel, stop);
+    stop.catch(() => listening.delete(channel));
+  }
+  await stop;
+}
+
+async function stopListening(channel: string): Promise<void> {
+  const stop = listening.get(channel);
+  if (!stop || channels.has(channel)) return;
+  listening.delete(channel);
+  await (await stop)();
+}
+
+/**
+ * Send a message to a channel's subscribers on every instance.
+ */
+export async function publish(
+  channel: string,
+  message: WebSocketMessage,
+  options: PublishOptions = {},
+): Promise<void> {
+  const envelope: ChannelEnvelope = { message: { ...message, channel }, except: options.except };
+  await getRealtimeAdapter().publish(adapterChannel(channel), JSON.stringify(envelope));
+}
+
+/**
+ * Subscribe a client to a channel if its authorizer allows it, and record
+ * its presence. Resolves to false when access is denied.
+ */
+export async function joinChannel(
+  client: WebSocketClient,
+  channel: string,
+  options: JoinChannelOptions = {},
+): Promise<boolean> {
+  if (!(await canAccessChannel(client, channel, "subscribe"))) return false;
+
+  subscribe(channel, client.id);
+  await listen(channel);
+
+  const presence = options.presence ?? true;
+  if (presence === false || present.get(channel)?.has(client.id)) return true;
+  const member: PresenceMember = {
+    clientId: client.id,
+    userId: client.user?.id,
+    data: presence === true ? undefined : presence,
+    joinedAt: new Date().toISOString(),
+  };
+  if (!present.has(channel)) present.set(channel, new Map());
+  present.get(channel)!.set(client.id, member);
+  await getRealtimeAdapter().setPresence(channel, client.id, JSON.stringify(member));
+  await publish(channel, { type: "presence.join", payload: member });
+  return true;
+}
+
+/**
+ * Unsubscribe a client from a channel and remove its presence.
+ */
+export async function leaveChannel(channel: string, clientId: string): Promise<void> {
+  unsubscribe(channel, clientId);
+
+  const members = present.get(channel);
+  const member = members?.get(clientId);
+  if (members && member) {
+    members.delete(clientId);
+    if (members.size === 0) present.delete(channel);
+    await getRealtimeAdapter().removePresence(channel, clientId);
+    await publish(channel, { type: "presence.leave", payload: member });
+  }
+  await stopListening(channel);
+}
+
+/**
+ * Leave every channel a client joined (e.g., on disconnect).
+ */
+export async function leaveAllChannels(clientId: string): Promise<void> {
+  const joined = [...channels].filter(([, subs]) => subs.has(clientId)).map(([channel]) => channel);
+  for (const [channel, members] of present) {
+    if (members.has(clientId) && !joined.includes(channel)) joined.push(channel);
+  }
+  await Promise.all(joined.map((channel) => leaveChannel(channel, clientId)));
+}
+
+/**
+ * The members present in a channel, on every instance.
+ */
+export async function getPresence(channel: string): Promise<PresenceMember[]> {
+  const members = await getRealtimeAdapter().getPresence(channel);
+  return members.map((raw) => JSON.parse(raw) as PresenceMember);
 }
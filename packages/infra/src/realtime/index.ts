@@ -18,4 +18,47 @@ export {
   getSubscribers,
   getChannels,
   clearChannels,
+  publish,
+  joinChannel,
+  leaveChannel,
+  leaveAllChannels,
+  getPresence,
 } from "./channels.js";
+export type { PresenceMember, JoinChannelOptions, PublishOptions } from "./channels.js";
+
+export {
+  REALTIME_ADAPTERS,
+  configureRealtime,
+  getRealtimeAdapter,
+  resetRealtimeAdapter,
+} from "./adapter.js";
+export type { RealtimeAdapter, RealtimeAdapterName, RealtimeConfig, RealtimeListener } from "./adapter.js";
+export { createMemoryRealtimeAdapter } from "./memory.js";
+export { createRedisRealtimeAdapter } from "./redis.js";
+export type { RealtimeRedisLike, RedisRealtimeAdapterConfig } from "./redis.js";
+
+export {
+  authenticateRealtime,
+  resolveRealtimeAuth,
+  authorizeChannel,
+  canAccessChannel,
+  clearChannelAuthorizers,
+} from "./auth.js";
+export type {
+  RealtimeUser,
+  RealtimeAuthOptions,
+  RealtimeAuthResult,
+  ChannelAction,
+  ChannelAuthContext,
+  ChannelAuthorizer,
+} from "./auth.js";
+
+export {
+  RESERVED_MESSAGE_TYPES,
+  defineRealtimeMessages,
+  parseClientMessage,
+} from "./protocol.js";
+export type { RealtimeMessageSchemas, InferRealtimeMessages, ParsedClientMessage } from "./protocol.js";
+
+export { createRealtimeRoutes, PING_TIMEOUT_CLOSE_CODE } from "./route.js";
+export type { RealtimeRoutesOptions } from "./route.js";
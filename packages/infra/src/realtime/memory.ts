@@ -0,0 +1,58 @@
+/**
+ * In-Memory Realtime Adapter
+ *
+ * Delivers messages to listeners in the same process, synchronously, and
+ * keeps presence in a Map. Messages never leave the process: use it for a
+ * single instance, `vibe dev` and tests.
+ */
+
+import type { RealtimeAdapter, RealtimeListener } from "./adapter.js";
+
+/**
+ * Create an in-process realtime adapter.
+ */
+export function createMemoryRealtimeAdapter(): RealtimeAdapter {
+  const listeners = new Map<string, Set<RealtimeListener>>();
+  const presence = new Map<string, Map<string, string>>(); // channel -> clientId -> member
+
+  return {
+    name: "memory",
+
+    async publish(channel, message) {
+      for (const listener of [...(listeners.get(channel) ?? [])]) listener(message);
+    },
+
+    async subscribe(channel, listener) {
+      if (!listeners.has(channel)) listeners.set(channel, new Set());
+      // Wrap so the same function can listen twice and be removed once
+      const entry: RealtimeListener = (message) => listener(message);
+      listeners.get(channel)!.add(entry);
+
+      return async () => {
+        const set = listeners.get(channel);
+        set?.delete(entry);
+        if (set?.size === 0) listeners.delete(channel);
+      };
+    },
+
+    async setPresence(channel, clientId, member) {
+      if (!presence.has(channel)) presence.set(channel, new Map());
+      presence.get(channel)!.set(clientId, member);
+    },
+
+    async removePresence(channel, clientId) {
+      const members = presence.get(channel);
+      members?.delete(clientId);
+      if (members?.size === 0) presence.delete(channel);
+    },
+
+    async getPresence(channel) {
+      return [...(presence.get(channel)?.values() ?? [])];
+    },
+
+    async disconnect() {
+      listeners.clear();
+      presence.clear();
+    },
+  };
+}
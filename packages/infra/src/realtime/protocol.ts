@@ -0,0 +1,117 @@
+/**
+ * Realtime Protocol
+ *
+ * Frames exchanged with browsers over the WebSocket or SSE fallback are
+ * JSON `{ type, channel?, payload? }`. Control types:
+ *
+ * - Client to server: `subscribe` (payload: presence data), `unsubscribe`,
+ *   `ping`, `pong`
+ * - Server to client: `ready` (SSE, payload: `{ clientId }`), `subscribed`
+ *   (payload: `{ presence }`), `unsubscribed`, `error` (payload:
+ *   `{ message }`), `ping`, `pong`, `presence.join`, `presence.leave`
+ *
+ * Every other type is an application message. Its payload is validated
+ * with the Zod schema registered for the type, so handlers and subscribers
+ * only see well-formed payloads; types without a schema are rejected.
+ *
+ * Usage:
+ *   import { z } from 'zod';
+ *   import { defineRealtimeMessages, type InferRealtimeMessages } from '@vibeonrails/infra/realtime';
+ *
+ *   export const messages = defineRealtimeMessages({
+ *     chat: z.object({ text: z.string().min(1).max(2000) }),
+ *     typing: z.object({ typing: z.boolean() }),
+ *   });
+ *   export type AppMessages = InferRealtimeMessages<typeof messages>; // for createRealtimeClient<AppMessages>()
+ */
+
+import { z } from "zod";
+import type { WebSocketMessage } from "./server.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Zod schema of the payload, by message type */
+export type RealtimeMessageSchemas = Record<string, z.ZodTypeAny>;
+
+/** Payload types by message type */
+export type InferRealtimeMessages<T extends RealtimeMessageSchemas> = { [K in keyof T]: z.infer<T[K]> };
+
+export type ParsedClientMessage = { ok: true; message: WebSocketMessage } | { ok: false; error: string };
+
+/** Types the protocol itself uses, in either direction */
+export const RESERVED_MESSAGE_TYPES: readonly string[] = [
+  "subscribe",
+  "unsubscribe",
+  "subscribed",
+  "unsubscribed",
+  "ready",
+  "error",
+  "ping",
+  "pong",
+  "presence.join",
+  "presence.leave",
+];
+
+const frameSchema = z.object({
+  type: z.string().min(1).max(100),
+  channel: z.string().min(1).max(200).optional(),
+  payload: z.unknown().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/**
+ * Declare the application message types and their payload schemas.
+ */
+export function defineRealtimeMessages<T extends RealtimeMessageSchemas>(schemas: T): T {
+  for (const type of Object.keys(schemas)) {
+    if (RESERVED_MESSAGE_TYPES.includes(type)) {
+      throw new Error(
+        `[AOR] Realtime message type "${type}" is reserved by the protocol.\n` +
+          `  Fix: Rename it; reserved types are ${RESERVED_MESSAGE_TYPES.join(", ")}.`,
+      );
+    }
+  }
+  return schemas;
+}
+
+/**
+ * Parse and validate a frame sent by a client.
+ */
+export function parseClientMessage(raw: string, schemas: RealtimeMessageSchemas = {}): ParsedClientMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Invalid JSON" };
+  }
+
+  const frame = frameSchema.safeParse(data);
+  if (!frame.success) return { ok: false, error: "Expected { type, channel?, payload? }" };
+  const message = frame.data;
+
+  switch (message.type) {
+    case "subscribe":
+    case "unsubscribe":
+      return message.channel ? { ok: true, message } : { ok: false, error: `"${message.type}" needs a channel` };
+    case "ping":
+    case "pong":
+      return { ok: true, message };
+  }
+
+  const schema = schemas[message.type];
+  if (!schema || RESERVED_MESSAGE_TYPES.includes(message.type)) {
+    return { ok: false, error: `Unknown message type "${message.type}"` };
+  }
+  const payload = schema.safeParse(message.payload);
+  if (!payload.success) {
+    const issue = payload.error.issues[0]!;
+    const path = issue.path.length > 0 ? `payload.${issue.path.join(".")}: ` : "payload: ";
+    return { ok: false, error: `Invalid "${message.type}" ${path}${issue.message}` };
+  }
+  return { ok: true, message: { ...message, payload: payload.data } };
+}
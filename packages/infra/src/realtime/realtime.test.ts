@@ -1,4 +1,5 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createMemorySessionStore, createSessionManager, signAccessToken } from "@vibeonrails/core/security";
 import {
   registerClient,
   removeClient,
@@ -16,7 +17,15 @@ import {
   getSubscribers,
   getChannels,
   clearChannels,
+  publish,
+  joinChannel,
+  leaveChannel,
+  leaveAllChannels,
+  getPresence,
 } from "./channels.js";
+import { resetRealtimeAdapter } from "./adapter.js";
+import { authenticateRealtime, authorizeChannel, canAccessChannel, clearChannelAuthorizers } from "./auth.js";
+import { createMemoryRealtimeAdapter } from "./memory.js";
 
 function mockClient(id: string) {
   return { id, send: vi.fn(), close: vi.fn() };
@@ -106,3 +115,133 @@ describe("Channels", () => {
     expect(getChannels()).toEqual(["a", "b"]);
   });
 });
+
+describe("Channel pub/sub", () => {
+  beforeEach(() => {
+    resetWebSocket();
+    clearChannels();
+    clearChannelAuthorizers();
+    resetRealtimeAdapter();
+  });
+
+  it("delivers published messages to a channel's subscribers, except the sender", async () => {
+    const c1 = mockClient("c1");
+    const c2 = mockClient("c2");
+    registerClient(c1);
+    registerClient(c2);
+    await joinChannel(c1, "room:1", { presence: false });
+    await joinChannel(c2, "room:1", { presence: false });
+
+    await publish("room:1", { type: "chat", payload: "hi" }, { except: "c1" });
+
+    expect(c1.send).not.toHaveBeenCalled();
+    expect(c2.send).toHaveBeenCalledWith(JSON.stringify({ type: "chat", payload: "hi", channel: "room:1" }));
+  });
+
+  it("fans out messages, broadcasts and presence between instances sharing an adapter", async () => {
+    const adapter = createMemoryRealtimeAdapter();
+    vi.resetModules();
+    const a = await import("./index.js");
+    vi.resetModules();
+    const b = await import("./index.js");
+    a.configureRealtime({ adapter });
+    b.configureRealtime({ adapter });
+
+    const onA = mockClient("a1");
+    const onB = mockClient("b1");
+    a.registerClient(onA);
+    b.registerClient(onB);
+    await a.joinChannel(onA, "room:1");
+    await b.joinChannel(onB, "room:1", { presence: { name: "Ada" } });
+
+    await a.publish("room:1", { type: "chat", payload: "from a" });
+    expect(onB.send).toHaveBeenCalledWith(JSON.stringify({ type: "chat", payload: "from a", channel: "room:1" }));
+
+    a.broadcast({ type: "deploy" });
+    expect(onB.send).toHaveBeenCalledWith(JSON.stringify({ type: "deploy" }));
+
+    const members = await a.getPresence("room:1");
+    expect(members.map((m) => m.clientId)).toEqual(["a1", "b1"]);
+    expect(members[1]!.data).toEqual({ name: "Ada" });
+  });
+
+  it("publishes presence join and leave events", async () => {
+    const c1 = mockClient("c1");
+    const c2 = Object.assign(mockClient("c2"), { user: { id: "u2", role: "user" } });
+    registerClient(c1);
+    registerClient(c2);
+    await joinChannel(c1, "room:1");
+    await joinChannel(c2, "room:1");
+
+    const events = () =>
+      c1.send.mock.calls.map(([data]) => JSON.parse(data as string) as { type: string; payload: { clientId: string } });
+    expect(events().at(-1)).toMatchObject({ type: "presence.join", payload: { clientId: "c2", userId: "u2" } });
+
+    await leaveAllChannels("c2");
+    expect(events().at(-1)).toMatchObject({ type: "presence.leave", payload: { clientId: "c2" } });
+    expect((await getPresence("room:1")).map((m) => m.clientId)).toEqual(["c1"]);
+    expect(getSubscribers("room:1")).toEqual(["c1"]);
+  });
+
+  it("stops delivering to a channel once its last local subscriber leaves", async () => {
+    const c1 = mockClient("c1");
+    registerClient(c1);
+    await joinChannel(c1, "room:1", { presence: false });
+    await leaveChannel("room:1", "c1");
+
+    await publish("room:1", { type: "chat" });
+    expect(c1.send).not.toHaveBeenCalled();
+    expect(getChannels()).toHaveLength(0);
+  });
+
+  it("checks channel authorizers with pattern params", async () => {
+    authorizeChannel("user:{id}", ({ user, params }) => user?.id === params.id);
+    authorizeChannel("admin:*", ({ user }) => user?.role === "admin");
+    const client = Object.assign(mockClient("c1"), { user: { id: "u1", role: "user" } });
+    registerClient(client);
+
+    expect(await joinChannel(client, "user:u1")).toBe(true);
+    expect(await joinChannel(client, "user:u2")).toBe(false);
+    expect(await joinChannel(client, "admin:audit:log")).toBe(false);
+    expect(await canAccessChannel(client, "room:open", "publish")).toBe(true);
+    expect(getSubscribers("user:u2")).toHaveLength(0);
+  });
+});
+
+describe("authenticateRealtime", () => {
+  beforeEach(() => {
+    vi.stubEnv("JWT_SECRET", "a-test-secret-that-is-at-least-32-characters");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a Bearer token or a token query parameter", async () => {
+    const token = await signAccessToken({ id: "u1", email: "ada@example.com", role: "admin" });
+
+    const fromHeader = await authenticateRealtime(
+      new Request("https://app.test/ws", { headers: { authorization: `Bearer ${token}` } }),
+    );
+    const fromQuery = await authenticateRealtime(new Request(`https://app.test/ws?token=${token}`));
+
+    expect(fromHeader).toEqual({ id: "u1", role: "admin", email: "ada@example.com" });
+    expect(fromQuery).toEqual(fromHeader);
+    expect(await authenticateRealtime(new Request("https://app.test/ws?token=forged"))).toBeNull();
+  });
+
+  it("falls back to a session cookie", async () => {
+    const sessions = createSessionManager(createMemorySessionStore());
+    const sessionId = await sessions.create("u2", "user");
+
+    const user = await authenticateRealtime(
+      new Request("https://app.test/ws", { headers: { cookie: `theme=dark; session=${sessionId}` } }),
+      { sessions },
+    );
+
+    expect(user).toEqual({ id: "u2", role: "user" });
+    expect(await authenticateRealtime(new Request("https://app.test/ws"), { sessions })).toBeNull();
+    const malformed = new Request("https://app.test/ws", { headers: { cookie: "session=%E0%A4%A" } });
+    expect(await authenticateRealtime(malformed, { sessions })).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { createRedisRealtimeAdapter, type RealtimeRedisLike } from "./redis.js";
+
+function fakeRedis() {
+  const hashes = new Map<string, Map<string, string>>();
+  const keys = new Set<string>();
+  let onMessage: ((channel: string, message: string) => void) | undefined;
+
+  const redis = {
+    publish: vi.fn(async () => 1),
+    subscribe: vi.fn(async () => 1),
+    unsubscribe: vi.fn(async () => 0),
+    on: vi.fn((_event: "message", listener: (channel: string, message: string) => void) => {
+      onMessage = listener;
+    }),
+    hset: vi.fn(async (key: string, field: string, value: string) => {
+      if (!hashes.has(key)) hashes.set(key, new Map());
+      const added = hashes.get(key)!.has(field) ? 0 : 1;
+      hashes.get(key)!.set(field, value);
+      return added;
+    }),
+    hdel: vi.fn(async (key: string, ...fields: string[]) => fields.filter((f) => hashes.get(key)?.delete(f)).length),
+    hgetall: vi.fn(async (key: string) => Object.fromEntries(hashes.get(key) ?? [])),
+    set: vi.fn(async (key: string) => keys.add(key)),
+    exists: vi.fn(async (...names: string[]) => names.filter((k) => keys.has(k)).length),
+    del: vi.fn(async (...names: string[]) => names.filter((k) => keys.delete(k)).length),
+    quit: vi.fn(async () => "OK"),
+  } satisfies RealtimeRedisLike;
+
+  return { redis, hashes, receive: (channel: string, message: string) => onMessage?.(channel, message) };
+}
+
+describe("Redis realtime adapter", () => {
+  it("publishes with the prefix and subscribes once per channel", async () => {
+    const client = fakeRedis();
+    const subscriber = fakeRedis();
+    const adapter = createRedisRealtimeAdapter({ client: client.redis, subscriber: subscriber.redis });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const stopFirst = await adapter.subscribe("room", first);
+    const stopSecond = await adapter.subscribe("room", second);
+    await adapter.publish("room", "hello");
+    subscriber.receive("realtime:room", "hello");
+    subscriber.receive("realtime:other", "ignored");
+
+    expect(client.redis.publish).toHaveBeenCalledWith("realtime:room", "hello");
+    expect(subscriber.redis.subscribe).toHaveBeenCalledOnce();
+    expect(first).toHaveBeenCalledWith("hello");
+    expect(second).toHaveBeenCalledWith("hello");
+
+    await stopFirst();
+    expect(subscriber.redis.unsubscribe).not.toHaveBeenCalled();
+    await stopSecond();
+    expect(subscriber.redis.unsubscribe).toHaveBeenCalledWith("realtime:room");
+    await adapter.disconnect();
+  });
+
+  it("lists presence across instances and drops members of dead instances", async () => {
+    const client = fakeRedis();
+    const adapter = createRedisRealtimeAdapter({ client: client.redis, subscriber: fakeRedis().redis });
+
+    await adapter.setPresence("room", "c1", '{"clientId":"c1"}');
+    client.hashes.get("realtime:presence:room")!.set("crashed-instance:c9", '{"clientId":"c9"}');
+
+    expect(await adapter.getPresence("room")).toEqual(['{"clientId":"c1"}']);
+    expect(client.redis.hdel).toHaveBeenCalledWith("realtime:presence:room", "crashed-instance:c9");
+    expect(client.redis.set).toHaveBeenCalledWith(expect.stringMatching(/^realtime:instance:/), "1", "EX", 30);
+
+    await adapter.disconnect();
+    expect(client.hashes.get("realtime:presence:room")!.size).toBe(0);
+    expect(client.redis.quit).toHaveBeenCalled();
+  });
+});
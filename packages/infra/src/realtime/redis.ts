@@ -0,0 +1,179 @@
+/**
+ * Redis Realtime Adapter
+ *
+ * Fans channel messages out across instances with Redis pub/sub. A second
+ * connection is used for SUBSCRIBE (a subscribed Redis connection cannot
+ * run other commands); each channel is subscribed once per instance, while
+ * it has local listeners.
+ *
+ * Presence members live in one hash per channel, with fields
+ * `<instanceId>:<clientId>`. Each instance refreshes a heartbeat key while
+ * it has members; members of an instance whose heartbeat expired (it
+ * crashed or was killed) are dropped on the next `getPresence()`.
+ *
+ * Usage:
+ *   import { configureRealtime, createRedisRealtimeAdapter } from '@vibeonrails/infra/realtime';
+ *
+ *   configureRealtime({ adapter: createRedisRealtimeAdapter({ url: process.env.REDIS_URL }) });
+ */
+
+import { randomUUID } from "node:crypto";
+import Redis from "ioredis";
+import type { RealtimeAdapter, RealtimeListener } from "./adapter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of ioredis the adapter uses. */
+export interface RealtimeRedisLike {
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(...channels: string[]): Promise<unknown>;
+  unsubscribe(...channels: string[]): Promise<unknown>;
+  on(event: "message", listener: (channel: string, message: string) => void): unknown;
+  hset(key: string, field: string, value: string): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  set(key: string, value: string, mode: "EX", seconds: number): Promise<unknown>;
+  exists(...keys: string[]): Promise<number>;
+  del(...keys: string[]): Promise<number>;
+  quit(): Promise<unknown>;
+}
+
+export interface RedisRealtimeAdapterConfig {
+  /** Redis connection URL (default: REDIS_URL) */
+  url?: string;
+  /** Connection for PUBLISH and presence (default: new Redis(url)) */
+  client?: RealtimeRedisLike;
+  /** Connection used only for SUBSCRIBE (default: new Redis(url)) */
+  subscriber?: RealtimeRedisLike;
+  /** Prefix for pub/sub channels and keys (default: 'realtime:') */
+  prefix?: string;
+  /** Seconds an instance's presence outlives its last heartbeat (default: 30) */
+  presenceTtl?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+function connect(url = process.env.REDIS_URL): RealtimeRedisLike {
+  if (!url) {
+    throw new Error(
+      "[AOR] REDIS_URL environment variable is required for the Redis realtime adapter.\n" +
+        "  Fix: Add REDIS_URL to your .env file, or keep the default memory adapter for a single instance.\n" +
+        "  Example: REDIS_URL=redis://localhost:6379",
+    );
+  }
+  return new Redis(url);
+}
+
+/**
+ * Create a Redis pub/sub realtime adapter.
+ */
+export function createRedisRealtimeAdapter(config: RedisRealtimeAdapterConfig = {}): RealtimeAdapter {
+  const client = config.client ?? connect(config.url);
+  const subscriber = config.subscriber ?? connect(config.url);
+  const prefix = config.prefix ?? "realtime:";
+  const presenceTtl = config.presenceTtl ?? 30;
+  const instanceId = randomUUID();
+  const heartbeatKey = (id: string) => `${prefix}instance:${id}`;
+  const presenceKey = (channel: string) => `${prefix}presence:${channel}`;
+
+  const listeners = new Map<string, Set<RealtimeListener>>(); // prefixed channel -> listeners
+  const ownPresence = new Map<string, number>(); // channel -> members of this instance
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  subscriber.on("message", (channel, message) => {
+    for (const listener of [...(listeners.get(channel) ?? [])]) listener(message);
+  });
+
+  async function beat(): Promise<void> {
+    await client.set(heartbeatKey(instanceId), "1", "EX", presenceTtl);
+  }
+
+  async function startHeartbeat(): Promise<void> {
+    if (heartbeat) return;
+    heartbeat = setInterval(() => {
+      beat().catch((error: unknown) => {
+        console.error(
+          `[AOR] Realtime presence heartbeat failed: ${error instanceof Error ? error.message : String(error)}\n` +
+            "  Fix: Check the Redis connection; this instance's members disappear from presence until it recovers.",
+        );
+      });
+    }, (presenceTtl * 1000) / 3);
+    heartbeat.unref?.();
+    await beat();
+  }
+
+  return {
+    name: "redis",
+
+    async publish(channel, message) {
+      await client.publish(`${prefix}${channel}`, message);
+    },
+
+    async subscribe(channel, listener) {
+      const key = `${prefix}${channel}`;
+      const entry: RealtimeListener = (message) => listener(message);
+      let set = listeners.get(key);
+      if (!set) {
+        set = new Set();
+        listeners.set(key, set);
+        await subscriber.subscribe(key);
+      }
+      set.add(entry);
+
+      return async () => {
+        const current = listeners.get(key);
+        current?.delete(entry);
+        if (current?.size === 0) {
+          listeners.delete(key);
+          await subscriber.unsubscribe(key);
+        }
+      };
+    },
+
+    async setPresence(channel, clientId, member) {
+      await startHeartbeat();
+      const added = await client.hset(presenceKey(channel), `${instanceId}:${clientId}`, member);
+      if (added) ownPresence.set(channel, (ownPresence.get(channel) ?? 0) + 1);
+    },
+
+    async removePresence(channel, clientId) {
+      const removed = await client.hdel(presenceKey(channel), `${instanceId}:${clientId}`);
+      const count = (ownPresence.get(channel) ?? 0) - removed;
+      if (count > 0) ownPresence.set(channel, count);
+      else ownPresence.delete(channel);
+    },
+
+    async getPresence(channel) {
+      const entries = Object.entries(await client.hgetall(presenceKey(channel)));
+      const instances = [...new Set(entries.map(([field]) => field.slice(0, field.indexOf(":"))))];
+      const alive = new Set<string>();
+      for (const id of instances) {
+        if (id === instanceId || (await client.exists(heartbeatKey(id))) === 1) alive.add(id);
+      }
+
+      const stale = entries.filter(([field]) => !alive.has(field.slice(0, field.indexOf(":"))));
+      if (stale.length > 0) await client.hdel(presenceKey(channel), ...stale.map(([field]) => field));
+      return entries.filter(([field]) => alive.has(field.slice(0, field.indexOf(":")))).map(([, member]) => member);
+    },
+
+    async disconnect() {
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = undefined;
+      for (const channel of ownPresence.keys()) {
+        const fields = Object.keys(await client.hgetall(presenceKey(channel))).filter((field) =>
+          field.startsWith(`${instanceId}:`),
+        );
+        if (fields.length > 0) await client.hdel(presenceKey(channel), ...fields);
+      }
+      ownPresence.clear();
+      await client.del(heartbeatKey(instanceId));
+      listeners.clear();
+      await subscriber.quit();
+      await client.quit();
+    },
+  };
+}
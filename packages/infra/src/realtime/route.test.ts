@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { z } from "zod";
+import { createMemorySessionStore, createSessionManager } from "@vibeonrails/core/security";
+import { createWSMessageEvent, defineWebSocketHelper, WSContext, type WSEvents } from "hono/ws";
+import { resetRealtimeAdapter } from "./adapter.js";
+import { authorizeChannel, clearChannelAuthorizers } from "./auth.js";
+import { clearChannels, publish } from "./channels.js";
+import { defineRealtimeMessages, parseClientMessage } from "./protocol.js";
+import { createRealtimeRoutes, PING_TIMEOUT_CLOSE_CODE, type RealtimeRoutesOptions } from "./route.js";
+import { onMessage, resetWebSocket } from "./server.js";
+
+const messages = defineRealtimeMessages({
+  chat: z.object({ text: z.string().min(1) }),
+});
+
+interface FakeSocket {
+  sent: { type: string; channel?: string; payload?: unknown }[];
+  closed: number | undefined;
+  receive(frame: unknown): void;
+  close(): void;
+}
+
+/** Runs the upgrade handlers against in-memory sockets */
+function fakeUpgrade() {
+  const sockets: FakeSocket[] = [];
+  const upgradeWebSocket = defineWebSocketHelper(async (_c, events: WSEvents) => {
+    const socket: FakeSocket = {
+      sent: [],
+      closed: undefined,
+      receive: (frame) => events.onMessage?.(createWSMessageEvent(JSON.stringify(frame)), ws),
+      close: () => events.onClose?.(new Event("close") as CloseEvent, ws),
+    };
+    const ws = new WSContext({
+      readyState: 1,
+      send: (data) => socket.sent.push(JSON.parse(String(data)) as FakeSocket["sent"][number]),
+      close: (code) => {
+        socket.closed = code ?? 1000;
+      },
+    });
+    sockets.push(socket);
+    events.onOpen?.(new Event("open"), ws);
+    // Runtimes answer 101; Node's Response only allows 200-599
+    return new Response(null, { status: 200 });
+  });
+  return { upgradeWebSocket, sockets };
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+async function connect(options: Omit<RealtimeRoutesOptions, "upgradeWebSocket"> = {}, count = 1) {
+  const { upgradeWebSocket, sockets } = fakeUpgrade();
+  const app = createRealtimeRoutes({ upgradeWebSocket, messages, ...options });
+  for (let i = 0; i < count; i++) await app.request("/");
+  return { app, sockets };
+}
+
+describe("parseClientMessage", () => {
+  it("validates application payloads with their schema", () => {
+    expect(parseClientMessage('{"type":"chat","channel":"room","payload":{"text":"hi"}}', messages)).toEqual({
+      ok: true,
+      message: { type: "chat", channel: "room", payload: { text: "hi" } },
+    });
+    expect(parseClientMessage('{"type":"chat","payload":{"text":""}}', messages)).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('Invalid "chat" payload.text'),
+    });
+    expect(parseClientMessage('{"type":"shout"}', messages)).toEqual({
+      ok: false,
+      error: 'Unknown message type "shout"',
+    });
+    expect(parseClientMessage('{"type":"subscribe"}', messages)).toMatchObject({ ok: false });
+    expect(parseClientMessage("not json", messages)).toEqual({ ok: false, error: "Invalid JSON" });
+  });
+
+  it("refuses protocol types as message names", () => {
+    expect(() => defineRealtimeMessages({ ping: z.object({}) })).toThrow("reserved");
+  });
+});
+
+describe("createRealtimeRoutes", () => {
+  beforeEach(() => {
+    resetWebSocket();
+    clearChannels();
+    clearChannelAuthorizers();
+    resetRealtimeAdapter();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("subscribes sockets and relays validated messages to the other subscribers", async () => {
+    const { sockets } = await connect({}, 2);
+    const [alice, bob] = sockets as [FakeSocket, FakeSocket];
+
+    alice.receive({ type: "subscribe", channel: "room:1", payload: { name: "Alice" } });
+    bob.receive({ type: "subscribe", channel: "room:1" });
+    await settle();
+    expect(alice.sent.find((m) => m.type === "subscribed")).toMatchObject({ channel: "room:1" });
+    expect(bob.sent.find((m) => m.type === "subscribed")!.payload).toMatchObject({
+      presence: [{ data: { name: "Alice" } }, {}],
+    });
+
+    alice.receive({ type: "chat", channel: "room:1", payload: { text: "hello" } });
+    alice.receive({ type: "chat", channel: "room:1", payload: { text: "" } });
+    await settle();
+
+    expect(bob.sent.at(-1)).toEqual({ type: "chat", channel: "room:1", payload: { text: "hello" } });
+    expect(alice.sent.some((m) => m.type === "chat")).toBe(false);
+    expect(alice.sent.at(-1)).toMatchObject({
+      type: "error",
+      payload: { message: expect.stringContaining("payload.text") },
+    });
+  });
+
+  it("refuses channels the authorizer denies and publishing to channels not joined", async () => {
+    authorizeChannel("private:*", () => false);
+    const { sockets } = await connect();
+    const socket = sockets[0]!;
+
+    socket.receive({ type: "subscribe", channel: "private:1" });
+    socket.receive({ type: "chat", channel: "room:1", payload: { text: "hi" } });
+    await settle();
+
+    expect(socket.sent).toEqual([
+      { type: "error", channel: "private:1", payload: { message: "Not allowed to subscribe" } },
+      { type: "error", channel: "room:1", payload: { message: "Not allowed to publish" } },
+    ]);
+  });
+
+  it("hands message types with a handler to the handler", async () => {
+    const handler = vi.fn(async () => {
+      await publish("room:1", { type: "chat", payload: { text: "saved" } });
+    });
+    onMessage("chat", handler);
+    const { sockets } = await connect();
+    const socket = sockets[0]!;
+
+    socket.receive({ type: "subscribe", channel: "room:1" });
+    socket.receive({ type: "chat", channel: "room:1", payload: { text: "hi" } });
+    await settle();
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: expect.any(String) }), {
+      type: "chat",
+      channel: "room:1",
+      payload: { text: "hi" },
+    });
+    expect(socket.sent.at(-1)).toEqual({ type: "chat", channel: "room:1", payload: { text: "saved" } });
+  });
+
+  it("pings, answers pings and closes sockets that stop answering", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+    const { sockets } = await connect({ pingIntervalMs: 1000, pingTimeoutMs: 2500 });
+    const socket = sockets[0]!;
+
+    socket.receive({ type: "ping" });
+    await settle();
+    expect(socket.sent).toEqual([{ type: "pong" }]);
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.sent.at(-1)).toEqual({ type: "ping" });
+    socket.receive({ type: "pong" });
+    vi.advanceTimersByTime(2000);
+    expect(socket.closed).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.closed).toBe(PING_TIMEOUT_CLOSE_CODE);
+    socket.close();
+  });
+
+  it("requires a user when requireAuth is set", async () => {
+    const { app, sockets } = await connect({ requireAuth: true }, 0);
+
+    const response = await app.request("/");
+
+    expect(response.status).toBe(401);
+    expect(sockets).toHaveLength(0);
+  });
+
+  it("refuses cookie-authenticated upgrades from other origins", async () => {
+    const sessions = createSessionManager(createMemorySessionStore());
+    const sessionId = await sessions.create("u1", "user");
+    const { app, sockets } = await connect({ auth: { sessions } }, 0);
+    const { app: listed } = await connect({ auth: { sessions }, allowedOrigins: ["https://app.test"] }, 0);
+    const upgrade = (target: typeof app, origin: string, cookie = `session=${sessionId}`) =>
+      target.request("http://api.test/", { headers: { origin, cookie } });
+
+    expect((await upgrade(app, "https://evil.test")).status).toBe(403);
+    expect((await upgrade(app, "http://api.test")).status).toBe(200);
+    expect((await upgrade(listed, "https://app.test")).status).toBe(200);
+    expect((await upgrade(listed, "http://api.test")).status).toBe(403);
+    // Without a session the cookie grants nothing to hijack
+    expect((await upgrade(app, "https://evil.test", "session=unknown")).status).toBe(200);
+    expect(sockets).toHaveLength(2);
+  });
+
+  describe("SSE fallback", () => {
+    it("streams frames and takes client frames by POST", async () => {
+      const app = createRealtimeRoutes({ messages });
+      const response = await app.request("/events");
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const next = async () =>
+        JSON.parse((await reader.read()).value!.replace(/^data: /, "").trim()) as FakeSocket["sent"][number];
+
+      const ready = await next();
+      expect(ready.type).toBe("ready");
+      const { clientId } = ready.payload as { clientId: string };
+
+      const post = (frame: unknown, id = clientId) =>
+        app.request(`/events/${id}`, { method: "POST", body: JSON.stringify(frame) });
+      expect((await post({ type: "subscribe", channel: "room:1" })).status).toBe(204);
+      expect(await next()).toMatchObject({ type: "presence.join", channel: "room:1" });
+      expect(await next()).toMatchObject({ type: "subscribed", channel: "room:1" });
+
+      await publish("room:1", { type: "chat", payload: { text: "hi" } });
+      expect(await next()).toEqual({ type: "chat", channel: "room:1", payload: { text: "hi" } });
+
+      expect((await post({ type: "ping" }, "someone-else")).status).toBe(404);
+      await reader.cancel();
+    });
+  });
+});
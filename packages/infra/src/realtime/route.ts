@@ -0,0 +1,282 @@
+/**
+ * Realtime Routes — WebSocket upgrade and SSE fallback for Hono
+ *
+ * Mount next to the API to let browsers connect (see `useChannel()` in
+ * `@vibeonrails/web`):
+ *
+ * - `GET /` upgrades to a WebSocket. `upgradeWebSocket` comes from the
+ *   runtime's Hono adapter (`hono/bun`, `hono/deno`, `@hono/node-ws`, ...).
+ * - `GET /events` streams the same frames as Server-Sent Events for
+ *   networks that block WebSockets; the first frame is `ready` with the
+ *   connection's `clientId`, and the client sends its frames with
+ *   `POST /events/:clientId`.
+ *
+ * Connections are authenticated with `authenticateRealtime()`. A WebSocket
+ * authenticated by the session cookie must come from an allowed `Origin`
+ * (default: the request's own host), as browsers send cookies on
+ * cross-site upgrades too. Clients
+ * `subscribe` to channels (checked by `authorizeChannel()` hooks) and send
+ * application messages validated against the `messages` schemas: a type
+ * with an `onMessage()` handler goes to the handler, any other is relayed
+ * to its channel's other subscribers, on every instance.
+ *
+ * The server pings every `pingIntervalMs` and closes WebSockets it has not
+ * heard from within `pingTimeoutMs`; clients answer with `pong`.
+ *
+ * Usage:
+ *   import { upgradeWebSocket, websocket } from 'hono/bun';
+ *   import { createRealtimeRoutes } from '@vibeonrails/infra/realtime';
+ *
+ *   const app = createServer({ router });
+ *   app.route('/realtime', createRealtimeRoutes({ upgradeWebSocket, messages, requireAuth: true }));
+ *   export default { port, fetch: app.fetch, websocket };
+ */
+
+import { randomUUID } from "node:crypto";
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import type { UpgradeWebSocket, WSContext } from "hono/ws";
+import { canAccessChannel, resolveRealtimeAuth, type RealtimeAuthOptions, type RealtimeAuthResult } from "./auth.js";
+import { getPresence, getSubscribers, joinChannel, leaveAllChannels, leaveChannel, publish } from "./channels.js";
+import { parseClientMessage, type RealtimeMessageSchemas } from "./protocol.js";
+import { dispatchMessage, registerClient, removeClient, type WebSocketClient, type WebSocketMessage } from "./server.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RealtimeRoutesOptions {
+  /** The runtime's WebSocket upgrade helper (omit to serve only the SSE fallback) */
+  upgradeWebSocket?: UpgradeWebSocket;
+  /** Payload schemas of the application message types */
+  messages?: RealtimeMessageSchemas;
+  /** How connections are authenticated (sessions, cookie, token query parameter) */
+  auth?: RealtimeAuthOptions;
+  /** Refuse connections without a user with 401 (default: false) */
+  requireAuth?: boolean;
+  /**
+   * Origins allowed to open a WebSocket with the session cookie, e.g.
+   * `['https://app.example.com']` (default: the request's own host)
+   */
+  allowedOrigins?: string[];
+  /** Interval between server pings (default: 25000ms) */
+  pingIntervalMs?: number;
+  /** Close a WebSocket silent for this long (default: twice pingIntervalMs) */
+  pingTimeoutMs?: number;
+}
+
+type RealtimeEnv = { Variables: { realtimeAuth: RealtimeAuthResult } };
+
+/** Close code sent to WebSockets that stopped answering pings */
+export const PING_TIMEOUT_CLOSE_CODE = 4408;
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Whether a request comes from an allowed origin; requests without one are not from a browser */
+function isAllowedOrigin(request: Request, allowedOrigins: string[] | undefined): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  if (allowedOrigins) return allowedOrigins.includes(origin);
+  try {
+    return new URL(origin).host === (request.headers.get("host") ?? new URL(request.url).host);
+  } catch {
+    return false;
+  }
+}
+
+function reply(client: WebSocketClient, message: WebSocketMessage): void {
+  client.send(JSON.stringify(message));
+}
+
+function replyError(client: WebSocketClient, message: string, channel?: string): void {
+  reply(client, { type: "error", channel, payload: { message } });
+}
+
+async function handleMessage(client: WebSocketClient, message: WebSocketMessage): Promise<void> {
+  const { channel } = message;
+  switch (message.type) {
+    case "ping":
+      reply(client, { type: "pong" });
+      return;
+    case "pong":
+      return;
+    case "subscribe": {
+      const presence = isRecord(message.payload) ? message.payload : true;
+      if (!(await joinChannel(client, channel!, { presence }))) {
+        replyError(client, "Not allowed to subscribe", channel);
+        return;
+      }
+      reply(client, { type: "subscribed", channel, payload: { presence: await getPresence(channel!) } });
+      return;
+    }
+    case "unsubscribe":
+      await leaveChannel(channel!, client.id);
+      reply(client, { type: "unsubscribed", channel });
+      return;
+  }
+
+  if (await dispatchMessage(client, message)) return;
+  if (!channel) {
+    replyError(client, `No handler for "${message.type}" and no channel to send it to`);
+    return;
+  }
+  if (!getSubscribers(channel).includes(client.id) || !(await canAccessChannel(client, channel, "publish"))) {
+    replyError(client, "Not allowed to publish", channel);
+    return;
+  }
+  await publish(channel, message, { except: client.id });
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the WebSocket and SSE routes, to mount with `app.route()`.
+ */
+export function createRealtimeRoutes(options: RealtimeRoutesOptions = {}): Hono<RealtimeEnv> {
+  const pingIntervalMs = options.pingIntervalMs ?? 25_000;
+  const pingTimeoutMs = options.pingTimeoutMs ?? pingIntervalMs * 2;
+  const app = new Hono<RealtimeEnv>();
+  // SSE connections by client id
+  const streams = new Map<string, { client: WebSocketClient; receive: (raw: string) => Promise<void> }>();
+
+  /** Handle one connection's frames in order, so a publish never overtakes its subscribe */
+  function createReceiver(client: WebSocketClient): (raw: string) => Promise<void> {
+    let queue = Promise.resolve();
+    return (raw) => {
+      queue = queue.then(async () => {
+        const parsed = parseClientMessage(raw, options.messages);
+        if (!parsed.ok) {
+          replyError(client, parsed.error);
+          return;
+        }
+        try {
+          await handleMessage(client, parsed.message);
+        } catch (error) {
+          console.error(
+            `[AOR] Realtime "${parsed.message.type}" message from ${client.id} failed: ${error instanceof Error ? error.message : String(error)}\n` +
+              "  Fix: Check the message handler and the realtime adapter connection.",
+          );
+          replyError(client, "Internal error", parsed.message.channel);
+        }
+      });
+      return queue;
+    };
+  }
+
+  async function disconnect(client: WebSocketClient): Promise<void> {
+    removeClient(client.id);
+    await leaveAllChannels(client.id).catch(() => {});
+  }
+
+  app.use("*", async (c, next) => {
+    const auth = await resolveRealtimeAuth(c.req.raw, options.auth);
+    if (!auth.user && options.requireAuth) return c.text("Unauthorized", 401);
+    c.set("realtimeAuth", auth);
+    await next();
+  });
+
+  if (options.upgradeWebSocket) {
+    app.get(
+      "/",
+      async (c, next) => {
+        // Cross-site WebSocket hijacking: another site's page would connect as the cookie's user
+        if (c.get("realtimeAuth").source === "cookie" && !isAllowedOrigin(c.req.raw, options.allowedOrigins)) {
+          return c.text("Origin not allowed", 403);
+        }
+        await next();
+      },
+      options.upgradeWebSocket((c) => {
+        let client: WebSocketClient | undefined;
+        let receive: ((raw: string) => Promise<void>) | undefined;
+        let lastSeen = Date.now();
+        let liveness: ReturnType<typeof setInterval> | undefined;
+
+        return {
+          onOpen(_event, ws: WSContext) {
+            const connection: WebSocketClient = {
+              id: randomUUID(),
+              user: c.get("realtimeAuth").user,
+              send: (data) => {
+                if (ws.readyState === 1) ws.send(data);
+              },
+              close: () => ws.close(),
+            };
+            client = connection;
+            receive = createReceiver(connection);
+            registerClient(connection);
+
+            liveness = setInterval(() => {
+              if (Date.now() - lastSeen > pingTimeoutMs) ws.close(PING_TIMEOUT_CLOSE_CODE, "Ping timeout");
+              else reply(connection, { type: "ping" });
+            }, pingIntervalMs);
+            liveness.unref?.();
+          },
+          onMessage(event) {
+            lastSeen = Date.now();
+            if (!client || !receive) return;
+            if (typeof event.data !== "string") {
+              replyError(client, "Binary frames are not supported");
+              return;
+            }
+            void receive(event.data);
+          },
+          onClose() {
+            if (liveness) clearInterval(liveness);
+            if (client) void disconnect(client);
+          },
+        };
+      }),
+    );
+  }
+
+  app.get("/events", (c) =>
+    streamSSE(c, async (stream) => {
+      let writing = Promise.resolve();
+      let closed: () => void = () => {};
+      const done = new Promise<void>((resolve) => {
+        closed = resolve;
+      });
+      const client: WebSocketClient = {
+        id: randomUUID(),
+        user: c.get("realtimeAuth").user,
+        send: (data) => {
+          writing = writing.then(() => stream.writeSSE({ data })).catch(() => {});
+        },
+        close: () => closed(),
+      };
+      stream.onAbort(() => closed());
+
+      streams.set(client.id, { client, receive: createReceiver(client) });
+      registerClient(client);
+      reply(client, { type: "ready", payload: { clientId: client.id } });
+      // Keeps proxies from closing an idle stream; EventSource reconnects by itself
+      const keepalive = setInterval(() => reply(client, { type: "ping" }), pingIntervalMs);
+      keepalive.unref?.();
+
+      await done;
+      clearInterval(keepalive);
+      streams.delete(client.id);
+      await disconnect(client);
+    }),
+  );
+
+  app.post("/events/:clientId", async (c) => {
+    const connection = streams.get(c.req.param("clientId"));
+    // The client id alone is not enough: the sender must be the stream's user
+    if (!connection || (connection.client.user?.id ?? null) !== (c.get("realtimeAuth").user?.id ?? null)) {
+      return c.text("Unknown connection", 404);
+    }
+    await connection.receive(await c.req.text());
+    return c.body(null, 204);
+  });
+
+  return app;
+}
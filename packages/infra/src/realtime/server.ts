@@ -1,13 +1,19 @@
 /**
  * WebSocket Server Setup
  *
- * Provides a channel-based WebSocket abstraction.
+ * Provides a channel-based WebSocket abstraction. `broadcast()` publishes
+ * through the realtime adapter, so it reaches the clients of every instance.
  */
 
+import { getRealtimeAdapter } from "./adapter.js";
+import type { RealtimeUser } from "./auth.js";
+
 export interface WebSocketClient {
   id: string;
   send: (data: string) => void;
   close: () => void;
+  /** The authenticated user (see `authenticateRealtime()`), checked by channel authorizers */
+  user?: RealtimeUser | null;
 }
 
 export interface WebSocketMessage {
@@ -18,14 +24,38 @@ export interface WebSocketMessage {
 
 export type MessageHandler = (client: WebSocketClient, message: WebSocketMessage) => void | Promise<void>;
 
+/** Adapter channel `broadcast()` publishes to (channels publish to `channel:<name>`) */
+const BROADCAST_CHANNEL = "broadcast";
+
 const clients = new Map<string, WebSocketClient>();
 const handlers = new Map<string, MessageHandler>();
+let listening: Promise<() => Promise<void>> | undefined;
+
+function reportFailure(action: string, error: unknown): void {
+  console.error(
+    `[AOR] Realtime ${action} failed: ${error instanceof Error ? error.message : String(error)}\n` +
+      "  Fix: Check the realtime adapter connection (REDIS_URL for the Redis adapter).",
+  );
+}
+
+/** Deliver broadcasts from every instance to this instance's clients */
+function listenForBroadcasts(): void {
+  if (listening) return;
+  listening = getRealtimeAdapter().subscribe(BROADCAST_CHANNEL, (message) => {
+    for (const client of clients.values()) client.send(message);
+  });
+  listening.catch((error: unknown) => {
+    listening = undefined;
+    reportFailure("broadcast subscription", error);
+  });
+}
 
 /**
  * Register a WebSocket client.
  */
 export function registerClient(client: WebSocketClient): void {
   clients.set(client.id, client);
+  listenForBroadcasts();
 }
 
 /**
@@ -58,12 +88,14 @@ export function onMessage(type: string, handler: MessageHandler): void {
 
 /**
  * Dispatch a message to the appropriate handler.
+ * Resolves to whether a handler was registered for its type.
  */
-export async function dispatchMessage(client: WebSocketClient, message: WebSocketMessage): Promise<void> {
+export async function dispatchMessage(client: WebSocketClient, message: WebSocketMessage): Promise<boolean> {
   const handler = handlers.get(message.type);
   if (handler) {
     await handler(client, message);
   }
+  return handler !== undefined;
 }
 
 /**
@@ -77,13 +109,13 @@ export function sendToClient(clientId: string, data: WebSocketMessage): boolean
 }
 
 /**
- * Broadcast a message to all connected clients.
+ * Broadcast a message to all connected clients, on every instance.
  */
 export function broadcast(data: WebSocketMessage): void {
-  const json = JSON.stringify(data);
-  for (const client of clients.values()) {
-    client.send(json);
-  }
+  listenForBroadcasts();
+  getRealtimeAdapter()
+    .publish(BROADCAST_CHANNEL, JSON.stringify(data))
+    .catch((error: unknown) => reportFailure("broadcast", error));
 }
 
 /**
@@ -92,4 +124,6 @@ export function broadcast(data: WebSocketMessage): void {
 export function resetWebSocket(): void {
   clients.clear();
   handlers.clear();
+  void listening?.then((stop) => stop()).catch(() => {});
+  listening = undefined;
 }
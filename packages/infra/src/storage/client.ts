@@ -1,75 +1,105 @@
 /**
  * Storage Client
  *
- * S3-compatible file storage client. Works with AWS S3, Cloudflare R2,
- * DigitalOcean Spaces, or any S3-compatible provider.
+ * File storage behind one interface, with two drivers:
+ * - `createS3Storage()` — any S3-compatible provider (AWS S3, Cloudflare R2,
+ *   DigitalOcean Spaces, MinIO), requests signed with AWS Signature V4
+ * - `createLocalStorage()` — files on disk, with signed URLs served by
+ *   `createLocalStorageHandler()` (dev and tests)
+ *
+ * The driver is picked from `STORAGE_DRIVER` (`s3` | `local`) unless passed
+ * explicitly. Without it, S3 is used when `S3_BUCKET` is set or
+ * `NODE_ENV=production`, local disk otherwise.
  *
  * Usage:
  *   import { createStorage } from '@vibeonrails/infra/storage';
  *
  *   const storage = createStorage();
  *   const url = await storage.upload('avatars/user-123.jpg', fileBuffer, 'image/jpeg');
+ *   const download = await storage.getSignedUrl('avatars/user-123.jpg', 300);
+ *   const upload = await storage.getSignedUploadUrl('avatars/user-456.jpg', { contentType: 'image/jpeg' });
  */
 
-export interface StorageClient {
-  upload(key: string, body: Buffer | Uint8Array, contentType?: string): Promise<string>;
-  download(key: string): Promise<Buffer>;
-  delete(key: string): Promise<void>;
-  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+import {
+  STORAGE_DRIVERS,
+  type S3StorageConfig,
+  type StorageClient,
+  type StorageDriverName,
+} from './driver.js';
+import { createLocalStorage, type LocalStorageConfig } from './local.js';
+import { createS3Storage } from './s3.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StorageConfig extends Partial<S3StorageConfig> {
+  /** Driver (default: from STORAGE_DRIVER / S3_BUCKET) */
+  driver?: StorageDriverName;
+  /** Options of the local driver */
+  local?: LocalStorageConfig;
 }
 
-export interface StorageConfig {
-  bucket: string;
-  endpoint: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  region?: string;
-  publicUrl?: string;
+// ---------------------------------------------------------------------------
+// Driver selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the driver name from the config and environment.
+ */
+export function resolveStorageDriverName(
+  config: StorageConfig = {},
+  env: NodeJS.ProcessEnv = process.env,
+): StorageDriverName {
+  if (config.driver) return config.driver;
+  const explicit = env.STORAGE_DRIVER;
+  if (explicit) {
+    if (!(STORAGE_DRIVERS as readonly string[]).includes(explicit)) {
+      throw new Error(
+        `[AOR] Unknown STORAGE_DRIVER "${explicit}".\n` +
+          `  Fix: Set STORAGE_DRIVER to one of: ${STORAGE_DRIVERS.join(', ')}`,
+      );
+    }
+    return explicit as StorageDriverName;
+  }
+  return config.bucket || env.S3_BUCKET || env.NODE_ENV === 'production' ? 's3' : 'local';
 }
 
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
 /**
- * Create an S3-compatible storage client.
+ * Create a storage client.
  *
  * @param config - Storage configuration (defaults to env vars)
- * @returns Storage client with upload/download/delete operations
+ * @returns Storage client with upload/download/delete/list and signed URLs
  */
-export function createStorage(config?: Partial<StorageConfig>): StorageClient {
-  const bucket = config?.bucket ?? process.env.S3_BUCKET;
-  const endpoint = config?.endpoint ?? process.env.S3_ENDPOINT;
-  const accessKeyId = config?.accessKeyId ?? process.env.S3_ACCESS_KEY_ID;
-  const secretAccessKey = config?.secretAccessKey ?? process.env.S3_SECRET_ACCESS_KEY;
+export function createStorage(config: StorageConfig = {}): StorageClient {
+  if (resolveStorageDriverName(config) === 'local') {
+    return createLocalStorage(config.local);
+  }
 
-  if (!bucket || !endpoint || !accessKeyId || !secretAccessKey) {
+  const bucket = config.bucket ?? process.env.S3_BUCKET;
+  const accessKeyId = config.accessKeyId ?? process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = config.secretAccessKey ?? process.env.S3_SECRET_ACCESS_KEY;
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
     throw new Error(
       '[AOR] S3 storage configuration is incomplete.\n' +
-      '  Required env vars: S3_BUCKET, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY\n' +
-      '  Docs: https://vibeonrails.dev/errors/STORAGE_CONFIG_MISSING',
+        '  Required env vars: S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (and S3_ENDPOINT outside AWS)\n' +
+        '  Docs: https://vibeonrails.dev/errors/STORAGE_CONFIG_MISSING',
     );
   }
 
-  const publicUrl = config?.publicUrl ?? `${endpoint}/${bucket}`;
-
-  // Note: In production, use @aws-sdk/client-s3 for proper S3 operations.
-  // This is a simplified interface that can be backed by any S3 SDK.
-  return {
-    async upload(key: string, _body: Buffer | Uint8Array, _contentType?: string): Promise<string> {
-      // Placeholder: implement with @aws-sdk/client-s3 PutObjectCommand
-      return `${publicUrl}/${key}`;
-    },
-
-    async download(_key: string): Promise<Buffer> {
-      // Placeholder: implement with @aws-sdk/client-s3 GetObjectCommand
-      throw new Error('[AOR] Storage download not yet implemented. Add @aws-sdk/client-s3.');
-    },
-
-    async delete(_key: string): Promise<void> {
-      // Placeholder: implement with @aws-sdk/client-s3 DeleteObjectCommand
-      throw new Error('[AOR] Storage delete not yet implemented. Add @aws-sdk/client-s3.');
-    },
-
-    async getSignedUrl(_key: string, _expiresInSeconds = 3600): Promise<string> {
-      // Placeholder: implement with @aws-sdk/s3-request-presigner
-      throw new Error('[AOR] Storage getSignedUrl not yet implemented. Add @aws-sdk/s3-request-presigner.');
-    },
-  };
+  return createS3Storage({
+    ...config,
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    endpoint: config.endpoint ?? process.env.S3_ENDPOINT,
+    region: config.region ?? process.env.S3_REGION,
+    sessionToken: config.sessionToken ?? process.env.S3_SESSION_TOKEN,
+    publicUrl: config.publicUrl ?? process.env.S3_PUBLIC_URL,
+  });
 }
@@ -0,0 +1,137 @@
+/**
+ * Storage Driver
+ *
+ * The interface both storage drivers implement, and the semantics they
+ * share: which keys are valid and how upload bodies and options are read.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const STORAGE_DRIVERS = ['s3', 'local'] as const;
+export type StorageDriverName = (typeof STORAGE_DRIVERS)[number];
+
+export type StorageBody = Buffer | Uint8Array | string;
+
+export interface UploadOptions {
+  contentType?: string;
+  cacheControl?: string;
+}
+
+export interface SignedUrlOptions {
+  /** Seconds until the URL expires (default: 3600) */
+  expiresIn?: number;
+  /** Content type the upload must be sent with (PUT URLs only) */
+  contentType?: string;
+}
+
+export interface DownloadOptions {
+  /** Read at most this many leading bytes, e.g. to sniff a file's type */
+  maxBytes?: number;
+}
+
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  etag?: string;
+}
+
+export interface StorageClient {
+  readonly driver: StorageDriverName;
+  /** Store an object; returns its public URL */
+  upload(key: string, body: StorageBody, options?: string | UploadOptions): Promise<string>;
+  /** Read an object. Throws if it does not exist */
+  download(key: string, options?: DownloadOptions): Promise<Buffer>;
+  /** Delete an object. Deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+  /** Objects whose key starts with `prefix`, sorted by key */
+  list(prefix?: string): Promise<StorageObject[]>;
+  /** Public URL of an object (only readable if the bucket is public) */
+  url(key: string): string;
+  /** Time-limited URL to download a private object */
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  /** Time-limited URL a browser can PUT the object to */
+  getSignedUploadUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Provider endpoint (default: AWS S3 in `region`) */
+  endpoint?: string;
+  /** Signing region (default: 'us-east-1'; use 'auto' for Cloudflare R2) */
+  region?: string;
+  sessionToken?: string;
+  /** Base URL of public objects (default: the bucket URL) */
+  publicUrl?: string;
+  /** `endpoint/bucket/key` instead of `bucket.endpoint/key` (default: true with a custom endpoint) */
+  forcePathStyle?: boolean;
+  /** Uploads at least this large use multipart upload (default: 16 MiB) */
+  multipartThreshold?: number;
+  /** Part size of multipart uploads, at least 5 MiB (default: 8 MiB) */
+  partSize?: number;
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_SIGNED_URL_TTL = 3600;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.html': 'text/html',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.mp4': 'video/mp4',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.webp': 'image/webp',
+  '.zip': 'application/zip',
+};
+
+// ---------------------------------------------------------------------------
+// Shared semantics
+// ---------------------------------------------------------------------------
+
+/**
+ * Reject keys that could escape the bucket or storage root:
+ * empty, absolute, `.`/`..` segments, backslashes or control characters.
+ */
+export function assertStorageKey(key: string): void {
+  const invalid =
+    key.length === 0 ||
+    key.length > 1024 ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    [...key].some((char) => char.charCodeAt(0) < 0x20) ||
+    key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..');
+  if (invalid) {
+    throw new Error(
+      `[AOR] Invalid storage key "${key}".\n` +
+        "  Fix: Use a relative path like 'avatars/user-123.jpg' without '..' or empty segments.",
+    );
+  }
+}
+
+/** Normalize the `upload()` options argument. */
+export function resolveUploadOptions(options?: string | UploadOptions): UploadOptions {
+  return typeof options === 'string' ? { contentType: options } : (options ?? {});
+}
+
+export function toBuffer(body: StorageBody): Buffer {
+  return typeof body === 'string' ? Buffer.from(body) : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+}
+
+/** Content type of a key from its extension. */
+export function contentTypeFor(key: string): string {
+  const dot = key.lastIndexOf('.');
+  return (dot > key.lastIndexOf('/') && CONTENT_TYPES[key.slice(dot).toLowerCase()]) || 'application/octet-stream';
+}
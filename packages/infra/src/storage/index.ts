@@ -2,4 +2,71 @@
  * Storage module barrel export
  */
 
-export { createStorage, type StorageClient, type StorageConfig } from './client.js';
+export {
+  createStorage,
+  resolveStorageDriverName,
+  type StorageConfig,
+} from './client.js';
+
+export {
+  STORAGE_DRIVERS,
+  DEFAULT_SIGNED_URL_TTL,
+  assertStorageKey,
+  contentTypeFor,
+  type StorageDriverName,
+  type StorageClient,
+  type StorageBody,
+  type StorageObject,
+  type DownloadOptions,
+  type UploadOptions,
+  type SignedUrlOptions,
+  type S3StorageConfig,
+} from './driver.js';
+
+export {
+  createS3Storage,
+  DEFAULT_MULTIPART_THRESHOLD,
+  DEFAULT_PART_SIZE,
+  MIN_PART_SIZE,
+} from './s3.js';
+
+export {
+  createLocalStorage,
+  createLocalStorageHandler,
+  type LocalStorage,
+  type LocalStorageConfig,
+} from './local.js';
+
+export {
+  RESPONSIVE_WIDTHS,
+  IMAGE_FORMATS,
+  contentHash,
+  variantKey,
+  buildSrcset,
+  responsiveVariants,
+  createSharpImageProcessor,
+  type ImageFormat,
+  type ImageVariant,
+  type ImageProcessor,
+  type ProcessedImage,
+  type SharpLike,
+} from './variants.js';
+
+export {
+  defineUpload,
+  createUploader,
+  matchesMimeType,
+  detectMimeType,
+  checkUploadFile,
+  UploadRejectedError,
+  type UploadConfig,
+  type UploadDefinition,
+  type UploadFileInfo,
+  type PreparedUpload,
+  type StoredUpload,
+  type StoredVariant,
+  type Uploader,
+  type UploaderOptions,
+} from './upload.js';
+
+export { signRequest, presignUrl, type SigV4Credentials, type SigV4Request } from './sigv4.js';
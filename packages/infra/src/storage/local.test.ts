@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLocalStorage, createLocalStorageHandler, type LocalStorage } from "./local.js";
+import { createStorage, resolveStorageDriverName } from "./client.js";
+
+describe("Local storage", () => {
+  let root: string;
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vibe-storage-"));
+    storage = createLocalStorage({ root, baseUrl: "http://localhost:3000/storage", secret: "test-secret" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("uploads, downloads and deletes files", async () => {
+    const url = await storage.upload("avatars/user 1.png", Buffer.from("png"), "image/png");
+    expect(url).toBe("http://localhost:3000/storage/avatars/user%201.png");
+    expect((await storage.download("avatars/user 1.png")).toString()).toBe("png");
+    expect((await storage.download("avatars/user 1.png", { maxBytes: 2 })).toString()).toBe("pn");
+
+    await storage.delete("avatars/user 1.png");
+    await storage.delete("avatars/user 1.png");
+    await expect(storage.download("avatars/user 1.png")).rejects.toThrow('Storage object "avatars/user 1.png" not found');
+  });
+
+  it("lists files under a prefix, sorted by key", async () => {
+    await storage.upload("docs/b.txt", "bb");
+    await storage.upload("docs/nested/a.txt", "a");
+    await storage.upload("other.txt", "o");
+
+    const objects = await storage.list("docs/");
+    expect(objects.map((o) => [o.key, o.size])).toEqual([
+      ["docs/b.txt", 2],
+      ["docs/nested/a.txt", 1],
+    ]);
+    expect(await createLocalStorage({ root: join(root, "missing") }).list()).toEqual([]);
+  });
+
+  it("rejects keys that escape the root", async () => {
+    await expect(storage.upload("../outside.txt", "x")).rejects.toThrow("Invalid storage key");
+    await expect(storage.download("a//b")).rejects.toThrow("Invalid storage key");
+    await expect(storage.download("a/b\nc")).rejects.toThrow("Invalid storage key");
+  });
+
+  it("verifies signed URLs for their method and expiry", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T10:00:00Z") });
+    const url = await storage.getSignedUrl("a.txt", 60);
+
+    expect(storage.verifySignedUrl(url, "GET")).toEqual({ key: "a.txt", contentType: undefined });
+    expect(storage.verifySignedUrl(url, "PUT")).toBeUndefined();
+    expect(storage.verifySignedUrl(url.replace("a.txt", "b.txt"), "GET")).toBeUndefined();
+    expect(createLocalStorage({ root, secret: "other", baseUrl: storage.baseUrl }).verifySignedUrl(url, "GET")).toBeUndefined();
+
+    vi.setSystemTime(new Date("2026-03-10T10:01:01Z"));
+    expect(storage.verifySignedUrl(url, "GET")).toBeUndefined();
+  });
+});
+
+describe("Local storage handler", () => {
+  let root: string;
+  let storage: LocalStorage;
+  let handler: (request: Request) => Promise<Response>;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vibe-storage-"));
+    storage = createLocalStorage({ root, baseUrl: "http://localhost:3000/storage", secret: "test-secret" });
+    handler = createLocalStorageHandler(storage);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("accepts uploads to a signed PUT URL and serves them from a signed GET URL", async () => {
+    const uploadUrl = await storage.getSignedUploadUrl("photos/cat.jpg", { contentType: "image/jpeg" });
+    const put = await handler(
+      new Request(uploadUrl, { method: "PUT", body: "jpeg-bytes", headers: { "content-type": "image/jpeg" } }),
+    );
+    expect(put.status).toBe(200);
+
+    const get = await handler(new Request(await storage.getSignedUrl("photos/cat.jpg")));
+    expect(get.status).toBe(200);
+    expect(get.headers.get("content-type")).toBe("image/jpeg");
+    expect(get.headers.get("content-disposition")).toBeNull();
+    expect(await get.text()).toBe("jpeg-bytes");
+  });
+
+  it("serves everything but raster images as attachments", async () => {
+    await storage.upload("files/logo.svg", "<svg/>");
+
+    const res = await handler(new Request(await storage.getSignedUrl("files/logo.svg")));
+    expect(res.headers.get("content-type")).toBe("image/svg+xml");
+    expect(res.headers.get("content-disposition")).toBe("attachment");
+    expect(res.headers.get("x-content-type-options")).toBe("nosniff");
+  });
+
+  it("rejects uploads with another content type than signed", async () => {
+    const uploadUrl = await storage.getSignedUploadUrl("photos/cat.jpg", { contentType: "image/jpeg" });
+    const res = await handler(
+      new Request(uploadUrl, { method: "PUT", body: "<svg/>", headers: { "content-type": "image/svg+xml" } }),
+    );
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects unsigned requests unless the storage is public", async () => {
+    await storage.upload("a.txt", "hello");
+    expect((await handler(new Request("http://localhost:3000/storage/a.txt"))).status).toBe(403);
+
+    const publicHandler = createLocalStorageHandler(createLocalStorage({ root, baseUrl: storage.baseUrl, public: true }));
+    const res = await publicHandler(new Request("http://localhost:3000/storage/a.txt"));
+    expect(await res.text()).toBe("hello");
+    expect((await publicHandler(new Request("http://localhost:3000/storage/b.txt", { method: "PUT", body: "x" }))).status).toBe(403);
+  });
+
+  it("returns 404 for missing objects", async () => {
+    const res = await handler(new Request(await storage.getSignedUrl("missing.txt")));
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("createStorage", () => {
+  it("picks the driver from config and environment", () => {
+    expect(resolveStorageDriverName({}, {})).toBe("local");
+    expect(resolveStorageDriverName({}, { S3_BUCKET: "b" })).toBe("s3");
+    expect(resolveStorageDriverName({}, { NODE_ENV: "production" })).toBe("s3");
+    expect(resolveStorageDriverName({}, { STORAGE_DRIVER: "local", S3_BUCKET: "b" })).toBe("local");
+    expect(resolveStorageDriverName({ driver: "s3" }, {})).toBe("s3");
+    expect(() => resolveStorageDriverName({}, { STORAGE_DRIVER: "gcs" })).toThrow('Unknown STORAGE_DRIVER "gcs"');
+  });
+
+  it("requires credentials for S3", () => {
+    expect(() => createStorage({ driver: "s3", bucket: "b" })).toThrow("S3 storage configuration is incomplete");
+  });
+
+  it("creates a local driver", () => {
+    expect(createStorage({ driver: "local", local: { root: tmpdir() } }).driver).toBe("local");
+  });
+});
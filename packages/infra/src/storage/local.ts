@@ -0,0 +1,244 @@
+/**
+ * Local Storage Driver
+ *
+ * Stores objects as files under a root directory, for dev and tests.
+ * Signed URLs carry an HMAC of the method, key and expiry; mount
+ * `createLocalStorageHandler()` to serve downloads and accept uploads
+ * through them, the way a browser talks to S3 in production.
+ *
+ * Usage:
+ *   import { createLocalStorage, createLocalStorageHandler } from '@vibeonrails/infra/storage';
+ *
+ *   const storage = createLocalStorage({ root: '.vibe/storage', baseUrl: 'http://localhost:3000/storage' });
+ *   const handler = createLocalStorageHandler(storage);
+ *   app.all('/storage/*', (c) => handler(c.req.raw));
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, open, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  assertStorageKey,
+  contentTypeFor,
+  toBuffer,
+  type StorageClient,
+  type StorageObject,
+} from './driver.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LocalStorageConfig {
+  /** Directory objects are stored in (default: STORAGE_PATH or '.vibe/storage') */
+  root?: string;
+  /** URL the handler is mounted at (default: STORAGE_URL or '/storage') */
+  baseUrl?: string;
+  /** Key for signing URLs (default: STORAGE_SECRET, else random per process) */
+  secret?: string;
+  /** Serve objects without a signature, like a public bucket (default: false) */
+  public?: boolean;
+}
+
+export interface LocalStorage extends StorageClient {
+  readonly driver: 'local';
+  readonly root: string;
+  readonly baseUrl: string;
+  readonly public: boolean;
+  /** Check a signed URL; returns the key it grants `method` on, or undefined */
+  verifySignedUrl(url: string | URL, method: string): { key: string; contentType?: string } | undefined;
+}
+
+/** Types served inline; the handler serves everything else as a download */
+const INLINE_CONTENT_TYPES = new Set(['image/avif', 'image/gif', 'image/jpeg', 'image/png', 'image/webp']);
+
+// ---------------------------------------------------------------------------
+// Driver
+// ---------------------------------------------------------------------------
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+/** Object key a URL under `baseUrl` points to, if it is a valid key. */
+function keyFromUrl(url: URL, baseUrl: string): string | undefined {
+  const basePath = new URL(baseUrl, 'http://localhost').pathname.replace(/\/+$/, '');
+  if (!url.pathname.startsWith(`${basePath}/`)) return undefined;
+  try {
+    const key = url.pathname.slice(basePath.length + 1).split('/').map(decodeURIComponent).join('/');
+    assertStorageKey(key);
+    return key;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a local-disk storage client.
+ */
+export function createLocalStorage(config: LocalStorageConfig = {}): LocalStorage {
+  const root = resolve(config.root ?? process.env.STORAGE_PATH ?? '.vibe/storage');
+  const baseUrl = (config.baseUrl ?? process.env.STORAGE_URL ?? '/storage').replace(/\/+$/, '');
+  const secret = config.secret ?? process.env.STORAGE_SECRET ?? randomBytes(32).toString('hex');
+
+  function pathFor(key: string): string {
+    assertStorageKey(key);
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) throw new Error(`[AOR] Storage key "${key}" escapes the storage root`);
+    return path;
+  }
+
+  function url(key: string): string {
+    assertStorageKey(key);
+    return `${baseUrl}/${encodeKey(key)}`;
+  }
+
+  function sign(method: string, key: string, expires: number, contentType = ''): string {
+    return createHmac('sha256', secret).update(`${method}\n${key}\n${expires}\n${contentType}`).digest('hex');
+  }
+
+  function signedUrl(method: string, key: string, expiresIn: number, contentType?: string): string {
+    if (!Number.isInteger(expiresIn) || expiresIn < 1) {
+      throw new Error(`[AOR] Invalid signed URL expiry ${expiresIn}; use a whole number of seconds`);
+    }
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({ expires: String(expires) });
+    if (contentType) params.set('contentType', contentType);
+    params.set('signature', sign(method, key, expires, contentType));
+    return `${url(key)}?${params}`;
+  }
+
+  async function walk(dir: string): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files = await Promise.all(
+      entries.map((entry) => {
+        const path = join(dir, entry.name);
+        return entry.isDirectory() ? walk(path) : Promise.resolve([path]);
+      }),
+    );
+    return files.flat();
+  }
+
+  return {
+    driver: 'local',
+    root,
+    baseUrl,
+    public: config.public ?? false,
+    url,
+
+    // Content type is not stored; the handler infers it from the extension
+    async upload(key, body) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, toBuffer(body));
+      return url(key);
+    },
+
+    async download(key, options = {}) {
+      try {
+        if (!options.maxBytes) return await readFile(pathFor(key));
+        const file = await open(pathFor(key));
+        try {
+          const buffer = Buffer.alloc(options.maxBytes);
+          const { bytesRead } = await file.read(buffer, 0, options.maxBytes, 0);
+          return buffer.subarray(0, bytesRead);
+        } finally {
+          await file.close();
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(`[AOR] Storage object "${key}" not found`);
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+
+    async list(prefix = '') {
+      const objects: StorageObject[] = [];
+      for (const path of await walk(root)) {
+        const key = relative(root, path).split(sep).join('/');
+        if (!key.startsWith(prefix)) continue;
+        const info = await stat(path);
+        objects.push({ key, size: info.size, lastModified: info.mtime });
+      }
+      return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+
+    async getSignedUrl(key, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+      return signedUrl('GET', key, expiresInSeconds);
+    },
+
+    async getSignedUploadUrl(key, options = {}) {
+      return signedUrl('PUT', key, options.expiresIn ?? DEFAULT_SIGNED_URL_TTL, options.contentType);
+    },
+
+    verifySignedUrl(input, method) {
+      const parsed = new URL(input, 'http://localhost');
+      const key = keyFromUrl(parsed, baseUrl);
+      if (!key) return undefined;
+
+      const expires = Number(parsed.searchParams.get('expires'));
+      const signature = parsed.searchParams.get('signature') ?? '';
+      const contentType = parsed.searchParams.get('contentType') ?? undefined;
+      if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return undefined;
+
+      const expected = Buffer.from(sign(method.toUpperCase(), key, expires, contentType));
+      const actual = Buffer.from(signature);
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+      return { key, contentType };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Serve a local storage root through its signed URLs: `GET` downloads,
+ * `PUT` uploads (the request body is the file). Works with any framework
+ * that speaks the Fetch API (Hono: `(c) => handler(c.req.raw)`).
+ */
+export function createLocalStorageHandler(storage: LocalStorage): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const method = request.method.toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD' && method !== 'PUT') {
+      return new Response('Method not allowed', { status: 405, headers: { allow: 'GET, HEAD, PUT' } });
+    }
+
+    const grant = storage.verifySignedUrl(request.url, method === 'HEAD' ? 'GET' : method);
+    let key = grant?.key;
+    if (!key && storage.public && method !== 'PUT') key = keyFromUrl(new URL(request.url), storage.baseUrl);
+    if (!key) return new Response('Invalid or expired signature', { status: 403 });
+
+    if (method === 'PUT') {
+      const contentType = request.headers.get('content-type') ?? undefined;
+      if (grant?.contentType && contentType !== grant.contentType) {
+        return new Response(`Content-Type must be ${grant.contentType}`, { status: 403 });
+      }
+      await storage.upload(key, Buffer.from(await request.arrayBuffer()), contentType);
+      return new Response(null, { status: 200 });
+    }
+
+    try {
+      const body = await storage.download(key);
+      const contentType = contentTypeFor(key);
+      return new Response(method === 'HEAD' ? null : body, {
+        headers: {
+          'content-type': contentType,
+          'content-length': String(body.length),
+          'x-content-type-options': 'nosniff',
+          // Anything but a raster image (SVG, HTML, ...) could run script on this origin
+          ...(INLINE_CONTENT_TYPES.has(contentType) ? {} : { 'content-disposition': 'attachment' }),
+        },
+      });
+    } catch {
+      return new Response('Not found', { status: 404 });
+    }
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * S3 Storage Driver
+ *
+ * Talks to any S3-compatible API over `fetch`, signing requests with AWS
+ * Signature V4. Large uploads switch to multipart upload automatically and
+ * are aborted if a part fails, so no orphaned parts are billed.
+ *
+ * Usage:
+ *   import { createS3Storage } from '@vibeonrails/infra/storage';
+ *
+ *   const storage = createS3Storage({
+ *     bucket: 'uploads',
+ *     endpoint: 'https://<account>.r2.cloudflarestorage.com',
+ *     region: 'auto',
+ *     accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+ *     secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+ *   });
+ */
+
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  assertStorageKey,
+  resolveUploadOptions,
+  toBuffer,
+  type S3StorageConfig,
+  type StorageClient,
+  type StorageObject,
+} from './driver.js';
+import { presignUrl, sha256Hex, signRequest, uriEncode, EMPTY_PAYLOAD_HASH, type SigV4Credentials } from './sigv4.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+/** S3 rejects parts smaller than 5 MiB (except the last one) */
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function xmlDecode(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity.toLowerCase()]!;
+  });
+}
+
+function xmlEncode(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&${Object.keys(XML_ENTITIES).find((k) => XML_ENTITIES[k] === c)};`);
+}
+
+/** Text of the first `<tag>` in `xml`. S3 responses are flat enough for this. */
+export function xmlValue(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? xmlDecode(match[1]!) : undefined;
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map((m) => m[1]!);
+}
+
+/**
+ * Parse a ListObjectsV2 response.
+ */
+export function parseListObjects(xml: string): { objects: StorageObject[]; nextToken?: string } {
+  const objects = xmlBlocks(xml, 'Contents').map((block) => ({
+    key: xmlValue(block, 'Key')!,
+    size: Number(xmlValue(block, 'Size') ?? 0),
+    lastModified: new Date(xmlValue(block, 'LastModified') ?? 0),
+    etag: xmlValue(block, 'ETag')?.replace(/"/g, ''),
+  }));
+  const truncated = xmlValue(xml, 'IsTruncated') === 'true';
+  return { objects, nextToken: truncated ? xmlValue(xml, 'NextContinuationToken') : undefined };
+}
+
+// ---------------------------------------------------------------------------
+// Driver
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an S3 storage client.
+ */
+export function createS3Storage(config: S3StorageConfig): StorageClient {
+  const region = config.region ?? 'us-east-1';
+  const fetchFn = config.fetch ?? fetch;
+  const threshold = config.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+  const partSize = config.partSize ?? DEFAULT_PART_SIZE;
+  if (partSize < MIN_PART_SIZE) {
+    throw new Error(
+      `[AOR] S3 partSize ${partSize} is below the 5 MiB minimum.\n` +
+        `  Fix: Set partSize to at least ${MIN_PART_SIZE}.`,
+    );
+  }
+
+  const credentials: SigV4Credentials = {
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    sessionToken: config.sessionToken,
+    region,
+  };
+
+  const endpoint = (config.endpoint ?? `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+  const pathStyle = config.forcePathStyle ?? config.endpoint !== undefined;
+  const bucketUrl = pathStyle
+    ? `${endpoint}/${config.bucket}`
+    : endpoint.replace('://', `://${config.bucket}.`);
+  const publicUrl = (config.publicUrl ?? bucketUrl).replace(/\/+$/, '');
+
+  function objectUrl(key: string, query: Record<string, string> = {}): URL {
+    const url = new URL(key ? `${bucketUrl}/${uriEncode(key, false)}` : `${bucketUrl}/`);
+    for (const [name, value] of Object.entries(query)) url.searchParams.set(name, value);
+    return url;
+  }
+
+  async function send(
+    operation: string,
+    key: string,
+    init: { method: string; url: URL; headers?: Record<string, string>; body?: Buffer },
+  ): Promise<Response> {
+    const payloadHash = init.body ? sha256Hex(init.body) : EMPTY_PAYLOAD_HASH;
+    const headers = signRequest(credentials, { method: init.method, url: init.url, headers: init.headers, payloadHash });
+    delete headers.host; // set by fetch
+    const response = await fetchFn(init.url, { method: init.method, headers, body: init.body });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const code = xmlValue(text, 'Code') ?? response.statusText;
+      const message = xmlValue(text, 'Message');
+      const error = new Error(
+        `[AOR] S3 ${operation}${key ? ` "${key}"` : ''} failed: ${response.status} ${code}` +
+          (message ? ` — ${message}` : ''),
+      ) as Error & { status: number; code: string };
+      error.status = response.status;
+      error.code = code;
+      throw error;
+    }
+    return response;
+  }
+
+  async function multipartUpload(key: string, body: Buffer, headers: Record<string, string>): Promise<void> {
+    const size = Math.max(partSize, Math.ceil(body.length / MAX_PARTS));
+    const created = await send('CreateMultipartUpload', key, {
+      method: 'POST',
+      url: objectUrl(key, { uploads: '' }),
+      headers,
+    });
+    const uploadId = xmlValue(await created.text(), 'UploadId');
+    if (!uploadId) throw new Error(`[AOR] S3 CreateMultipartUpload "${key}" returned no UploadId`);
+
+    try {
+      const etags: string[] = [];
+      for (let offset = 0, part = 1; offset < body.length; offset += size, part++) {
+        const response = await send('UploadPart', key, {
+          method: 'PUT',
+          url: objectUrl(key, { partNumber: String(part), uploadId }),
+          body: body.subarray(offset, offset + size),
+        });
+        etags.push(response.headers.get('etag') ?? '');
+      }
+
+      const parts = etags
+        .map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${xmlEncode(etag)}</ETag></Part>`)
+        .join('');
+      const completed = await send('CompleteMultipartUpload', key, {
+        method: 'POST',
+        url: objectUrl(key, { uploadId }),
+        headers: { 'content-type': 'application/xml' },
+        body: Buffer.from(`<CompleteMultipartUpload>${parts}</CompleteMultipartUpload>`),
+      });
+      // S3 can report a failed completion with a 200 and an <Error> body
+      const result = await completed.text();
+      if (result.includes('<Error>')) {
+        throw new Error(`[AOR] S3 CompleteMultipartUpload "${key}" failed: ${xmlValue(result, 'Code')}`);
+      }
+    } catch (error) {
+      await send('AbortMultipartUpload', key, { method: 'DELETE', url: objectUrl(key, { uploadId }) }).catch(
+        () => undefined,
+      );
+      throw error;
+    }
+  }
+
+  function url(key: string): string {
+    assertStorageKey(key);
+    return `${publicUrl}/${uriEncode(key, false)}`;
+  }
+
+  return {
+    driver: 's3',
+    url,
+
+    async upload(key, body, options) {
+      assertStorageKey(key);
+      const { contentType, cacheControl } = resolveUploadOptions(options);
+      const headers: Record<string, string> = {};
+      if (contentType) headers['content-type'] = contentType;
+      if (cacheControl) headers['cache-control'] = cacheControl;
+
+      const data = toBuffer(body);
+      if (data.length >= threshold) {
+        await multipartUpload(key, data, headers);
+      } else {
+        await send('PutObject', key, { method: 'PUT', url: objectUrl(key), headers, body: data });
+      }
+      return url(key);
+    },
+
+    async download(key, options = {}) {
+      assertStorageKey(key);
+      const { maxBytes } = options;
+      const headers = maxBytes ? { range: `bytes=0-${maxBytes - 1}` } : undefined;
+      const response = await send('GetObject', key, { method: 'GET', url: objectUrl(key), headers });
+      const data = Buffer.from(await response.arrayBuffer());
+      return maxBytes ? data.subarray(0, maxBytes) : data;
+    },
+
+    async delete(key) {
+      assertStorageKey(key);
+      await send('DeleteObject', key, { method: 'DELETE', url: objectUrl(key) });
+    },
+
+    async list(prefix = '') {
+      const objects: StorageObject[] = [];
+      let token: string | undefined;
+      do {
+        const query: Record<string, string> = { 'list-type': '2' };
+        if (prefix) query.prefix = prefix;
+        if (token) query['continuation-token'] = token;
+        const response = await send('ListObjectsV2', '', { method: 'GET', url: objectUrl('', query) });
+        const page = parseListObjects(await response.text());
+        objects.push(...page.objects);
+        token = page.nextToken;
+      } while (token);
+      return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+
+    async getSignedUrl(key, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+      assertStorageKey(key);
+      return presignUrl(credentials, { method: 'GET', url: objectUrl(key), expiresIn: expiresInSeconds });
+    },
+
+    async getSignedUploadUrl(key, options = {}) {
+      assertStorageKey(key);
+      return presignUrl(credentials, {
+        method: 'PUT',
+        url: objectUrl(key),
+        headers: options.contentType ? { 'content-type': options.contentType } : undefined,
+        expiresIn: options.expiresIn ?? DEFAULT_SIGNED_URL_TTL,
+      });
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * AWS Signature Version 4
+ *
+ * Signs S3 requests with an `Authorization` header, or as a presigned URL
+ * (query string) a client can use without credentials. No SDK required.
+ *
+ * Reference: https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+  /** Service name (default: 's3') */
+  service?: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  url: URL;
+  /** Extra headers to sign, e.g. content-type or range */
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the body, or 'UNSIGNED-PAYLOAD' */
+  payloadHash: string;
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+export const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+/** Presigned URLs are valid for at most 7 days. */
+export const MAX_PRESIGN_EXPIRES = 7 * 24 * 3600;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/** RFC 3986 encoding, as SigV4 requires (`encodeURIComponent` leaves `!'()*`). */
+export function uriEncode(value: string, encodeSlash = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return encodeSlash ? encoded : encoded.replace(/%2F/g, '/');
+}
+
+/** `20130524T000000Z` */
+export function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)] as const)
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function signature(
+  credentials: SigV4Credentials,
+  request: SigV4Request,
+  headers: Record<string, string>,
+  query: URLSearchParams,
+  time: string,
+): { signature: string; signedHeaders: string; scope: string } {
+  const service = credentials.service ?? 's3';
+  const day = time.slice(0, 8);
+  const scope = `${day}/${credentials.region}/${service}/aws4_request`;
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    // URL.pathname is already percent-encoded once, which is what S3 expects
+    request.url.pathname || '/',
+    canonicalQuery(query),
+    names.map((name) => `${name}:${headers[name]!.trim().replace(/\s+/g, ' ')}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', time, scope, sha256Hex(canonicalRequest)].join('\n');
+  const key = [day, credentials.region, service, 'aws4_request'].reduce<Buffer | string>(
+    (k, part) => hmac(k, part),
+    `AWS4${credentials.secretAccessKey}`,
+  );
+  return { signature: hmac(key, stringToSign).toString('hex'), signedHeaders, scope };
+}
+
+function lowerCaseHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * Sign a request with an `Authorization` header.
+ * Returns every header to send, including `host` and the `x-amz-*` headers.
+ */
+export function signRequest(
+  credentials: SigV4Credentials,
+  request: SigV4Request,
+  now: Date = new Date(),
+): Record<string, string> {
+  const time = amzDate(now);
+  const headers: Record<string, string> = {
+    ...lowerCaseHeaders(request.headers),
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': time,
+  };
+  if (credentials.sessionToken) headers['x-amz-security-token'] = credentials.sessionToken;
+
+  const signed = signature(credentials, request, headers, request.url.searchParams, time);
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${signed.scope}, ` +
+    `SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`;
+  return headers;
+}
+
+/**
+ * Presign a request: the signature goes in the query string, so the URL
+ * works without credentials until it expires.
+ */
+export function presignUrl(
+  credentials: SigV4Credentials,
+  request: Omit<SigV4Request, 'payloadHash'> & { expiresIn: number },
+  now: Date = new Date(),
+): string {
+  if (!Number.isInteger(request.expiresIn) || request.expiresIn < 1 || request.expiresIn > MAX_PRESIGN_EXPIRES) {
+    throw new Error(
+      `[AOR] Invalid signed URL expiry ${request.expiresIn}.\n` +
+        `  Fix: Use a whole number of seconds from 1 to ${MAX_PRESIGN_EXPIRES} (7 days).`,
+    );
+  }
+
+  const time = amzDate(now);
+  const service = credentials.service ?? 's3';
+  const headers = { ...lowerCaseHeaders(request.headers), host: request.url.host };
+  const url = new URL(request.url);
+  const query = url.searchParams;
+  query.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  query.set('X-Amz-Credential', `${credentials.accessKeyId}/${time.slice(0, 8)}/${credentials.region}/${service}/aws4_request`);
+  query.set('X-Amz-Date', time);
+  query.set('X-Amz-Expires', String(request.expiresIn));
+  if (credentials.sessionToken) query.set('X-Amz-Security-Token', credentials.sessionToken);
+  query.set('X-Amz-SignedHeaders', Object.keys(headers).sort().join(';'));
+
+  const signed = signature(credentials, { ...request, url, payloadHash: UNSIGNED_PAYLOAD }, headers, query, time);
+  return `${url.origin}${url.pathname}?${canonicalQuery(query)}&X-Amz-Signature=${signed.signature}`;
+}
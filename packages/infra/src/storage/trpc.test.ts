@@ -0,0 +1,65 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { initTRPC, TRPCError } from "@trpc/server";
+import { createLocalStorage } from "./local.js";
+import { createUploader, defineUpload } from "./upload.js";
+import { createUploadRouter } from "./trpc.js";
+
+interface Context {
+  user?: { id: string };
+}
+
+const t = initTRPC.context<Context>().create();
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) throw new TRPCError({ code: "UNAUTHORIZED" });
+  return next({ ctx: { user: ctx.user } });
+});
+
+const root = mkdtempSync(join(tmpdir(), "vibe-upload-trpc-"));
+const uploader = createUploader({
+  storage: createLocalStorage({ root, secret: "s" }),
+  uploads: [defineUpload({ name: "document", accept: ["application/pdf"], maxSize: 1024 })],
+});
+const appRouter = t.router({
+  uploads: createUploadRouter({ router: t.router, procedure: protectedProcedure }, uploader),
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("Upload router", () => {
+  const caller = appRouter.createCaller({ user: { id: "u1" } });
+
+  it("prepares uploads through the app's procedure", async () => {
+    const prepared = await caller.uploads.prepare({
+      upload: "document",
+      filename: "a.pdf",
+      contentType: "application/pdf",
+      size: 10,
+    });
+    expect(prepared.key).toMatch(/^uploads\/document\/.+\.pdf$/);
+    expect(prepared.uploadUrl).toContain("signature=");
+  });
+
+  it("keeps the procedure's auth", async () => {
+    const anonymous = appRouter.createCaller({});
+    await expect(
+      anonymous.uploads.prepare({ upload: "document", filename: "a.pdf", contentType: "application/pdf", size: 10 }),
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("maps rejected files to BAD_REQUEST and unknown uploads to NOT_FOUND", async () => {
+    await expect(
+      caller.uploads.prepare({ upload: "document", filename: "a.png", contentType: "image/png", size: 10 }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST", message: expect.stringContaining("image/png is not allowed") });
+    await expect(caller.uploads.complete({ upload: "document", key: "uploads/document/missing.pdf" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(caller.uploads.complete({ upload: "avatar", key: "uploads/avatar/a.png" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Upload Router
+ *
+ * tRPC procedures for the direct-to-storage upload flow. Built from the
+ * app's own `router` and procedure, so uploads get the app's context and
+ * auth (pass `protectedProcedure` to require a signed-in user).
+ *
+ * A separate entry point (`@vibeonrails/infra/storage/trpc`) so storage
+ * works without `@trpc/server` installed.
+ *
+ * Usage:
+ *   import { router, protectedProcedure } from '@vibeonrails/core/api';
+ *   import { createUploadRouter } from '@vibeonrails/infra/storage/trpc';
+ *
+ *   export const appRouter = createAppRouter({
+ *     uploads: createUploadRouter({ router, procedure: protectedProcedure }, uploader),
+ *   });
+ */
+
+import {
+  TRPCError,
+  type AnyRootConfig,
+  type CreateRouterInner,
+  type ProcedureBuilder,
+  type ProcedureRouterRecord,
+  type unsetMarker,
+} from '@trpc/server';
+import { z } from 'zod';
+import { UploadRejectedError, type Uploader } from './upload.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type UnsetMarker = typeof unsetMarker;
+
+/** A procedure without input or output set yet, like `publicProcedure` or `protectedProcedure`. */
+interface BaseProcedureParams<TConfig extends AnyRootConfig> {
+  _config: TConfig;
+  _meta: unknown;
+  _ctx_out: unknown;
+  _input_in: UnsetMarker;
+  _input_out: UnsetMarker;
+  _output_in: UnsetMarker;
+  _output_out: UnsetMarker;
+}
+
+export interface UploadRouterBuilders<TConfig extends AnyRootConfig, TParams extends BaseProcedureParams<TConfig>> {
+  router: <TRecord extends ProcedureRouterRecord>(procedures: TRecord) => CreateRouterInner<TConfig, TRecord>;
+  procedure: ProcedureBuilder<TParams>;
+}
+
+export const prepareUploadInput = z.object({
+  upload: z.string().min(1),
+  filename: z.string().min(1).max(255),
+  contentType: z.string().min(1).max(255),
+  size: z.number().int().nonnegative(),
+});
+
+export const completeUploadInput = z.object({
+  upload: z.string().min(1),
+  key: z.string().min(1).max(1024),
+});
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+async function run<T>(uploader: Uploader, name: string, action: () => Promise<T>): Promise<T> {
+  if (!uploader.names.includes(name)) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Unknown upload "${name}"` });
+  }
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the `prepare` and `complete` upload procedures.
+ */
+export function createUploadRouter<TConfig extends AnyRootConfig, TParams extends BaseProcedureParams<TConfig>>(
+  builders: UploadRouterBuilders<TConfig, TParams>,
+  uploader: Uploader,
+) {
+  // Only the app's context and middleware differ between procedures; their
+  // input and output are unset, which is all the builder chain depends on.
+  const procedure = builders.procedure as unknown as ProcedureBuilder<BaseProcedureParams<TConfig>>;
+
+  return builders.router({
+    /** Validate a file and get a presigned URL to PUT it to */
+    prepare: procedure
+      .input(prepareUploadInput)
+      .mutation(({ input }) => run(uploader, input.upload, () => uploader.prepare(input.upload, input))),
+
+    /** Verify the uploaded file and derive its variants */
+    complete: procedure
+      .input(completeUploadInput)
+      .mutation(({ input }) => run(uploader, input.upload, () => uploader.complete(input.upload, input.key))),
+  });
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLocalStorage, createLocalStorageHandler, type LocalStorage } from "./local.js";
+import {
+  checkUploadFile,
+  createUploader,
+  defineUpload,
+  detectMimeType,
+  matchesMimeType,
+  UploadRejectedError,
+} from "./upload.js";
+import { buildSrcset, contentHash, responsiveVariants, variantKey, type ImageProcessor } from "./variants.js";
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(100, 1)]);
+const PDF = Buffer.from("%PDF-1.7\n...");
+
+/** Pretends to resize: output is as wide as asked (or 800), tagged with the format */
+const fakeProcessor: ImageProcessor = {
+  async process(_input, variant) {
+    const format = variant.format ?? "webp";
+    const width = variant.width ?? 800;
+    const height = variant.height ?? Math.round(width * 0.75);
+    return { data: Buffer.from(`${format}:${width}x${height}`), width, height, format };
+  },
+};
+
+const avatar = defineUpload({
+  name: "avatar",
+  accept: ["image/png", "image/jpeg"],
+  maxSize: 1024,
+  variants: { thumb: { width: 64, height: 64 }, ...responsiveVariants("webp", [320, 640]) },
+});
+
+const document = defineUpload({ name: "document", accept: ["application/pdf", "text/csv"], maxSize: 1024 });
+
+describe("defineUpload", () => {
+  it("applies defaults", () => {
+    expect(document).toMatchObject({ prefix: "uploads/document", expiresIn: 600, variants: {} });
+    expect(defineUpload({ ...document, prefix: "/docs/" }).prefix).toBe("docs");
+  });
+
+  it("rejects invalid definitions", () => {
+    expect(() => defineUpload({ name: "my avatar", accept: ["image/png"], maxSize: 1 })).toThrow("Invalid upload name");
+    expect(() => defineUpload({ name: "a", accept: [], maxSize: 1 })).toThrow("needs a list of MIME types");
+    expect(() => defineUpload({ name: "a", accept: ["png"], maxSize: 1 })).toThrow("needs a list of MIME types");
+    expect(() => defineUpload({ name: "a", accept: ["image/png"], maxSize: 0 })).toThrow("maxSize");
+    expect(() =>
+      defineUpload({ name: "a", accept: ["image/*", "application/pdf"], maxSize: 1, variants: { t: { width: 1 } } }),
+    ).toThrow("declares variants but accepts non-image files");
+    expect(() => defineUpload({ name: "a", accept: ["image/*"], maxSize: 1, variants: { t: {} } })).toThrow(
+      'variant "t" needs a width, height or format',
+    );
+  });
+});
+
+describe("Upload validation", () => {
+  it("matches MIME types with wildcards and parameters", () => {
+    expect(matchesMimeType("image/png", ["image/*"])).toBe(true);
+    expect(matchesMimeType("Text/CSV; charset=utf-8", ["text/csv"])).toBe(true);
+    expect(matchesMimeType("image/svg+xml", ["image/png"])).toBe(false);
+  });
+
+  it("never matches script-capable types through a wildcard", () => {
+    expect(matchesMimeType("image/svg+xml", ["image/*"])).toBe(false);
+    expect(matchesMimeType("text/html", ["text/*"])).toBe(false);
+    expect(matchesMimeType("image/svg+xml", ["image/svg+xml"])).toBe(true);
+  });
+
+  it("detects types from leading bytes", () => {
+    expect(detectMimeType(PNG)).toBe("image/png");
+    expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(detectMimeType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+    expect(detectMimeType(Buffer.from("\0\0\0\x1cftypavif"))).toBe("image/avif");
+    expect(detectMimeType(PDF)).toBe("application/pdf");
+    expect(detectMimeType(Buffer.from("a,b\n1,2"))).toBeUndefined();
+  });
+
+  it("describes type and size problems", () => {
+    expect(checkUploadFile(avatar, { contentType: "image/png", size: 10 })).toBeUndefined();
+    expect(checkUploadFile(avatar, { contentType: "image/gif", size: 10 })).toBe(
+      "File type image/gif is not allowed. Allowed: image/png, image/jpeg",
+    );
+    expect(checkUploadFile(avatar, { contentType: "image/png", size: 2048 })).toBe(
+      "File is too large (2 KB). Maximum: 1 KB",
+    );
+    expect(checkUploadFile(avatar, { contentType: "image/png", size: 0 })).toBe("File is empty");
+  });
+});
+
+describe("Uploader", () => {
+  let root: string;
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vibe-upload-"));
+    storage = createLocalStorage({ root, baseUrl: "http://localhost:3000/storage", secret: "s" });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function uploader() {
+    return createUploader({ storage, uploads: [avatar, document], processor: fakeProcessor });
+  }
+
+  /** PUT a file to a prepared URL through the local storage handler, like a browser would */
+  async function put(url: string, body: Buffer, contentType: string) {
+    const res = await createLocalStorageHandler(storage)(
+      new Request(url, { method: "PUT", body, headers: { "content-type": contentType } }),
+    );
+    expect(res.status).toBe(200);
+  }
+
+  it("requires a processor for uploads with variants", () => {
+    expect(() => createUploader({ storage, uploads: [avatar] })).toThrow("has no image processor");
+    expect(() => createUploader({ storage, uploads: [document, document] })).toThrow("defined twice");
+  });
+
+  it("prepares a presigned upload under the upload's prefix", async () => {
+    const prepared = await uploader().prepare("avatar", { filename: "Me.PNG", contentType: "image/png", size: 108 });
+
+    expect(prepared.key).toMatch(/^uploads\/avatar\/[0-9a-f-]{36}\.png$/);
+    expect(prepared.method).toBe("PUT");
+    expect(prepared.headers).toEqual({ "content-type": "image/png" });
+    expect(storage.verifySignedUrl(prepared.uploadUrl, "PUT")).toEqual({ key: prepared.key, contentType: "image/png" });
+  });
+
+  it("rejects files by declared type and size before presigning", async () => {
+    await expect(
+      uploader().prepare("avatar", { filename: "a.gif", contentType: "image/gif", size: 10 }),
+    ).rejects.toBeInstanceOf(UploadRejectedError);
+    await expect(uploader().prepare("avatar", { filename: "a.png", contentType: "image/png", size: 5000 })).rejects.toThrow(
+      "File is too large",
+    );
+    await expect(uploader().prepare("banner", { filename: "a.png", contentType: "image/png", size: 1 })).rejects.toThrow(
+      'Upload "banner" is not registered',
+    );
+  });
+
+  it("completes an upload with variants and a srcset", async () => {
+    const up = uploader();
+    const prepared = await up.prepare("avatar", { filename: "me.png", contentType: "image/png", size: PNG.length });
+    await put(prepared.uploadUrl, PNG, "image/png");
+
+    const stored = await up.complete("avatar", prepared.key);
+    const hash = contentHash(PNG);
+
+    expect(stored).toMatchObject({ key: prepared.key, contentType: "image/png", size: PNG.length, hash });
+    expect(stored.url).toBe(`http://localhost:3000/storage/${prepared.key}`);
+    expect(stored.variants.thumb).toMatchObject({
+      key: `uploads/avatar/variants/thumb/${variantKey(hash, 64, "webp")}`,
+      width: 64,
+      height: 64,
+      format: "webp",
+    });
+    expect((await storage.download(stored.variants.w320!.key)).toString()).toBe("webp:320x240");
+    expect(stored.srcset).toBe(
+      buildSrcset([
+        { url: stored.variants.w320!.url, width: 320 },
+        { url: stored.variants.w640!.url, width: 640 },
+      ]),
+    );
+  });
+
+  it("deletes files whose bytes do not match the accepted types", async () => {
+    const up = uploader();
+    const prepared = await up.prepare("avatar", { filename: "me.png", contentType: "image/png", size: PDF.length });
+    await put(prepared.uploadUrl, PDF, "image/png");
+
+    await expect(up.complete("avatar", prepared.key)).rejects.toThrow("File type application/pdf is not allowed");
+    expect(await storage.list("uploads/")).toEqual([]);
+  });
+
+  it("deletes oversized files without downloading them", async () => {
+    const up = uploader();
+    const prepared = await up.prepare("avatar", { filename: "me.png", contentType: "image/png", size: PNG.length });
+    await put(prepared.uploadUrl, Buffer.concat([PNG, Buffer.alloc(2048)]), "image/png");
+    const download = vi.spyOn(storage, "download");
+
+    await expect(up.complete("avatar", prepared.key)).rejects.toThrow("File is too large (2 KB)");
+    expect(download).not.toHaveBeenCalled();
+    expect(await storage.list("uploads/")).toEqual([]);
+  });
+
+  it("sniffs only the leading bytes and requires magic bytes for image types", async () => {
+    const up = uploader();
+    const prepared = await up.prepare("avatar", { filename: "me.png", contentType: "image/png", size: 10 });
+    await put(prepared.uploadUrl, Buffer.from("not an image"), "image/png");
+    const download = vi.spyOn(storage, "download");
+
+    await expect(up.complete("avatar", prepared.key)).rejects.toThrow("File type application/octet-stream is not allowed");
+    expect(download).toHaveBeenCalledTimes(1);
+    expect(download).toHaveBeenCalledWith(prepared.key, { maxBytes: 16 });
+    expect(await storage.list("uploads/")).toEqual([]);
+  });
+
+  it("rejects completing missing files and foreign keys", async () => {
+    await expect(uploader().complete("avatar", "uploads/avatar/nope.png")).rejects.toThrow("File was not uploaded");
+    await expect(uploader().complete("avatar", "uploads/document/x.pdf")).rejects.toThrow("does not belong");
+    await expect(uploader().complete("avatar", "uploads/avatar/variants/thumb/x.webp")).rejects.toThrow(
+      "does not belong",
+    );
+  });
+
+  it("stores files received by the server, using the extension for unsniffable types", async () => {
+    const stored = await uploader().store("document", { filename: "report.csv", data: Buffer.from("a,b\n1,2") });
+    expect(stored).toMatchObject({ contentType: "text/csv", size: 7, variants: {}, srcset: "" });
+    expect((await storage.download(stored.key)).toString()).toBe("a,b\n1,2");
+
+    await expect(uploader().store("document", { filename: "x.exe", data: Buffer.from("MZ") })).rejects.toThrow(
+      "File type application/octet-stream is not allowed",
+    );
+  });
+
+  it("does not accept unsniffable files through a wildcard by their extension", async () => {
+    const images = defineUpload({ name: "images", accept: ["image/*"], maxSize: 1024 });
+    const up = createUploader({ storage, uploads: [images] });
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+
+    await expect(up.store("images", { filename: "logo.svg", data: svg })).rejects.toThrow(
+      "File type application/octet-stream is not allowed",
+    );
+    await expect(up.prepare("images", { filename: "logo.svg", contentType: "image/svg+xml", size: svg.length })).rejects.toThrow(
+      "File type image/svg+xml is not allowed",
+    );
+    expect(await storage.list("uploads/")).toEqual([]);
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Uploads
+ *
+ * `defineUpload()` declares what a file input accepts — MIME types, max
+ * size — and which image variants to derive from it. `createUploader()`
+ * runs the direct-to-storage flow on top of a `StorageClient`:
+ *
+ *   1. prepare  — validate the declared type and size, return a presigned PUT URL
+ *   2. (browser PUTs the file straight to storage)
+ *   3. complete — check the stored size, then the sniffed type of the leading
+ *                 bytes, derive variants, return URLs. Rejected files are
+ *                 deleted; oversized ones without being downloaded.
+ *
+ * `createUploadRouter()` exposes both steps as tRPC procedures; the
+ * `FileUpload` component of `@vibeonrails/web` drives them from the browser.
+ *
+ * Usage:
+ *   import sharp from 'sharp';
+ *   import { createStorage, createUploader, createSharpImageProcessor, defineUpload } from '@vibeonrails/infra/storage';
+ *
+ *   export const avatar = defineUpload({
+ *     name: 'avatar',
+ *     accept: ['image/png', 'image/jpeg', 'image/webp'],
+ *     maxSize: 5 * 1024 * 1024,
+ *     variants: { thumb: { width: 128, height: 128 }, large: { width: 1024 } },
+ *   });
+ *
+ *   export const uploader = createUploader({
+ *     storage: createStorage(),
+ *     uploads: [avatar],
+ *     processor: createSharpImageProcessor(sharp),
+ *   });
+ */
+
+import { randomUUID } from 'node:crypto';
+import { assertStorageKey, contentTypeFor, toBuffer, type StorageClient } from './driver.js';
+import {
+  buildSrcset,
+  contentHash,
+  variantKey,
+  type ImageFormat,
+  type ImageProcessor,
+  type ImageVariant,
+} from './variants.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UploadConfig {
+  /** Identifies the upload in API calls, e.g. 'avatar' */
+  name: string;
+  /**
+   * Accepted MIME types; `image/*` matches every image type except SVG,
+   * which can carry script and must be listed explicitly
+   */
+  accept: readonly string[];
+  /** Maximum file size in bytes */
+  maxSize: number;
+  /** Image variants derived on completion, by name */
+  variants?: Record<string, ImageVariant>;
+  /** Key prefix of stored files (default: 'uploads/<name>') */
+  prefix?: string;
+  /** Seconds the presigned upload URL is valid (default: 600) */
+  expiresIn?: number;
+}
+
+export interface UploadDefinition {
+  readonly name: string;
+  readonly accept: readonly string[];
+  readonly maxSize: number;
+  readonly variants: Readonly<Record<string, ImageVariant>>;
+  readonly prefix: string;
+  readonly expiresIn: number;
+}
+
+export interface UploadFileInfo {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface PreparedUpload {
+  key: string;
+  /** Presigned URL to PUT the file to */
+  uploadUrl: string;
+  method: 'PUT';
+  /** Headers the PUT request must send */
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface StoredVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  size: number;
+}
+
+export interface StoredUpload {
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+  /** Content hash, as used in variant names */
+  hash: string;
+  variants: Record<string, StoredVariant>;
+  /** `srcset` of the width-based variants ('' without variants) */
+  srcset: string;
+}
+
+export interface UploaderOptions {
+  storage: StorageClient;
+  uploads: UploadDefinition[];
+  /** Required when an upload declares variants */
+  processor?: ImageProcessor;
+}
+
+export interface Uploader {
+  readonly names: readonly string[];
+  /** Validate a file and presign its upload */
+  prepare(name: string, file: UploadFileInfo): Promise<PreparedUpload>;
+  /** Verify an uploaded file and derive its variants */
+  complete(name: string, key: string): Promise<StoredUpload>;
+  /** Validate, store and process a file received by the server */
+  store(name: string, file: { filename: string; data: Buffer | Uint8Array }): Promise<StoredUpload>;
+}
+
+/**
+ * A file was rejected: wrong type, too large, or not uploaded.
+ * The message is safe to show to the person uploading.
+ */
+export class UploadRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+const UPLOAD_NAME = /^[a-z0-9][a-z0-9-_]*$/i;
+const DEFAULT_UPLOAD_TTL = 600;
+
+/** Types a browser may run script from; wildcards never match them */
+const ACTIVE_CONTENT_TYPES = new Set(['image/svg+xml', 'text/html', 'application/xhtml+xml', 'text/javascript']);
+
+/** Types `detectMimeType()` recognizes; files claiming one must have its magic bytes */
+const SNIFFED_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'video/mp4',
+  'application/pdf',
+  'application/zip',
+]);
+
+/** Leading bytes `detectMimeType()` needs */
+const SNIFF_BYTES = 16;
+
+// ---------------------------------------------------------------------------
+// Definition
+// ---------------------------------------------------------------------------
+
+/**
+ * Declare an upload.
+ */
+export function defineUpload(config: UploadConfig): UploadDefinition {
+  if (!UPLOAD_NAME.test(config.name)) {
+    throw new Error(
+      `[AOR] Invalid upload name "${config.name}".\n` +
+        '  Fix: Use letters, digits, dashes and underscores, e.g. "avatar".',
+    );
+  }
+  if (config.accept.length === 0 || !config.accept.every((type) => /^[\w.+-]+\/(\*|[\w.+-]+)$/.test(type))) {
+    throw new Error(
+      `[AOR] Upload "${config.name}" needs a list of MIME types in accept.\n` +
+        "  Fix: e.g. accept: ['image/png', 'image/jpeg'] or ['image/*'].",
+    );
+  }
+  if (!(Number.isFinite(config.maxSize) && config.maxSize > 0)) {
+    throw new Error(`[AOR] Upload "${config.name}" maxSize must be a positive number of bytes`);
+  }
+  const variants = config.variants ?? {};
+  if (Object.keys(variants).length > 0 && !config.accept.every((type) => type.startsWith('image/'))) {
+    throw new Error(
+      `[AOR] Upload "${config.name}" declares variants but accepts non-image files.\n` +
+        '  Fix: Only accept image types, or define a separate upload for other files.',
+    );
+  }
+  for (const [name, variant] of Object.entries(variants)) {
+    if (!UPLOAD_NAME.test(name) || (!variant.width && !variant.height && !variant.format)) {
+      throw new Error(`[AOR] Upload "${config.name}" variant "${name}" needs a width, height or format`);
+    }
+  }
+
+  const prefix = (config.prefix ?? `uploads/${config.name}`).replace(/^\/+|\/+$/g, '');
+  assertStorageKey(prefix);
+  return {
+    name: config.name,
+    accept: [...config.accept],
+    maxSize: config.maxSize,
+    variants,
+    prefix,
+    expiresIn: config.expiresIn ?? DEFAULT_UPLOAD_TTL,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a MIME type matches an accept list. `image/*` wildcards match
+ * every type but those that can carry script, such as SVG and HTML.
+ */
+export function matchesMimeType(contentType: string, accept: readonly string[]): boolean {
+  const type = contentType.split(';')[0]!.trim().toLowerCase();
+  return accept.some((pattern) => {
+    const p = pattern.toLowerCase();
+    return p.endsWith('/*') ? type.startsWith(p.slice(0, -1)) && !ACTIVE_CONTENT_TYPES.has(type) : type === p;
+  });
+}
+
+function startsWith(data: Buffer, bytes: number[] | string, offset = 0): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return data.length >= offset + expected.length && data.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * MIME type from a file's leading bytes, for the formats uploads commonly
+ * restrict. Undefined when the format is not recognized.
+ */
+export function detectMimeType(data: Buffer): string | undefined {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a')) return 'image/gif';
+  if (startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8)) return 'image/webp';
+  if (startsWith(data, 'ftyp', 4)) {
+    const brand = data.subarray(8, 12).toString('latin1');
+    return brand === 'avif' || brand === 'avis' ? 'image/avif' : 'video/mp4';
+  }
+  if (startsWith(data, '%PDF-')) return 'application/pdf';
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  return undefined;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/**
+ * Check a file's type and size against an upload; returns the problem, if any.
+ */
+export function checkUploadFile(upload: UploadDefinition, file: { contentType: string; size: number }): string | undefined {
+  if (!matchesMimeType(file.contentType, upload.accept)) {
+    return `File type ${file.contentType || 'unknown'} is not allowed. Allowed: ${upload.accept.join(', ')}`;
+  }
+  return checkUploadSize(upload, file.size);
+}
+
+function checkUploadSize(upload: UploadDefinition, size: number): string | undefined {
+  if (size > upload.maxSize) {
+    return `File is too large (${formatBytes(size)}). Maximum: ${formatBytes(upload.maxSize)}`;
+  }
+  if (size === 0) return 'File is empty';
+  return undefined;
+}
+
+/**
+ * Content type of received bytes. Sniffed when the format is recognized;
+ * otherwise the file extension is trusted only for a type the upload lists
+ * exactly, never through a wildcard, and never for a type that should have
+ * been sniffed (a `.png` without PNG bytes).
+ */
+function receivedContentType(upload: UploadDefinition, data: Buffer, filename: string): string {
+  const sniffed = detectMimeType(data);
+  if (sniffed) return sniffed;
+  const declared = contentTypeFor(filename);
+  const trusted = !SNIFFED_TYPES.has(declared) && upload.accept.some((type) => type.toLowerCase() === declared);
+  return trusted ? declared : 'application/octet-stream';
+}
+
+function extensionOf(filename: string): string {
+  const match = /\.([a-z0-9]{1,10})$/i.exec(filename);
+  return match ? `.${match[1]!.toLowerCase()}` : '';
+}
+
+// ---------------------------------------------------------------------------
+// Uploader
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an uploader for a set of uploads on a storage client.
+ */
+export function createUploader(options: UploaderOptions): Uploader {
+  const { storage, processor } = options;
+  const uploads = new Map<string, UploadDefinition>();
+  for (const upload of options.uploads) {
+    if (uploads.has(upload.name)) throw new Error(`[AOR] Upload "${upload.name}" is defined twice`);
+    if (Object.keys(upload.variants).length > 0 && !processor) {
+      throw new Error(
+        `[AOR] Upload "${upload.name}" declares variants, but the uploader has no image processor.\n` +
+          "  Fix: createUploader({ ..., processor: createSharpImageProcessor(sharp) }) with `import sharp from 'sharp'`.",
+      );
+    }
+    uploads.set(upload.name, upload);
+  }
+
+  function requireUpload(name: string): UploadDefinition {
+    const upload = uploads.get(name);
+    if (!upload) {
+      throw new Error(
+        `[AOR] Upload "${name}" is not registered.\n` +
+          `  Fix: Pass it to createUploader({ uploads: [...] }). Registered: ${[...uploads.keys()].join(', ') || 'none'}`,
+      );
+    }
+    return upload;
+  }
+
+  async function reject(key: string, problem: string): Promise<never> {
+    await storage.delete(key);
+    throw new UploadRejectedError(problem);
+  }
+
+  async function process(upload: UploadDefinition, key: string, data: Buffer): Promise<StoredUpload> {
+    const contentType = receivedContentType(upload, data, key);
+    const problem = checkUploadFile(upload, { contentType, size: data.length });
+    if (problem) return reject(key, problem);
+
+    const hash = contentHash(data);
+    const variants: Record<string, StoredVariant> = {};
+    for (const [name, variant] of Object.entries(upload.variants)) {
+      const image = await processor!.process(data, variant);
+      const variantPath = `${upload.prefix}/variants/${name}/${variantKey(hash, image.width, image.format)}`;
+      variants[name] = {
+        key: variantPath,
+        url: await storage.upload(variantPath, image.data, `image/${image.format}`),
+        width: image.width,
+        height: image.height,
+        format: image.format,
+        size: image.data.length,
+      };
+    }
+
+    const sized = Object.entries(upload.variants)
+      .filter(([, variant]) => variant.width && !variant.height)
+      .map(([name]) => variants[name]!);
+    return {
+      key,
+      url: storage.url(key),
+      contentType,
+      size: data.length,
+      hash,
+      variants,
+      srcset: buildSrcset(sized),
+    };
+  }
+
+  return {
+    names: [...uploads.keys()],
+
+    async prepare(name, file) {
+      const upload = requireUpload(name);
+      const problem = checkUploadFile(upload, file);
+      if (problem) throw new UploadRejectedError(problem);
+
+      const key = `${upload.prefix}/${randomUUID()}${extensionOf(file.filename)}`;
+      const contentType = file.contentType.split(';')[0]!.trim();
+      return {
+        key,
+        uploadUrl: await storage.getSignedUploadUrl(key, { contentType, expiresIn: upload.expiresIn }),
+        method: 'PUT',
+        headers: { 'content-type': contentType },
+        expiresAt: new Date(Date.now() + upload.expiresIn * 1000).toISOString(),
+      };
+    },
+
+    async complete(name, key) {
+      const upload = requireUpload(name);
+      const isOwnFile =
+        key.startsWith(`${upload.prefix}/`) && !key.slice(upload.prefix.length + 1).includes('/');
+      if (!isOwnFile) throw new UploadRejectedError(`Key "${key}" does not belong to upload "${name}"`);
+      assertStorageKey(key);
+
+      // Presigned PUTs do not limit the body: check the size before reading any of it
+      const stored = (await storage.list(key)).find((object) => object.key === key);
+      if (!stored) throw new UploadRejectedError('File was not uploaded, or the upload has not finished');
+      const sizeProblem = checkUploadSize(upload, stored.size);
+      if (sizeProblem) return reject(key, sizeProblem);
+
+      const head = await storage.download(key, { maxBytes: SNIFF_BYTES });
+      const problem = checkUploadFile(upload, { contentType: receivedContentType(upload, head, key), size: stored.size });
+      if (problem) return reject(key, problem);
+
+      return process(upload, key, await storage.download(key));
+    },
+
+    async store(name, file) {
+      const upload = requireUpload(name);
+      const data = toBuffer(file.data);
+      const contentType = receivedContentType(upload, data, file.filename);
+      const problem = checkUploadFile(upload, { contentType, size: data.length });
+      if (problem) throw new UploadRejectedError(problem);
+
+      const key = `${upload.prefix}/${randomUUID()}${extensionOf(file.filename)}`;
+      await storage.upload(key, data, contentType);
+      return process(upload, key, data);
+    },
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Image Variants
+ *
+ * Content hashing and variant naming shared by upload processing and the
+ * build-time image cache (`vibe build`), so a variant of the same source
+ * bytes gets the same name everywhere: `<hash>-<width>.<format>`.
+ */
+
+import { createHash } from 'node:crypto';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Responsive image widths for srcset generation. */
+export const RESPONSIVE_WIDTHS = [320, 640, 768, 1024, 1280, 1536] as const;
+
+export const IMAGE_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export interface ImageVariant {
+  /** Target width in px; images are never enlarged */
+  width?: number;
+  /** Target height in px; with width, the image is cropped to cover both */
+  height?: number;
+  /** Output format (default: 'webp') */
+  format?: ImageFormat;
+  /** Encoder quality, 1-100 (default: 80) */
+  quality?: number;
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+/**
+ * Resizes and re-encodes images. `createSharpImageProcessor()` adapts sharp;
+ * any other image library can implement the same interface.
+ */
+export interface ImageProcessor {
+  process(input: Buffer, variant: ImageVariant): Promise<ProcessedImage>;
+}
+
+/** The subset of the sharp API the sharp processor uses. */
+export interface SharpLike {
+  (input: Buffer): SharpInstanceLike;
+}
+
+export interface SharpInstanceLike {
+  rotate(): SharpInstanceLike;
+  resize(options: { width?: number; height?: number; fit: 'cover' | 'inside'; withoutEnlargement: boolean }): SharpInstanceLike;
+  toFormat(format: ImageFormat, options: { quality: number }): SharpInstanceLike;
+  toBuffer(options: { resolveWithObject: true }): Promise<{ data: Buffer; info: { width: number; height: number } }>;
+}
+
+// ---------------------------------------------------------------------------
+// Hashing and naming
+// ---------------------------------------------------------------------------
+
+/**
+ * Content hash of a file: the first 16 hex chars of its SHA-256.
+ */
+export function contentHash(data: Buffer | Uint8Array | string): string {
+  return createHash('sha256').update(data).digest('hex').substring(0, 16);
+}
+
+/**
+ * File name of a variant: `<hash>-<width>.<format>`.
+ */
+export function variantKey(sourceHash: string, width: number, format: string): string {
+  return `${sourceHash}-${width}.${format}`;
+}
+
+/**
+ * `srcset` attribute value for a set of variants, narrowest first.
+ */
+export function buildSrcset(variants: ReadonlyArray<{ url: string; width: number }>): string {
+  return [...variants]
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * One variant per responsive width, named `w320`, `w640`, ...
+ */
+export function responsiveVariants(
+  format: ImageFormat = 'webp',
+  widths: readonly number[] = RESPONSIVE_WIDTHS,
+): Record<string, ImageVariant> {
+  return Object.fromEntries(widths.map((width) => [`w${width}`, { width, format }]));
+}
+
+// ---------------------------------------------------------------------------
+// Processing
+// ---------------------------------------------------------------------------
+
+/**
+ * Image processor backed by sharp. Pass the module in so sharp stays an
+ * optional dependency: `createSharpImageProcessor(sharp)`.
+ */
+export function createSharpImageProcessor(sharp: SharpLike): ImageProcessor {
+  return {
+    async process(input, variant) {
+      const format = variant.format ?? 'webp';
+      let image = sharp(input).rotate(); // apply EXIF orientation
+      if (variant.width || variant.height) {
+        image = image.resize({
+          width: variant.width,
+          height: variant.height,
+          fit: variant.width && variant.height ? 'cover' : 'inside',
+          withoutEnlargement: true,
+        });
+      }
+      const { data, info } = await image
+        .toFormat(format, { quality: variant.quality ?? 80 })
+        .toBuffer({ resolveWithObject: true });
+      return { data, width: info.width, height: info.height, format };
+    },
+  };
+}
@@ -9,6 +9,7 @@ export default defineConfig({
     'email/index': 'src/email/index.ts',
     'cache/index': 'src/cache/index.ts',
     'storage/index': 'src/storage/index.ts',
+    'storage/trpc': 'src/storage/trpc.ts',
     'realtime/index': 'src/realtime/index.ts',
     'monitoring/index': 'src/monitoring/index.ts',
     'rate-limit/index': 'src/rate-limit/index.ts',
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { z } from "zod";
+import type { AIProvider, ChatResponse, ChatStreamChunk } from "@vibeonrails/ai";
+import { createMockAIProvider, toGenerateFunction } from "./ai-fixtures.js";
+
+async function* streamOf(parts: string[]): AsyncIterable<ChatStreamChunk> {
+  for (const content of parts) yield { content, done: false };
+  yield { content: "", done: true };
+}
+
+function createRealProvider(): AIProvider {
+  return {
+    name: "anthropic",
+    capabilities: {
+      vision: true,
+      toolUse: true,
+      streaming: true,
+      structuredOutput: true,
+      systemPrompt: true,
+      embeddings: false,
+    },
+    supports(capability) {
+      return this.capabilities[capability];
+    },
+    chat: vi.fn(async (options) => {
+      if (options.stream) return streamOf(["Hel", "lo"]);
+      return {
+        content: `Echo: ${String(options.messages[0]?.content)}`,
+        model: "claude-sonnet-4-20250514",
+        usage: { promptTokens: 5, completionTokens: 3, totalTokens: 8 },
+        finishReason: "stop",
+      };
+    }),
+    generateStructured: vi.fn(async () => ({
+      data: { category: "bug" },
+      model: "claude-sonnet-4-20250514",
+      usage: { promptTokens: 5, completionTokens: 3, totalTokens: 8 },
+    })),
+    embed: vi.fn(async () => ({
+      embeddings: [[0.1, 0.2]],
+      model: "text-embedding-3-small",
+      usage: { promptTokens: 2, completionTokens: 0, totalTokens: 2 },
+    })),
+  } as AIProvider;
+}
+
+describe("createMockAIProvider", () => {
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    fixtureDir = mkdtempSync(join(tmpdir(), "vibe-ai-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it("should require a provider in record mode", () => {
+    expect(() => createMockAIProvider({ fixtureDir, mode: "record" })).toThrow(
+      "requires a provider",
+    );
+  });
+
+  it("should record chat responses and replay them without the real provider", async () => {
+    const real = createRealProvider();
+    const recorder = createMockAIProvider({ fixtureDir, mode: "record", provider: real });
+
+    const recorded = await recorder.chat({ messages: [{ role: "user", content: "Hi" }] });
+    expect(real.chat).toHaveBeenCalledOnce();
+    expect(recorder.name).toBe("anthropic");
+    expect(readdirSync(fixtureDir)).toHaveLength(1);
+
+    const replayer = createMockAIProvider({ fixtureDir });
+    // Whitespace-only prompt changes match the same fixture
+    const replayed = await replayer.chat({ messages: [{ role: "user", content: "Hi  " }] });
+
+    expect(replayed).toEqual(recorded);
+    expect(replayer.calls).toHaveLength(1);
+    expect(replayer.calls[0]).toMatchObject({ kind: "chat", prompt: "Hi" });
+  });
+
+  it("should throw on requests that were never recorded", async () => {
+    const replayer = createMockAIProvider({ fixtureDir });
+
+    await expect(
+      replayer.chat({ messages: [{ role: "user", content: "Unknown question" }] }),
+    ).rejects.toThrow('No AI fixture for chat request "Unknown question"');
+  });
+
+  it("should distinguish requests by system prompt and model", async () => {
+    const recorder = createMockAIProvider({
+      fixtureDir,
+      mode: "record",
+      provider: createRealProvider(),
+    });
+    await recorder.chat({ messages: [{ role: "user", content: "Hi" }], systemPrompt: "A" });
+
+    const replayer = createMockAIProvider({ fixtureDir });
+    await expect(
+      replayer.chat({ messages: [{ role: "user", content: "Hi" }], systemPrompt: "B" }),
+    ).rejects.toThrow("No AI fixture");
+    await expect(
+      replayer.chat({
+        messages: [{ role: "user", content: "Hi" }],
+        systemPrompt: "A",
+        model: "gpt-4o",
+      }),
+    ).rejects.toThrow("No AI fixture");
+  });
+
+  it("should record and replay streamed chunks", async () => {
+    const recorder = createMockAIProvider({
+      fixtureDir,
+      mode: "record",
+      provider: createRealProvider(),
+    });
+    const options = { messages: [{ role: "user" as const, content: "Hi" }], stream: true };
+
+    const chunks: string[] = [];
+    for await (const chunk of (await recorder.chat(options)) as AsyncIterable<ChatStreamChunk>) {
+      chunks.push(chunk.content);
+    }
+
+    const replayed: string[] = [];
+    const replayer = createMockAIProvider({ fixtureDir });
+    for await (const chunk of (await replayer.chat(options)) as AsyncIterable<ChatStreamChunk>) {
+      replayed.push(chunk.content);
+    }
+
+    expect(chunks).toEqual(["Hel", "lo", ""]);
+    expect(replayed).toEqual(chunks);
+  });
+
+  it("should replay structured output through the schema", async () => {
+    const schema = z.object({
+      category: z.string(),
+      confidence: z.number().default(1),
+    });
+    const recorder = createMockAIProvider({
+      fixtureDir,
+      mode: "record",
+      provider: createRealProvider(),
+    });
+    await recorder.generateStructured({ prompt: "Classify", schema });
+
+    const replayer = createMockAIProvider({ fixtureDir });
+    const result = await replayer.generateStructured({ prompt: "Classify", schema });
+    expect(result.data).toEqual({ category: "bug", confidence: 1 });
+  });
+
+  it("should record and replay embeddings", async () => {
+    const recorder = createMockAIProvider({
+      fixtureDir,
+      mode: "record",
+      provider: createRealProvider(),
+    });
+    await recorder.embed({ input: "billing" });
+
+    const replayer = createMockAIProvider({ fixtureDir });
+    expect((await replayer.embed({ input: "billing" })).embeddings).toEqual([[0.1, 0.2]]);
+    await expect(replayer.embed({ input: "login" })).rejects.toThrow("No AI fixture");
+  });
+
+  it("should report configured name and capabilities in replay mode", () => {
+    const replayer = createMockAIProvider({
+      fixtureDir,
+      name: "ollama",
+      capabilities: { vision: false },
+    });
+    expect(replayer.name).toBe("ollama");
+    expect(replayer.supports("vision")).toBe(false);
+    expect(replayer.supports("toolUse")).toBe(true);
+  });
+});
+
+describe("toGenerateFunction", () => {
+  it("should send the prompt and system prompt as a chat request", async () => {
+    const provider = createRealProvider();
+    const generate = toGenerateFunction(provider, { temperature: 0 });
+
+    expect(await generate("Write a tweet", "You write tweets")).toBe("Echo: Write a tweet");
+    expect(provider.chat).toHaveBeenCalledWith({
+      temperature: 0,
+      messages: [{ role: "user", content: "Write a tweet" }],
+      systemPrompt: "You write tweets",
+      stream: false,
+    });
+  });
+
+  it("should return the response content", async () => {
+    const provider = createRealProvider();
+    vi.mocked(provider.chat).mockResolvedValueOnce({
+      content: '{"category":"bug"}',
+      model: "m",
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      finishReason: "stop",
+    } satisfies ChatResponse);
+
+    expect(await toGenerateFunction(provider)("x", "y")).toBe('{"category":"bug"}');
+  });
+});
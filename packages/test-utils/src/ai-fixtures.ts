@@ -0,0 +1,277 @@
+/**
+ * AI Fixture Recording and Playback
+ *
+ * A deterministic AIProvider for tests. In record mode it wraps a real
+ * provider and writes every response to a JSON fixture; in replay mode it
+ * answers from those fixtures without network access and throws on any
+ * request that was never recorded.
+ *
+ * Requests are matched on their normalized content (messages, system
+ * prompt, model, temperature, tools, schema) — the same key the AI
+ * response cache uses — so fixtures survive whitespace-only prompt edits.
+ *
+ * Usage:
+ *   const ai = createMockAIProvider({
+ *     fixtureDir: join(__dirname, "__fixtures__/ai"),
+ *     mode: process.env.AI_FIXTURES === "record" ? "record" : "replay",
+ *     provider: process.env.AI_FIXTURES === "record" ? createAI() : undefined,
+ *   });
+ *   const result = await classifyFeedback({ ..., generate: toGenerateFunction(ai) });
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { z } from "zod";
+import {
+  createCacheKey,
+  type AIProvider,
+  type AIProviderName,
+  type AICapability,
+  type CapabilitiesMap,
+  type ChatOptions,
+  type ChatResponse,
+  type ChatStreamChunk,
+  type EmbedOptions,
+  type EmbedResponse,
+  type GenerateStructuredOptions,
+  type GenerateStructuredResponse,
+} from "@vibeonrails/ai";
+
+/**
+ * Fixture modes: record real responses, or replay recorded ones.
+ */
+export type AIFixtureMode = "record" | "replay";
+
+export type AIFixtureKind = "chat" | "chatStream" | "structured" | "embed";
+
+/**
+ * Recorded AI call.
+ */
+export interface AIFixture {
+  readonly kind: AIFixtureKind;
+  readonly key: string;
+  /** Last user prompt, for humans reading the fixture */
+  readonly prompt: string;
+  /** ChatResponse, ChatStreamChunk[], GenerateStructuredResponse or EmbedResponse */
+  readonly response: unknown;
+  readonly recordedAt: string;
+}
+
+export interface MockAIProviderOptions {
+  /** Directory the fixture JSON files are read from and written to */
+  readonly fixtureDir: string;
+  /** Default: "replay" */
+  readonly mode?: AIFixtureMode;
+  /** Real provider to record from (required in record mode) */
+  readonly provider?: AIProvider;
+  /** Provider name reported in replay mode (default: "openai") */
+  readonly name?: AIProviderName;
+  /** Capabilities reported in replay mode (default: all supported) */
+  readonly capabilities?: Partial<CapabilitiesMap>;
+}
+
+/**
+ * Provider returned by createMockAIProvider, with the calls it served.
+ */
+export interface MockAIProvider extends AIProvider {
+  readonly mode: AIFixtureMode;
+  /** Fixtures served or recorded, in call order */
+  readonly calls: AIFixture[];
+}
+
+const ALL_CAPABILITIES: CapabilitiesMap = {
+  vision: true,
+  toolUse: true,
+  streaming: true,
+  structuredOutput: true,
+  systemPrompt: true,
+  embeddings: true,
+};
+
+/** Fixtures are shared between providers, so the key ignores the recording provider */
+const KEY_PROVIDER = "fixture";
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+function embedKey(options: EmbedOptions): string {
+  const normalized = {
+    kind: "embed",
+    input: Array.isArray(options.input) ? options.input : [options.input],
+    model: options.model ?? null,
+    dimensions: options.dimensions ?? null,
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+function promptSummary(
+  request: ChatOptions | GenerateStructuredOptions<z.ZodType> | EmbedOptions,
+): string {
+  const toText = (content: unknown): string =>
+    typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content
+            .map((part: { type: string; text?: string }) =>
+              part.type === "text" ? part.text : `[${part.type}]`,
+            )
+            .join(" ")
+        : "";
+
+  if ("messages" in request) {
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    return toText(lastUser?.content ?? "");
+  }
+  if ("prompt" in request) return toText(request.prompt);
+  return Array.isArray(request.input) ? request.input.join("\n") : request.input;
+}
+
+// ---------------------------------------------------------------------------
+// Mock provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a record/replay AIProvider backed by JSON fixtures.
+ */
+export function createMockAIProvider(options: MockAIProviderOptions): MockAIProvider {
+  const mode = options.mode ?? "replay";
+  const recorder = options.provider;
+  if (mode === "record" && !recorder) {
+    throw new Error("createMockAIProvider: record mode requires a provider to record from");
+  }
+
+  const capabilities: CapabilitiesMap = recorder
+    ? recorder.capabilities
+    : { ...ALL_CAPABILITIES, ...options.capabilities };
+  const calls: AIFixture[] = [];
+
+  function fixturePath(kind: AIFixtureKind, key: string): string {
+    return join(options.fixtureDir, `${kind}-${key.slice(0, 16)}.json`);
+  }
+
+  function save(fixture: AIFixture): void {
+    if (!existsSync(options.fixtureDir)) {
+      mkdirSync(options.fixtureDir, { recursive: true });
+    }
+    writeFileSync(
+      fixturePath(fixture.kind, fixture.key),
+      JSON.stringify(fixture, null, 2),
+      "utf-8",
+    );
+  }
+
+  function load(kind: AIFixtureKind, key: string, prompt: string): AIFixture {
+    const filePath = fixturePath(kind, key);
+    if (!existsSync(filePath)) {
+      throw new Error(
+        `No AI fixture for ${kind} request "${prompt.slice(0, 80)}" (expected ${filePath}). ` +
+          "Re-run the test in record mode to create it.",
+      );
+    }
+    return JSON.parse(readFileSync(filePath, "utf-8")) as AIFixture;
+  }
+
+  /**
+   * Replay the fixture for a request, or call the real provider and record it.
+   */
+  async function serve<R>(
+    kind: AIFixtureKind,
+    key: string,
+    prompt: string,
+    call: (provider: AIProvider) => Promise<R>,
+  ): Promise<R> {
+    let fixture: AIFixture;
+    if (mode === "record") {
+      fixture = {
+        kind,
+        key,
+        prompt,
+        response: await call(recorder!),
+        recordedAt: new Date().toISOString(),
+      };
+      save(fixture);
+    } else {
+      fixture = load(kind, key, prompt);
+    }
+    calls.push(fixture);
+    return fixture.response as R;
+  }
+
+  async function* replayStream(chunks: ChatStreamChunk[]): AsyncIterable<ChatStreamChunk> {
+    for (const chunk of chunks) yield chunk;
+  }
+
+  return {
+    get name() {
+      return recorder?.name ?? options.name ?? "openai";
+    },
+    capabilities,
+    mode,
+    calls,
+
+    supports(capability: AICapability): boolean {
+      return capabilities[capability];
+    },
+
+    async chat(
+      chatOptions: ChatOptions,
+    ): Promise<ChatResponse | AsyncIterable<ChatStreamChunk>> {
+      const key = createCacheKey(KEY_PROVIDER, chatOptions);
+      const prompt = promptSummary(chatOptions);
+
+      if (!chatOptions.stream) {
+        return serve("chat", key, prompt, (p) => p.chat(chatOptions) as Promise<ChatResponse>);
+      }
+
+      // Streams are recorded as the full list of chunks
+      const chunks = await serve("chatStream", key, prompt, async (p) => {
+        const recorded: ChatStreamChunk[] = [];
+        const stream = (await p.chat(chatOptions)) as AsyncIterable<ChatStreamChunk>;
+        for await (const chunk of stream) recorded.push(chunk);
+        return recorded;
+      });
+      return replayStream(chunks);
+    },
+
+    async generateStructured<T extends z.ZodType>(
+      structuredOptions: GenerateStructuredOptions<T>,
+    ): Promise<GenerateStructuredResponse<z.infer<T>>> {
+      const response = await serve(
+        "structured",
+        createCacheKey(KEY_PROVIDER, structuredOptions),
+        promptSummary(structuredOptions),
+        (p) => p.generateStructured(structuredOptions),
+      );
+
+      // Fixtures are plain JSON; parse so defaults and transforms still apply
+      return { ...response, data: structuredOptions.schema.parse(response.data) as z.infer<T> };
+    },
+
+    async embed(embedOptions: EmbedOptions): Promise<EmbedResponse> {
+      return serve("embed", embedKey(embedOptions), promptSummary(embedOptions), (p) =>
+        p.embed(embedOptions),
+      );
+    },
+  };
+}
+
+/**
+ * Adapt a provider to the `generate(prompt, systemPrompt)` function that
+ * the marketing transform engine and feedback classifier take.
+ */
+export function toGenerateFunction(
+  provider: AIProvider,
+  chatOptions: Omit<ChatOptions, "messages" | "systemPrompt" | "stream"> = {},
+): (prompt: string, systemPrompt: string) => Promise<string> {
+  return async (prompt, systemPrompt) => {
+    const response = (await provider.chat({
+      ...chatOptions,
+      messages: [{ role: "user", content: prompt }],
+      systemPrompt,
+      stream: false,
+    })) as ChatResponse;
+    return response.content;
+  };
+}
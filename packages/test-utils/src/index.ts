@@ -7,6 +7,17 @@
 // Fixtures
 export { FixtureStore, type HttpFixture } from "./fixtures.js";
 
+// AI fixtures (record/replay AIProvider)
+export {
+  createMockAIProvider,
+  toGenerateFunction,
+  type MockAIProvider,
+  type MockAIProviderOptions,
+  type AIFixture,
+  type AIFixtureKind,
+  type AIFixtureMode,
+} from "./ai-fixtures.js";
+
 // Content helpers
 export {
   createTempContent,
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FileUpload } from "./FileUpload.js";
+import { validateFile, type PreparedUpload, type UploadResult } from "../../hooks/useUpload.js";
+
+const prepared: PreparedUpload = {
+  key: "uploads/avatar/abc.png",
+  uploadUrl: "https://storage.test/uploads/avatar/abc.png?signature=x",
+  method: "PUT",
+  headers: { "content-type": "image/png" },
+  expiresAt: "2030-01-01T00:00:00.000Z",
+};
+
+const stored: UploadResult = {
+  key: prepared.key,
+  url: "https://storage.test/uploads/avatar/abc.png",
+  contentType: "image/png",
+  size: 4,
+  hash: "0123456789abcdef",
+  variants: {},
+  srcset: "",
+};
+
+function setup(overrides: Partial<React.ComponentProps<typeof FileUpload>> = {}) {
+  const props = {
+    label: "Avatar",
+    upload: "avatar",
+    accept: ["image/png", "image/jpeg"],
+    maxSize: 1024,
+    prepare: vi.fn().mockResolvedValue(prepared),
+    complete: vi.fn().mockResolvedValue(stored),
+    put: vi.fn().mockResolvedValue(undefined),
+    onUploaded: vi.fn(),
+    onError: vi.fn(),
+    ...overrides,
+  };
+  render(<FileUpload {...props} />);
+  return { props, user: userEvent.setup({ applyAccept: false }) };
+}
+
+const png = () => new File([new Uint8Array([137, 80, 78, 71])], "me.png", { type: "image/png" });
+
+describe("FileUpload", () => {
+  it("renders a labelled file input limited to accepted types", () => {
+    setup();
+    const input = screen.getByLabelText("Avatar");
+    expect(input).toHaveAttribute("type", "file");
+    expect(input).toHaveAttribute("accept", "image/png,image/jpeg");
+  });
+
+  it("prepares, sends and completes an upload", async () => {
+    const { props, user } = setup();
+    const file = png();
+    await user.upload(screen.getByLabelText("Avatar"), file);
+
+    await waitFor(() => expect(props.onUploaded).toHaveBeenCalledWith(stored));
+    expect(props.prepare).toHaveBeenCalledWith({
+      upload: "avatar",
+      filename: "me.png",
+      contentType: "image/png",
+      size: 4,
+    });
+    expect(props.put).toHaveBeenCalledWith(prepared, file, expect.any(Function));
+    expect(props.complete).toHaveBeenCalledWith({ upload: "avatar", key: prepared.key });
+    expect(screen.getByRole("status")).toHaveTextContent("Upload complete");
+    expect(screen.getByAltText("Avatar preview")).toHaveAttribute("src", stored.url);
+  });
+
+  it("rejects a disallowed type before sending anything", async () => {
+    const { props, user } = setup();
+    const file = new File(["x"], "notes.txt", { type: "text/plain" });
+    await user.upload(screen.getByLabelText("Avatar"), file);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("File type text/plain is not allowed");
+    expect(props.prepare).not.toHaveBeenCalled();
+    expect(props.onError).toHaveBeenCalledWith("File type text/plain is not allowed");
+    expect(screen.getByLabelText("Avatar")).toHaveAttribute("aria-invalid", "true");
+  });
+
+  it("shows the server's reason when completion fails", async () => {
+    const { props, user } = setup({
+      complete: vi.fn().mockRejectedValue(new Error("File content does not match image/png")),
+    });
+    await user.upload(screen.getByLabelText("Avatar"), png());
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("File content does not match image/png");
+    expect(props.onUploaded).not.toHaveBeenCalled();
+  });
+});
+
+describe("validateFile", () => {
+  it("matches wildcard types and enforces the size limit", () => {
+    expect(validateFile({ type: "image/webp", size: 10 }, { accept: ["image/*"] })).toBeNull();
+    expect(validateFile({ type: "image/png", size: 2048 }, { maxSize: 1024 })).toBe(
+      "File is too large (max 1 KB)",
+    );
+    expect(validateFile({ type: "", size: 1 }, { accept: ["application/pdf"] })).toBe(
+      "File type unknown is not allowed",
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import React from "react";
+import {
+  useUpload,
+  type UploadResult,
+  type UseUploadOptions,
+} from "../../hooks/useUpload.js";
+
+// ---------------------------------------------------------------------------
+// FileUpload
+// ---------------------------------------------------------------------------
+
+export interface FileUploadProps extends UseUploadOptions {
+  label: string;
+  helpText?: string;
+  disabled?: boolean;
+  id?: string;
+  className?: string;
+  /** Show a preview of uploaded images (default: true) */
+  preview?: boolean;
+  onUploaded?: (result: UploadResult) => void;
+  onError?: (message: string) => void;
+}
+
+const STATUS_TEXT = {
+  uploading: "Uploading…",
+  processing: "Processing…",
+  done: "Upload complete",
+} as const;
+
+export function FileUpload({
+  label,
+  helpText,
+  disabled,
+  id,
+  className,
+  preview = true,
+  onUploaded,
+  onError,
+  ...options
+}: FileUploadProps) {
+  const { start, status, progress, error, result } = useUpload(options);
+  const inputId = id ?? label.toLowerCase().replace(/\s+/g, "-");
+  const errorId = error ? `${inputId}-error` : undefined;
+  const helpId = helpText && !error ? `${inputId}-help` : undefined;
+  const busy = status === "uploading" || status === "processing";
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+    const uploaded = await start(file);
+    // Allow picking the same file again after a failure
+    input.value = "";
+    if (uploaded) onUploaded?.(uploaded);
+  };
+
+  const onErrorRef = React.useRef(onError);
+  onErrorRef.current = onError;
+  React.useEffect(() => {
+    if (error) onErrorRef.current?.(error);
+  }, [error]);
+
+  const thumbnail = result?.contentType.startsWith("image/") ? result : null;
+
+  return (
+    <div className={["stack stack-2", className].filter(Boolean).join(" ")}>
+      <label htmlFor={inputId} className="label">
+        {label}
+      </label>
+      <input
+        id={inputId}
+        type="file"
+        className={["input", error && "input-error"].filter(Boolean).join(" ")}
+        accept={options.accept?.join(",")}
+        disabled={disabled || busy}
+        aria-invalid={error ? "true" : undefined}
+        aria-describedby={errorId ?? helpId}
+        onChange={handleChange}
+      />
+      {status === "uploading" && (
+        <progress
+          max={1}
+          value={progress}
+          aria-label={`${label} upload progress`}
+        />
+      )}
+      {status !== "idle" && status !== "error" && (
+        <p className="help-text" role="status">
+          {STATUS_TEXT[status]}
+        </p>
+      )}
+      {preview && thumbnail && (
+        <img
+          src={thumbnail.url}
+          srcSet={thumbnail.srcset || undefined}
+          alt={`${label} preview`}
+          style={{ maxWidth: "100%", height: "auto" }}
+        />
+      )}
+      {error && (
+        <p id={errorId} className="error-text" role="alert">
+          {error}
+        </p>
+      )}
+      {helpText && !error && (
+        <p id={helpId} className="help-text">
+          {helpText}
+        </p>
+      )}
+    </div>
+  );
+}
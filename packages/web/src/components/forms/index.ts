@@ -1,2 +1,4 @@
 export { FormField } from "./FormField.js";
 export type { FormFieldProps } from "./FormField.js";
+export { FileUpload } from "./FileUpload.js";
+export type { FileUploadProps } from "./FileUpload.js";
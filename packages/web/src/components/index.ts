@@ -13,6 +13,8 @@ export type { ToastProps, ToastVariant } from "./ui/Toast.js";
 // Form Components
 export { FormField } from "./forms/FormField.js";
 export type { FormFieldProps } from "./forms/FormField.js";
+export { FileUpload } from "./forms/FileUpload.js";
+export type { FileUploadProps } from "./forms/FileUpload.js";
 
 // Data Components
 export { DataTable } from "./data/DataTable.js";
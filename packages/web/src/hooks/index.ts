@@ -1,3 +1,28 @@
 export { createTRPCReact, createQueryClient, createTRPCLink } from "./useApi.js";
 export { useAuth, initAuthFromStorage } from "./useAuth.js";
 export type { AuthState, AuthUser } from "./useAuth.js";
+export { useUpload, validateFile, putFile } from "./useUpload.js";
+export type {
+  PreparedUpload,
+  UploadResult,
+  UploadedVariant,
+  UploadStatus,
+  UploadState,
+  PutFile,
+  UseUploadOptions,
+  UseUploadResult,
+} from "./useUpload.js";
+export { createRealtimeClient } from "./realtime.js";
+export type {
+  ChannelHandlers,
+  ChannelMessage,
+  PresenceMember,
+  PresenceMessage,
+  RealtimeClient,
+  RealtimeClientOptions,
+  RealtimeMessageMap,
+  RealtimeStatus,
+  RealtimeTransport,
+} from "./realtime.js";
+export { useChannel } from "./useChannel.js";
+export type { ChannelStatus, UseChannelOptions, UseChannelResult } from "./useChannel.js";
@@ -0,0 +1,337 @@
+// ---------------------------------------------------------------------------
+// Realtime client — WebSocket connection with SSE fallback
+//
+// Talks to `createRealtimeRoutes()` from `@vibeonrails/infra/realtime`. One
+// client holds one connection for every channel: it connects on the first
+// subscription, reconnects with backoff when the connection drops or the
+// server stops pinging, and subscribes to its channels again after every
+// reconnect. When WebSockets cannot connect, it falls back to Server-Sent
+// Events.
+//
+//   import type { AppMessages } from "../server/realtime";
+//
+//   export const realtime = createRealtimeClient<AppMessages>({
+//     url: "/realtime",
+//     getToken: () => useAuth.getState().accessToken,
+//   });
+// ---------------------------------------------------------------------------
+
+/** Payload types by message type, e.g. `InferRealtimeMessages<typeof messages>` */
+export type RealtimeMessageMap = Record<string, unknown>;
+
+export type RealtimeStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type RealtimeTransport = "websocket" | "sse";
+
+export interface PresenceMember {
+  clientId: string;
+  userId?: string;
+  data?: Record<string, unknown>;
+  joinedAt: string;
+}
+
+export type PresenceMessage = {
+  type: "presence.join" | "presence.leave";
+  channel: string;
+  payload: PresenceMember;
+};
+
+export type ChannelMessage<M extends RealtimeMessageMap> =
+  | { [K in keyof M & string]: { type: K; channel: string; payload: M[K] } }[keyof M & string]
+  | PresenceMessage;
+
+export interface ChannelHandlers<M extends RealtimeMessageMap> {
+  /** Presence data sent with the subscription, e.g. a display name */
+  presence?: Record<string, unknown>;
+  onMessage?: (message: ChannelMessage<M>) => void;
+  /** Called after every (re)subscription with the members present */
+  onSubscribed?: (members: PresenceMember[]) => void;
+  /** Called when the server refuses the subscription or a message */
+  onError?: (message: string) => void;
+}
+
+export interface RealtimeClientOptions {
+  /** Base URL of the realtime routes (default: "/realtime") */
+  url?: string;
+  /** Access token sent as the `token` query parameter */
+  getToken?: () => string | null;
+  /** "auto" tries a WebSocket first and falls back to SSE (default: "auto") */
+  transport?: "auto" | RealtimeTransport;
+  /** First reconnect delay, doubled per attempt (default: 500ms) */
+  minReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** Reconnect when nothing arrived for this long (default: 60000ms) */
+  timeoutMs?: number;
+}
+
+export interface RealtimeClient<M extends RealtimeMessageMap = RealtimeMessageMap> {
+  readonly status: RealtimeStatus;
+  /** The transport in use, once connected */
+  readonly transport: RealtimeTransport | null;
+  /** Subscribe to a channel; returns a function that unsubscribes */
+  subscribe: (channel: string, handlers: ChannelHandlers<M>) => () => void;
+  /** Send a message to a channel; false when not connected */
+  send: <K extends keyof M & string>(channel: string, type: K, payload: M[K]) => boolean;
+  /** Listen to status changes; returns a function that stops listening */
+  onStatus: (listener: (status: RealtimeStatus) => void) => () => void;
+  close: () => void;
+}
+
+interface Frame {
+  type: string;
+  channel?: string;
+  payload?: unknown;
+}
+
+/** Failed WebSocket attempts before "auto" switches to SSE */
+const WEBSOCKET_ATTEMPTS = 2;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function resolveUrl(url: string, path: string, token: string | null, protocol?: "ws"): string {
+  const base = typeof window !== "undefined" ? window.location.href : "http://localhost/";
+  const resolved = new URL(`${url.replace(/\/$/, "")}${path}`, base);
+  if (protocol) resolved.protocol = resolved.protocol === "https:" ? "wss:" : "ws:";
+  if (token) resolved.searchParams.set("token", token);
+  return resolved.toString();
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a realtime client. Nothing connects until the first subscription.
+ */
+export function createRealtimeClient<M extends RealtimeMessageMap = RealtimeMessageMap>(
+  options: RealtimeClientOptions = {},
+): RealtimeClient<M> {
+  const url = options.url ?? "/realtime";
+  const minDelay = options.minReconnectDelayMs ?? 500;
+  const maxDelay = options.maxReconnectDelayMs ?? 15_000;
+  const timeoutMs = options.timeoutMs ?? 60_000;
+
+  const channels = new Map<string, Set<ChannelHandlers<M>>>();
+  // Members of the channels the server confirmed, for handlers added later
+  const members = new Map<string, PresenceMember[]>();
+  const statusListeners = new Set<(status: RealtimeStatus) => void>();
+  let status: RealtimeStatus = "idle";
+  let transport: RealtimeTransport | null = null;
+  let useSse = options.transport === "sse" || typeof WebSocket === "undefined";
+  let socket: WebSocket | undefined;
+  let events: EventSource | undefined;
+  let sseClientId: string | undefined;
+  let attempts = 0;
+  let websocketFailures = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function setStatus(next: RealtimeStatus): void {
+    if (status === next) return;
+    status = next;
+    for (const listener of [...statusListeners]) listener(next);
+  }
+
+  function write(frame: Frame): boolean {
+    if (status !== "open") return false;
+    if (socket) {
+      socket.send(JSON.stringify(frame));
+      return true;
+    }
+    if (events && sseClientId) {
+      const token = options.getToken?.() ?? null;
+      void fetch(resolveUrl(url, `/events/${sseClientId}`, null), {
+        method: "POST",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        credentials: "include",
+        body: JSON.stringify(frame),
+      }).catch(() => {});
+      return true;
+    }
+    return false;
+  }
+
+  function subscribeFrame(channel: string): Frame {
+    const presence = [...(channels.get(channel) ?? [])].find((h) => h.presence)?.presence;
+    return { type: "subscribe", channel, payload: presence };
+  }
+
+  function opened(): void {
+    attempts = 0;
+    websocketFailures = 0;
+    setStatus("open");
+    for (const channel of channels.keys()) write(subscribeFrame(channel));
+  }
+
+  /** Reconnect when the server goes quiet (it pings every 25s by default) */
+  function heard(): void {
+    if (silenceTimer) clearTimeout(silenceTimer);
+    silenceTimer = setTimeout(() => dropped(), timeoutMs);
+  }
+
+  function receive(raw: string): void {
+    heard();
+    let frame: Frame;
+    try {
+      frame = JSON.parse(raw) as Frame;
+    } catch {
+      return;
+    }
+    const handlers = frame.channel ? [...(channels.get(frame.channel) ?? [])] : [];
+
+    switch (frame.type) {
+      case "ping":
+        // Over SSE the server only pings to keep proxies from closing the stream
+        if (socket) write({ type: "pong" });
+        return;
+      case "pong":
+      case "unsubscribed":
+        return;
+      case "ready":
+        sseClientId = (frame.payload as { clientId: string }).clientId;
+        opened();
+        return;
+      case "subscribed": {
+        const present = (frame.payload as { presence?: PresenceMember[] } | undefined)?.presence ?? [];
+        members.set(frame.channel!, present);
+        for (const h of handlers) h.onSubscribed?.(present);
+        return;
+      }
+      case "error": {
+        const message = (frame.payload as { message?: string } | undefined)?.message ?? "Realtime error";
+        for (const h of handlers) h.onError?.(message);
+        return;
+      }
+    }
+    if (frame.type === "presence.join" || frame.type === "presence.leave") {
+      const member = frame.payload as PresenceMember;
+      const current = members.get(frame.channel!);
+      if (current) {
+        const others = current.filter((m) => m.clientId !== member.clientId);
+        members.set(frame.channel!, frame.type === "presence.join" ? [...others, member] : others);
+      }
+    }
+    for (const h of handlers) h.onMessage?.(frame as ChannelMessage<M>);
+  }
+
+  function teardown(): void {
+    if (silenceTimer) clearTimeout(silenceTimer);
+    silenceTimer = undefined;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+      socket.close();
+    }
+    events?.close();
+    socket = undefined;
+    events = undefined;
+    sseClientId = undefined;
+    transport = null;
+    members.clear();
+  }
+
+  /** The connection was lost: reconnect with exponential backoff and jitter */
+  function dropped(): void {
+    teardown();
+    if (channels.size === 0) {
+      setStatus("idle");
+      return;
+    }
+    setStatus("reconnecting");
+    const delay = Math.min(maxDelay, minDelay * 2 ** attempts) * (0.5 + Math.random() / 2);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect();
+    }, delay);
+  }
+
+  function connect(): void {
+    if (socket || events || reconnectTimer) return;
+    if (status !== "reconnecting") setStatus("connecting");
+    const token = options.getToken?.() ?? null;
+
+    if (!useSse) {
+      const ws = new WebSocket(resolveUrl(url, "", token, "ws"));
+      let wasOpen = false;
+      socket = ws;
+      transport = "websocket";
+      ws.onopen = () => {
+        wasOpen = true;
+        heard();
+        opened();
+      };
+      ws.onmessage = (event: MessageEvent) => {
+        if (typeof event.data === "string") receive(event.data);
+      };
+      ws.onclose = () => {
+        if (!wasOpen && options.transport !== "websocket" && ++websocketFailures >= WEBSOCKET_ATTEMPTS) {
+          useSse = true;
+        }
+        dropped();
+      };
+      return;
+    }
+
+    const source = new EventSource(resolveUrl(url, "/events", token), { withCredentials: true });
+    events = source;
+    transport = "sse";
+    source.onmessage = (event: MessageEvent<string>) => receive(event.data);
+    source.onerror = () => {
+      // EventSource retries by itself (and sends `ready` again); take over once it gives up
+      if (source.readyState === 2) dropped();
+      else setStatus("reconnecting");
+    };
+  }
+
+  return {
+    get status() {
+      return status;
+    },
+
+    get transport() {
+      return transport;
+    },
+
+    subscribe(channel, handlers) {
+      const set = channels.get(channel);
+      if (!set) {
+        // Registered before the frame is built, which reads their presence
+        channels.set(channel, new Set([handlers]));
+        write(subscribeFrame(channel));
+      } else {
+        // Already subscribed: the server does not confirm twice
+        if (members.has(channel)) handlers.onSubscribed?.(members.get(channel)!);
+        set.add(handlers);
+      }
+      if (status === "idle" || status === "closed") connect();
+
+      return () => {
+        const current = channels.get(channel);
+        if (!current?.delete(handlers) || current.size > 0) return;
+        channels.delete(channel);
+        members.delete(channel);
+        write({ type: "unsubscribe", channel });
+      };
+    },
+
+    send(channel, type, payload) {
+      return write({ type, channel, payload });
+    },
+
+    onStatus(listener) {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+
+    close() {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = undefined;
+      teardown();
+      setStatus("closed");
+    },
+  };
+}
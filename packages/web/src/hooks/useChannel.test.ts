@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { createRealtimeClient } from "./realtime.js";
+import { useChannel } from "./useChannel.js";
+
+type Messages = { chat: { text: string } };
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: { type: string; channel?: string; payload?: unknown }[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data) as FakeWebSocket["sent"][number]);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(frame: unknown) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+const latest = () => FakeWebSocket.instances.at(-1)!;
+
+const member = (clientId: string) => ({ clientId, joinedAt: "2026-01-01T00:00:00.000Z" });
+
+describe("useChannel", () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("subscribes, tracks presence and delivers messages", () => {
+    const client = createRealtimeClient<Messages>({ getToken: () => "t0k" });
+    const onMessage = vi.fn();
+    const { result } = renderHook(() => useChannel(client, "room:1", { presence: { name: "Ada" }, onMessage }));
+
+    expect(latest().url).toBe("ws://localhost:3000/realtime?token=t0k");
+    act(() => latest().open());
+    expect(latest().sent).toEqual([{ type: "subscribe", channel: "room:1", payload: { name: "Ada" } }]);
+    expect(result.current.status).toBe("subscribing");
+
+    act(() => latest().receive({ type: "subscribed", channel: "room:1", payload: { presence: [member("a")] } }));
+    act(() => latest().receive({ type: "presence.join", channel: "room:1", payload: member("b") }));
+    act(() => latest().receive({ type: "chat", channel: "room:1", payload: { text: "hi" } }));
+
+    expect(result.current.status).toBe("subscribed");
+    expect(result.current.members.map((m) => m.clientId)).toEqual(["a", "b"]);
+    expect(onMessage).toHaveBeenLastCalledWith({ type: "chat", channel: "room:1", payload: { text: "hi" } });
+
+    expect(result.current.send("chat", { text: "yo" })).toBe(true);
+    expect(latest().sent.at(-1)).toEqual({ type: "chat", channel: "room:1", payload: { text: "yo" } });
+  });
+
+  it("sends presence when joining a channel on an open connection", () => {
+    const client = createRealtimeClient<Messages>();
+    renderHook(() => useChannel(client, "room:1", { presence: { name: "A" } }));
+    act(() => latest().open());
+
+    renderHook(() => useChannel(client, "room:2", { presence: { name: "B" } }));
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(latest().sent).toEqual([
+      { type: "subscribe", channel: "room:1", payload: { name: "A" } },
+      { type: "subscribe", channel: "room:2", payload: { name: "B" } },
+    ]);
+  });
+
+  it("resubscribes after a reconnect", () => {
+    const client = createRealtimeClient<Messages>({ minReconnectDelayMs: 100 });
+    const { result } = renderHook(() => useChannel(client, "room:1"));
+    act(() => latest().open());
+    act(() => latest().receive({ type: "subscribed", channel: "room:1", payload: { presence: [] } }));
+
+    act(() => latest().drop());
+    expect(result.current.status).toBe("subscribing");
+    expect(client.status).toBe("reconnecting");
+
+    act(() => vi.advanceTimersByTime(100));
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    act(() => latest().open());
+    expect(latest().sent).toEqual([{ type: "subscribe", channel: "room:1" }]);
+    act(() => latest().receive({ type: "subscribed", channel: "room:1", payload: { presence: [] } }));
+    expect(result.current.status).toBe("subscribed");
+  });
+
+  it("answers pings and reconnects when the server goes silent", () => {
+    const client = createRealtimeClient<Messages>({ timeoutMs: 1000, minReconnectDelayMs: 100 });
+    renderHook(() => useChannel(client, "room:1"));
+    act(() => latest().open());
+
+    act(() => latest().receive({ type: "ping" }));
+    expect(latest().sent.at(-1)).toEqual({ type: "pong" });
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(latest().readyState).toBe(3);
+    act(() => vi.advanceTimersByTime(100));
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it("unsubscribes on unmount and reports refused subscriptions", () => {
+    const client = createRealtimeClient<Messages>();
+    const { result, unmount } = renderHook(() => useChannel(client, "private:1"));
+    act(() => latest().open());
+
+    act(() =>
+      latest().receive({ type: "error", channel: "private:1", payload: { message: "Not allowed to subscribe" } }),
+    );
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toBe("Not allowed to subscribe");
+
+    unmount();
+    expect(latest().sent.at(-1)).toEqual({ type: "unsubscribe", channel: "private:1" });
+  });
+});
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ChannelMessage,
+  PresenceMember,
+  RealtimeClient,
+  RealtimeMessageMap,
+} from "./realtime.js";
+
+// ---------------------------------------------------------------------------
+// useChannel — subscribe a component to a realtime channel
+//
+// Subscribes while mounted (and `channel` is not null), keeps the channel's
+// presence list, and subscribes again by itself after the client
+// reconnects. `onMessage` always sees the latest props.
+//
+//   const { status, members, send } = useChannel(realtime, `room:${roomId}`, {
+//     presence: { name: user.name },
+//     onMessage: (message) => {
+//       if (message.type === "chat") addMessage(message.payload);
+//     },
+//   });
+//   send("chat", { text }); // typed by the client's message map
+// ---------------------------------------------------------------------------
+
+export type ChannelStatus = "idle" | "subscribing" | "subscribed" | "error";
+
+export interface UseChannelOptions<M extends RealtimeMessageMap> {
+  /** Presence data other subscribers see, e.g. a display name */
+  presence?: Record<string, unknown>;
+  onMessage?: (message: ChannelMessage<M>) => void;
+}
+
+export interface UseChannelResult<M extends RealtimeMessageMap> {
+  /** "subscribing" again while the client reconnects */
+  status: ChannelStatus;
+  /** Why the server refused the subscription or the last message */
+  error: string | null;
+  /** Members present in the channel, on every server instance */
+  members: PresenceMember[];
+  /** Send a message to the channel; false when not connected */
+  send: <K extends keyof M & string>(type: K, payload: M[K]) => boolean;
+}
+
+export function useChannel<M extends RealtimeMessageMap>(
+  client: RealtimeClient<M>,
+  channel: string | null,
+  options: UseChannelOptions<M> = {},
+): UseChannelResult<M> {
+  const [status, setStatus] = useState<ChannelStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!channel) {
+      setStatus("idle");
+      setMembers([]);
+      return;
+    }
+    setStatus("subscribing");
+    setError(null);
+
+    const unsubscribe = client.subscribe(channel, {
+      presence: optionsRef.current.presence,
+      onSubscribed: (present) => {
+        setStatus("subscribed");
+        setError(null);
+        setMembers(present);
+      },
+      onError: (message) => {
+        setError(message);
+        setStatus((prev) => (prev === "subscribing" ? "error" : prev));
+      },
+      onMessage: (message) => {
+        if (message.type === "presence.join" || message.type === "presence.leave") {
+          const member = message.payload as PresenceMember;
+          setMembers((prev) => {
+            const others = prev.filter((m) => m.clientId !== member.clientId);
+            return message.type === "presence.join" ? [...others, member] : others;
+          });
+        }
+        optionsRef.current.onMessage?.(message);
+      },
+    });
+    // The client subscribes again after reconnecting; show that meanwhile
+    const stopListening = client.onStatus((next) => {
+      if (next !== "open") setStatus((prev) => (prev === "subscribed" ? "subscribing" : prev));
+    });
+
+    return () => {
+      stopListening();
+      unsubscribe();
+      setMembers([]);
+    };
+  }, [client, channel]);
+
+  const send = useCallback(
+    <K extends keyof M & string>(type: K, payload: M[K]) =>
+      channel ? client.send(channel, type, payload) : false,
+    [client, channel],
+  );
+
+  return { status, error, members, send };
+}
@@ -0,0 +1,198 @@
+import { useCallback, useRef, useState } from "react";
+
+// ---------------------------------------------------------------------------
+// useUpload — direct-to-storage uploads
+//
+// Drives the two-step flow of `createUploadRouter()` from
+// `@vibeonrails/infra/storage/trpc`: `prepare` returns a presigned URL, the
+// browser PUTs the file straight to storage, then `complete` verifies it and
+// derives the image variants.
+//
+//   const prepare = trpc.uploads.prepare.useMutation();
+//   const complete = trpc.uploads.complete.useMutation();
+//   const { start, status, progress } = useUpload({
+//     upload: "avatar",
+//     prepare: prepare.mutateAsync,
+//     complete: complete.mutateAsync,
+//   });
+// ---------------------------------------------------------------------------
+
+export interface PreparedUpload {
+  key: string;
+  uploadUrl: string;
+  method: "PUT";
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface UploadedVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  format: string;
+  size: number;
+}
+
+export interface UploadResult {
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+  hash: string;
+  variants: Record<string, UploadedVariant>;
+  srcset: string;
+}
+
+export type UploadStatus = "idle" | "uploading" | "processing" | "done" | "error";
+
+export type PutFile = (
+  prepared: PreparedUpload,
+  file: File,
+  onProgress: (fraction: number) => void,
+) => Promise<void>;
+
+export interface UseUploadOptions {
+  /** Upload name, as passed to `defineUpload()` on the server */
+  upload: string;
+  prepare: (input: {
+    upload: string;
+    filename: string;
+    contentType: string;
+    size: number;
+  }) => Promise<PreparedUpload>;
+  complete: (input: { upload: string; key: string }) => Promise<UploadResult>;
+  /** Accepted MIME types, checked before anything is sent */
+  accept?: readonly string[];
+  /** Maximum size in bytes, checked before anything is sent */
+  maxSize?: number;
+  /** Sends the file to the presigned URL (default: `putFile`) */
+  put?: PutFile;
+}
+
+export interface UploadState {
+  status: UploadStatus;
+  /** Fraction of the file sent, 0 to 1 */
+  progress: number;
+  error: string | null;
+  result: UploadResult | null;
+}
+
+export interface UseUploadResult extends UploadState {
+  /** Upload a file; resolves to null when it fails (see `error`) */
+  start: (file: File) => Promise<UploadResult | null>;
+  reset: () => void;
+}
+
+const IDLE: UploadState = { status: "idle", progress: 0, error: null, result: null };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Check a file against accepted types and a size limit.
+ * Returns a message for the user, or null when the file is fine.
+ * The server checks again; this only saves a doomed upload.
+ */
+export function validateFile(
+  file: Pick<File, "type" | "size">,
+  options: { accept?: readonly string[]; maxSize?: number },
+): string | null {
+  const { accept, maxSize } = options;
+  if (accept && accept.length > 0) {
+    const type = file.type.toLowerCase();
+    const ok = accept.some((pattern) =>
+      pattern.endsWith("/*")
+        ? type.startsWith(pattern.slice(0, -1).toLowerCase())
+        : type === pattern.toLowerCase(),
+    );
+    if (!ok) return `File type ${file.type || "unknown"} is not allowed`;
+  }
+  if (maxSize !== undefined && file.size > maxSize) {
+    return `File is too large (max ${formatSize(maxSize)})`;
+  }
+  return null;
+}
+
+/**
+ * PUT a file to a presigned URL. Uses XMLHttpRequest because fetch does
+ * not report upload progress.
+ */
+export const putFile: PutFile = (prepared, file, onProgress) =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(prepared.method, prepared.uploadUrl);
+    for (const [name, value] of Object.entries(prepared.headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Upload failed (${xhr.status})`));
+    };
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    xhr.send(file);
+  });
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+export function useUpload(options: UseUploadOptions): UseUploadResult {
+  const [state, setState] = useState<UploadState>(IDLE);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Ignore updates from an upload that was superseded or reset
+  const runRef = useRef(0);
+
+  const start = useCallback(async (file: File) => {
+    const { upload, prepare, complete, accept, maxSize, put = putFile } = optionsRef.current;
+    const run = ++runRef.current;
+    const update = (next: Partial<UploadState>) => {
+      if (runRef.current === run) setState((prev) => ({ ...prev, ...next }));
+    };
+
+    const problem = validateFile(file, { accept, maxSize });
+    if (problem) {
+      update({ ...IDLE, status: "error", error: problem });
+      return null;
+    }
+
+    try {
+      update({ ...IDLE, status: "uploading" });
+      const prepared = await prepare({
+        upload,
+        filename: file.name,
+        contentType: file.type || "application/octet-stream",
+        size: file.size,
+      });
+      await put(prepared, file, (progress) => update({ progress }));
+      update({ status: "processing", progress: 1 });
+      const result = await complete({ upload, key: prepared.key });
+      update({ status: "done", result });
+      return result;
+    } catch (error) {
+      update({
+        status: "error",
+        error: error instanceof Error ? error.message : "Upload failed",
+      });
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    runRef.current++;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, start, reset };
+}